@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { canAccessRoute } from '@/config/permissions.config';
 
 // Rutas que requieren autenticación
 const protectedRoutes = [
@@ -12,16 +13,32 @@ const protectedRoutes = [
   '/admin',
 ];
 
-// Rutas que solo admins pueden acceder
-const adminOnlyRoutes = [
-  '/admin',
-];
-
 // Rutas públicas (solo para no autenticados)
 const publicOnlyRoutes = [
   '/login',
 ];
 
+// Rutas abiertas a cualquiera, con o sin sesión, limitadas por IP
+const rateLimitedRoutes = [
+  '/catalog',
+];
+
+// Portal de lectores: usa su propia sesión (documento + PIN), no el JWT del personal
+const portalRoutes = [
+  '/portal',
+];
+
+const portalPublicRoutes = [
+  '/portal/login',
+];
+
+// Máximo de peticiones por IP dentro de la ventana
+const RATE_LIMIT = { max: 60, windowMs: 60 * 1000 };
+
+// Registro en memoria por instancia: solo cuenta las cargas de la página /catalog,
+// no las llamadas a la API. El límite por IP de /public/* lo debe aplicar el backend
+const rateLimitLog = new Map<string, number[]>();
+
 // Función para verificar si una ruta coincide con algún patrón
 function matchesRoute(pathname: string, routes: string[]): boolean {
   return routes.some(route => {
@@ -32,6 +49,31 @@ function matchesRoute(pathname: string, routes: string[]): boolean {
   });
 }
 
+// Función para verificar si una IP superó el límite de peticiones
+function isRateLimited(ip: string): boolean {
+  const now = Date.now();
+  const hits = (rateLimitLog.get(ip) || []).filter(time => now - time < RATE_LIMIT.windowMs);
+
+  if (hits.length >= RATE_LIMIT.max) {
+    rateLimitLog.set(ip, hits);
+    return true;
+  }
+
+  hits.push(now);
+  rateLimitLog.set(ip, hits);
+
+  // Evitar que el registro crezca sin límite
+  if (rateLimitLog.size > 5000) {
+    rateLimitLog.forEach((times, key) => {
+      if (times.every(time => now - time >= RATE_LIMIT.windowMs)) {
+        rateLimitLog.delete(key);
+      }
+    });
+  }
+
+  return false;
+}
+
 // Función para decodificar JWT (sin verificación de firma - solo para extraer datos)
 function decodeJWT(token: string): any {
   try {
@@ -60,7 +102,40 @@ function isTokenExpired(token: string): boolean {
 
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
+
+  // Limitar el catálogo público antes de cualquier otra verificación
+  if (matchesRoute(pathname, rateLimitedRoutes)) {
+    const ip = request.ip || request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+    if (isRateLimited(ip)) {
+      return new NextResponse('Demasiadas solicitudes. Intenta nuevamente en unos minutos.', {
+        status: 429,
+        headers: { 'Retry-After': String(RATE_LIMIT.windowMs / 1000) },
+      });
+    }
+    return NextResponse.next();
+  }
   
+  // Portal de lectores
+  if (matchesRoute(pathname, portalRoutes)) {
+    const portalTokenKey = process.env.NEXT_PUBLIC_PORTAL_TOKEN_KEY || 'biblioteca_portal_token';
+    const portalToken = request.cookies.get(portalTokenKey)?.value;
+    const hasPortalSession = !!portalToken && !isTokenExpired(portalToken);
+
+    if (matchesRoute(pathname, portalPublicRoutes)) {
+      return hasPortalSession
+        ? NextResponse.redirect(new URL('/portal', request.url))
+        : NextResponse.next();
+    }
+
+    if (!hasPortalSession) {
+      const redirectUrl = new URL('/portal/login', request.url);
+      redirectUrl.searchParams.set('redirect', pathname);
+      return NextResponse.redirect(redirectUrl);
+    }
+
+    return NextResponse.next();
+  }
+
   // Obtener token de las cookies
   const tokenKey = process.env.NEXT_PUBLIC_JWT_STORAGE_KEY || 'biblioteca_token';
   const token = request.cookies.get(tokenKey)?.value;
@@ -88,9 +163,9 @@ export function middleware(request: NextRequest) {
       return NextResponse.redirect(redirectUrl);
     }
 
-    // Verificar rutas solo para admin
-    if (matchesRoute(pathname, adminOnlyRoutes) && userRole !== 'admin') {
-      // Redirigir a dashboard si no es admin
+    // Verificar el permiso que exige la ruta según el rol
+    if (!canAccessRoute(userRole, pathname)) {
+      // Redirigir a dashboard si el rol no tiene permiso
       return NextResponse.redirect(new URL('/dashboard', request.url));
     }
   }
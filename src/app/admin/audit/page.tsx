@@ -0,0 +1,60 @@
+// src/app/admin/audit/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiShield } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { AuditLogViewer } from '@/components/admin/audit';
+import { AdminRoute } from '@/components/auth/ProtectedRoute';
+
+export default function AuditPage() {
+  const router = useRouter();
+
+  return (
+    <AdminRoute>
+      <DashboardLayout>
+        <VStack spacing={6} align="stretch">
+          {/* Header */}
+          <Box>
+            <HStack justify="space-between" align="start" mb={4}>
+              <VStack align="start" spacing={2}>
+                <HStack spacing={3}>
+                  <Box p={2} bg="pink.50" borderRadius="lg">
+                    <FiShield size={24} color="#D53F8C" />
+                  </Box>
+                  <VStack align="start" spacing={0}>
+                    <Heading size="lg" color="gray.800">
+                      Auditoría
+                    </Heading>
+                    <Text color="gray.600">
+                      Registro de altas, cambios y bajas hechos por el personal, con el estado anterior y posterior
+                    </Text>
+                  </VStack>
+                </HStack>
+              </VStack>
+
+              <Button
+                leftIcon={<FiArrowLeft />}
+                variant="outline"
+                onClick={() => router.push('/admin')}
+                size="sm"
+              >
+                Volver a Administración
+              </Button>
+            </HStack>
+          </Box>
+
+          <AuditLogViewer />
+        </VStack>
+      </DashboardLayout>
+    </AdminRoute>
+  );
+}
@@ -0,0 +1,60 @@
+// src/app/admin/grade-rollover/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiTrendingUp } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { GradeRolloverTool } from '@/components/admin/gradeRollover';
+import { AdminRoute } from '@/components/auth/ProtectedRoute';
+
+export default function GradeRolloverPage() {
+  const router = useRouter();
+
+  return (
+    <AdminRoute>
+      <DashboardLayout>
+        <VStack spacing={6} align="stretch">
+          {/* Header */}
+          <Box>
+            <HStack justify="space-between" align="start" mb={4}>
+              <VStack align="start" spacing={2}>
+                <HStack spacing={3}>
+                  <Box p={2} bg="teal.50" borderRadius="lg">
+                    <FiTrendingUp size={24} color="#319795" />
+                  </Box>
+                  <VStack align="start" spacing={0}>
+                    <Heading size="lg" color="gray.800">
+                      Promoción de Grado
+                    </Heading>
+                    <Text color="gray.600">
+                      Actualiza el grado de los estudiantes y desactiva a los egresados al cierre del año escolar
+                    </Text>
+                  </VStack>
+                </HStack>
+              </VStack>
+
+              <Button
+                leftIcon={<FiArrowLeft />}
+                variant="outline"
+                onClick={() => router.push('/admin')}
+                size="sm"
+              >
+                Volver a Administración
+              </Button>
+            </HStack>
+          </Box>
+
+          <GradeRolloverTool />
+        </VStack>
+      </DashboardLayout>
+    </AdminRoute>
+  );
+}
@@ -0,0 +1,60 @@
+// src/app/admin/penalties/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiAlertOctagon } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { PenaltyRulesManager } from '@/components/admin/penalties';
+import { AdminRoute } from '@/components/auth/ProtectedRoute';
+
+export default function PenaltiesPage() {
+  const router = useRouter();
+
+  return (
+    <AdminRoute>
+      <DashboardLayout>
+        <VStack spacing={6} align="stretch">
+          {/* Header */}
+          <Box>
+            <HStack justify="space-between" align="start" mb={4}>
+              <VStack align="start" spacing={2}>
+                <HStack spacing={3}>
+                  <Box p={2} bg="red.50" borderRadius="lg">
+                    <FiAlertOctagon size={24} color="#E53E3E" />
+                  </Box>
+                  <VStack align="start" spacing={0}>
+                    <Heading size="lg" color="gray.800">
+                      Multas y Sanciones
+                    </Heading>
+                    <Text color="gray.600">
+                      Define cómo se sancionan las devoluciones tardías y los recursos perdidos según el tipo de persona
+                    </Text>
+                  </VStack>
+                </HStack>
+              </VStack>
+
+              <Button
+                leftIcon={<FiArrowLeft />}
+                variant="outline"
+                onClick={() => router.push('/admin')}
+                size="sm"
+              >
+                Volver a Administración
+              </Button>
+            </HStack>
+          </Box>
+
+          <PenaltyRulesManager />
+        </VStack>
+      </DashboardLayout>
+    </AdminRoute>
+  );
+}
@@ -0,0 +1,60 @@
+// src/app/admin/settings/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiSettings } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { SystemSettingsForm } from '@/components/admin/settings';
+import { AdminRoute } from '@/components/auth/ProtectedRoute';
+
+export default function SettingsPage() {
+  const router = useRouter();
+
+  return (
+    <AdminRoute>
+      <DashboardLayout>
+        <VStack spacing={6} align="stretch">
+          {/* Header */}
+          <Box>
+            <HStack justify="space-between" align="start" mb={4}>
+              <VStack align="start" spacing={2}>
+                <HStack spacing={3}>
+                  <Box p={2} bg="gray.100" borderRadius="lg">
+                    <FiSettings size={24} color="#4A5568" />
+                  </Box>
+                  <VStack align="start" spacing={0}>
+                    <Heading size="lg" color="gray.800">
+                      Configuración del Sistema
+                    </Heading>
+                    <Text color="gray.600">
+                      Reglas de préstamo por tipo de persona, notificaciones y módulos disponibles
+                    </Text>
+                  </VStack>
+                </HStack>
+              </VStack>
+
+              <Button
+                leftIcon={<FiArrowLeft />}
+                variant="outline"
+                onClick={() => router.push('/admin')}
+                size="sm"
+              >
+                Volver a Administración
+              </Button>
+            </HStack>
+          </Box>
+
+          <SystemSettingsForm />
+        </VStack>
+      </DashboardLayout>
+    </AdminRoute>
+  );
+}
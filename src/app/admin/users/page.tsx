@@ -0,0 +1,182 @@
+// src/app/admin/users/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  useDisclosure,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalCloseButton,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FiUsers, FiPlus, FiArrowLeft } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { UserList, UserForm, ResetPasswordModal } from '@/components/admin/users';
+import { AdminRoute } from '@/components/auth/ProtectedRoute';
+import { useAuth } from '@/hooks/useAuth';
+import { useCreateUser, useUpdateUser } from '@/hooks/useUsers';
+import type { User } from '@/types/api.types';
+import type { CreateUserRequest, UpdateUserRequest } from '@/services/user.service';
+
+export default function UsersPage() {
+  const router = useRouter();
+  const { user: currentUser } = useAuth();
+  const [editingUser, setEditingUser] = useState<User | undefined>(undefined);
+  const [resetUser, setResetUser] = useState<User | null>(null);
+
+  // Modales
+  const { isOpen: isCreateOpen, onOpen: onCreateOpen, onClose: onCreateClose } = useDisclosure();
+  const { isOpen: isEditOpen, onOpen: onEditOpen, onClose: onEditClose } = useDisclosure();
+  const { isOpen: isResetOpen, onOpen: onResetOpen, onClose: onResetClose } = useDisclosure();
+
+  // Mutations
+  const createMutation = useCreateUser();
+  const updateMutation = useUpdateUser();
+
+  const handleCreateUser = async (data: CreateUserRequest) => {
+    try {
+      await createMutation.mutateAsync(data);
+      onCreateClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleUpdateUser = async (data: UpdateUserRequest) => {
+    if (!editingUser) return;
+
+    try {
+      await updateMutation.mutateAsync({ id: editingUser._id, data });
+      setEditingUser(undefined);
+      onEditClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleUserEdit = (user: User) => {
+    setEditingUser(user);
+    onEditOpen();
+  };
+
+  const handleCloseEdit = () => {
+    setEditingUser(undefined);
+    onEditClose();
+  };
+
+  const handlePasswordReset = (user: User) => {
+    setResetUser(user);
+    onResetOpen();
+  };
+
+  const handleCloseReset = () => {
+    setResetUser(null);
+    onResetClose();
+  };
+
+  return (
+    <AdminRoute>
+      <DashboardLayout>
+        <VStack spacing={6} align="stretch">
+          {/* Header */}
+          <Box>
+            <HStack justify="space-between" align="start" mb={4}>
+              <VStack align="start" spacing={2}>
+                <HStack spacing={3}>
+                  <Box p={2} bg="cyan.50" borderRadius="lg">
+                    <FiUsers size={24} color="#00A3C4" />
+                  </Box>
+                  <VStack align="start" spacing={0}>
+                    <Heading size="lg" color="gray.800">
+                      Gestión de Usuarios
+                    </Heading>
+                    <Text color="gray.600">
+                      Cuentas de administradores y bibliotecarios del sistema
+                    </Text>
+                  </VStack>
+                </HStack>
+              </VStack>
+
+              <HStack spacing={3}>
+                <Button
+                  leftIcon={<FiArrowLeft />}
+                  variant="outline"
+                  onClick={() => router.push('/admin')}
+                >
+                  Volver a Administración
+                </Button>
+                <Button
+                  leftIcon={<FiPlus />}
+                  colorScheme="blue"
+                  onClick={onCreateOpen}
+                  isDisabled={createMutation.isPending || updateMutation.isPending}
+                >
+                  Nuevo Usuario
+                </Button>
+              </HStack>
+            </HStack>
+          </Box>
+
+          {/* Lista de usuarios */}
+          <UserList
+            onUserEdit={handleUserEdit}
+            onPasswordReset={handlePasswordReset}
+          />
+
+          {/* Modal para crear usuario */}
+          <Modal isOpen={isCreateOpen} onClose={onCreateClose} size="xl">
+            <ModalOverlay />
+            <ModalContent>
+              <ModalHeader>Nuevo Usuario</ModalHeader>
+              <ModalCloseButton />
+              <ModalBody pb={6}>
+                <UserForm
+                  onSubmit={handleCreateUser}
+                  onCancel={onCreateClose}
+                  isLoading={createMutation.isPending}
+                />
+              </ModalBody>
+            </ModalContent>
+          </Modal>
+
+          {/* Modal para editar usuario */}
+          {editingUser && (
+            <Modal isOpen={isEditOpen} onClose={handleCloseEdit} size="xl">
+              <ModalOverlay />
+              <ModalContent>
+                <ModalHeader>Editar Usuario</ModalHeader>
+                <ModalCloseButton />
+                <ModalBody pb={6}>
+                  <UserForm
+                    user={editingUser}
+                    onSubmit={handleUpdateUser}
+                    onCancel={handleCloseEdit}
+                    isLoading={updateMutation.isPending}
+                    isEdit={true}
+                    isSelf={editingUser._id === currentUser?._id}
+                  />
+                </ModalBody>
+              </ModalContent>
+            </Modal>
+          )}
+
+          {/* Modal para restablecer contraseña */}
+          <ResetPasswordModal
+            user={resetUser}
+            isOpen={isResetOpen}
+            onClose={handleCloseReset}
+          />
+        </VStack>
+      </DashboardLayout>
+    </AdminRoute>
+  );
+}
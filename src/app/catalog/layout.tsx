@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import { PublicCatalogLayout } from '@/components/catalog';
+
+export const metadata: Metadata = {
+  title: 'Catálogo | Biblioteca Escolar',
+  description: 'Catálogo público de la biblioteca escolar',
+};
+
+// El catálogo es público: no usa DashboardLayout ni requiere sesión
+export default function CatalogLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <PublicCatalogLayout>{children}</PublicCatalogLayout>;
+}
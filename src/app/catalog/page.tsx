@@ -0,0 +1,62 @@
+// src/app/catalog/page.tsx
+'use client';
+
+import {
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Card,
+  CardBody,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import { FiShoppingCart } from 'react-icons/fi';
+import { PublicCatalogSearch, PublicRequestModal } from '@/components/catalog';
+import type { PublicCatalogResource } from '@/types/catalog.types';
+
+export default function PublicCatalogPage() {
+  const [isRequestOpen, setIsRequestOpen] = useState(false);
+  const [requestedResource, setRequestedResource] = useState<PublicCatalogResource | null>(null);
+
+  const handleRequest = (resource: PublicCatalogResource | null) => {
+    setRequestedResource(resource);
+    setIsRequestOpen(true);
+  };
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <PublicCatalogSearch onRequest={handleRequest} />
+
+      {/* Sugerencia de compra */}
+      <Card variant="outline" bg="blue.50" borderColor="blue.100">
+        <CardBody>
+          <HStack justify="space-between" flexWrap="wrap" gap={3}>
+            <VStack align="start" spacing={0}>
+              <Text fontWeight="medium" color="gray.800">
+                ¿No encuentras lo que buscas?
+              </Text>
+              <Text fontSize="sm" color="gray.600">
+                Sugiere a la biblioteca que lo compre
+              </Text>
+            </VStack>
+            <Button
+              colorScheme="blue"
+              variant="outline"
+              bg="white"
+              leftIcon={<FiShoppingCart />}
+              onClick={() => handleRequest(null)}
+            >
+              Sugerir una compra
+            </Button>
+          </HStack>
+        </CardBody>
+      </Card>
+
+      <PublicRequestModal
+        resource={requestedResource}
+        isOpen={isRequestOpen}
+        onClose={() => setIsRequestOpen(false)}
+      />
+    </VStack>
+  );
+}
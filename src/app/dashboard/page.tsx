@@ -36,18 +36,27 @@ import {
   FiWifiOff,
 } from 'react-icons/fi';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
-import { useAuth, useRole } from '@/hooks/useAuth';
+import { useAuth, useRole, usePermissions } from '@/hooks/useAuth';
 import { useDashboardData, useAdminDashboardData, useSystemHealth } from '@/hooks/useDashboard';
 import { DateUtils } from '@/utils';
 import { SafeLink } from '@/components/ui/SafeLink';
+import type { Permission } from '@/config/permissions.config';
 
-const quickActions = [
+const quickActions: {
+  name: string;
+  href: string;
+  icon: any;
+  description: string;
+  color: string;
+  permission: Permission;
+}[] = [
   {
     name: 'Nuevo Préstamo',
     href: '/loans/new',
     icon: FiBookOpen,
     description: 'Registrar un nuevo préstamo',
     color: 'blue',
+    permission: 'loans.create',
   },
   {
     name: 'Devolver Recurso',
@@ -55,6 +64,7 @@ const quickActions = [
     icon: FiArrowRight,
     description: 'Procesar una devolución',
     color: 'green',
+    permission: 'loans.return',
   },
   {
     name: 'Agregar Recurso',
@@ -62,6 +72,7 @@ const quickActions = [
     icon: FiBook,
     description: 'Registrar nuevo recurso',
     color: 'purple',
+    permission: 'resources.create',
   },
   {
     name: 'Registrar Persona',
@@ -69,6 +80,7 @@ const quickActions = [
     icon: FiUsers,
     description: 'Agregar estudiante o docente',
     color: 'orange',
+    permission: 'people.create',
   },
 ];
 
@@ -237,6 +249,7 @@ function SystemHealthIndicator() {
 export default function DashboardPage() {
   const { user } = useAuth();
   const { isAdmin } = useRole();
+  const { can } = usePermissions();
   
   // Usar hooks específicos según el rol
   const baseDashboardData = useDashboardData();
@@ -410,7 +423,7 @@ export default function DashboardPage() {
             Acciones Rápidas
           </Heading>
           <Grid templateColumns="repeat(auto-fit, minmax(280px, 1fr))" gap={6}>
-            {quickActions.map((action) => (
+            {quickActions.filter(action => can(action.permission)).map((action) => (
               <QuickActionCard key={action.name} {...action} />
             ))}
           </Grid>
@@ -32,6 +32,7 @@ import {
   AspectRatio,
 } from '@chakra-ui/react';
 import { useParams, useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
 import { 
   FiArrowLeft, 
   FiEdit, 
@@ -47,12 +48,19 @@ import {
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { ResourceForm } from '@/components/resources/ResourceForm/ResourceForm';
 import { DeleteConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { ResourceHoldsQueue } from '@/components/holds';
+import { ResourceConditionTimeline } from '@/components/resources/ConditionHistory';
+import { ResourceCopiesPanel } from '@/components/resources/ResourceCopies';
+import { ResourceCirculationPanel } from '@/components/resources/ResourceCirculation';
+import { ResourceConditionService } from '@/services/resourceCondition.service';
 import { 
   useResource, 
   useUpdateResource, 
   useUpdateResourceAvailability, 
   useDeleteResource 
 } from '@/hooks/useResources';
+import { CONDITION_QUERY_KEYS } from '@/hooks/useResourceConditions';
+import { usePermissions } from '@/hooks/useAuth';
 import { DateUtils } from '@/utils';
 import { ImageUtils } from '@/utils/imageUtils';
 import type { Resource, UpdateResourceRequest } from '@/types/resource.types';
@@ -80,9 +88,11 @@ export default function ResourceDetailPage() {
   const { data: resource, isLoading, error } = useResource(resourceId);
 
   // Mutations
+  const queryClient = useQueryClient();
   const updateMutation = useUpdateResource();
   const updateAvailabilityMutation = useUpdateResourceAvailability();
   const deleteMutation = useDeleteResource();
+  const { can } = usePermissions();
 
   // Modales
   const { isOpen: isEditOpen, onOpen: onEditOpen, onClose: onEditClose } = useDisclosure();
@@ -92,7 +102,19 @@ export default function ResourceDetailPage() {
   // Handlers
   const handleUpdateResource = async (data: UpdateResourceRequest) => {
     try {
+      const previousStateId = resource?.state?._id || resource?.stateId;
       await updateMutation.mutateAsync({ id: resourceId, data });
+
+      // El cambio de estado desde el formulario también queda en el historial
+      if (data.stateId && data.stateId !== previousStateId) {
+        await ResourceConditionService.recordEventsSafely([{
+          resourceId,
+          previousStateId,
+          newStateId: data.stateId,
+          source: 'manual',
+        }]);
+        queryClient.invalidateQueries({ queryKey: CONDITION_QUERY_KEYS.resourceHistory(resourceId) });
+      }
       onEditClose();
     } catch (error) {
       // Error manejado por el hook
@@ -362,36 +384,42 @@ export default function ResourceDetailPage() {
           <Box gridColumn={{ base: 1, lg: "span 2" }}>
             {/* Acciones principales */}
             <HStack spacing={3} wrap="wrap" mb={6}>
-              <Button
-                leftIcon={<FiEdit />}
-                colorScheme="blue"
-                onClick={onEditOpen}
-                isDisabled={isMutating}
-              >
-                Editar Recurso
-              </Button>
-              
-              <Button
-                leftIcon={resource.available ? <FiToggleLeft /> : <FiToggleRight />}
-                colorScheme={resource.available ? 'orange' : 'green'}
-                variant="outline"
-                onClick={handleToggleAvailability}
-                isLoading={updateAvailabilityMutation.isPending}
-                loadingText="Actualizando..."
-                isDisabled={isMutating}
-              >
-                {resource.available ? 'Marcar como prestado' : 'Marcar como disponible'}
-              </Button>
-
-              <Button
-                leftIcon={<FiTrash2 />}
-                colorScheme="red"
-                variant="outline"
-                onClick={onDeleteOpen}
-                isDisabled={isMutating}
-              >
-                Eliminar
-              </Button>
+              {can('resources.edit') && (
+                <>
+                  <Button
+                    leftIcon={<FiEdit />}
+                    colorScheme="blue"
+                    onClick={onEditOpen}
+                    isDisabled={isMutating}
+                  >
+                    Editar Recurso
+                  </Button>
+                  
+                  <Button
+                    leftIcon={resource.available ? <FiToggleLeft /> : <FiToggleRight />}
+                    colorScheme={resource.available ? 'orange' : 'green'}
+                    variant="outline"
+                    onClick={handleToggleAvailability}
+                    isLoading={updateAvailabilityMutation.isPending}
+                    loadingText="Actualizando..."
+                    isDisabled={isMutating}
+                  >
+                    {resource.available ? 'Marcar como prestado' : 'Marcar como disponible'}
+                  </Button>
+                </>
+              )}
+
+              {can('resources.delete') && (
+                <Button
+                  leftIcon={<FiTrash2 />}
+                  colorScheme="red"
+                  variant="outline"
+                  onClick={onDeleteOpen}
+                  isDisabled={isMutating}
+                >
+                  Eliminar
+                </Button>
+              )}
             </HStack>
 
             {/* Información detallada */}
@@ -485,27 +513,49 @@ export default function ResourceDetailPage() {
                 </CardBody>
               </Card>
             </SimpleGrid>
+
+            {/* Ejemplares */}
+            <Box mt={6}>
+              <ResourceCopiesPanel resource={resource} />
+            </Box>
+
+            {/* Circulación y demanda */}
+            <Box mt={6}>
+              <ResourceCirculationPanel resource={resource} />
+            </Box>
+
+            {/* Cola de reservas */}
+            <Box mt={6}>
+              <ResourceHoldsQueue resource={resource} />
+            </Box>
+
+            {/* Historial de estado */}
+            <Box mt={6}>
+              <ResourceConditionTimeline resource={resource} />
+            </Box>
           </Box>
         </SimpleGrid>
       </VStack>
 
       {/* Modal de edición */}
-      <Modal isOpen={isEditOpen} onClose={onEditClose} size="xl">
-        <ModalOverlay />
-        <ModalContent>
-          <ModalHeader>Editar Recurso</ModalHeader>
-          <ModalCloseButton />
-          <ModalBody pb={6}>
-            <ResourceForm
-              resource={resource}
-              onSubmit={handleUpdateResource}
-              onCancel={onEditClose}
-              isLoading={updateMutation.isPending}
-              isEdit={true}
-            />
-          </ModalBody>
-        </ModalContent>
-      </Modal>
+      {can('resources.edit') && (
+        <Modal isOpen={isEditOpen} onClose={onEditClose} size="xl">
+          <ModalOverlay />
+          <ModalContent>
+            <ModalHeader>Editar Recurso</ModalHeader>
+            <ModalCloseButton />
+            <ModalBody pb={6}>
+              <ResourceForm
+                resource={resource}
+                onSubmit={handleUpdateResource}
+                onCancel={onEditClose}
+                isLoading={updateMutation.isPending}
+                isEdit={true}
+              />
+            </ModalBody>
+          </ModalContent>
+        </Modal>
+      )}
 
       {/* Modal de imagen ampliada */}
       <Modal isOpen={isImageOpen} onClose={onImageClose} size="2xl" isCentered>
@@ -0,0 +1,76 @@
+// src/app/inventory/audit/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiClipboard } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { InventoryAudit } from '@/components/resources/InventoryAudit';
+
+export default function InventoryAuditPage() {
+  const router = useRouter();
+
+  const handleGoToInventory = () => {
+    router.push('/inventory');
+  };
+
+  return (
+    <DashboardLayout>
+      <VStack spacing={6} align="stretch">
+        {/* Navegación */}
+        <Box>
+          <Breadcrumb spacing={2} fontSize="sm" color="gray.600">
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/inventory">Inventario</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbItem isCurrentPage>
+              <Text>Auditoría de Inventario</Text>
+            </BreadcrumbItem>
+          </Breadcrumb>
+        </Box>
+
+        {/* Header */}
+        <Box>
+          <HStack justify="space-between" align="start" mb={4}>
+            <VStack align="start" spacing={2}>
+              <HStack spacing={3}>
+                <Box p={2} bg="teal.50" borderRadius="lg">
+                  <FiClipboard size={24} color="#319795" />
+                </Box>
+                <VStack align="start" spacing={0}>
+                  <Heading size="lg" color="gray.800">
+                    Auditoría de Inventario
+                  </Heading>
+                  <Text color="gray.600">
+                    Recorre una ubicación, registra lo que hay en los estantes y corrige las diferencias con el sistema
+                  </Text>
+                </VStack>
+              </HStack>
+            </VStack>
+
+            <Button
+              leftIcon={<FiArrowLeft />}
+              variant="outline"
+              onClick={handleGoToInventory}
+              size="sm"
+            >
+              Volver a Inventario
+            </Button>
+          </HStack>
+        </Box>
+
+        <InventoryAudit />
+      </VStack>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,76 @@
+// src/app/inventory/condition-report/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiActivity } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { DegradationByBorrowerReport } from '@/components/resources/ConditionHistory';
+
+export default function ConditionReportPage() {
+  const router = useRouter();
+
+  const handleGoToInventory = () => {
+    router.push('/inventory');
+  };
+
+  return (
+    <DashboardLayout>
+      <VStack spacing={6} align="stretch">
+        {/* Navegación */}
+        <Box>
+          <Breadcrumb spacing={2} fontSize="sm" color="gray.600">
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/inventory">Inventario</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbItem isCurrentPage>
+              <Text>Deterioro por Usuario</Text>
+            </BreadcrumbItem>
+          </Breadcrumb>
+        </Box>
+
+        {/* Header */}
+        <Box>
+          <HStack justify="space-between" align="start" mb={4}>
+            <VStack align="start" spacing={2}>
+              <HStack spacing={3}>
+                <Box p={2} bg="red.50" borderRadius="lg">
+                  <FiActivity size={24} color="#E53E3E" />
+                </Box>
+                <VStack align="start" spacing={0}>
+                  <Heading size="lg" color="gray.800">
+                    Deterioro por Usuario
+                  </Heading>
+                  <Text color="gray.600">
+                    Recursos que volvieron en peor estado tras el préstamo de cada persona
+                  </Text>
+                </VStack>
+              </HStack>
+            </VStack>
+
+            <Button
+              leftIcon={<FiArrowLeft />}
+              variant="outline"
+              onClick={handleGoToInventory}
+              size="sm"
+            >
+              Volver a Inventario
+            </Button>
+          </HStack>
+        </Box>
+
+        <DegradationByBorrowerReport />
+      </VStack>
+    </DashboardLayout>
+  );
+}
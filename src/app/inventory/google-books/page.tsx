@@ -35,6 +35,7 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { GoogleBooksSearch } from '@/components/resources/GoogleBooks/GoogleBooksSearch';
 import { useCategories, useLocations } from '@/hooks/useResources';
 import { useGoogleBooks } from '@/hooks/useGoogleBooks';
+import { useFeatureFlags } from '@/hooks/useSystemConfig';
 import type { GoogleBooksVolume } from '@/types/resource.types';
 
 export default function GoogleBooksPage() {
@@ -50,11 +51,12 @@ export default function GoogleBooksPage() {
   const { data: categories = [], isLoading: isLoadingCategories } = useCategories();
   const { data: locations = [], isLoading: isLoadingLocations } = useLocations();
   const { isApiAvailable, isLoading: isCheckingApi, refetchStatus } = useGoogleBooks();
+  const { googleBooksEnabled } = useFeatureFlags();
 
   const selectedCategory = categories.find(cat => cat._id === selectedCategoryId);
   const selectedLocation = locations.find(loc => loc._id === selectedLocationId);
 
-  const canSearch = selectedCategoryId && selectedLocationId && isApiAvailable;
+  const canSearch = googleBooksEnabled && selectedCategoryId && selectedLocationId && isApiAvailable;
 
   // Limpiar recursos recientes después de 10 segundos
   useEffect(() => {
@@ -161,6 +163,16 @@ export default function GoogleBooksPage() {
           </HStack>
         </Box>
 
+        {/* Módulo deshabilitado en la configuración */}
+        {!googleBooksEnabled && (
+          <Alert status="warning" borderRadius="md">
+            <AlertIcon />
+            <AlertDescription>
+              La búsqueda en Google Books está deshabilitada en la configuración del sistema.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Estadísticas de sesión */}
         {addedResources > 0 && (
           <Card>
@@ -0,0 +1,76 @@
+// src/app/inventory/import/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiUpload } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { ResourceImport } from '@/components/resources/ResourceImport';
+
+export default function ImportResourcesPage() {
+  const router = useRouter();
+
+  const handleGoToInventory = () => {
+    router.push('/inventory');
+  };
+
+  return (
+    <DashboardLayout>
+      <VStack spacing={6} align="stretch">
+        {/* Navegación */}
+        <Box>
+          <Breadcrumb spacing={2} fontSize="sm" color="gray.600">
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/inventory">Inventario</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbItem isCurrentPage>
+              <Text>Importar Recursos</Text>
+            </BreadcrumbItem>
+          </Breadcrumb>
+        </Box>
+
+        {/* Header */}
+        <Box>
+          <HStack justify="space-between" align="start" mb={4}>
+            <VStack align="start" spacing={2}>
+              <HStack spacing={3}>
+                <Box p={2} bg="purple.50" borderRadius="lg">
+                  <FiUpload size={24} color="#805AD5" />
+                </Box>
+                <VStack align="start" spacing={0}>
+                  <Heading size="lg" color="gray.800">
+                    Importar Recursos
+                  </Heading>
+                  <Text color="gray.600">
+                    Registra donaciones y lotes completos desde una hoja de cálculo o una lista de ISBN
+                  </Text>
+                </VStack>
+              </HStack>
+            </VStack>
+
+            <Button
+              leftIcon={<FiArrowLeft />}
+              variant="outline"
+              onClick={handleGoToInventory}
+              size="sm"
+            >
+              Volver a Inventario
+            </Button>
+          </HStack>
+        </Box>
+
+        <ResourceImport onFinish={handleGoToInventory} />
+      </VStack>
+    </DashboardLayout>
+  );
+}
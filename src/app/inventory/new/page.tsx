@@ -20,10 +20,12 @@ import { FiArrowLeft, FiBook, FiSearch } from 'react-icons/fi';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { ResourceForm } from '@/components/resources/ResourceForm/ResourceForm';
 import { useCreateResource } from '@/hooks/useResources';
+import { useFeatureFlags } from '@/hooks/useSystemConfig';
 import type { CreateResourceRequest } from '@/types/resource.types';
 
 export default function CreateResourcePage() {
   const router = useRouter();
+  const { googleBooksEnabled } = useFeatureFlags();
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   
   const createMutation = useCreateResource();
@@ -117,26 +119,28 @@ export default function CreateResourcePage() {
           </HStack>
 
           {/* Opciones alternativas */}
-          <Alert status="info" borderRadius="md">
-            <AlertIcon />
-            <VStack align="start" spacing={2} flex={1}>
-              <Text fontSize="sm" fontWeight="medium">
-                ¿Registrando un libro?
-              </Text>
-              <Text fontSize="sm">
-                Puedes usar la búsqueda en Google Books para autocompletar la información automáticamente.
-              </Text>
-              <Button
-                size="sm"
-                colorScheme="blue"
-                variant="outline"
-                leftIcon={<FiSearch />}
-                onClick={handleNavigateToGoogleBooks}
-              >
-                Buscar en Google Books
-              </Button>
-            </VStack>
-          </Alert>
+          {googleBooksEnabled && (
+            <Alert status="info" borderRadius="md">
+              <AlertIcon />
+              <VStack align="start" spacing={2} flex={1}>
+                <Text fontSize="sm" fontWeight="medium">
+                  ¿Registrando un libro?
+                </Text>
+                <Text fontSize="sm">
+                  Puedes usar la búsqueda en Google Books para autocompletar la información automáticamente.
+                </Text>
+                <Button
+                  size="sm"
+                  colorScheme="blue"
+                  variant="outline"
+                  leftIcon={<FiSearch />}
+                  onClick={handleNavigateToGoogleBooks}
+                >
+                  Buscar en Google Books
+                </Button>
+              </VStack>
+            </Alert>
+          )}
         </Box>
 
         {/* Formulario */}
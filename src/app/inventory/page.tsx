@@ -25,11 +25,13 @@ import {
   useBreakpointValue,
 } from '@chakra-ui/react';
 import { useRouter } from 'next/navigation';
-import { FiBook, FiPlus, FiDownload, FiSearch, FiGrid, FiSettings } from 'react-icons/fi';
+import { FiBook, FiPlus, FiDownload, FiSearch, FiGrid, FiSettings, FiUpload, FiClipboard, FiFilter } from 'react-icons/fi';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { ResourceList } from '@/components/resources/ResourceList/ResourceList';
 import { ResourceForm } from '@/components/resources/ResourceForm/ResourceForm';
 import { InventoryNavigation } from '@/components/inventory/InventoryNavigation';
+import { useFeatureFlags } from '@/hooks/useSystemConfig';
+import { usePermissions } from '@/hooks/useAuth';
 import { useCreateResource, useUpdateResource, useResourceTypes } from '@/hooks/useResources';
 import type { Resource, CreateResourceRequest, UpdateResourceRequest } from '@/types/resource.types';
 import { useState } from 'react';
@@ -38,6 +40,8 @@ export default function InventoryPage() {
   const router = useRouter();
   const [editingResource, setEditingResource] = useState<Resource | null>(null);
   const [activeTab, setActiveTab] = useState(0);
+  const { can } = usePermissions();
+  const canCreate = can('resources.create');
   
   // Modales
   const { isOpen: isCreateOpen, onOpen: onCreateOpen, onClose: onCreateClose } = useDisclosure();
@@ -52,6 +56,7 @@ export default function InventoryPage() {
 
   // Determinar si mostrar vista compacta en móvil
   const isMobile = useBreakpointValue({ base: true, md: false });
+  const { googleBooksEnabled } = useFeatureFlags();
 
   // Handler para crear recursos - ahora maneja ambos tipos
   const handleCreateResource = async (data: CreateResourceRequest | UpdateResourceRequest) => {
@@ -128,23 +133,58 @@ export default function InventoryPage() {
             {!isMobile && (
               <VStack spacing={2} align="end">
                 <HStack spacing={3}>
+                  {googleBooksEnabled && canCreate && (
+                    <Button
+                      leftIcon={<FiSearch />}
+                      colorScheme="green"
+                      variant="outline"
+                      onClick={() => router.push('/inventory/google-books')}
+                    >
+                      Google Books
+                    </Button>
+                  )}
+
+                  {can('resources.import') && (
+                    <Button
+                      leftIcon={<FiUpload />}
+                      colorScheme="purple"
+                      variant="outline"
+                      onClick={() => router.push('/inventory/import')}
+                    >
+                      Importar
+                    </Button>
+                  )}
+
                   <Button
-                    leftIcon={<FiSearch />}
-                    colorScheme="green"
+                    leftIcon={<FiFilter />}
+                    colorScheme="blue"
                     variant="outline"
-                    onClick={() => router.push('/inventory/google-books')}
+                    onClick={() => router.push('/inventory/search')}
                   >
-                    Google Books
+                    Búsqueda avanzada
                   </Button>
+
+                  {can('resources.edit') && (
+                    <Button
+                      leftIcon={<FiClipboard />}
+                      colorScheme="teal"
+                      variant="outline"
+                      onClick={() => router.push('/inventory/audit')}
+                    >
+                      Auditoría
+                    </Button>
+                  )}
                   
-                  <Button
-                    leftIcon={<FiPlus />}
-                    colorScheme="blue"
-                    size="lg"
-                    onClick={() => router.push('/inventory/new')}
-                  >
-                    Agregar Recurso
-                  </Button>
+                  {canCreate && (
+                    <Button
+                      leftIcon={<FiPlus />}
+                      colorScheme="blue"
+                      size="lg"
+                      onClick={() => router.push('/inventory/new')}
+                    >
+                      Agregar Recurso
+                    </Button>
+                  )}
                 </HStack>
               </VStack>
             )}
@@ -172,7 +212,7 @@ export default function InventoryPage() {
             <TabPanel px={0}>
               <ResourceList
                 onResourceEdit={handleResourceEdit}
-                onCreate={() => router.push('/inventory/new')}
+                onCreate={canCreate ? () => router.push('/inventory/new') : undefined}
                 showActions={true}
               />
             </TabPanel>
@@ -187,7 +227,7 @@ export default function InventoryPage() {
         </Tabs>
 
         {/* Navegación móvil */}
-        {isMobile && activeTab === 0 && (
+        {isMobile && activeTab === 0 && canCreate && (
           <Box position="fixed" bottom={4} left={4} right={4} zIndex={10}>
             <HStack spacing={2} justify="center">
               <Button
@@ -199,17 +239,19 @@ export default function InventoryPage() {
               >
                 Agregar
               </Button>
-              <Button
-                leftIcon={<FiSearch />}
-                colorScheme="green"
-                variant="outline"
-                size="md"
-                onClick={() => router.push('/inventory/google-books')}
-                shadow="lg"
-                bg="white"
-              >
-                Google Books
-              </Button>
+              {googleBooksEnabled && (
+                <Button
+                  leftIcon={<FiSearch />}
+                  colorScheme="green"
+                  variant="outline"
+                  size="md"
+                  onClick={() => router.push('/inventory/google-books')}
+                  shadow="lg"
+                  bg="white"
+                >
+                  Google Books
+                </Button>
+              )}
             </HStack>
           </Box>
         )}
@@ -0,0 +1,81 @@
+// src/app/inventory/search/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiSearch } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { CatalogSearch } from '@/components/resources/CatalogSearch';
+import type { Resource } from '@/types/resource.types';
+
+export default function CatalogSearchPage() {
+  const router = useRouter();
+
+  const handleGoToInventory = () => {
+    router.push('/inventory');
+  };
+
+  const handleResourceClick = (resource: Resource) => {
+    router.push(`/inventory/${resource._id}`);
+  };
+
+  return (
+    <DashboardLayout>
+      <VStack spacing={6} align="stretch">
+        {/* Navegación */}
+        <Box>
+          <Breadcrumb spacing={2} fontSize="sm" color="gray.600">
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/inventory">Inventario</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbItem isCurrentPage>
+              <Text>Búsqueda Avanzada</Text>
+            </BreadcrumbItem>
+          </Breadcrumb>
+        </Box>
+
+        {/* Header */}
+        <Box>
+          <HStack justify="space-between" align="start" mb={4}>
+            <VStack align="start" spacing={2}>
+              <HStack spacing={3}>
+                <Box p={2} bg="blue.50" borderRadius="lg">
+                  <FiSearch size={24} color="#3182CE" />
+                </Box>
+                <VStack align="start" spacing={0}>
+                  <Heading size="lg" color="gray.800">
+                    Búsqueda Avanzada
+                  </Heading>
+                  <Text color="gray.600">
+                    Busca en todo el catálogo sin importar tildes ni pequeños errores de escritura
+                  </Text>
+                </VStack>
+              </HStack>
+            </VStack>
+
+            <Button
+              leftIcon={<FiArrowLeft />}
+              variant="outline"
+              onClick={handleGoToInventory}
+              size="sm"
+            >
+              Volver a Inventario
+            </Button>
+          </HStack>
+        </Box>
+
+        <CatalogSearch onResourceClick={handleResourceClick} />
+      </VStack>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,76 @@
+// src/app/inventory/weeding/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiArchive } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { WeedingReport } from '@/components/resources/Weeding';
+
+export default function WeedingReportPage() {
+  const router = useRouter();
+
+  const handleGoToInventory = () => {
+    router.push('/inventory');
+  };
+
+  return (
+    <DashboardLayout>
+      <VStack spacing={6} align="stretch">
+        {/* Navegación */}
+        <Box>
+          <Breadcrumb spacing={2} fontSize="sm" color="gray.600">
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/inventory">Inventario</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbItem isCurrentPage>
+              <Text>Expurgo de la Colección</Text>
+            </BreadcrumbItem>
+          </Breadcrumb>
+        </Box>
+
+        {/* Header */}
+        <Box>
+          <HStack justify="space-between" align="start" mb={4}>
+            <VStack align="start" spacing={2}>
+              <HStack spacing={3}>
+                <Box p={2} bg="orange.50" borderRadius="lg">
+                  <FiArchive size={24} color="#DD6B20" />
+                </Box>
+                <VStack align="start" spacing={0}>
+                  <Heading size="lg" color="gray.800">
+                    Expurgo de la Colección
+                  </Heading>
+                  <Text color="gray.600">
+                    Recursos sin préstamos recientes, candidatos a descarte o traslado
+                  </Text>
+                </VStack>
+              </HStack>
+            </VStack>
+
+            <Button
+              leftIcon={<FiArrowLeft />}
+              variant="outline"
+              onClick={handleGoToInventory}
+              size="sm"
+            >
+              Volver a Inventario
+            </Button>
+          </HStack>
+        </Box>
+
+        <WeedingReport />
+      </VStack>
+    </DashboardLayout>
+  );
+}
@@ -22,11 +22,13 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import LoanManagement from '@/components/loans/LoanManagement';
 import CreateLoanModal from '@/components/loans/CreateLoanModal';
 import LoanStatistics from '@/components/loans/LoanStatistics';
+import { usePermissions } from '@/hooks/useAuth';
 
 // ===== COMPONENTE PRINCIPAL DE LA PÁGINA =====
 
 const LoansPage: React.FC = () => {
   const { isOpen, onOpen, onClose } = useDisclosure();
+  const { can } = usePermissions();
 
   const handleLoanCreated = () => {
     // Callback cuando se crea un préstamo exitosamente
@@ -43,14 +45,16 @@ const LoansPage: React.FC = () => {
             <Heading size="lg" color="gray.700">
               Gestión de Préstamos
             </Heading>
-            <Button
-              leftIcon={<FiPlus />}
-              colorScheme="blue"
-              onClick={onOpen}
-              size="md"
-            >
-              Nuevo Préstamo
-            </Button>
+            {can('loans.create') && (
+              <Button
+                leftIcon={<FiPlus />}
+                colorScheme="blue"
+                onClick={onOpen}
+                size="md"
+              >
+                Nuevo Préstamo
+              </Button>
+            )}
           </HStack>
 
           {/* Estadísticas */}
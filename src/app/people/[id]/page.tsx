@@ -21,10 +21,6 @@ import {
   Badge,
   Avatar,
   SimpleGrid,
-  Stat,
-  StatLabel,
-  StatNumber,
-  StatHelpText,
   Skeleton,
   SkeletonText,
   Icon,
@@ -39,6 +35,7 @@ import {
   ModalCloseButton,
 } from '@chakra-ui/react';
 import { useParams, useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
 import Link from 'next/link';
 import {
   FiUsers,
@@ -54,9 +51,17 @@ import {
   FiBookOpen,
   FiClock,
   FiAlertTriangle,
+  FiCreditCard,
+  FiKey,
 } from 'react-icons/fi';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { PersonForm } from '@/components/people/PersonForm';
+import { LibraryCardsModal } from '@/components/people/LibraryCards';
+import { PortalPinModal } from '@/components/people/PortalPinModal';
+import { PersonCirculation } from '@/components/people/PersonCirculation';
+import { PersonCirculationSummary } from '@/components/people/PersonCirculationSummary';
+import CreateLoanModal from '@/components/loans/CreateLoanModal';
+import { PersonPenaltiesLedger } from '@/components/penalties';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { 
   usePerson, 
@@ -65,6 +70,8 @@ import {
   useDeactivatePerson,
   usePersonTypes
 } from '@/hooks/usePeople';
+import { CIRCULATION_QUERY_KEYS } from '@/hooks/useCirculation';
+import { usePermissions } from '@/hooks/useAuth';
 import { useConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { PersonTypeManager } from '@/lib/personType';
 import type { UpdatePersonRequest } from '@/types/api.types';
@@ -76,6 +83,11 @@ export default function PersonDetailPage() {
   const personId = params.id as string;
 
   const { isOpen: isEditOpen, onOpen: onEditOpen, onClose: onEditClose } = useDisclosure();
+  const { isOpen: isCardOpen, onOpen: onCardOpen, onClose: onCardClose } = useDisclosure();
+  const { isOpen: isPinOpen, onOpen: onPinOpen, onClose: onPinClose } = useDisclosure();
+  const { isOpen: isLoanOpen, onOpen: onLoanOpen, onClose: onLoanClose } = useDisclosure();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
 
   // Queries y mutations
   const {
@@ -148,6 +160,10 @@ export default function PersonDetailPage() {
     router.push('/people');
   };
 
+  const handleShowHistory = () => {
+    document.getElementById('person-loan-history')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
   // ✅ REFACTORIZACIÓN: Función simplificada usando PersonTypeManager
   const renderGradeArea = () => {
     if (!gradeInfo) return 'Cargando...';
@@ -286,24 +302,48 @@ export default function PersonDetailPage() {
               </HStack>
 
               <VStack spacing={2}>
+                {can('people.edit') && (
+                  <>
+                    <Button
+                      leftIcon={<FiEdit />}
+                      colorScheme="blue"
+                      variant="outline"
+                      onClick={onEditOpen}
+                    >
+                      Editar
+                    </Button>
+                    
+                    <Button
+                      leftIcon={person.active ? <FiUserX /> : <FiUserCheck />}
+                      colorScheme={person.active ? 'orange' : 'green'}
+                      variant="outline"
+                      size="sm"
+                      onClick={handleToggleStatus}
+                      isLoading={activateMutation.isPending || deactivateMutation.isPending}
+                    >
+                      {person.active ? 'Desactivar' : 'Activar'}
+                    </Button>
+                  </>
+                )}
+
                 <Button
-                  leftIcon={<FiEdit />}
+                  leftIcon={<FiCreditCard />}
                   colorScheme="blue"
-                  variant="outline"
-                  onClick={onEditOpen}
+                  variant="ghost"
+                  size="sm"
+                  onClick={onCardOpen}
                 >
-                  Editar
+                  Carné
                 </Button>
-                
+
                 <Button
-                  leftIcon={person.active ? <FiUserX /> : <FiUserCheck />}
-                  colorScheme={person.active ? 'orange' : 'green'}
-                  variant="outline"
+                  leftIcon={<FiKey />}
+                  colorScheme="purple"
+                  variant="ghost"
                   size="sm"
-                  onClick={handleToggleStatus}
-                  isLoading={activateMutation.isPending || deactivateMutation.isPending}
+                  onClick={onPinOpen}
                 >
-                  {person.active ? 'Desactivar' : 'Activar'}
+                  {person.hasPortalPin ? 'Cambiar PIN' : 'PIN del portal'}
                 </Button>
               </VStack>
             </HStack>
@@ -407,40 +447,16 @@ export default function PersonDetailPage() {
             </CardBody>
           </Card>
 
-          {/* Estadísticas de préstamos (placeholder) */}
-          <Card bg={cardBg} shadow="sm">
-            <CardHeader>
-              <Heading size="md" color="gray.700">
-                Historial de Préstamos
-              </Heading>
-            </CardHeader>
-            <CardBody pt={0}>
-              <VStack spacing={4}>
-                <SimpleGrid columns={2} spacing={4} w="full">
-                  <Stat textAlign="center">
-                    <StatLabel>Préstamos Totales</StatLabel>
-                    <StatNumber color="blue.600">-</StatNumber>
-                    <StatHelpText>Próximamente</StatHelpText>
-                  </Stat>
-                  
-                  <Stat textAlign="center">
-                    <StatLabel>Préstamos Activos</StatLabel>
-                    <StatNumber color="green.600">-</StatNumber>
-                    <StatHelpText>Próximamente</StatHelpText>
-                  </Stat>
-                </SimpleGrid>
-
-                <Alert status="info" size="sm" borderRadius="md">
-                  <AlertIcon />
-                  <Text fontSize="sm">
-                    Las estadísticas de préstamos estarán disponibles cuando se implemente el sistema de préstamos.
-                  </Text>
-                </Alert>
-              </VStack>
-            </CardBody>
-          </Card>
+          {/* Resumen de circulación */}
+          <PersonCirculationSummary personId={person._id} />
         </SimpleGrid>
 
+        {/* Préstamos en curso e historial */}
+        <PersonCirculation personId={person._id} onNewLoan={can('loans.create') ? onLoanOpen : undefined} />
+
+        {/* Multas y sanciones */}
+        <PersonPenaltiesLedger personId={person._id} canManage={can('penalties.manage')} />
+
         {/* Acciones adicionales */}
         <Card bg={cardBg} shadow="sm">
           <CardBody>
@@ -450,20 +466,23 @@ export default function PersonDetailPage() {
               </Text>
               
               <HStack spacing={3} wrap="wrap" justify="center">
-                <Button
-                  leftIcon={<FiBookOpen />}
-                  variant="outline"
-                  colorScheme="blue"
-                  isDisabled
-                >
-                  Nuevo Préstamo
-                </Button>
+                {can('loans.create') && (
+                  <Button
+                    leftIcon={<FiBookOpen />}
+                    variant="outline"
+                    colorScheme="blue"
+                    onClick={onLoanOpen}
+                    isDisabled={!person.active}
+                  >
+                    Nuevo Préstamo
+                  </Button>
+                )}
                 
                 <Button
                   leftIcon={<FiClock />}
                   variant="outline"
                   colorScheme="orange"
-                  isDisabled
+                  onClick={handleShowHistory}
                 >
                   Ver Historial
                 </Button>
@@ -476,32 +495,54 @@ export default function PersonDetailPage() {
                   Volver a la Lista
                 </Button>
               </HStack>
-              
-              <Text fontSize="xs" color="gray.500" textAlign="center">
-                Las funciones de préstamos estarán disponibles próximamente
-              </Text>
             </VStack>
           </CardBody>
         </Card>
       </VStack>
 
       {/* Modal de edición */}
-      <Modal isOpen={isEditOpen} onClose={onEditClose} size="xl">
-        <ModalOverlay />
-        <ModalContent>
-          <ModalHeader>Editar {fullName}</ModalHeader>
-          <ModalCloseButton />
-          <ModalBody pb={6}>
-            <PersonForm
-              person={person}
-              onSubmit={handleUpdatePerson}
-              onCancel={onEditClose}
-              isLoading={updateMutation.isPending}
-              isEdit={true}
-            />
-          </ModalBody>
-        </ModalContent>
-      </Modal>
+      {can('people.edit') && (
+        <Modal isOpen={isEditOpen} onClose={onEditClose} size="xl">
+          <ModalOverlay />
+          <ModalContent>
+            <ModalHeader>Editar {fullName}</ModalHeader>
+            <ModalCloseButton />
+            <ModalBody pb={6}>
+              <PersonForm
+                person={person}
+                onSubmit={handleUpdatePerson}
+                onCancel={onEditClose}
+                isLoading={updateMutation.isPending}
+                isEdit={true}
+              />
+            </ModalBody>
+          </ModalContent>
+        </Modal>
+      )}
+
+      {/* Modal de carné */}
+      {isCardOpen && (
+        <LibraryCardsModal
+          people={[person]}
+          isOpen={isCardOpen}
+          onClose={onCardClose}
+        />
+      )}
+
+      {/* Modal de nuevo préstamo con la persona ya seleccionada */}
+      <CreateLoanModal
+        isOpen={isLoanOpen}
+        onClose={onLoanClose}
+        initialPerson={person}
+        onSuccess={() => queryClient.invalidateQueries({ queryKey: CIRCULATION_QUERY_KEYS.person(person._id) })}
+      />
+
+      {/* Modal de PIN del portal */}
+      <PortalPinModal
+        person={person}
+        isOpen={isPinOpen}
+        onClose={onPinClose}
+      />
 
       {/* Dialog de confirmación para cambio de estado */}
       {statusChangeDialog}
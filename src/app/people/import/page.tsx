@@ -0,0 +1,106 @@
+// src/app/people/import/page.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { FiUpload, FiChevronRight, FiArrowLeft } from 'react-icons/fi';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { PeopleImport } from '@/components/people/PeopleImport';
+
+export default function ImportPeoplePage() {
+  const router = useRouter();
+
+  const handleGoToList = () => {
+    router.push('/people');
+  };
+
+  return (
+    <DashboardLayout>
+      <VStack spacing={6} align="stretch" maxW="6xl" mx="auto">
+        {/* Breadcrumbs */}
+        <Breadcrumb
+          spacing={2}
+          separator={<FiChevronRight color="gray.500" size={14} />}
+          fontSize="sm"
+        >
+          <BreadcrumbItem>
+            <BreadcrumbLink as={Link} href="/people" color="blue.600">
+              Personas
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbItem isCurrentPage>
+            <Text color="gray.600" fontWeight="medium">
+              Importar
+            </Text>
+          </BreadcrumbItem>
+        </Breadcrumb>
+
+        {/* Header */}
+        <Box>
+          <HStack spacing={4} mb={2}>
+            <Button
+              leftIcon={<FiArrowLeft />}
+              variant="ghost"
+              size="sm"
+              onClick={handleGoToList}
+              color="gray.600"
+            >
+              Volver a la lista
+            </Button>
+          </HStack>
+
+          <HStack spacing={3} mb={4}>
+            <Box
+              p={3}
+              bg="blue.50"
+              borderRadius="xl"
+            >
+              <FiUpload size={32} color="#3182CE" />
+            </Box>
+            <VStack align="start" spacing={1}>
+              <Heading size="xl" color="gray.800">
+                Importar Personas
+              </Heading>
+              <Text color="gray.600" fontSize="lg">
+                Registra estudiantes y docentes desde un listado en CSV o Excel
+              </Text>
+            </VStack>
+          </HStack>
+        </Box>
+
+        {/* Información importante */}
+        <Alert status="info" borderRadius="md">
+          <AlertIcon />
+          <Box>
+            <AlertTitle>Formato del archivo</AlertTitle>
+            <AlertDescription fontSize="sm">
+              <VStack align="start" spacing={1} mt={2}>
+                <Text>• Columnas reconocidas: Nombres, Apellidos, Documento, Tipo (Estudiante/Docente) y Grado</Text>
+                <Text>• Nombres y Apellidos son obligatorios; el grado es obligatorio para estudiantes</Text>
+                <Text>• Cada fila se valida con las mismas reglas del formulario de registro</Text>
+                <Text>• Los documentos ya registrados se detectan antes de importar</Text>
+              </VStack>
+            </AlertDescription>
+          </Box>
+        </Alert>
+
+        <PeopleImport onFinish={handleGoToList} />
+      </VStack>
+    </DashboardLayout>
+  );
+}
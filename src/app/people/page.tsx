@@ -37,11 +37,15 @@ import {
   FiRefreshCw,
   FiInfo,
   FiEdit,
+  FiUpload,
+  FiCreditCard,
+  FiX,
 } from 'react-icons/fi';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { PeopleTable } from '@/components/people/PeopleTable';
 import { PeopleFilters, type PeopleFiltersState } from '@/components/people/PeopleFilters';
 import { PersonForm } from '@/components/people/PersonForm';
+import { LibraryCardsModal } from '@/components/people/LibraryCards';
 import { 
   usePeople, 
   useCreatePerson, 
@@ -51,6 +55,7 @@ import {
   useDeletePerson,
   usePersonStats
 } from '@/hooks/usePeople';
+import { usePermissions } from '@/hooks/useAuth';
 import type { Person, SearchFilters, CreatePersonRequest, UpdatePersonRequest } from '@/types/api.types';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { SafeLink } from '@/components/ui/SafeLink';
@@ -68,15 +73,19 @@ const PAGE_SIZE = 20;
 
 export default function PeoplePage() {
   const router = useRouter();
+  const { can } = usePermissions();
   
   // Estado local
   const [currentPage, setCurrentPage] = useState(1);
   const [filters, setFilters] = useState<PeopleFiltersState>(DEFAULT_FILTERS);
   const [editingPerson, setEditingPerson] = useState<Person | null>(null);
+  // Selección para impresión de carnés (se conserva al cambiar de página o filtros)
+  const [selectedPeople, setSelectedPeople] = useState<Map<string, Person>>(new Map());
   
   // Modales
   const { isOpen: isCreateOpen, onOpen: onCreateOpen, onClose: onCreateClose } = useDisclosure();
   const { isOpen: isEditOpen, onOpen: onEditOpen, onClose: onEditClose } = useDisclosure();
+  const { isOpen: isCardsOpen, onOpen: onCardsOpen, onClose: onCardsClose } = useDisclosure();
 
   // Preparar filtros para la API
   const apiFilters: SearchFilters = useMemo(() => {
@@ -188,6 +197,32 @@ export default function PeoplePage() {
     refetchPeople();
   };
 
+  const handleSelectionChange = (person: Person, selected: boolean) => {
+    setSelectedPeople(prev => {
+      const next = new Map(prev);
+      if (selected) {
+        next.set(person._id, person);
+      } else {
+        next.delete(person._id);
+      }
+      return next;
+    });
+  };
+
+  const handleSelectAll = (pagePeople: Person[], selected: boolean) => {
+    setSelectedPeople(prev => {
+      const next = new Map(prev);
+      pagePeople.forEach(person => {
+        if (selected) {
+          next.set(person._id, person);
+        } else {
+          next.delete(person._id);
+        }
+      });
+      return next;
+    });
+  };
+
   const handleNavigateToNew = () => {
     router.push('/people/new');
   };
@@ -242,14 +277,27 @@ export default function PeoplePage() {
             </VStack>
 
             <HStack spacing={3}>
-              <Button
-                leftIcon={<FiPlus />}
-                colorScheme="blue"
-                onClick={handleNavigateToNew}
-                size="lg"
-              >
-                Registrar Persona
-              </Button>
+              {can('people.import') && (
+                <Button
+                  leftIcon={<FiUpload />}
+                  variant="outline"
+                  colorScheme="blue"
+                  onClick={() => router.push('/people/import')}
+                  size="lg"
+                >
+                  Importar
+                </Button>
+              )}
+              {can('people.create') && (
+                <Button
+                  leftIcon={<FiPlus />}
+                  colorScheme="blue"
+                  onClick={handleNavigateToNew}
+                  size="lg"
+                >
+                  Registrar Persona
+                </Button>
+              )}
             </HStack>
           </HStack>
         </Box>
@@ -276,6 +324,40 @@ export default function PeoplePage() {
           isLoading={isLoading}
         />
 
+        {/* Selección para carnés */}
+        {selectedPeople.size > 0 && (
+          <Card bg="blue.50" borderColor="blue.200" borderWidth="1px">
+            <CardBody py={3}>
+              <Flex justify="space-between" align="center" wrap="wrap" gap={3}>
+                <HStack spacing={2}>
+                  <FiCreditCard color="#3182CE" />
+                  <Text fontSize="sm" color="blue.800" fontWeight="medium">
+                    {selectedPeople.size} persona{selectedPeople.size !== 1 ? 's' : ''} seleccionada{selectedPeople.size !== 1 ? 's' : ''}
+                  </Text>
+                </HStack>
+                <HStack spacing={2}>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    leftIcon={<FiX />}
+                    onClick={() => setSelectedPeople(new Map())}
+                  >
+                    Limpiar selección
+                  </Button>
+                  <Button
+                    size="sm"
+                    colorScheme="blue"
+                    leftIcon={<FiCreditCard />}
+                    onClick={onCardsOpen}
+                  >
+                    Imprimir carnés
+                  </Button>
+                </HStack>
+              </Flex>
+            </CardBody>
+          </Card>
+        )}
+
         {/* Tabla de personas */}
         <Card>
           <CardBody p={0}>
@@ -305,7 +387,10 @@ export default function PeoplePage() {
                 onActivate={handleActivate}
                 onDeactivate={handleDeactivate}
                 onDelete={handleDelete}
-                onCreate={handleNavigateToNew}
+                onCreate={can('people.create') ? handleNavigateToNew : undefined}
+                selectedIds={new Set(selectedPeople.keys())}
+                onSelectionChange={handleSelectionChange}
+                onSelectAll={handleSelectAll}
               />
             </Box>
           </CardBody>
@@ -363,6 +448,15 @@ export default function PeoplePage() {
         )}
       </VStack>
 
+      {/* Modal de carnés */}
+      {isCardsOpen && (
+        <LibraryCardsModal
+          people={Array.from(selectedPeople.values())}
+          isOpen={isCardsOpen}
+          onClose={onCardsClose}
+        />
+      )}
+
       {/* Modal de creación */}
       <Modal isOpen={isCreateOpen} onClose={onCreateClose} size="xl">
         <ModalOverlay />
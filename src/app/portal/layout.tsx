@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import { PortalLayout } from '@/components/portal';
+
+export const metadata: Metadata = {
+  title: 'Mi Biblioteca | Biblioteca Escolar',
+  description: 'Consulta tus préstamos, reservas y renovaciones',
+};
+
+// El portal tiene su propia sesión (documento + PIN), separada del JWT del personal
+export default function PortalRootLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <PortalLayout>{children}</PortalLayout>;
+}
@@ -0,0 +1,32 @@
+// src/app/portal/login/page.tsx
+'use client';
+
+import { Suspense } from 'react';
+import { Box } from '@chakra-ui/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { PortalLoginForm } from '@/components/portal';
+
+function PortalLoginContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const handleSuccess = () => {
+    const redirect = searchParams.get('redirect');
+    // Solo redirigir dentro del portal
+    router.replace(redirect?.startsWith('/portal') ? redirect : '/portal');
+  };
+
+  return (
+    <Box pt={{ base: 4, md: 12 }}>
+      <PortalLoginForm onSuccess={handleSuccess} />
+    </Box>
+  );
+}
+
+export default function PortalLoginPage() {
+  return (
+    <Suspense>
+      <PortalLoginContent />
+    </Suspense>
+  );
+}
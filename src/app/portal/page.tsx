@@ -0,0 +1,164 @@
+// src/app/portal/page.tsx
+'use client';
+
+import {
+  VStack,
+  SimpleGrid,
+  Card,
+  CardBody,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Tabs,
+  TabList,
+  TabPanels,
+  Tab,
+  TabPanel,
+  Badge,
+  Alert,
+  AlertIcon,
+  Center,
+  Spinner,
+} from '@chakra-ui/react';
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { PortalService } from '@/services/portal.service';
+import { LoanService } from '@/services/loan.service';
+import {
+  usePortalPerson,
+  usePortalLoans,
+  usePortalHolds,
+  usePortalRenewalRequests,
+} from '@/hooks/usePortal';
+import { PortalLoansList, PortalHoldsList, RequestRenewalModal } from '@/components/portal';
+import type { LoanWithDetails } from '@/types/loan.types';
+
+export default function PortalHomePage() {
+  const router = useRouter();
+  const [renewingLoan, setRenewingLoan] = useState<LoanWithDetails | null>(null);
+
+  const { data: person, isLoading: isLoadingPerson, isError: isPersonError } = usePortalPerson();
+  const hasSession = !!person;
+
+  const { data: loansData, isLoading: isLoadingLoans } = usePortalLoans({ limit: 100 }, hasSession);
+  const { data: holds = [], isLoading: isLoadingHolds } = usePortalHolds(hasSession);
+  const { data: renewalRequests = [] } = usePortalRenewalRequests(hasSession);
+
+  // Sin sesión válida se vuelve al ingreso del portal
+  useEffect(() => {
+    if (!PortalService.isAuthenticated() || isPersonError) {
+      router.replace('/portal/login');
+    }
+  }, [isPersonError, router]);
+
+  const { activeLoans, pastLoans } = useMemo(() => {
+    const loans = loansData?.data || [];
+    const isOpen = (loan: LoanWithDetails) =>
+      !loan.returnedDate && loan.status?.name !== 'returned' && loan.status?.name !== 'lost';
+
+    return {
+      activeLoans: loans
+        .filter(isOpen)
+        .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()),
+      pastLoans: loans
+        .filter(loan => !isOpen(loan))
+        .sort((a, b) => new Date(b.loanDate).getTime() - new Date(a.loanDate).getTime()),
+    };
+  }, [loansData]);
+
+  const overdueCount = activeLoans.filter(loan => loan.isOverdue || LoanService.isLoanOverdue(loan)).length;
+  const pendingHolds = holds.filter(hold => hold.status === 'waiting' || hold.status === 'ready');
+  const readyHolds = holds.filter(hold => hold.status === 'ready').length;
+
+  if (isLoadingPerson || !person) {
+    return (
+      <Center py={20}>
+        <Spinner size="lg" color="purple.500" />
+      </Center>
+    );
+  }
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {overdueCount > 0 && (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          Tienes {overdueCount} préstamo{overdueCount !== 1 ? 's' : ''} vencido{overdueCount !== 1 ? 's' : ''}.
+          Devuélvelo{overdueCount !== 1 ? 's' : ''} cuanto antes para evitar sanciones.
+        </Alert>
+      )}
+      {readyHolds > 0 && (
+        <Alert status="success" borderRadius="md">
+          <AlertIcon />
+          Tienes {readyHolds} reserva{readyHolds !== 1 ? 's' : ''} lista{readyHolds !== 1 ? 's' : ''} para retirar.
+        </Alert>
+      )}
+
+      <SimpleGrid columns={{ base: 3 }} spacing={4}>
+        <Card variant="outline">
+          <CardBody>
+            <Stat>
+              <StatLabel>Préstamos activos</StatLabel>
+              <StatNumber>{activeLoans.length}</StatNumber>
+            </Stat>
+          </CardBody>
+        </Card>
+        <Card variant="outline">
+          <CardBody>
+            <Stat>
+              <StatLabel>Vencidos</StatLabel>
+              <StatNumber color={overdueCount > 0 ? 'red.500' : undefined}>{overdueCount}</StatNumber>
+            </Stat>
+          </CardBody>
+        </Card>
+        <Card variant="outline">
+          <CardBody>
+            <Stat>
+              <StatLabel>Reservas</StatLabel>
+              <StatNumber>{pendingHolds.length}</StatNumber>
+            </Stat>
+          </CardBody>
+        </Card>
+      </SimpleGrid>
+
+      <Card variant="outline">
+        <CardBody>
+          <Tabs colorScheme="purple" isLazy>
+            <TabList>
+              <Tab>
+                Mis préstamos
+                {activeLoans.length > 0 && <Badge ml={2}>{activeLoans.length}</Badge>}
+              </Tab>
+              <Tab>Reservas</Tab>
+              <Tab>Historial</Tab>
+            </TabList>
+
+            <TabPanels>
+              <TabPanel px={0}>
+                <PortalLoansList
+                  mode="active"
+                  loans={activeLoans}
+                  isLoading={isLoadingLoans}
+                  renewalRequests={renewalRequests}
+                  onRequestRenewal={setRenewingLoan}
+                />
+              </TabPanel>
+              <TabPanel px={0}>
+                <PortalHoldsList holds={holds} isLoading={isLoadingHolds} />
+              </TabPanel>
+              <TabPanel px={0}>
+                <PortalLoansList mode="history" loans={pastLoans} isLoading={isLoadingLoans} />
+              </TabPanel>
+            </TabPanels>
+          </Tabs>
+        </CardBody>
+      </Card>
+
+      <RequestRenewalModal
+        loan={renewingLoan}
+        isOpen={!!renewingLoan}
+        onClose={() => setRenewingLoan(null)}
+      />
+    </VStack>
+  );
+}
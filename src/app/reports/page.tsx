@@ -1,17 +1,85 @@
+// src/app/reports/page.tsx
 'use client';
 
+import { useState } from 'react';
+import { Box, VStack, HStack, Heading, Text } from '@chakra-ui/react';
+import { useQueryClient } from '@tanstack/react-query';
 import { FiBarChart } from 'react-icons/fi';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
-import { ComingSoon } from '@/components/ui/ComingSoon';
+import {
+  ReportTypeSelector,
+  ReportFilters,
+  LoansByPeriodReportView,
+  OverdueByGradeReportView,
+  MostBorrowedReportView,
+  InventoryReportView,
+  LibrarianActivityReportView,
+} from '@/components/reports';
+import { REPORT_QUERY_KEYS } from '@/hooks/useReports';
+import type { ReportFilters as ReportFiltersValue, ReportType } from '@/types/report.types';
+
+const DEFAULT_FILTERS: ReportFiltersValue = {
+  groupBy: 'month',
+};
 
 export default function ReportsPage() {
+  const queryClient = useQueryClient();
+  const [reportType, setReportType] = useState<ReportType>('loans-by-period');
+  const [filters, setFilters] = useState<ReportFiltersValue>(DEFAULT_FILTERS);
+
+  const handleRefresh = () => {
+    queryClient.invalidateQueries({ queryKey: REPORT_QUERY_KEYS.reports });
+  };
+
+  const renderReport = () => {
+    switch (reportType) {
+      case 'loans-by-period':
+        return <LoansByPeriodReportView filters={filters} />;
+      case 'overdue-by-grade':
+        return <OverdueByGradeReportView filters={filters} />;
+      case 'most-borrowed':
+        return <MostBorrowedReportView filters={filters} />;
+      case 'inventory':
+        return <InventoryReportView />;
+      case 'librarian-activity':
+        return <LibrarianActivityReportView filters={filters} />;
+      default:
+        return null;
+    }
+  };
+
   return (
     <DashboardLayout>
-      <ComingSoon
-        title="Reportes y Estadísticas"
-        description="Aquí podrás generar reportes de préstamos, estadísticas de uso y otros análisis de la biblioteca. Esta funcionalidad está en desarrollo."
-        icon={FiBarChart}
-      />
+      <VStack spacing={6} align="stretch">
+        {/* Header */}
+        <HStack spacing={3}>
+          <Box p={2} bg="blue.50" borderRadius="lg">
+            <FiBarChart size={24} color="#3182CE" />
+          </Box>
+          <VStack align="start" spacing={0}>
+            <Heading size="lg" color="gray.800">
+              Reportes y Estadísticas
+            </Heading>
+            <Text color="gray.600">
+              Analiza los préstamos, vencimientos e inventario de la biblioteca
+            </Text>
+          </VStack>
+        </HStack>
+
+        {/* Tipo de reporte */}
+        <ReportTypeSelector value={reportType} onChange={setReportType} />
+
+        {/* Filtros */}
+        <ReportFilters
+          reportType={reportType}
+          filters={filters}
+          onFiltersChange={setFilters}
+          onRefresh={handleRefresh}
+        />
+
+        {/* Reporte seleccionado */}
+        {renderReport()}
+      </VStack>
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
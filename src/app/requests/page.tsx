@@ -1,17 +1,175 @@
 'use client';
 
-import { FiFileText } from 'react-icons/fi';
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  useDisclosure,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalBody,
+  ModalCloseButton,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import { FiFileText, FiPlus } from 'react-icons/fi';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
-import { ComingSoon } from '@/components/ui/ComingSoon';
+import { RequestList, RequestForm, AcquireRequestModal } from '@/components/requests';
+import { useCreateRequest, useUpdateRequest } from '@/hooks/useRequests';
+import { usePermissions } from '@/hooks/useAuth';
+import type { Request, CreateRequestRequest, UpdateRequestRequest } from '@/types/api.types';
 
 export default function RequestsPage() {
+  const [editingRequest, setEditingRequest] = useState<Request | undefined>(undefined);
+  const [acquiringRequest, setAcquiringRequest] = useState<Request | undefined>(undefined);
+  const { can } = usePermissions();
+
+  // Modales
+  const { isOpen: isCreateOpen, onOpen: onCreateOpen, onClose: onCreateClose } = useDisclosure();
+  const { isOpen: isEditOpen, onOpen: onEditOpen, onClose: onEditClose } = useDisclosure();
+  const { isOpen: isAcquireOpen, onOpen: onAcquireOpen, onClose: onAcquireClose } = useDisclosure();
+
+  // Mutations
+  const createMutation = useCreateRequest();
+  const updateMutation = useUpdateRequest();
+
+  const handleCreateRequest = async (data: CreateRequestRequest) => {
+    try {
+      await createMutation.mutateAsync(data);
+      onCreateClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleUpdateRequest = async (data: UpdateRequestRequest) => {
+    if (!editingRequest) return;
+
+    try {
+      await updateMutation.mutateAsync({
+        id: editingRequest._id,
+        data,
+      });
+      setEditingRequest(undefined);
+      onEditClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleRequestEdit = (request: Request) => {
+    setEditingRequest(request);
+    onEditOpen();
+  };
+
+  const handleCloseEdit = () => {
+    setEditingRequest(undefined);
+    onEditClose();
+  };
+
+  const handleRequestAcquire = (request: Request) => {
+    setAcquiringRequest(request);
+    onAcquireOpen();
+  };
+
+  const handleCloseAcquire = () => {
+    setAcquiringRequest(undefined);
+    onAcquireClose();
+  };
+
+  const isMutating = createMutation.isPending || updateMutation.isPending;
+
   return (
     <DashboardLayout>
-      <ComingSoon
-        title="Recursos Solicitados"
-        description="Aquí podrás gestionar recursos solicitados que no están disponibles en la biblioteca. Esta funcionalidad está en desarrollo."
-        icon={FiFileText}
-      />
+      <VStack spacing={6} align="stretch">
+        {/* Header */}
+        <Box>
+          <HStack justify="space-between" align="start" mb={4}>
+            <VStack align="start" spacing={2}>
+              <HStack spacing={3}>
+                <Box p={2} bg="blue.50" borderRadius="lg">
+                  <FiFileText size={24} color="#3182CE" />
+                </Box>
+                <VStack align="start" spacing={0}>
+                  <Heading size="lg" color="gray.800">
+                    Solicitudes de Adquisición
+                  </Heading>
+                  <Text color="gray.600">
+                    Gestiona los recursos que se desean incorporar a la biblioteca
+                  </Text>
+                </VStack>
+              </HStack>
+            </VStack>
+
+            {can('requests.manage') && (
+              <Button
+                leftIcon={<FiPlus />}
+                colorScheme="blue"
+                size="lg"
+                onClick={onCreateOpen}
+                isDisabled={isMutating}
+              >
+                Nueva Solicitud
+              </Button>
+            )}
+          </HStack>
+        </Box>
+
+        {/* Lista de Solicitudes */}
+        <Box>
+          <RequestList
+            onEdit={handleRequestEdit}
+            onAcquire={handleRequestAcquire}
+            onCreate={onCreateOpen}
+          />
+        </Box>
+
+        {/* Modal para crear solicitud */}
+        <Modal isOpen={isCreateOpen} onClose={onCreateClose} size="3xl" scrollBehavior="inside">
+          <ModalOverlay />
+          <ModalContent>
+            <ModalCloseButton />
+            <ModalBody py={6}>
+              <RequestForm
+                onSubmit={handleCreateRequest}
+                onCancel={onCreateClose}
+                isLoading={createMutation.isPending}
+              />
+            </ModalBody>
+          </ModalContent>
+        </Modal>
+
+        {/* Modal para editar solicitud */}
+        {editingRequest && (
+          <Modal isOpen={isEditOpen} onClose={handleCloseEdit} size="3xl" scrollBehavior="inside">
+            <ModalOverlay />
+            <ModalContent>
+              <ModalCloseButton />
+              <ModalBody py={6}>
+                <RequestForm
+                  request={editingRequest}
+                  onSubmit={handleUpdateRequest}
+                  onCancel={handleCloseEdit}
+                  isLoading={updateMutation.isPending}
+                  isEdit={true}
+                />
+              </ModalBody>
+            </ModalContent>
+          </Modal>
+        )}
+
+        {/* Modal para marcar como adquirida */}
+        {acquiringRequest && (
+          <AcquireRequestModal
+            request={acquiringRequest}
+            isOpen={isAcquireOpen}
+            onClose={handleCloseAcquire}
+          />
+        )}
+      </VStack>
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
@@ -22,6 +22,9 @@ import {
   FiUsers,
   FiSettings,
   FiBarChart,
+  FiTrendingUp,
+  FiAlertOctagon,
+  FiShield,
 } from 'react-icons/fi';
 
 export interface AdminQuickAction {
@@ -67,7 +70,47 @@ const adminActions: AdminQuickAction[] = [
     badge: 'Sistema',
     badgeColor: 'red',
   },
-
+  {
+    title: 'Usuarios',
+    description: 'Gestionar cuentas de administradores y bibliotecarios',
+    icon: FiUsers,
+    href: '/admin/users',
+    color: 'cyan',
+    badge: 'Sistema',
+    badgeColor: 'red',
+  },
+  {
+    title: 'Promoción de Grado',
+    description: 'Promover estudiantes al cierre del año escolar',
+    icon: FiTrendingUp,
+    href: '/admin/grade-rollover',
+    color: 'teal',
+  },
+  {
+    title: 'Multas y Sanciones',
+    description: 'Configurar sanciones por retraso o pérdida',
+    icon: FiAlertOctagon,
+    href: '/admin/penalties',
+    color: 'red',
+  },
+  {
+    title: 'Auditoría',
+    description: 'Quién creó, modificó o eliminó cada registro',
+    icon: FiShield,
+    href: '/admin/audit',
+    color: 'pink',
+    badge: 'Sistema',
+    badgeColor: 'red',
+  },
+  {
+    title: 'Configuración',
+    description: 'Reglas de préstamo, notificaciones y módulos habilitados',
+    icon: FiSettings,
+    href: '/admin/settings',
+    color: 'gray',
+    badge: 'Sistema',
+    badgeColor: 'red',
+  },
 ];
 
 interface AdminNavigationProps {
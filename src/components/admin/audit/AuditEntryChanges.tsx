@@ -0,0 +1,83 @@
+// src/components/admin/audit/AuditEntryChanges.tsx
+'use client';
+
+import {
+  Box,
+  HStack,
+  VStack,
+  Text,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Skeleton,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { useAuditLog } from '@/hooks/useAudit';
+import { AuditService } from '@/services/audit.service';
+import type { AuditLogEntry } from '@/types/audit.types';
+
+interface AuditEntryChangesProps {
+  entry: AuditLogEntry;
+}
+
+/**
+ * Diff campo a campo de un registro de auditoría. El listado puede venir
+ * sin los estados completos, así que se pide el detalle al desplegarlo
+ */
+export function AuditEntryChanges({ entry }: AuditEntryChangesProps) {
+  const { data: detail, isLoading, isError } = useAuditLog(entry._id);
+  const changes = AuditService.getChanges(detail || entry);
+
+  return (
+    <VStack align="stretch" spacing={3} py={2}>
+      {isLoading ? (
+        <Skeleton height="64px" />
+      ) : isError && changes.length === 0 ? (
+        <Alert status="error" borderRadius="md" fontSize="sm">
+          <AlertIcon />
+          No se pudo cargar el detalle del registro
+        </Alert>
+      ) : changes.length === 0 ? (
+        <Text fontSize="sm" color="gray.500">
+          Sin cambios de campos registrados para esta operación.
+        </Text>
+      ) : (
+        <Box overflowX="auto">
+          <Table size="sm" variant="simple" bg="white">
+            <Thead>
+              <Tr>
+                <Th>Campo</Th>
+                <Th>Antes</Th>
+                <Th>Después</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {changes.map(change => (
+                <Tr key={change.field}>
+                  <Td fontFamily="mono" fontSize="xs">{change.field}</Td>
+                  <Td fontSize="sm" color="red.600" maxW="280px" whiteSpace="normal" wordBreak="break-word">
+                    {AuditService.formatValue(change.before)}
+                  </Td>
+                  <Td fontSize="sm" color="green.700" maxW="280px" whiteSpace="normal" wordBreak="break-word">
+                    {AuditService.formatValue(change.after)}
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        </Box>
+      )}
+
+      <HStack spacing={4} fontSize="xs" color="gray.500" flexWrap="wrap">
+        <Text>ID de entidad: <Text as="span" fontFamily="mono">{entry.entityId}</Text></Text>
+        {entry.requestId && <Text>Petición #{entry.requestId}</Text>}
+        {entry.source && <Text>Desde {entry.source}</Text>}
+        {entry.ip && <Text>IP {entry.ip}</Text>}
+      </HStack>
+    </VStack>
+  );
+}
@@ -0,0 +1,320 @@
+// src/components/admin/audit/AuditLogViewer.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Button,
+  Select,
+  Input,
+  FormControl,
+  FormLabel,
+  Card,
+  CardBody,
+  Text,
+  Badge,
+  IconButton,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Skeleton,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { Fragment, useState } from 'react';
+import Link from 'next/link';
+import { FiChevronDown, FiChevronRight, FiRefreshCw, FiShield, FiX } from 'react-icons/fi';
+import { useAuditLogs } from '@/hooks/useAudit';
+import { useUsers } from '@/hooks/useUsers';
+import { AuditService } from '@/services/audit.service';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { DateUtils } from '@/utils';
+import { AUDIT_ACTION_CONFIG, AUDIT_ENTITY_CONFIG } from './auditLog.config';
+import { AuditEntryChanges } from './AuditEntryChanges';
+import type { AuditAction, AuditEntityType, AuditLogFilters } from '@/types/audit.types';
+
+const PAGE_SIZE = 25;
+
+const DEFAULT_FILTERS: AuditLogFilters = {
+  actorId: undefined,
+  entityType: undefined,
+  action: undefined,
+  dateFrom: undefined,
+  dateTo: undefined,
+  page: 1,
+  limit: PAGE_SIZE,
+};
+
+function LoadingRows({ count = 6 }: { count?: number }) {
+  return (
+    <>
+      {Array.from({ length: count }).map((_, i) => (
+        <Tr key={i}>
+          <Td />
+          <Td><Skeleton height="16px" width="120px" /></Td>
+          <Td><Skeleton height="16px" width="160px" /></Td>
+          <Td><Skeleton height="20px" width="90px" borderRadius="full" /></Td>
+          <Td><Skeleton height="16px" width="200px" /></Td>
+          <Td><Skeleton height="16px" width="60px" /></Td>
+        </Tr>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Bitácora de operaciones del personal: quién cambió qué y cuándo
+ */
+export function AuditLogViewer() {
+  const [filters, setFilters] = useState<AuditLogFilters>(DEFAULT_FILTERS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: usersResponse } = useUsers({ limit: 100, sortBy: 'email', sortOrder: 'asc' });
+  const {
+    data: logsResponse,
+    isLoading,
+    isError,
+    error,
+    refetch,
+    isRefetching,
+  } = useAuditLogs(filters);
+
+  const users = usersResponse?.data || [];
+  const entries = logsResponse?.data || [];
+  const pagination = logsResponse?.pagination;
+  const hasFilters = !!(filters.actorId || filters.entityType || filters.action || filters.dateFrom || filters.dateTo);
+
+  const updateFilter = (changes: Partial<AuditLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes, page: 1 }));
+    setExpandedId(null);
+  };
+
+  const goToPage = (page: number) => {
+    setFilters(prev => ({ ...prev, page }));
+    setExpandedId(null);
+  };
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Filtros */}
+      <Card shadow="sm">
+        <CardBody>
+          <HStack spacing={4} align="end" flexWrap="wrap">
+            <FormControl w={{ base: 'full', md: '220px' }}>
+              <FormLabel fontSize="sm">Usuario</FormLabel>
+              <Select
+                bg="white"
+                placeholder="Todos los usuarios"
+                value={filters.actorId || ''}
+                onChange={(e) => updateFilter({ actorId: e.target.value || undefined })}
+              >
+                {users.map(user => (
+                  <option key={user._id} value={user._id}>{user.email}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl w={{ base: 'full', md: '180px' }}>
+              <FormLabel fontSize="sm">Entidad</FormLabel>
+              <Select
+                bg="white"
+                placeholder="Todas"
+                value={filters.entityType || ''}
+                onChange={(e) => updateFilter({ entityType: (e.target.value || undefined) as AuditEntityType | undefined })}
+              >
+                {Object.entries(AUDIT_ENTITY_CONFIG).map(([entityType, config]) => (
+                  <option key={entityType} value={entityType}>{config.label}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl w={{ base: 'full', md: '180px' }}>
+              <FormLabel fontSize="sm">Acción</FormLabel>
+              <Select
+                bg="white"
+                placeholder="Todas"
+                value={filters.action || ''}
+                onChange={(e) => updateFilter({ action: (e.target.value || undefined) as AuditAction | undefined })}
+              >
+                {Object.entries(AUDIT_ACTION_CONFIG).map(([action, config]) => (
+                  <option key={action} value={action}>{config.label}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl w={{ base: 'full', md: '160px' }}>
+              <FormLabel fontSize="sm">Desde</FormLabel>
+              <Input
+                type="date"
+                bg="white"
+                value={filters.dateFrom || ''}
+                max={filters.dateTo || undefined}
+                onChange={(e) => updateFilter({ dateFrom: e.target.value || undefined })}
+              />
+            </FormControl>
+
+            <FormControl w={{ base: 'full', md: '160px' }}>
+              <FormLabel fontSize="sm">Hasta</FormLabel>
+              <Input
+                type="date"
+                bg="white"
+                value={filters.dateTo || ''}
+                min={filters.dateFrom || undefined}
+                onChange={(e) => updateFilter({ dateTo: e.target.value || undefined })}
+              />
+            </FormControl>
+
+            <HStack spacing={2}>
+              {hasFilters && (
+                <Button
+                  leftIcon={<FiX />}
+                  variant="ghost"
+                  onClick={() => updateFilter(DEFAULT_FILTERS)}
+                >
+                  Limpiar
+                </Button>
+              )}
+              <Button
+                leftIcon={<FiRefreshCw />}
+                variant="outline"
+                onClick={() => refetch()}
+                isLoading={isRefetching}
+              >
+                Actualizar
+              </Button>
+            </HStack>
+          </HStack>
+        </CardBody>
+      </Card>
+
+      {isError && (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          <Box>
+            <Text fontWeight="medium">Error al cargar la bitácora</Text>
+            <Text fontSize="sm">
+              {error?.message || 'No se pudo cargar la bitácora de auditoría. Intenta refrescar la página.'}
+            </Text>
+          </Box>
+        </Alert>
+      )}
+
+      {!isLoading && !isError && entries.length === 0 ? (
+        <EmptyState
+          icon={FiShield}
+          title="Sin registros"
+          description={
+            hasFilters
+              ? 'No hay operaciones que coincidan con los filtros seleccionados.'
+              : 'Todavía no se registraron operaciones del personal.'
+          }
+        />
+      ) : (
+        <Card shadow="sm">
+          <CardBody p={0}>
+            <TableContainer>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th width="40px" />
+                    <Th>Fecha</Th>
+                    <Th>Usuario</Th>
+                    <Th>Acción</Th>
+                    <Th>Entidad</Th>
+                    <Th>Cambios</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {isLoading ? (
+                    <LoadingRows />
+                  ) : (
+                    entries.map(entry => {
+                      const actionConfig = AUDIT_ACTION_CONFIG[entry.action];
+                      const entityConfig = AUDIT_ENTITY_CONFIG[entry.entityType];
+                      const href = AuditService.getEntityHref(entry);
+                      const changeCount = AuditService.getChanges(entry).length;
+                      const isExpanded = expandedId === entry._id;
+                      const entityLabel = entry.entityLabel || entry.entityId;
+
+                      return (
+                        <Fragment key={entry._id}>
+                          <Tr bg={isExpanded ? 'gray.50' : undefined}>
+                            <Td>
+                              <IconButton
+                                aria-label={isExpanded ? 'Ocultar cambios' : 'Ver cambios'}
+                                icon={isExpanded ? <FiChevronDown /> : <FiChevronRight />}
+                                size="xs"
+                                variant="ghost"
+                                onClick={() => setExpandedId(isExpanded ? null : entry._id)}
+                              />
+                            </Td>
+                            <Td>
+                              <Text fontSize="sm">{DateUtils.formatDateTime(entry.createdAt)}</Text>
+                              <Text fontSize="xs" color="gray.500">{DateUtils.formatRelative(entry.createdAt)}</Text>
+                            </Td>
+                            <Td>
+                              <Text fontSize="sm">{entry.actor?.email || entry.actorId}</Text>
+                            </Td>
+                            <Td>
+                              <Badge colorScheme={actionConfig?.color || 'gray'} variant="subtle">
+                                {actionConfig?.label || entry.action}
+                              </Badge>
+                            </Td>
+                            <Td>
+                              <Text fontSize="xs" color="gray.500">
+                                {entityConfig?.label || entry.entityType}
+                              </Text>
+                              {href ? (
+                                <Text as={Link} href={href} fontSize="sm" color="blue.600" fontWeight="medium">
+                                  {entityLabel}
+                                </Text>
+                              ) : (
+                                <Text fontSize="sm">{entityLabel}</Text>
+                              )}
+                            </Td>
+                            <Td>
+                              <Text fontSize="sm" color="gray.600">
+                                {changeCount > 0 ? `${changeCount} campo${changeCount !== 1 ? 's' : ''}` : '—'}
+                              </Text>
+                            </Td>
+                          </Tr>
+                          {isExpanded && (
+                            <Tr bg="gray.50">
+                              <Td />
+                              <Td colSpan={5}>
+                                <AuditEntryChanges entry={entry} />
+                              </Td>
+                            </Tr>
+                          )}
+                        </Fragment>
+                      );
+                    })
+                  )}
+                </Tbody>
+              </Table>
+            </TableContainer>
+          </CardBody>
+        </Card>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <HStack justify="center" spacing={3}>
+          <Button size="sm" isDisabled={!pagination.hasPrevPage} onClick={() => goToPage(pagination.page - 1)}>
+            Anterior
+          </Button>
+          <Text fontSize="sm">
+            Página {pagination.page} de {pagination.totalPages} · {pagination.total} registros
+          </Text>
+          <Button size="sm" isDisabled={!pagination.hasNextPage} onClick={() => goToPage(pagination.page + 1)}>
+            Siguiente
+          </Button>
+        </HStack>
+      )}
+    </VStack>
+  );
+}
@@ -0,0 +1,28 @@
+// src/components/admin/audit/auditLog.config.ts
+import type { AuditAction, AuditEntityType } from '@/types/audit.types';
+
+export const AUDIT_ACTION_CONFIG: Record<AuditAction, { label: string; color: string }> = {
+  create: { label: 'Creación', color: 'green' },
+  update: { label: 'Edición', color: 'blue' },
+  delete: { label: 'Eliminación', color: 'red' },
+  activate: { label: 'Activación', color: 'teal' },
+  deactivate: { label: 'Desactivación', color: 'orange' },
+  import: { label: 'Importación', color: 'purple' },
+  return: { label: 'Devolución', color: 'green' },
+  renew: { label: 'Renovación', color: 'cyan' },
+  mark_lost: { label: 'Marcado perdido', color: 'red' },
+  reset_password: { label: 'Cambio de contraseña', color: 'yellow' },
+};
+
+export const AUDIT_ENTITY_CONFIG: Record<AuditEntityType, { label: string }> = {
+  person: { label: 'Persona' },
+  resource: { label: 'Recurso' },
+  loan: { label: 'Préstamo' },
+  category: { label: 'Categoría' },
+  location: { label: 'Ubicación' },
+  resource_type: { label: 'Tipo de recurso' },
+  resource_state: { label: 'Estado de recurso' },
+  user: { label: 'Usuario' },
+  penalty: { label: 'Sanción' },
+  system_config: { label: 'Configuración' },
+};
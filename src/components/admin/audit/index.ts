@@ -0,0 +1,4 @@
+// src/components/admin/audit/index.ts
+export { AuditLogViewer } from './AuditLogViewer';
+export { AuditEntryChanges } from './AuditEntryChanges';
+export { AUDIT_ACTION_CONFIG, AUDIT_ENTITY_CONFIG } from './auditLog.config';
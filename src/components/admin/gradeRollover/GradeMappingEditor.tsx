@@ -0,0 +1,139 @@
+// src/components/admin/gradeRollover/GradeMappingEditor.tsx
+'use client';
+
+import {
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Input,
+  Select,
+  Text,
+  IconButton,
+  Tooltip,
+  VStack,
+} from '@chakra-ui/react';
+import { FiTrash2 } from 'react-icons/fi';
+import type { GradeRolloverAction, GradeRolloverRule } from '@/types/api.types';
+import { GRADE_ROLLOVER_ACTION_CONFIG, suggestNextGrade, validateRolloverRule } from './gradeRollover.utils';
+
+interface GradeMappingEditorProps {
+  rules: GradeRolloverRule[];
+  // Número de estudiantes activos por grado según las estadísticas
+  studentCounts: Record<string, number>;
+  onChange: (rules: GradeRolloverRule[]) => void;
+  isDisabled?: boolean;
+}
+
+export function GradeMappingEditor({ rules, studentCounts, onChange, isDisabled = false }: GradeMappingEditorProps) {
+  const updateRule = (index: number, changes: Partial<GradeRolloverRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleActionChange = (index: number, action: GradeRolloverAction) => {
+    const rule = rules[index];
+    updateRule(index, {
+      action,
+      toGrade: action === 'promote' ? rule.toGrade || suggestNextGrade(rule.fromGrade) : undefined,
+    });
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  return (
+    <TableContainer borderWidth="1px" borderRadius="md">
+      <Table size="sm">
+        <Thead bg="gray.50">
+          <Tr>
+            <Th>Grado actual</Th>
+            <Th isNumeric>Estudiantes</Th>
+            <Th>Acción</Th>
+            <Th>Nuevo grado</Th>
+            <Th width="50px"></Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {rules.map((rule, index) => {
+            const error = validateRolloverRule(rule);
+            const isKnownGrade = rule.fromGrade in studentCounts;
+
+            return (
+              <Tr key={index}>
+                <Td>
+                  {isKnownGrade ? (
+                    <Text fontWeight="medium">{rule.fromGrade}</Text>
+                  ) : (
+                    <Input
+                      size="sm"
+                      value={rule.fromGrade}
+                      placeholder="Ej: 5°"
+                      onChange={(e) => updateRule(index, { fromGrade: e.target.value })}
+                      isDisabled={isDisabled}
+                      maxW="140px"
+                    />
+                  )}
+                </Td>
+                <Td isNumeric color="gray.600">
+                  {isKnownGrade ? studentCounts[rule.fromGrade] : '—'}
+                </Td>
+                <Td>
+                  <Select
+                    size="sm"
+                    value={rule.action}
+                    onChange={(e) => handleActionChange(index, e.target.value as GradeRolloverAction)}
+                    isDisabled={isDisabled}
+                    maxW="200px"
+                  >
+                    {(Object.keys(GRADE_ROLLOVER_ACTION_CONFIG) as GradeRolloverAction[]).map(action => (
+                      <option key={action} value={action}>
+                        {GRADE_ROLLOVER_ACTION_CONFIG[action].label}
+                      </option>
+                    ))}
+                  </Select>
+                </Td>
+                <Td>
+                  <VStack align="start" spacing={1}>
+                    {rule.action === 'promote' ? (
+                      <Input
+                        size="sm"
+                        value={rule.toGrade || ''}
+                        placeholder="Ej: 6°"
+                        onChange={(e) => updateRule(index, { toGrade: e.target.value })}
+                        isInvalid={!!error}
+                        isDisabled={isDisabled}
+                        maxW="140px"
+                      />
+                    ) : (
+                      <Text fontSize="sm" color="gray.400">—</Text>
+                    )}
+                    {error && (
+                      <Text fontSize="xs" color="red.500">{error}</Text>
+                    )}
+                  </VStack>
+                </Td>
+                <Td>
+                  <Tooltip label="Quitar del mapeo">
+                    <IconButton
+                      aria-label="Quitar grado"
+                      icon={<FiTrash2 />}
+                      size="sm"
+                      variant="ghost"
+                      colorScheme="red"
+                      onClick={() => handleRemove(index)}
+                      isDisabled={isDisabled}
+                    />
+                  </Tooltip>
+                </Td>
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </TableContainer>
+  );
+}
@@ -0,0 +1,105 @@
+// src/components/admin/gradeRollover/GradeRolloverPreview.tsx
+'use client';
+
+import {
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Badge,
+  Text,
+  VStack,
+  HStack,
+  Tooltip,
+  Spinner,
+} from '@chakra-ui/react';
+import { FiAlertTriangle } from 'react-icons/fi';
+import type { BulkOperationResult, GradeRolloverItem } from '@/types/api.types';
+import type { LoanWithDetails } from '@/types/loan.types';
+
+interface GradeRolloverPreviewProps {
+  items: GradeRolloverItem[];
+  loansByPerson?: Record<string, LoanWithDetails[]>;
+  isLoadingLoans?: boolean;
+  // Resultado de la aplicación, en el mismo orden que los items
+  result?: BulkOperationResult<GradeRolloverItem>;
+}
+
+export function GradeRolloverPreview({
+  items,
+  loansByPerson = {},
+  isLoadingLoans = false,
+  result,
+}: GradeRolloverPreviewProps) {
+  const errorsByIndex = new Map((result?.errors || []).map(failure => [failure.index, failure.error]));
+
+  return (
+    <TableContainer maxH="480px" overflowY="auto" borderWidth="1px" borderRadius="md">
+      <Table size="sm">
+        <Thead position="sticky" top={0} bg="gray.50" zIndex={1}>
+          <Tr>
+            <Th>Estudiante</Th>
+            <Th>Grado actual</Th>
+            <Th>Cambio</Th>
+            <Th>Préstamos activos</Th>
+            {result && <Th>Resultado</Th>}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {items.map((item, index) => {
+            const loans = loansByPerson[item.personId] || [];
+            const error = errorsByIndex.get(index);
+
+            return (
+              <Tr key={item.personId} bg={loans.length > 0 ? 'orange.50' : undefined}>
+                <Td whiteSpace="normal" fontWeight="medium">{item.fullName}</Td>
+                <Td>{item.fromGrade}</Td>
+                <Td>
+                  {item.action === 'graduate' ? (
+                    <Badge colorScheme="purple" variant="subtle">Egresa</Badge>
+                  ) : (
+                    <Badge colorScheme="blue" variant="subtle">→ {item.toGrade}</Badge>
+                  )}
+                </Td>
+                <Td whiteSpace="normal">
+                  {isLoadingLoans ? (
+                    <Spinner size="xs" color="gray.400" />
+                  ) : loans.length > 0 ? (
+                    <Tooltip
+                      label={loans.map(loan => loan.resource?.title || 'Recurso').join(', ')}
+                      hasArrow
+                    >
+                      <HStack spacing={1} color="orange.600">
+                        <FiAlertTriangle size={14} />
+                        <Text fontSize="sm">
+                          {loans.length} sin devolver
+                        </Text>
+                      </HStack>
+                    </Tooltip>
+                  ) : (
+                    <Text fontSize="sm" color="gray.400">Ninguno</Text>
+                  )}
+                </Td>
+                {result && (
+                  <Td whiteSpace="normal">
+                    {error ? (
+                      <VStack align="start" spacing={1}>
+                        <Badge colorScheme="red" variant="subtle">Fallido</Badge>
+                        <Text fontSize="xs" color="red.600">{error}</Text>
+                      </VStack>
+                    ) : (
+                      <Badge colorScheme="green" variant="subtle">Aplicado</Badge>
+                    )}
+                  </Td>
+                )}
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </TableContainer>
+  );
+}
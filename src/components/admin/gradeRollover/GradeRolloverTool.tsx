@@ -0,0 +1,405 @@
+// src/components/admin/gradeRollover/GradeRolloverTool.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Card,
+  CardBody,
+  Badge,
+  Alert,
+  AlertIcon,
+  Checkbox,
+  Progress,
+  Divider,
+  Spinner,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { useEffect, useMemo, useState } from 'react';
+import { FiArrowLeft, FiArrowRight, FiPlus, FiRefreshCw, FiZap, FiCheck } from 'react-icons/fi';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import {
+  usePersonStats,
+  useStudentsByGrades,
+  usePeopleActiveLoans,
+  useGradeRollover,
+} from '@/hooks/usePeople';
+import type { BulkOperationResult, GradeRolloverItem, GradeRolloverRule } from '@/types/api.types';
+import { GradeMappingEditor } from './GradeMappingEditor';
+import { GradeRolloverPreview } from './GradeRolloverPreview';
+import { buildRolloverItems, buildSuggestedRules, validateRolloverRule } from './gradeRollover.utils';
+
+type RolloverStep = 'mapping' | 'preview' | 'done';
+
+/**
+ * Promoción de grado de fin de año
+ *
+ * Flujo:
+ * 1. Definición del mapeo por grado (promover, egresar o mantener)
+ * 2. Vista previa de los estudiantes afectados y sus préstamos sin devolver
+ * 3. Aplicación masiva y resumen del resultado
+ */
+export function GradeRolloverTool() {
+  const [step, setStep] = useState<RolloverStep>('mapping');
+  const [rules, setRules] = useState<GradeRolloverRule[]>([]);
+  const [rulesInitialized, setRulesInitialized] = useState(false);
+  const [skipGraduatesWithLoans, setSkipGraduatesWithLoans] = useState(true);
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [result, setResult] = useState<BulkOperationResult<GradeRolloverItem> | null>(null);
+  const [submittedItems, setSubmittedItems] = useState<GradeRolloverItem[]>([]);
+
+  const { isOpen: isConfirmOpen, onOpen: onConfirmOpen, onClose: onConfirmClose } = useDisclosure();
+
+  const { data: stats, isLoading: isLoadingStats } = usePersonStats();
+  const rolloverMutation = useGradeRollover();
+
+  const byGrade = stats?.byGrade;
+  const studentCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    (byGrade || []).forEach(({ grade, count }) => {
+      if (grade) counts[grade] = count;
+    });
+    return counts;
+  }, [byGrade]);
+
+  // Mapeo inicial sugerido a partir de los grados registrados
+  useEffect(() => {
+    if (rulesInitialized || !byGrade) return;
+    setRules(buildSuggestedRules(Object.keys(studentCounts)));
+    setRulesInitialized(true);
+  }, [byGrade, studentCounts, rulesInitialized]);
+
+  const activeRules = useMemo(
+    () => rules.filter(rule => rule.action !== 'keep' && rule.fromGrade.trim()),
+    [rules]
+  );
+  const affectedGrades = useMemo(() => activeRules.map(rule => rule.fromGrade), [activeRules]);
+  const hasRuleErrors = rules.some(rule => validateRolloverRule(rule) !== null);
+  const hasDuplicateGrades = new Set(rules.map(rule => rule.fromGrade.trim().toLowerCase())).size !== rules.length;
+
+  const {
+    studentsByGrade,
+    isLoading: isLoadingStudents,
+    isError: isStudentsError,
+  } = useStudentsByGrades(affectedGrades, step !== 'mapping');
+
+  const items = useMemo(
+    () => (step === 'mapping' || isLoadingStudents ? [] : buildRolloverItems(rules, studentsByGrade)),
+    [step, isLoadingStudents, rules, studentsByGrade]
+  );
+  const personIds = useMemo(() => items.map(item => item.personId), [items]);
+
+  const {
+    data: loansByPerson = {},
+    isLoading: isLoadingLoans,
+    isError: isLoansError,
+    refetch: refetchLoans,
+  } = usePeopleActiveLoans(
+    personIds,
+    step === 'preview'
+  );
+
+  const graduatesWithLoans = items.filter(
+    item => item.action === 'graduate' && (loansByPerson[item.personId]?.length || 0) > 0
+  );
+  const itemsToApply = skipGraduatesWithLoans
+    ? items.filter(item => !graduatesWithLoans.includes(item))
+    : items;
+  const counts = {
+    promote: items.filter(item => item.action === 'promote').length,
+    graduate: items.filter(item => item.action === 'graduate').length,
+    withLoans: items.filter(item => (loansByPerson[item.personId]?.length || 0) > 0).length,
+  };
+
+  const handleAddGrade = () => {
+    setRules([...rules, { fromGrade: '', action: 'promote', toGrade: '' }]);
+  };
+
+  const handleResetSuggestion = () => {
+    setRules(buildSuggestedRules(Object.keys(studentCounts)));
+  };
+
+  const handleApply = async () => {
+    onConfirmClose();
+    if (isLoansError) return;
+
+    setProgress({ processed: 0, total: itemsToApply.length });
+    setSubmittedItems(itemsToApply);
+
+    try {
+      const bulkResult = await rolloverMutation.mutateAsync({
+        items: itemsToApply,
+        onProgress: (processed, total) => setProgress({ processed, total }),
+      });
+      setResult(bulkResult);
+      setStep('done');
+    } catch (error) {
+      // Error manejado por el hook
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRestart = () => {
+    setResult(null);
+    setSubmittedItems([]);
+    setRulesInitialized(false);
+    setStep('mapping');
+  };
+
+  // Resultado
+  if (step === 'done' && result) {
+    const resultStats = [
+      { label: 'Procesados', value: result.summary.total, color: 'gray.800' },
+      { label: 'Actualizados', value: result.summary.successful, color: 'green.600' },
+      { label: 'Fallidos', value: result.summary.failed, color: 'red.600' },
+    ];
+
+    return (
+      <Card>
+        <CardBody>
+          <VStack spacing={4} align="stretch">
+            <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+              Promoción aplicada
+            </Text>
+            <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+              {resultStats.map(stat => (
+                <Card key={stat.label} variant="outline">
+                  <CardBody py={3}>
+                    <Stat>
+                      <StatLabel color="gray.600">{stat.label}</StatLabel>
+                      <StatNumber color={stat.color}>{stat.value}</StatNumber>
+                    </Stat>
+                  </CardBody>
+                </Card>
+              ))}
+            </SimpleGrid>
+
+            <GradeRolloverPreview items={submittedItems} result={result} />
+
+            <HStack justify="flex-end">
+              <Button variant="outline" leftIcon={<FiRefreshCw />} onClick={handleRestart}>
+                Nueva promoción
+              </Button>
+            </HStack>
+          </VStack>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const isApplying = rolloverMutation.isPending;
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Mapeo de grados */}
+      <Card>
+        <CardBody>
+          <VStack spacing={4} align="stretch">
+            <HStack justify="space-between" align="start" flexWrap="wrap" gap={3}>
+              <Box>
+                <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+                  1. Define el mapeo de grados
+                </Text>
+                <Text fontSize="sm" color="gray.600">
+                  Indica a qué grado pasa cada curso. Los grados que egresan desactivan a sus estudiantes.
+                </Text>
+              </Box>
+              <HStack spacing={2}>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  leftIcon={<FiZap />}
+                  onClick={handleResetSuggestion}
+                  isDisabled={step !== 'mapping' || isLoadingStats}
+                >
+                  Sugerir mapeo
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<FiPlus />}
+                  onClick={handleAddGrade}
+                  isDisabled={step !== 'mapping'}
+                >
+                  Agregar grado
+                </Button>
+              </HStack>
+            </HStack>
+
+            {isLoadingStats ? (
+              <HStack justify="center" py={6}>
+                <Spinner color="blue.500" />
+                <Text color="gray.600">Cargando grados registrados...</Text>
+              </HStack>
+            ) : rules.length === 0 ? (
+              <Alert status="info" borderRadius="md">
+                <AlertIcon />
+                No hay grados registrados. Agrega manualmente los grados a promover.
+              </Alert>
+            ) : (
+              <GradeMappingEditor
+                rules={rules}
+                studentCounts={studentCounts}
+                onChange={setRules}
+                isDisabled={step !== 'mapping'}
+              />
+            )}
+
+            {hasDuplicateGrades && (
+              <Alert status="error" borderRadius="md" fontSize="sm">
+                <AlertIcon />
+                Cada grado solo puede aparecer una vez en el mapeo.
+              </Alert>
+            )}
+
+            {step === 'mapping' && (
+              <HStack justify="flex-end">
+                <Button
+                  colorScheme="blue"
+                  rightIcon={<FiArrowRight />}
+                  onClick={() => setStep('preview')}
+                  isDisabled={activeRules.length === 0 || hasRuleErrors || hasDuplicateGrades}
+                >
+                  Ver estudiantes afectados
+                </Button>
+              </HStack>
+            )}
+          </VStack>
+        </CardBody>
+      </Card>
+
+      {/* Vista previa y aplicación */}
+      {step === 'preview' && (
+        <Card>
+          <CardBody>
+            <VStack spacing={4} align="stretch">
+              <Box>
+                <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+                  2. Revisa los cambios
+                </Text>
+                <HStack spacing={2} mt={1} flexWrap="wrap">
+                  <Badge colorScheme="blue" variant="subtle">{counts.promote} promovidos</Badge>
+                  <Badge colorScheme="purple" variant="subtle">{counts.graduate} egresados</Badge>
+                  <Badge colorScheme="orange" variant="subtle">
+                    {isLoadingLoans ? '...' : isLoansError ? '—' : counts.withLoans} con préstamos activos
+                  </Badge>
+                </HStack>
+              </Box>
+
+              {isLoadingStudents ? (
+                <HStack justify="center" py={6}>
+                  <Spinner color="blue.500" />
+                  <Text color="gray.600">Cargando estudiantes por grado...</Text>
+                </HStack>
+              ) : isStudentsError ? (
+                <Alert status="error" borderRadius="md">
+                  <AlertIcon />
+                  <Text flex={1}>No se pudieron cargar los estudiantes de todos los grados.</Text>
+                  <Button size="sm" onClick={() => setStep('mapping')}>
+                    Volver al mapeo
+                  </Button>
+                </Alert>
+              ) : items.length === 0 ? (
+                <Alert status="info" borderRadius="md">
+                  <AlertIcon />
+                  No hay estudiantes activos en los grados seleccionados.
+                </Alert>
+              ) : (
+                <GradeRolloverPreview
+                  items={items}
+                  loansByPerson={loansByPerson}
+                  isLoadingLoans={isLoadingLoans}
+                />
+              )}
+
+              {isLoansError && (
+                <Alert status="error" borderRadius="md" fontSize="sm">
+                  <AlertIcon />
+                  <Text flex={1}>
+                    No se pudieron consultar los préstamos sin devolver. Sin esa información no se puede
+                    aplicar el cambio de grado sin riesgo de desactivar egresados con préstamos.
+                  </Text>
+                  <Button size="sm" onClick={() => refetchLoans()}>
+                    Reintentar
+                  </Button>
+                </Alert>
+              )}
+
+              {graduatesWithLoans.length > 0 && (
+                <Alert status="warning" borderRadius="md" fontSize="sm">
+                  <AlertIcon />
+                  {graduatesWithLoans.length} estudiante{graduatesWithLoans.length === 1 ? '' : 's'} por egresar
+                  {graduatesWithLoans.length === 1 ? ' tiene' : ' tienen'} préstamos sin devolver.
+                </Alert>
+              )}
+
+              <Divider />
+
+              <Checkbox
+                isChecked={skipGraduatesWithLoans}
+                onChange={(e) => setSkipGraduatesWithLoans(e.target.checked)}
+                isDisabled={isApplying}
+              >
+                No desactivar egresados con préstamos sin devolver
+              </Checkbox>
+
+              {progress && (
+                <Box>
+                  <Text fontSize="sm" color="gray.600" mb={1}>
+                    Actualizando estudiantes ({progress.processed}/{progress.total})...
+                  </Text>
+                  <Progress
+                    size="sm"
+                    colorScheme="green"
+                    borderRadius="full"
+                    value={progress.total ? (progress.processed / progress.total) * 100 : 0}
+                  />
+                </Box>
+              )}
+
+              <HStack justify="space-between">
+                <Button
+                  variant="outline"
+                  leftIcon={<FiArrowLeft />}
+                  onClick={() => setStep('mapping')}
+                  isDisabled={isApplying}
+                >
+                  Modificar mapeo
+                </Button>
+                <Button
+                  colorScheme="blue"
+                  leftIcon={<FiCheck />}
+                  onClick={onConfirmOpen}
+                  isLoading={isApplying}
+                  loadingText="Aplicando..."
+                  isDisabled={itemsToApply.length === 0 || isLoadingStudents || isLoadingLoans || isLoansError}
+                >
+                  Aplicar a {itemsToApply.length} estudiante{itemsToApply.length === 1 ? '' : 's'}
+                </Button>
+              </HStack>
+            </VStack>
+          </CardBody>
+        </Card>
+      )}
+
+      <ConfirmDialog
+        isOpen={isConfirmOpen}
+        onClose={onConfirmClose}
+        onConfirm={handleApply}
+        title="Aplicar promoción de grado"
+        message={`Se actualizará el grado o se desactivará a ${itemsToApply.length} estudiante${itemsToApply.length === 1 ? '' : 's'}. Esta acción no se puede deshacer automáticamente.`}
+        confirmText="Aplicar"
+        variant="warning"
+        isLoading={isApplying}
+      />
+    </VStack>
+  );
+}
@@ -0,0 +1,101 @@
+// src/components/admin/gradeRollover/gradeRollover.utils.ts
+import { PersonBusinessRules } from '@/lib/validation';
+import type { GradeRolloverAction, GradeRolloverItem, GradeRolloverRule, Person } from '@/types/api.types';
+
+export const GRADE_ROLLOVER_ACTION_CONFIG: Record<GradeRolloverAction, { label: string; color: string }> = {
+  promote: { label: 'Promover', color: 'blue' },
+  graduate: { label: 'Egresar (desactivar)', color: 'purple' },
+  keep: { label: 'Mantener', color: 'gray' },
+};
+
+/**
+ * Extraer el número de un grado ("5°" → 5, "10 A" → 10)
+ */
+export const getGradeNumber = (grade: string): number | null => {
+  const match = grade.match(/\d+/);
+  return match ? parseInt(match[0], 10) : null;
+};
+
+/**
+ * Sugerir el grado siguiente incrementando su parte numérica ("5°" → "6°", "9A" → "10A")
+ */
+export const suggestNextGrade = (grade: string): string => {
+  const number = getGradeNumber(grade);
+  if (number === null) return '';
+  return grade.replace(/\d+/, (number + 1).toString());
+};
+
+/**
+ * Ordenar grados por su número y luego alfabéticamente
+ */
+export const sortGrades = (grades: string[]): string[] => {
+  return [...grades].sort((a, b) => {
+    const numberA = getGradeNumber(a);
+    const numberB = getGradeNumber(b);
+    if (numberA !== null && numberB !== null && numberA !== numberB) return numberA - numberB;
+    if (numberA === null && numberB !== null) return 1;
+    if (numberA !== null && numberB === null) return -1;
+    return a.localeCompare(b, 'es');
+  });
+};
+
+/**
+ * Construir un mapeo sugerido: el grado más alto egresa, el resto se promueve
+ * y los grados sin número se mantienen para revisión manual
+ */
+export const buildSuggestedRules = (grades: string[]): GradeRolloverRule[] => {
+  const numbers = grades.map(getGradeNumber).filter((number): number is number => number !== null);
+  const highest = numbers.length > 0 ? Math.max(...numbers) : null;
+
+  return sortGrades(grades).map(grade => {
+    const number = getGradeNumber(grade);
+    if (number === null) return { fromGrade: grade, action: 'keep' };
+    if (number === highest) return { fromGrade: grade, action: 'graduate' };
+    return { fromGrade: grade, action: 'promote', toGrade: suggestNextGrade(grade) };
+  });
+};
+
+/**
+ * Validar una regla del mapeo
+ */
+export const validateRolloverRule = (rule: GradeRolloverRule): string | null => {
+  if (!rule.fromGrade.trim()) return 'Indica el grado actual';
+  if (rule.action !== 'promote') return null;
+
+  const toGrade = rule.toGrade?.trim() || '';
+  if (!toGrade) return 'Indica el nuevo grado';
+  if (toGrade.toLowerCase() === rule.fromGrade.trim().toLowerCase()) {
+    return 'El nuevo grado debe ser distinto al actual';
+  }
+
+  const { errors } = PersonBusinessRules.validateStudentRules({ grade: toGrade });
+  return errors[0] || null;
+};
+
+/**
+ * Generar las operaciones a aplicar a partir del mapeo y los estudiantes de cada grado.
+ * Los estudiantes se cargan antes de aplicar cambios, por lo que el orden de las reglas
+ * no importa ("5°" → "6°" no vuelve a promover a quienes ya estaban en "6°")
+ */
+export const buildRolloverItems = (
+  rules: GradeRolloverRule[],
+  studentsByGrade: Record<string, Person[]>
+): GradeRolloverItem[] => {
+  const items: GradeRolloverItem[] = [];
+
+  rules.forEach(rule => {
+    if (rule.action === 'keep') return;
+
+    (studentsByGrade[rule.fromGrade] || []).forEach(student => {
+      items.push({
+        personId: student._id,
+        fullName: student.fullName || `${student.firstName} ${student.lastName}`,
+        fromGrade: rule.fromGrade,
+        action: rule.action === 'graduate' ? 'graduate' : 'promote',
+        toGrade: rule.action === 'promote' ? rule.toGrade?.trim() : undefined,
+      });
+    });
+  });
+
+  return items;
+};
@@ -0,0 +1,4 @@
+// src/components/admin/gradeRollover/index.ts
+export { GradeRolloverTool } from './GradeRolloverTool';
+export { GradeMappingEditor } from './GradeMappingEditor';
+export { GradeRolloverPreview } from './GradeRolloverPreview';
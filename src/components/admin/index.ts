@@ -11,9 +11,24 @@ export { CategoryList, CategoryForm } from './categories';
 // Componentes de ubicaciones
 export { LocationList, LocationForm } from './locations';
 
+// Componentes de usuarios del sistema
+export { UserList, UserForm, ResetPasswordModal } from './users';
+
 // Componentes de tipos de recursos
 export { ResourceTypeList, ResourceTypeForm } from './resourceTypes';
 
+// Promoción de grado de fin de año
+export { GradeRolloverTool } from './gradeRollover';
+
+// Reglas de multas y sanciones
+export { PenaltyRulesManager } from './penalties';
+
+// Configuración general del sistema
+export { SystemSettingsForm } from './settings';
+
+// Bitácora de auditoría
+export { AuditLogViewer } from './audit';
+
 // Tipos relacionados (re-export de servicios)
 export type {
   Category,
@@ -22,6 +37,14 @@ export type {
   CategoryFilters,
 } from '@/services/category.service';
 
+export type {
+  UserRole,
+  CreateUserRequest,
+  UpdateUserRequest,
+  ResetUserPasswordRequest,
+  UserFilters,
+} from '@/services/user.service';
+
 export type {
   Location,
   CreateLocationRequest,
@@ -0,0 +1,269 @@
+// src/components/admin/penalties/PenaltyRuleForm.tsx
+'use client';
+
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  HStack,
+  VStack,
+  SimpleGrid,
+  Text,
+  Badge,
+  Button,
+  Switch,
+  Select,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  NumberInput,
+  NumberInputField,
+  Divider,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { FiSave } from 'react-icons/fi';
+import { useUpdatePenaltyRule } from '@/hooks/usePenalties';
+import { NumberUtils } from '@/utils';
+import type { PersonType } from '@/types/api.types';
+import type { PenaltyRule, PenaltyType, UpdatePenaltyRuleRequest } from '@/types/penalty.types';
+
+interface PenaltyRuleFormProps {
+  personType: PersonType;
+  rule?: PenaltyRule;
+}
+
+// Valores iniciales para tipos de persona que aún no tienen regla
+export const DEFAULT_PENALTY_RULE: UpdatePenaltyRuleRequest = {
+  overduePenaltyType: 'suspension',
+  gracePeriodDays: 0,
+  finePerDay: 500,
+  maxFineAmount: undefined,
+  suspensionDaysPerOverdueDay: 1,
+  lostPenaltyType: 'fine',
+  lostResourceFine: 20000,
+  lostResourceSuspensionDays: 30,
+  active: false,
+};
+
+const toFormValues = (rule?: PenaltyRule): UpdatePenaltyRuleRequest => {
+  if (!rule) return DEFAULT_PENALTY_RULE;
+  return {
+    overduePenaltyType: rule.overduePenaltyType ?? DEFAULT_PENALTY_RULE.overduePenaltyType,
+    gracePeriodDays: rule.gracePeriodDays ?? DEFAULT_PENALTY_RULE.gracePeriodDays,
+    finePerDay: rule.finePerDay ?? DEFAULT_PENALTY_RULE.finePerDay,
+    maxFineAmount: rule.maxFineAmount,
+    suspensionDaysPerOverdueDay: rule.suspensionDaysPerOverdueDay ?? DEFAULT_PENALTY_RULE.suspensionDaysPerOverdueDay,
+    lostPenaltyType: rule.lostPenaltyType ?? DEFAULT_PENALTY_RULE.lostPenaltyType,
+    lostResourceFine: rule.lostResourceFine ?? DEFAULT_PENALTY_RULE.lostResourceFine,
+    lostResourceSuspensionDays: rule.lostResourceSuspensionDays ?? DEFAULT_PENALTY_RULE.lostResourceSuspensionDays,
+    active: rule.active ?? DEFAULT_PENALTY_RULE.active,
+  };
+};
+
+const parseNumber = (value: number, fallback = 0) => (Number.isNaN(value) ? fallback : Math.max(0, value));
+
+export function PenaltyRuleForm({ personType, rule }: PenaltyRuleFormProps) {
+  const [values, setValues] = useState<UpdatePenaltyRuleRequest>(() => toFormValues(rule));
+  const [isDirty, setIsDirty] = useState(false);
+  const updateMutation = useUpdatePenaltyRule();
+
+  useEffect(() => {
+    setValues(toFormValues(rule));
+    setIsDirty(false);
+  }, [rule]);
+
+  const update = (changes: Partial<UpdatePenaltyRuleRequest>) => {
+    setValues(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateMutation.mutateAsync({ personTypeId: personType._id, data: values });
+      setIsDirty(false);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const typeLabel = personType.name === 'student' ? 'Estudiantes' : 'Docentes';
+
+  // Ejemplo para ayudar a entender el efecto de la regla
+  const exampleDays = 5;
+  const chargeableDays = Math.max(0, exampleDays - values.gracePeriodDays);
+  const exampleFine = values.maxFineAmount
+    ? Math.min(chargeableDays * values.finePerDay, values.maxFineAmount)
+    : chargeableDays * values.finePerDay;
+  const example = values.overduePenaltyType === 'fine'
+    ? `${NumberUtils.formatCurrency(exampleFine)} de multa`
+    : `${Math.ceil(chargeableDays * values.suspensionDaysPerOverdueDay)} días sin préstamos`;
+
+  return (
+    <Card shadow="sm" borderWidth="1px" borderColor={values.active ? 'red.100' : 'gray.100'}>
+      <CardHeader pb={2}>
+        <HStack justify="space-between">
+          <VStack align="start" spacing={0}>
+            <Heading size="sm" color="gray.700">{typeLabel}</Heading>
+            <Text fontSize="xs" color="gray.500">{personType.description}</Text>
+          </VStack>
+          <HStack spacing={3}>
+            {!rule && <Badge colorScheme="gray">Sin configurar</Badge>}
+            <FormControl display="flex" alignItems="center" w="auto">
+              <FormLabel htmlFor={`penalty-active-${personType._id}`} mb={0} fontSize="sm">
+                Sanciones activas
+              </FormLabel>
+              <Switch
+                id={`penalty-active-${personType._id}`}
+                colorScheme="red"
+                isChecked={values.active}
+                onChange={(e) => update({ active: e.target.checked })}
+              />
+            </FormControl>
+          </HStack>
+        </HStack>
+      </CardHeader>
+
+      <CardBody pt={2}>
+        <VStack spacing={4} align="stretch" opacity={values.active ? 1 : 0.6}>
+          {/* Devolución tardía */}
+          <Text fontWeight="medium" fontSize="sm" color="gray.700">Devolución tardía</Text>
+          <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+            <FormControl>
+              <FormLabel fontSize="sm">Tipo de sanción</FormLabel>
+              <Select
+                size="sm"
+                value={values.overduePenaltyType}
+                onChange={(e) => update({ overduePenaltyType: e.target.value as PenaltyType })}
+              >
+                <option value="suspension">Suspensión de préstamos</option>
+                <option value="fine">Multa por día</option>
+              </Select>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Días de gracia</FormLabel>
+              <NumberInput
+                size="sm"
+                min={0}
+                value={values.gracePeriodDays}
+                onChange={(_, value) => update({ gracePeriodDays: parseNumber(value) })}
+              >
+                <NumberInputField />
+              </NumberInput>
+              <FormHelperText fontSize="xs">Días de retraso sin sanción</FormHelperText>
+            </FormControl>
+
+            {values.overduePenaltyType === 'fine' ? (
+              <FormControl>
+                <FormLabel fontSize="sm">Multa por día</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={0}
+                  step={100}
+                  value={values.finePerDay}
+                  onChange={(_, value) => update({ finePerDay: parseNumber(value) })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+            ) : (
+              <FormControl>
+                <FormLabel fontSize="sm">Días de suspensión por día de retraso</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={0}
+                  step={0.5}
+                  precision={1}
+                  value={values.suspensionDaysPerOverdueDay}
+                  onChange={(_, value) => update({ suspensionDaysPerOverdueDay: parseNumber(value) })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+            )}
+
+            {values.overduePenaltyType === 'fine' && (
+              <FormControl>
+                <FormLabel fontSize="sm">Multa máxima (opcional)</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={0}
+                  step={1000}
+                  value={values.maxFineAmount ?? ''}
+                  onChange={(valueString, value) => update({
+                    maxFineAmount: valueString === '' ? undefined : parseNumber(value),
+                  })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+            )}
+          </SimpleGrid>
+
+          <Text fontSize="xs" color="gray.500">
+            Ejemplo: {exampleDays} días de retraso → {chargeableDays > 0 ? example : 'sin sanción'}
+          </Text>
+
+          <Divider />
+
+          {/* Recurso perdido */}
+          <Text fontWeight="medium" fontSize="sm" color="gray.700">Recurso perdido</Text>
+          <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+            <FormControl>
+              <FormLabel fontSize="sm">Tipo de sanción</FormLabel>
+              <Select
+                size="sm"
+                value={values.lostPenaltyType}
+                onChange={(e) => update({ lostPenaltyType: e.target.value as PenaltyType })}
+              >
+                <option value="fine">Multa</option>
+                <option value="suspension">Suspensión de préstamos</option>
+              </Select>
+            </FormControl>
+
+            {values.lostPenaltyType === 'fine' ? (
+              <FormControl>
+                <FormLabel fontSize="sm">Valor de la multa</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={0}
+                  step={1000}
+                  value={values.lostResourceFine}
+                  onChange={(_, value) => update({ lostResourceFine: parseNumber(value) })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+            ) : (
+              <FormControl>
+                <FormLabel fontSize="sm">Días de suspensión</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={0}
+                  value={values.lostResourceSuspensionDays}
+                  onChange={(_, value) => update({ lostResourceSuspensionDays: parseNumber(value) })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+            )}
+          </SimpleGrid>
+        </VStack>
+
+        <HStack justify="flex-end" mt={4}>
+          <Button
+            size="sm"
+            colorScheme="blue"
+            leftIcon={<FiSave />}
+            onClick={handleSave}
+            isLoading={updateMutation.isPending}
+            isDisabled={!isDirty && !!rule}
+          >
+            Guardar
+          </Button>
+        </HStack>
+      </CardBody>
+    </Card>
+  );
+}
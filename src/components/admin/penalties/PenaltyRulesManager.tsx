@@ -0,0 +1,69 @@
+// src/components/admin/penalties/PenaltyRulesManager.tsx
+'use client';
+
+import {
+  VStack,
+  Text,
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  Skeleton,
+} from '@chakra-ui/react';
+import { usePersonTypes } from '@/hooks/usePeople';
+import { usePenaltyRules } from '@/hooks/usePenalties';
+import { PenaltyRuleForm } from './PenaltyRuleForm';
+
+/**
+ * Configuración de reglas de sanción por tipo de persona.
+ * Las sanciones se generan automáticamente al devolver tarde o marcar un recurso como perdido
+ */
+export function PenaltyRulesManager() {
+  const { data: personTypes = [], isLoading: isLoadingTypes } = usePersonTypes();
+  const { data: rules = [], isLoading: isLoadingRules, isError } = usePenaltyRules();
+
+  if (isLoadingTypes || isLoadingRules) {
+    return (
+      <VStack spacing={4} align="stretch">
+        <Skeleton height="220px" borderRadius="md" />
+        <Skeleton height="220px" borderRadius="md" />
+      </VStack>
+    );
+  }
+
+  if (isError) {
+    return (
+      <Alert status="error" borderRadius="md">
+        <AlertIcon />
+        <AlertDescription>No se pudieron cargar las reglas de sanción.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const activeTypes = personTypes.filter(type => type.active);
+
+  return (
+    <VStack spacing={4} align="stretch">
+      <Alert status="info" borderRadius="md">
+        <AlertIcon />
+        <AlertDescription fontSize="sm">
+          Las sanciones se crean automáticamente al registrar una devolución tardía o un recurso perdido.
+          Mientras una persona tenga sanciones activas no podrá tomar nuevos préstamos.
+        </AlertDescription>
+      </Alert>
+
+      {activeTypes.length === 0 ? (
+        <Text fontSize="sm" color="gray.500" textAlign="center" py={6}>
+          No hay tipos de persona configurados
+        </Text>
+      ) : (
+        activeTypes.map(personType => (
+          <PenaltyRuleForm
+            key={personType._id}
+            personType={personType}
+            rule={rules.find(rule => rule.personTypeId === personType._id)}
+          />
+        ))
+      )}
+    </VStack>
+  );
+}
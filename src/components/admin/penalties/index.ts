@@ -0,0 +1,3 @@
+// src/components/admin/penalties/index.ts
+export { PenaltyRulesManager } from './PenaltyRulesManager';
+export { PenaltyRuleForm, DEFAULT_PENALTY_RULE } from './PenaltyRuleForm';
@@ -0,0 +1,348 @@
+// src/components/admin/settings/SystemSettingsForm.tsx
+'use client';
+
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  HStack,
+  VStack,
+  SimpleGrid,
+  Text,
+  Button,
+  Switch,
+  Input,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  NumberInput,
+  NumberInputField,
+  Alert,
+  AlertIcon,
+  Skeleton,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { FiSave, FiRotateCcw } from 'react-icons/fi';
+import { useSystemConfiguration, useUpdateSystemConfiguration } from '@/hooks/useSystemConfig';
+import { DEFAULT_SYSTEM_CONFIGURATION } from '@/services/systemConfig.service';
+import type { PersonTypeLoanRules, SystemConfiguration } from '@/types/api.types';
+
+const PERSON_TYPE_LABELS: Record<keyof SystemConfiguration['loanRules'], string> = {
+  student: 'Estudiantes',
+  teacher: 'Docentes',
+};
+
+const LOAN_RULE_FIELDS: Array<{ key: keyof PersonTypeLoanRules; label: string; min: number; max: number }> = [
+  { key: 'maxLoans', label: 'Préstamos activos máximos', min: 1, max: 100 },
+  { key: 'loanDurationDays', label: 'Días de préstamo', min: 1, max: 365 },
+  { key: 'maxQuantityPerLoan', label: 'Unidades por préstamo', min: 1, max: 50 },
+  { key: 'maxRenewals', label: 'Renovaciones máximas', min: 0, max: 10 },
+];
+
+const FEATURE_FIELDS: Array<{ key: keyof SystemConfiguration['features']; label: string; help: string }> = [
+  { key: 'requestsEnabled', label: 'Solicitudes', help: 'Muestra el módulo de solicitudes de recursos' },
+  { key: 'reportsEnabled', label: 'Reportes', help: 'Muestra el módulo de estadísticas e informes' },
+  { key: 'googleBooksEnabled', label: 'Google Books', help: 'Permite registrar libros desde Google Books' },
+];
+
+const parseNumber = (value: number, min: number) => (Number.isNaN(value) ? min : Math.max(min, value));
+
+/**
+ * Editor de la configuración general del sistema
+ */
+export function SystemSettingsForm() {
+  const { data: config, isLoading, isPlaceholderData } = useSystemConfiguration();
+  const updateMutation = useUpdateSystemConfiguration();
+
+  const [values, setValues] = useState<SystemConfiguration>(DEFAULT_SYSTEM_CONFIGURATION);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    if (config && !isPlaceholderData) {
+      setValues(config);
+      setIsDirty(false);
+    }
+  }, [config, isPlaceholderData]);
+
+  const updateSection = <K extends keyof SystemConfiguration>(
+    section: K,
+    changes: Partial<SystemConfiguration[K]>
+  ) => {
+    setValues(prev => ({ ...prev, [section]: { ...prev[section], ...changes } }));
+    setIsDirty(true);
+  };
+
+  const updateLoanRule = (
+    personType: keyof SystemConfiguration['loanRules'],
+    changes: Partial<PersonTypeLoanRules>
+  ) => {
+    setValues(prev => ({
+      ...prev,
+      loanRules: {
+        ...prev.loanRules,
+        [personType]: { ...prev.loanRules[personType], ...changes },
+      },
+    }));
+    setIsDirty(true);
+  };
+
+  const handleReset = () => {
+    if (config) setValues(config);
+    setIsDirty(false);
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateMutation.mutateAsync(values);
+      setIsDirty(false);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  if (isLoading || isPlaceholderData) {
+    return (
+      <VStack spacing={4} align="stretch">
+        <Skeleton height="180px" borderRadius="md" />
+        <Skeleton height="240px" borderRadius="md" />
+        <Skeleton height="160px" borderRadius="md" />
+      </VStack>
+    );
+  }
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Biblioteca */}
+      <Card shadow="sm">
+        <CardHeader pb={2}>
+          <Heading size="sm" color="gray.700">Biblioteca</Heading>
+        </CardHeader>
+        <CardBody pt={2}>
+          <VStack spacing={4} align="stretch">
+            <FormControl>
+              <FormLabel fontSize="sm">Nombre de la biblioteca</FormLabel>
+              <Input
+                size="sm"
+                value={values.library.name}
+                onChange={(e) => updateSection('library', { name: e.target.value })}
+              />
+              <FormHelperText fontSize="xs">Aparece en recibos y carnés</FormHelperText>
+            </FormControl>
+
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <FormControl display="flex" alignItems="center">
+                <FormLabel htmlFor="allow-renewals" mb={0} fontSize="sm">
+                  Permitir renovaciones
+                </FormLabel>
+                <Switch
+                  id="allow-renewals"
+                  colorScheme="blue"
+                  isChecked={values.library.allowRenewals}
+                  onChange={(e) => updateSection('library', { allowRenewals: e.target.checked })}
+                />
+              </FormControl>
+
+              <FormControl>
+                <FormLabel fontSize="sm">Préstamos activos (general)</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={1}
+                  value={values.library.maxLoansPerPerson}
+                  onChange={(_, value) => updateSection('library', { maxLoansPerPerson: parseNumber(value, 1) })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+
+              <FormControl>
+                <FormLabel fontSize="sm">Días de préstamo (general)</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={1}
+                  value={values.library.loanDurationDays}
+                  onChange={(_, value) => updateSection('library', { loanDurationDays: parseNumber(value, 1) })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+
+              <FormControl isDisabled={!values.library.allowRenewals}>
+                <FormLabel fontSize="sm">Renovaciones máximas (general)</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={0}
+                  max={10}
+                  value={values.library.maxRenewals}
+                  onChange={(_, value) => updateSection('library', { maxRenewals: Math.min(10, parseNumber(value, 0)) })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+
+              <FormControl>
+                <FormLabel fontSize="sm">Días para retirar una reserva</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={1}
+                  max={30}
+                  value={values.library.holdPickupDays}
+                  onChange={(_, value) => updateSection('library', { holdPickupDays: Math.min(30, parseNumber(value, 1)) })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+            </SimpleGrid>
+
+            <Text fontSize="xs" color="gray.500">
+              Los valores generales se aplican cuando la persona no tiene un tipo reconocido.
+            </Text>
+          </VStack>
+        </CardBody>
+      </Card>
+
+      {/* Reglas por tipo de persona */}
+      <Card shadow="sm">
+        <CardHeader pb={2}>
+          <Heading size="sm" color="gray.700">Reglas de préstamo por tipo de persona</Heading>
+        </CardHeader>
+        <CardBody pt={2}>
+          <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+            {(Object.keys(PERSON_TYPE_LABELS) as Array<keyof SystemConfiguration['loanRules']>).map(personType => (
+              <VStack key={personType} align="stretch" spacing={3} p={4} bg="gray.50" borderRadius="md">
+                <Text fontWeight="medium" fontSize="sm" color="gray.700">
+                  {PERSON_TYPE_LABELS[personType]}
+                </Text>
+                <SimpleGrid columns={2} spacing={3}>
+                  {LOAN_RULE_FIELDS.map(field => (
+                    <FormControl key={field.key}>
+                      <FormLabel fontSize="xs">{field.label}</FormLabel>
+                      <NumberInput
+                        size="sm"
+                        bg="white"
+                        min={field.min}
+                        max={field.max}
+                        value={values.loanRules[personType][field.key]}
+                        isDisabled={field.key === 'maxRenewals' && !values.library.allowRenewals}
+                        onChange={(_, value) => updateLoanRule(personType, {
+                          [field.key]: Math.min(field.max, parseNumber(value, field.min)),
+                        })}
+                      >
+                        <NumberInputField />
+                      </NumberInput>
+                    </FormControl>
+                  ))}
+                </SimpleGrid>
+              </VStack>
+            ))}
+          </SimpleGrid>
+        </CardBody>
+      </Card>
+
+      <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+        {/* Notificaciones */}
+        <Card shadow="sm">
+          <CardHeader pb={2}>
+            <Heading size="sm" color="gray.700">Notificaciones</Heading>
+          </CardHeader>
+          <CardBody pt={2}>
+            <VStack spacing={4} align="stretch">
+              <FormControl display="flex" alignItems="center" justifyContent="space-between">
+                <FormLabel htmlFor="email-enabled" mb={0} fontSize="sm">
+                  Envío de correos
+                </FormLabel>
+                <Switch
+                  id="email-enabled"
+                  colorScheme="blue"
+                  isChecked={values.notifications.emailEnabled}
+                  onChange={(e) => updateSection('notifications', { emailEnabled: e.target.checked })}
+                />
+              </FormControl>
+
+              <FormControl display="flex" alignItems="center" justifyContent="space-between">
+                <FormLabel htmlFor="overdue-reminders" mb={0} fontSize="sm">
+                  Recordatorios de vencimiento
+                </FormLabel>
+                <Switch
+                  id="overdue-reminders"
+                  colorScheme="blue"
+                  isChecked={values.notifications.overdueReminders}
+                  onChange={(e) => updateSection('notifications', { overdueReminders: e.target.checked })}
+                />
+              </FormControl>
+
+              <FormControl isDisabled={!values.notifications.overdueReminders}>
+                <FormLabel fontSize="sm">Días de anticipación del recordatorio</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={0}
+                  max={30}
+                  value={values.notifications.daysBeforeOverdue}
+                  onChange={(_, value) => updateSection('notifications', {
+                    daysBeforeOverdue: Math.min(30, parseNumber(value, 0)),
+                  })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </FormControl>
+            </VStack>
+          </CardBody>
+        </Card>
+
+        {/* Módulos */}
+        <Card shadow="sm">
+          <CardHeader pb={2}>
+            <Heading size="sm" color="gray.700">Módulos</Heading>
+          </CardHeader>
+          <CardBody pt={2}>
+            <VStack spacing={4} align="stretch">
+              {FEATURE_FIELDS.map(field => (
+                <FormControl key={field.key} display="flex" alignItems="center" justifyContent="space-between">
+                  <VStack align="start" spacing={0}>
+                    <FormLabel htmlFor={`feature-${field.key}`} mb={0} fontSize="sm">
+                      {field.label}
+                    </FormLabel>
+                    <Text fontSize="xs" color="gray.500">{field.help}</Text>
+                  </VStack>
+                  <Switch
+                    id={`feature-${field.key}`}
+                    colorScheme="green"
+                    isChecked={values.features[field.key]}
+                    onChange={(e) => updateSection('features', { [field.key]: e.target.checked })}
+                  />
+                </FormControl>
+              ))}
+            </VStack>
+          </CardBody>
+        </Card>
+      </SimpleGrid>
+
+      {isDirty && (
+        <Alert status="info" borderRadius="md">
+          <AlertIcon />
+          <Text fontSize="sm">Hay cambios sin guardar.</Text>
+        </Alert>
+      )}
+
+      <HStack justify="flex-end" spacing={3}>
+        <Button
+          variant="outline"
+          leftIcon={<FiRotateCcw />}
+          onClick={handleReset}
+          isDisabled={!isDirty || updateMutation.isPending}
+        >
+          Descartar cambios
+        </Button>
+        <Button
+          colorScheme="blue"
+          leftIcon={<FiSave />}
+          onClick={handleSave}
+          isLoading={updateMutation.isPending}
+          isDisabled={!isDirty || !values.library.name.trim()}
+        >
+          Guardar configuración
+        </Button>
+      </HStack>
+    </VStack>
+  );
+}
@@ -0,0 +1,4 @@
+// src/components/admin/settings/index.ts
+// Barrel export para la configuración del sistema
+
+export { SystemSettingsForm } from './SystemSettingsForm';
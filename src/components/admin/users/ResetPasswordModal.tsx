@@ -0,0 +1,168 @@
+// src/components/admin/users/ResetPasswordModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  FormHelperText,
+  Input,
+  InputGroup,
+  InputRightElement,
+  Switch,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { FiKey, FiRefreshCw } from 'react-icons/fi';
+import { useResetUserPassword } from '@/hooks/useUsers';
+import { PASSWORD_PATTERN, PASSWORD_PATTERN_MESSAGE } from './userRoles';
+import type { User } from '@/types/api.types';
+
+interface ResetPasswordModalProps {
+  user: User | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Contraseña temporal legible: sin caracteres ambiguos (0/O, 1/l/I)
+const generateTemporaryPassword = (): string => {
+  const upper = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+  const lower = 'abcdefghijkmnpqrstuvwxyz';
+  const digits = '23456789';
+  const all = upper + lower + digits;
+  const pick = (chars: string) => chars[Math.floor(Math.random() * chars.length)];
+
+  const chars = [pick(upper), pick(lower), pick(digits)];
+  while (chars.length < 10) chars.push(pick(all));
+
+  return chars.sort(() => Math.random() - 0.5).join('');
+};
+
+const validatePassword = (password: string): string | undefined => {
+  if (password.length < 8) return 'La contraseña debe tener al menos 8 caracteres';
+  if (!PASSWORD_PATTERN.test(password)) return PASSWORD_PATTERN_MESSAGE;
+  return undefined;
+};
+
+export function ResetPasswordModal({ user, isOpen, onClose }: ResetPasswordModalProps) {
+  const [password, setPassword] = useState('');
+  const [mustChangePassword, setMustChangePassword] = useState(true);
+  const resetMutation = useResetUserPassword();
+
+  useEffect(() => {
+    if (isOpen) {
+      setPassword(generateTemporaryPassword());
+      setMustChangePassword(true);
+    }
+  }, [isOpen]);
+
+  const passwordError = validatePassword(password);
+
+  const handleConfirm = async () => {
+    if (!user || passwordError) return;
+
+    try {
+      await resetMutation.mutateAsync({
+        id: user._id,
+        data: { temporaryPassword: password, mustChangePassword },
+      });
+      onClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            <FiKey />
+            <Text>Restablecer Contraseña</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Text fontSize="sm" color="gray.600">
+              Se asignará una contraseña temporal a <strong>{user.email}</strong>.
+            </Text>
+
+            <FormControl isRequired isInvalid={!!passwordError}>
+              <FormLabel fontSize="sm">Contraseña temporal</FormLabel>
+              <InputGroup>
+                <Input
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  fontFamily="mono"
+                  pr="7rem"
+                />
+                <InputRightElement width="7rem">
+                  <Button
+                    size="xs"
+                    variant="ghost"
+                    leftIcon={<FiRefreshCw />}
+                    onClick={() => setPassword(generateTemporaryPassword())}
+                  >
+                    Generar
+                  </Button>
+                </InputRightElement>
+              </InputGroup>
+              <FormErrorMessage>{passwordError}</FormErrorMessage>
+              <FormHelperText>Copia la contraseña antes de confirmar</FormHelperText>
+            </FormControl>
+
+            <FormControl display="flex" alignItems="center" justifyContent="space-between">
+              <FormLabel htmlFor="must-change-password" mb={0} fontSize="sm">
+                Exigir cambio en el próximo inicio de sesión
+              </FormLabel>
+              <Switch
+                id="must-change-password"
+                colorScheme="blue"
+                isChecked={mustChangePassword}
+                onChange={(e) => setMustChangePassword(e.target.checked)}
+              />
+            </FormControl>
+
+            <Alert status="warning" borderRadius="md">
+              <AlertIcon />
+              <Text fontSize="sm">La contraseña actual del usuario dejará de funcionar.</Text>
+            </Alert>
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={resetMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme="orange"
+              onClick={handleConfirm}
+              isLoading={resetMutation.isPending}
+              isDisabled={!!passwordError}
+            >
+              Restablecer
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
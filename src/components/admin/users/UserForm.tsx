@@ -0,0 +1,209 @@
+// src/components/admin/users/UserForm.tsx
+'use client';
+
+import {
+  VStack,
+  HStack,
+  Text,
+  Button,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  FormHelperText,
+  Input,
+  Select,
+  Grid,
+  GridItem,
+  Icon,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FiCheck, FiX } from 'react-icons/fi';
+import { USER_ROLE_CONFIG, PASSWORD_PATTERN, PASSWORD_PATTERN_MESSAGE } from './userRoles';
+import type { User } from '@/types/api.types';
+import type { CreateUserRequest, UpdateUserRequest } from '@/services/user.service';
+
+// Schemas de validación
+const baseSchema = z.object({
+  email: z
+    .string()
+    .min(1, 'El correo es requerido')
+    .email('Correo electrónico inválido')
+    .transform(val => val.trim().toLowerCase()),
+  role: z.enum(['admin', 'librarian', 'assistant', 'viewer']),
+});
+
+const createSchema = baseSchema.extend({
+  password: z
+    .string()
+    .min(8, 'La contraseña debe tener al menos 8 caracteres')
+    .regex(PASSWORD_PATTERN, PASSWORD_PATTERN_MESSAGE),
+  confirmPassword: z.string().min(1, 'Confirma la contraseña'),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Las contraseñas no coinciden',
+  path: ['confirmPassword'],
+});
+
+type UserFormData = z.infer<typeof baseSchema> & {
+  password?: string;
+  confirmPassword?: string;
+};
+
+// Interfaces específicas para cada modo
+interface UserFormCreateProps {
+  user?: never;
+  onSubmit: (data: CreateUserRequest) => Promise<void>;
+  onCancel: () => void;
+  isLoading?: boolean;
+  isEdit?: false;
+  isSelf?: never;
+}
+
+interface UserFormEditProps {
+  user: User;
+  onSubmit: (data: UpdateUserRequest) => Promise<void>;
+  onCancel: () => void;
+  isLoading?: boolean;
+  isEdit: true;
+  // El usuario que edita su propia cuenta no puede cambiar su rol
+  isSelf?: boolean;
+}
+
+type UserFormProps = UserFormCreateProps | UserFormEditProps;
+
+export function UserForm(props: UserFormProps) {
+  const { onSubmit, onCancel, isLoading = false } = props;
+  const user = 'user' in props ? props.user : undefined;
+  const isEdit = 'isEdit' in props ? !!props.isEdit : false;
+  const isSelf = 'isSelf' in props ? !!props.isSelf : false;
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isValid, isDirty },
+  } = useForm<UserFormData>({
+    resolver: zodResolver(isEdit ? baseSchema : createSchema),
+    defaultValues: {
+      email: user?.email || '',
+      role: user?.role || 'librarian',
+      password: '',
+      confirmPassword: '',
+    },
+    mode: 'onChange',
+  });
+
+  const selectedRole = watch('role');
+
+  const handleFormSubmit = handleSubmit(async (data: UserFormData) => {
+    if (isEdit) {
+      await (onSubmit as (data: UpdateUserRequest) => Promise<void>)({
+        email: data.email,
+        ...(!isSelf && { role: data.role }),
+      });
+    } else {
+      await (onSubmit as (data: CreateUserRequest) => Promise<void>)({
+        email: data.email,
+        role: data.role,
+        password: data.password || '',
+      });
+    }
+  });
+
+  const canSubmit = isValid && isDirty;
+
+  return (
+    <form onSubmit={handleFormSubmit}>
+      <VStack spacing={5} align="stretch">
+        <Grid templateColumns={{ base: '1fr', md: '1fr 1fr' }} gap={4}>
+          <GridItem>
+            <FormControl isInvalid={!!errors.email} isRequired>
+              <FormLabel>Correo electrónico</FormLabel>
+              <Input
+                {...register('email')}
+                type="email"
+                placeholder="usuario@colegio.edu.co"
+                autoComplete="off"
+              />
+              <FormErrorMessage>{errors.email?.message}</FormErrorMessage>
+              <FormHelperText>Se usa para iniciar sesión</FormHelperText>
+            </FormControl>
+          </GridItem>
+
+          <GridItem>
+            <FormControl isInvalid={!!errors.role} isRequired>
+              <FormLabel>Rol</FormLabel>
+              <Select {...register('role')} isDisabled={isSelf}>
+                {Object.entries(USER_ROLE_CONFIG).map(([role, config]) => (
+                  <option key={role} value={role}>
+                    {config.label}
+                  </option>
+                ))}
+              </Select>
+              <FormErrorMessage>{errors.role?.message}</FormErrorMessage>
+              <FormHelperText>
+                {isSelf
+                  ? 'No puedes cambiar tu propio rol'
+                  : USER_ROLE_CONFIG[selectedRole]?.description}
+              </FormHelperText>
+            </FormControl>
+          </GridItem>
+        </Grid>
+
+        {!isEdit && (
+          <Grid templateColumns={{ base: '1fr', md: '1fr 1fr' }} gap={4}>
+            <GridItem>
+              <FormControl isInvalid={!!errors.password} isRequired>
+                <FormLabel>Contraseña inicial</FormLabel>
+                <Input {...register('password')} type="password" autoComplete="new-password" />
+                <FormErrorMessage>{errors.password?.message}</FormErrorMessage>
+              </FormControl>
+            </GridItem>
+
+            <GridItem>
+              <FormControl isInvalid={!!errors.confirmPassword} isRequired>
+                <FormLabel>Confirmar contraseña</FormLabel>
+                <Input {...register('confirmPassword')} type="password" autoComplete="new-password" />
+                <FormErrorMessage>{errors.confirmPassword?.message}</FormErrorMessage>
+              </FormControl>
+            </GridItem>
+          </Grid>
+        )}
+
+        {!isEdit && (
+          <Alert status="info" borderRadius="md">
+            <AlertIcon />
+            <Text fontSize="sm">
+              Comparte la contraseña inicial de forma segura. El usuario podrá cambiarla desde su perfil.
+            </Text>
+          </Alert>
+        )}
+
+        {/* Botones de acción */}
+        <HStack spacing={3} justify="flex-end">
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            isDisabled={isLoading}
+            leftIcon={<Icon as={FiX} />}
+          >
+            Cancelar
+          </Button>
+          <Button
+            type="submit"
+            colorScheme="blue"
+            isLoading={isLoading}
+            loadingText={isEdit ? 'Actualizando...' : 'Creando...'}
+            isDisabled={!canSubmit}
+            leftIcon={<Icon as={FiCheck} />}
+          >
+            {isEdit ? 'Actualizar Usuario' : 'Crear Usuario'}
+          </Button>
+        </HStack>
+      </VStack>
+    </form>
+  );
+}
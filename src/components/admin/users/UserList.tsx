@@ -0,0 +1,340 @@
+// src/components/admin/users/UserList.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  InputGroup,
+  InputLeftElement,
+  Input,
+  Button,
+  Select,
+  Card,
+  CardBody,
+  Text,
+  Badge,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuItem,
+  MenuDivider,
+  IconButton,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Skeleton,
+  Alert,
+  AlertIcon,
+  Switch,
+  FormControl,
+  FormLabel,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import {
+  FiSearch,
+  FiMoreVertical,
+  FiEdit,
+  FiKey,
+  FiUserCheck,
+  FiUserX,
+  FiRefreshCw,
+  FiUsers,
+} from 'react-icons/fi';
+import { useUsers, useActivateUser, useDeactivateUser } from '@/hooks/useUsers';
+import { useAuth } from '@/hooks/useAuth';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { useDebounce } from '@/hooks/useDebounce';
+import { DateUtils } from '@/utils';
+import { USER_ROLE_CONFIG } from './userRoles';
+import type { User } from '@/types/api.types';
+import type { UserFilters, UserRole } from '@/services/user.service';
+
+interface UserListProps {
+  onUserEdit?: (user: User) => void;
+  onPasswordReset?: (user: User) => void;
+}
+
+function LoadingRows({ count = 5 }: { count?: number }) {
+  return (
+    <>
+      {Array.from({ length: count }).map((_, i) => (
+        <Tr key={i}>
+          <Td><Skeleton height="16px" width="180px" /></Td>
+          <Td><Skeleton height="20px" width="90px" borderRadius="full" /></Td>
+          <Td><Skeleton height="20px" width="60px" borderRadius="full" /></Td>
+          <Td><Skeleton height="16px" width="100px" /></Td>
+          <Td><Skeleton height="16px" width="80px" /></Td>
+          <Td />
+        </Tr>
+      ))}
+    </>
+  );
+}
+
+export function UserList({ onUserEdit, onPasswordReset }: UserListProps) {
+  const { user: currentUser } = useAuth();
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<UserFilters>({
+    role: undefined,
+    active: undefined,
+    page: 1,
+    limit: 50,
+    sortBy: 'email',
+    sortOrder: 'asc',
+  });
+  const [pendingToggle, setPendingToggle] = useState<User | null>(null);
+  const { isOpen: isConfirmOpen, onOpen: onConfirmOpen, onClose: onConfirmClose } = useDisclosure();
+
+  const debouncedSearch = useDebounce(search, 300);
+
+  const {
+    data: usersResponse,
+    isLoading,
+    isError,
+    error,
+    refetch,
+    isRefetching,
+  } = useUsers({ ...filters, search: debouncedSearch || undefined });
+
+  const activateMutation = useActivateUser();
+  const deactivateMutation = useDeactivateUser();
+
+  const users = usersResponse?.data || [];
+  const totalCount = usersResponse?.pagination?.total ?? users.length;
+  const isMutating = activateMutation.isPending || deactivateMutation.isPending;
+
+  const handleToggleRequest = (user: User) => {
+    setPendingToggle(user);
+    onConfirmOpen();
+  };
+
+  const handleConfirmToggle = async () => {
+    if (!pendingToggle) return;
+
+    try {
+      if (pendingToggle.active) {
+        await deactivateMutation.mutateAsync(pendingToggle._id);
+      } else {
+        await activateMutation.mutateAsync(pendingToggle._id);
+      }
+      onConfirmClose();
+      setPendingToggle(null);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Filtros */}
+      <VStack spacing={4} align="stretch">
+        <HStack spacing={4} flexWrap={{ base: 'wrap', md: 'nowrap' }}>
+          <InputGroup flex={1}>
+            <InputLeftElement pointerEvents="none">
+              <FiSearch color="gray.400" />
+            </InputLeftElement>
+            <Input
+              placeholder="Buscar por correo..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              bg="white"
+            />
+          </InputGroup>
+
+          <Select
+            w={{ base: 'full', md: '200px' }}
+            bg="white"
+            placeholder="Todos los roles"
+            value={filters.role || ''}
+            onChange={(e) => setFilters(prev => ({
+              ...prev,
+              role: (e.target.value || undefined) as UserRole | undefined,
+              page: 1,
+            }))}
+          >
+            {Object.entries(USER_ROLE_CONFIG).map(([role, config]) => (
+              <option key={role} value={role}>{config.label}</option>
+            ))}
+          </Select>
+
+          <Button
+            leftIcon={<FiRefreshCw />}
+            variant="outline"
+            onClick={() => refetch()}
+            isLoading={isRefetching}
+          >
+            Actualizar
+          </Button>
+        </HStack>
+
+        <HStack spacing={4}>
+          <FormControl display="flex" alignItems="center" w="auto">
+            <FormLabel htmlFor="users-active-filter" mb={0} fontSize="sm">
+              Solo activos
+            </FormLabel>
+            <Switch
+              id="users-active-filter"
+              isChecked={filters.active === true}
+              onChange={(e) => setFilters(prev => ({
+                ...prev,
+                active: e.target.checked ? true : undefined,
+                page: 1,
+              }))}
+              colorScheme="blue"
+            />
+          </FormControl>
+
+          <Text fontSize="sm" color="gray.600">
+            {totalCount === 0
+              ? 'No se encontraron usuarios'
+              : `${totalCount} usuario${totalCount !== 1 ? 's' : ''}`}
+          </Text>
+        </HStack>
+      </VStack>
+
+      {isError && (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          <Box>
+            <Text fontWeight="medium">Error al cargar usuarios</Text>
+            <Text fontSize="sm">
+              {error?.message || 'No se pudieron cargar los usuarios. Intenta refrescar la página.'}
+            </Text>
+          </Box>
+        </Alert>
+      )}
+
+      {!isLoading && !isError && users.length === 0 ? (
+        <EmptyState
+          icon={FiUsers}
+          title="No hay usuarios"
+          description={
+            search
+              ? `No se encontraron usuarios que coincidan con "${search}"`
+              : 'No hay usuarios que coincidan con los filtros seleccionados.'
+          }
+        />
+      ) : (
+        <Card shadow="sm">
+          <CardBody p={0}>
+            <TableContainer>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Correo</Th>
+                    <Th>Rol</Th>
+                    <Th>Estado</Th>
+                    <Th>Último acceso</Th>
+                    <Th>Creado</Th>
+                    <Th width="60px" />
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {isLoading ? (
+                    <LoadingRows />
+                  ) : (
+                    users.map((user) => {
+                      const roleConfig = USER_ROLE_CONFIG[user.role];
+                      const isSelf = user._id === currentUser?._id;
+
+                      return (
+                        <Tr key={user._id} opacity={user.active ? 1 : 0.6}>
+                          <Td>
+                            <HStack spacing={2}>
+                              <Text fontSize="sm" fontWeight="medium">{user.email}</Text>
+                              {isSelf && <Badge colorScheme="purple" fontSize="2xs">Tú</Badge>}
+                              {user.mustChangePassword && (
+                                <Badge colorScheme="orange" variant="outline" fontSize="2xs">
+                                  Cambio de contraseña pendiente
+                                </Badge>
+                              )}
+                            </HStack>
+                          </Td>
+                          <Td>
+                            <Badge colorScheme={roleConfig?.color || 'gray'} variant="subtle">
+                              {roleConfig?.label || user.role}
+                            </Badge>
+                          </Td>
+                          <Td>
+                            <Badge colorScheme={user.active ? 'green' : 'gray'} variant="subtle">
+                              {user.active ? 'Activo' : 'Inactivo'}
+                            </Badge>
+                          </Td>
+                          <Td>
+                            <Text fontSize="sm" color="gray.600">
+                              {user.lastLogin ? DateUtils.formatRelative(user.lastLogin) : 'Nunca'}
+                            </Text>
+                          </Td>
+                          <Td>
+                            <Text fontSize="sm" color="gray.600">
+                              {DateUtils.formatDate(user.createdAt)}
+                            </Text>
+                          </Td>
+                          <Td>
+                            <Menu>
+                              <MenuButton
+                                as={IconButton}
+                                aria-label="Acciones"
+                                icon={<FiMoreVertical />}
+                                variant="ghost"
+                                size="sm"
+                                isDisabled={isMutating}
+                              />
+                              <MenuList>
+                                <MenuItem icon={<FiEdit />} onClick={() => onUserEdit?.(user)}>
+                                  Editar
+                                </MenuItem>
+                                <MenuItem icon={<FiKey />} onClick={() => onPasswordReset?.(user)}>
+                                  Restablecer contraseña
+                                </MenuItem>
+                                {!isSelf && (
+                                  <>
+                                    <MenuDivider />
+                                    <MenuItem
+                                      icon={user.active ? <FiUserX /> : <FiUserCheck />}
+                                      color={user.active ? 'red.600' : 'green.600'}
+                                      onClick={() => handleToggleRequest(user)}
+                                    >
+                                      {user.active ? 'Desactivar' : 'Reactivar'}
+                                    </MenuItem>
+                                  </>
+                                )}
+                              </MenuList>
+                            </Menu>
+                          </Td>
+                        </Tr>
+                      );
+                    })
+                  )}
+                </Tbody>
+              </Table>
+            </TableContainer>
+          </CardBody>
+        </Card>
+      )}
+
+      {/* Confirmación de activación / desactivación */}
+      <ConfirmDialog
+        isOpen={isConfirmOpen}
+        onClose={onConfirmClose}
+        onConfirm={handleConfirmToggle}
+        title={pendingToggle?.active ? 'Desactivar usuario' : 'Reactivar usuario'}
+        message={
+          pendingToggle?.active
+            ? `${pendingToggle.email} no podrá iniciar sesión hasta que se reactive su cuenta.`
+            : `${pendingToggle?.email || ''} podrá volver a iniciar sesión.`
+        }
+        confirmText={pendingToggle?.active ? 'Desactivar' : 'Reactivar'}
+        variant={pendingToggle?.active ? 'danger' : 'success'}
+        isLoading={isMutating}
+      />
+    </VStack>
+  );
+}
@@ -0,0 +1,7 @@
+// src/components/admin/users/index.ts
+// Barrel export para componentes de gestión de usuarios
+
+export { UserList } from './UserList';
+export { UserForm } from './UserForm';
+export { ResetPasswordModal } from './ResetPasswordModal';
+export { USER_ROLE_CONFIG } from './userRoles';
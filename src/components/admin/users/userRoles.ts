@@ -0,0 +1,29 @@
+// src/components/admin/users/userRoles.ts
+import type { UserRole } from '@/services/user.service';
+
+export const USER_ROLE_CONFIG: Record<UserRole, { label: string; color: string; description: string }> = {
+  admin: {
+    label: 'Administrador',
+    color: 'red',
+    description: 'Acceso completo, incluida la administración del sistema',
+  },
+  librarian: {
+    label: 'Bibliotecario',
+    color: 'blue',
+    description: 'Gestiona préstamos, personas e inventario',
+  },
+  assistant: {
+    label: 'Ayudante',
+    color: 'green',
+    description: 'Presta, devuelve y renueva; solo consulta personas e inventario',
+  },
+  viewer: {
+    label: 'Consulta',
+    color: 'purple',
+    description: 'Solo lectura, con acceso a reportes',
+  },
+};
+
+// Mismas reglas que el cambio de contraseña del perfil
+export const PASSWORD_PATTERN = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/;
+export const PASSWORD_PATTERN_MESSAGE = 'La contraseña debe contener al menos una mayúscula, una minúscula y un número';
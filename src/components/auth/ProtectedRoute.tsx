@@ -5,11 +5,14 @@ import { useRouter, usePathname } from 'next/navigation';
 import { Center, VStack, Spinner, Text } from '@chakra-ui/react';
 import { useAuth } from '@/hooks/useAuth';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { hasPermission, canAccessRoute, type Permission } from '@/config/permissions.config';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   requireAuth?: boolean;
   requiredRole?: 'admin' | 'librarian' | 'any';
+  // Permiso explícito; además se aplica el permiso asociado a la ruta actual
+  requiredPermission?: Permission;
   fallback?: ReactNode;
 }
 
@@ -17,12 +20,19 @@ export function ProtectedRoute({
   children,
   requireAuth = true,
   requiredRole,
+  requiredPermission,
   fallback,
 }: ProtectedRouteProps) {
   const { user, isLoading, isAuthenticated } = useAuth();
   const router = useRouter();
   const pathname = usePathname();
 
+  const hasRequiredRole = !requiredRole || requiredRole === 'any' || user?.role === requiredRole;
+  const hasRequiredPermission =
+    (!requiredPermission || hasPermission(user?.role, requiredPermission)) &&
+    canAccessRoute(user?.role, pathname);
+  const isAllowed = hasRequiredRole && hasRequiredPermission;
+
   useEffect(() => {
     // Si no requiere autenticación, permitir acceso
     if (!requireAuth) {
@@ -41,15 +51,13 @@ export function ProtectedRoute({
       return;
     }
 
-    // Si requiere un rol específico, verificar
-    if (requiredRole && requiredRole !== 'any') {
-      if (!user || user.role !== requiredRole) {
-        // Redirigir a página no autorizada o dashboard
-        router.push('/dashboard');
-        return;
-      }
+    // Si requiere un rol o permiso específico, verificar
+    if (!isAllowed) {
+      // Redirigir a página no autorizada o dashboard
+      router.push('/dashboard');
+      return;
     }
-  }, [requireAuth, requiredRole, isLoading, isAuthenticated, user, router, pathname]);
+  }, [requireAuth, isAllowed, isLoading, isAuthenticated, router, pathname]);
 
   // Mostrar loading mientras verifica
   if (requireAuth && isLoading) {
@@ -61,8 +69,8 @@ export function ProtectedRoute({
     return null;
   }
 
-  // Si requiere un rol específico y no lo tiene, no mostrar nada (se redirige)
-  if (requireAuth && requiredRole && requiredRole !== 'any' && user?.role !== requiredRole) {
+  // Si requiere un rol o permiso y no lo tiene, no mostrar nada (se redirige)
+  if (requireAuth && !isAllowed) {
     return null;
   }
 
@@ -73,7 +81,7 @@ export function ProtectedRoute({
 // Componente específico para rutas que requieren ser admin
 export function AdminRoute({ children, fallback }: { children: ReactNode; fallback?: ReactNode }) {
   return (
-    <ProtectedRoute requireAuth requiredRole="admin" fallback={fallback}>
+    <ProtectedRoute requireAuth requiredPermission="admin.access" fallback={fallback}>
       {children}
     </ProtectedRoute>
   );
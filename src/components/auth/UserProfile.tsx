@@ -146,6 +146,8 @@ export function UserProfile({ size = 'md', showText = true }: UserProfileProps)
     const roleConfig = {
       admin: { label: 'Administrador', colorScheme: 'red' },
       librarian: { label: 'Bibliotecario', colorScheme: 'blue' },
+      assistant: { label: 'Ayudante', colorScheme: 'green' },
+      viewer: { label: 'Consulta', colorScheme: 'purple' },
     };
     
     return roleConfig[role as keyof typeof roleConfig] || { label: role, colorScheme: 'gray' };
@@ -0,0 +1,77 @@
+// src/components/catalog/PublicCatalogHit.tsx
+'use client';
+
+import {
+  Card,
+  CardBody,
+  HStack,
+  VStack,
+  Text,
+  Badge,
+  Button,
+} from '@chakra-ui/react';
+import { FiBookmark, FiMapPin } from 'react-icons/fi';
+import { ResourceImage } from '@/components/resources/ResourceImage/ResourceImage';
+import type { PublicCatalogResource } from '@/types/catalog.types';
+
+interface PublicCatalogHitProps {
+  resource: PublicCatalogResource;
+  onRequest: (resource: PublicCatalogResource) => void;
+}
+
+/**
+ * Resultado del catálogo público: datos bibliográficos, ubicación y disponibilidad
+ */
+export function PublicCatalogHit({ resource, onRequest }: PublicCatalogHitProps) {
+  return (
+    <Card variant="outline">
+      <CardBody py={3}>
+        <HStack align="start" spacing={4}>
+          <ResourceImage resource={resource} size="xs" />
+
+          <VStack align="start" spacing={1} flex={1} minW={0}>
+            <Text fontWeight="medium" color="gray.800" noOfLines={2}>
+              {resource.title}
+            </Text>
+            <Text fontSize="sm" color="gray.600" noOfLines={1}>
+              {resource.authors?.map(author => author.name).join(', ') || 'Autor desconocido'}
+              {resource.publisher && ` · ${resource.publisher.name}`}
+            </Text>
+            <HStack spacing={2} flexWrap="wrap">
+              {resource.type && (
+                <Badge colorScheme="blue" variant="subtle">{resource.type.description}</Badge>
+              )}
+              {resource.category && (
+                <Badge variant="outline">{resource.category.name}</Badge>
+              )}
+            </HStack>
+            {resource.location && (
+              <HStack spacing={1} fontSize="xs" color="gray.500">
+                <FiMapPin />
+                <Text>
+                  {resource.location.name}
+                  {resource.location.code && ` · ${resource.location.code}`}
+                </Text>
+              </HStack>
+            )}
+          </VStack>
+
+          <VStack align="end" spacing={2} flexShrink={0}>
+            <Badge colorScheme={resource.available ? 'green' : 'orange'}>
+              {resource.available ? 'Disponible' : 'Prestado'}
+            </Badge>
+            <Button
+              size="xs"
+              variant="outline"
+              colorScheme="purple"
+              leftIcon={<FiBookmark />}
+              onClick={() => onRequest(resource)}
+            >
+              Solicitar
+            </Button>
+          </VStack>
+        </HStack>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+// src/components/catalog/PublicCatalogLayout.tsx
+'use client';
+
+import { ReactNode } from 'react';
+import {
+  Box,
+  Container,
+  Flex,
+  HStack,
+  Heading,
+  Text,
+  Button,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { FiBookOpen, FiLogIn, FiUser } from 'react-icons/fi';
+
+interface PublicCatalogLayoutProps {
+  children: ReactNode;
+}
+
+/**
+ * Marco del catálogo público: sin sidebar ni sesión, solo un acceso al login del personal
+ */
+export function PublicCatalogLayout({ children }: PublicCatalogLayoutProps) {
+  return (
+    <Box minH="100vh" bg="gray.50">
+      <Box as="header" bg="white" borderBottom="1px" borderColor="gray.200">
+        <Container maxW="7xl" py={4}>
+          <Flex justify="space-between" align="center" gap={4}>
+            <HStack spacing={3}>
+              <Box p={2} bg="blue.50" borderRadius="lg">
+                <FiBookOpen size={24} color="#3182CE" />
+              </Box>
+              <Box>
+                <Heading size="md" color="gray.800">
+                  Catálogo de la Biblioteca
+                </Heading>
+                <Text fontSize="sm" color="gray.600">
+                  Consulta qué hay en la biblioteca y si está disponible
+                </Text>
+              </Box>
+            </HStack>
+
+            <HStack spacing={2}>
+              <Button
+                as={NextLink}
+                href="/portal"
+                size="sm"
+                variant="outline"
+                colorScheme="purple"
+                leftIcon={<FiUser />}
+              >
+                Mis préstamos
+              </Button>
+              <Button
+                as={NextLink}
+                href="/login"
+                size="sm"
+                variant="ghost"
+                leftIcon={<FiLogIn />}
+              >
+                Acceso del personal
+              </Button>
+            </HStack>
+          </Flex>
+        </Container>
+      </Box>
+
+      <Container as="main" maxW="7xl" py={8}>
+        {children}
+      </Container>
+    </Box>
+  );
+}
@@ -0,0 +1,150 @@
+// src/components/catalog/PublicCatalogSearch.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  InputRightElement,
+  IconButton,
+  Text,
+  Button,
+  Switch,
+  FormControl,
+  FormLabel,
+  Skeleton,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import { FiSearch, FiX } from 'react-icons/fi';
+import { usePublicCatalog } from '@/hooks/usePublicCatalog';
+import { useDebounce } from '@/hooks/useDebounce';
+import { PUBLIC_CATALOG_MAX_PAGE } from '@/services/publicCatalog.service';
+import { PublicCatalogHit } from './PublicCatalogHit';
+import type { PublicCatalogResource } from '@/types/catalog.types';
+
+interface PublicCatalogSearchProps {
+  onRequest: (resource: PublicCatalogResource) => void;
+}
+
+/**
+ * Búsqueda del catálogo público: una página por consulta, resuelta en el servidor
+ */
+export function PublicCatalogSearch({ onRequest }: PublicCatalogSearchProps) {
+  const [text, setText] = useState('');
+  const [availableOnly, setAvailableOnly] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const search = useDebounce(text, 400);
+  const { data, isLoading, isError, error, isFetching } = usePublicCatalog({ search, availableOnly, page });
+
+  const resources = data?.data || [];
+  const pagination = data?.pagination;
+  const reachedPageCap = !!pagination && pagination.page >= PUBLIC_CATALOG_MAX_PAGE;
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setPage(1);
+  };
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <InputGroup size="lg">
+        <InputLeftElement pointerEvents="none">
+          <FiSearch color="#A0AEC0" />
+        </InputLeftElement>
+        <Input
+          value={text}
+          onChange={(e) => handleTextChange(e.target.value)}
+          placeholder="Buscar por título, autor, editorial o ISBN..."
+          bg="white"
+          autoFocus
+        />
+        {text && (
+          <InputRightElement>
+            <IconButton
+              aria-label="Limpiar búsqueda"
+              icon={<FiX />}
+              size="sm"
+              variant="ghost"
+              onClick={() => handleTextChange('')}
+            />
+          </InputRightElement>
+        )}
+      </InputGroup>
+
+      <HStack justify="space-between" flexWrap="wrap" gap={2}>
+        <Text fontSize="sm" color="gray.600">
+          {isLoading
+            ? 'Cargando catálogo...'
+            : `${pagination?.total ?? 0} recurso${pagination?.total !== 1 ? 's' : ''}`}
+        </Text>
+        <FormControl display="flex" alignItems="center" w="auto">
+          <FormLabel htmlFor="catalog-available-only" mb={0} fontSize="sm">
+            Solo disponibles
+          </FormLabel>
+          <Switch
+            id="catalog-available-only"
+            isChecked={availableOnly}
+            onChange={(e) => {
+              setAvailableOnly(e.target.checked);
+              setPage(1);
+            }}
+            colorScheme="blue"
+          />
+        </FormControl>
+      </HStack>
+
+      {isError ? (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          {(error as Error)?.message || 'No se pudo cargar el catálogo'}
+        </Alert>
+      ) : isLoading ? (
+        <VStack align="stretch" spacing={3}>
+          <Skeleton height="72px" />
+          <Skeleton height="72px" />
+          <Skeleton height="72px" />
+        </VStack>
+      ) : resources.length === 0 ? (
+        <Alert status="info" borderRadius="md">
+          <AlertIcon />
+          No hay recursos que coincidan. Prueba con otras palabras.
+        </Alert>
+      ) : (
+        <VStack align="stretch" spacing={2} opacity={isFetching ? 0.6 : 1}>
+          {resources.map(resource => (
+            <Box key={resource._id}>
+              <PublicCatalogHit resource={resource} onRequest={onRequest} />
+            </Box>
+          ))}
+        </VStack>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <VStack spacing={1}>
+          <HStack justify="center" spacing={3}>
+            <Button size="sm" isDisabled={!pagination.hasPrevPage || isFetching} onClick={() => setPage(page - 1)}>
+              Anterior
+            </Button>
+            <Text fontSize="sm">
+              Página {pagination.page} de {pagination.totalPages}
+            </Text>
+            <Button size="sm" isDisabled={!pagination.hasNextPage || isFetching} onClick={() => setPage(page + 1)}>
+              Siguiente
+            </Button>
+          </HStack>
+          {reachedPageCap && (
+            <Text fontSize="xs" color="gray.500">
+              Para ver más resultados, afina la búsqueda.
+            </Text>
+          )}
+        </VStack>
+      )}
+    </VStack>
+  );
+}
@@ -0,0 +1,172 @@
+// src/components/catalog/PublicRequestModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Box,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  Input,
+  Textarea,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { FiBookmark, FiShoppingCart } from 'react-icons/fi';
+import { usePublicCatalogRequest } from '@/hooks/usePublicCatalog';
+import type { PublicCatalogResource } from '@/types/catalog.types';
+
+interface PublicRequestModalProps {
+  // Con recurso se reserva; sin recurso se sugiere una compra
+  resource: PublicCatalogResource | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function PublicRequestModal({ resource, isOpen, onClose }: PublicRequestModalProps) {
+  const [documentNumber, setDocumentNumber] = useState('');
+  const [title, setTitle] = useState('');
+  const [author, setAuthor] = useState('');
+  const [notes, setNotes] = useState('');
+  const requestMutation = usePublicCatalogRequest();
+
+  useEffect(() => {
+    if (isOpen) {
+      setDocumentNumber('');
+      setTitle('');
+      setAuthor('');
+      setNotes('');
+    }
+  }, [isOpen]);
+
+  const isHold = !!resource;
+  const canSubmit = documentNumber.trim().length > 0 && (isHold || title.trim().length > 0);
+
+  const handleConfirm = async () => {
+    if (!canSubmit) return;
+
+    try {
+      await requestMutation.mutateAsync(
+        isHold
+          ? { type: 'hold', documentNumber, resourceId: resource._id, notes }
+          : { type: 'acquisition', documentNumber, title, author, notes }
+      );
+      onClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            {isHold ? <FiBookmark /> : <FiShoppingCart />}
+            <Text>{isHold ? 'Solicitar Recurso' : 'Sugerir una Compra'}</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            {resource ? (
+              <>
+                <Box p={3} bg="gray.50" borderRadius="md">
+                  <Text fontWeight="medium">{resource.title}</Text>
+                  {resource.location && (
+                    <Text fontSize="sm" color="gray.600">
+                      {resource.location.name}
+                      {resource.location.code && ` · ${resource.location.code}`}
+                    </Text>
+                  )}
+                </Box>
+                {resource.available && (
+                  <Alert status="info" borderRadius="md" fontSize="sm">
+                    <AlertIcon />
+                    Este recurso está disponible en la estantería. Puedes reservarlo igualmente
+                    para que lo aparten a tu nombre.
+                  </Alert>
+                )}
+              </>
+            ) : (
+              <>
+                <FormControl isRequired>
+                  <FormLabel fontSize="sm">Título</FormLabel>
+                  <Input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="Título del libro o material"
+                    maxLength={200}
+                  />
+                </FormControl>
+                <FormControl>
+                  <FormLabel fontSize="sm">Autor</FormLabel>
+                  <Input
+                    value={author}
+                    onChange={(e) => setAuthor(e.target.value)}
+                    placeholder="Autor, si lo conoces"
+                    maxLength={200}
+                  />
+                </FormControl>
+              </>
+            )}
+
+            <FormControl isRequired>
+              <FormLabel fontSize="sm">Número de documento</FormLabel>
+              <Input
+                value={documentNumber}
+                onChange={(e) => setDocumentNumber(e.target.value)}
+                placeholder="Documento con el que estás registrado en la biblioteca"
+                maxLength={20}
+              />
+              <FormHelperText fontSize="xs">
+                Solo se usa para identificarte; no se muestra ningún dato personal.
+              </FormHelperText>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Notas</FormLabel>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={isHold ? 'Observaciones opcionales' : '¿Para qué curso o materia lo necesitas?'}
+                rows={2}
+                maxLength={500}
+              />
+            </FormControl>
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={requestMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme={isHold ? 'purple' : 'blue'}
+              leftIcon={isHold ? <FiBookmark /> : <FiShoppingCart />}
+              onClick={handleConfirm}
+              isLoading={requestMutation.isPending}
+              isDisabled={!canSubmit}
+            >
+              {isHold ? 'Reservar' : 'Enviar sugerencia'}
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
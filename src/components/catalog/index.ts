@@ -0,0 +1,7 @@
+// src/components/catalog/index.ts
+// Barrel export para el catálogo público
+
+export { PublicCatalogHit } from './PublicCatalogHit';
+export { PublicCatalogSearch } from './PublicCatalogSearch';
+export { PublicRequestModal } from './PublicRequestModal';
+export { PublicCatalogLayout } from './PublicCatalogLayout';
@@ -0,0 +1,149 @@
+// src/components/holds/PlaceHoldModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Box,
+  FormControl,
+  FormLabel,
+  Textarea,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { FiBookmark } from 'react-icons/fi';
+import { PersonSearch } from '@/components/people/PersonSearch';
+import { useCreateHold } from '@/hooks/useHolds';
+import type { Person } from '@/types/api.types';
+
+interface PlaceHoldModalProps {
+  resource: { _id: string; title: string } | null;
+  // Persona ya elegida (por ejemplo, desde el formulario de préstamo)
+  person?: { _id: string; fullName: string } | null;
+  queueLength?: number;
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+export function PlaceHoldModal({
+  resource,
+  person,
+  queueLength,
+  isOpen,
+  onClose,
+  onSuccess,
+}: PlaceHoldModalProps) {
+  const [searchedPerson, setSearchedPerson] = useState<Person | null>(null);
+  const [notes, setNotes] = useState('');
+  const createMutation = useCreateHold();
+
+  useEffect(() => {
+    if (isOpen) {
+      setSearchedPerson(null);
+      setNotes('');
+    }
+  }, [isOpen]);
+
+  const selectedPerson = person || searchedPerson;
+
+  const handleConfirm = async () => {
+    if (!resource || !selectedPerson) return;
+
+    try {
+      await createMutation.mutateAsync({
+        personId: selectedPerson._id,
+        resourceId: resource._id,
+        notes,
+      });
+      onSuccess?.();
+      onClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  if (!resource) return null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            <FiBookmark />
+            <Text>Reservar Recurso</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Box p={3} bg="gray.50" borderRadius="md">
+              <Text fontWeight="medium">{resource.title}</Text>
+              {queueLength !== undefined && (
+                <Text fontSize="sm" color="gray.600">
+                  {queueLength === 0
+                    ? 'No hay nadie en la cola'
+                    : `${queueLength} persona${queueLength === 1 ? '' : 's'} en la cola`}
+                </Text>
+              )}
+            </Box>
+
+            <FormControl isRequired>
+              <FormLabel fontSize="sm">Persona</FormLabel>
+              {person ? (
+                <Text fontWeight="medium">{person.fullName}</Text>
+              ) : (
+                <PersonSearch
+                  selectedPerson={searchedPerson}
+                  onPersonSelected={setSearchedPerson}
+                />
+              )}
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Notas</FormLabel>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Observaciones opcionales de la reserva"
+                rows={2}
+              />
+            </FormControl>
+
+            <Text fontSize="xs" color="gray.500">
+              Cuando se devuelva una unidad, la siguiente persona de la cola quedará con el
+              recurso apartado y tendrá un plazo para retirarlo.
+            </Text>
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={createMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme="purple"
+              leftIcon={<FiBookmark />}
+              onClick={handleConfirm}
+              isLoading={createMutation.isPending}
+              isDisabled={!selectedPerson}
+            >
+              Agregar a la cola
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,205 @@
+// src/components/holds/ResourceHoldsQueue.tsx
+'use client';
+
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  HStack,
+  VStack,
+  Text,
+  Badge,
+  Button,
+  IconButton,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Tooltip,
+  Alert,
+  AlertIcon,
+  Skeleton,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { FiBookmark, FiCheckCircle, FiSkipForward, FiX } from 'react-icons/fi';
+import { useResourceHolds, useConvertHoldToLoan, useReleaseHold } from '@/hooks/useHolds';
+import { HoldService } from '@/services/hold.service';
+import { useSystemConfiguration } from '@/hooks/useSystemConfig';
+import { usePermissions } from '@/hooks/useAuth';
+import { DateUtils } from '@/utils';
+import { PlaceHoldModal } from './PlaceHoldModal';
+import { HOLD_STATUS_CONFIG } from './hold.config';
+
+interface ResourceHoldsQueueProps {
+  resource: { _id: string; title: string };
+}
+
+/**
+ * Cola de reservas de un recurso (primero en llegar, primero en ser atendido)
+ */
+export function ResourceHoldsQueue({ resource }: ResourceHoldsQueueProps) {
+  const { data: queue = [], isLoading, isError } = useResourceHolds(resource._id);
+  const { data: systemConfig } = useSystemConfiguration();
+  const { can } = usePermissions();
+  // Reservar, prestar y cancelar son operaciones de mostrador
+  const canManage = can('loans.create');
+  const { isOpen, onOpen, onClose } = useDisclosure();
+
+  const convertMutation = useConvertHoldToLoan();
+  const releaseMutation = useReleaseHold();
+  const isMutating = convertMutation.isPending || releaseMutation.isPending;
+
+  const readyCount = queue.filter(hold => hold.status === 'ready').length;
+  const waitingCount = queue.length - readyCount;
+
+  return (
+    <Card shadow="sm">
+      <CardHeader>
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <HStack spacing={3}>
+            <Heading size="md" color="gray.700">
+              Cola de Reservas
+            </Heading>
+            {readyCount > 0 && (
+              <Badge colorScheme="green">{readyCount} para retirar</Badge>
+            )}
+            {waitingCount > 0 && (
+              <Badge colorScheme="yellow">{waitingCount} en espera</Badge>
+            )}
+          </HStack>
+          {canManage && (
+            <Button size="sm" colorScheme="purple" variant="outline" leftIcon={<FiBookmark />} onClick={onOpen}>
+              Reservar
+            </Button>
+          )}
+        </HStack>
+      </CardHeader>
+
+      <CardBody pt={0}>
+        {isLoading ? (
+          <VStack spacing={2} align="stretch">
+            <Skeleton height="32px" />
+            <Skeleton height="32px" />
+          </VStack>
+        ) : isError ? (
+          <Alert status="error" borderRadius="md">
+            <AlertIcon />
+            <Text fontSize="sm">No se pudo cargar la cola de reservas.</Text>
+          </Alert>
+        ) : queue.length === 0 ? (
+          <Text fontSize="sm" color="gray.500" textAlign="center" py={4}>
+            No hay reservas pendientes para este recurso
+          </Text>
+        ) : (
+          <VStack spacing={3} align="stretch">
+            <TableContainer>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>#</Th>
+                    <Th>Persona</Th>
+                    <Th>Solicitada</Th>
+                    <Th>Estado</Th>
+                    {canManage && <Th>Acciones</Th>}
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {queue.map((hold, index) => {
+                    const statusConfig = HOLD_STATUS_CONFIG[hold.status];
+                    const isExpired = HoldService.isExpired(hold);
+
+                    return (
+                      <Tr key={hold._id}>
+                        <Td>
+                          <Text fontSize="sm" fontWeight="medium">{index + 1}</Text>
+                        </Td>
+                        <Td>
+                          <VStack spacing={0} align="start">
+                            <Text fontSize="sm">{hold.person?.fullName || 'Persona'}</Text>
+                            {hold.notes && (
+                              <Text fontSize="xs" color="gray.500" noOfLines={1}>
+                                {hold.notes}
+                              </Text>
+                            )}
+                          </VStack>
+                        </Td>
+                        <Td>
+                          <Text fontSize="sm">{DateUtils.formatDate(hold.createdAt)}</Text>
+                        </Td>
+                        <Td>
+                          <Badge colorScheme={isExpired ? 'red' : statusConfig.color} variant="subtle">
+                            {isExpired ? 'Plazo vencido' : statusConfig.label}
+                          </Badge>
+                          {hold.status === 'ready' && hold.expiresAt && (
+                            <Text fontSize="xs" color="gray.500">
+                              Hasta {DateUtils.formatDate(hold.expiresAt)}
+                            </Text>
+                          )}
+                        </Td>
+                        {canManage && (
+                          <Td>
+                            <HStack spacing={1}>
+                              {hold.status === 'ready' && !isExpired && (
+                                <Button
+                                  size="xs"
+                                  colorScheme="green"
+                                  leftIcon={<FiCheckCircle />}
+                                  onClick={() => convertMutation.mutate(hold)}
+                                  isDisabled={isMutating}
+                                >
+                                  Prestar
+                                </Button>
+                              )}
+                              {isExpired && (
+                                <Button
+                                  size="xs"
+                                  colorScheme="orange"
+                                  variant="outline"
+                                  leftIcon={<FiSkipForward />}
+                                  onClick={() => releaseMutation.mutate({ hold, action: 'expire' })}
+                                  isDisabled={isMutating}
+                                >
+                                  Pasar al siguiente
+                                </Button>
+                              )}
+                              <Tooltip label="Cancelar reserva" hasArrow>
+                                <IconButton
+                                  aria-label="Cancelar reserva"
+                                  icon={<FiX />}
+                                  size="xs"
+                                  variant="ghost"
+                                  colorScheme="red"
+                                  onClick={() => releaseMutation.mutate({ hold, action: 'cancel' })}
+                                  isDisabled={isMutating}
+                                />
+                              </Tooltip>
+                            </HStack>
+                          </Td>
+                        )}
+                      </Tr>
+                    );
+                  })}
+                </Tbody>
+              </Table>
+            </TableContainer>
+
+            <Text fontSize="xs" color="gray.500">
+              Al devolverse una unidad se aparta para el siguiente en espera durante {systemConfig?.library.holdPickupDays ?? '—'} días.
+            </Text>
+          </VStack>
+        )}
+      </CardBody>
+
+      <PlaceHoldModal
+        resource={resource}
+        queueLength={queue.length}
+        isOpen={isOpen}
+        onClose={onClose}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,10 @@
+// src/components/holds/hold.config.ts
+import type { HoldStatus } from '@/types/hold.types';
+
+export const HOLD_STATUS_CONFIG: Record<HoldStatus, { label: string; color: string }> = {
+  waiting: { label: 'En espera', color: 'yellow' },
+  ready: { label: 'Listo para retirar', color: 'green' },
+  fulfilled: { label: 'Prestado', color: 'blue' },
+  expired: { label: 'Vencida', color: 'gray' },
+  cancelled: { label: 'Cancelada', color: 'red' },
+};
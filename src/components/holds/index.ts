@@ -0,0 +1,6 @@
+// src/components/holds/index.ts
+// Barrel export para el módulo de reservas
+
+export { ResourceHoldsQueue } from './ResourceHoldsQueue';
+export { PlaceHoldModal } from './PlaceHoldModal';
+export { HOLD_STATUS_CONFIG } from './hold.config';
@@ -7,7 +7,8 @@ import {
     Icon,
     useColorModeValue,
   } from '@chakra-ui/react';
-  import { FiBookOpen, FiArrowRight } from 'react-icons/fi';
+  import NextLink from 'next/link';
+  import { FiBookOpen, FiArrowRight, FiSearch } from 'react-icons/fi';
   
   interface LoginCardProps {
     onLoginClick: () => void;
@@ -70,6 +71,17 @@ import {
               <Text fontSize="sm" color="gray.500" textAlign="center">
                 Ingresa con tus credenciales de bibliotecario
               </Text>
+
+              <Button
+                as={NextLink}
+                href="/catalog"
+                variant="link"
+                colorScheme="blue"
+                size="sm"
+                leftIcon={<Icon as={FiSearch} />}
+              >
+                Consultar el catálogo sin iniciar sesión
+              </Button>
             </VStack>
   
             {/* Información adicional */}
@@ -14,7 +14,8 @@ import {
   useColorModeValue,
 } from '@chakra-ui/react';
 import { useRouter } from 'next/navigation';
-import { FiPlus, FiSearch, FiBook, FiDownload, FiUpload } from 'react-icons/fi';
+import { FiPlus, FiSearch, FiBook, FiDownload, FiUpload, FiClipboard, FiActivity, FiFilter, FiArchive } from 'react-icons/fi';
+import { useFeatureFlags } from '@/hooks/useSystemConfig';
 
 export interface QuickAction {
   title: string;
@@ -45,6 +46,14 @@ const quickActions: QuickAction[] = [
 ];
 
 const secondaryActions: QuickAction[] = [
+  {
+    title: 'Búsqueda Avanzada',
+    description: 'Buscar en todo el catálogo con filtros por categoría, tipo y ubicación',
+    icon: FiFilter,
+    href: '/inventory/search',
+    color: 'blue',
+    variant: 'secondary',
+  },
   {
     title: 'Importar Recursos',
     description: 'Cargar desde archivo CSV o Excel',
@@ -53,6 +62,30 @@ const secondaryActions: QuickAction[] = [
     color: 'purple',
     variant: 'secondary',
   },
+  {
+    title: 'Auditoría de Inventario',
+    description: 'Verificar los estantes de una ubicación contra el sistema',
+    icon: FiClipboard,
+    href: '/inventory/audit',
+    color: 'teal',
+    variant: 'secondary',
+  },
+  {
+    title: 'Deterioro por Usuario',
+    description: 'Recursos que volvieron dañados tras un préstamo',
+    icon: FiActivity,
+    href: '/inventory/condition-report',
+    color: 'red',
+    variant: 'secondary',
+  },
+  {
+    title: 'Expurgo de la Colección',
+    description: 'Recursos sin préstamos recientes para descartar o trasladar',
+    icon: FiArchive,
+    href: '/inventory/weeding',
+    color: 'orange',
+    variant: 'secondary',
+  },
   {
     title: 'Exportar Inventario',
     description: 'Descargar listado completo',
@@ -124,6 +157,11 @@ export function InventoryNavigation({
   onActionClick,
 }: InventoryNavigationProps) {
   const router = useRouter();
+  const { googleBooksEnabled } = useFeatureFlags();
+
+  const visibleQuickActions = quickActions.filter(
+    action => googleBooksEnabled || action.href !== '/inventory/google-books'
+  );
 
   const handleActionClick = (action: QuickAction) => {
     if (onActionClick) {
@@ -146,7 +184,7 @@ export function InventoryNavigation({
           Acciones Principales
         </Text>
         <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
-          {quickActions.map((action) => (
+          {visibleQuickActions.map((action) => (
             <ActionCard
               key={action.href}
               action={action}
@@ -13,16 +13,18 @@ import { NavigationItem } from './NavigationItem';
 import { ServerStatus } from '@/components/ui/ServerStatus';
 import { getFilteredNavigation } from '@/config/navigation.config';
 import { useRole } from '@/hooks/useAuth';
+import { useFeatureFlags } from '@/hooks/useSystemConfig';
 
 interface SidebarProps {
   onItemClick?: () => void;
 }
 
 export function Sidebar({ onItemClick }: SidebarProps) {
-  const { isAdmin } = useRole();
+  const { role } = useRole();
+  const features = useFeatureFlags();
   const borderColor = useColorModeValue('gray.200', 'gray.700');
   
-  const filteredNavigation = getFilteredNavigation(isAdmin);
+  const filteredNavigation = getFilteredNavigation(role, features);
 
   return (
     <VStack spacing={0} align="stretch" h="full">
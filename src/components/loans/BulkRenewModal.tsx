@@ -0,0 +1,177 @@
+// src/components/loans/BulkRenewModal.tsx
+// ================================================================
+// RENOVACIÓN MASIVA DE PRÉSTAMOS ELEGIBLES DE UNA PERSONA
+// ================================================================
+
+import React, { useState } from 'react';
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  Button,
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Alert,
+  AlertIcon,
+  List,
+  ListItem
+} from '@chakra-ui/react';
+import { FiRefreshCw } from 'react-icons/fi';
+
+import type { BulkRenewResult } from '@/types/loan.types';
+import { useRenewal } from '@/hooks/useLoans';
+import { DateUtils } from '@/utils';
+
+// ===== INTERFACES =====
+
+interface BulkRenewModalProps {
+  person: { _id: string; fullName: string } | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onComplete?: (result: BulkRenewResult) => void;
+}
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const BulkRenewModal: React.FC<BulkRenewModalProps> = ({ person, isOpen, onClose, onComplete }) => {
+  const { processing, error, renewEligibleLoans } = useRenewal();
+  const [result, setResult] = useState<BulkRenewResult | null>(null);
+
+  const handleRenew = async () => {
+    if (!person) return;
+
+    try {
+      const bulkResult = await renewEligibleLoans(person._id);
+      setResult(bulkResult);
+      onComplete?.(bulkResult);
+    } catch (error) {
+      // El error queda en el estado del hook
+    }
+  };
+
+  const handleClose = () => {
+    setResult(null);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} size="lg" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Renovar préstamos elegibles</ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          {!result ? (
+            <VStack align="stretch" spacing={4}>
+              <Text fontSize="sm">
+                Se renovarán todos los préstamos activos de{' '}
+                <Text as="span" fontWeight="bold">{person?.fullName}</Text>{' '}
+                que cumplan la política de renovaciones.
+              </Text>
+              <Text fontSize="sm" color="gray.600">
+                Se omiten los préstamos que alcanzaron el máximo de renovaciones o cuyo recurso
+                tiene reservas pendientes. Si la persona tiene préstamos vencidos no se renovará ninguno.
+              </Text>
+
+              {error && (
+                <Alert status="error" borderRadius="md" fontSize="sm">
+                  <AlertIcon />
+                  {error}
+                </Alert>
+              )}
+            </VStack>
+          ) : (
+            <VStack align="stretch" spacing={4}>
+              <HStack spacing={3}>
+                <Badge colorScheme="green" fontSize="sm">{result.renewed.length} renovados</Badge>
+                <Badge colorScheme="orange" fontSize="sm">{result.skipped.length} omitidos</Badge>
+                {result.failed.length > 0 && (
+                  <Badge colorScheme="red" fontSize="sm">{result.failed.length} con error</Badge>
+                )}
+              </HStack>
+
+              {result.renewed.length > 0 && (
+                <Box>
+                  <Text fontSize="sm" fontWeight="medium" mb={2}>Renovados</Text>
+                  <List spacing={1} fontSize="sm">
+                    {result.renewed.map(item => (
+                      <ListItem key={item.loan._id}>
+                        • {item.loan.resource?.title || 'Recurso'} — vence el {DateUtils.formatDate(item.loan.dueDate)}
+                      </ListItem>
+                    ))}
+                  </List>
+                </Box>
+              )}
+
+              {result.skipped.length > 0 && (
+                <Box>
+                  <Text fontSize="sm" fontWeight="medium" mb={2}>Omitidos</Text>
+                  <List spacing={2} fontSize="sm">
+                    {result.skipped.map(item => (
+                      <ListItem key={item.loan._id}>
+                        <Text>• {item.loan.resource?.title || 'Recurso'}</Text>
+                        <Text fontSize="xs" color="gray.600" pl={3}>
+                          {item.eligibility.reasons.map(reason => reason.message).join('. ')}
+                        </Text>
+                      </ListItem>
+                    ))}
+                  </List>
+                </Box>
+              )}
+
+              {result.failed.length > 0 && (
+                <Box>
+                  <Text fontSize="sm" fontWeight="medium" mb={2}>Con error</Text>
+                  <List spacing={2} fontSize="sm">
+                    {result.failed.map(item => (
+                      <ListItem key={item.loan._id}>
+                        <Text>• {item.loan.resource?.title || 'Recurso'}</Text>
+                        <Text fontSize="xs" color="red.600" pl={3}>{item.error}</Text>
+                      </ListItem>
+                    ))}
+                  </List>
+                </Box>
+              )}
+
+              {result.renewed.length + result.skipped.length + result.failed.length === 0 && (
+                <Text fontSize="sm" color="gray.600">
+                  La persona no tiene préstamos activos.
+                </Text>
+              )}
+            </VStack>
+          )}
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={handleClose}>
+              {result ? 'Cerrar' : 'Cancelar'}
+            </Button>
+            {!result && (
+              <Button
+                colorScheme="blue"
+                leftIcon={<FiRefreshCw />}
+                onClick={handleRenew}
+                isLoading={processing}
+                loadingText="Renovando..."
+                isDisabled={!person}
+              >
+                Renovar elegibles
+              </Button>
+            )}
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default BulkRenewModal;
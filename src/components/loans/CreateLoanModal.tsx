@@ -17,6 +17,8 @@ import {
   FormLabel,
   FormErrorMessage,
   Input,
+  InputGroup,
+  InputLeftElement,
   Textarea,
   Select,
   NumberInput,
@@ -33,6 +35,9 @@ import {
   Spinner,
   Badge,
   Divider,
+  Switch,
+  ButtonGroup,
+  useDisclosure,
   useToast
 } from '@chakra-ui/react';
 
@@ -45,7 +50,10 @@ import {
   FiCalendar,
   FiAlertTriangle,
   FiCheckCircle,
-  FiFileText
+  FiFileText,
+  FiMaximize,
+  FiBookmark,
+  FiSearch
 } from 'react-icons/fi';
 
 import { useForm } from 'react-hook-form';
@@ -53,14 +61,32 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 
 // Importar hooks y tipos
-import { useLoans, useLoanValidation } from '@/hooks/useLoans';
-import type { CreateLoanRequest, LoanWithDetails } from '@/types/loan.types';
+import { useLoans, useLoanValidation, useReceiptPreferences } from '@/hooks/useLoans';
+import { useAuth } from '@/hooks/useAuth';
+import { useSearchPeople } from '@/hooks/usePeople';
+import { useSearchResources } from '@/hooks/useResources';
+import { useDebounce } from '@/hooks/useDebounce';
+import type { LoanWithDetails, ResourceAvailabilityResult } from '@/types/loan.types';
+import type { Person } from '@/types/api.types';
+import type { Resource } from '@/types/resource.types';
+import { printLoanReceipt } from './LoanReceipt';
+import ScannerCirculation from './ScannerCirculation';
+import { PenaltyService } from '@/services/penalty.service';
+import { describePenalty, PENALTY_REASON_LABELS } from '@/components/penalties';
+import type { Penalty } from '@/types/penalty.types';
+import { PlaceHoldModal } from '@/components/holds';
+import { useSystemConfiguration } from '@/hooks/useSystemConfig';
+import { useResourceCopies } from '@/hooks/useResourceCopies';
+import { ResourceCopyService } from '@/services/resourceCopy.service';
+import { SystemConfigService } from '@/services/systemConfig.service';
+import { DateUtils } from '@/utils';
 
 // ===== ESQUEMA DE VALIDACIÓN =====
 
 const createLoanSchema = z.object({
   personId: z.string().min(1, 'Debe seleccionar una persona'),
   resourceId: z.string().min(1, 'Debe seleccionar un recurso'),
+  copyId: z.string().optional(),
   quantity: z.number().min(1, 'La cantidad debe ser mayor a 0').max(50, 'Cantidad máxima: 50'),
   observations: z.string().optional()
 });
@@ -73,26 +99,8 @@ interface CreateLoanModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess?: (loan: LoanWithDetails) => void;
-}
-
-interface Person {
-  _id: string;
-  firstName: string;
-  lastName: string;
-  fullName: string;
-  documentNumber?: string;
-  personType?: {
-    name: string;
-  };
-}
-
-interface Resource {
-  _id: string;
-  title: string;
-  author?: string;
-  isbn?: string;
-  totalQuantity: number;
-  availableQuantity: number;
+  // Persona ya seleccionada al abrir (por ejemplo, desde su ficha)
+  initialPerson?: Person;
 }
 
 // ===== COMPONENTE PRINCIPAL =====
@@ -100,17 +108,22 @@ interface Resource {
 export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
   isOpen,
   onClose,
-  onSuccess
+  onSuccess,
+  initialPerson
 }) => {
   const toast = useToast();
   
   // Estados
-  const [people, setPeople] = useState<Person[]>([]);
-  const [resources, setResources] = useState<Resource[]>([]);
-  const [loadingPeople, setLoadingPeople] = useState(false);
-  const [loadingResources, setLoadingResources] = useState(false);
+  const [personSearch, setPersonSearch] = useState('');
+  const [resourceSearch, setResourceSearch] = useState('');
   const [selectedPerson, setSelectedPerson] = useState<Person | null>(null);
   const [selectedResource, setSelectedResource] = useState<Resource | null>(null);
+  const [scannerMode, setScannerMode] = useState(false);
+  const [blockingPenalties, setBlockingPenalties] = useState<Penalty[]>([]);
+  const [hasPenaltyRestriction, setHasPenaltyRestriction] = useState(false);
+  const [availability, setAvailability] = useState<ResourceAvailabilityResult | null>(null);
+  const [activeLoansCount, setActiveLoansCount] = useState<number | null>(null);
+  const { isOpen: isHoldOpen, onOpen: onHoldOpen, onClose: onHoldClose } = useDisclosure();
   
   // Hooks
   const { createLoan, loading: creating } = useLoans();
@@ -122,6 +135,25 @@ export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
     canPersonBorrow,
     checkResourceAvailability
   } = useLoanValidation();
+  const { autoPrint, setAutoPrint } = useReceiptPreferences();
+  const { user } = useAuth();
+  const { data: systemConfig } = useSystemConfiguration();
+  const { data: copies = [] } = useResourceCopies(selectedResource?._id || '');
+
+  // Búsqueda en el servidor; los no disponibles también se listan para poder reservarlos
+  const debouncedPersonSearch = useDebounce(personSearch, 300);
+  const debouncedResourceSearch = useDebounce(resourceSearch, 300);
+  const { data: searchedPeople = [], isFetching: loadingPeople } = useSearchPeople(debouncedPersonSearch, 20);
+  const { data: searchedResources = [], isFetching: loadingResources } =
+    useSearchResources(debouncedResourceSearch, 20, false);
+
+  // La selección actual sigue entre las opciones aunque cambie la búsqueda
+  const people = selectedPerson && !searchedPeople.some(p => p._id === selectedPerson._id)
+    ? [selectedPerson, ...searchedPeople]
+    : searchedPeople;
+  const resources = selectedResource && !searchedResources.some(r => r._id === selectedResource._id)
+    ? [selectedResource, ...searchedResources]
+    : searchedResources;
 
   // Form
   const {
@@ -143,9 +175,8 @@ export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
   // ===== EFECTOS =====
 
   useEffect(() => {
-    if (isOpen) {
-      loadPeople();
-      loadResources();
+    if (isOpen && initialPerson) {
+      handlePersonChange(initialPerson._id, initialPerson);
     }
   }, [isOpen]);
 
@@ -155,52 +186,6 @@ export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
     }
   }, [watchedValues.personId, watchedValues.resourceId, watchedValues.quantity]);
 
-  // ===== FUNCIONES DE CARGA =====
-
-  const loadPeople = async () => {
-    setLoadingPeople(true);
-    try {
-      // Aquí deberías llamar a tu servicio para obtener personas
-      // const response = await PersonService.getPeople({ active: true });
-      // setPeople(response.data);
-      
-      // Mock data por ahora
-      setPeople([]);
-    } catch (error: any) {
-      toast({
-        title: 'Error',
-        description: 'Error al cargar personas',
-        status: 'error',
-        duration: 3000,
-        isClosable: true
-      });
-    } finally {
-      setLoadingPeople(false);
-    }
-  };
-
-  const loadResources = async () => {
-    setLoadingResources(true);
-    try {
-      // Aquí deberías llamar a tu servicio para obtener recursos
-      // const response = await ResourceService.getResources({ available: true });
-      // setResources(response.data);
-      
-      // Mock data por ahora
-      setResources([]);
-    } catch (error: any) {
-      toast({
-        title: 'Error',
-        description: 'Error al cargar recursos',
-        status: 'error',
-        duration: 3000,
-        isClosable: true
-      });
-    } finally {
-      setLoadingResources(false);
-    }
-  };
-
   // ===== VALIDACIONES =====
 
   const validateCurrentLoan = async () => {
@@ -219,20 +204,27 @@ export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
 
   // ===== MANEJADORES =====
 
-  // FIX: Tipos explícitos para los parámetros
-  const handleFilterChange = (key: string, value: string | number | boolean) => {
-    // Implementar filtrado si es necesario
-  };
-
-  const handlePersonChange = async (personId: string) => {
+  const handlePersonChange = async (personId: string, knownPerson?: Person) => {
     setValue('personId', personId);
     
-    const person = people.find(p => p._id === personId);
+    const person = knownPerson || people.find(p => p._id === personId);
     setSelectedPerson(person || null);
+    setBlockingPenalties([]);
+    setHasPenaltyRestriction(false);
+    setActiveLoansCount(null);
 
     if (personId) {
+      try {
+        const penalties = await PenaltyService.getBlockingPenalties(personId);
+        setBlockingPenalties(penalties);
+      } catch (error) {
+        console.error('Error al verificar sanciones:', error);
+      }
+
       try {
         const canBorrow = await canPersonBorrow(personId);
+        setHasPenaltyRestriction(!!canBorrow.restrictions?.hasActivePenalties);
+        setActiveLoansCount(canBorrow.activeLoansCount ?? null);
         if (!canBorrow.canBorrow) {
           toast({
             title: 'Advertencia',
@@ -250,17 +242,20 @@ export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
 
   const handleResourceChange = async (resourceId: string) => {
     setValue('resourceId', resourceId);
+    setValue('copyId', '');
     
     const resource = resources.find(r => r._id === resourceId);
     setSelectedResource(resource || null);
+    setAvailability(null);
 
     if (resourceId) {
       try {
-        const availability = await checkResourceAvailability(resourceId);
-        if (!availability.canLoan) {
+        const result = await checkResourceAvailability(resourceId);
+        setAvailability(result);
+        if (!result.canLoan) {
           toast({
             title: 'Advertencia',
-            description: 'Este recurso no tiene unidades disponibles',
+            description: 'Este recurso no tiene unidades disponibles. Puedes reservarlo',
             status: 'warning',
             duration: 5000,
             isClosable: true
@@ -272,9 +267,52 @@ export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
     }
   };
 
+  const resourceUnavailable = !!availability && !availability.canLoan;
+  const resourceAuthors = selectedResource?.authors?.map(author => author.name).join(', ');
+  const isBlockedByPenalties = blockingPenalties.length > 0 || hasPenaltyRestriction;
+
+  // Reglas configuradas para el tipo de persona seleccionada
+  const loanRules = SystemConfigService.getLoanRules(systemConfig, selectedPerson?.personType?.name);
+  const expectedDueDate = SystemConfigService.calculateDueDate(loanRules);
+  const hasReachedLoanLimit = activeLoansCount !== null && activeLoansCount >= loanRules.maxLoans;
+  const exceedsQuantityLimit = (watchedValues.quantity || 0) > loanRules.maxQuantityPerLoan;
+
+  // Los ejemplares disponibles; al elegir uno concreto el préstamo es de una sola unidad
+  const lendableCopies = copies.filter(copy => ResourceCopyService.isLendable(copy));
+  const hasSelectedCopy = !!watchedValues.copyId;
+
   const handleSubmit_Internal = async (data: CreateLoanFormData) => {
+    if (isBlockedByPenalties) {
+      toast({
+        title: 'Préstamo bloqueado',
+        description: 'La persona tiene sanciones activas y no puede tomar préstamos',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+      return;
+    }
+
+    if (hasReachedLoanLimit || exceedsQuantityLimit) {
+      toast({
+        title: 'Límite de préstamos',
+        description: hasReachedLoanLimit
+          ? `La persona ya tiene ${activeLoansCount} préstamos activos (máximo ${loanRules.maxLoans})`
+          : `La cantidad máxima por préstamo es ${loanRules.maxQuantityPerLoan}`,
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+      return;
+    }
+
     try {
-      const loan = await createLoan(data);
+      const loan = await createLoan({
+        ...data,
+        copyId: data.copyId || undefined,
+        quantity: data.copyId ? 1 : data.quantity,
+        dueDate: expectedDueDate.toISOString()
+      });
       
       toast({
         title: 'Éxito',
@@ -284,6 +322,30 @@ export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
         isClosable: true
       });
 
+      if (autoPrint) {
+        printLoanReceipt({
+          type: 'loan',
+          loan: {
+            ...loan,
+            // Completar con la selección si el backend no devuelve los datos poblados
+            person: loan.person || (selectedPerson ? {
+              _id: selectedPerson._id,
+              firstName: selectedPerson.firstName,
+              lastName: selectedPerson.lastName,
+              fullName: selectedPerson.fullName,
+              documentNumber: selectedPerson.documentNumber
+            } : undefined),
+            resource: loan.resource || (selectedResource ? {
+              _id: selectedResource._id,
+              title: selectedResource.title,
+              isbn: selectedResource.isbn,
+              author: resourceAuthors
+            } : undefined)
+          },
+          librarianFallback: user?.email
+        });
+      }
+
       onSuccess?.(loan);
       handleClose();
     } catch (error: any) {
@@ -301,6 +363,12 @@ export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
     reset();
     setSelectedPerson(null);
     setSelectedResource(null);
+    setPersonSearch('');
+    setResourceSearch('');
+    setBlockingPenalties([]);
+    setHasPenaltyRestriction(false);
+    setAvailability(null);
+    setActiveLoansCount(null);
     onClose();
   };
 
@@ -320,189 +388,357 @@ export const CreateLoanModal: React.FC<CreateLoanModalProps> = ({
 
         <form onSubmit={handleSubmit(handleSubmit_Internal)}>
           <ModalBody>
-            <VStack spacing={6} align="stretch">
-              {/* Validación Global */}
-              {validationErrors.length > 0 && (
-                <Alert status="error">
-                  <AlertIcon />
-                  <Box>
-                    {validationErrors.map((error, index) => (
-                      <Text key={index} fontSize="sm">{error}</Text>
-                    ))}
-                  </Box>
-                </Alert>
-              )}
-
-              {/* Selección de Persona */}
-              <FormControl isInvalid={!!errors.personId} isRequired>
-                <FormLabel>
-                  <HStack>
-                    <FiUser />
-                    <Text>Persona</Text>
-                  </HStack>
-                </FormLabel>
-                <Select
-                  placeholder="Seleccionar persona..."
-                  {...register('personId')}
-                  onChange={(e) => handlePersonChange(e.target.value)}
-                >
-                  {loadingPeople ? (
-                    <option disabled>Cargando personas...</option>
-                  ) : (
-                    people.map((person) => (
+            {/* Selector de modo */}
+            <ButtonGroup size="sm" isAttached variant="outline" mb={4}>
+              <Button
+                leftIcon={<FiFileText />}
+                colorScheme={scannerMode ? 'gray' : 'blue'}
+                variant={scannerMode ? 'outline' : 'solid'}
+                onClick={() => setScannerMode(false)}
+              >
+                Formulario
+              </Button>
+              <Button
+                leftIcon={<FiMaximize />}
+                colorScheme={scannerMode ? 'blue' : 'gray'}
+                variant={scannerMode ? 'solid' : 'outline'}
+                onClick={() => setScannerMode(true)}
+              >
+                Modo escáner
+              </Button>
+            </ButtonGroup>
+
+            {scannerMode ? (
+              <ScannerCirculation
+                mode="loan"
+                autoPrint={autoPrint}
+                onComplete={onSuccess}
+                initialPerson={selectedPerson || initialPerson}
+              />
+            ) : (
+              <VStack spacing={6} align="stretch">
+                {/* Validación Global */}
+                {validationErrors.length > 0 && (
+                  <Alert status="error">
+                    <AlertIcon />
+                    <Box>
+                      {validationErrors.map((error, index) => (
+                        <Text key={index} fontSize="sm">{error}</Text>
+                      ))}
+                    </Box>
+                  </Alert>
+                )}
+
+                {/* Selección de Persona */}
+                <FormControl isInvalid={!!errors.personId} isRequired>
+                  <FormLabel>
+                    <HStack>
+                      <FiUser />
+                      <Text>Persona</Text>
+                    </HStack>
+                  </FormLabel>
+                  <InputGroup size="sm" mb={2}>
+                    <InputLeftElement pointerEvents="none">
+                      <FiSearch color="gray" />
+                    </InputLeftElement>
+                    <Input
+                      value={personSearch}
+                      onChange={(e) => setPersonSearch(e.target.value)}
+                      placeholder="Buscar por nombre o documento..."
+                    />
+                  </InputGroup>
+                  <Select
+                    placeholder={
+                      personSearch.length < 2 && people.length === 0
+                        ? 'Escribe al menos 2 caracteres para buscar'
+                        : 'Seleccionar persona...'
+                    }
+                    {...register('personId')}
+                    value={watchedValues.personId || ''}
+                    onChange={(e) => handlePersonChange(e.target.value)}
+                  >
+                    {people.map((person) => (
                       <option key={person._id} value={person._id}>
                         {person.fullName} 
                         {person.documentNumber && ` - ${person.documentNumber}`}
                         {person.personType && ` (${person.personType.name})`}
                       </option>
-                    ))
-                  )}
-                </Select>
-                <FormErrorMessage>{errors.personId?.message}</FormErrorMessage>
-              </FormControl>
-
-              {/* Información de la Persona Seleccionada */}
-              {selectedPerson && (
-                <Box p={4} bg="blue.50" borderRadius="md" borderLeft="4px solid" borderColor="blue.500">
-                  <HStack justify="space-between">
+                    ))}
+                    {loadingPeople && <option disabled>Cargando personas...</option>}
+                  </Select>
+                  <FormErrorMessage>{errors.personId?.message}</FormErrorMessage>
+                </FormControl>
+
+                {/* Información de la Persona Seleccionada */}
+                {selectedPerson && (
+                  <Box p={4} bg="blue.50" borderRadius="md" borderLeft="4px solid" borderColor="blue.500">
+                    <HStack justify="space-between">
+                      <VStack align="start" spacing={1}>
+                        <Text fontWeight="bold">{selectedPerson.fullName}</Text>
+                        {selectedPerson.documentNumber && (
+                          <Text fontSize="sm" color="gray.600">
+                            Documento: {selectedPerson.documentNumber}
+                          </Text>
+                        )}
+                      </VStack>
+                      {selectedPerson.personType && (
+                        <Badge colorScheme={selectedPerson.personType.name === 'student' ? 'blue' : 'purple'}>
+                          {selectedPerson.personType.name === 'student' ? 'Estudiante' : 'Profesor'}
+                        </Badge>
+                      )}
+                    </HStack>
+                    <Text fontSize="xs" color="gray.600" mt={2}>
+                      Máximo {loanRules.maxLoans} préstamos activos
+                      {activeLoansCount !== null && ` (tiene ${activeLoansCount})`}
+                      {' · '}hasta {loanRules.maxQuantityPerLoan} unidades por préstamo
+                      {' · '}{loanRules.loanDurationDays} días de préstamo
+                    </Text>
+                  </Box>
+                )}
+
+                {/* Límite de préstamos alcanzado */}
+                {selectedPerson && hasReachedLoanLimit && (
+                  <Alert status="error" borderRadius="md">
+                    <AlertIcon />
+                    <Text fontSize="sm">
+                      Alcanzó el máximo de {loanRules.maxLoans} préstamos activos para su tipo de persona
+                    </Text>
+                  </Alert>
+                )}
+
+                {/* Sanciones activas de la persona */}
+                {selectedPerson && isBlockedByPenalties && (
+                  <Alert status="error" borderRadius="md" alignItems="flex-start">
+                    <AlertIcon />
                     <VStack align="start" spacing={1}>
-                      <Text fontWeight="bold">{selectedPerson.fullName}</Text>
-                      {selectedPerson.documentNumber && (
-                        <Text fontSize="sm" color="gray.600">
-                          Documento: {selectedPerson.documentNumber}
+                      <Text fontWeight="medium">
+                        No puede tomar préstamos mientras tenga sanciones activas
+                      </Text>
+                      {blockingPenalties.map((penalty) => (
+                        <Text key={penalty._id} fontSize="sm">
+                          • {PENALTY_REASON_LABELS[penalty.reason]}: {describePenalty(penalty)}
                         </Text>
-                      )}
+                      ))}
                     </VStack>
-                    {selectedPerson.personType && (
-                      <Badge colorScheme={selectedPerson.personType.name === 'student' ? 'blue' : 'purple'}>
-                        {selectedPerson.personType.name === 'student' ? 'Estudiante' : 'Profesor'}
-                      </Badge>
-                    )}
-                  </HStack>
-                </Box>
-              )}
+                  </Alert>
+                )}
 
-              {/* Selección de Recurso */}
-              <FormControl isInvalid={!!errors.resourceId} isRequired>
-                <FormLabel>
-                  <HStack>
-                    <FiBook />
-                    <Text>Recurso</Text>
-                  </HStack>
-                </FormLabel>
-                <Select
-                  placeholder="Seleccionar recurso..."
-                  {...register('resourceId')}
-                  onChange={(e) => handleResourceChange(e.target.value)}
-                >
-                  {loadingResources ? (
-                    <option disabled>Cargando recursos...</option>
-                  ) : (
-                    resources.map((resource) => (
+                {/* Selección de Recurso */}
+                <FormControl isInvalid={!!errors.resourceId} isRequired>
+                  <FormLabel>
+                    <HStack>
+                      <FiBook />
+                      <Text>Recurso</Text>
+                    </HStack>
+                  </FormLabel>
+                  <InputGroup size="sm" mb={2}>
+                    <InputLeftElement pointerEvents="none">
+                      <FiSearch color="gray" />
+                    </InputLeftElement>
+                    <Input
+                      value={resourceSearch}
+                      onChange={(e) => setResourceSearch(e.target.value)}
+                      placeholder="Buscar por título, autor o ISBN..."
+                    />
+                  </InputGroup>
+                  <Select
+                    placeholder={
+                      resourceSearch.length < 2 && resources.length === 0
+                        ? 'Escribe al menos 2 caracteres para buscar'
+                        : 'Seleccionar recurso...'
+                    }
+                    {...register('resourceId')}
+                    value={watchedValues.resourceId || ''}
+                    onChange={(e) => handleResourceChange(e.target.value)}
+                  >
+                    {resources.map((resource) => (
                       <option key={resource._id} value={resource._id}>
                         {resource.title}
-                        {resource.author && ` - ${resource.author}`}
-                        {` (Disponibles: ${resource.availableQuantity})`}
+                        {resource.authors?.length ? ` - ${resource.authors.map(author => author.name).join(', ')}` : ''}
+                        {resource.available ? '' : ' (sin unidades disponibles)'}
                       </option>
-                    ))
-                  )}
-                </Select>
-                <FormErrorMessage>{errors.resourceId?.message}</FormErrorMessage>
-              </FormControl>
-
-              {/* Información del Recurso Seleccionado */}
-              {selectedResource && (
-                <Box p={4} bg="green.50" borderRadius="md" borderLeft="4px solid" borderColor="green.500">
-                  <VStack align="start" spacing={2}>
-                    <Text fontWeight="bold">{selectedResource.title}</Text>
-                    {selectedResource.author && (
-                      <Text fontSize="sm" color="gray.600">
-                        Autor: {selectedResource.author}
-                      </Text>
-                    )}
-                    {selectedResource.isbn && (
-                      <Text fontSize="sm" color="gray.600">
-                        ISBN: {selectedResource.isbn}
+                    ))}
+                    {loadingResources && <option disabled>Cargando recursos...</option>}
+                  </Select>
+                  <FormErrorMessage>{errors.resourceId?.message}</FormErrorMessage>
+                </FormControl>
+
+                {/* Información del Recurso Seleccionado */}
+                {selectedResource && (
+                  <Box p={4} bg="green.50" borderRadius="md" borderLeft="4px solid" borderColor="green.500">
+                    <VStack align="start" spacing={2}>
+                      <Text fontWeight="bold">{selectedResource.title}</Text>
+                      {resourceAuthors && (
+                        <Text fontSize="sm" color="gray.600">
+                          Autor: {resourceAuthors}
+                        </Text>
+                      )}
+                      {selectedResource.isbn && (
+                        <Text fontSize="sm" color="gray.600">
+                          ISBN: {selectedResource.isbn}
+                        </Text>
+                      )}
+                      {availability && (
+                        <HStack>
+                          <Badge colorScheme={availability.canLoan ? 'green' : 'red'}>
+                            Disponibles: {availability.availableQuantity}
+                          </Badge>
+                          <Badge colorScheme="blue">
+                            Total: {availability.totalQuantity}
+                          </Badge>
+                        </HStack>
+                      )}
+                    </VStack>
+                  </Box>
+                )}
+
+                {/* Ejemplar */}
+                {selectedResource && copies.length > 0 && (
+                  <FormControl>
+                    <FormLabel>Ejemplar</FormLabel>
+                    <Select
+                      {...register('copyId')}
+                      onChange={(e) => {
+                        setValue('copyId', e.target.value);
+                        if (e.target.value) setValue('quantity', 1);
+                      }}
+                    >
+                      <option value="">Asignar automáticamente</option>
+                      {lendableCopies.map(copy => (
+                        <option key={copy._id} value={copy._id}>
+                          {ResourceCopyService.getCopyLabel(copy)} · {copy.barcode}
+                          {copy.location?.name && ` · ${copy.location.name}`}
+                        </option>
+                      ))}
+                    </Select>
+                    <Text fontSize="xs" color="gray.500" mt={1}>
+                      {lendableCopies.length} de {copies.length} ejemplares disponibles
+                    </Text>
+                  </FormControl>
+                )}
+
+                {/* Recurso sin unidades: ofrecer reserva */}
+                {selectedResource && resourceUnavailable && (
+                  <Alert status="warning" borderRadius="md">
+                    <AlertIcon />
+                    <HStack justify="space-between" w="full" spacing={3}>
+                      <Text fontSize="sm">
+                        No hay unidades disponibles. La persona puede quedar en la cola de reservas.
                       </Text>
-                    )}
+                      <Button
+                        size="sm"
+                        colorScheme="purple"
+                        leftIcon={<FiBookmark />}
+                        onClick={onHoldOpen}
+                        isDisabled={!selectedPerson}
+                        flexShrink={0}
+                      >
+                        Reservar
+                      </Button>
+                    </HStack>
+                  </Alert>
+                )}
+
+                {/* Cantidad */}
+                <FormControl isInvalid={!!errors.quantity || exceedsQuantityLimit} isRequired>
+                  <FormLabel>Cantidad</FormLabel>
+                  <NumberInput
+                    min={1}
+                    max={Math.min(availability?.availableQuantity || 50, loanRules.maxQuantityPerLoan)}
+                    isDisabled={hasSelectedCopy}
+                  >
+                    <NumberInputField {...register('quantity', { valueAsNumber: true })} />
+                    <NumberInputStepper>
+                      <NumberIncrementStepper />
+                      <NumberDecrementStepper />
+                    </NumberInputStepper>
+                  </NumberInput>
+                  <FormErrorMessage>
+                    {errors.quantity?.message || `Máximo ${loanRules.maxQuantityPerLoan} unidades por préstamo`}
+                  </FormErrorMessage>
+                  <Text fontSize="xs" color="gray.500" mt={1}>
+                    Fecha de devolución: {DateUtils.formatDate(expectedDueDate)}
+                  </Text>
+                </FormControl>
+
+                {/* Observaciones */}
+                <FormControl isInvalid={!!errors.observations}>
+                  <FormLabel>
                     <HStack>
-                      <Badge colorScheme="green">
-                        Disponibles: {selectedResource.availableQuantity}
-                      </Badge>
-                      <Badge colorScheme="blue">
-                        Total: {selectedResource.totalQuantity}
-                      </Badge>
+                      <FiFileText />
+                      <Text>Observaciones (Opcional)</Text>
                     </HStack>
-                  </VStack>
-                </Box>
-              )}
-
-              {/* Cantidad */}
-              <FormControl isInvalid={!!errors.quantity} isRequired>
-                <FormLabel>Cantidad</FormLabel>
-                <NumberInput min={1} max={selectedResource?.availableQuantity || 50}>
-                  <NumberInputField {...register('quantity', { valueAsNumber: true })} />
-                  <NumberInputStepper>
-                    <NumberIncrementStepper />
-                    <NumberDecrementStepper />
-                  </NumberInputStepper>
-                </NumberInput>
-                <FormErrorMessage>{errors.quantity?.message}</FormErrorMessage>
-              </FormControl>
-
-              {/* Observaciones */}
-              <FormControl isInvalid={!!errors.observations}>
-                <FormLabel>
-                  <HStack>
-                    <FiFileText />
-                    <Text>Observaciones (Opcional)</Text>
+                  </FormLabel>
+                  <Textarea
+                    {...register('observations')}
+                    placeholder="Observaciones adicionales del préstamo..."
+                    rows={3}
+                  />
+                  <FormErrorMessage>{errors.observations?.message}</FormErrorMessage>
+                </FormControl>
+
+                {/* Estado de Validación */}
+                {validating && (
+                  <HStack justify="center" p={4}>
+                    <Spinner size="sm" />
+                    <Text fontSize="sm" color="gray.600">Validando préstamo...</Text>
                   </HStack>
-                </FormLabel>
-                <Textarea
-                  {...register('observations')}
-                  placeholder="Observaciones adicionales del préstamo..."
-                  rows={3}
-                />
-                <FormErrorMessage>{errors.observations?.message}</FormErrorMessage>
-              </FormControl>
-
-              {/* Estado de Validación */}
-              {validating && (
-                <HStack justify="center" p={4}>
-                  <Spinner size="sm" />
-                  <Text fontSize="sm" color="gray.600">Validando préstamo...</Text>
-                </HStack>
-              )}
-
-              {isValid && !validating && watchedValues.personId && watchedValues.resourceId && (
-                <Alert status="success">
-                  <AlertIcon />
-                  <Text fontSize="sm">El préstamo es válido y puede ser creado</Text>
-                </Alert>
-              )}
-            </VStack>
+                )}
+
+                {isValid && !validating && watchedValues.personId && watchedValues.resourceId && (
+                  <Alert status="success">
+                    <AlertIcon />
+                    <Text fontSize="sm">El préstamo es válido y puede ser creado</Text>
+                  </Alert>
+                )}
+              </VStack>
+            )}
           </ModalBody>
 
           <Divider />
 
-          <ModalFooter>
+          <ModalFooter justifyContent="space-between">
+            <FormControl display="flex" alignItems="center" w="auto">
+              <Switch
+                id="auto-print-loan-receipt"
+                size="sm"
+                isChecked={autoPrint}
+                onChange={(e) => setAutoPrint(e.target.checked)}
+              />
+              <FormLabel htmlFor="auto-print-loan-receipt" mb={0} ml={2} fontSize="sm" color="gray.600">
+                Imprimir comprobante
+              </FormLabel>
+            </FormControl>
             <HStack spacing={3}>
               <Button variant="ghost" onClick={handleClose}>
-                Cancelar
-              </Button>
-              <Button
-                type="submit"
-                colorScheme="blue"
-                leftIcon={creating ? <Spinner size="sm" /> : <FiSave />}
-                isLoading={creating}
-                isDisabled={!isValid || creating || validating}
-              >
-                {creating ? 'Creando...' : 'Crear Préstamo'}
+                {scannerMode ? 'Cerrar' : 'Cancelar'}
               </Button>
+              {!scannerMode && (
+                <Button
+                  type="submit"
+                  colorScheme="blue"
+                  leftIcon={creating ? <Spinner size="sm" /> : <FiSave />}
+                  isLoading={creating}
+                  isDisabled={
+                    !isValid || creating || validating || isBlockedByPenalties ||
+                    hasReachedLoanLimit || exceedsQuantityLimit
+                  }
+                >
+                  {creating ? 'Creando...' : 'Crear Préstamo'}
+                </Button>
+              )}
             </HStack>
           </ModalFooter>
         </form>
       </ModalContent>
+
+      <PlaceHoldModal
+        resource={selectedResource}
+        person={selectedPerson}
+        isOpen={isHoldOpen}
+        onClose={onHoldClose}
+        onSuccess={handleClose}
+      />
     </Modal>
   );
 };
@@ -0,0 +1,241 @@
+// src/components/loans/LoanDetailsModal.tsx
+// ================================================================
+// DETALLE DE PRÉSTAMO CON ELEGIBILIDAD E HISTORIAL DE RENOVACIONES
+// ================================================================
+
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  Button,
+  Box,
+  VStack,
+  HStack,
+  SimpleGrid,
+  Text,
+  Badge,
+  Divider,
+  Alert,
+  AlertIcon,
+  List,
+  ListItem,
+  Spinner,
+  useToast
+} from '@chakra-ui/react';
+import { FiRefreshCw, FiUser, FiBook } from 'react-icons/fi';
+
+import type { LoanWithDetails, RenewalEligibility } from '@/types/loan.types';
+import { useRenewal } from '@/hooks/useLoans';
+import { useSystemConfiguration } from '@/hooks/useSystemConfig';
+import { SystemConfigService } from '@/services/systemConfig.service';
+import { DateUtils } from '@/utils';
+import LoanRenewalTimeline from './LoanRenewalTimeline';
+
+// ===== INTERFACES =====
+
+interface LoanDetailsModalProps {
+  loan: LoanWithDetails | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onUpdate?: () => void;
+}
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const LoanDetailsModal: React.FC<LoanDetailsModalProps> = ({ loan, isOpen, onClose, onUpdate }) => {
+  const toast = useToast();
+  const { data: config } = useSystemConfiguration();
+  const { processing, checkEligibility, renewLoan } = useRenewal();
+  const [eligibility, setEligibility] = useState<RenewalEligibility | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const isOpenLoan = !!loan && !loan.returnedDate && loan.status?.name !== 'returned' && loan.status?.name !== 'lost';
+  const loanRules = SystemConfigService.getLoanRules(config, loan?.person?.personType?.name);
+
+  useEffect(() => {
+    if (!isOpen || !loan || !isOpenLoan) {
+      setEligibility(null);
+      return;
+    }
+
+    let cancelled = false;
+    setChecking(true);
+
+    checkEligibility(loan)
+      .then(result => {
+        if (!cancelled) setEligibility(result);
+      })
+      .catch(error => {
+        console.error('Error verificando renovación:', error);
+        if (!cancelled) setEligibility(null);
+      })
+      .finally(() => {
+        if (!cancelled) setChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, loan, isOpenLoan, checkEligibility]);
+
+  if (!loan) return null;
+
+  const remainingRenewals = eligibility ? eligibility.maxRenewals - eligibility.renewCount : 0;
+
+  const handleRenew = async () => {
+    try {
+      const result = await renewLoan(loan._id);
+
+      toast({
+        title: 'Préstamo renovado',
+        description: result.loan?.dueDate
+          ? `Nuevo vencimiento: ${DateUtils.formatDate(result.loan.dueDate)}`
+          : 'Préstamo renovado correctamente',
+        status: 'success',
+        duration: 3000,
+        isClosable: true
+      });
+
+      onUpdate?.();
+      onClose();
+    } catch (error: any) {
+      toast({
+        title: 'No se pudo renovar',
+        description: error.message || 'Error al renovar el préstamo',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Detalle del Préstamo</ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack align="stretch" spacing={5}>
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <Box p={3} bg="blue.50" rounded="md">
+                <HStack spacing={2} mb={1}>
+                  <FiUser size={14} />
+                  <Text fontSize="xs" color="gray.600">Persona</Text>
+                </HStack>
+                <Text fontWeight="medium" fontSize="sm">{loan.person?.fullName || 'N/A'}</Text>
+                {loan.person?.documentNumber && (
+                  <Text fontSize="xs" color="gray.500">{loan.person.documentNumber}</Text>
+                )}
+              </Box>
+
+              <Box p={3} bg="purple.50" rounded="md">
+                <HStack spacing={2} mb={1}>
+                  <FiBook size={14} />
+                  <Text fontSize="xs" color="gray.600">Recurso</Text>
+                </HStack>
+                <Text fontWeight="medium" fontSize="sm" noOfLines={2}>{loan.resource?.title || 'N/A'}</Text>
+                <Text fontSize="xs" color="gray.500">
+                  {loan.copy ? `Ejemplar ${loan.copy.copyNumber} · ${loan.copy.barcode}` : `Cantidad: ${loan.quantity}`}
+                </Text>
+              </Box>
+            </SimpleGrid>
+
+            <SimpleGrid columns={3} spacing={4}>
+              <VStack align="start" spacing={0}>
+                <Text fontSize="xs" color="gray.500">Fecha de préstamo</Text>
+                <Text fontSize="sm">{DateUtils.formatDate(loan.loanDate)}</Text>
+              </VStack>
+              <VStack align="start" spacing={0}>
+                <Text fontSize="xs" color="gray.500">Vencimiento</Text>
+                <Text fontSize="sm" color={loan.isOverdue ? 'red.500' : undefined}>
+                  {DateUtils.formatDate(loan.dueDate)}
+                </Text>
+              </VStack>
+              <VStack align="start" spacing={0}>
+                <Text fontSize="xs" color="gray.500">Estado</Text>
+                <Badge colorScheme={loan.isOverdue ? 'red' : loan.returnedDate ? 'green' : 'blue'}>
+                  {loan.isOverdue
+                    ? `Vencido (${loan.daysOverdue || 0} días)`
+                    : loan.status?.description || loan.status?.name || 'Activo'}
+                </Badge>
+              </VStack>
+            </SimpleGrid>
+
+            {loan.observations && (
+              <Box>
+                <Text fontSize="xs" color="gray.500">Observaciones</Text>
+                <Text fontSize="sm">{loan.observations}</Text>
+              </Box>
+            )}
+
+            <Divider />
+
+            {/* Elegibilidad para renovar */}
+            {isOpenLoan && (
+              checking ? (
+                <HStack spacing={2}>
+                  <Spinner size="sm" />
+                  <Text fontSize="sm" color="gray.600">Verificando si se puede renovar...</Text>
+                </HStack>
+              ) : eligibility && (
+                eligibility.canRenew ? (
+                  <Alert status="success" borderRadius="md" fontSize="sm">
+                    <AlertIcon />
+                    Se puede renovar ({remainingRenewals === 1
+                      ? 'queda 1 renovación disponible'
+                      : `quedan ${remainingRenewals} renovaciones disponibles`}).
+                  </Alert>
+                ) : (
+                  <Alert status="warning" borderRadius="md" alignItems="start">
+                    <AlertIcon />
+                    <Box>
+                      <Text fontSize="sm" fontWeight="medium">No se puede renovar</Text>
+                      <List fontSize="sm" spacing={1} mt={1}>
+                        {eligibility.reasons.map(reason => (
+                          <ListItem key={reason.code}>• {reason.message}</ListItem>
+                        ))}
+                      </List>
+                    </Box>
+                  </Alert>
+                )
+              )
+            )}
+
+            <LoanRenewalTimeline
+              loan={loan}
+              maxRenewals={eligibility?.maxRenewals ?? loanRules.maxRenewals}
+            />
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose}>
+              Cerrar
+            </Button>
+            {isOpenLoan && (
+              <Button
+                colorScheme="blue"
+                leftIcon={<FiRefreshCw />}
+                onClick={handleRenew}
+                isLoading={processing}
+                isDisabled={checking || !eligibility?.canRenew}
+              >
+                Renovar Préstamo
+              </Button>
+            )}
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default LoanDetailsModal;
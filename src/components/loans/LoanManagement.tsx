@@ -27,7 +27,8 @@ import {
   FiPlus, 
   FiRefreshCw, 
   FiAlertTriangle, 
-  FiFileText 
+  FiFileText,
+  FiInbox
 } from 'react-icons/fi';
 
 // Importar componentes hijos
@@ -35,6 +36,7 @@ import LoansList from './LoansList';
 import ReturnsManagement from './ReturnsManagement';
 import OverdueManagement from './OverdueManagement';
 import LoanStatistics from './LoanStatistics';
+import RenewalRequestsQueue from './RenewalRequestsQueue';
 import CreateLoanModal from './CreateLoanModal';
 
 // ===== INTERFACES =====
@@ -78,6 +80,12 @@ const LoanManagement: React.FC = () => {
       icon: FiAlertTriangle,
       component: OverdueManagement
     },
+    { 
+      id: 'renewal-requests', 
+      label: 'Solicitudes de Renovación', 
+      icon: FiInbox,
+      component: RenewalRequestsQueue
+    },
     { 
       id: 'stats', 
       label: 'Estadísticas', 
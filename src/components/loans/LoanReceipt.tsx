@@ -0,0 +1,212 @@
+// src/components/loans/LoanReceipt.tsx
+// ================================================================
+// COMPROBANTES IMPRIMIBLES DE PRÉSTAMO Y DEVOLUCIÓN
+// ================================================================
+
+import React from 'react';
+
+import { DateUtils, NumberUtils, PrintUtils } from '@/utils';
+import type { LoanWithDetails, ReturnLoanResponse } from '@/types/loan.types';
+
+// ===== INTERFACES =====
+
+export type LoanReceiptType = 'loan' | 'return';
+
+export interface LoanReceiptProps {
+  type: LoanReceiptType;
+  loan: LoanWithDetails;
+  // Información de la respuesta de devolución (solo para comprobantes de devolución)
+  returnInfo?: Pick<ReturnLoanResponse, 'wasOverdue' | 'daysOverdue' | 'fineAmount' | 'penalty'>;
+  // Nombre a mostrar cuando el backend no devuelve loanedByUser/returnedByUser
+  librarianFallback?: string;
+}
+
+// ===== ESTILOS =====
+
+// El comprobante usa HTML plano con estilos propios para que se vea igual
+// en la vista previa y en el documento de impresión (sin estilos de Chakra)
+const RECEIPT_STYLES = `
+  .loan-receipt {
+    font-family: Arial, Helvetica, sans-serif;
+    color: #1A202C;
+    max-width: 320px;
+    margin: 0 auto;
+    font-size: 12px;
+    line-height: 1.4;
+  }
+  .loan-receipt h1 {
+    font-size: 15px;
+    text-align: center;
+    margin: 0;
+  }
+  .loan-receipt h2 {
+    font-size: 13px;
+    text-align: center;
+    margin: 4px 0 0;
+    text-transform: uppercase;
+    letter-spacing: 1px;
+  }
+  .loan-receipt .receipt-subtitle {
+    text-align: center;
+    color: #4A5568;
+    margin: 2px 0 0;
+  }
+  .loan-receipt .receipt-section {
+    border-top: 1px dashed #A0AEC0;
+    margin-top: 10px;
+    padding-top: 8px;
+  }
+  .loan-receipt .receipt-row {
+    display: flex;
+    justify-content: space-between;
+    gap: 12px;
+    margin: 2px 0;
+  }
+  .loan-receipt .receipt-label {
+    color: #4A5568;
+    white-space: nowrap;
+  }
+  .loan-receipt .receipt-value {
+    text-align: right;
+    font-weight: bold;
+    word-break: break-word;
+  }
+  .loan-receipt .receipt-alert {
+    border: 1px solid #1A202C;
+    padding: 6px;
+    margin-top: 8px;
+    text-align: center;
+    font-weight: bold;
+  }
+  .loan-receipt .receipt-footer {
+    text-align: center;
+    color: #4A5568;
+    margin-top: 16px;
+  }
+  .loan-receipt .receipt-signature {
+    border-top: 1px solid #1A202C;
+    margin: 32px 24px 0;
+    padding-top: 4px;
+    text-align: center;
+    color: #4A5568;
+  }
+  @media print {
+    @page { margin: 8mm; }
+    .loan-receipt { max-width: none; }
+  }
+`;
+
+// ===== UTILIDADES =====
+
+const getUserName = (user?: LoanWithDetails['loanedByUser']): string | undefined => {
+  if (!user) return undefined;
+  const fullName = `${user.firstName || ''} ${user.lastName || ''}`.trim();
+  return fullName || user.username;
+};
+
+const ReceiptRow: React.FC<{ label: string; value?: React.ReactNode }> = ({ label, value }) => {
+  if (value === undefined || value === null || value === '') return null;
+
+  return (
+    <div className="receipt-row">
+      <span className="receipt-label">{label}</span>
+      <span className="receipt-value">{value}</span>
+    </div>
+  );
+};
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const LoanReceipt: React.FC<LoanReceiptProps> = ({
+  type,
+  loan,
+  returnInfo,
+  librarianFallback
+}) => {
+  const isReturn = type === 'return';
+  const librarian = isReturn
+    ? getUserName(loan.returnedByUser) || librarianFallback
+    : getUserName(loan.loanedByUser) || librarianFallback;
+  const wasOverdue = returnInfo?.wasOverdue ?? loan.isOverdue;
+  const daysOverdue = returnInfo?.daysOverdue ?? loan.daysOverdue;
+
+  return (
+    <div className="loan-receipt">
+      <style>{RECEIPT_STYLES}</style>
+
+      <h1>Biblioteca Escolar</h1>
+      <h2>{isReturn ? 'Comprobante de Devolución' : 'Comprobante de Préstamo'}</h2>
+      <p className="receipt-subtitle">
+        Emitido el {DateUtils.formatDateTime(new Date())}
+      </p>
+
+      {/* Persona */}
+      <div className="receipt-section">
+        <ReceiptRow label="Persona" value={loan.person?.fullName || 'N/A'} />
+        <ReceiptRow label="Documento" value={loan.person?.documentNumber} />
+        <ReceiptRow label="Grado" value={loan.person?.grade} />
+      </div>
+
+      {/* Recurso */}
+      <div className="receipt-section">
+        <ReceiptRow label="Recurso" value={loan.resource?.title || 'N/A'} />
+        <ReceiptRow label="ISBN" value={loan.resource?.isbn} />
+        <ReceiptRow label="Cantidad" value={loan.quantity} />
+      </div>
+
+      {/* Fechas */}
+      <div className="receipt-section">
+        <ReceiptRow label="Fecha de préstamo" value={DateUtils.formatDate(loan.loanDate)} />
+        <ReceiptRow label="Fecha de vencimiento" value={DateUtils.formatDate(loan.dueDate)} />
+        {isReturn && (
+          <ReceiptRow
+            label="Fecha de devolución"
+            value={DateUtils.formatDate(loan.returnedDate || new Date())}
+          />
+        )}
+        <ReceiptRow label={isReturn ? 'Recibido por' : 'Atendido por'} value={librarian} />
+      </div>
+
+      {isReturn && (
+        <div className="receipt-alert">
+          {wasOverdue
+            ? `Devuelto con ${daysOverdue || 0} día${daysOverdue === 1 ? '' : 's'} de retraso`
+            : 'Devuelto a tiempo'}
+          {wasOverdue && returnInfo?.fineAmount
+            ? ` · Multa: ${NumberUtils.formatCurrency(returnInfo.fineAmount)}`
+            : ''}
+          {returnInfo?.penalty?.type === 'suspension' && returnInfo.penalty.suspensionDays
+            ? ` · Suspensión: ${returnInfo.penalty.suspensionDays} días sin préstamos`
+            : ''}
+        </div>
+      )}
+
+      {loan.observations && !isReturn && (
+        <div className="receipt-section">
+          <ReceiptRow label="Observaciones" value={loan.observations} />
+        </div>
+      )}
+
+      {!isReturn && (
+        <div className="receipt-signature">Firma de quien recibe</div>
+      )}
+
+      <p className="receipt-footer">
+        {isReturn
+          ? 'Gracias por devolver el material.'
+          : 'Por favor devuelve el material antes de la fecha de vencimiento.'}
+      </p>
+    </div>
+  );
+};
+
+// ===== IMPRESIÓN =====
+
+/**
+ * Imprimir un comprobante sin incluir el resto de la página
+ */
+export const printLoanReceipt = (props: LoanReceiptProps): void => {
+  PrintUtils.printElement(<LoanReceipt {...props} />, 'Comprobante');
+};
+
+export default LoanReceipt;
@@ -0,0 +1,77 @@
+// src/components/loans/LoanReceiptModal.tsx
+// ================================================================
+// VISTA PREVIA E IMPRESIÓN DE COMPROBANTES
+// ================================================================
+
+import React from 'react';
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  Button,
+  HStack,
+  Box,
+  Text
+} from '@chakra-ui/react';
+import { FiPrinter } from 'react-icons/fi';
+
+import LoanReceipt, { printLoanReceipt, type LoanReceiptProps } from './LoanReceipt';
+
+// ===== INTERFACES =====
+
+interface LoanReceiptModalProps extends LoanReceiptProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const LoanReceiptModal: React.FC<LoanReceiptModalProps> = ({
+  isOpen,
+  onClose,
+  ...receiptProps
+}) => {
+  const handlePrint = () => {
+    printLoanReceipt(receiptProps);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            <FiPrinter />
+            <Text>
+              {receiptProps.type === 'return' ? 'Comprobante de Devolución' : 'Comprobante de Préstamo'}
+            </Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <Box p={4} border="1px" borderColor="gray.200" rounded="md" bg="white">
+            <LoanReceipt {...receiptProps} />
+          </Box>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose}>
+              Cerrar
+            </Button>
+            <Button colorScheme="blue" leftIcon={<FiPrinter />} onClick={handlePrint}>
+              Imprimir
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default LoanReceiptModal;
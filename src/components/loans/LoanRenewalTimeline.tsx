@@ -0,0 +1,138 @@
+// src/components/loans/LoanRenewalTimeline.tsx
+// ================================================================
+// LÍNEA DE TIEMPO DE RENOVACIONES DE UN PRÉSTAMO
+// ================================================================
+
+import React from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Skeleton,
+  Alert,
+  AlertIcon,
+  Circle
+} from '@chakra-ui/react';
+import { FiCalendar, FiRefreshCw, FiArrowRight } from 'react-icons/fi';
+
+import type { LoanRenewal, LoanWithDetails } from '@/types/loan.types';
+import { useRenewalHistory } from '@/hooks/useLoans';
+import { DateUtils } from '@/utils';
+
+// ===== INTERFACES =====
+
+interface LoanRenewalTimelineProps {
+  loan: LoanWithDetails;
+  maxRenewals?: number;
+}
+
+// ===== UTILIDADES =====
+
+const getRenewedByLabel = (renewal: LoanRenewal) => {
+  const user = renewal.renewedByUser;
+  if (!user) return null;
+
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.email || null;
+};
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const LoanRenewalTimeline: React.FC<LoanRenewalTimelineProps> = ({ loan, maxRenewals }) => {
+  const { renewals: history, loading, error } = useRenewalHistory(loan._id);
+
+  // Si el servidor no expone el historial, se usa el que venga con el préstamo
+  const renewals = history.length > 0 ? history : loan.renewals || [];
+  const initialDueDate = renewals[0]?.previousDueDate || loan.dueDate;
+
+  if (loading) {
+    return (
+      <VStack align="stretch" spacing={3}>
+        <Skeleton height="40px" borderRadius="md" />
+        <Skeleton height="40px" borderRadius="md" />
+      </VStack>
+    );
+  }
+
+  return (
+    <VStack align="stretch" spacing={3}>
+      <HStack justify="space-between">
+        <Text fontSize="sm" fontWeight="medium" color="gray.700">
+          Historial de renovaciones
+        </Text>
+        {maxRenewals !== undefined && (
+          <Badge colorScheme={renewals.length >= maxRenewals ? 'orange' : 'blue'} variant="subtle">
+            {renewals.length} de {maxRenewals} usadas
+          </Badge>
+        )}
+      </HStack>
+
+      {error && renewals.length === 0 && (
+        <Alert status="warning" borderRadius="md" fontSize="sm">
+          <AlertIcon />
+          {error}
+        </Alert>
+      )}
+
+      <Box position="relative" pl={6}>
+        {/* Línea vertical */}
+        <Box position="absolute" left="11px" top={2} bottom={2} w="2px" bg="gray.200" />
+
+        <VStack align="stretch" spacing={4}>
+          {/* Préstamo original */}
+          <HStack align="start" spacing={3} position="relative">
+            <Circle size="24px" bg="blue.500" color="white" position="absolute" left="-24px">
+              <FiCalendar size={12} />
+            </Circle>
+            <VStack align="start" spacing={0} pl={2}>
+              <Text fontSize="sm" fontWeight="medium">
+                Préstamo registrado
+              </Text>
+              <Text fontSize="xs" color="gray.600">
+                {DateUtils.formatDate(loan.loanDate)} · vencimiento inicial {DateUtils.formatDate(initialDueDate)}
+              </Text>
+            </VStack>
+          </HStack>
+
+          {renewals.map((renewal, index) => {
+            const renewedBy = getRenewedByLabel(renewal);
+
+            return (
+              <HStack key={renewal._id || index} align="start" spacing={3} position="relative">
+                <Circle size="24px" bg="green.500" color="white" position="absolute" left="-24px">
+                  <FiRefreshCw size={12} />
+                </Circle>
+                <VStack align="start" spacing={0} pl={2}>
+                  <Text fontSize="sm" fontWeight="medium">
+                    Renovación {index + 1}
+                  </Text>
+                  <Text fontSize="xs" color="gray.600">
+                    {DateUtils.formatDateTime(renewal.renewedAt)}
+                    {renewedBy && ` · por ${renewedBy}`}
+                  </Text>
+                  <HStack spacing={1} fontSize="xs" color="gray.600">
+                    <Text>{DateUtils.formatDate(renewal.previousDueDate)}</Text>
+                    <FiArrowRight size={10} />
+                    <Text fontWeight="medium" color="gray.800">
+                      {DateUtils.formatDate(renewal.newDueDate)}
+                    </Text>
+                  </HStack>
+                </VStack>
+              </HStack>
+            );
+          })}
+        </VStack>
+      </Box>
+
+      {renewals.length === 0 && !error && (
+        <Text fontSize="xs" color="gray.500">
+          Este préstamo no ha sido renovado.
+        </Text>
+      )}
+    </VStack>
+  );
+};
+
+export default LoanRenewalTimeline;
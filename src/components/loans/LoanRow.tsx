@@ -27,6 +27,7 @@ import {
   AlertDialogHeader,
   AlertDialogBody,
   AlertDialogFooter,
+  Textarea,
   useDisclosure
 } from '@chakra-ui/react';
 
@@ -43,7 +44,9 @@ import {
   FiRefreshCw,
   FiMoreHorizontal,
   FiCheck,
-  FiX
+  FiX,
+  FiPrinter,
+  FiSlash
 } from 'react-icons/fi';
 
 import { format } from 'date-fns';
@@ -52,7 +55,10 @@ import { es } from 'date-fns/locale';
 // Importar tipos y hooks
 import type { LoanWithDetails } from '@/types/loan.types';
 import { useReturn } from '@/hooks/useLoans';
+import { usePermissions } from '@/hooks/useAuth';
 import { LoanService } from '@/services/loan.service';
+import { DateUtils } from '@/utils';
+import LoanReceiptModal from './LoanReceiptModal';
 
 // ===== INTERFACES =====
 
@@ -73,12 +79,17 @@ const LoanRow: React.FC<LoanRowProps> = ({
 }) => {
   const toast = useToast();
   const { isOpen, onOpen, onClose } = useDisclosure();
+  const { isOpen: isReceiptOpen, onOpen: onReceiptOpen, onClose: onReceiptClose } = useDisclosure();
+  const { isOpen: isLostOpen, onOpen: onLostOpen, onClose: onLostClose } = useDisclosure();
   const [processing, setProcessing] = useState(false);
   const [renewLoading, setRenewLoading] = useState(false);
+  const [lostObservations, setLostObservations] = useState('');
   const cancelRef = React.useRef<HTMLButtonElement>(null);
+  const lostCancelRef = React.useRef<HTMLButtonElement>(null);
 
   // Hooks
-  const { returnLoan } = useReturn();
+  const { returnLoan, markAsLost } = useReturn();
+  const { can } = usePermissions();
 
   // Color values
   const bgColor = useColorModeValue('white', 'gray.800');
@@ -198,11 +209,13 @@ const LoanRow: React.FC<LoanRowProps> = ({
   const handleRenewLoan = async () => {
     setRenewLoading(true);
     try {
-      await LoanService.renewLoan(loan._id);
+      const result = await LoanService.renewLoan(loan._id);
       
       toast({
         title: 'Éxito',
-        description: 'Préstamo renovado por 15 días más',
+        description: result.loan?.dueDate
+          ? `Préstamo renovado hasta el ${DateUtils.formatDate(result.loan.dueDate)}`
+          : 'Préstamo renovado correctamente',
         status: 'success',
         duration: 3000,
         isClosable: true
@@ -222,6 +235,35 @@ const LoanRow: React.FC<LoanRowProps> = ({
     }
   };
 
+  const handleMarkAsLost = async () => {
+    setProcessing(true);
+    try {
+      await markAsLost(loan._id, { observations: lostObservations.trim() });
+
+      toast({
+        title: 'Préstamo actualizado',
+        description: 'El recurso se marcó como perdido',
+        status: 'success',
+        duration: 3000,
+        isClosable: true
+      });
+
+      onUpdate?.();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Error al marcar como perdido',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setProcessing(false);
+      setLostObservations('');
+      onLostClose();
+    }
+  };
+
   const handleViewDetails = () => {
     onViewDetails?.(loan);
   };
@@ -234,8 +276,13 @@ const LoanRow: React.FC<LoanRowProps> = ({
 
   const statusInfo = getStatusInfo(loan);
   const StatusIcon = statusInfo.icon;
-  const canReturn = loan.status?.name === 'active' || loan.isOverdue;
-  const canRenew = loan.status?.name === 'active' && !loan.isOverdue;
+  const isOpenLoan = loan.status?.name === 'active' || loan.isOverdue;
+  const canReturn = isOpenLoan && can('loans.return');
+  const canRenew = loan.status?.name === 'active' && !loan.isOverdue && can('loans.renew');
+  const canMarkLost = isOpenLoan && can('loans.markLost');
+  const isReturned = loan.status?.name === 'returned' || !!loan.returnedDate;
+  const returnedLate = !!loan.returnedDate && new Date(loan.returnedDate) > new Date(loan.dueDate);
+  const renewCount = LoanService.getRenewCount(loan);
 
   // ===== RENDER =====
 
@@ -270,6 +317,11 @@ const LoanRow: React.FC<LoanRowProps> = ({
                 {loan.resource.author}
               </Text>
             )}
+            {loan.copy && (
+              <Text fontSize="xs" color="gray.500">
+                Ejemplar {loan.copy.copyNumber}
+              </Text>
+            )}
           </VStack>
         </Td>
 
@@ -283,18 +335,25 @@ const LoanRow: React.FC<LoanRowProps> = ({
 
         {/* Fecha de Vencimiento */}
         <Td>
-          <HStack spacing={2}>
-            <FiClock 
-              size={14} 
-              color={loan.isOverdue ? "red" : "gray"} 
-            />
-            <Text 
-              fontSize="sm"
-              color={loan.isOverdue ? "red.500" : "gray.600"}
-            >
-              {formatDate(loan.dueDate)}
-            </Text>
-          </HStack>
+          <VStack align="start" spacing={1}>
+            <HStack spacing={2}>
+              <FiClock 
+                size={14} 
+                color={loan.isOverdue ? "red" : "gray"} 
+              />
+              <Text 
+                fontSize="sm"
+                color={loan.isOverdue ? "red.500" : "gray.600"}
+              >
+                {formatDate(loan.dueDate)}
+              </Text>
+            </HStack>
+            {renewCount > 0 && (
+              <Text fontSize="xs" color="gray.500">
+                Renovado {renewCount} {renewCount === 1 ? 'vez' : 'veces'}
+              </Text>
+            )}
+          </VStack>
         </Td>
 
         {/* Estado */}
@@ -372,6 +431,20 @@ const LoanRow: React.FC<LoanRowProps> = ({
                     {renewLoading ? 'Renovando...' : 'Renovar Préstamo'}
                   </MenuItem>
                 )}
+
+                {canMarkLost && (
+                  <MenuItem
+                    icon={<FiSlash />}
+                    onClick={onLostOpen}
+                    color="red.600"
+                  >
+                    Marcar como Perdido
+                  </MenuItem>
+                )}
+                
+                <MenuItem icon={<FiPrinter />} onClick={onReceiptOpen}>
+                  {isReturned ? 'Reimprimir Comprobante de Devolución' : 'Reimprimir Comprobante'}
+                </MenuItem>
                 
                 <MenuItem icon={<FiEye />} onClick={handleViewDetails}>
                   Ver Detalles Completos
@@ -435,6 +508,76 @@ const LoanRow: React.FC<LoanRowProps> = ({
           </AlertDialogContent>
         </AlertDialogOverlay>
       </AlertDialog>
+
+      {/* Diálogo de Confirmación de Pérdida */}
+      <AlertDialog
+        isOpen={isLostOpen}
+        leastDestructiveRef={lostCancelRef}
+        onClose={onLostClose}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              Marcar como Perdido
+            </AlertDialogHeader>
+
+            <AlertDialogBody>
+              <VStack align="start" spacing={3}>
+                <Text>
+                  El préstamo se cerrará y el recurso dejará de estar disponible.
+                </Text>
+
+                <Box p={3} bg="red.50" rounded="md" w="full">
+                  <Text fontSize="sm" fontWeight="medium">
+                    {loan.person?.fullName}
+                  </Text>
+                  <Text fontSize="sm" color="gray.600">
+                    {loan.resource?.title}
+                  </Text>
+                </Box>
+
+                <Textarea
+                  value={lostObservations}
+                  onChange={(e) => setLostObservations(e.target.value)}
+                  placeholder="Observaciones (obligatorio)"
+                  rows={3}
+                  maxLength={500}
+                />
+              </VStack>
+            </AlertDialogBody>
+
+            <AlertDialogFooter>
+              <Button ref={lostCancelRef} onClick={onLostClose}>
+                Cancelar
+              </Button>
+              <Button
+                colorScheme="red"
+                onClick={handleMarkAsLost}
+                ml={3}
+                isLoading={processing}
+                isDisabled={!lostObservations.trim()}
+                leftIcon={<FiSlash />}
+              >
+                Marcar como Perdido
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+
+      {/* Comprobante para reimprimir */}
+      <LoanReceiptModal
+        isOpen={isReceiptOpen}
+        onClose={onReceiptClose}
+        type={isReturned ? 'return' : 'loan'}
+        loan={loan}
+        returnInfo={isReturned ? {
+          wasOverdue: returnedLate,
+          daysOverdue: returnedLate
+            ? loan.daysOverdue || DateUtils.daysBetween(loan.dueDate, loan.returnedDate!)
+            : 0
+        } : undefined}
+      />
     </>
   );
 };
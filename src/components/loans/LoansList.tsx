@@ -30,7 +30,8 @@ import {
   useColorModeValue,
   useDisclosure,
   Flex,
-  Spacer
+  Spacer,
+  Tooltip
 } from '@chakra-ui/react';
 
 // FIX: Usar react-icons/fi en lugar de lucide-react
@@ -47,8 +48,11 @@ import {
 
 // Importar hooks y componentes
 import { useLoans } from '@/hooks/useLoans';
+import { usePermissions } from '@/hooks/useAuth';
 import LoanRow from './LoanRow';
 import ReturnModal from './ReturnModal';
+import LoanDetailsModal from './LoanDetailsModal';
+import BulkRenewModal from './BulkRenewModal';
 import type { LoanWithDetails, LoanSearchFilters } from '@/types/loan.types';
 
 // ===== INTERFACES =====
@@ -63,30 +67,6 @@ interface LocalFiltersState {
   resourceType: string;
 }
 
-interface LoanDetailsModalProps {
-  loan: LoanWithDetails | null;
-  isOpen: boolean;
-  onClose: () => void;
-}
-
-// ===== COMPONENTE DE MODAL DE DETALLES =====
-
-const LoanDetailsModal: React.FC<LoanDetailsModalProps> = ({ loan, isOpen, onClose }) => {
-  // Este componente se puede expandir para mostrar todos los detalles del préstamo
-  // Por ahora, redirigiremos al componente de vista detallada
-  
-  if (!loan) return null;
-
-  return (
-    <Box>
-      {/* Aquí iría el modal de detalles completos */}
-      {/* Por simplicidad, solo cerramos el modal por ahora */}
-      {/* Aquí iría el modal de detalles completos */}
-      {/* Por simplicidad, no se muestra nada por ahora */}
-    </Box>
-  );
-};
-
 // ===== COMPONENTE PRINCIPAL =====
 
 const LoansList: React.FC = () => {
@@ -103,6 +83,8 @@ const LoansList: React.FC = () => {
     resourceType: ''
   });
 
+  const { can } = usePermissions();
+
   // Hooks de Chakra UI
   const { isOpen: showFilters, onToggle: toggleFilters } = useDisclosure();
   const { 
@@ -115,6 +97,11 @@ const LoansList: React.FC = () => {
     onOpen: openDetailsModal, 
     onClose: closeDetailsModal 
   } = useDisclosure();
+  const {
+    isOpen: showBulkRenewModal,
+    onOpen: openBulkRenewModal,
+    onClose: closeBulkRenewModal
+  } = useDisclosure();
 
   // Hook personalizado para gestionar préstamos
   const {
@@ -218,6 +205,15 @@ const LoansList: React.FC = () => {
     typeof value === 'boolean' ? value : value !== ''
   );
 
+  // Persona de los préstamos seleccionados, solo si todos son de la misma
+  const selectedPerson = (() => {
+    const people = loans
+      .filter((loan: LoanWithDetails) => selectedLoans.includes(loan._id))
+      .map((loan: LoanWithDetails) => loan.person);
+    const ids = new Set(people.map(person => person?._id));
+    return ids.size === 1 && people[0] ? people[0] : null;
+  })();
+
   const summaryStats = {
     total: loans.length,
     active: loans.filter((loan: LoanWithDetails) => loan.status?.name === 'active').length,
@@ -320,6 +316,20 @@ const LoansList: React.FC = () => {
                 Actualizar
               </Button>
 
+              {selectedPerson && can('loans.renew') && (
+                <Tooltip label={`Renovar todos los préstamos elegibles de ${selectedPerson.fullName}`}>
+                  <Button
+                    leftIcon={<FiRefreshCw />}
+                    colorScheme="green"
+                    variant="outline"
+                    size="sm"
+                    onClick={openBulkRenewModal}
+                  >
+                    Renovar elegibles
+                  </Button>
+                </Tooltip>
+              )}
+
               {selectedLoans.length > 0 && (
                 <Button
                   leftIcon={<FiDownload />}
@@ -522,6 +532,19 @@ const LoansList: React.FC = () => {
         loan={selectedLoan}
         isOpen={showDetailsModal}
         onClose={closeDetailsModal}
+        onUpdate={refetch}
+      />
+
+      <BulkRenewModal
+        person={selectedPerson}
+        isOpen={showBulkRenewModal}
+        onClose={closeBulkRenewModal}
+        onComplete={(result) => {
+          if (result.renewed.length > 0) {
+            setSelectedLoans([]);
+            refetch();
+          }
+        }}
       />
     </VStack>
   );
@@ -0,0 +1,166 @@
+// src/components/loans/NoticeTemplateEditor.tsx
+// ================================================================
+// EDITOR DE PLANTILLAS DE AVISOS DE PRÉSTAMOS VENCIDOS
+// ================================================================
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Input,
+  Textarea,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  Tag,
+  Wrap,
+  WrapItem,
+  Tooltip
+} from '@chakra-ui/react';
+import { FiRotateCcw, FiSave } from 'react-icons/fi';
+
+import { useUpdateNoticeTemplate } from '@/hooks/useOverdueNotices';
+import {
+  OverdueNoticeService,
+  NOTICE_PLACEHOLDERS,
+  DEFAULT_NOTICE_TEMPLATES
+} from '@/services/overdueNotice.service';
+import type { NoticeTemplate } from '@/types/notice.types';
+
+// ===== INTERFACES =====
+
+interface NoticeTemplateEditorProps {
+  template: NoticeTemplate;
+}
+
+// Valores de ejemplo para la vista previa
+const SAMPLE_ITEMS = [
+  { titulo: 'Cien años de soledad', fecha_prestamo: '01/03/2025', fecha_vencimiento: '15/03/2025', dias_vencido: 12 },
+  { titulo: 'Atlas de Colombia', fecha_prestamo: '05/03/2025', fecha_vencimiento: '19/03/2025', dias_vencido: 8 },
+];
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const NoticeTemplateEditor: React.FC<NoticeTemplateEditorProps> = ({ template }) => {
+  const [title, setTitle] = useState(template.title);
+  const [body, setBody] = useState(template.body);
+  const [itemLine, setItemLine] = useState(template.itemLine);
+  const updateMutation = useUpdateNoticeTemplate();
+
+  useEffect(() => {
+    setTitle(template.title);
+    setBody(template.body);
+    setItemLine(template.itemLine);
+  }, [template]);
+
+  const isDirty = title !== template.title || body !== template.body || itemLine !== template.itemLine;
+
+  const preview = useMemo(() => {
+    const listado = SAMPLE_ITEMS
+      .map(item => OverdueNoticeService.renderTemplate(itemLine, item))
+      .join('\n');
+
+    return OverdueNoticeService.renderTemplate(body, {
+      nombre: template.format === 'teacher_letter' ? 'María Gómez' : 'Juan Pérez',
+      documento: '1020304050',
+      grado: template.format === 'teacher_letter' ? 'Docentes' : '5°A',
+      cantidad: SAMPLE_ITEMS.length,
+      listado,
+      fecha: new Date().toLocaleDateString('es-ES'),
+      ...SAMPLE_ITEMS[0]
+    });
+  }, [body, itemLine, template.format]);
+
+  const handleSave = async () => {
+    try {
+      await updateMutation.mutateAsync({
+        format: template.format,
+        data: { title: title.trim(), body, itemLine }
+      });
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleRestoreDefault = () => {
+    const defaults = DEFAULT_NOTICE_TEMPLATES[template.format];
+    setTitle(defaults.title);
+    setBody(defaults.body);
+    setItemLine(defaults.itemLine);
+  };
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <FormControl>
+        <FormLabel fontSize="sm">Título</FormLabel>
+        <Input value={title} onChange={(e) => setTitle(e.target.value)} size="sm" />
+      </FormControl>
+
+      <FormControl>
+        <FormLabel fontSize="sm">Texto del aviso</FormLabel>
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={8}
+          fontFamily="mono"
+          fontSize="sm"
+        />
+      </FormControl>
+
+      <FormControl>
+        <FormLabel fontSize="sm">Línea por préstamo</FormLabel>
+        <Input
+          value={itemLine}
+          onChange={(e) => setItemLine(e.target.value)}
+          size="sm"
+          fontFamily="mono"
+        />
+        <FormHelperText fontSize="xs">
+          Se repite por cada préstamo vencido y reemplaza a {'{listado}'} en el texto
+        </FormHelperText>
+      </FormControl>
+
+      <Box>
+        <Text fontSize="xs" color="gray.600" mb={2}>Marcadores disponibles</Text>
+        <Wrap spacing={2}>
+          {NOTICE_PLACEHOLDERS.map(placeholder => (
+            <WrapItem key={placeholder.key}>
+              <Tooltip label={placeholder.label}>
+                <Tag size="sm" colorScheme={placeholder.scope === 'item' ? 'purple' : 'blue'} fontFamily="mono">
+                  {`{${placeholder.key}}`}
+                </Tag>
+              </Tooltip>
+            </WrapItem>
+          ))}
+        </Wrap>
+      </Box>
+
+      <Box p={3} bg="gray.50" borderRadius="md" border="1px" borderColor="gray.200">
+        <Text fontSize="xs" color="gray.500" mb={2}>Vista previa con datos de ejemplo</Text>
+        <Text fontWeight="bold" fontSize="sm" mb={1}>{title}</Text>
+        <Text fontSize="sm" whiteSpace="pre-wrap">{preview}</Text>
+      </Box>
+
+      <HStack justify="space-between">
+        <Button size="sm" variant="ghost" leftIcon={<FiRotateCcw />} onClick={handleRestoreDefault}>
+          Restaurar texto por defecto
+        </Button>
+        <Button
+          size="sm"
+          colorScheme="blue"
+          leftIcon={<FiSave />}
+          onClick={handleSave}
+          isLoading={updateMutation.isPending}
+          isDisabled={!isDirty || !title.trim() || !body.trim()}
+        >
+          Guardar plantilla
+        </Button>
+      </HStack>
+    </VStack>
+  );
+};
+
+export default NoticeTemplateEditor;
@@ -30,6 +30,7 @@ import {
   StatNumber,
   StatHelpText,
   useToast,
+  useDisclosure,
   useColorModeValue
 } from '@chakra-ui/react';
 
@@ -50,6 +51,10 @@ import { es } from 'date-fns/locale';
 
 // Importar hooks y tipos
 import { useOverdue } from '@/hooks/useLoans';
+import { useNoticeLog } from '@/hooks/useOverdueNotices';
+import { OverdueNoticeService } from '@/services/overdueNotice.service';
+import { ReportService } from '@/services/report.service';
+import OverdueNoticesModal from './OverdueNoticesModal';
 import type { OverdueFilters, LoanWithDetails, OverdueStats } from '@/types/loan.types';
 
 // ===== INTERFACES =====
@@ -135,7 +140,9 @@ export const OverdueManagement: React.FC = () => {
   });
 
   const [selectedLoans, setSelectedLoans] = useState<string[]>([]);
-  const [processingReminders, setProcessingReminders] = useState(false);
+  const [noticeLoanIds, setNoticeLoanIds] = useState<string[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const { isOpen: isNoticesOpen, onOpen: onNoticesOpen, onClose: onNoticesClose } = useDisclosure();
 
   // Hooks
   const {
@@ -149,6 +156,10 @@ export const OverdueManagement: React.FC = () => {
     refetch
   } = useOverdue();
 
+  // Último aviso emitido de cada préstamo visible
+  const { data: noticeLog = [] } = useNoticeLog(overdueLoans.map((loan: LoanWithDetails) => loan._id));
+  const lastNoticeByLoan = OverdueNoticeService.getLastNoticeByLoan(noticeLog);
+
   // ===== EFECTOS =====
 
   useEffect(() => {
@@ -221,56 +232,56 @@ export const OverdueManagement: React.FC = () => {
     }
   };
 
-  const handleSendReminders = async () => {
-    if (selectedLoans.length === 0) {
-      toast({
-        title: 'Advertencia',
-        description: 'Selecciona al menos un préstamo para enviar recordatorios',
-        status: 'warning',
-        duration: 3000,
-        isClosable: true
-      });
-      return;
-    }
+  const handleOpenNotices = (loanIds: string[]) => {
+    setNoticeLoanIds(loanIds);
+    onNoticesOpen();
+  };
 
-    setProcessingReminders(true);
+  const handleExportReport = async () => {
+    setExporting(true);
     try {
-      // Aquí implementarías la llamada al servicio de recordatorios
-      // await LoanService.sendOverdueReminders(selectedLoans);
-      
-      toast({
-        title: 'Éxito',
-        description: `Recordatorios enviados para ${selectedLoans.length} préstamos`,
-        status: 'success',
-        duration: 3000,
-        isClosable: true
-      });
-      
-      setSelectedLoans([]);
+      const loans = await OverdueNoticeService.getAllOverdueLoans(OverdueNoticeService.withoutPagination(filters));
+      // El historial visible solo cubre la página actual; el reporte incluye todos los vencidos
+      const noticeLog = await OverdueNoticeService.getNoticeLog(loans.map((loan: LoanWithDetails) => loan._id));
+      const lastNoticeByExportedLoan = OverdueNoticeService.getLastNoticeByLoan(noticeLog);
+      const rows = loans.map((loan: LoanWithDetails) => ({
+        person: loan.person?.fullName || 'N/A',
+        documentNumber: loan.person?.documentNumber || '',
+        personType: loan.person?.personType?.name === 'teacher' ? 'Profesor' : 'Estudiante',
+        grade: loan.person?.grade || '',
+        resource: loan.resource?.title || 'N/A',
+        loanDate: formatDate(loan.loanDate),
+        dueDate: formatDate(loan.dueDate),
+        daysOverdue: loan.daysOverdue || 0,
+        lastNotice: lastNoticeByExportedLoan.get(loan._id)
+          ? formatDate(lastNoticeByExportedLoan.get(loan._id)!.issuedAt)
+          : ''
+      }));
+
+      ReportService.downloadCSV(`prestamos-vencidos-${new Date().toISOString().slice(0, 10)}`, rows, [
+        { key: 'person', label: 'Persona' },
+        { key: 'documentNumber', label: 'Documento' },
+        { key: 'personType', label: 'Tipo' },
+        { key: 'grade', label: 'Grado' },
+        { key: 'resource', label: 'Recurso' },
+        { key: 'loanDate', label: 'Fecha préstamo' },
+        { key: 'dueDate', label: 'Fecha vencimiento' },
+        { key: 'daysOverdue', label: 'Días vencido' },
+        { key: 'lastNotice', label: 'Último aviso' }
+      ]);
     } catch (error: any) {
       toast({
         title: 'Error',
-        description: error.message || 'Error al enviar recordatorios',
+        description: error.message || 'Error al exportar el reporte',
         status: 'error',
         duration: 5000,
         isClosable: true
       });
     } finally {
-      setProcessingReminders(false);
+      setExporting(false);
     }
   };
 
-  const handleExportReport = () => {
-    // Implementar exportación de reporte
-    toast({
-      title: 'Información',
-      description: 'Función de exportación en desarrollo',
-      status: 'info',
-      duration: 3000,
-      isClosable: true
-    });
-  };
-
   // ===== CÁLCULOS =====
 
   const summaryStats = {
@@ -420,17 +431,18 @@ export const OverdueManagement: React.FC = () => {
             leftIcon={<FiMail />}
             colorScheme="orange"
             size="sm"
-            onClick={handleSendReminders}
-            isLoading={processingReminders}
-            isDisabled={selectedLoans.length === 0}
+            onClick={() => handleOpenNotices(selectedLoans)}
+            isDisabled={overdueLoans.length === 0}
           >
-            Enviar Recordatorios
+            {selectedLoans.length > 0 ? `Generar Avisos (${selectedLoans.length})` : 'Generar Avisos'}
           </Button>
           <Button
             leftIcon={<FiDownload />}
             variant="outline"
             size="sm"
             onClick={handleExportReport}
+            isLoading={exporting}
+            isDisabled={overdueLoans.length === 0}
           >
             Exportar Reporte
           </Button>
@@ -473,6 +485,7 @@ export const OverdueManagement: React.FC = () => {
                 <Th>Fecha Préstamo</Th>
                 <Th>Fecha Vencimiento</Th>
                 <Th>Días Vencido</Th>
+                <Th>Último Aviso</Th>
                 <Th>Acciones</Th>
               </Tr>
             </Thead>
@@ -542,9 +555,21 @@ export const OverdueManagement: React.FC = () => {
                       {loan.daysOverdue || 0} días
                     </Badge>
                   </Td>
+                  <Td>
+                    {lastNoticeByLoan.get(loan._id) ? (
+                      <Text fontSize="sm">{formatDate(lastNoticeByLoan.get(loan._id)!.issuedAt)}</Text>
+                    ) : (
+                      <Text fontSize="sm" color="gray.400">Sin avisos</Text>
+                    )}
+                  </Td>
                   <Td>
                     <HStack spacing={2}>
-                      <Button size="xs" colorScheme="orange" variant="outline">
+                      <Button
+                        size="xs"
+                        colorScheme="orange"
+                        variant="outline"
+                        onClick={() => handleOpenNotices([loan._id])}
+                      >
                         Recordar
                       </Button>
                       <Button size="xs" colorScheme="blue" variant="outline">
@@ -559,6 +584,14 @@ export const OverdueManagement: React.FC = () => {
         )}
       </Box>
 
+      {/* Avisos */}
+      <OverdueNoticesModal
+        isOpen={isNoticesOpen}
+        onClose={onNoticesClose}
+        filters={filters}
+        loanIds={noticeLoanIds}
+      />
+
       {/* Paginación */}
       {pagination && pagination.totalPages > 1 && (
         <HStack justify="center" spacing={2}>
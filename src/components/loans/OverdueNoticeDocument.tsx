@@ -0,0 +1,160 @@
+// src/components/loans/OverdueNoticeDocument.tsx
+// ================================================================
+// AVISOS IMPRIMIBLES DE PRÉSTAMOS VENCIDOS (PAPELETAS Y CARTAS)
+// ================================================================
+
+import React from 'react';
+
+import { DateUtils, PrintUtils } from '@/utils';
+import { LoanService } from '@/services/loan.service';
+import type { OverdueNotice, OverdueNoticeBatch } from '@/types/notice.types';
+
+// ===== INTERFACES =====
+
+export interface OverdueNoticeDocumentProps {
+  batch: OverdueNoticeBatch;
+  includeStudents: boolean;
+  includeTeachers: boolean;
+}
+
+// ===== ESTILOS =====
+
+// Igual que los comprobantes: HTML plano con estilos propios para el iframe de impresión
+const NOTICE_STYLES = `
+  .overdue-notices {
+    font-family: Arial, Helvetica, sans-serif;
+    color: #1A202C;
+    font-size: 12px;
+    line-height: 1.5;
+  }
+  .overdue-notices .notice-page {
+    page-break-after: always;
+    break-after: page;
+    padding: 8px 0;
+  }
+  .overdue-notices .notice-page:last-child {
+    page-break-after: auto;
+    break-after: auto;
+  }
+  .overdue-notices h1 {
+    font-size: 16px;
+    margin: 0 0 4px;
+  }
+  .overdue-notices h2 {
+    font-size: 14px;
+    margin: 0 0 8px;
+  }
+  .overdue-notices .notice-meta {
+    color: #4A5568;
+    margin: 0 0 12px;
+  }
+  .overdue-notices table {
+    width: 100%;
+    border-collapse: collapse;
+    margin-bottom: 12px;
+  }
+  .overdue-notices th,
+  .overdue-notices td {
+    border: 1px solid #CBD5E0;
+    padding: 4px 6px;
+    text-align: left;
+    vertical-align: top;
+  }
+  .overdue-notices th {
+    background: #EDF2F7;
+  }
+  .overdue-notices .notice-slip {
+    border: 1px dashed #718096;
+    padding: 10px 12px;
+    margin-bottom: 12px;
+    page-break-inside: avoid;
+    break-inside: avoid;
+  }
+  .overdue-notices .notice-text {
+    white-space: pre-wrap;
+    margin: 0;
+  }
+  .overdue-notices .notice-letter .notice-text {
+    font-size: 13px;
+  }
+  @media print {
+    @page { margin: 15mm; }
+  }
+`;
+
+// ===== SUBCOMPONENTES =====
+
+const NoticeSlip: React.FC<{ notice: OverdueNotice }> = ({ notice }) => (
+  <div className="notice-slip">
+    <h2>{notice.title}</h2>
+    <p className="notice-text">{notice.text}</p>
+  </div>
+);
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const OverdueNoticeDocument: React.FC<OverdueNoticeDocumentProps> = ({
+  batch,
+  includeStudents,
+  includeTeachers
+}) => {
+  const issuedAt = DateUtils.formatDateTime(new Date());
+
+  return (
+    <div className="overdue-notices">
+      <style>{NOTICE_STYLES}</style>
+
+      {includeStudents && batch.studentGroups.map(group => (
+        <div key={group.grade} className="notice-page">
+          <h1>Préstamos vencidos · {group.grade}</h1>
+          <p className="notice-meta">
+            Para el director de grupo · {group.notices.length} estudiante{group.notices.length !== 1 ? 's' : ''} · Emitido el {issuedAt}
+          </p>
+
+          <table>
+            <thead>
+              <tr>
+                <th>Estudiante</th>
+                <th>Recurso</th>
+                <th>Vencimiento</th>
+                <th>Días</th>
+              </tr>
+            </thead>
+            <tbody>
+              {group.notices.flatMap(notice => notice.loans.map(loan => (
+                <tr key={loan._id}>
+                  <td>{notice.person.fullName}</td>
+                  <td>{loan.resource?.title || 'N/A'}</td>
+                  <td>{DateUtils.formatDate(loan.dueDate)}</td>
+                  <td>{loan.daysOverdue || LoanService.calculateDaysOverdue(loan.dueDate)}</td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+
+          {group.notices.map(notice => (
+            <NoticeSlip key={notice.person._id} notice={notice} />
+          ))}
+        </div>
+      ))}
+
+      {includeTeachers && batch.teacherLetters.map(notice => (
+        <div key={notice.person._id} className="notice-page notice-letter">
+          <h1>{notice.title}</h1>
+          <p className="notice-text">{notice.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// ===== IMPRESIÓN =====
+
+/**
+ * Imprimir los avisos; desde el diálogo del navegador también se pueden guardar como PDF
+ */
+export const printOverdueNotices = (props: OverdueNoticeDocumentProps, title = 'Avisos de préstamos vencidos'): void => {
+  PrintUtils.printElement(<OverdueNoticeDocument {...props} />, title);
+};
+
+export default OverdueNoticeDocument;
@@ -0,0 +1,377 @@
+// src/components/loans/OverdueNoticesModal.tsx
+// ================================================================
+// GENERACIÓN DE AVISOS DE PRÉSTAMOS VENCIDOS A PARTIR DE LOS FILTROS
+// ================================================================
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  Button,
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Alert,
+  AlertIcon,
+  Spinner,
+  Checkbox,
+  Tabs,
+  TabList,
+  TabPanels,
+  Tab,
+  TabPanel,
+  Accordion,
+  AccordionItem,
+  AccordionButton,
+  AccordionPanel,
+  AccordionIcon,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber
+} from '@chakra-ui/react';
+import { FiPrinter, FiDownload, FiFileText } from 'react-icons/fi';
+
+import { printOverdueNotices } from './OverdueNoticeDocument';
+import NoticeTemplateEditor from './NoticeTemplateEditor';
+import { useNoticeTemplates, useRecordNotices } from '@/hooks/useOverdueNotices';
+import { OverdueNoticeService } from '@/services/overdueNotice.service';
+import { ReportService } from '@/services/report.service';
+import type { LoanWithDetails, OverdueFilters } from '@/types/loan.types';
+import type { ReportColumn } from '@/types/report.types';
+import type { NoticeChannel, OverdueNotice, OverdueNoticeCSVRow } from '@/types/notice.types';
+
+// ===== INTERFACES =====
+
+interface OverdueNoticesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Filtros activos del listado de vencidos; se usan todas las páginas
+  filters: OverdueFilters;
+  // Si hay préstamos seleccionados, solo se generan avisos para ellos
+  loanIds?: string[];
+}
+
+const CSV_COLUMNS: ReportColumn<OverdueNoticeCSVRow>[] = [
+  { key: 'grade', label: 'Grado' },
+  { key: 'person', label: 'Persona' },
+  { key: 'documentNumber', label: 'Documento' },
+  { key: 'personType', label: 'Tipo' },
+  { key: 'resource', label: 'Recurso' },
+  { key: 'loanDate', label: 'Fecha préstamo' },
+  { key: 'dueDate', label: 'Fecha vencimiento' },
+  { key: 'daysOverdue', label: 'Días vencido' },
+  { key: 'noticeText', label: 'Texto del aviso' },
+];
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const OverdueNoticesModal: React.FC<OverdueNoticesModalProps> = ({ isOpen, onClose, filters, loanIds = [] }) => {
+  const [overdueLoans, setOverdueLoans] = useState<LoanWithDetails[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [includeStudents, setIncludeStudents] = useState(true);
+  const [includeTeachers, setIncludeTeachers] = useState(true);
+  // Canal usado en la última emisión, pendiente de que el usuario confirme la entrega
+  const [pendingChannel, setPendingChannel] = useState<NoticeChannel | null>(null);
+
+  const { data: templates, isLoading: loadingTemplates } = useNoticeTemplates();
+  const recordMutation = useRecordNotices();
+
+  const filtersKey = JSON.stringify(OverdueNoticeService.withoutPagination(filters));
+  const overdueFilters = useMemo(() => JSON.parse(filtersKey) as OverdueFilters, [filtersKey]);
+  const loanIdsKey = loanIds.join(',');
+
+  // Cargar todos los vencidos filtrados al abrir
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    setPendingChannel(null);
+    OverdueNoticeService.getAllOverdueLoans(overdueFilters)
+      .then(allLoans => {
+        if (!cancelled) setOverdueLoans(allLoans);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message || 'Error al cargar los préstamos vencidos');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, overdueFilters]);
+
+  const loans = useMemo(() => {
+    if (!loanIdsKey) return overdueLoans;
+    const selectedIds = new Set(loanIdsKey.split(','));
+    return overdueLoans.filter(loan => selectedIds.has(loan._id));
+  }, [overdueLoans, loanIdsKey]);
+
+  const batch = useMemo(
+    () => (templates ? OverdueNoticeService.buildNotices(loans, templates) : null),
+    [loans, templates]
+  );
+
+  const selectedNotices: OverdueNotice[] = useMemo(() => {
+    if (!batch) return [];
+    return [
+      ...(includeStudents ? batch.studentGroups.flatMap(group => group.notices) : []),
+      ...(includeTeachers ? batch.teacherLetters : []),
+    ];
+  }, [batch, includeStudents, includeTeachers]);
+
+  const studentCount = batch?.studentGroups.reduce((acc, group) => acc + group.notices.length, 0) || 0;
+  const teacherCount = batch?.teacherLetters.length || 0;
+
+  // ===== MANEJADORES =====
+
+  // Solo se registra la emisión cuando el usuario confirma que los avisos se entregaron:
+  // el navegador no informa si el diálogo de impresión se canceló
+  const handleConfirmIssued = async () => {
+    if (!pendingChannel || selectedNotices.length === 0) return;
+
+    try {
+      await recordMutation.mutateAsync({ notices: selectedNotices, channel: pendingChannel });
+      setPendingChannel(null);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handlePrint = () => {
+    if (!batch || selectedNotices.length === 0) return;
+
+    printOverdueNotices({ batch, includeStudents, includeTeachers });
+    setPendingChannel('print');
+  };
+
+  const handleExportCSV = () => {
+    if (selectedNotices.length === 0) return;
+
+    const date = new Date().toISOString().slice(0, 10);
+    ReportService.downloadCSV(
+      `avisos-vencidos-${date}`,
+      OverdueNoticeService.toCSVRows(selectedNotices),
+      CSV_COLUMNS
+    );
+    setPendingChannel('csv');
+  };
+
+  // ===== RENDER =====
+
+  const isBusy = loading || loadingTemplates;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="4xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            <FiFileText />
+            <Text>Avisos de Préstamos Vencidos</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          {pendingChannel && (
+            <Alert status="warning" borderRadius="md" mb={4}>
+              <AlertIcon />
+              <Box flex={1}>
+                <Text fontWeight="medium">¿Se entregaron los avisos?</Text>
+                <Text fontSize="sm">
+                  {pendingChannel === 'csv'
+                    ? 'Confirma cuando los avisos del CSV se hayan enviado para registrarlos en el historial de cada préstamo.'
+                    : 'Confirma cuando los avisos se hayan impreso para registrarlos en el historial de cada préstamo.'}
+                </Text>
+              </Box>
+              <HStack spacing={2} ml={3}>
+                <Button size="sm" variant="ghost" onClick={() => setPendingChannel(null)} isDisabled={recordMutation.isPending}>
+                  No registrar
+                </Button>
+                <Button
+                  size="sm"
+                  colorScheme="orange"
+                  onClick={handleConfirmIssued}
+                  isLoading={recordMutation.isPending}
+                >
+                  Registrar {selectedNotices.length} aviso{selectedNotices.length !== 1 ? 's' : ''}
+                </Button>
+              </HStack>
+            </Alert>
+          )}
+
+          <Tabs colorScheme="orange" isLazy>
+            <TabList>
+              <Tab>Avisos</Tab>
+              <Tab>Plantilla de estudiantes</Tab>
+              <Tab>Plantilla de docentes</Tab>
+            </TabList>
+
+            <TabPanels>
+              <TabPanel px={0}>
+                {isBusy ? (
+                  <HStack justify="center" p={8}>
+                    <Spinner />
+                    <Text>Preparando avisos...</Text>
+                  </HStack>
+                ) : error ? (
+                  <Alert status="error" borderRadius="md">
+                    <AlertIcon />
+                    {error}
+                  </Alert>
+                ) : !batch || batch.totalLoans === 0 ? (
+                  <Alert status="info" borderRadius="md">
+                    <AlertIcon />
+                    No hay préstamos vencidos con los filtros actuales
+                  </Alert>
+                ) : (
+                  <VStack align="stretch" spacing={4}>
+                    <SimpleGrid columns={{ base: 1, md: 3 }} spacing={3}>
+                      <Stat p={3} border="1px" borderColor="gray.200" rounded="md">
+                        <StatLabel>Préstamos</StatLabel>
+                        <StatNumber>{batch.totalLoans}</StatNumber>
+                      </Stat>
+                      <Stat p={3} border="1px" borderColor="gray.200" rounded="md">
+                        <StatLabel>Papeletas de estudiantes</StatLabel>
+                        <StatNumber>{studentCount}</StatNumber>
+                      </Stat>
+                      <Stat p={3} border="1px" borderColor="gray.200" rounded="md">
+                        <StatLabel>Cartas a docentes</StatLabel>
+                        <StatNumber>{teacherCount}</StatNumber>
+                      </Stat>
+                    </SimpleGrid>
+
+                    <HStack spacing={6}>
+                      <Checkbox
+                        isChecked={includeStudents}
+                        onChange={(e) => {
+                          setIncludeStudents(e.target.checked);
+                          setPendingChannel(null);
+                        }}
+                        isDisabled={studentCount === 0}
+                      >
+                        Papeletas por grado
+                      </Checkbox>
+                      <Checkbox
+                        isChecked={includeTeachers}
+                        onChange={(e) => {
+                          setIncludeTeachers(e.target.checked);
+                          setPendingChannel(null);
+                        }}
+                        isDisabled={teacherCount === 0}
+                      >
+                        Cartas a docentes
+                      </Checkbox>
+                    </HStack>
+
+                    <Accordion allowMultiple>
+                      {includeStudents && batch.studentGroups.map(group => (
+                        <AccordionItem key={group.grade}>
+                          <AccordionButton>
+                            <HStack flex={1} spacing={3}>
+                              <Text fontWeight="medium">{group.grade}</Text>
+                              <Badge colorScheme="blue">
+                                {group.notices.length} estudiante{group.notices.length !== 1 ? 's' : ''}
+                              </Badge>
+                            </HStack>
+                            <AccordionIcon />
+                          </AccordionButton>
+                          <AccordionPanel>
+                            <VStack align="stretch" spacing={3}>
+                              {group.notices.map(notice => (
+                                <Box key={notice.person._id} p={3} bg="gray.50" rounded="md">
+                                  <Text fontWeight="bold" fontSize="sm" mb={1}>{notice.title}</Text>
+                                  <Text fontSize="sm" whiteSpace="pre-wrap">{notice.text}</Text>
+                                </Box>
+                              ))}
+                            </VStack>
+                          </AccordionPanel>
+                        </AccordionItem>
+                      ))}
+
+                      {includeTeachers && batch.teacherLetters.length > 0 && (
+                        <AccordionItem>
+                          <AccordionButton>
+                            <HStack flex={1} spacing={3}>
+                              <Text fontWeight="medium">Docentes</Text>
+                              <Badge colorScheme="purple">
+                                {teacherCount} carta{teacherCount !== 1 ? 's' : ''}
+                              </Badge>
+                            </HStack>
+                            <AccordionIcon />
+                          </AccordionButton>
+                          <AccordionPanel>
+                            <VStack align="stretch" spacing={3}>
+                              {batch.teacherLetters.map(notice => (
+                                <Box key={notice.person._id} p={3} bg="gray.50" rounded="md">
+                                  <Text fontWeight="bold" fontSize="sm" mb={1}>{notice.title}</Text>
+                                  <Text fontSize="sm" whiteSpace="pre-wrap">{notice.text}</Text>
+                                </Box>
+                              ))}
+                            </VStack>
+                          </AccordionPanel>
+                        </AccordionItem>
+                      )}
+                    </Accordion>
+
+                    <Text fontSize="xs" color="gray.500">
+                      Para guardar en PDF elige «Guardar como PDF» como impresora en el diálogo de impresión.
+                      Al confirmar la entrega, cada aviso queda registrado en el historial del préstamo.
+                    </Text>
+                  </VStack>
+                )}
+              </TabPanel>
+
+              <TabPanel px={0}>
+                {templates && <NoticeTemplateEditor template={templates.student_slip} />}
+              </TabPanel>
+              <TabPanel px={0}>
+                {templates && <NoticeTemplateEditor template={templates.teacher_letter} />}
+              </TabPanel>
+            </TabPanels>
+          </Tabs>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose}>
+              Cerrar
+            </Button>
+            <Button
+              leftIcon={<FiDownload />}
+              variant="outline"
+              onClick={handleExportCSV}
+              isDisabled={selectedNotices.length === 0 || recordMutation.isPending}
+            >
+              Exportar CSV
+            </Button>
+            <Button
+              leftIcon={<FiPrinter />}
+              colorScheme="orange"
+              onClick={handlePrint}
+              isDisabled={selectedNotices.length === 0 || recordMutation.isPending}
+            >
+              Imprimir / PDF
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default OverdueNoticesModal;
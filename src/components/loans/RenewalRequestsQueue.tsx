@@ -0,0 +1,257 @@
+// src/components/loans/RenewalRequestsQueue.tsx
+// ================================================================
+// COLA DE SOLICITUDES DE RENOVACIÓN HECHAS DESDE EL PORTAL DE LECTORES
+// ================================================================
+
+import React, { useState } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Button,
+  Select,
+  Alert,
+  AlertIcon,
+  Skeleton,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  FormControl,
+  FormLabel,
+  Textarea
+} from '@chakra-ui/react';
+import { FiCheck, FiX } from 'react-icons/fi';
+
+import {
+  useRenewalRequests,
+  useApproveRenewalRequest,
+  useRejectRenewalRequest
+} from '@/hooks/useRenewalRequests';
+import { RENEWAL_REQUEST_STATUS_CONFIG, getDueStatus } from '@/components/portal/portal.config';
+import { LoanService } from '@/services/loan.service';
+import { usePermissions } from '@/hooks/useAuth';
+import type { RenewalRequestStatus, RenewalRequestWithDetails } from '@/types/portal.types';
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const RenewalRequestsQueue: React.FC = () => {
+  const [status, setStatus] = useState<RenewalRequestStatus>('pending');
+  const [rejecting, setRejecting] = useState<RenewalRequestWithDetails | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const { data, isLoading, isError } = useRenewalRequests({ status, limit: 100 });
+  const approveMutation = useApproveRenewalRequest();
+  const rejectMutation = useRejectRenewalRequest();
+  const { can } = usePermissions();
+
+  const requests = data?.data || [];
+
+  // ===== MANEJADORES =====
+
+  const handleApprove = async (request: RenewalRequestWithDetails) => {
+    try {
+      await approveMutation.mutateAsync({ request });
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleOpenReject = (request: RenewalRequestWithDetails) => {
+    setRejectReason('');
+    setRejecting(request);
+  };
+
+  const handleConfirmReject = async () => {
+    if (!rejecting || !rejectReason.trim()) return;
+
+    try {
+      await rejectMutation.mutateAsync({ id: rejecting._id, reviewNotes: rejectReason.trim() });
+      setRejecting(null);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  // ===== RENDER =====
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <HStack justify="space-between" flexWrap="wrap" gap={3}>
+        <Box>
+          <Text fontWeight="semibold" color="gray.800">Solicitudes de renovación</Text>
+          <Text fontSize="sm" color="gray.600">
+            Pedidas por los lectores desde el portal. Al aprobar se renueva el préstamo con la política vigente.
+          </Text>
+        </Box>
+        <Select
+          size="sm"
+          maxW="220px"
+          value={status}
+          onChange={(e) => setStatus(e.target.value as RenewalRequestStatus)}
+        >
+          {(Object.keys(RENEWAL_REQUEST_STATUS_CONFIG) as RenewalRequestStatus[]).map(key => (
+            <option key={key} value={key}>
+              {key === 'pending' ? 'Pendientes' : RENEWAL_REQUEST_STATUS_CONFIG[key].label}
+            </option>
+          ))}
+        </Select>
+      </HStack>
+
+      {isLoading ? (
+        <VStack align="stretch" spacing={2}>
+          <Skeleton height="48px" />
+          <Skeleton height="48px" />
+          <Skeleton height="48px" />
+        </VStack>
+      ) : isError ? (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          No se pudieron cargar las solicitudes de renovación
+        </Alert>
+      ) : requests.length === 0 ? (
+        <Alert status="info" borderRadius="md">
+          <AlertIcon />
+          {status === 'pending' ? 'No hay solicitudes pendientes' : 'No hay solicitudes en este estado'}
+        </Alert>
+      ) : (
+        <Box overflowX="auto">
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Persona</Th>
+                <Th>Recurso</Th>
+                <Th>Vencimiento</Th>
+                <Th>Renovaciones</Th>
+                <Th>Solicitada</Th>
+                <Th>{status === 'pending' ? 'Acciones' : 'Revisión'}</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {requests.map(request => {
+                const loan = request.loan;
+                const dueStatus = loan ? getDueStatus(loan) : null;
+
+                return (
+                  <Tr key={request._id}>
+                    <Td>
+                      <Text fontWeight="medium">{request.person?.fullName || loan?.person?.fullName}</Text>
+                      {request.person?.grade && (
+                        <Text fontSize="xs" color="gray.500">{request.person.grade}</Text>
+                      )}
+                    </Td>
+                    <Td maxW="260px">
+                      <Text noOfLines={1}>{loan?.resource?.title || '—'}</Text>
+                      {request.notes && (
+                        <Text fontSize="xs" color="gray.500" noOfLines={2}>“{request.notes}”</Text>
+                      )}
+                    </Td>
+                    <Td>
+                      {loan && (
+                        <VStack align="start" spacing={1}>
+                          <Text fontSize="sm">{LoanService.formatDisplayDate(loan.dueDate)}</Text>
+                          {dueStatus && <Badge colorScheme={dueStatus.color}>{dueStatus.label}</Badge>}
+                        </VStack>
+                      )}
+                    </Td>
+                    <Td>{loan ? LoanService.getRenewCount(loan) : '—'}</Td>
+                    <Td>
+                      <Text fontSize="sm">{LoanService.formatDisplayDate(request.createdAt)}</Text>
+                    </Td>
+                    <Td>
+                      {request.status === 'pending' && can('loans.renew') ? (
+                        <HStack spacing={2}>
+                          <Button
+                            size="xs"
+                            colorScheme="green"
+                            leftIcon={<FiCheck />}
+                            onClick={() => handleApprove(request)}
+                            isLoading={approveMutation.isPending && approveMutation.variables?.request._id === request._id}
+                          >
+                            Aprobar
+                          </Button>
+                          <Button
+                            size="xs"
+                            variant="outline"
+                            colorScheme="red"
+                            leftIcon={<FiX />}
+                            onClick={() => handleOpenReject(request)}
+                          >
+                            Rechazar
+                          </Button>
+                        </HStack>
+                      ) : (
+                        <VStack align="start" spacing={1}>
+                          <Badge colorScheme={RENEWAL_REQUEST_STATUS_CONFIG[request.status].color}>
+                            {RENEWAL_REQUEST_STATUS_CONFIG[request.status].label}
+                          </Badge>
+                          {request.reviewNotes && (
+                            <Text fontSize="xs" color="gray.500" noOfLines={2}>{request.reviewNotes}</Text>
+                          )}
+                        </VStack>
+                      )}
+                    </Td>
+                  </Tr>
+                );
+              })}
+            </Tbody>
+          </Table>
+        </Box>
+      )}
+
+      {/* Modal de rechazo */}
+      <Modal isOpen={!!rejecting} onClose={() => setRejecting(null)} size="md">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Rechazar solicitud</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <VStack align="stretch" spacing={3}>
+              <Text fontSize="sm">
+                {rejecting?.person?.fullName} pidió renovar{' '}
+                <Text as="span" fontWeight="bold">{rejecting?.loan?.resource?.title}</Text>.
+              </Text>
+              <FormControl isRequired>
+                <FormLabel fontSize="sm">Motivo</FormLabel>
+                <Textarea
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="La persona verá este motivo en el portal"
+                  rows={3}
+                />
+              </FormControl>
+            </VStack>
+          </ModalBody>
+          <ModalFooter>
+            <HStack spacing={3}>
+              <Button variant="ghost" onClick={() => setRejecting(null)} isDisabled={rejectMutation.isPending}>
+                Cancelar
+              </Button>
+              <Button
+                colorScheme="red"
+                onClick={handleConfirmReject}
+                isLoading={rejectMutation.isPending}
+                isDisabled={!rejectReason.trim()}
+              >
+                Rechazar
+              </Button>
+            </HStack>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </VStack>
+  );
+};
+
+export default RenewalRequestsQueue;
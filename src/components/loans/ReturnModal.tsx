@@ -27,6 +27,7 @@ import {
   Alert,
   AlertIcon,
   Divider,
+  Switch,
   useToast,
   useColorModeValue
 } from '@chakra-ui/react';
@@ -54,7 +55,9 @@ import { es } from 'date-fns/locale';
 
 // Importar tipos y hooks
 import type { LoanWithDetails, ReturnLoanRequest } from '@/types/loan.types';
-import { useReturn } from '@/hooks/useLoans';
+import { useReturn, useReceiptPreferences } from '@/hooks/useLoans';
+import { useAuth, usePermissions } from '@/hooks/useAuth';
+import { printLoanReceipt } from './LoanReceipt';
 
 // ===== ESQUEMA DE VALIDACIÓN =====
 
@@ -93,6 +96,9 @@ const ReturnModal: React.FC<ReturnModalProps> = ({
 
   // Hooks
   const { returnLoan } = useReturn();
+  const { autoPrint, setAutoPrint } = useReceiptPreferences();
+  const { user } = useAuth();
+  const { can } = usePermissions();
 
   // Valores de color
   const bgColor = useColorModeValue('white', 'gray.800');
@@ -198,7 +204,23 @@ const ReturnModal: React.FC<ReturnModalProps> = ({
         returnObservations: data.returnObservations || undefined
       };
 
-      await returnLoan(request);
+      const response = await returnLoan(request);
+
+      if (autoPrint) {
+        printLoanReceipt({
+          type: 'return',
+          loan: {
+            ...loan,
+            ...response.loan,
+            // Conservar los datos poblados del préstamo original si la respuesta no los incluye
+            person: response.loan?.person || loan.person,
+            resource: response.loan?.resource || loan.resource,
+            returnedDate: response.loan?.returnedDate || new Date(data.returnDate)
+          },
+          returnInfo: response,
+          librarianFallback: user?.email
+        });
+      }
 
       toast({
         title: 'Éxito',
@@ -208,6 +230,17 @@ const ReturnModal: React.FC<ReturnModalProps> = ({
         isClosable: true
       });
 
+      // Avisar si la unidad devuelta quedó apartada para una reserva
+      response.readyHolds?.forEach((hold) => {
+        toast({
+          title: 'Recurso reservado',
+          description: `Apartar para ${hold.person?.fullName || 'la siguiente persona de la cola'}`,
+          status: 'info',
+          duration: 8000,
+          isClosable: true
+        });
+      });
+
       onSuccess?.();
       handleClose();
     } catch (error: any) {
@@ -390,7 +423,7 @@ const ReturnModal: React.FC<ReturnModalProps> = ({
                     <Select {...register('resourceCondition')}>
                       <option value="good">Buen Estado</option>
                       <option value="damaged">Dañado</option>
-                      <option value="lost">Perdido</option>
+                      {can('loans.markLost') && <option value="lost">Perdido</option>}
                     </Select>
                     <FormErrorMessage>{errors.resourceCondition?.message}</FormErrorMessage>
                   </FormControl>
@@ -470,7 +503,18 @@ const ReturnModal: React.FC<ReturnModalProps> = ({
 
           <Divider />
 
-          <ModalFooter>
+          <ModalFooter justifyContent="space-between">
+            <FormControl display="flex" alignItems="center" w="auto">
+              <Switch
+                id="auto-print-return-receipt"
+                size="sm"
+                isChecked={autoPrint}
+                onChange={(e) => setAutoPrint(e.target.checked)}
+              />
+              <FormLabel htmlFor="auto-print-return-receipt" mb={0} ml={2} fontSize="sm" color="gray.600">
+                Imprimir comprobante
+              </FormLabel>
+            </FormControl>
             <HStack spacing={3}>
               <Button variant="ghost" onClick={handleClose}>
                 Cancelar
@@ -36,6 +36,7 @@ import {
   FormControl,
   FormLabel,
   Textarea,
+  Switch,
   useToast,
   useDisclosure,
   useColorModeValue
@@ -52,15 +53,19 @@ import {
   FiBook,
   FiCalendar,
   FiClock,
-  FiAlertTriangle
+  FiAlertTriangle,
+  FiMaximize
 } from 'react-icons/fi';
 
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 
 // Importar hooks y tipos
-import { useLoans, useReturn } from '@/hooks/useLoans';
+import { useLoans, useReturn, useReceiptPreferences } from '@/hooks/useLoans';
+import { useAuth, usePermissions } from '@/hooks/useAuth';
 import type { LoanWithDetails, ReturnLoanRequest, LoanSearchFilters } from '@/types/loan.types';
+import { printLoanReceipt } from './LoanReceipt';
+import ScannerCirculation from './ScannerCirculation';
 
 // ===== INTERFACES =====
 
@@ -90,6 +95,8 @@ const ReturnModal: React.FC<ReturnModalProps> = ({ loan, isOpen, onClose, onSucc
   });
 
   const { returnLoan, processing } = useReturn();
+  const { autoPrint, setAutoPrint } = useReceiptPreferences();
+  const { user } = useAuth();
 
   const handleSubmit = async () => {
     if (!loan) return;
@@ -102,7 +109,22 @@ const ReturnModal: React.FC<ReturnModalProps> = ({ loan, isOpen, onClose, onSucc
         returnObservations: returnData.returnObservations || undefined
       };
 
-      await returnLoan(request);
+      const response = await returnLoan(request);
+
+      if (autoPrint) {
+        printLoanReceipt({
+          type: 'return',
+          loan: {
+            ...loan,
+            ...response.loan,
+            person: response.loan?.person || loan.person,
+            resource: response.loan?.resource || loan.resource,
+            returnedDate: response.loan?.returnedDate || new Date(returnData.returnDate)
+          },
+          returnInfo: response,
+          librarianFallback: user?.email
+        });
+      }
 
       toast({
         title: 'Éxito',
@@ -112,6 +134,17 @@ const ReturnModal: React.FC<ReturnModalProps> = ({ loan, isOpen, onClose, onSucc
         isClosable: true
       });
 
+      // Avisar si la unidad devuelta quedó apartada para una reserva
+      response.readyHolds?.forEach((hold) => {
+        toast({
+          title: 'Recurso reservado',
+          description: `Apartar para ${hold.person?.fullName || 'la siguiente persona de la cola'}`,
+          status: 'info',
+          duration: 8000,
+          isClosable: true
+        });
+      });
+
       onSuccess();
       onClose();
     } catch (error: any) {
@@ -197,7 +230,18 @@ const ReturnModal: React.FC<ReturnModalProps> = ({ loan, isOpen, onClose, onSucc
           </VStack>
         </ModalBody>
 
-        <ModalFooter>
+        <ModalFooter justifyContent="space-between">
+          <FormControl display="flex" alignItems="center" w="auto">
+            <Switch
+              id="auto-print-returns-receipt"
+              size="sm"
+              isChecked={autoPrint}
+              onChange={(e) => setAutoPrint(e.target.checked)}
+            />
+            <FormLabel htmlFor="auto-print-returns-receipt" mb={0} ml={2} fontSize="sm" color="gray.600">
+              Imprimir comprobante
+            </FormLabel>
+          </FormControl>
           <HStack spacing={3}>
             <Button variant="ghost" onClick={handleClose}>
               Cancelar
@@ -233,8 +277,12 @@ export const ReturnsManagement: React.FC = () => {
   });
   
   const [selectedLoan, setSelectedLoan] = useState<LoanWithDetails | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
 
   // Hooks
+  const { can } = usePermissions();
+  const canReturn = can('loans.return');
+  const { autoPrint, setAutoPrint } = useReceiptPreferences();
   const {
     loans: activeLoans,
     loading,
@@ -383,6 +431,47 @@ export const ReturnsManagement: React.FC = () => {
         </Stat>
       </SimpleGrid>
 
+      {/* Devolución con escáner */}
+      {canReturn && (
+        <Box bg="white" p={6} rounded="lg" shadow="md" border="1px" borderColor="gray.200">
+          <VStack spacing={4} align="stretch">
+            <HStack justify="space-between" flexWrap="wrap" gap={2}>
+              <Text fontSize="lg" fontWeight="bold" color="gray.700">
+                Devolución con Escáner
+              </Text>
+              <HStack spacing={4}>
+                {showScanner && (
+                  <FormControl display="flex" alignItems="center" w="auto">
+                    <Switch
+                      id="auto-print-scanner-receipt"
+                      size="sm"
+                      isChecked={autoPrint}
+                      onChange={(e) => setAutoPrint(e.target.checked)}
+                    />
+                    <FormLabel htmlFor="auto-print-scanner-receipt" mb={0} ml={2} fontSize="sm" color="gray.600">
+                      Imprimir comprobante
+                    </FormLabel>
+                  </FormControl>
+                )}
+                <Button
+                  size="sm"
+                  colorScheme="blue"
+                  variant={showScanner ? 'outline' : 'solid'}
+                  leftIcon={<FiMaximize />}
+                  onClick={() => setShowScanner(prev => !prev)}
+                >
+                  {showScanner ? 'Ocultar escáner' : 'Activar escáner'}
+                </Button>
+              </HStack>
+            </HStack>
+
+            {showScanner && (
+              <ScannerCirculation mode="return" autoPrint={autoPrint} onComplete={() => refetch()} />
+            )}
+          </VStack>
+        </Box>
+      )}
+
       {/* Filtros */}
       <Box bg="white" p={6} rounded="lg" shadow="md" border="1px" borderColor="gray.200">
         <VStack spacing={4} align="stretch">
@@ -572,14 +661,16 @@ export const ReturnsManagement: React.FC = () => {
                     </Td>
                     <Td>
                       <HStack spacing={2}>
-                        <Button 
-                          size="xs" 
-                          colorScheme="green" 
-                          leftIcon={<FiCheck />}
-                          onClick={() => handleProcessReturn(loan)}
-                        >
-                          Devolver
-                        </Button>
+                        {canReturn && (
+                          <Button 
+                            size="xs" 
+                            colorScheme="green" 
+                            leftIcon={<FiCheck />}
+                            onClick={() => handleProcessReturn(loan)}
+                          >
+                            Devolver
+                          </Button>
+                        )}
                         <Button size="xs" variant="outline" leftIcon={<FiEye />}>
                           Ver
                         </Button>
@@ -0,0 +1,485 @@
+// src/components/loans/ScannerCirculation.tsx
+// ================================================================
+// MODO ESCÁNER PARA PRÉSTAMOS Y DEVOLUCIONES
+// ================================================================
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  Badge,
+  Button,
+  Alert,
+  AlertIcon,
+  Spinner,
+  Divider,
+  Select
+} from '@chakra-ui/react';
+import {
+  FiMaximize,
+  FiUser,
+  FiBook,
+  FiCheckCircle,
+  FiXCircle,
+  FiRotateCcw
+} from 'react-icons/fi';
+
+import { PersonService } from '@/services/person.service';
+import { ResourceService } from '@/services/resource.service';
+import { ResourceCopyService } from '@/services/resourceCopy.service';
+import { LoanService } from '@/services/loan.service';
+import { PenaltyService } from '@/services/penalty.service';
+import { useAuth } from '@/hooks/useAuth';
+import { ValidationUtils } from '@/utils';
+import type { Person } from '@/types/api.types';
+import type { Resource, ResourceCopy } from '@/types/resource.types';
+import type { LoanWithDetails } from '@/types/loan.types';
+import { printLoanReceipt } from './LoanReceipt';
+
+// ===== INTERFACES =====
+
+export type ScannerMode = 'loan' | 'return';
+
+interface ScannerCirculationProps {
+  mode: ScannerMode;
+  autoPrint?: boolean;
+  onComplete?: (loan: LoanWithDetails) => void;
+  // Persona ya elegida al abrir; sigue seleccionada después de cada operación
+  initialPerson?: Person | null;
+}
+
+// Estado informado al devolver; el recurso solo cambia si queda peor de lo que estaba
+type ReturnCondition = 'good' | 'deteriorated' | 'damaged';
+
+interface ScanLogEntry {
+  id: number;
+  success: boolean;
+  message: string;
+  time: Date;
+}
+
+const RETURN_CONDITION_LABELS: Record<ReturnCondition, string> = {
+  good: 'Sin daños nuevos',
+  deteriorated: 'Deteriorado',
+  damaged: 'Dañado'
+};
+
+// ===== UTILIDADES =====
+
+// Las etiquetas de recursos codifican el _id (ObjectId de 24 caracteres hexadecimales).
+// Los carnés de personas sin documento también usan el _id, así que puede ser cualquiera de los dos
+const isObjectId = (code: string) => /^[a-f0-9]{24}$/i.test(code);
+
+const isNotFound = (error: any) => error?.response?.status === 404;
+
+const getErrorMessage = (error: any, fallback: string): string => {
+  const message = error?.response?.data?.message || error?.message || fallback;
+  return Array.isArray(message) ? message.join(', ') : message;
+};
+
+const loanBelongsTo = (loan: LoanWithDetails, field: 'person' | 'resource', id: string) => {
+  return field === 'person'
+    ? loan.personId === id || loan.person?._id === id
+    : loan.resourceId === id || loan.resource?._id === id;
+};
+
+// Sonido corto de confirmación para no tener que mirar la pantalla en cada lectura
+const playFeedback = (success: boolean) => {
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    const context = new AudioContextClass();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = success ? 880 : 220;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + (success ? 0.12 : 0.35));
+    oscillator.onended = () => context.close();
+  } catch {
+    // El navegador no permite reproducir audio; se ignora
+  }
+};
+
+// ===== COMPONENTE PRINCIPAL =====
+
+const ScannerCirculation: React.FC<ScannerCirculationProps> = ({
+  mode,
+  autoPrint = false,
+  onComplete,
+  initialPerson = null
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const personRef = useRef<Person | null>(null);
+  const conditionRef = useRef<ReturnCondition>('good');
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const logIdRef = useRef(0);
+
+  const [code, setCode] = useState('');
+  const [person, setPerson] = useState<Person | null>(null);
+  const [returnCondition, setReturnCondition] = useState<ReturnCondition>('good');
+  const [processing, setProcessing] = useState(false);
+  const [log, setLog] = useState<ScanLogEntry[]>([]);
+  const [completedCount, setCompletedCount] = useState(0);
+
+  const { user } = useAuth();
+
+  const isLoanMode = mode === 'loan';
+
+  // ===== EFECTOS =====
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // ===== MANEJO DE ESTADO =====
+
+  const selectPerson = useCallback((selected: Person | null) => {
+    personRef.current = selected;
+    setPerson(selected);
+  }, []);
+
+  const selectCondition = (condition: ReturnCondition) => {
+    conditionRef.current = condition;
+    setReturnCondition(condition);
+  };
+
+  const addLog = useCallback((success: boolean, message: string) => {
+    playFeedback(success);
+    setLog(prev => [
+      { id: ++logIdRef.current, success, message, time: new Date() },
+      ...prev
+    ].slice(0, 10));
+  }, []);
+
+  // ===== RESOLUCIÓN DE CÓDIGOS =====
+
+  const findResource = (scanned: string): Promise<Resource> => {
+    return ResourceService.getResourceByCode(scanned);
+  };
+
+  const acceptPerson = useCallback(async (found: Person) => {
+    if (!found.active) {
+      throw new Error(`${found.fullName} está inactivo y no puede realizar operaciones`);
+    }
+
+    if (isLoanMode) {
+      const penalties = await PenaltyService.getBlockingPenalties(found._id);
+      if (penalties.length > 0) {
+        throw new Error(`${found.fullName} tiene sanciones activas y no puede tomar préstamos`);
+      }
+    }
+
+    selectPerson(found);
+    addLog(true, `Persona: ${found.fullName}`);
+  }, [isLoanMode, selectPerson, addLog]);
+
+  // La persona inicial pasa por las mismas comprobaciones que un carné escaneado
+  useEffect(() => {
+    if (!initialPerson) return;
+
+    queueRef.current = queueRef.current.then(() =>
+      acceptPerson(initialPerson).catch((error) => {
+        addLog(false, getErrorMessage(error, 'No se pudo seleccionar la persona'));
+      })
+    );
+  }, [initialPerson, acceptPerson, addLog]);
+
+  const handlePersonScan = async (scanned: string) => {
+    await acceptPerson(await PersonService.getPersonByCardCode(scanned));
+  };
+
+  const handleLoanScan = async (resource: Resource, copy: ResourceCopy | null) => {
+    const current = personRef.current;
+    if (!current) {
+      throw new Error('Escanea primero el carné de la persona');
+    }
+
+    const loan = await LoanService.createLoan({
+      personId: current._id,
+      resourceId: resource._id,
+      copyId: copy?._id,
+      quantity: 1
+    });
+
+    const receiptLoan: LoanWithDetails = {
+      ...loan,
+      person: loan.person || current,
+      resource: loan.resource || { _id: resource._id, title: resource.title, isbn: resource.isbn }
+    };
+
+    if (autoPrint) {
+      printLoanReceipt({ type: 'loan', loan: receiptLoan, librarianFallback: user?.email });
+    }
+
+    addLog(true, `Préstamo: "${resource.title}" → ${current.fullName}`);
+    onComplete?.(receiptLoan);
+  };
+
+  const handleReturnScan = async (resource: Resource, copy: ResourceCopy | null) => {
+    const current = personRef.current;
+
+    // Con carné se busca entre los préstamos de la persona; sin carné, entre los del recurso
+    const response = current
+      ? await LoanService.getPersonLoans(current._id, { limit: 100 })
+      : await LoanService.getResourceLoans(resource._id, { limit: 100 });
+
+    const pending = response.data
+      .filter(loan => !loan.returnedDate)
+      .filter(loan => loanBelongsTo(loan, 'resource', resource._id))
+      // Con la etiqueta de un ejemplar, solo cuenta el préstamo de ese ejemplar
+      .filter(loan => !copy || (loan.copyId || loan.copy?._id) === copy._id)
+      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+
+    if (pending.length === 0) {
+      throw new Error(
+        current
+          ? `${current.fullName} no tiene préstamos activos de "${resource.title}"`
+          : `"${resource.title}" no tiene préstamos activos`
+      );
+    }
+
+    const borrowers = new Set(pending.map(loan => loan.person?._id || loan.personId));
+    if (!current && borrowers.size > 1) {
+      throw new Error(`"${resource.title}" está prestado a varias personas: escanea el carné primero`);
+    }
+
+    const loan = pending[0];
+    const condition = conditionRef.current;
+    const result = await LoanService.returnLoan({
+      loanId: loan._id,
+      returnDate: new Date().toISOString(),
+      resourceCondition: condition
+    });
+    // El estado elegido vale para una sola devolución
+    selectCondition('good');
+
+    const receiptLoan: LoanWithDetails = {
+      ...loan,
+      ...result.loan,
+      person: result.loan?.person || loan.person || current || undefined,
+      resource: result.loan?.resource || loan.resource,
+      returnedDate: result.loan?.returnedDate || new Date()
+    };
+
+    if (autoPrint) {
+      printLoanReceipt({
+        type: 'return',
+        loan: receiptLoan,
+        returnInfo: result,
+        librarianFallback: user?.email
+      });
+    }
+
+    const borrowerName = receiptLoan.person?.fullName || 'N/A';
+    addLog(
+      true,
+      `Devolución: "${resource.title}" de ${borrowerName}`
+        + `${condition !== 'good' ? ` · ${RETURN_CONDITION_LABELS[condition].toLowerCase()}` : ''}`
+        + `${result.wasOverdue ? ` (con ${result.daysOverdue || 0} días de retraso)` : ''}`
+    );
+    result.readyHolds?.forEach((hold) => {
+      addLog(true, `Reservado: apartar "${resource.title}" para ${hold.person?.fullName || 'la siguiente persona'}`);
+    });
+    onComplete?.(receiptLoan);
+  };
+
+  const processScan = async (scanned: string) => {
+    setProcessing(true);
+    try {
+      // Un código de recurso o ejemplar se reconoce en cualquier momento; lo demás es un carné
+      const copyCode = ResourceCopyService.parseBarcode(scanned);
+      if (!copyCode && !isObjectId(scanned) && (!personRef.current || !ValidationUtils.isValidISBN(scanned))) {
+        await handlePersonScan(scanned);
+        return;
+      }
+
+      let resource: Resource;
+      const copy = copyCode ? await ResourceCopyService.getCopyByBarcode(scanned) : null;
+      try {
+        resource = await findResource(scanned);
+      } catch (error) {
+        // Un ID que no es de recurso puede ser el carné de una persona sin documento
+        if (!isObjectId(scanned) || !isNotFound(error)) throw error;
+        await handlePersonScan(scanned);
+        return;
+      }
+
+      if (isLoanMode) {
+        await handleLoanScan(resource, copy);
+      } else {
+        await handleReturnScan(resource, copy);
+      }
+
+      setCompletedCount(prev => prev + 1);
+      selectPerson(personRef.current && personRef.current._id === initialPerson?._id ? personRef.current : null);
+    } catch (error: any) {
+      addLog(false, getErrorMessage(error, 'No se pudo procesar la lectura'));
+    } finally {
+      setProcessing(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  // ===== MANEJADORES =====
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setCode('');
+      selectPerson(null);
+      return;
+    }
+
+    // Los lectores tipo teclado terminan cada lectura con Enter
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const scanned = code.trim();
+    setCode('');
+    if (!scanned) return;
+
+    // Las lecturas se procesan en orden aunque lleguen mientras otra está en curso
+    queueRef.current = queueRef.current.then(() => processScan(scanned));
+  };
+
+  // ===== RENDER =====
+
+  return (
+    <VStack spacing={4} align="stretch">
+      <Box>
+        <InputGroup size="lg">
+          <InputLeftElement pointerEvents="none">
+            {processing ? <Spinner size="sm" color="blue.500" /> : <FiMaximize color="gray" />}
+          </InputLeftElement>
+          <Input
+            ref={inputRef}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={
+              person || !isLoanMode
+                ? 'Escanea la etiqueta del recurso...'
+                : 'Escanea el carné de la persona...'
+            }
+            autoComplete="off"
+            spellCheck={false}
+          />
+        </InputGroup>
+        <Text fontSize="xs" color="gray.500" mt={1}>
+          {isLoanMode
+            ? 'Escanea el carné y luego la etiqueta del recurso. Esc cancela la persona seleccionada.'
+            : 'Escanea la etiqueta del recurso; si está prestado a varias personas, escanea antes el carné.'}
+        </Text>
+      </Box>
+
+      {!isLoanMode && (
+        <HStack spacing={3}>
+          <Text fontSize="sm" color="gray.600" flexShrink={0}>Estado al devolver</Text>
+          <Select
+            size="sm"
+            value={returnCondition}
+            onChange={(e) => {
+              selectCondition(e.target.value as ReturnCondition);
+              inputRef.current?.focus();
+            }}
+          >
+            {(Object.keys(RETURN_CONDITION_LABELS) as ReturnCondition[]).map(condition => (
+              <option key={condition} value={condition}>{RETURN_CONDITION_LABELS[condition]}</option>
+            ))}
+          </Select>
+        </HStack>
+      )}
+
+      {/* Pasos de la operación en curso */}
+      <HStack spacing={3}>
+        <HStack
+          flex={1}
+          p={3}
+          borderRadius="md"
+          border="1px solid"
+          borderColor={person ? 'green.300' : 'gray.200'}
+          bg={person ? 'green.50' : 'gray.50'}
+        >
+          <FiUser />
+          <Box flex={1}>
+            <Text fontSize="xs" color="gray.500">Persona</Text>
+            <Text fontWeight="medium" fontSize="sm" noOfLines={1}>
+              {person
+                ? `${person.fullName}${person.grade ? ` · ${person.grade}` : ''}`
+                : isLoanMode ? 'Esperando carné...' : 'Opcional'}
+            </Text>
+          </Box>
+          {person && (
+            <Button size="xs" variant="ghost" onClick={() => selectPerson(null)}>
+              Cambiar
+            </Button>
+          )}
+        </HStack>
+        <HStack
+          flex={1}
+          p={3}
+          borderRadius="md"
+          border="1px solid"
+          borderColor="gray.200"
+          bg="gray.50"
+        >
+          {isLoanMode ? <FiBook /> : <FiRotateCcw />}
+          <Box>
+            <Text fontSize="xs" color="gray.500">Recurso</Text>
+            <Text fontWeight="medium" fontSize="sm">
+              {person || !isLoanMode ? 'Esperando etiqueta...' : '—'}
+            </Text>
+          </Box>
+        </HStack>
+      </HStack>
+
+      <Divider />
+
+      {/* Registro de lecturas */}
+      <HStack justify="space-between">
+        <Text fontSize="sm" fontWeight="bold">Últimas lecturas</Text>
+        <Badge colorScheme="blue">
+          {completedCount} {isLoanMode ? 'préstamo' : 'devolución'}{completedCount === 1 ? '' : isLoanMode ? 's' : 'es'} en esta sesión
+        </Badge>
+      </HStack>
+
+      {log.length === 0 ? (
+        <Alert status="info" borderRadius="md">
+          <AlertIcon />
+          <Text fontSize="sm">Aún no hay lecturas. El cursor debe estar en el campo de escaneo.</Text>
+        </Alert>
+      ) : (
+        <VStack spacing={2} align="stretch" maxH="240px" overflowY="auto">
+          {log.map(entry => (
+            <HStack
+              key={entry.id}
+              p={2}
+              borderRadius="md"
+              bg={entry.success ? 'green.50' : 'red.50'}
+              spacing={3}
+            >
+              {entry.success
+                ? <FiCheckCircle color="green" />
+                : <FiXCircle color="red" />}
+              <Text fontSize="sm" flex={1}>{entry.message}</Text>
+              <Text fontSize="xs" color="gray.500">
+                {entry.time.toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+              </Text>
+            </HStack>
+          ))}
+        </VStack>
+      )}
+    </VStack>
+  );
+};
+
+export default ScannerCirculation;
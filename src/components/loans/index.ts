@@ -11,11 +11,29 @@ export { default as LoansList } from './LoansList';
 export { default as LoanRow } from './LoanRow';
 export { default as CreateLoanModal } from './CreateLoanModal';
 
+// Detalle y renovaciones
+export { default as LoanDetailsModal } from './LoanDetailsModal';
+export { default as LoanRenewalTimeline } from './LoanRenewalTimeline';
+export { default as BulkRenewModal } from './BulkRenewModal';
+export { default as RenewalRequestsQueue } from './RenewalRequestsQueue';
+
 // Componentes de devoluciones y vencidos
 export { default as ReturnsManagement } from './ReturnsManagement';
 export { default as OverdueManagement } from './OverdueManagement';
 export { default as ReturnModal } from './ReturnModal';
 
+// Avisos de vencidos
+export { default as OverdueNoticesModal } from './OverdueNoticesModal';
+export { default as NoticeTemplateEditor } from './NoticeTemplateEditor';
+export { default as OverdueNoticeDocument, printOverdueNotices } from './OverdueNoticeDocument';
+
+// Comprobantes imprimibles
+export { default as LoanReceipt, printLoanReceipt } from './LoanReceipt';
+export { default as LoanReceiptModal } from './LoanReceiptModal';
+
+// Circulación con lector de códigos
+export { default as ScannerCirculation } from './ScannerCirculation';
+
 // Componente de estadísticas
 export { default as LoanStatistics } from './LoanStatistics';
 
@@ -38,5 +56,9 @@ export type {
   UseLoanState,
   UseLoansState,
   UseReturnState,
-  UseOverdueState
+  UseRenewalState,
+  UseOverdueState,
+  LoanRenewal,
+  RenewalEligibility,
+  BulkRenewResult
 } from '@/types/loan.types';
\ No newline at end of file
@@ -0,0 +1,229 @@
+// src/components/penalties/PersonPenaltiesLedger.tsx
+'use client';
+
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  HStack,
+  VStack,
+  Text,
+  Badge,
+  Button,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Tooltip,
+  Alert,
+  AlertIcon,
+  Skeleton,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { FiDollarSign, FiShield } from 'react-icons/fi';
+import { usePersonPenalties } from '@/hooks/usePenalties';
+import { PenaltyService } from '@/services/penalty.service';
+import { DateUtils, NumberUtils } from '@/utils';
+import { ResolvePenaltyModal, type PenaltyResolution } from './ResolvePenaltyModal';
+import {
+  PENALTY_STATUS_CONFIG,
+  PENALTY_TYPE_LABELS,
+  PENALTY_REASON_LABELS,
+  describePenalty,
+} from './penalty.config';
+import type { PenaltyWithDetails } from '@/types/penalty.types';
+
+interface PersonPenaltiesLedgerProps {
+  personId: string;
+  canManage?: boolean;
+}
+
+/**
+ * Historial de multas y sanciones de una persona, con acciones de pago y condonación
+ */
+export function PersonPenaltiesLedger({ personId, canManage = true }: PersonPenaltiesLedgerProps) {
+  const { data: penalties = [], isLoading, isError } = usePersonPenalties(personId);
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [selected, setSelected] = useState<{ penalty: PenaltyWithDetails; action: PenaltyResolution } | null>(null);
+
+  const summary = useMemo(() => {
+    const blocking = penalties.filter(penalty => PenaltyService.isBlocking(penalty));
+    const pendingAmount = blocking
+      .filter(penalty => penalty.type === 'fine')
+      .reduce((total, penalty) => total + (penalty.amount || 0), 0);
+    const suspendedUntil = blocking
+      .filter(penalty => penalty.type === 'suspension' && penalty.suspendedUntil)
+      .map(penalty => new Date(penalty.suspendedUntil!))
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    return { blockingCount: blocking.length, pendingAmount, suspendedUntil };
+  }, [penalties]);
+
+  const sortedPenalties = useMemo(
+    () => [...penalties].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+    [penalties]
+  );
+
+  const handleAction = (penalty: PenaltyWithDetails, action: PenaltyResolution) => {
+    setSelected({ penalty, action });
+    onOpen();
+  };
+
+  return (
+    <Card shadow="sm">
+      <CardHeader>
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <Heading size="md" color="gray.700">
+            Multas y Sanciones
+          </Heading>
+          <HStack spacing={2}>
+            {summary.pendingAmount > 0 && (
+              <Badge colorScheme="red" px={2} py={1}>
+                Pendiente: {NumberUtils.formatCurrency(summary.pendingAmount)}
+              </Badge>
+            )}
+            {summary.suspendedUntil && (
+              <Badge colorScheme="orange" px={2} py={1}>
+                Suspendido hasta {DateUtils.formatDate(summary.suspendedUntil)}
+              </Badge>
+            )}
+          </HStack>
+        </HStack>
+      </CardHeader>
+
+      <CardBody pt={0}>
+        {isLoading ? (
+          <VStack spacing={2} align="stretch">
+            <Skeleton height="32px" />
+            <Skeleton height="32px" />
+          </VStack>
+        ) : isError ? (
+          <Alert status="error" borderRadius="md">
+            <AlertIcon />
+            <Text fontSize="sm">No se pudo cargar el historial de sanciones.</Text>
+          </Alert>
+        ) : sortedPenalties.length === 0 ? (
+          <Text fontSize="sm" color="gray.500" textAlign="center" py={4}>
+            Esta persona no tiene multas ni sanciones registradas
+          </Text>
+        ) : (
+          <VStack spacing={4} align="stretch">
+            {summary.blockingCount > 0 && (
+              <Alert status="warning" borderRadius="md">
+                <AlertIcon />
+                <Text fontSize="sm">
+                  No puede tomar préstamos mientras tenga sanciones activas ({summary.blockingCount}).
+                </Text>
+              </Alert>
+            )}
+
+            <TableContainer>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Fecha</Th>
+                    <Th>Motivo</Th>
+                    <Th>Sanción</Th>
+                    <Th>Estado</Th>
+                    {canManage && <Th>Acciones</Th>}
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {sortedPenalties.map(penalty => {
+                    const statusConfig = PENALTY_STATUS_CONFIG[penalty.status];
+                    const isActive = penalty.status === 'active';
+
+                    return (
+                      <Tr key={penalty._id}>
+                        <Td>
+                          <Text fontSize="sm">{DateUtils.formatDate(penalty.createdAt)}</Text>
+                        </Td>
+                        <Td>
+                          <VStack spacing={0} align="start">
+                            <Text fontSize="sm">{PENALTY_REASON_LABELS[penalty.reason]}</Text>
+                            {penalty.loan?.resource?.title && (
+                              <Text fontSize="xs" color="gray.500" noOfLines={1}>
+                                {penalty.loan.resource.title}
+                              </Text>
+                            )}
+                            {penalty.daysOverdue ? (
+                              <Text fontSize="xs" color="gray.500">
+                                {penalty.daysOverdue} día{penalty.daysOverdue === 1 ? '' : 's'} de retraso
+                              </Text>
+                            ) : null}
+                          </VStack>
+                        </Td>
+                        <Td>
+                          <VStack spacing={0} align="start">
+                            <Text fontSize="xs" color="gray.500">{PENALTY_TYPE_LABELS[penalty.type]}</Text>
+                            <Text fontSize="sm" fontWeight="medium">{describePenalty(penalty)}</Text>
+                          </VStack>
+                        </Td>
+                        <Td>
+                          <Tooltip
+                            label={penalty.resolutionReason}
+                            isDisabled={!penalty.resolutionReason}
+                            hasArrow
+                          >
+                            <Badge colorScheme={statusConfig.color} variant="subtle">
+                              {statusConfig.label}
+                            </Badge>
+                          </Tooltip>
+                          {penalty.resolvedAt && (
+                            <Text fontSize="xs" color="gray.500">
+                              {DateUtils.formatDate(penalty.resolvedAt)}
+                            </Text>
+                          )}
+                        </Td>
+                        {canManage && (
+                          <Td>
+                            {isActive && (
+                              <HStack spacing={1}>
+                                {penalty.type === 'fine' && (
+                                  <Button
+                                    size="xs"
+                                    colorScheme="green"
+                                    variant="outline"
+                                    leftIcon={<FiDollarSign />}
+                                    onClick={() => handleAction(penalty, 'pay')}
+                                  >
+                                    Pagar
+                                  </Button>
+                                )}
+                                <Button
+                                  size="xs"
+                                  colorScheme="blue"
+                                  variant="ghost"
+                                  leftIcon={<FiShield />}
+                                  onClick={() => handleAction(penalty, 'waive')}
+                                >
+                                  Condonar
+                                </Button>
+                              </HStack>
+                            )}
+                          </Td>
+                        )}
+                      </Tr>
+                    );
+                  })}
+                </Tbody>
+              </Table>
+            </TableContainer>
+          </VStack>
+        )}
+      </CardBody>
+
+      <ResolvePenaltyModal
+        penalty={selected?.penalty || null}
+        action={selected?.action || 'waive'}
+        isOpen={isOpen}
+        onClose={onClose}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+// src/components/penalties/ResolvePenaltyModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Box,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  Textarea,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { FiDollarSign, FiShield } from 'react-icons/fi';
+import { usePayPenalty, useWaivePenalty } from '@/hooks/usePenalties';
+import { PENALTY_REASON_LABELS, PENALTY_TYPE_LABELS, describePenalty } from './penalty.config';
+import type { PenaltyWithDetails } from '@/types/penalty.types';
+
+export type PenaltyResolution = 'pay' | 'waive';
+
+interface ResolvePenaltyModalProps {
+  penalty: PenaltyWithDetails | null;
+  action: PenaltyResolution;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MIN_REASON_LENGTH = 5;
+
+export function ResolvePenaltyModal({ penalty, action, isOpen, onClose }: ResolvePenaltyModalProps) {
+  const [reason, setReason] = useState('');
+  const [touched, setTouched] = useState(false);
+
+  const payMutation = usePayPenalty();
+  const waiveMutation = useWaivePenalty();
+
+  const isPay = action === 'pay';
+  const isPending = payMutation.isPending || waiveMutation.isPending;
+  const reasonError = reason.trim().length < MIN_REASON_LENGTH
+    ? `Indica el motivo (mínimo ${MIN_REASON_LENGTH} caracteres)`
+    : undefined;
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setTouched(false);
+    }
+  }, [isOpen]);
+
+  const handleConfirm = async () => {
+    setTouched(true);
+    if (!penalty || reasonError) return;
+
+    try {
+      if (isPay) {
+        await payMutation.mutateAsync({ id: penalty._id, reason });
+      } else {
+        await waiveMutation.mutateAsync({ id: penalty._id, reason });
+      }
+      onClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  if (!penalty) return null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            {isPay ? <FiDollarSign /> : <FiShield />}
+            <Text>{isPay ? 'Registrar Pago' : 'Condonar Sanción'}</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Box p={3} bg="gray.50" borderRadius="md">
+              <Text fontWeight="medium">
+                {PENALTY_TYPE_LABELS[penalty.type]} · {PENALTY_REASON_LABELS[penalty.reason]}
+              </Text>
+              <Text fontSize="sm" color="gray.600">
+                {describePenalty(penalty)}
+              </Text>
+              {penalty.loan?.resource?.title && (
+                <Text fontSize="sm" color="gray.600">
+                  Recurso: {penalty.loan.resource.title}
+                </Text>
+              )}
+            </Box>
+
+            <FormControl isRequired isInvalid={touched && !!reasonError}>
+              <FormLabel fontSize="sm">
+                {isPay ? 'Detalle del pago' : 'Motivo de la condonación'}
+              </FormLabel>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                onBlur={() => setTouched(true)}
+                placeholder={isPay ? 'Ej: Pago en efectivo, recibo #123' : 'Ej: Calamidad familiar justificada'}
+                rows={3}
+              />
+              <FormErrorMessage>{reasonError}</FormErrorMessage>
+            </FormControl>
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={isPending}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme={isPay ? 'green' : 'blue'}
+              onClick={handleConfirm}
+              isLoading={isPending}
+            >
+              {isPay ? 'Registrar pago' : 'Condonar'}
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
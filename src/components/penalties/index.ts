@@ -0,0 +1,12 @@
+// src/components/penalties/index.ts
+// Barrel export para el módulo de multas y sanciones
+
+export { PersonPenaltiesLedger } from './PersonPenaltiesLedger';
+export { ResolvePenaltyModal } from './ResolvePenaltyModal';
+export type { PenaltyResolution } from './ResolvePenaltyModal';
+export {
+  PENALTY_STATUS_CONFIG,
+  PENALTY_TYPE_LABELS,
+  PENALTY_REASON_LABELS,
+  describePenalty,
+} from './penalty.config';
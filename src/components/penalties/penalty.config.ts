@@ -0,0 +1,35 @@
+// src/components/penalties/penalty.config.ts
+import { DateUtils, NumberUtils } from '@/utils';
+import type { Penalty, PenaltyReason, PenaltyStatus, PenaltyType } from '@/types/penalty.types';
+
+export const PENALTY_STATUS_CONFIG: Record<PenaltyStatus, { label: string; color: string }> = {
+  active: { label: 'Activa', color: 'red' },
+  paid: { label: 'Pagada', color: 'green' },
+  waived: { label: 'Condonada', color: 'blue' },
+  expired: { label: 'Cumplida', color: 'gray' },
+};
+
+export const PENALTY_TYPE_LABELS: Record<PenaltyType, string> = {
+  fine: 'Multa',
+  suspension: 'Suspensión',
+};
+
+export const PENALTY_REASON_LABELS: Record<PenaltyReason, string> = {
+  overdue: 'Devolución tardía',
+  lost: 'Recurso perdido',
+};
+
+/**
+ * Texto corto con el valor de la sanción: monto de la multa o duración de la suspensión
+ */
+export const describePenalty = (penalty: Penalty): string => {
+  if (penalty.type === 'fine') {
+    return NumberUtils.formatCurrency(penalty.amount || 0);
+  }
+
+  const days = penalty.suspensionDays || 0;
+  const duration = `${days} día${days === 1 ? '' : 's'} sin préstamos`;
+  return penalty.suspendedUntil
+    ? `${duration} (hasta ${DateUtils.formatDate(penalty.suspendedUntil)})`
+    : duration;
+};
@@ -0,0 +1,156 @@
+// src/components/people/LibraryCards/LibraryCardSheet.tsx
+import { Barcode } from '@/components/ui/Barcode';
+import { TextUtils } from '@/utils';
+import type { LibraryCardData } from './libraryCard.utils';
+
+interface LibraryCardSheetProps {
+  cards: LibraryCardData[];
+  institutionName?: string;
+}
+
+// Carnés de tamaño tarjeta (85,6 × 54 mm), 10 por hoja A4
+export const CARDS_PER_PAGE = 10;
+
+// ===== ESTILOS =====
+
+// HTML plano con estilos propios: la hoja se imprime en un iframe sin Chakra
+const SHEET_STYLES = `
+  .card-sheet {
+    font-family: Arial, Helvetica, sans-serif;
+    color: #1A202C;
+  }
+  .card-sheet .card-page {
+    display: grid;
+    grid-template-columns: repeat(2, 85.6mm);
+    grid-auto-rows: 54mm;
+    gap: 2mm 4mm;
+    justify-content: center;
+    padding-top: 10mm;
+    box-sizing: border-box;
+    break-after: page;
+    page-break-after: always;
+  }
+  .card-sheet .card-page:last-child {
+    break-after: auto;
+    page-break-after: auto;
+  }
+  .card-sheet .library-card {
+    box-sizing: border-box;
+    border: 1px solid #A0AEC0;
+    border-radius: 3mm;
+    overflow: hidden;
+    display: flex;
+    flex-direction: column;
+    background: #FFFFFF;
+  }
+  .card-sheet .card-header {
+    color: #FFFFFF;
+    padding: 1.5mm 3mm;
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    font-size: 7pt;
+    text-transform: uppercase;
+    letter-spacing: 0.5px;
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+  }
+  .card-sheet .card-header strong {
+    font-size: 8pt;
+  }
+  .card-sheet .card-body {
+    flex: 1;
+    padding: 2mm 3mm 1.5mm;
+    display: flex;
+    flex-direction: column;
+    gap: 0.8mm;
+  }
+  .card-sheet .card-name {
+    font-size: 10pt;
+    font-weight: bold;
+    line-height: 1.15;
+    max-height: 2.3em;
+    overflow: hidden;
+  }
+  .card-sheet .card-info {
+    font-size: 7.5pt;
+    color: #4A5568;
+  }
+  .card-sheet .card-type {
+    display: inline-block;
+    border-radius: 2mm;
+    padding: 0.3mm 2mm;
+    font-size: 7pt;
+    font-weight: bold;
+    color: #FFFFFF;
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+  }
+  .card-sheet .card-barcode {
+    display: block;
+    height: 11mm;
+    margin-top: auto;
+  }
+  .card-sheet .card-code {
+    font-family: 'Courier New', monospace;
+    font-size: 7pt;
+    text-align: center;
+    letter-spacing: 0.5px;
+  }
+  @media print {
+    @page { size: A4; margin: 0; }
+    body { margin: 0; }
+  }
+`;
+
+// ===== COMPONENTE =====
+
+/**
+ * Hoja de carnés de biblioteca para impresión por lotes
+ */
+export function LibraryCardSheet({ cards, institutionName = 'Biblioteca Escolar' }: LibraryCardSheetProps) {
+  const pages: LibraryCardData[][] = [];
+  for (let i = 0; i < cards.length; i += CARDS_PER_PAGE) {
+    pages.push(cards.slice(i, i + CARDS_PER_PAGE));
+  }
+
+  return (
+    <div className="card-sheet">
+      <style>{SHEET_STYLES}</style>
+
+      {pages.map((pageCards, pageIndex) => (
+        <div key={pageIndex} className="card-page">
+          {pageCards.map(card => (
+            <div key={card.personId} className="library-card">
+              <div className="card-header" style={{ background: card.typeColor }}>
+                <strong>{institutionName}</strong>
+                <span>Carné de biblioteca</span>
+              </div>
+
+              <div className="card-body">
+                <div className="card-name">{card.fullName}</div>
+                <div>
+                  <span className="card-type" style={{ background: card.typeColor }}>
+                    {card.typeLabel}
+                  </span>
+                </div>
+                {card.gradeText && (
+                  <div className="card-info">
+                    {card.gradeLabel}: {card.gradeText}
+                  </div>
+                )}
+                {card.documentNumber && (
+                  <div className="card-info">
+                    Doc: {TextUtils.formatDocument(card.documentNumber)}
+                  </div>
+                )}
+                <Barcode value={card.code} className="card-barcode" />
+                <div className="card-code">{card.code}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+// src/components/people/LibraryCards/LibraryCardsModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Box,
+  Badge,
+  Checkbox,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { FiCreditCard, FiPrinter } from 'react-icons/fi';
+import { usePersonTypes } from '@/hooks/usePeople';
+import { PrintUtils } from '@/utils';
+import { LibraryCardSheet, CARDS_PER_PAGE } from './LibraryCardSheet';
+import { buildLibraryCardData } from './libraryCard.utils';
+import type { Person } from '@/types/api.types';
+
+interface LibraryCardsModalProps {
+  people: Person[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function LibraryCardsModal({ people, isOpen, onClose }: LibraryCardsModalProps) {
+  const [excludeInactive, setExcludeInactive] = useState(true);
+  const { data: personTypes } = usePersonTypes();
+
+  const inactiveCount = people.filter(person => !person.active).length;
+
+  const cards = useMemo(() => {
+    return people
+      .filter(person => !excludeInactive || person.active)
+      .map(person => buildLibraryCardData(person, personTypes));
+  }, [people, personTypes, excludeInactive]);
+
+  const withoutDocument = cards.filter(card => !card.documentNumber).length;
+  const pageCount = Math.ceil(cards.length / CARDS_PER_PAGE);
+
+  const handlePrint = () => {
+    PrintUtils.printElement(<LibraryCardSheet cards={cards} />, 'Carnés de biblioteca');
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="4xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            <FiCreditCard />
+            <Text>Carnés de Biblioteca</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <HStack spacing={2} flexWrap="wrap">
+              <Badge colorScheme="blue">{cards.length} carnés</Badge>
+              <Badge colorScheme="gray">
+                {pageCount} {pageCount === 1 ? 'hoja' : 'hojas'} A4
+              </Badge>
+            </HStack>
+
+            {inactiveCount > 0 && (
+              <Checkbox isChecked={excludeInactive} onChange={(e) => setExcludeInactive(e.target.checked)}>
+                <Text fontSize="sm">
+                  Omitir personas inactivas ({inactiveCount})
+                </Text>
+              </Checkbox>
+            )}
+
+            {withoutDocument > 0 && (
+              <Alert status="info" borderRadius="md" fontSize="sm">
+                <AlertIcon />
+                {withoutDocument === 1
+                  ? '1 persona no tiene documento: su carné usa el ID interno como código.'
+                  : `${withoutDocument} personas no tienen documento: sus carnés usan el ID interno como código.`}
+              </Alert>
+            )}
+
+            {/* Vista previa */}
+            <Box
+              border="1px solid"
+              borderColor="gray.200"
+              borderRadius="md"
+              bg="gray.50"
+              p={4}
+              maxH="420px"
+              overflow="auto"
+            >
+              {cards.length > 0 ? (
+                <Box bg="white" w="fit-content" mx="auto" pb={4} shadow="sm">
+                  <LibraryCardSheet cards={cards} />
+                </Box>
+              ) : (
+                <Text fontSize="sm" color="gray.500" textAlign="center">
+                  No hay carnés para imprimir
+                </Text>
+              )}
+            </Box>
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme="blue"
+              leftIcon={<FiPrinter />}
+              onClick={handlePrint}
+              isDisabled={cards.length === 0}
+            >
+              Imprimir
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
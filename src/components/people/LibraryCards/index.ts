@@ -0,0 +1,5 @@
+// src/components/people/LibraryCards/index.ts
+export { LibraryCardsModal } from './LibraryCardsModal';
+export { LibraryCardSheet } from './LibraryCardSheet';
+export { getLibraryCardCode, buildLibraryCardData } from './libraryCard.utils';
+export type { LibraryCardData } from './libraryCard.utils';
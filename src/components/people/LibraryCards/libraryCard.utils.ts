@@ -0,0 +1,51 @@
+// src/components/people/LibraryCards/libraryCard.utils.ts
+import { PersonTypeManager } from '@/lib/personType';
+import type { Person, PersonType } from '@/types/api.types';
+
+export interface LibraryCardData {
+  personId: string;
+  fullName: string;
+  typeLabel: string;
+  typeColor: string;
+  gradeLabel: string;
+  gradeText?: string;
+  documentNumber?: string;
+  code: string;
+}
+
+/**
+ * Colores de impresión para los esquemas de color de Chakra usados por PersonTypeManager
+ * (el carné se imprime en un iframe sin el tema de Chakra)
+ */
+const CARD_COLORS: Record<string, string> = {
+  blue: '#2B6CB0',
+  green: '#2F855A',
+  purple: '#6B46C1',
+  gray: '#4A5568',
+};
+
+/**
+ * Código que se imprime en el carné: el número de documento sin separadores
+ * o, si la persona no tiene documento, su ID. PersonService.getPersonByCardCode
+ * resuelve ambos casos
+ */
+export const getLibraryCardCode = (person: Person): string => {
+  const document = person.documentNumber?.replace(/[\s.-]/g, '');
+  return document || person._id;
+};
+
+export const buildLibraryCardData = (person: Person, personTypes?: PersonType[]): LibraryCardData => {
+  const typeConfig = PersonTypeManager.getConfig(person, personTypes);
+  const gradeInfo = PersonTypeManager.getGradeDisplayInfo(person, personTypes);
+
+  return {
+    personId: person._id,
+    fullName: PersonTypeManager.getFullName(person),
+    typeLabel: typeConfig.label,
+    typeColor: CARD_COLORS[typeConfig.color] || CARD_COLORS.gray,
+    gradeLabel: typeConfig.gradeLabel,
+    gradeText: gradeInfo.isValid && gradeInfo.text !== 'N/A' ? gradeInfo.text : undefined,
+    documentNumber: person.documentNumber,
+    code: getLibraryCardCode(person),
+  };
+};
@@ -0,0 +1,81 @@
+// src/components/people/PeopleImport/ImportPreviewTable.tsx
+'use client';
+
+import {
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Badge,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import type { PersonImportRow, PersonImportRowStatus } from './peopleImport.utils';
+
+interface ImportPreviewTableProps {
+  rows: PersonImportRow[];
+  maxHeight?: string;
+}
+
+const ROW_STATUS_CONFIG: Record<PersonImportRowStatus, { label: string; color: string }> = {
+  valid: { label: 'Válida', color: 'green' },
+  invalid: { label: 'Con errores', color: 'red' },
+  duplicate: { label: 'Ya registrada', color: 'orange' },
+};
+
+export function ImportPreviewTable({ rows, maxHeight = '480px' }: ImportPreviewTableProps) {
+  return (
+    <TableContainer maxH={maxHeight} overflowY="auto" borderWidth="1px" borderRadius="md">
+      <Table size="sm" variant="simple">
+        <Thead position="sticky" top={0} bg="gray.50" zIndex={1}>
+          <Tr>
+            <Th width="60px">Fila</Th>
+            <Th>Nombres</Th>
+            <Th>Apellidos</Th>
+            <Th>Documento</Th>
+            <Th>Tipo</Th>
+            <Th>Grado</Th>
+            <Th>Estado</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {rows.map(row => {
+            const statusConfig = ROW_STATUS_CONFIG[row.status];
+
+            return (
+              <Tr key={row.rowNumber} bg={row.status === 'invalid' ? 'red.50' : undefined}>
+                <Td color="gray.500">{row.rowNumber}</Td>
+                <Td>{row.data.firstName || '—'}</Td>
+                <Td>{row.data.lastName || '—'}</Td>
+                <Td>{row.data.documentNumber || '—'}</Td>
+                <Td>
+                  {row.personTypeName === 'student'
+                    ? 'Estudiante'
+                    : row.personTypeName === 'teacher'
+                      ? 'Docente'
+                      : '—'}
+                </Td>
+                <Td>{row.data.grade || '—'}</Td>
+                <Td whiteSpace="normal" minW="220px">
+                  <VStack align="start" spacing={1}>
+                    <Badge colorScheme={statusConfig.color} variant="subtle">
+                      {statusConfig.label}
+                    </Badge>
+                    {row.errors.map(error => (
+                      <Text key={error} fontSize="xs" color={row.status === 'duplicate' ? 'orange.600' : 'red.600'}>
+                        {error}
+                      </Text>
+                    ))}
+                  </VStack>
+                </Td>
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </TableContainer>
+  );
+}
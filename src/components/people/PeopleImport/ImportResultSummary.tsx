@@ -0,0 +1,83 @@
+// src/components/people/PeopleImport/ImportResultSummary.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Card,
+  CardBody,
+  Text,
+  Alert,
+  AlertIcon,
+  List,
+  ListItem,
+} from '@chakra-ui/react';
+import type { BulkOperationResult, CreatePersonRequest } from '@/types/api.types';
+
+interface ImportResultSummaryProps {
+  result: BulkOperationResult<CreatePersonRequest>;
+  // Número de fila del archivo para cada elemento enviado
+  rowNumbers: number[];
+}
+
+export function ImportResultSummary({ result, rowNumbers }: ImportResultSummaryProps) {
+  const { summary, errors } = result;
+
+  const stats = [
+    { label: 'Procesadas', value: summary.total, color: 'gray.800' },
+    { label: 'Registradas', value: summary.successful, color: 'green.600' },
+    { label: 'Omitidas', value: summary.skipped, color: 'orange.500' },
+    { label: 'Fallidas', value: summary.failed, color: 'red.600' },
+  ];
+
+  return (
+    <VStack spacing={4} align="stretch">
+      <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+        {stats.map(stat => (
+          <Card key={stat.label} variant="outline">
+            <CardBody py={3}>
+              <Stat>
+                <StatLabel color="gray.600">{stat.label}</StatLabel>
+                <StatNumber color={stat.color}>{stat.value}</StatNumber>
+              </Stat>
+            </CardBody>
+          </Card>
+        ))}
+      </SimpleGrid>
+
+      {summary.failed === 0 ? (
+        <Alert status="success" borderRadius="md">
+          <AlertIcon />
+          La importación terminó sin errores.
+        </Alert>
+      ) : (
+        <Box>
+          <Alert status="warning" borderRadius="md" mb={3}>
+            <AlertIcon />
+            Algunas filas no se pudieron registrar. Corrígelas en el archivo e impórtalas de nuevo.
+          </Alert>
+          <List spacing={2} maxH="240px" overflowY="auto">
+            {errors.map(error => (
+              <ListItem key={error.index}>
+                <HStack align="start" spacing={2}>
+                  <Text fontSize="sm" fontWeight="medium" minW="70px">
+                    Fila {rowNumbers[error.index] ?? error.index + 1}
+                  </Text>
+                  <Text fontSize="sm" color="gray.700">
+                    {error.item.firstName} {error.item.lastName}:{' '}
+                    <Text as="span" color="red.600">{error.error}</Text>
+                  </Text>
+                </HStack>
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
+    </VStack>
+  );
+}
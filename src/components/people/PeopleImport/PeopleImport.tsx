@@ -0,0 +1,391 @@
+// src/components/people/PeopleImport/PeopleImport.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Card,
+  CardBody,
+  Text,
+  Button,
+  Icon,
+  Input,
+  Select,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  Badge,
+  Progress,
+  Alert,
+  AlertIcon,
+  Divider,
+  Switch,
+} from '@chakra-ui/react';
+import { useMemo, useRef, useState } from 'react';
+import { FiUpload, FiDownload, FiFile, FiUsers, FiRefreshCw } from 'react-icons/fi';
+import { usePersonTypes, useBulkCreatePeople } from '@/hooks/usePeople';
+import { PersonService } from '@/services/person.service';
+import { SpreadsheetUtils, FileUtils } from '@/utils';
+import { ImportPreviewTable } from './ImportPreviewTable';
+import { ImportResultSummary } from './ImportResultSummary';
+import { buildImportRows, mapImportColumns, PERSON_IMPORT_FIELD_LABELS, type PersonImportRow } from './peopleImport.utils';
+import type { BulkOperationResult, CreatePersonRequest, PersonType } from '@/types/api.types';
+
+interface PeopleImportProps {
+  onFinish?: () => void;
+}
+
+const TEMPLATE_CSV = [
+  'Nombres;Apellidos;Documento;Tipo;Grado',
+  'Ana María;Gómez Ruiz;1012345678;Estudiante;5A',
+  'Carlos;Pérez;79876543;Docente;Matemáticas',
+].join('\r\n');
+
+/**
+ * Importación masiva de personas desde CSV/XLSX
+ *
+ * Flujo:
+ * 1. Carga del archivo y tipo de persona por defecto
+ * 2. Vista previa con validación por fila y verificación de documentos existentes
+ * 3. Envío con opciones de omitir duplicados / continuar ante errores
+ * 4. Resumen del resultado
+ */
+export function PeopleImport({ onFinish }: PeopleImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const checkTokenRef = useRef(0);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [sheetRows, setSheetRows] = useState<string[][]>([]);
+  const [defaultTypeName, setDefaultTypeName] = useState<PersonType['name']>('student');
+  const [existingDocuments, setExistingDocuments] = useState<Set<string>>(new Set());
+  const [checkProgress, setCheckProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [showOnlyErrors, setShowOnlyErrors] = useState(false);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [continueOnError, setContinueOnError] = useState(true);
+  const [importProgress, setImportProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [result, setResult] = useState<BulkOperationResult<CreatePersonRequest> | null>(null);
+  const [submittedRowNumbers, setSubmittedRowNumbers] = useState<number[]>([]);
+
+  const { data: personTypes = [], isLoading: isLoadingTypes } = usePersonTypes();
+  const bulkCreateMutation = useBulkCreatePeople();
+
+  const columns = useMemo(() => mapImportColumns(sheetRows[0] || []), [sheetRows]);
+  const missingColumns = (['firstName', 'lastName'] as const).filter(field => columns[field] === undefined);
+
+  const importRows: PersonImportRow[] = useMemo(() => {
+    return buildImportRows(sheetRows, personTypes, defaultTypeName).map(row =>
+      row.status === 'valid' && row.data.documentNumber && existingDocuments.has(row.data.documentNumber)
+        ? { ...row, status: 'duplicate', errors: ['Ya existe una persona registrada con este documento'] }
+        : row
+    );
+  }, [sheetRows, personTypes, defaultTypeName, existingDocuments]);
+
+  const counts = useMemo(() => ({
+    valid: importRows.filter(row => row.status === 'valid').length,
+    invalid: importRows.filter(row => row.status === 'invalid').length,
+    duplicate: importRows.filter(row => row.status === 'duplicate').length,
+  }), [importRows]);
+
+  const rowsToSubmit = importRows.filter(row => row.status !== 'invalid');
+  const visibleRows = showOnlyErrors ? importRows.filter(row => row.status !== 'valid') : importRows;
+
+  // Verificar contra el sistema los documentos del archivo
+  const checkExistingDocuments = async (rows: string[][]) => {
+    const token = ++checkTokenRef.current;
+    const documentColumn = mapImportColumns(rows[0] || []).documentNumber;
+    if (documentColumn === undefined) return;
+
+    const documents = rows.slice(1).map(row => (row[documentColumn] || '').trim());
+
+    setCheckProgress({ processed: 0, total: new Set(documents.filter(Boolean)).size });
+
+    const existing = await PersonService.findExistingDocuments(documents, (processed, total) => {
+      if (token === checkTokenRef.current) setCheckProgress({ processed, total });
+    });
+
+    if (token === checkTokenRef.current) {
+      setExistingDocuments(existing);
+      setCheckProgress(null);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileError(null);
+    setResult(null);
+    setExistingDocuments(new Set());
+
+    try {
+      const rows = await SpreadsheetUtils.readFile(file);
+      if (rows.length < 2) {
+        throw new Error('El archivo no tiene filas de datos');
+      }
+
+      setFileName(`${file.name} (${FileUtils.formatFileSize(file.size)})`);
+      setSheetRows(rows);
+      checkExistingDocuments(rows);
+    } catch (error: any) {
+      setFileName(null);
+      setSheetRows([]);
+      setFileError(error?.message || 'No se pudo leer el archivo');
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob(['\uFEFF' + TEMPLATE_CSV], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'plantilla_personas.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async () => {
+    setSubmittedRowNumbers(rowsToSubmit.map(row => row.rowNumber));
+    setImportProgress({ processed: 0, total: rowsToSubmit.length });
+
+    try {
+      const importResult = await bulkCreateMutation.mutateAsync({
+        operation: {
+          items: rowsToSubmit.map(row => row.data),
+          operation: 'create',
+          options: { skipDuplicates, continueOnError },
+        },
+        onProgress: (processed, total) => setImportProgress({ processed, total }),
+      });
+      setResult(importResult);
+    } catch (error) {
+      // Error manejado por el hook
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  const handleReset = () => {
+    checkTokenRef.current++;
+    setFileName(null);
+    setSheetRows([]);
+    setExistingDocuments(new Set());
+    setCheckProgress(null);
+    setResult(null);
+    setShowOnlyErrors(false);
+  };
+
+  // Resultado final
+  if (result) {
+    return (
+      <Card>
+        <CardBody>
+          <VStack spacing={6} align="stretch">
+            <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+              Resultado de la importación
+            </Text>
+            <ImportResultSummary result={result} rowNumbers={submittedRowNumbers} />
+            <HStack justify="flex-end" spacing={3}>
+              <Button variant="outline" leftIcon={<FiRefreshCw />} onClick={handleReset}>
+                Importar otro archivo
+              </Button>
+              {onFinish && (
+                <Button colorScheme="blue" leftIcon={<FiUsers />} onClick={onFinish}>
+                  Ver personas
+                </Button>
+              )}
+            </HStack>
+          </VStack>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const isImporting = bulkCreateMutation.isPending;
+  const isChecking = checkProgress !== null;
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Carga del archivo */}
+      <Card>
+        <CardBody>
+          <VStack spacing={4} align="stretch">
+            <HStack justify="space-between" align="start" flexWrap="wrap" gap={3}>
+              <Box>
+                <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+                  1. Selecciona el archivo
+                </Text>
+                <Text fontSize="sm" color="gray.600">
+                  CSV (separado por ; o ,) o Excel (.xlsx). La primera fila debe contener los encabezados.
+                </Text>
+              </Box>
+              <Button size="sm" variant="ghost" leftIcon={<FiDownload />} onClick={handleDownloadTemplate}>
+                Descargar plantilla
+              </Button>
+            </HStack>
+
+            <HStack spacing={4} align="end" flexWrap="wrap">
+              <Box>
+                <Input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.txt,.xlsx"
+                  display="none"
+                  onChange={handleFileChange}
+                />
+                <Button
+                  leftIcon={<FiUpload />}
+                  colorScheme="blue"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  isDisabled={isImporting}
+                >
+                  {fileName ? 'Cambiar archivo' : 'Seleccionar archivo'}
+                </Button>
+              </Box>
+
+              <FormControl maxW="260px">
+                <FormLabel fontSize="sm">Tipo por defecto</FormLabel>
+                <Select
+                  size="sm"
+                  value={defaultTypeName}
+                  onChange={(e) => setDefaultTypeName(e.target.value as PersonType['name'])}
+                  isDisabled={isLoadingTypes || isImporting}
+                >
+                  <option value="student">Estudiante</option>
+                  <option value="teacher">Docente</option>
+                </Select>
+                <FormHelperText fontSize="xs">Se usa cuando el archivo no tiene columna Tipo</FormHelperText>
+              </FormControl>
+            </HStack>
+
+            {fileName && (
+              <HStack spacing={2} color="gray.700">
+                <Icon as={FiFile} />
+                <Text fontSize="sm">{fileName}</Text>
+              </HStack>
+            )}
+
+            {fileError && (
+              <Alert status="error" borderRadius="md">
+                <AlertIcon />
+                {fileError}
+              </Alert>
+            )}
+
+            {sheetRows.length > 0 && missingColumns.length > 0 && (
+              <Alert status="error" borderRadius="md">
+                <AlertIcon />
+                No se encontraron las columnas obligatorias:{' '}
+                {missingColumns.map(field => PERSON_IMPORT_FIELD_LABELS[field]).join(', ')}
+              </Alert>
+            )}
+          </VStack>
+        </CardBody>
+      </Card>
+
+      {/* Vista previa */}
+      {importRows.length > 0 && (
+        <Card>
+          <CardBody>
+            <VStack spacing={4} align="stretch">
+              <HStack justify="space-between" flexWrap="wrap" gap={3}>
+                <Box>
+                  <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+                    2. Revisa los datos
+                  </Text>
+                  <HStack spacing={2} mt={1}>
+                    <Badge colorScheme="green" variant="subtle">{counts.valid} válidas</Badge>
+                    <Badge colorScheme="orange" variant="subtle">{counts.duplicate} ya registradas</Badge>
+                    <Badge colorScheme="red" variant="subtle">{counts.invalid} con errores</Badge>
+                  </HStack>
+                </Box>
+                <FormControl display="flex" alignItems="center" w="auto">
+                  <FormLabel htmlFor="only-errors" mb={0} fontSize="sm">
+                    Solo filas con observaciones
+                  </FormLabel>
+                  <Switch
+                    id="only-errors"
+                    isChecked={showOnlyErrors}
+                    onChange={(e) => setShowOnlyErrors(e.target.checked)}
+                  />
+                </FormControl>
+              </HStack>
+
+              {isChecking && (
+                <Box>
+                  <Text fontSize="sm" color="gray.600" mb={1}>
+                    Verificando documentos registrados ({checkProgress.processed}/{checkProgress.total})...
+                  </Text>
+                  <Progress
+                    size="sm"
+                    colorScheme="blue"
+                    borderRadius="full"
+                    value={checkProgress.total ? (checkProgress.processed / checkProgress.total) * 100 : 0}
+                  />
+                </Box>
+              )}
+
+              <ImportPreviewTable rows={visibleRows} />
+
+              <Divider />
+
+              {/* Opciones y envío */}
+              <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+                3. Importa
+              </Text>
+              <VStack align="start" spacing={2}>
+                <Checkbox isChecked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)}>
+                  Omitir personas cuyo documento ya está registrado
+                </Checkbox>
+                <Checkbox isChecked={continueOnError} onChange={(e) => setContinueOnError(e.target.checked)}>
+                  Continuar si una fila falla al registrarse
+                </Checkbox>
+              </VStack>
+
+              {counts.invalid > 0 && (
+                <Alert status="warning" borderRadius="md" fontSize="sm">
+                  <AlertIcon />
+                  Las {counts.invalid} filas con errores no se importarán.
+                </Alert>
+              )}
+
+              {importProgress && (
+                <Box>
+                  <Text fontSize="sm" color="gray.600" mb={1}>
+                    Registrando personas ({importProgress.processed}/{importProgress.total})...
+                  </Text>
+                  <Progress
+                    size="sm"
+                    colorScheme="green"
+                    borderRadius="full"
+                    value={importProgress.total ? (importProgress.processed / importProgress.total) * 100 : 0}
+                  />
+                </Box>
+              )}
+
+              <HStack justify="flex-end" spacing={3}>
+                <Button variant="outline" onClick={handleReset} isDisabled={isImporting}>
+                  Cancelar
+                </Button>
+                <Button
+                  colorScheme="blue"
+                  leftIcon={<FiUpload />}
+                  onClick={handleImport}
+                  isLoading={isImporting}
+                  loadingText="Importando..."
+                  isDisabled={rowsToSubmit.length === 0 || missingColumns.length > 0 || isChecking}
+                >
+                  Importar {rowsToSubmit.length} persona{rowsToSubmit.length === 1 ? '' : 's'}
+                </Button>
+              </HStack>
+            </VStack>
+          </CardBody>
+        </Card>
+      )}
+    </VStack>
+  );
+}
@@ -0,0 +1,5 @@
+// src/components/people/PeopleImport/index.ts
+export { PeopleImport } from './PeopleImport';
+export { ImportPreviewTable } from './ImportPreviewTable';
+export { ImportResultSummary } from './ImportResultSummary';
+export type { PersonImportRow, PersonImportRowStatus } from './peopleImport.utils';
@@ -0,0 +1,157 @@
+// src/components/people/PeopleImport/peopleImport.utils.ts
+import { PersonValidationSchemaFactory, PersonBusinessRules } from '@/lib/validation';
+import { SpreadsheetUtils } from '@/utils';
+import type { CreatePersonRequest, PersonType } from '@/types/api.types';
+
+export type PersonImportField = 'firstName' | 'lastName' | 'documentNumber' | 'grade' | 'personType';
+
+export type PersonImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface PersonImportRow {
+  rowNumber: number;
+  data: CreatePersonRequest;
+  personTypeName?: PersonType['name'];
+  errors: string[];
+  status: PersonImportRowStatus;
+}
+
+// Encabezados aceptados para cada campo (ya normalizados)
+const COLUMN_ALIASES: Record<PersonImportField, string[]> = {
+  firstName: ['nombre', 'nombres', 'primer nombre', 'firstname', 'first name'],
+  lastName: ['apellido', 'apellidos', 'lastname', 'last name'],
+  documentNumber: [
+    'documento',
+    'numero de documento',
+    'numero documento',
+    'no documento',
+    'identificacion',
+    'cedula',
+    'tarjeta de identidad',
+    'documentnumber',
+  ],
+  grade: ['grado', 'curso', 'grade'],
+  personType: ['tipo', 'tipo de persona', 'tipo persona', 'rol', 'persontype'],
+};
+
+export const PERSON_IMPORT_FIELD_LABELS: Record<PersonImportField, string> = {
+  firstName: 'Nombres',
+  lastName: 'Apellidos',
+  documentNumber: 'Documento',
+  grade: 'Grado',
+  personType: 'Tipo',
+};
+
+const PERSON_TYPE_ALIASES: Record<PersonType['name'], string[]> = {
+  student: ['estudiante', 'alumno', 'student'],
+  teacher: ['docente', 'profesor', 'maestro', 'teacher'],
+};
+
+const normalize = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Relaciona cada campo con el índice de su columna en el archivo
+ */
+export function mapImportColumns(headers: string[]): Partial<Record<PersonImportField, number>> {
+  const mapping: Partial<Record<PersonImportField, number>> = {};
+  const normalizedHeaders = headers.map(normalize);
+
+  (Object.keys(COLUMN_ALIASES) as PersonImportField[]).forEach(field => {
+    const index = normalizedHeaders.findIndex(header => COLUMN_ALIASES[field].includes(header));
+    if (index >= 0) mapping[field] = index;
+  });
+
+  return mapping;
+}
+
+/**
+ * Resolver el tipo de persona a partir del texto de la celda
+ */
+export function resolvePersonTypeName(value: string): PersonType['name'] | undefined {
+  const normalized = normalize(value);
+  return (Object.keys(PERSON_TYPE_ALIASES) as PersonType['name'][]).find(name =>
+    PERSON_TYPE_ALIASES[name].includes(normalized)
+  );
+}
+
+/**
+ * Convierte las filas del archivo en filas de importación validadas
+ * Usa las mismas validaciones y reglas de negocio que PersonForm
+ */
+export function buildImportRows(
+  rows: string[][],
+  personTypes: PersonType[],
+  defaultTypeName: PersonType['name']
+): PersonImportRow[] {
+  const [headers = []] = rows;
+  const columns = mapImportColumns(headers);
+  const seenDocuments = new Map<string, number>();
+
+  const cell = (row: string[], field: PersonImportField): string => {
+    const index = columns[field];
+    return index !== undefined ? row[index] || '' : '';
+  };
+
+  return SpreadsheetUtils.getDataRows(rows).map(({ rowNumber, cells: row }) => {
+    const errors: string[] = [];
+
+    const rawType = cell(row, 'personType');
+    const personTypeName = rawType ? resolvePersonTypeName(rawType) : defaultTypeName;
+    const personType = personTypes.find(type => type.name === personTypeName);
+
+    if (!personTypeName) {
+      errors.push(`Tipo de persona no reconocido: "${rawType}"`);
+    }
+
+    const isStudent = personTypeName === 'student';
+    const rawData = {
+      firstName: cell(row, 'firstName'),
+      lastName: cell(row, 'lastName'),
+      documentNumber: cell(row, 'documentNumber'),
+      grade: cell(row, 'grade'),
+      personTypeId: personType?._id || '',
+    };
+
+    const validation = PersonValidationSchemaFactory.validatePersonData(rawData, isStudent);
+    if (!validation.success && validation.error) {
+      errors.push(...Object.values(PersonValidationSchemaFactory.getFormattedErrors(validation.error)));
+    }
+
+    const businessValidation = PersonBusinessRules.validateAllRules(rawData, isStudent);
+    errors.push(...businessValidation.errors);
+
+    const data: CreatePersonRequest = validation.success
+      ? validation.data
+      : {
+          firstName: rawData.firstName,
+          lastName: rawData.lastName,
+          documentNumber: rawData.documentNumber || undefined,
+          grade: rawData.grade || undefined,
+          personTypeId: rawData.personTypeId,
+        };
+
+    // Documentos repetidos dentro del mismo archivo
+    if (data.documentNumber) {
+      const firstRow = seenDocuments.get(data.documentNumber);
+      if (firstRow !== undefined) {
+        errors.push(`Documento repetido en el archivo (fila ${firstRow})`);
+      } else {
+        seenDocuments.set(data.documentNumber, rowNumber);
+      }
+    }
+
+    return {
+      rowNumber,
+      data,
+      personTypeName,
+      errors: Array.from(new Set(errors)),
+      status: errors.length > 0 ? 'invalid' : 'valid',
+    };
+  });
+}
@@ -12,17 +12,23 @@ import {
 interface LoadingRowsProps {
   count?: number;
   isCompact?: boolean;
+  isSelectable?: boolean;
 }
 
 /**
  * Subcomponente para mostrar filas de carga en la tabla
  * Responsabilidad única: Estados de carga de la tabla
  */
-export function LoadingRows({ count = 5, isCompact = false }: LoadingRowsProps) {
+export function LoadingRows({ count = 5, isCompact = false, isSelectable = false }: LoadingRowsProps) {
   return (
     <>
       {Array.from({ length: count }).map((_, index) => (
         <Tr key={index}>
+          {isSelectable && (
+            <Td>
+              <Skeleton boxSize="16px" borderRadius="sm" />
+            </Td>
+          )}
           <Td>
             <HStack spacing={3}>
               <Skeleton borderRadius="full" boxSize={isCompact ? '32px' : '48px'} />
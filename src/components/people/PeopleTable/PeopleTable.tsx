@@ -11,6 +11,7 @@ import {
   Box,
   Flex,
   Text,
+  Checkbox,
 } from '@chakra-ui/react';
 import { PersonTableRow } from './PersonTableRow';
 import { LoadingRows } from './LoadingRows';
@@ -27,6 +28,9 @@ interface PeopleTableProps {
   onCreate?: () => void;
   showActions?: boolean;
   isCompact?: boolean;
+  selectedIds?: Set<string>;
+  onSelectionChange?: (person: Person, selected: boolean) => void;
+  onSelectAll?: (people: Person[], selected: boolean) => void;
 }
 
 /**
@@ -52,7 +56,16 @@ export function PeopleTable({
   onCreate,
   showActions = true,
   isCompact = false,
+  selectedIds,
+  onSelectionChange,
+  onSelectAll,
 }: PeopleTableProps) {
+  // La selección solo se muestra cuando el padre la maneja
+  const isSelectable = !!onSelectionChange;
+  const selectedOnPage = isSelectable
+    ? people.filter(person => selectedIds?.has(person._id)).length
+    : 0;
+
   // Estado vacío
   if (!isLoading && people.length === 0) {
     return <EmptyPeople onCreate={onCreate} />;
@@ -64,6 +77,17 @@ export function PeopleTable({
         <Table variant="simple" size={isCompact ? 'sm' : 'md'}>
           <Thead>
             <Tr>
+              {isSelectable && (
+                <Th width="40px">
+                  <Checkbox
+                    isChecked={people.length > 0 && selectedOnPage === people.length}
+                    isIndeterminate={selectedOnPage > 0 && selectedOnPage < people.length}
+                    onChange={(e) => onSelectAll?.(people, e.target.checked)}
+                    isDisabled={isLoading || people.length === 0}
+                    aria-label="Seleccionar todas las personas de la página"
+                  />
+                </Th>
+              )}
               <Th>Persona</Th>
               <Th>Tipo</Th>
               <Th>Grado/Área</Th>
@@ -73,7 +97,7 @@ export function PeopleTable({
             </Tr>
           </Thead>
           <Tbody>
-            {isLoading && <LoadingRows isCompact={isCompact} />}
+            {isLoading && <LoadingRows isCompact={isCompact} isSelectable={isSelectable} />}
             
             {!isLoading &&
               people.map((person) => (
@@ -86,6 +110,9 @@ export function PeopleTable({
                   onDelete={onDelete}
                   showActions={showActions}
                   isCompact={isCompact}
+                  isSelectable={isSelectable}
+                  isSelected={selectedIds?.has(person._id)}
+                  onSelectChange={onSelectionChange}
                 />
               ))
             }
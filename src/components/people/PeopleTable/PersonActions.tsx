@@ -18,6 +18,7 @@ import {
   FiTrash2,
 } from 'react-icons/fi';
 import { SafeLink } from '@/components/ui/SafeLink';
+import { usePermissions } from '@/hooks/useAuth';
 import type { Person } from '@/types/api.types';
 
 interface PersonActionsProps {
@@ -30,6 +31,10 @@ interface PersonActionsProps {
  * Responsabilidad única: Presentación y manejo de acciones disponibles
  */
 export function PersonActions({ person, onActionClick }: PersonActionsProps) {
+  const { can } = usePermissions();
+  const canEdit = can('people.edit');
+  const canDelete = can('people.delete');
+
   return (
     <Menu>
       <MenuButton
@@ -46,16 +51,18 @@ export function PersonActions({ person, onActionClick }: PersonActionsProps) {
           </MenuItem>
         </SafeLink>
         
-        <MenuItem
-          icon={<FiEdit />}
-          onClick={() => onActionClick('edit')}
-        >
-          Editar
-        </MenuItem>
+        {canEdit && (
+          <MenuItem
+            icon={<FiEdit />}
+            onClick={() => onActionClick('edit')}
+          >
+            Editar
+          </MenuItem>
+        )}
 
-        <MenuDivider />
+        {canEdit && <MenuDivider />}
 
-        {person.active ? (
+        {canEdit && (person.active ? (
           <MenuItem
             icon={<FiUserX />}
             onClick={() => onActionClick('deactivate')}
@@ -71,16 +78,18 @@ export function PersonActions({ person, onActionClick }: PersonActionsProps) {
           >
             Activar
           </MenuItem>
-        )}
+        ))}
 
-        <MenuDivider />
-        <MenuItem
-          icon={<FiTrash2 />}
-          onClick={() => onActionClick('delete')}
-          color="red.600"
-        >
-          Eliminar
-        </MenuItem>
+        {canDelete && <MenuDivider />}
+        {canDelete && (
+          <MenuItem
+            icon={<FiTrash2 />}
+            onClick={() => onActionClick('delete')}
+            color="red.600"
+          >
+            Eliminar
+          </MenuItem>
+        )}
       </MenuList>
     </Menu>
   );
@@ -9,6 +9,7 @@ import {
   Text,
   Badge,
   Avatar,
+  Checkbox,
   useDisclosure,
 } from '@chakra-ui/react';
 import { useState } from 'react';
@@ -27,6 +28,9 @@ interface PersonTableRowProps {
   onDelete?: (person: Person) => void;
   showActions?: boolean;
   isCompact?: boolean;
+  isSelectable?: boolean;
+  isSelected?: boolean;
+  onSelectChange?: (person: Person, selected: boolean) => void;
 }
 
 /**
@@ -41,6 +45,9 @@ export function PersonTableRow({
   onDelete,
   showActions = true,
   isCompact = false,
+  isSelectable = false,
+  isSelected = false,
+  onSelectChange,
 }: PersonTableRowProps) {
   const [selectedAction, setSelectedAction] = useState<'delete' | 'deactivate' | null>(null);
   const { isOpen: isDeleteOpen, onOpen: onDeleteOpen, onClose: onDeleteClose } = useDisclosure();
@@ -129,8 +136,20 @@ export function PersonTableRow({
     <>
       <Tr
         _hover={{ bg: 'gray.50' }}
+        bg={isSelected ? 'blue.50' : undefined}
         opacity={person.active ? 1 : 0.6}
       >
+        {/* Selección */}
+        {isSelectable && (
+          <Td>
+            <Checkbox
+              isChecked={isSelected}
+              onChange={(e) => onSelectChange?.(person, e.target.checked)}
+              aria-label={`Seleccionar ${fullName}`}
+            />
+          </Td>
+        )}
+
         {/* Avatar y nombre */}
         <Td>
           <HStack spacing={3}>
@@ -0,0 +1,350 @@
+// src/components/people/PersonCirculation.tsx
+'use client';
+
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Button,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Alert,
+  AlertIcon,
+  Skeleton,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { FiBookOpen, FiCheckCircle, FiRefreshCw } from 'react-icons/fi';
+import ReturnModal from '@/components/loans/ReturnModal';
+import { CIRCULATION_QUERY_KEYS, usePersonLoans, useRenewCirculationLoan } from '@/hooks/useCirculation';
+import { LoanService } from '@/services/loan.service';
+import { usePermissions } from '@/hooks/useAuth';
+import { DateUtils } from '@/utils';
+import type { LoanWithDetails } from '@/types/loan.types';
+
+interface PersonCirculationProps {
+  personId: string;
+  onNewLoan?: () => void;
+}
+
+const HISTORY_PAGE_SIZE = 10;
+
+const isOpenLoan = (loan: LoanWithDetails) =>
+  !loan.returnedDate && loan.status?.name !== 'returned' && loan.status?.name !== 'lost';
+
+/**
+ * Cuenta regresiva hasta el vencimiento de un préstamo en curso
+ */
+function getCountdown(loan: LoanWithDetails): { label: string; color: string } {
+  if (loan.isOverdue || LoanService.isLoanOverdue(loan)) {
+    const days = loan.daysOverdue ?? LoanService.calculateDaysOverdue(loan.dueDate);
+    return { label: `Vencido hace ${days} día${days !== 1 ? 's' : ''}`, color: 'red' };
+  }
+
+  const msPerDay = 1000 * 60 * 60 * 24;
+  const daysLeft = Math.ceil((new Date(loan.dueDate).getTime() - Date.now()) / msPerDay);
+
+  if (daysLeft <= 0) return { label: 'Vence hoy', color: 'orange' };
+  return {
+    label: `Vence en ${daysLeft} día${daysLeft !== 1 ? 's' : ''}`,
+    color: daysLeft <= 3 ? 'yellow' : 'green',
+  };
+}
+
+/**
+ * Estado de un préstamo del historial
+ */
+function getHistoryStatus(loan: LoanWithDetails): { label: string; color: string } {
+  if (loan.status?.name === 'lost') return { label: 'Perdido', color: 'gray' };
+  if (loan.returnedDate || loan.status?.name === 'returned') {
+    return new Date(loan.returnedDate || loan.updatedAt) > new Date(loan.dueDate)
+      ? { label: 'Devuelto con retraso', color: 'orange' }
+      : { label: 'Devuelto', color: 'green' };
+  }
+  if (loan.isOverdue || LoanService.isLoanOverdue(loan)) return { label: 'Vencido', color: 'red' };
+  return { label: 'Activo', color: 'blue' };
+}
+
+/**
+ * Circulación de una persona: préstamos en curso con devolución y renovación
+ * rápidas, e historial completo paginado
+ */
+export function PersonCirculation({ personId, onNewLoan }: PersonCirculationProps) {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [returningLoan, setReturningLoan] = useState<LoanWithDetails | null>(null);
+  const { isOpen: isReturnOpen, onOpen: onReturnOpen, onClose: onReturnClose } = useDisclosure();
+  const { can } = usePermissions();
+
+  const {
+    data: openLoansPage,
+    isLoading: isLoadingOpen,
+    isError: isOpenError,
+  } = usePersonLoans(personId, { limit: 100 });
+  const {
+    data: historyPage,
+    isLoading: isLoadingHistory,
+    isError: isHistoryError,
+  } = usePersonLoans(personId, { page, limit: HISTORY_PAGE_SIZE });
+  const renewMutation = useRenewCirculationLoan();
+
+  const openLoans = useMemo(
+    () => (openLoansPage?.data || [])
+      .filter(isOpenLoan)
+      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()),
+    [openLoansPage]
+  );
+  const history = historyPage?.data || [];
+  const pagination = historyPage?.pagination;
+
+  const handleReturn = (loan: LoanWithDetails) => {
+    setReturningLoan(loan);
+    onReturnOpen();
+  };
+
+  const handleReturnClose = () => {
+    setReturningLoan(null);
+    onReturnClose();
+  };
+
+  const handleRenew = async (loan: LoanWithDetails) => {
+    try {
+      await renewMutation.mutateAsync(loan._id);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  return (
+    <>
+      <Card shadow="sm">
+        <CardHeader>
+          <HStack justify="space-between" flexWrap="wrap" gap={2}>
+            <Heading size="md" color="gray.700">
+              Préstamos en Curso
+            </Heading>
+            {onNewLoan && (
+              <Button leftIcon={<FiBookOpen />} colorScheme="blue" size="sm" onClick={onNewLoan}>
+                Nuevo Préstamo
+              </Button>
+            )}
+          </HStack>
+        </CardHeader>
+
+        <CardBody pt={0}>
+          {isLoadingOpen ? (
+            <VStack spacing={2} align="stretch">
+              <Skeleton height="32px" />
+              <Skeleton height="32px" />
+            </VStack>
+          ) : isOpenError ? (
+            <Alert status="error" borderRadius="md">
+              <AlertIcon />
+              <Text fontSize="sm">No se pudieron cargar los préstamos en curso.</Text>
+            </Alert>
+          ) : openLoans.length === 0 ? (
+            <Text fontSize="sm" color="gray.500" textAlign="center" py={4}>
+              Esta persona no tiene préstamos en curso
+            </Text>
+          ) : (
+            <TableContainer>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Recurso</Th>
+                    <Th>Prestado</Th>
+                    <Th>Vence</Th>
+                    <Th>Estado</Th>
+                    <Th>Acciones</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {openLoans.map(loan => {
+                    const countdown = getCountdown(loan);
+                    const canRenew = can('loans.renew') && !loan.isOverdue && !LoanService.isLoanOverdue(loan);
+                    const renewCount = LoanService.getRenewCount(loan);
+
+                    return (
+                      <Tr key={loan._id}>
+                        <Td>
+                          <VStack spacing={0} align="start">
+                            <Text fontSize="sm" fontWeight="medium" noOfLines={1}>
+                              {loan.resource?.title || 'Recurso'}
+                            </Text>
+                            {loan.copy && (
+                              <Text fontSize="xs" color="gray.500">
+                                Ejemplar {loan.copy.copyNumber} · {loan.copy.barcode}
+                              </Text>
+                            )}
+                            {renewCount > 0 && (
+                              <Text fontSize="xs" color="gray.500">
+                                Renovado {renewCount} {renewCount === 1 ? 'vez' : 'veces'}
+                              </Text>
+                            )}
+                          </VStack>
+                        </Td>
+                        <Td>
+                          <Text fontSize="sm">{DateUtils.formatDate(loan.loanDate)}</Text>
+                        </Td>
+                        <Td>
+                          <Text fontSize="sm">{DateUtils.formatDate(loan.dueDate)}</Text>
+                        </Td>
+                        <Td>
+                          <Badge colorScheme={countdown.color} variant="subtle">
+                            {countdown.label}
+                          </Badge>
+                        </Td>
+                        <Td>
+                          <HStack spacing={1}>
+                            {can('loans.return') && (
+                              <Button
+                                size="xs"
+                                colorScheme="green"
+                                variant="outline"
+                                leftIcon={<FiCheckCircle />}
+                                onClick={() => handleReturn(loan)}
+                              >
+                                Devolver
+                              </Button>
+                            )}
+                            {canRenew && (
+                              <Button
+                                size="xs"
+                                colorScheme="blue"
+                                variant="outline"
+                                leftIcon={<FiRefreshCw />}
+                                onClick={() => handleRenew(loan)}
+                                isLoading={renewMutation.isPending && renewMutation.variables === loan._id}
+                              >
+                                Renovar
+                              </Button>
+                            )}
+                          </HStack>
+                        </Td>
+                      </Tr>
+                    );
+                  })}
+                </Tbody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardBody>
+      </Card>
+
+      <Card shadow="sm" id="person-loan-history">
+        <CardHeader>
+          <HStack justify="space-between">
+            <Heading size="md" color="gray.700">
+              Historial Completo
+            </Heading>
+            {pagination && (
+              <Text fontSize="sm" color="gray.500">
+                {pagination.total} préstamo{pagination.total !== 1 ? 's' : ''}
+              </Text>
+            )}
+          </HStack>
+        </CardHeader>
+
+        <CardBody pt={0}>
+          {isLoadingHistory ? (
+            <VStack spacing={2} align="stretch">
+              <Skeleton height="32px" />
+              <Skeleton height="32px" />
+              <Skeleton height="32px" />
+            </VStack>
+          ) : isHistoryError ? (
+            <Alert status="error" borderRadius="md">
+              <AlertIcon />
+              <Text fontSize="sm">No se pudo cargar el historial de préstamos.</Text>
+            </Alert>
+          ) : history.length === 0 ? (
+            <Text fontSize="sm" color="gray.500" textAlign="center" py={4}>
+              Esta persona aún no tiene préstamos registrados
+            </Text>
+          ) : (
+            <VStack spacing={4} align="stretch">
+              <TableContainer>
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>Recurso</Th>
+                      <Th>Categoría</Th>
+                      <Th>Prestado</Th>
+                      <Th>Vencimiento</Th>
+                      <Th>Devuelto</Th>
+                      <Th>Estado</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {history.map(loan => {
+                      const status = getHistoryStatus(loan);
+
+                      return (
+                        <Tr key={loan._id}>
+                          <Td>
+                            <Text fontSize="sm" noOfLines={1}>{loan.resource?.title || 'Recurso'}</Text>
+                          </Td>
+                          <Td>
+                            <Text fontSize="sm" color="gray.600">{loan.resource?.category || '—'}</Text>
+                          </Td>
+                          <Td>
+                            <Text fontSize="sm">{DateUtils.formatDate(loan.loanDate)}</Text>
+                          </Td>
+                          <Td>
+                            <Text fontSize="sm">{DateUtils.formatDate(loan.dueDate)}</Text>
+                          </Td>
+                          <Td>
+                            <Text fontSize="sm">
+                              {loan.returnedDate ? DateUtils.formatDate(loan.returnedDate) : '—'}
+                            </Text>
+                          </Td>
+                          <Td>
+                            <Badge colorScheme={status.color} variant="subtle">
+                              {status.label}
+                            </Badge>
+                          </Td>
+                        </Tr>
+                      );
+                    })}
+                  </Tbody>
+                </Table>
+              </TableContainer>
+
+              {pagination && pagination.totalPages > 1 && (
+                <HStack justify="center" spacing={2}>
+                  <Button size="sm" isDisabled={!pagination.hasPrev} onClick={() => setPage(page - 1)}>
+                    Anterior
+                  </Button>
+                  <Text fontSize="sm">
+                    Página {pagination.page} de {pagination.totalPages}
+                  </Text>
+                  <Button size="sm" isDisabled={!pagination.hasNext} onClick={() => setPage(page + 1)}>
+                    Siguiente
+                  </Button>
+                </HStack>
+              )}
+            </VStack>
+          )}
+        </CardBody>
+      </Card>
+
+      <ReturnModal
+        loan={returningLoan}
+        isOpen={isReturnOpen}
+        onClose={handleReturnClose}
+        onSuccess={() => queryClient.invalidateQueries({ queryKey: CIRCULATION_QUERY_KEYS.person(personId) })}
+      />
+    </>
+  );
+}
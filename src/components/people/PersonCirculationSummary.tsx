@@ -0,0 +1,155 @@
+// src/components/people/PersonCirculationSummary.tsx
+'use client';
+
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  Skeleton,
+  Divider,
+} from '@chakra-ui/react';
+import { usePersonCirculationProfile, useCanPersonBorrow } from '@/hooks/useCirculation';
+import { DateUtils } from '@/utils';
+
+interface PersonCirculationSummaryProps {
+  personId: string;
+}
+
+/**
+ * Resumen de circulación de una persona: totales, categorías preferidas
+ * y restricciones vigentes para tomar préstamos
+ */
+export function PersonCirculationSummary({ personId }: PersonCirculationSummaryProps) {
+  const { data: profile, isLoading, isError } = usePersonCirculationProfile(personId);
+  const { data: canBorrow } = useCanPersonBorrow(personId);
+
+  const restrictions = canBorrow?.restrictions;
+  const restrictionLabels = restrictions
+    ? [
+        !restrictions.isPersonActive && 'Persona inactiva',
+        restrictions.hasOverdueLoans && 'Tiene préstamos vencidos',
+        restrictions.hasReachedLimit && 'Alcanzó el límite de préstamos',
+        restrictions.hasActivePenalties && 'Tiene sanciones activas',
+      ].filter((label): label is string => !!label)
+    : [];
+
+  return (
+    <Card shadow="sm">
+      <CardHeader>
+        <HStack justify="space-between">
+          <Heading size="md" color="gray.700">
+            Historial de Préstamos
+          </Heading>
+          {canBorrow && (
+            <Badge colorScheme={canBorrow.canBorrow ? 'green' : 'red'} px={2} py={1}>
+              {canBorrow.canBorrow ? 'Puede pedir préstamos' : 'No puede pedir préstamos'}
+            </Badge>
+          )}
+        </HStack>
+      </CardHeader>
+
+      <CardBody pt={0}>
+        {isLoading ? (
+          <VStack spacing={3} align="stretch">
+            <Skeleton height="64px" />
+            <Skeleton height="24px" />
+          </VStack>
+        ) : isError || !profile ? (
+          <Alert status="error" borderRadius="md">
+            <AlertIcon />
+            <Text fontSize="sm">No se pudo cargar el historial de préstamos.</Text>
+          </Alert>
+        ) : (
+          <VStack spacing={4} align="stretch">
+            {profile.truncated && (
+              <Alert status="warning" borderRadius="md">
+                <AlertIcon />
+                <AlertDescription fontSize="sm">
+                  El historial es muy extenso: las cifras se calcularon sobre {profile.loansScanned} de{' '}
+                  {profile.totalLoans} préstamos y pueden estar incompletas.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <SimpleGrid columns={2} spacing={4}>
+              <Stat textAlign="center">
+                <StatLabel>Préstamos Totales</StatLabel>
+                <StatNumber color="blue.600">{profile.totalLoans}</StatNumber>
+                <StatHelpText>
+                  {profile.lastLoanDate ? `Último: ${DateUtils.formatDate(profile.lastLoanDate)}` : 'Sin préstamos'}
+                </StatHelpText>
+              </Stat>
+
+              <Stat textAlign="center">
+                <StatLabel>Préstamos Activos</StatLabel>
+                <StatNumber color="green.600">{profile.activeLoans}</StatNumber>
+                <StatHelpText>
+                  {canBorrow?.maxLoansAllowed ? `Máximo ${canBorrow.maxLoansAllowed}` : 'En curso'}
+                </StatHelpText>
+              </Stat>
+
+              <Stat textAlign="center">
+                <StatLabel>Vencidos</StatLabel>
+                <StatNumber color={profile.overdueLoans > 0 ? 'red.600' : 'gray.600'}>
+                  {profile.overdueLoans}
+                </StatNumber>
+                <StatHelpText>Sin devolver</StatHelpText>
+              </Stat>
+
+              <Stat textAlign="center">
+                <StatLabel>Devueltos</StatLabel>
+                <StatNumber color="gray.600">{profile.returnedLoans}</StatNumber>
+                <StatHelpText>
+                  {profile.returnedLateCount > 0 ? `${profile.returnedLateCount} con retraso` : 'A tiempo'}
+                </StatHelpText>
+              </Stat>
+            </SimpleGrid>
+
+            {profile.favoriteCategories.length > 0 && (
+              <>
+                <Divider />
+                <VStack align="start" spacing={2}>
+                  <Text fontSize="sm" fontWeight="medium" color="gray.700">
+                    Categorías preferidas
+                  </Text>
+                  <HStack spacing={2} flexWrap="wrap">
+                    {profile.favoriteCategories.map(({ category, count }) => (
+                      <Badge key={category} colorScheme="purple" variant="subtle">
+                        {category} · {count}
+                      </Badge>
+                    ))}
+                  </HStack>
+                </VStack>
+              </>
+            )}
+
+            {canBorrow && !canBorrow.canBorrow && (
+              <Alert status="warning" borderRadius="md" alignItems="start">
+                <AlertIcon />
+                <AlertDescription fontSize="sm">
+                  <Text>{canBorrow.reason || 'Esta persona no puede tomar préstamos'}</Text>
+                  {restrictionLabels.length > 0 && (
+                    <Text color="gray.600">{restrictionLabels.join(' · ')}</Text>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+          </VStack>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+// src/components/people/PortalPinModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  FormHelperText,
+  Input,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { FiKey } from 'react-icons/fi';
+import { useSetPortalPin } from '@/hooks/usePeople';
+import type { Person } from '@/types/api.types';
+
+interface PortalPinModalProps {
+  person: Person;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+/**
+ * Asignar o restablecer el PIN con el que la persona entra al portal de autoservicio
+ */
+export function PortalPinModal({ person, isOpen, onClose }: PortalPinModalProps) {
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const setPinMutation = useSetPortalPin();
+
+  useEffect(() => {
+    if (isOpen) {
+      setPin('');
+      setConfirmPin('');
+    }
+  }, [isOpen]);
+
+  const pinError = pin && !PIN_PATTERN.test(pin) ? 'El PIN debe tener entre 4 y 6 dígitos' : '';
+  const confirmError = confirmPin && confirmPin !== pin ? 'Los PIN no coinciden' : '';
+  const canSubmit = PIN_PATTERN.test(pin) && pin === confirmPin;
+
+  const handleConfirm = async () => {
+    if (!canSubmit) return;
+
+    try {
+      await setPinMutation.mutateAsync({ id: person._id, pin });
+      onClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="sm">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            <FiKey />
+            <Text>PIN del Portal</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Text fontSize="sm" color="gray.600">
+              {person.hasPortalPin
+                ? `${person.fullName} ya tiene un PIN. Al guardar uno nuevo, el anterior deja de funcionar.`
+                : `${person.fullName} podrá entrar al portal con su número de documento y este PIN.`}
+            </Text>
+
+            {!person.documentNumber && (
+              <Text fontSize="sm" color="orange.600">
+                La persona no tiene número de documento registrado; sin él no podrá ingresar.
+              </Text>
+            )}
+
+            <FormControl isInvalid={!!pinError}>
+              <FormLabel fontSize="sm">Nuevo PIN</FormLabel>
+              <Input
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                autoComplete="new-password"
+              />
+              {pinError ? (
+                <FormErrorMessage>{pinError}</FormErrorMessage>
+              ) : (
+                <FormHelperText fontSize="xs">Entre 4 y 6 dígitos</FormHelperText>
+              )}
+            </FormControl>
+
+            <FormControl isInvalid={!!confirmError}>
+              <FormLabel fontSize="sm">Confirmar PIN</FormLabel>
+              <Input
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                value={confirmPin}
+                onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                autoComplete="new-password"
+              />
+              <FormErrorMessage>{confirmError}</FormErrorMessage>
+            </FormControl>
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={setPinMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme="blue"
+              leftIcon={<FiKey />}
+              onClick={handleConfirm}
+              isLoading={setPinMutation.isPending}
+              isDisabled={!canSubmit}
+            >
+              Guardar PIN
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -3,4 +3,9 @@ export { PersonForm } from './PersonForm';
 export { PeopleTable } from './PeopleTable';
 export { PeopleFilters } from './PeopleFilters';
 export type { PeopleFiltersState } from './PeopleFilters';
-export { PersonSearch } from './PersonSearch/PersonSearch';
\ No newline at end of file
+export { PersonSearch } from './PersonSearch/PersonSearch';
+export { PeopleImport } from './PeopleImport';
+export { LibraryCardsModal } from './LibraryCards';
+export { PortalPinModal } from './PortalPinModal';
+export { PersonCirculation } from './PersonCirculation';
+export { PersonCirculationSummary } from './PersonCirculationSummary';
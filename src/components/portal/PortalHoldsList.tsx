@@ -0,0 +1,75 @@
+// src/components/portal/PortalHoldsList.tsx
+'use client';
+
+import {
+  VStack,
+  HStack,
+  Card,
+  CardBody,
+  Text,
+  Badge,
+  Alert,
+  AlertIcon,
+  Skeleton,
+} from '@chakra-ui/react';
+import { HOLD_STATUS_CONFIG } from '@/components/holds/hold.config';
+import { LoanService } from '@/services/loan.service';
+import type { HoldWithDetails } from '@/types/hold.types';
+
+interface PortalHoldsListProps {
+  holds: HoldWithDetails[];
+  isLoading?: boolean;
+}
+
+export function PortalHoldsList({ holds, isLoading = false }: PortalHoldsListProps) {
+  if (isLoading) {
+    return (
+      <VStack align="stretch" spacing={3}>
+        <Skeleton height="72px" />
+        <Skeleton height="72px" />
+      </VStack>
+    );
+  }
+
+  if (holds.length === 0) {
+    return (
+      <Alert status="info" borderRadius="md">
+        <AlertIcon />
+        No tienes reservas. Puedes reservar recursos prestados desde el catálogo.
+      </Alert>
+    );
+  }
+
+  return (
+    <VStack align="stretch" spacing={3}>
+      {holds.map(hold => {
+        const statusConfig = HOLD_STATUS_CONFIG[hold.status];
+
+        return (
+          <Card key={hold._id} variant="outline">
+            <CardBody py={3}>
+              <HStack justify="space-between" align="start" spacing={4}>
+                <VStack align="start" spacing={1} flex={1} minW={0}>
+                  <Text fontWeight="medium" color="gray.800" noOfLines={2}>
+                    {hold.resource?.title || 'Recurso'}
+                  </Text>
+                  <Text fontSize="sm" color="gray.600">
+                    Reservado el {LoanService.formatDisplayDate(hold.createdAt)}
+                  </Text>
+                  {hold.status === 'ready' && hold.expiresAt && (
+                    <Text fontSize="sm" color="green.700" fontWeight="medium">
+                      Retíralo antes del {LoanService.formatDisplayDate(hold.expiresAt)}
+                    </Text>
+                  )}
+                </VStack>
+                <Badge colorScheme={statusConfig.color} flexShrink={0}>
+                  {statusConfig.label}
+                </Badge>
+              </HStack>
+            </CardBody>
+          </Card>
+        );
+      })}
+    </VStack>
+  );
+}
@@ -0,0 +1,83 @@
+// src/components/portal/PortalLayout.tsx
+'use client';
+
+import { ReactNode } from 'react';
+import {
+  Box,
+  Container,
+  Flex,
+  HStack,
+  Heading,
+  Text,
+  Button,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FiBookOpen, FiLogOut, FiSearch } from 'react-icons/fi';
+import { usePortalPerson, usePortalLogout } from '@/hooks/usePortal';
+
+interface PortalLayoutProps {
+  children: ReactNode;
+}
+
+/**
+ * Marco del portal de lectores: independiente del DashboardLayout y de la sesión del personal
+ */
+export function PortalLayout({ children }: PortalLayoutProps) {
+  const router = useRouter();
+  const { data: person } = usePortalPerson();
+  const logoutMutation = usePortalLogout();
+
+  const handleLogout = async () => {
+    await logoutMutation.mutateAsync();
+    router.replace('/portal/login');
+  };
+
+  return (
+    <Box minH="100vh" bg="gray.50">
+      <Box as="header" bg="white" borderBottom="1px" borderColor="gray.200">
+        <Container maxW="4xl" py={4}>
+          <Flex justify="space-between" align="center" gap={4}>
+            <HStack spacing={3}>
+              <Box p={2} bg="purple.50" borderRadius="lg">
+                <FiBookOpen size={24} color="#805AD5" />
+              </Box>
+              <Box>
+                <Heading size="md" color="gray.800">
+                  Mi Biblioteca
+                </Heading>
+                {person && (
+                  <Text fontSize="sm" color="gray.600">
+                    {person.fullName}
+                    {person.grade && ` · ${person.grade}`}
+                  </Text>
+                )}
+              </Box>
+            </HStack>
+
+            <HStack spacing={2}>
+              <Button as={NextLink} href="/catalog" size="sm" variant="ghost" leftIcon={<FiSearch />}>
+                Catálogo
+              </Button>
+              {person && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<FiLogOut />}
+                  onClick={handleLogout}
+                  isLoading={logoutMutation.isPending}
+                >
+                  Salir
+                </Button>
+              )}
+            </HStack>
+          </Flex>
+        </Container>
+      </Box>
+
+      <Container as="main" maxW="4xl" py={8}>
+        {children}
+      </Container>
+    </Box>
+  );
+}
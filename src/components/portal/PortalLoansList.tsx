@@ -0,0 +1,129 @@
+// src/components/portal/PortalLoansList.tsx
+'use client';
+
+import {
+  VStack,
+  HStack,
+  Card,
+  CardBody,
+  Text,
+  Badge,
+  Button,
+  Alert,
+  AlertIcon,
+  Skeleton,
+} from '@chakra-ui/react';
+import { FiRefreshCw } from 'react-icons/fi';
+import { LoanService } from '@/services/loan.service';
+import { getDueStatus, RENEWAL_REQUEST_STATUS_CONFIG } from './portal.config';
+import type { LoanWithDetails } from '@/types/loan.types';
+import type { RenewalRequestWithDetails } from '@/types/portal.types';
+
+interface PortalLoansListProps {
+  loans: LoanWithDetails[];
+  isLoading?: boolean;
+  // active: préstamos en curso con renovación · history: préstamos ya cerrados
+  mode: 'active' | 'history';
+  renewalRequests?: RenewalRequestWithDetails[];
+  onRequestRenewal?: (loan: LoanWithDetails) => void;
+}
+
+export function PortalLoansList({
+  loans,
+  isLoading = false,
+  mode,
+  renewalRequests = [],
+  onRequestRenewal,
+}: PortalLoansListProps) {
+  if (isLoading) {
+    return (
+      <VStack align="stretch" spacing={3}>
+        <Skeleton height="88px" />
+        <Skeleton height="88px" />
+      </VStack>
+    );
+  }
+
+  if (loans.length === 0) {
+    return (
+      <Alert status="info" borderRadius="md">
+        <AlertIcon />
+        {mode === 'active' ? 'No tienes préstamos activos' : 'Aún no tienes préstamos devueltos'}
+      </Alert>
+    );
+  }
+
+  // Última solicitud de cada préstamo
+  const latestRequest = new Map<string, RenewalRequestWithDetails>();
+  [...renewalRequests]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .forEach(request => latestRequest.set(request.loanId, request));
+
+  return (
+    <VStack align="stretch" spacing={3}>
+      {loans.map(loan => {
+        const request = latestRequest.get(loan._id);
+        const dueStatus = mode === 'active' ? getDueStatus(loan) : null;
+        const renewCount = LoanService.getRenewCount(loan);
+
+        return (
+          <Card key={loan._id} variant="outline">
+            <CardBody py={3}>
+              <HStack justify="space-between" align="start" spacing={4}>
+                <VStack align="start" spacing={1} flex={1} minW={0}>
+                  <Text fontWeight="medium" color="gray.800" noOfLines={2}>
+                    {loan.resource?.title || 'Recurso'}
+                  </Text>
+                  <Text fontSize="sm" color="gray.600">
+                    Prestado el {LoanService.formatDisplayDate(loan.loanDate)}
+                    {mode === 'active'
+                      ? ` · Devolver antes del ${LoanService.formatDisplayDate(loan.dueDate)}`
+                      : loan.returnedDate && ` · Devuelto el ${LoanService.formatDisplayDate(loan.returnedDate)}`}
+                  </Text>
+                  {renewCount > 0 && (
+                    <Text fontSize="xs" color="gray.500">
+                      Renovado {renewCount} {renewCount === 1 ? 'vez' : 'veces'}
+                    </Text>
+                  )}
+                  {request?.status === 'rejected' && request.reviewNotes && (
+                    <Text fontSize="xs" color="red.600">
+                      Motivo del rechazo: {request.reviewNotes}
+                    </Text>
+                  )}
+                </VStack>
+
+                <VStack align="end" spacing={2} flexShrink={0}>
+                  {dueStatus ? (
+                    <Badge colorScheme={dueStatus.color}>{dueStatus.label}</Badge>
+                  ) : (
+                    <Badge colorScheme={loan.status?.name === 'lost' ? 'red' : 'gray'}>
+                      {loan.status?.description || 'Devuelto'}
+                    </Badge>
+                  )}
+
+                  {mode === 'active' && (
+                    request?.status === 'pending' ? (
+                      <Badge colorScheme={RENEWAL_REQUEST_STATUS_CONFIG.pending.color} variant="outline">
+                        {RENEWAL_REQUEST_STATUS_CONFIG.pending.label}
+                      </Badge>
+                    ) : (
+                      <Button
+                        size="xs"
+                        variant="outline"
+                        colorScheme="purple"
+                        leftIcon={<FiRefreshCw />}
+                        onClick={() => onRequestRenewal?.(loan)}
+                      >
+                        Solicitar renovación
+                      </Button>
+                    )
+                  )}
+                </VStack>
+              </HStack>
+            </CardBody>
+          </Card>
+        );
+      })}
+    </VStack>
+  );
+}
@@ -0,0 +1,112 @@
+// src/components/portal/PortalLoginForm.tsx
+'use client';
+
+import {
+  Card,
+  CardBody,
+  VStack,
+  Heading,
+  Text,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  Input,
+  Button,
+} from '@chakra-ui/react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FiLogIn } from 'react-icons/fi';
+import { usePortalLogin } from '@/hooks/usePortal';
+
+const portalLoginSchema = z.object({
+  documentNumber: z
+    .string()
+    .trim()
+    .min(1, 'El número de documento es requerido')
+    .max(20, 'El número de documento es demasiado largo'),
+  pin: z
+    .string()
+    .regex(/^\d{4,6}$/, 'El PIN tiene entre 4 y 6 dígitos'),
+});
+
+type PortalLoginFormData = z.infer<typeof portalLoginSchema>;
+
+interface PortalLoginFormProps {
+  onSuccess: () => void;
+}
+
+export function PortalLoginForm({ onSuccess }: PortalLoginFormProps) {
+  const loginMutation = usePortalLogin();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<PortalLoginFormData>({
+    resolver: zodResolver(portalLoginSchema),
+    defaultValues: { documentNumber: '', pin: '' },
+  });
+
+  const onSubmit = async (data: PortalLoginFormData) => {
+    try {
+      await loginMutation.mutateAsync(data);
+      onSuccess();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  return (
+    <Card w="full" maxW="sm" mx="auto" shadow="md">
+      <CardBody p={8}>
+        <VStack as="form" spacing={5} align="stretch" onSubmit={handleSubmit(onSubmit)} noValidate>
+          <VStack spacing={1} textAlign="center">
+            <Heading size="md" color="gray.800">
+              Mi Biblioteca
+            </Heading>
+            <Text fontSize="sm" color="gray.600">
+              Consulta tus préstamos y reservas
+            </Text>
+          </VStack>
+
+          <FormControl isInvalid={!!errors.documentNumber}>
+            <FormLabel fontSize="sm">Número de documento</FormLabel>
+            <Input
+              {...register('documentNumber')}
+              autoComplete="username"
+              inputMode="numeric"
+              autoFocus
+            />
+            <FormErrorMessage>{errors.documentNumber?.message}</FormErrorMessage>
+          </FormControl>
+
+          <FormControl isInvalid={!!errors.pin}>
+            <FormLabel fontSize="sm">PIN</FormLabel>
+            <Input
+              {...register('pin')}
+              type="password"
+              autoComplete="current-password"
+              inputMode="numeric"
+              maxLength={6}
+            />
+            <FormErrorMessage>{errors.pin?.message}</FormErrorMessage>
+          </FormControl>
+
+          <Button
+            type="submit"
+            colorScheme="blue"
+            leftIcon={<FiLogIn />}
+            isLoading={loginMutation.isPending}
+          >
+            Ingresar
+          </Button>
+
+          <Text fontSize="xs" color="gray.500" textAlign="center">
+            ¿No tienes PIN o lo olvidaste? Pídelo en la biblioteca.
+          </Text>
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+// src/components/portal/RequestRenewalModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Box,
+  FormControl,
+  FormLabel,
+  Textarea,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { FiRefreshCw } from 'react-icons/fi';
+import { useRequestRenewal } from '@/hooks/usePortal';
+import { LoanService } from '@/services/loan.service';
+import type { LoanWithDetails } from '@/types/loan.types';
+
+interface RequestRenewalModalProps {
+  loan: LoanWithDetails | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function RequestRenewalModal({ loan, isOpen, onClose }: RequestRenewalModalProps) {
+  const [notes, setNotes] = useState('');
+  const requestMutation = useRequestRenewal();
+
+  useEffect(() => {
+    if (isOpen) setNotes('');
+  }, [isOpen]);
+
+  const handleConfirm = async () => {
+    if (!loan) return;
+
+    try {
+      await requestMutation.mutateAsync({ loanId: loan._id, notes });
+      onClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  if (!loan) return null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            <FiRefreshCw />
+            <Text>Solicitar Renovación</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Box p={3} bg="gray.50" borderRadius="md">
+              <Text fontWeight="medium">{loan.resource?.title}</Text>
+              <Text fontSize="sm" color="gray.600">
+                Devolver antes del {LoanService.formatDisplayDate(loan.dueDate)}
+              </Text>
+            </Box>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Comentario para la biblioteca</FormLabel>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Opcional: ¿por qué necesitas más tiempo?"
+                rows={3}
+                maxLength={500}
+              />
+            </FormControl>
+
+            <Text fontSize="xs" color="gray.500">
+              Un bibliotecario revisará tu solicitud. Mientras tanto, la fecha de devolución
+              sigue siendo la actual.
+            </Text>
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={requestMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme="purple"
+              leftIcon={<FiRefreshCw />}
+              onClick={handleConfirm}
+              isLoading={requestMutation.isPending}
+            >
+              Enviar solicitud
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,9 @@
+// src/components/portal/index.ts
+// Barrel export para el portal de autoservicio de lectores
+
+export { PortalLayout } from './PortalLayout';
+export { PortalLoginForm } from './PortalLoginForm';
+export { PortalLoansList } from './PortalLoansList';
+export { PortalHoldsList } from './PortalHoldsList';
+export { RequestRenewalModal } from './RequestRenewalModal';
+export { RENEWAL_REQUEST_STATUS_CONFIG, getDueStatus } from './portal.config';
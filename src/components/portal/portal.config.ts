@@ -0,0 +1,33 @@
+// src/components/portal/portal.config.ts
+import { LoanService } from '@/services/loan.service';
+import type { LoanWithDetails } from '@/types/loan.types';
+import type { RenewalRequestStatus } from '@/types/portal.types';
+
+export const RENEWAL_REQUEST_STATUS_CONFIG: Record<RenewalRequestStatus, { label: string; color: string }> = {
+  pending: { label: 'Renovación solicitada', color: 'purple' },
+  approved: { label: 'Renovación aprobada', color: 'green' },
+  rejected: { label: 'Renovación rechazada', color: 'red' },
+  cancelled: { label: 'Solicitud retirada', color: 'gray' },
+};
+
+// Días antes del vencimiento en que se avisa que el préstamo vence pronto
+const DUE_SOON_DAYS = 3;
+
+/**
+ * Estado de vencimiento de un préstamo activo, en palabras para el lector
+ */
+export function getDueStatus(loan: LoanWithDetails): { label: string; color: string } {
+  if (loan.isOverdue || LoanService.isLoanOverdue(loan)) {
+    const days = loan.daysOverdue ?? LoanService.calculateDaysOverdue(loan.dueDate);
+    return { label: `Vencido hace ${days} día${days !== 1 ? 's' : ''}`, color: 'red' };
+  }
+
+  const msPerDay = 1000 * 60 * 60 * 24;
+  const daysLeft = Math.ceil((new Date(loan.dueDate).getTime() - Date.now()) / msPerDay);
+
+  if (daysLeft <= 0) return { label: 'Vence hoy', color: 'orange' };
+  if (daysLeft <= DUE_SOON_DAYS) {
+    return { label: `Vence en ${daysLeft} día${daysLeft !== 1 ? 's' : ''}`, color: 'yellow' };
+  }
+  return { label: 'Al día', color: 'green' };
+}
@@ -0,0 +1,152 @@
+// src/components/reports/InventoryReportView.tsx
+'use client';
+
+import {
+  VStack,
+  SimpleGrid,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Box,
+  Text,
+  Tabs,
+  TabList,
+  Tab,
+  TabPanels,
+  TabPanel,
+} from '@chakra-ui/react';
+import { useInventoryReport } from '@/hooks/useReports';
+import { ReportService } from '@/services/report.service';
+import { ReportSection, ReportStat } from './ReportSection';
+import { ReportBarList } from './ReportBarList';
+import type { InventoryGroupRow } from '@/types/report.types';
+
+const GROUP_TABS = [
+  { key: 'byCategory', label: 'Categoría' },
+  { key: 'byLocation', label: 'Ubicación' },
+  { key: 'byState', label: 'Estado' },
+  { key: 'byType', label: 'Tipo' },
+] as const;
+
+function InventoryGroupTable({ rows }: { rows: InventoryGroupRow[] }) {
+  if (rows.length === 0) {
+    return (
+      <Text fontSize="sm" color="gray.500" textAlign="center" py={6}>
+        No hay recursos registrados
+      </Text>
+    );
+  }
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <ReportBarList
+        items={rows.map(row => ({
+          label: row.name,
+          value: row.total,
+          helpText: `${row.available} disponibles`,
+        }))}
+        colorScheme="purple"
+      />
+      <Box overflowX="auto">
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Grupo</Th>
+              <Th isNumeric>Total</Th>
+              <Th isNumeric>Disponibles</Th>
+              <Th isNumeric>Prestados</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {rows.map(row => (
+              <Tr key={row.name}>
+                <Td fontWeight="medium">{row.name}</Td>
+                <Td isNumeric>{row.total}</Td>
+                <Td isNumeric color="green.600">{row.available}</Td>
+                <Td isNumeric color="orange.600">{row.borrowed}</Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </Box>
+    </VStack>
+  );
+}
+
+export function InventoryReportView() {
+  const { data: report, isLoading, error } = useInventoryReport();
+
+  const handleExport = () => {
+    if (!report) return;
+    const rows = GROUP_TABS.flatMap(tab =>
+      report[tab.key].map(row => ({ group: tab.label, ...row }))
+    );
+    ReportService.downloadCSV('inventario', rows, [
+      { key: 'group', label: 'Agrupación' },
+      { key: 'name', label: 'Grupo' },
+      { key: 'total', label: 'Total' },
+      { key: 'available', label: 'Disponibles' },
+      { key: 'borrowed', label: 'Prestados' },
+    ]);
+  };
+
+  return (
+    <ReportSection
+      title="Inventario"
+      description="Distribución actual de recursos por categoría, ubicación, estado y tipo"
+      isLoading={isLoading}
+      error={error}
+      onExport={handleExport}
+    >
+      {report && (
+        <VStack spacing={6} align="stretch">
+          <SimpleGrid columns={{ base: 2, md: 3, lg: 6 }} spacing={4}>
+            <ReportStat label="Recursos" value={report.totals.total} color="blue.600" />
+            <ReportStat label="Disponibles" value={report.totals.available} color="green.600" />
+            <ReportStat label="Prestados" value={report.totals.borrowed} color="orange.600" />
+            {report.stock && (
+              <>
+                <ReportStat label="Unidades totales" value={report.stock.totalUnits} />
+                <ReportStat label="Unidades prestadas" value={report.stock.loanedUnits} />
+                <ReportStat label="Sin stock" value={report.stock.resourcesWithoutStock} color="red.600" />
+              </>
+            )}
+          </SimpleGrid>
+
+          <Tabs variant="soft-rounded" colorScheme="purple" size="sm">
+            <TabList flexWrap="wrap" gap={2}>
+              {GROUP_TABS.map(tab => (
+                <Tab key={tab.key}>Por {tab.label.toLowerCase()}</Tab>
+              ))}
+            </TabList>
+            <TabPanels>
+              {GROUP_TABS.map(tab => (
+                <TabPanel key={tab.key} px={0}>
+                  <InventoryGroupTable rows={report[tab.key]} />
+                </TabPanel>
+              ))}
+            </TabPanels>
+          </Tabs>
+
+          {report.stock && report.stock.lowStockResources.length > 0 && (
+            <Box>
+              <Text fontWeight="semibold" mb={3}>Recursos con poco stock</Text>
+              <ReportBarList
+                items={report.stock.lowStockResources.map(item => ({
+                  label: item.title,
+                  value: item.availableQuantity,
+                  helpText: `de ${item.totalQuantity}`,
+                }))}
+                colorScheme="red"
+                maxItems={10}
+              />
+            </Box>
+          )}
+        </VStack>
+      )}
+    </ReportSection>
+  );
+}
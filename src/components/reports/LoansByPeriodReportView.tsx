@@ -0,0 +1,117 @@
+// src/components/reports/LoansByPeriodReportView.tsx
+'use client';
+
+import {
+  VStack,
+  SimpleGrid,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Box,
+  Text,
+} from '@chakra-ui/react';
+import { useLoansByPeriodReport } from '@/hooks/useReports';
+import { ReportService } from '@/services/report.service';
+import { ReportSection, ReportStat } from './ReportSection';
+import { ReportBarList } from './ReportBarList';
+import type { ReportFilters, LoansByPeriodRow } from '@/types/report.types';
+
+interface LoansByPeriodReportViewProps {
+  filters: ReportFilters;
+}
+
+export function LoansByPeriodReportView({ filters }: LoansByPeriodReportViewProps) {
+  const { data: report, isLoading, error } = useLoansByPeriodReport(filters);
+
+  const handleExport = () => {
+    if (!report) return;
+    ReportService.downloadCSV<LoansByPeriodRow>('prestamos-por-periodo', report.periods, [
+      { key: 'label', label: 'Período' },
+      { key: 'loans', label: 'Préstamos' },
+      { key: 'quantity', label: 'Unidades' },
+      { key: 'returned', label: 'Devueltos' },
+      { key: 'overdue', label: 'Vencidos' },
+    ]);
+  };
+
+  return (
+    <ReportSection
+      title="Préstamos por período"
+      description="Préstamos registrados en el rango seleccionado, agrupados por fecha de préstamo"
+      isLoading={isLoading}
+      error={error}
+      isTruncated={report?.truncated}
+      onExport={handleExport}
+    >
+      {report && (
+        <VStack spacing={6} align="stretch">
+          <SimpleGrid columns={{ base: 2, md: 3, lg: 6 }} spacing={4}>
+            <ReportStat label="Préstamos" value={report.totals.loans} color="blue.600" />
+            <ReportStat label="Unidades" value={report.totals.quantity} />
+            <ReportStat label="Activos" value={report.totals.active} color="green.600" />
+            <ReportStat label="Devueltos" value={report.totals.returned} color="purple.600" />
+            <ReportStat label="Vencidos" value={report.totals.overdue} color="red.600" />
+            <ReportStat label="Perdidos" value={report.totals.lost} color="gray.600" />
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <ReportStat
+              label="Préstamos a estudiantes"
+              value={report.byPersonType.students}
+              color="blue.600"
+            />
+            <ReportStat
+              label="Préstamos a docentes"
+              value={report.byPersonType.teachers}
+              color="purple.600"
+            />
+          </SimpleGrid>
+
+          <Box>
+            <Text fontWeight="semibold" mb={3}>Evolución</Text>
+            <ReportBarList
+              items={report.periods.map(period => ({
+                label: period.label,
+                value: period.loans,
+                helpText: period.overdue > 0 ? `${period.overdue} vencidos` : undefined,
+              }))}
+              emptyMessage="No hay préstamos en el período seleccionado"
+            />
+          </Box>
+
+          {report.periods.length > 0 && (
+            <Box overflowX="auto">
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Período</Th>
+                    <Th isNumeric>Préstamos</Th>
+                    <Th isNumeric>Unidades</Th>
+                    <Th isNumeric>Devueltos</Th>
+                    <Th isNumeric>Vencidos</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {report.periods.map(period => (
+                    <Tr key={period.period}>
+                      <Td textTransform="capitalize">{period.label}</Td>
+                      <Td isNumeric>{period.loans}</Td>
+                      <Td isNumeric>{period.quantity}</Td>
+                      <Td isNumeric>{period.returned}</Td>
+                      <Td isNumeric color={period.overdue > 0 ? 'red.600' : undefined}>
+                        {period.overdue}
+                      </Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          )}
+        </VStack>
+      )}
+    </ReportSection>
+  );
+}
@@ -0,0 +1,120 @@
+// src/components/reports/MostBorrowedReportView.tsx
+'use client';
+
+import {
+  VStack,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Box,
+  Text,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { useMostBorrowedReport } from '@/hooks/useReports';
+import { ReportService } from '@/services/report.service';
+import { ReportSection } from './ReportSection';
+import { ReportBarList } from './ReportBarList';
+import type { ReportFilters, ReportColumn, MostBorrowedRow } from '@/types/report.types';
+
+interface MostBorrowedReportViewProps {
+  filters: ReportFilters;
+}
+
+export function MostBorrowedReportView({ filters }: MostBorrowedReportViewProps) {
+  const router = useRouter();
+  const { data: report, isLoading, error } = useMostBorrowedReport(filters);
+
+  const handleExport = () => {
+    if (!report) return;
+    const columns: ReportColumn<MostBorrowedRow>[] = [
+      { key: 'title', label: 'Título' },
+      { key: 'author', label: 'Autor' },
+      { key: 'loans', label: 'Préstamos' },
+    ];
+    // El ranking histórico no trae unidades ni personas
+    if (report.source === 'period') {
+      columns.push({ key: 'quantity', label: 'Unidades' }, { key: 'borrowers', label: 'Personas distintas' });
+    }
+    ReportService.downloadCSV<MostBorrowedRow>('recursos-mas-prestados', report.resources, columns);
+  };
+
+  return (
+    <ReportSection
+      title="Recursos más prestados"
+      description="Ranking de recursos según la cantidad de préstamos"
+      isLoading={isLoading}
+      error={error}
+      isTruncated={report?.truncated}
+      onExport={handleExport}
+    >
+      {report && (
+        <VStack spacing={6} align="stretch">
+          {report.source === 'statistics' && (
+            <Alert status="info" borderRadius="md" fontSize="sm">
+              <AlertIcon />
+              Mostrando el ranking histórico. Selecciona un rango de fechas o tipo de persona para
+              calcularlo sobre un período específico.
+            </Alert>
+          )}
+
+          <Box>
+            <Text fontWeight="semibold" mb={3}>
+              Top {report.resources.length} de {report.totalLoans} préstamos
+            </Text>
+            <ReportBarList
+              items={report.resources.map(row => ({
+                label: row.title,
+                value: row.loans,
+              }))}
+              colorScheme="green"
+              maxItems={10}
+              emptyMessage="No hay préstamos en el período seleccionado"
+            />
+          </Box>
+
+          {report.resources.length > 0 && (
+            <Box overflowX="auto">
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>#</Th>
+                    <Th>Título</Th>
+                    <Th isNumeric>Préstamos</Th>
+                    {report.source === 'period' && <Th isNumeric>Unidades</Th>}
+                    {report.source === 'period' && <Th isNumeric>Personas</Th>}
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {report.resources.map((row, index) => (
+                    <Tr
+                      key={row.resourceId}
+                      cursor="pointer"
+                      _hover={{ bg: 'gray.50' }}
+                      onClick={() => router.push(`/inventory/${row.resourceId}`)}
+                    >
+                      <Td>{index + 1}</Td>
+                      <Td>
+                        <Text fontWeight="medium" noOfLines={1}>{row.title}</Text>
+                        {row.author && (
+                          <Text fontSize="xs" color="gray.500" noOfLines={1}>{row.author}</Text>
+                        )}
+                      </Td>
+                      <Td isNumeric>{row.loans}</Td>
+                      {report.source === 'period' && <Td isNumeric>{row.quantity}</Td>}
+                      {report.source === 'period' && <Td isNumeric>{row.borrowers}</Td>}
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          )}
+        </VStack>
+      )}
+    </ReportSection>
+  );
+}
@@ -0,0 +1,120 @@
+// src/components/reports/OverdueByGradeReportView.tsx
+'use client';
+
+import {
+  VStack,
+  SimpleGrid,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Box,
+  Text,
+  Badge,
+} from '@chakra-ui/react';
+import { useOverdueByGradeReport } from '@/hooks/useReports';
+import { ReportService } from '@/services/report.service';
+import { ReportSection, ReportStat } from './ReportSection';
+import { ReportBarList } from './ReportBarList';
+import type { ReportFilters, OverdueByGradeRow } from '@/types/report.types';
+
+interface OverdueByGradeReportViewProps {
+  filters: ReportFilters;
+}
+
+export function OverdueByGradeReportView({ filters }: OverdueByGradeReportViewProps) {
+  const { data: report, isLoading, error } = useOverdueByGradeReport(filters);
+
+  const handleExport = () => {
+    if (!report) return;
+    ReportService.downloadCSV<OverdueByGradeRow>('vencidos-por-grado', report.grades, [
+      { key: 'grade', label: 'Grado' },
+      { key: 'overdueLoans', label: 'Préstamos vencidos' },
+      { key: 'people', label: 'Personas con vencidos' },
+      { key: 'studentsInGrade', label: 'Estudiantes en el grado' },
+      { key: 'averageDaysOverdue', label: 'Promedio días de retraso' },
+      { key: 'maxDaysOverdue', label: 'Máximo días de retraso' },
+    ]);
+  };
+
+  return (
+    <ReportSection
+      title="Préstamos vencidos por grado"
+      description="Préstamos vencidos pendientes de devolución agrupados por el grado del prestatario"
+      isLoading={isLoading}
+      error={error}
+      isTruncated={report?.truncated}
+      onExport={handleExport}
+    >
+      {report && (
+        <VStack spacing={6} align="stretch">
+          <SimpleGrid columns={{ base: 2, md: 3, lg: 6 }} spacing={4}>
+            <ReportStat label="Total vencidos" value={report.totalOverdue} color="red.600" />
+            <ReportStat
+              label="Promedio de retraso"
+              value={Math.round(report.averageDaysOverdue)}
+              helpText="días"
+              color="orange.600"
+            />
+            <ReportStat label="1-7 días" value={report.byDaysOverdue['1-7']} />
+            <ReportStat label="8-14 días" value={report.byDaysOverdue['8-14']} />
+            <ReportStat label="15-30 días" value={report.byDaysOverdue['15-30']} />
+            <ReportStat label="Más de 30 días" value={report.byDaysOverdue['30+']} color="red.600" />
+          </SimpleGrid>
+
+          <Box>
+            <Text fontWeight="semibold" mb={3}>Vencidos por grado</Text>
+            <ReportBarList
+              items={report.grades.map(row => ({
+                label: row.grade,
+                value: row.overdueLoans,
+                helpText: `${row.people} persona${row.people === 1 ? '' : 's'}`,
+              }))}
+              colorScheme="red"
+              emptyMessage="No hay préstamos vencidos con los filtros seleccionados"
+            />
+          </Box>
+
+          {report.grades.length > 0 && (
+            <Box overflowX="auto">
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Grado</Th>
+                    <Th isNumeric>Vencidos</Th>
+                    <Th isNumeric>Personas</Th>
+                    <Th isNumeric>% del grado</Th>
+                    <Th isNumeric>Promedio días</Th>
+                    <Th isNumeric>Máximo días</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {report.grades.map(row => (
+                    <Tr key={row.grade}>
+                      <Td fontWeight="medium">{row.grade}</Td>
+                      <Td isNumeric>{row.overdueLoans}</Td>
+                      <Td isNumeric>{row.people}</Td>
+                      <Td isNumeric>
+                        {row.studentsInGrade > 0
+                          ? `${Math.round((row.people / row.studentsInGrade) * 100)}%`
+                          : '-'}
+                      </Td>
+                      <Td isNumeric>{Math.round(row.averageDaysOverdue)}</Td>
+                      <Td isNumeric>
+                        <Badge colorScheme={row.maxDaysOverdue > 30 ? 'red' : 'orange'}>
+                          {row.maxDaysOverdue}
+                        </Badge>
+                      </Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          )}
+        </VStack>
+      )}
+    </ReportSection>
+  );
+}
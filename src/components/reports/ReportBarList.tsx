@@ -0,0 +1,69 @@
+// src/components/reports/ReportBarList.tsx
+'use client';
+
+import { Box, HStack, VStack, Text, Progress } from '@chakra-ui/react';
+
+export interface ReportBarItem {
+  label: string;
+  value: number;
+  helpText?: string;
+}
+
+interface ReportBarListProps {
+  items: ReportBarItem[];
+  colorScheme?: string;
+  emptyMessage?: string;
+  maxItems?: number;
+}
+
+/**
+ * Gráfico de barras horizontales sin dependencias externas
+ * (mismo enfoque que SimpleChart en LoanStatistics)
+ */
+export function ReportBarList({
+  items,
+  colorScheme = 'blue',
+  emptyMessage = 'No hay datos para mostrar',
+  maxItems,
+}: ReportBarListProps) {
+  const visibleItems = maxItems ? items.slice(0, maxItems) : items;
+  const maxValue = Math.max(...visibleItems.map(item => item.value), 1);
+
+  if (visibleItems.length === 0) {
+    return (
+      <Text fontSize="sm" color="gray.500" textAlign="center" py={6}>
+        {emptyMessage}
+      </Text>
+    );
+  }
+
+  return (
+    <VStack spacing={3} align="stretch">
+      {visibleItems.map((item) => (
+        <Box key={item.label}>
+          <HStack justify="space-between" mb={1}>
+            <Text fontSize="sm" fontWeight="medium" noOfLines={1}>
+              {item.label}
+            </Text>
+            <HStack spacing={2}>
+              {item.helpText && (
+                <Text fontSize="xs" color="gray.500">
+                  {item.helpText}
+                </Text>
+              )}
+              <Text fontSize="sm" fontWeight="bold">
+                {item.value}
+              </Text>
+            </HStack>
+          </HStack>
+          <Progress
+            value={(item.value / maxValue) * 100}
+            colorScheme={colorScheme}
+            size="sm"
+            borderRadius="full"
+          />
+        </Box>
+      ))}
+    </VStack>
+  );
+}
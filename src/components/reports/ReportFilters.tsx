@@ -0,0 +1,137 @@
+// src/components/reports/ReportFilters.tsx
+'use client';
+
+import {
+  Card,
+  CardBody,
+  SimpleGrid,
+  FormControl,
+  FormLabel,
+  Input,
+  Select,
+  HStack,
+  Button,
+  Text,
+} from '@chakra-ui/react';
+import { FiRefreshCw, FiX } from 'react-icons/fi';
+import type { ReportFilters as ReportFiltersValue, ReportType } from '@/types/report.types';
+
+interface ReportFiltersProps {
+  reportType: ReportType;
+  filters: ReportFiltersValue;
+  onFiltersChange: (filters: ReportFiltersValue) => void;
+  onRefresh?: () => void;
+  isLoading?: boolean;
+}
+
+// Reportes que no dependen del rango de fechas ni del tipo de persona
+const SNAPSHOT_REPORTS: ReportType[] = ['inventory'];
+
+export function ReportFilters({
+  reportType,
+  filters,
+  onFiltersChange,
+  onRefresh,
+  isLoading = false,
+}: ReportFiltersProps) {
+  const isSnapshot = SNAPSHOT_REPORTS.includes(reportType);
+  const hasActiveFilters = Boolean(filters.dateFrom || filters.dateTo || filters.personType);
+
+  const handleChange = <K extends keyof ReportFiltersValue>(key: K, value: ReportFiltersValue[K]) => {
+    onFiltersChange({ ...filters, [key]: value || undefined });
+  };
+
+  const handleClear = () => {
+    onFiltersChange({ groupBy: filters.groupBy });
+  };
+
+  return (
+    <Card>
+      <CardBody>
+        {isSnapshot ? (
+          <HStack justify="space-between">
+            <Text fontSize="sm" color="gray.600">
+              Este reporte muestra el estado actual del inventario y no depende de fechas.
+            </Text>
+            {onRefresh && (
+              <Button size="sm" variant="outline" leftIcon={<FiRefreshCw />} onClick={onRefresh} isLoading={isLoading}>
+                Actualizar
+              </Button>
+            )}
+          </HStack>
+        ) : (
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 5 }} spacing={4} alignItems="end">
+            <FormControl>
+              <FormLabel fontSize="sm">Fecha desde</FormLabel>
+              <Input
+                type="date"
+                size="sm"
+                value={filters.dateFrom || ''}
+                max={filters.dateTo || undefined}
+                onChange={(e) => handleChange('dateFrom', e.target.value)}
+              />
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Fecha hasta</FormLabel>
+              <Input
+                type="date"
+                size="sm"
+                value={filters.dateTo || ''}
+                min={filters.dateFrom || undefined}
+                onChange={(e) => handleChange('dateTo', e.target.value)}
+              />
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Tipo de persona</FormLabel>
+              <Select
+                size="sm"
+                value={filters.personType || ''}
+                onChange={(e) => handleChange('personType', e.target.value as ReportFiltersValue['personType'])}
+              >
+                <option value="">Todos</option>
+                <option value="student">Estudiantes</option>
+                <option value="teacher">Docentes</option>
+              </Select>
+            </FormControl>
+
+            {reportType === 'loans-by-period' ? (
+              <FormControl>
+                <FormLabel fontSize="sm">Agrupar por</FormLabel>
+                <Select
+                  size="sm"
+                  value={filters.groupBy || 'month'}
+                  onChange={(e) => handleChange('groupBy', e.target.value as ReportFiltersValue['groupBy'])}
+                >
+                  <option value="day">Día</option>
+                  <option value="week">Semana</option>
+                  <option value="month">Mes</option>
+                </Select>
+              </FormControl>
+            ) : (
+              <div />
+            )}
+
+            <HStack spacing={2} justify={{ base: 'start', lg: 'end' }}>
+              <Button
+                size="sm"
+                variant="ghost"
+                leftIcon={<FiX />}
+                onClick={handleClear}
+                isDisabled={!hasActiveFilters}
+              >
+                Limpiar
+              </Button>
+              {onRefresh && (
+                <Button size="sm" variant="outline" leftIcon={<FiRefreshCw />} onClick={onRefresh} isLoading={isLoading}>
+                  Actualizar
+                </Button>
+              )}
+            </HStack>
+          </SimpleGrid>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
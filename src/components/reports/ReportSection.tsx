@@ -0,0 +1,115 @@
+// src/components/reports/ReportSection.tsx
+'use client';
+
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  HStack,
+  VStack,
+  Heading,
+  Text,
+  Button,
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+} from '@chakra-ui/react';
+import { FiDownload } from 'react-icons/fi';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+
+interface ReportSectionProps {
+  title: string;
+  description?: string;
+  isLoading?: boolean;
+  error?: Error | null;
+  // El reporte se calculó sobre una parte de los préstamos (se alcanzó el tope de páginas)
+  isTruncated?: boolean;
+  onExport?: () => void;
+  children: React.ReactNode;
+}
+
+export function ReportSection({
+  title,
+  description,
+  isLoading = false,
+  error,
+  isTruncated = false,
+  onExport,
+  children,
+}: ReportSectionProps) {
+  return (
+    <Card>
+      <CardHeader pb={2}>
+        <HStack justify="space-between" align="start">
+          <VStack align="start" spacing={0}>
+            <Heading size="md" color="gray.800">
+              {title}
+            </Heading>
+            {description && (
+              <Text fontSize="sm" color="gray.600">
+                {description}
+              </Text>
+            )}
+          </VStack>
+          {onExport && (
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<FiDownload />}
+              onClick={onExport}
+              isDisabled={isLoading || !!error}
+            >
+              Exportar CSV
+            </Button>
+          )}
+        </HStack>
+      </CardHeader>
+      <CardBody>
+        {isLoading ? (
+          <LoadingSpinner message="Generando reporte..." />
+        ) : error ? (
+          <Alert status="error" borderRadius="md">
+            <AlertIcon />
+            <AlertDescription>
+              {error.message || 'No se pudo generar el reporte. Intenta nuevamente.'}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <VStack spacing={4} align="stretch">
+            {isTruncated && (
+              <Alert status="warning" borderRadius="md" fontSize="sm">
+                <AlertIcon />
+                <AlertDescription>
+                  El período tiene más préstamos de los que se pueden procesar y el reporte está
+                  incompleto. Acota el rango de fechas para obtener cifras exactas.
+                </AlertDescription>
+              </Alert>
+            )}
+            {children}
+          </VStack>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+interface ReportStatProps {
+  label: string;
+  value: string | number;
+  helpText?: string;
+  color?: string;
+}
+
+export function ReportStat({ label, value, helpText, color = 'gray.800' }: ReportStatProps) {
+  return (
+    <Stat bg="gray.50" p={4} borderRadius="md">
+      <StatLabel color="gray.600">{label}</StatLabel>
+      <StatNumber color={color}>{value}</StatNumber>
+      {helpText && <StatHelpText mb={0}>{helpText}</StatHelpText>}
+    </Stat>
+  );
+}
@@ -0,0 +1,107 @@
+// src/components/reports/ReportTypeSelector.tsx
+'use client';
+
+import {
+  SimpleGrid,
+  Card,
+  CardBody,
+  VStack,
+  HStack,
+  Text,
+  Icon,
+} from '@chakra-ui/react';
+import {
+  FiCalendar,
+  FiAlertTriangle,
+  FiTrendingUp,
+  FiArchive,
+  FiUserCheck,
+} from 'react-icons/fi';
+import type { ReportType } from '@/types/report.types';
+
+export interface ReportTypeOption {
+  type: ReportType;
+  title: string;
+  description: string;
+  icon: any;
+  color: string;
+}
+
+export const REPORT_TYPE_OPTIONS: ReportTypeOption[] = [
+  {
+    type: 'loans-by-period',
+    title: 'Préstamos por período',
+    description: 'Volumen de préstamos por día, semana o mes',
+    icon: FiCalendar,
+    color: 'blue',
+  },
+  {
+    type: 'overdue-by-grade',
+    title: 'Vencidos por grado',
+    description: 'Préstamos vencidos agrupados por grado',
+    icon: FiAlertTriangle,
+    color: 'red',
+  },
+  {
+    type: 'most-borrowed',
+    title: 'Más prestados',
+    description: 'Ranking de recursos más solicitados',
+    icon: FiTrendingUp,
+    color: 'green',
+  },
+  {
+    type: 'inventory',
+    title: 'Inventario',
+    description: 'Recursos por categoría y ubicación',
+    icon: FiArchive,
+    color: 'purple',
+  },
+  {
+    type: 'librarian-activity',
+    title: 'Actividad por bibliotecario',
+    description: 'Préstamos y devoluciones por usuario',
+    icon: FiUserCheck,
+    color: 'teal',
+  },
+];
+
+interface ReportTypeSelectorProps {
+  value: ReportType;
+  onChange: (type: ReportType) => void;
+}
+
+export function ReportTypeSelector({ value, onChange }: ReportTypeSelectorProps) {
+  return (
+    <SimpleGrid columns={{ base: 1, sm: 2, lg: 5 }} spacing={4}>
+      {REPORT_TYPE_OPTIONS.map((option) => {
+        const isSelected = option.type === value;
+        return (
+          <Card
+            key={option.type}
+            cursor="pointer"
+            onClick={() => onChange(option.type)}
+            borderWidth="2px"
+            borderColor={isSelected ? `${option.color}.400` : 'transparent'}
+            bg={isSelected ? `${option.color}.50` : 'white'}
+            transition="all 0.2s"
+            _hover={{ transform: 'translateY(-2px)', shadow: 'md' }}
+          >
+            <CardBody p={4}>
+              <VStack align="start" spacing={2}>
+                <HStack spacing={2}>
+                  <Icon as={option.icon} color={`${option.color}.500`} boxSize={5} />
+                  <Text fontWeight="semibold" fontSize="sm" color="gray.800">
+                    {option.title}
+                  </Text>
+                </HStack>
+                <Text fontSize="xs" color="gray.600">
+                  {option.description}
+                </Text>
+              </VStack>
+            </CardBody>
+          </Card>
+        );
+      })}
+    </SimpleGrid>
+  );
+}
@@ -0,0 +1,12 @@
+// src/components/reports/index.ts
+export { ReportTypeSelector, REPORT_TYPE_OPTIONS } from './ReportTypeSelector';
+export type { ReportTypeOption } from './ReportTypeSelector';
+export { ReportFilters } from './ReportFilters';
+export { ReportSection, ReportStat } from './ReportSection';
+export { ReportBarList } from './ReportBarList';
+export type { ReportBarItem } from './ReportBarList';
+export { LoansByPeriodReportView } from './LoansByPeriodReportView';
+export { OverdueByGradeReportView } from './OverdueByGradeReportView';
+export { MostBorrowedReportView } from './MostBorrowedReportView';
+export { InventoryReportView } from './InventoryReportView';
+export { LibrarianActivityReportView } from './LibrarianActivityReportView';
@@ -0,0 +1,174 @@
+// src/components/requests/AcquireRequestModal.tsx
+'use client';
+
+import {
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Alert,
+  AlertIcon,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import { FiPackage, FiCheck } from 'react-icons/fi';
+import { ResourceForm } from '@/components/resources/ResourceForm';
+import { useCreateResource } from '@/hooks/useResources';
+import { useMarkRequestAcquired } from '@/hooks/useRequests';
+import type { Request } from '@/types/api.types';
+import type { CreateResourceRequest } from '@/types/resource.types';
+
+interface AcquireRequestModalProps {
+  request: Request;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function AcquireRequestModal({ request, isOpen, onClose }: AcquireRequestModalProps) {
+  const [showResourceForm, setShowResourceForm] = useState(false);
+  // Recurso ya creado cuya vinculación con la solicitud falló; al reintentar no se vuelve a crear
+  const [createdResourceId, setCreatedResourceId] = useState<string | null>(null);
+
+  const createResourceMutation = useCreateResource();
+  const markAcquiredMutation = useMarkRequestAcquired();
+
+  const googleBooksInfo = request.googleBooksInfo as { id?: string } | undefined;
+
+  // Datos de la solicitud que se trasladan al nuevo recurso
+  const initialValues: Partial<CreateResourceRequest> = {
+    title: request.title,
+    categoryId: request.categoryId,
+    authorIds: request.authorIds || [],
+    isbn: request.isbn,
+    googleBooksId: googleBooksInfo?.id,
+    notes: request.notes,
+  };
+
+  const handleClose = () => {
+    setShowResourceForm(false);
+    onClose();
+  };
+
+  const markAcquired = async (resourceId: string) => {
+    await markAcquiredMutation.mutateAsync({ id: request._id, resourceId });
+    setCreatedResourceId(null);
+    handleClose();
+  };
+
+  const handleCreateResource = async (data: CreateResourceRequest) => {
+    try {
+      const resource = await createResourceMutation.mutateAsync(data);
+      setCreatedResourceId(resource._id);
+      await markAcquired(resource._id);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleRetryMarkAcquired = async () => {
+    if (!createdResourceId) return;
+
+    try {
+      await markAcquired(createdResourceId);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleMarkWithoutResource = async () => {
+    try {
+      await markAcquiredMutation.mutateAsync({ id: request._id });
+      handleClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const isLoading = createResourceMutation.isPending || markAcquiredMutation.isPending;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      size={showResourceForm ? '4xl' : 'md'}
+      scrollBehavior="inside"
+    >
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Marcar solicitud como adquirida</ModalHeader>
+        <ModalCloseButton />
+
+        {createdResourceId ? (
+          <>
+            <ModalBody>
+              <Alert status="warning" borderRadius="md" fontSize="sm">
+                <AlertIcon />
+                El recurso ya se registró en el inventario, pero no se pudo marcar la solicitud como adquirida.
+                Reintenta para vincularlo sin crear un duplicado.
+              </Alert>
+            </ModalBody>
+            <ModalFooter>
+              <Button
+                colorScheme="green"
+                leftIcon={<FiCheck />}
+                onClick={handleRetryMarkAcquired}
+                isLoading={markAcquiredMutation.isPending}
+              >
+                Reintentar
+              </Button>
+            </ModalFooter>
+          </>
+        ) : showResourceForm ? (
+          <ModalBody pb={6}>
+            <ResourceForm
+              initialValues={initialValues}
+              onSubmit={handleCreateResource}
+              onCancel={() => setShowResourceForm(false)}
+              isLoading={isLoading}
+            />
+          </ModalBody>
+        ) : (
+          <>
+            <ModalBody>
+              <VStack spacing={4} align="stretch">
+                <Text>
+                  Se marcará como adquirida la solicitud <strong>&quot;{request.title}&quot;</strong>.
+                </Text>
+                <Alert status="info" borderRadius="md" fontSize="sm">
+                  <AlertIcon />
+                  Puedes registrar el recurso en el inventario ahora, con los datos de la solicitud ya cargados.
+                </Alert>
+              </VStack>
+            </ModalBody>
+            <ModalFooter>
+              <HStack spacing={3}>
+                <Button
+                  variant="outline"
+                  leftIcon={<FiCheck />}
+                  onClick={handleMarkWithoutResource}
+                  isLoading={markAcquiredMutation.isPending}
+                >
+                  Marcar sin registrar
+                </Button>
+                <Button
+                  colorScheme="green"
+                  leftIcon={<FiPackage />}
+                  onClick={() => setShowResourceForm(true)}
+                  isDisabled={isLoading}
+                >
+                  Registrar en inventario
+                </Button>
+              </HStack>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
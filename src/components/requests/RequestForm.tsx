@@ -0,0 +1,308 @@
+// src/components/requests/RequestForm.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Card,
+  CardBody,
+  Text,
+  Button,
+  Icon,
+  Divider,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  FormHelperText,
+  Input,
+  Select,
+  Textarea,
+  SimpleGrid,
+  Badge,
+  useDisclosure,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalCloseButton,
+} from '@chakra-ui/react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FiFileText, FiCheck, FiX, FiSearch } from 'react-icons/fi';
+import { AuthorsSection } from '@/components/resources/ResourceForm';
+import { GoogleBooksSearch } from '@/components/resources/GoogleBooks';
+import { useCategories, useBulkCreateAuthors } from '@/hooks/useResources';
+import { useRequestPriorities } from '@/hooks/useRequests';
+import { GoogleBooksUtils } from '@/hooks/useGoogleBooks';
+import { REQUEST_PRIORITY_CONFIG } from './requestConfig';
+import type { Request, CreateRequestRequest, UpdateRequestRequest } from '@/types/api.types';
+import type { GoogleBooksVolume } from '@/types/resource.types';
+
+// Schema de validación
+const requestSchema = z.object({
+  title: z.string().min(2, 'El título debe tener al menos 2 caracteres').max(300, 'El título no puede exceder 300 caracteres'),
+  categoryId: z.string().min(1, 'Selecciona una categoría'),
+  priorityId: z.string().min(1, 'Selecciona una prioridad'),
+  authorIds: z.array(z.string()).optional(),
+  isbn: z.string().optional(),
+  publisherName: z.string().max(200, 'La editorial no puede exceder 200 caracteres').optional(),
+  requestedFor: z.string().max(150, 'El solicitante no puede exceder 150 caracteres').optional(),
+  notes: z.string().max(500, 'Las notas no pueden exceder 500 caracteres').optional(),
+  googleBooksId: z.string().optional(),
+});
+
+type RequestFormData = z.infer<typeof requestSchema>;
+
+interface RequestFormCreateProps {
+  request?: never;
+  onSubmit: (data: CreateRequestRequest) => Promise<void>;
+  onCancel: () => void;
+  isLoading?: boolean;
+  isEdit?: false;
+}
+
+interface RequestFormEditProps {
+  request: Request;
+  onSubmit: (data: UpdateRequestRequest) => Promise<void>;
+  onCancel: () => void;
+  isLoading?: boolean;
+  isEdit: true;
+}
+
+type RequestFormProps = RequestFormCreateProps | RequestFormEditProps;
+
+export function RequestForm(props: RequestFormProps) {
+  const { onSubmit, onCancel, isLoading = false } = props;
+  const request = 'request' in props ? props.request : undefined;
+  const isEdit = 'isEdit' in props ? props.isEdit : false;
+
+  const { isOpen: isSearchOpen, onOpen: onSearchOpen, onClose: onSearchClose } = useDisclosure();
+
+  const { data: categories = [], isLoading: isLoadingCategories } = useCategories();
+  const { data: priorities = [], isLoading: isLoadingPriorities } = useRequestPriorities();
+  const bulkCreateAuthorsMutation = useBulkCreateAuthors();
+
+  const googleBooksInfo = request?.googleBooksInfo as { id?: string } | undefined;
+
+  const form = useForm<RequestFormData>({
+    resolver: zodResolver(requestSchema),
+    defaultValues: {
+      title: request?.title || '',
+      categoryId: request?.categoryId || '',
+      priorityId: request?.priorityId || '',
+      authorIds: request?.authorIds || [],
+      isbn: request?.isbn || '',
+      publisherName: request?.publisherName || '',
+      requestedFor: request?.requestedFor || '',
+      notes: request?.notes || '',
+      googleBooksId: googleBooksInfo?.id || '',
+    },
+    mode: 'onChange',
+  });
+
+  const { register, handleSubmit, setValue, watch, formState: { errors, isValid, isDirty } } = form;
+  const googleBooksId = watch('googleBooksId');
+
+  // Prellenar con los datos de un libro de Google Books
+  const handleBookSelect = async (volume: GoogleBooksVolume) => {
+    setValue('title', volume.title, { shouldDirty: true, shouldValidate: true });
+    setValue('isbn', GoogleBooksUtils.getAnyISBN(volume) || '', { shouldDirty: true });
+    setValue('publisherName', volume.publisher || '', { shouldDirty: true });
+    setValue('googleBooksId', volume.id, { shouldDirty: true });
+    onSearchClose();
+
+    if (volume.authors && volume.authors.length > 0) {
+      try {
+        const authors = await bulkCreateAuthorsMutation.mutateAsync(volume.authors);
+        setValue('authorIds', authors.map(author => author._id), { shouldDirty: true });
+      } catch (error) {
+        // Error manejado por el hook
+      }
+    }
+  };
+
+  const handleFormSubmit = handleSubmit(async (data: RequestFormData) => {
+    const cleanData: CreateRequestRequest = {
+      title: data.title.trim(),
+      categoryId: data.categoryId,
+      priorityId: data.priorityId,
+      authorIds: data.authorIds?.filter(id => id.trim()) || [],
+      isbn: data.isbn?.trim() || undefined,
+      publisherName: data.publisherName?.trim() || undefined,
+      requestedFor: data.requestedFor?.trim() || undefined,
+      notes: data.notes?.trim() || undefined,
+      googleBooksInfo: data.googleBooksId ? { id: data.googleBooksId } : undefined,
+    };
+
+    if (isEdit) {
+      await (onSubmit as (data: UpdateRequestRequest) => Promise<void>)(cleanData);
+    } else {
+      await (onSubmit as (data: CreateRequestRequest) => Promise<void>)(cleanData);
+    }
+  });
+
+  const canSubmit = isValid && isDirty;
+
+  if (isLoadingCategories || isLoadingPriorities) {
+    return (
+      <Card>
+        <CardBody>
+          <VStack spacing={4}>
+            <Icon as={FiFileText} boxSize={8} color="gray.400" />
+            <Text color="gray.600">Cargando formulario...</Text>
+          </VStack>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardBody>
+          <form onSubmit={handleFormSubmit}>
+            <VStack spacing={6} align="stretch">
+              {/* Header */}
+              <HStack justify="space-between" align="start">
+                <Box>
+                  <HStack spacing={3} mb={2}>
+                    <Icon as={FiFileText} color="blue.500" boxSize={6} />
+                    <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+                      {isEdit ? 'Editar Solicitud' : 'Nueva Solicitud de Adquisición'}
+                    </Text>
+                  </HStack>
+                  <Text fontSize="sm" color="gray.600">
+                    Registra el recurso que se desea adquirir para la biblioteca
+                  </Text>
+                </Box>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  colorScheme="blue"
+                  leftIcon={<FiSearch />}
+                  onClick={onSearchOpen}
+                >
+                  Buscar en Google Books
+                </Button>
+              </HStack>
+
+              {googleBooksId && (
+                <Badge alignSelf="start" colorScheme="blue" variant="subtle">
+                  Datos obtenidos de Google Books
+                </Badge>
+              )}
+
+              <Divider />
+
+              <VStack spacing={4} align="stretch">
+                <FormControl isInvalid={!!errors.title} isRequired>
+                  <FormLabel>Título</FormLabel>
+                  <Input {...register('title')} placeholder="Título del recurso solicitado" />
+                  <FormErrorMessage>{errors.title?.message}</FormErrorMessage>
+                </FormControl>
+
+                <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+                  <FormControl isInvalid={!!errors.categoryId} isRequired>
+                    <FormLabel>Categoría</FormLabel>
+                    <Select {...register('categoryId')} placeholder="Selecciona una categoría">
+                      {categories.map(category => (
+                        <option key={category._id} value={category._id}>
+                          {category.name}
+                        </option>
+                      ))}
+                    </Select>
+                    <FormErrorMessage>{errors.categoryId?.message}</FormErrorMessage>
+                  </FormControl>
+
+                  <FormControl isInvalid={!!errors.priorityId} isRequired>
+                    <FormLabel>Prioridad</FormLabel>
+                    <Select {...register('priorityId')} placeholder="Selecciona una prioridad">
+                      {[...priorities]
+                        .sort((a, b) => b.value - a.value)
+                        .map(priority => (
+                          <option key={priority._id} value={priority._id}>
+                            {REQUEST_PRIORITY_CONFIG[priority.name]?.label || priority.name}
+                          </option>
+                        ))}
+                    </Select>
+                    <FormErrorMessage>{errors.priorityId?.message}</FormErrorMessage>
+                  </FormControl>
+
+                  <FormControl isInvalid={!!errors.isbn}>
+                    <FormLabel>ISBN</FormLabel>
+                    <Input {...register('isbn')} placeholder="Opcional" />
+                    <FormErrorMessage>{errors.isbn?.message}</FormErrorMessage>
+                  </FormControl>
+
+                  <FormControl isInvalid={!!errors.publisherName}>
+                    <FormLabel>Editorial</FormLabel>
+                    <Input {...register('publisherName')} placeholder="Opcional" />
+                    <FormErrorMessage>{errors.publisherName?.message}</FormErrorMessage>
+                  </FormControl>
+                </SimpleGrid>
+
+                <FormControl isInvalid={!!errors.requestedFor}>
+                  <FormLabel>Solicitado por</FormLabel>
+                  <Input {...register('requestedFor')} placeholder="Ej: Prof. Martínez - Ciencias Naturales" />
+                  <FormHelperText>Docente, área o persona que pidió el recurso</FormHelperText>
+                  <FormErrorMessage>{errors.requestedFor?.message}</FormErrorMessage>
+                </FormControl>
+              </VStack>
+
+              <AuthorsSection form={form} />
+
+              <FormControl isInvalid={!!errors.notes}>
+                <FormLabel>Justificación / Notas</FormLabel>
+                <Textarea
+                  {...register('notes')}
+                  placeholder="¿Para qué se necesita? Cantidad sugerida, curso, etc."
+                  rows={3}
+                />
+                <FormErrorMessage>{errors.notes?.message}</FormErrorMessage>
+              </FormControl>
+
+              <Divider />
+
+              {/* Botones de acción */}
+              <HStack spacing={3} justify="flex-end">
+                <Button
+                  variant="outline"
+                  onClick={onCancel}
+                  disabled={isLoading}
+                  leftIcon={<Icon as={FiX} />}
+                >
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  colorScheme="blue"
+                  isLoading={isLoading}
+                  loadingText={isEdit ? 'Actualizando...' : 'Registrando...'}
+                  disabled={!canSubmit}
+                  leftIcon={<Icon as={FiCheck} />}
+                >
+                  {isEdit ? 'Actualizar Solicitud' : 'Registrar Solicitud'}
+                </Button>
+              </HStack>
+            </VStack>
+          </form>
+        </CardBody>
+      </Card>
+
+      {/* Modal de búsqueda en Google Books */}
+      <Modal isOpen={isSearchOpen} onClose={onSearchClose} size="6xl" scrollBehavior="inside">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Buscar en Google Books</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody pb={6}>
+            <GoogleBooksSearch onBookSelect={handleBookSelect} selectOnly />
+          </ModalBody>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+}
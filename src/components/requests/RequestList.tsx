@@ -0,0 +1,502 @@
+// src/components/requests/RequestList.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  InputGroup,
+  InputLeftElement,
+  Input,
+  Select,
+  Button,
+  SimpleGrid,
+  Card,
+  CardBody,
+  Text,
+  Badge,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuItem,
+  MenuDivider,
+  IconButton,
+  Skeleton,
+  SkeletonText,
+  Alert,
+  AlertIcon,
+  useDisclosure,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  FormControl,
+  FormLabel,
+  Textarea,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import {
+  FiSearch,
+  FiMoreVertical,
+  FiEdit,
+  FiTrash2,
+  FiRefreshCw,
+  FiFileText,
+  FiCheck,
+  FiX,
+  FiPackage,
+  FiUser,
+} from 'react-icons/fi';
+import {
+  useRequests,
+  useApproveRequest,
+  useRejectRequest,
+  useDeleteRequest,
+} from '@/hooks/useRequests';
+import { useDebounce } from '@/hooks/useDebounce';
+import { usePermissions } from '@/hooks/useAuth';
+import { DeleteConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { Pagination } from '@/components/ui/Pagination';
+import { DateUtils } from '@/utils';
+import { REQUEST_STATUS_CONFIG, REQUEST_PRIORITY_CONFIG } from './requestConfig';
+import type { Request, RequestFilters } from '@/types/api.types';
+
+interface RequestListProps {
+  onEdit?: (request: Request) => void;
+  onAcquire?: (request: Request) => void;
+  onCreate?: () => void;
+}
+
+function RejectRequestDialog({
+  request,
+  isOpen,
+  onClose,
+  onConfirm,
+  isLoading = false,
+}: {
+  request: Request;
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (reason: string) => void;
+  isLoading?: boolean;
+}) {
+  const [reason, setReason] = useState('');
+
+  const handleClose = () => {
+    setReason('');
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Rechazar solicitud</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Text fontSize="sm" color="gray.600">
+              Indica el motivo por el que se rechaza &quot;{request.title}&quot;.
+            </Text>
+            <FormControl isRequired>
+              <FormLabel>Motivo</FormLabel>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Ej: Ya existe un ejemplar similar, presupuesto agotado..."
+                rows={3}
+              />
+            </FormControl>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={handleClose}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme="red"
+              leftIcon={<FiX />}
+              onClick={() => onConfirm(reason.trim())}
+              isDisabled={reason.trim().length < 3}
+              isLoading={isLoading}
+            >
+              Rechazar
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
+
+function RequestCard({
+  request,
+  onEdit,
+  onApprove,
+  onReject,
+  onAcquire,
+  onDelete,
+  canManage = false,
+  isMutating = false,
+}: {
+  request: Request;
+  onEdit?: (request: Request) => void;
+  onApprove: (request: Request) => void;
+  onReject: (request: Request, reason: string) => void;
+  onAcquire?: (request: Request) => void;
+  onDelete: (request: Request) => void;
+  // Aprobar, rechazar, adquirir, editar y eliminar requieren requests.manage
+  canManage?: boolean;
+  isMutating?: boolean;
+}) {
+  const { isOpen: isDeleteOpen, onOpen: onDeleteOpen, onClose: onDeleteClose } = useDisclosure();
+  const { isOpen: isRejectOpen, onOpen: onRejectOpen, onClose: onRejectClose } = useDisclosure();
+
+  const statusName = request.status?.name || 'pending';
+  const statusConfig = REQUEST_STATUS_CONFIG[statusName];
+  const priorityConfig = request.priority ? REQUEST_PRIORITY_CONFIG[request.priority.name] : undefined;
+
+  const isPending = statusName === 'pending';
+  const isApproved = statusName === 'approved';
+  const isClosed = statusName === 'acquired' || statusName === 'rejected';
+
+  const authors = request.authors?.map(author => author.name).join(', ');
+  const requester = request.requestedFor || request.requestedByUser?.email;
+
+  const handleConfirmReject = (reason: string) => {
+    onReject(request, reason);
+    onRejectClose();
+  };
+
+  const handleConfirmDelete = () => {
+    onDelete(request);
+    onDeleteClose();
+  };
+
+  return (
+    <>
+      <Card
+        size="sm"
+        _hover={{ shadow: 'md', transform: 'translateY(-2px)' }}
+        transition="all 0.2s"
+        opacity={isClosed ? 0.75 : 1}
+      >
+        <CardBody p={4}>
+          <VStack spacing={3} align="stretch" h="full">
+            {/* Header */}
+            <HStack justify="space-between" align="start">
+              <Badge colorScheme={statusConfig.color} variant="subtle" fontSize="xs">
+                {statusConfig.label}
+              </Badge>
+              {priorityConfig && (
+                <Badge colorScheme={priorityConfig.color} variant="outline" fontSize="xs">
+                  Prioridad {priorityConfig.label.toLowerCase()}
+                </Badge>
+              )}
+            </HStack>
+
+            {/* Contenido */}
+            <Box flex={1}>
+              <Text fontWeight="semibold" fontSize="md" lineHeight="short" noOfLines={2} color="gray.800" mb={1}>
+                {request.title}
+              </Text>
+              {authors && (
+                <Text fontSize="sm" color="gray.600" noOfLines={1}>
+                  {authors}
+                </Text>
+              )}
+              <HStack spacing={2} mt={2} flexWrap="wrap">
+                {request.category && (
+                  <Badge variant="subtle" colorScheme="purple" fontSize="xs">
+                    {request.category.name}
+                  </Badge>
+                )}
+                {request.isbn && (
+                  <Text fontSize="xs" color="gray.500">ISBN: {request.isbn}</Text>
+                )}
+              </HStack>
+              {requester && (
+                <HStack spacing={1} mt={2} color="gray.600">
+                  <FiUser size={12} />
+                  <Text fontSize="xs" noOfLines={1}>{requester}</Text>
+                </HStack>
+              )}
+              {request.statusReason && (
+                <Text fontSize="xs" color={statusName === 'rejected' ? 'red.600' : 'gray.600'} mt={2} noOfLines={2}>
+                  Motivo: {request.statusReason}
+                </Text>
+              )}
+              <Text fontSize="xs" color="gray.400" mt={2}>
+                Solicitada: {DateUtils.formatRelative(request.requestDate || request.createdAt)}
+              </Text>
+            </Box>
+
+            {/* Acciones */}
+            {canManage && (
+              <HStack justify="space-between" pt={2}>
+                {isPending && (
+                  <Button size="xs" colorScheme="blue" leftIcon={<FiCheck />} onClick={() => onApprove(request)} isDisabled={isMutating}>
+                    Aprobar
+                  </Button>
+                )}
+                {isApproved && onAcquire && (
+                  <Button size="xs" colorScheme="green" leftIcon={<FiPackage />} onClick={() => onAcquire(request)} isDisabled={isMutating}>
+                    Marcar adquirida
+                  </Button>
+                )}
+                {isClosed && <Box />}
+
+                <Menu>
+                  <MenuButton
+                    as={IconButton}
+                    aria-label="Acciones"
+                    icon={<FiMoreVertical />}
+                    variant="ghost"
+                    size="sm"
+                  />
+                  <MenuList>
+                    {isPending && onEdit && (
+                      <MenuItem icon={<FiEdit />} onClick={() => onEdit(request)}>
+                        Editar
+                      </MenuItem>
+                    )}
+                    {isPending && (
+                      <MenuItem icon={<FiCheck />} onClick={() => onApprove(request)}>
+                        Aprobar
+                      </MenuItem>
+                    )}
+                    {isApproved && onAcquire && (
+                      <MenuItem icon={<FiPackage />} onClick={() => onAcquire(request)}>
+                        Marcar como adquirida
+                      </MenuItem>
+                    )}
+                    {(isPending || isApproved) && (
+                      <MenuItem icon={<FiX />} onClick={onRejectOpen} color="orange.600">
+                        Rechazar
+                      </MenuItem>
+                    )}
+
+                    <MenuDivider />
+
+                    <MenuItem icon={<FiTrash2 />} onClick={onDeleteOpen} color="red.600">
+                      Eliminar
+                    </MenuItem>
+                  </MenuList>
+                </Menu>
+              </HStack>
+            )}
+          </VStack>
+        </CardBody>
+      </Card>
+
+      <RejectRequestDialog
+        request={request}
+        isOpen={isRejectOpen}
+        onClose={onRejectClose}
+        onConfirm={handleConfirmReject}
+      />
+
+      <DeleteConfirmDialog
+        isOpen={isDeleteOpen}
+        onClose={onDeleteClose}
+        onConfirm={handleConfirmDelete}
+        itemName={request.title}
+        itemType="solicitud"
+      />
+    </>
+  );
+}
+
+function LoadingGrid({ count = 8 }: { count?: number }) {
+  return (
+    <SimpleGrid columns={{ base: 1, md: 2, lg: 3, xl: 4 }} spacing={4}>
+      {Array.from({ length: count }).map((_, i) => (
+        <Card key={i} size="sm">
+          <CardBody p={4}>
+            <VStack spacing={3} align="stretch">
+              <HStack justify="space-between">
+                <Skeleton height="20px" width="70px" borderRadius="full" />
+                <Skeleton height="20px" width="90px" borderRadius="full" />
+              </HStack>
+              <SkeletonText noOfLines={4} spacing={2} />
+              <Skeleton height="24px" width="40%" />
+            </VStack>
+          </CardBody>
+        </Card>
+      ))}
+    </SimpleGrid>
+  );
+}
+
+export function RequestList({ onEdit, onAcquire, onCreate }: RequestListProps) {
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<RequestFilters>({
+    page: 1,
+    limit: 20,
+    sortBy: 'requestDate',
+    sortOrder: 'desc',
+  });
+
+  const debouncedSearch = useDebounce(search, 400);
+  const { can } = usePermissions();
+  const canManage = can('requests.manage');
+
+  const {
+    data: requestsResponse,
+    isLoading,
+    isError,
+    error,
+    refetch,
+    isRefetching,
+  } = useRequests({ ...filters, search: debouncedSearch || undefined });
+
+  const approveMutation = useApproveRequest();
+  const rejectMutation = useRejectRequest();
+  const deleteMutation = useDeleteRequest();
+
+  const handleFilterChange = <K extends keyof RequestFilters>(key: K, value: RequestFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined, page: 1 }));
+  };
+
+  const handleApprove = async (request: Request) => {
+    try {
+      await approveMutation.mutateAsync({ id: request._id });
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleReject = async (request: Request, reason: string) => {
+    try {
+      await rejectMutation.mutateAsync({ id: request._id, reason });
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const handleDelete = async (request: Request) => {
+    try {
+      await deleteMutation.mutateAsync(request._id);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const requests = requestsResponse?.data || [];
+  const pagination = requestsResponse?.pagination;
+  const hasFilters = Boolean(debouncedSearch || filters.status || filters.priority);
+  const isMutating = approveMutation.isPending || rejectMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Filtros */}
+      <HStack spacing={4} flexWrap={{ base: 'wrap', md: 'nowrap' }}>
+        <InputGroup flex={1} minW="220px">
+          <InputLeftElement pointerEvents="none">
+            <FiSearch color="gray.400" />
+          </InputLeftElement>
+          <Input
+            placeholder="Buscar por título, autor o ISBN..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            bg="white"
+          />
+        </InputGroup>
+
+        <Select
+          maxW="180px"
+          bg="white"
+          value={filters.status || ''}
+          onChange={(e) => handleFilterChange('status', e.target.value as RequestFilters['status'])}
+        >
+          <option value="">Todos los estados</option>
+          {Object.entries(REQUEST_STATUS_CONFIG).map(([value, config]) => (
+            <option key={value} value={value}>{config.label}</option>
+          ))}
+        </Select>
+
+        <Select
+          maxW="180px"
+          bg="white"
+          value={filters.priority || ''}
+          onChange={(e) => handleFilterChange('priority', e.target.value as RequestFilters['priority'])}
+        >
+          <option value="">Todas las prioridades</option>
+          {Object.entries(REQUEST_PRIORITY_CONFIG).map(([value, config]) => (
+            <option key={value} value={value}>{config.label}</option>
+          ))}
+        </Select>
+
+        <Button
+          leftIcon={<FiRefreshCw />}
+          variant="outline"
+          onClick={() => refetch()}
+          isLoading={isLoading || isRefetching}
+        >
+          Actualizar
+        </Button>
+      </HStack>
+
+      {pagination && (
+        <Text fontSize="sm" color="gray.600">
+          {pagination.total} solicitud{pagination.total === 1 ? '' : 'es'}
+          {hasFilters && ' con los filtros aplicados'}
+        </Text>
+      )}
+
+      {/* Contenido */}
+      {isError ? (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          {(error as any)?.message || 'No se pudieron cargar las solicitudes'}
+        </Alert>
+      ) : isLoading ? (
+        <LoadingGrid />
+      ) : requests.length === 0 ? (
+        <EmptyState
+          icon={FiFileText}
+          title={hasFilters ? 'No hay solicitudes que coincidan' : 'No hay solicitudes registradas'}
+          description={
+            hasFilters
+              ? 'Intenta ajustar los filtros de búsqueda'
+              : 'Registra las solicitudes de libros y recursos que hacen los docentes'
+          }
+          actionLabel={!hasFilters && onCreate && canManage ? 'Nueva Solicitud' : undefined}
+          onAction={!hasFilters && canManage ? onCreate : undefined}
+          variant={hasFilters ? 'search' : 'create'}
+        />
+      ) : (
+        <SimpleGrid columns={{ base: 1, md: 2, lg: 3, xl: 4 }} spacing={4}>
+          {requests.map(request => (
+            <RequestCard
+              key={request._id}
+              request={request}
+              onEdit={onEdit}
+              onApprove={handleApprove}
+              onReject={handleReject}
+              onAcquire={onAcquire}
+              onDelete={handleDelete}
+              canManage={canManage}
+              isMutating={isMutating}
+            />
+          ))}
+        </SimpleGrid>
+      )}
+
+      {/* Paginación */}
+      {pagination && pagination.totalPages > 1 && (
+        <Pagination
+          currentPage={pagination.page}
+          totalPages={pagination.totalPages}
+          onPageChange={(page) => setFilters(prev => ({ ...prev, page }))}
+          isLoading={isRefetching}
+        />
+      )}
+    </VStack>
+  );
+}
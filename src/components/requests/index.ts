@@ -0,0 +1,5 @@
+// src/components/requests/index.ts
+export { RequestList } from './RequestList';
+export { RequestForm } from './RequestForm';
+export { AcquireRequestModal } from './AcquireRequestModal';
+export { REQUEST_STATUS_CONFIG, REQUEST_PRIORITY_CONFIG } from './requestConfig';
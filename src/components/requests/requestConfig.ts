@@ -0,0 +1,15 @@
+// src/components/requests/requestConfig.ts
+import type { RequestStatus, Priority } from '@/types/api.types';
+
+export const REQUEST_STATUS_CONFIG: Record<RequestStatus['name'], { label: string; color: string }> = {
+  pending: { label: 'Pendiente', color: 'yellow' },
+  approved: { label: 'Aprobada', color: 'blue' },
+  acquired: { label: 'Adquirida', color: 'green' },
+  rejected: { label: 'Rechazada', color: 'red' },
+};
+
+export const REQUEST_PRIORITY_CONFIG: Record<Priority['name'], { label: string; color: string }> = {
+  low: { label: 'Baja', color: 'gray' },
+  medium: { label: 'Media', color: 'orange' },
+  high: { label: 'Alta', color: 'red' },
+};
@@ -0,0 +1,99 @@
+// src/components/resources/CatalogSearch/CatalogFacetsPanel.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Checkbox,
+  Button,
+  Divider,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import type {
+  CatalogFacets,
+  CatalogFacetField,
+  CatalogFacetSelection,
+} from '@/types/resource.types';
+
+interface CatalogFacetsPanelProps {
+  facets: CatalogFacets;
+  selection: CatalogFacetSelection;
+  onToggle: (field: CatalogFacetField, value: string) => void;
+  onClear: () => void;
+}
+
+export const FACET_LABELS: Record<CatalogFacetField, string> = {
+  availability: 'Disponibilidad',
+  type: 'Tipo',
+  category: 'Categoría',
+  location: 'Ubicación',
+  state: 'Estado',
+};
+
+// Valores visibles por faceta antes de "Ver más"
+const VISIBLE_VALUES = 6;
+
+/**
+ * Facetas de la búsqueda con su conteo; marcar un valor refina los resultados
+ */
+export function CatalogFacetsPanel({ facets, selection, onToggle, onClear }: CatalogFacetsPanelProps) {
+  const [expanded, setExpanded] = useState<Partial<Record<CatalogFacetField, boolean>>>({});
+  const hasSelection = Object.values(selection).some(values => values && values.length > 0);
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <HStack justify="space-between">
+        <Text fontWeight="semibold" color="gray.700">Refinar búsqueda</Text>
+        {hasSelection && (
+          <Button size="xs" variant="link" colorScheme="blue" onClick={onClear}>
+            Limpiar
+          </Button>
+        )}
+      </HStack>
+
+      {(Object.keys(FACET_LABELS) as CatalogFacetField[]).map((field, index) => {
+        const values = facets[field];
+        const selected = selection[field] || [];
+        if (values.length === 0) return null;
+
+        const isExpanded = !!expanded[field];
+        const visible = isExpanded ? values : values.slice(0, VISIBLE_VALUES);
+
+        return (
+          <Box key={field}>
+            {index > 0 && <Divider mb={4} />}
+            <Text fontSize="sm" fontWeight="medium" color="gray.600" mb={2}>
+              {FACET_LABELS[field]}
+            </Text>
+            <VStack align="stretch" spacing={1}>
+              {visible.map(facet => (
+                <HStack key={facet.value} justify="space-between">
+                  <Checkbox
+                    size="sm"
+                    isChecked={selected.includes(facet.value)}
+                    onChange={() => onToggle(field, facet.value)}
+                  >
+                    <Text fontSize="sm" noOfLines={1}>{facet.label}</Text>
+                  </Checkbox>
+                  <Text fontSize="xs" color="gray.500">{facet.count}</Text>
+                </HStack>
+              ))}
+            </VStack>
+            {values.length > VISIBLE_VALUES && (
+              <Button
+                size="xs"
+                variant="link"
+                mt={2}
+                onClick={() => setExpanded(prev => ({ ...prev, [field]: !isExpanded }))}
+              >
+                {isExpanded ? 'Ver menos' : `Ver ${values.length - VISIBLE_VALUES} más`}
+              </Button>
+            )}
+          </Box>
+        );
+      })}
+    </VStack>
+  );
+}
@@ -0,0 +1,255 @@
+// src/components/resources/CatalogSearch/CatalogSearch.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Grid,
+  GridItem,
+  Card,
+  CardBody,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  InputRightElement,
+  IconButton,
+  Text,
+  Badge,
+  Button,
+  Tag,
+  TagLabel,
+  TagCloseButton,
+  Skeleton,
+  Alert,
+  AlertIcon,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { FiSearch, FiX } from 'react-icons/fi';
+import { useCatalogSearch } from '@/hooks/useCatalogSearch';
+import { CatalogFacetsPanel, FACET_LABELS } from './CatalogFacetsPanel';
+import type {
+  Resource,
+  CatalogFacetField,
+  CatalogFacetSelection,
+  CatalogMatchField,
+} from '@/types/resource.types';
+
+interface CatalogSearchProps {
+  onResourceClick: (resource: Resource) => void;
+  placeholder?: string;
+}
+
+const MATCH_FIELD_LABELS: Record<CatalogMatchField, string> = {
+  title: 'Título',
+  authors: 'Autor',
+  publisher: 'Editorial',
+  isbn: 'ISBN',
+  notes: 'Notas',
+};
+
+// Resultados mostrados por tanda
+const PAGE_SIZE = 30;
+
+/**
+ * Búsqueda avanzada en el catálogo con relevancia y facetas
+ */
+export function CatalogSearch({
+  onResourceClick,
+  placeholder = 'Buscar por título, autor, editorial, ISBN o notas...',
+}: CatalogSearchProps) {
+  const [text, setText] = useState('');
+  const [selection, setSelection] = useState<CatalogFacetSelection>({});
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const query = useMemo(() => ({ text, facets: selection }), [text, selection]);
+  const { hits, facets, total, catalogSize, isLoading, isError, isSearching } = useCatalogSearch(query);
+
+  const facetLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    (Object.keys(facets) as CatalogFacetField[]).forEach(field => {
+      facets[field].forEach(facet => labels.set(`${field}:${facet.value}`, facet.label));
+    });
+    return labels;
+  }, [facets]);
+
+  const activeFacets = (Object.keys(selection) as CatalogFacetField[]).flatMap(field =>
+    (selection[field] || []).map(value => ({ field, value }))
+  );
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleToggleFacet = (field: CatalogFacetField, value: string) => {
+    setSelection(prev => {
+      const current = prev[field] || [];
+      return {
+        ...prev,
+        [field]: current.includes(value) ? current.filter(item => item !== value) : [...current, value],
+      };
+    });
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleClearFacets = () => {
+    setSelection({});
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  if (isError) {
+    return (
+      <Alert status="error" borderRadius="md">
+        <AlertIcon />
+        No se pudo cargar el catálogo
+      </Alert>
+    );
+  }
+
+  return (
+    <Grid templateColumns={{ base: '1fr', lg: '260px 1fr' }} gap={6}>
+      <GridItem order={{ base: 2, lg: 1 }}>
+        <Card variant="outline">
+          <CardBody>
+            {isLoading ? (
+              <VStack align="stretch" spacing={3}>
+                <Skeleton height="20px" />
+                <Skeleton height="80px" />
+                <Skeleton height="80px" />
+              </VStack>
+            ) : (
+              <CatalogFacetsPanel
+                facets={facets}
+                selection={selection}
+                onToggle={handleToggleFacet}
+                onClear={handleClearFacets}
+              />
+            )}
+          </CardBody>
+        </Card>
+      </GridItem>
+
+      <GridItem order={{ base: 1, lg: 2 }}>
+        <VStack align="stretch" spacing={4}>
+          <InputGroup size="lg">
+            <InputLeftElement pointerEvents="none">
+              <FiSearch color="#A0AEC0" />
+            </InputLeftElement>
+            <Input
+              value={text}
+              onChange={(e) => handleTextChange(e.target.value)}
+              placeholder={placeholder}
+              bg="white"
+              autoFocus
+            />
+            {text && (
+              <InputRightElement>
+                <IconButton
+                  aria-label="Limpiar búsqueda"
+                  icon={<FiX />}
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleTextChange('')}
+                />
+              </InputRightElement>
+            )}
+          </InputGroup>
+
+          <HStack justify="space-between" flexWrap="wrap" gap={2}>
+            <Text fontSize="sm" color="gray.600">
+              {isLoading
+                ? 'Cargando catálogo...'
+                : `${total} de ${catalogSize} recursos${text.trim() ? ' · ordenados por relevancia' : ''}`}
+            </Text>
+            {activeFacets.length > 0 && (
+              <Wrap spacing={2}>
+                {activeFacets.map(({ field, value }) => (
+                  <WrapItem key={`${field}:${value}`}>
+                    <Tag size="sm" colorScheme="blue" borderRadius="full">
+                      <TagLabel>
+                        {FACET_LABELS[field]}: {facetLabels.get(`${field}:${value}`) || value}
+                      </TagLabel>
+                      <TagCloseButton onClick={() => handleToggleFacet(field, value)} />
+                    </Tag>
+                  </WrapItem>
+                ))}
+              </Wrap>
+            )}
+          </HStack>
+
+          {isLoading ? (
+            <VStack align="stretch" spacing={3}>
+              <Skeleton height="72px" />
+              <Skeleton height="72px" />
+              <Skeleton height="72px" />
+            </VStack>
+          ) : hits.length === 0 ? (
+            <Alert status="info" borderRadius="md">
+              <AlertIcon />
+              No hay recursos que coincidan. Prueba con menos palabras o quita algún filtro.
+            </Alert>
+          ) : (
+            <VStack align="stretch" spacing={2} opacity={isSearching ? 0.6 : 1}>
+              {hits.slice(0, visibleCount).map(({ resource, matchedFields }) => (
+                <Card
+                  key={resource._id}
+                  variant="outline"
+                  cursor="pointer"
+                  _hover={{ borderColor: 'blue.300', shadow: 'sm' }}
+                  onClick={() => onResourceClick(resource)}
+                >
+                  <CardBody py={3}>
+                    <HStack justify="space-between" align="start" spacing={4}>
+                      <VStack align="start" spacing={1} flex={1} minW={0}>
+                        <Text fontWeight="medium" color="gray.800" noOfLines={1}>
+                          {resource.title}
+                        </Text>
+                        <Text fontSize="sm" color="gray.600" noOfLines={1}>
+                          {resource.authors?.map(author => author.name).join(', ') || 'Autor desconocido'}
+                          {resource.publisher && ` · ${resource.publisher.name}`}
+                        </Text>
+                        <HStack spacing={2} flexWrap="wrap">
+                          {resource.type && (
+                            <Badge colorScheme="blue" variant="subtle">{resource.type.description}</Badge>
+                          )}
+                          {resource.category && (
+                            <Badge variant="outline">{resource.category.name}</Badge>
+                          )}
+                          {resource.location && (
+                            <Text fontSize="xs" color="gray.500">{resource.location.name}</Text>
+                          )}
+                        </HStack>
+                      </VStack>
+
+                      <VStack align="end" spacing={1} flexShrink={0}>
+                        <Badge colorScheme={resource.available ? 'green' : 'orange'}>
+                          {resource.available ? 'Disponible' : 'Prestado'}
+                        </Badge>
+                        {matchedFields.length > 0 && (
+                          <Text fontSize="2xs" color="gray.500">
+                            Coincide en: {matchedFields.map(field => MATCH_FIELD_LABELS[field]).join(', ')}
+                          </Text>
+                        )}
+                      </VStack>
+                    </HStack>
+                  </CardBody>
+                </Card>
+              ))}
+
+              {hits.length > visibleCount && (
+                <Box textAlign="center" pt={2}>
+                  <Button size="sm" variant="outline" onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}>
+                    Ver más resultados ({hits.length - visibleCount} restantes)
+                  </Button>
+                </Box>
+              )}
+            </VStack>
+          )}
+        </VStack>
+      </GridItem>
+    </Grid>
+  );
+}
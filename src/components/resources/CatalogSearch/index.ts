@@ -0,0 +1,3 @@
+// src/components/resources/CatalogSearch/index.ts
+export { CatalogSearch } from './CatalogSearch';
+export { CatalogFacetsPanel } from './CatalogFacetsPanel';
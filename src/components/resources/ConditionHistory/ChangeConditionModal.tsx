@@ -0,0 +1,110 @@
+// src/components/resources/ConditionHistory/ChangeConditionModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  Select,
+  Textarea,
+  Button,
+  Text,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { useResourceStates } from '@/hooks/useResources';
+import { useChangeResourceCondition } from '@/hooks/useResourceConditions';
+import { CONDITION_STATE_CONFIGS } from './conditionHistory.config';
+import type { Resource } from '@/types/resource.types';
+
+interface ChangeConditionModalProps {
+  resource: Resource;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Cambiar el estado físico de un recurso dejando constancia en su historial
+ */
+export function ChangeConditionModal({ resource, isOpen, onClose }: ChangeConditionModalProps) {
+  const currentStateId = resource.state?._id || resource.stateId;
+  const [stateId, setStateId] = useState(currentStateId);
+  const [observations, setObservations] = useState('');
+
+  const { data: states = [] } = useResourceStates();
+  const changeMutation = useChangeResourceCondition();
+
+  useEffect(() => {
+    if (isOpen) {
+      setStateId(currentStateId);
+      setObservations('');
+    }
+  }, [isOpen, currentStateId]);
+
+  const handleSubmit = async () => {
+    try {
+      await changeMutation.mutateAsync({ resource, newStateId: stateId, observations });
+      onClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Cambiar estado</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Text fontSize="sm" color="gray.600">{resource.title}</Text>
+
+            <FormControl isRequired>
+              <FormLabel>Nuevo estado</FormLabel>
+              <Select value={stateId} onChange={(e) => setStateId(e.target.value)}>
+                {states.filter(state => state.active || state._id === currentStateId).map(state => (
+                  <option key={state._id} value={state._id}>
+                    {CONDITION_STATE_CONFIGS[state.name]?.label || state.description}
+                    {state._id === currentStateId ? ' (actual)' : ''}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel>Observaciones</FormLabel>
+              <Textarea
+                value={observations}
+                onChange={(e) => setObservations(e.target.value)}
+                placeholder="Describe el daño o el motivo del cambio..."
+                rows={3}
+              />
+              <FormHelperText>Quedarán registradas en el historial del recurso</FormHelperText>
+            </FormControl>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            colorScheme="blue"
+            onClick={handleSubmit}
+            isLoading={changeMutation.isPending}
+            isDisabled={!stateId || (stateId === currentStateId && !observations.trim())}
+          >
+            Guardar
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,192 @@
+// src/components/resources/ConditionHistory/DegradationByBorrowerReport.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Card,
+  CardBody,
+  FormControl,
+  FormLabel,
+  Input,
+  Button,
+  Text,
+  Badge,
+  Accordion,
+  AccordionItem,
+  AccordionButton,
+  AccordionPanel,
+  AccordionIcon,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Skeleton,
+  Alert,
+  AlertIcon,
+  Link,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { useMemo, useState } from 'react';
+import { FiArrowRight, FiRefreshCw } from 'react-icons/fi';
+import { useResourceStates } from '@/hooks/useResources';
+import { useBorrowerDegradationReport } from '@/hooks/useResourceConditions';
+import { DateUtils } from '@/utils';
+import { getStateConfig } from './conditionHistory.config';
+import type { ResourceState } from '@/types/resource.types';
+
+/**
+ * Reporte de personas tras cuyas devoluciones los recursos volvieron en peor estado
+ */
+export function DegradationByBorrowerReport() {
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const filters = useMemo(
+    () => ({ dateFrom: dateFrom || undefined, dateTo: dateTo || undefined }),
+    [dateFrom, dateTo]
+  );
+
+  const { data: summaries = [], isLoading, isError, refetch, isFetching } = useBorrowerDegradationReport(filters);
+  const { data: states = [] } = useResourceStates();
+
+  const statesById = useMemo(
+    () => new Map(states.map(state => [state._id, state])),
+    [states]
+  );
+
+  const getStateLabel = (state?: ResourceState, stateId?: string) => {
+    const resolved = state || (stateId ? statesById.get(stateId) : undefined);
+    return {
+      label: getStateConfig(resolved)?.label || resolved?.description || '—',
+      color: getStateConfig(resolved)?.color || 'gray',
+    };
+  };
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <Card variant="outline">
+        <CardBody>
+          <HStack spacing={4} align="end" flexWrap="wrap">
+            <FormControl maxW="200px">
+              <FormLabel fontSize="sm">Desde</FormLabel>
+              <Input type="date" size="sm" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </FormControl>
+            <FormControl maxW="200px">
+              <FormLabel fontSize="sm">Hasta</FormLabel>
+              <Input type="date" size="sm" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </FormControl>
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<FiRefreshCw />}
+              onClick={() => refetch()}
+              isLoading={isFetching}
+            >
+              Actualizar
+            </Button>
+          </HStack>
+        </CardBody>
+      </Card>
+
+      {isLoading ? (
+        <VStack spacing={3} align="stretch">
+          <Skeleton height="56px" />
+          <Skeleton height="56px" />
+          <Skeleton height="56px" />
+        </VStack>
+      ) : isError ? (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          No se pudo generar el reporte de deterioro
+        </Alert>
+      ) : summaries.length === 0 ? (
+        <Alert status="success" borderRadius="md">
+          <AlertIcon />
+          Ningún recurso volvió en peor estado en el período seleccionado.
+        </Alert>
+      ) : (
+        <Accordion allowMultiple>
+          {summaries.map(summary => (
+            <AccordionItem key={summary.person._id} borderWidth="1px" borderRadius="md" mb={3}>
+              <AccordionButton py={3}>
+                <HStack flex={1} justify="space-between" textAlign="left" flexWrap="wrap" gap={2}>
+                  <VStack align="start" spacing={0}>
+                    <Text fontWeight="medium" color="gray.800">{summary.person.fullName}</Text>
+                    <Text fontSize="xs" color="gray.500">
+                      {[summary.person.documentNumber, summary.person.grade].filter(Boolean).join(' · ') || 'Sin datos adicionales'}
+                    </Text>
+                  </VStack>
+                  <HStack spacing={2} pr={2}>
+                    <Badge colorScheme="red">
+                      {summary.degradations.length} {summary.degradations.length === 1 ? 'deterioro' : 'deterioros'}
+                    </Badge>
+                    <Badge variant="outline">
+                      {summary.resourceCount} {summary.resourceCount === 1 ? 'recurso' : 'recursos'}
+                    </Badge>
+                    <Text fontSize="xs" color="gray.500">
+                      Último: {DateUtils.formatDate(summary.lastDegradationAt)}
+                    </Text>
+                  </HStack>
+                </HStack>
+                <AccordionIcon />
+              </AccordionButton>
+
+              <AccordionPanel pb={4}>
+                <TableContainer borderWidth="1px" borderRadius="md">
+                  <Table size="sm">
+                    <Thead bg="gray.50">
+                      <Tr>
+                        <Th>Recurso</Th>
+                        <Th>Cambio</Th>
+                        <Th>Fecha</Th>
+                        <Th>Observaciones</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {summary.degradations.map(event => {
+                        const previous = getStateLabel(event.previousState, event.previousStateId);
+                        const next = getStateLabel(event.newState, event.newStateId);
+
+                        return (
+                          <Tr key={event._id}>
+                            <Td>
+                              <Link as={NextLink} href={`/inventory/${event.resourceId}`} color="blue.600" fontSize="sm">
+                                {event.resource?.title || 'Ver recurso'}
+                              </Link>
+                            </Td>
+                            <Td>
+                              <HStack spacing={1}>
+                                <Badge colorScheme={previous.color} variant="subtle">{previous.label}</Badge>
+                                <FiArrowRight size={12} color="#A0AEC0" />
+                                <Badge colorScheme={next.color} variant="subtle">{next.label}</Badge>
+                              </HStack>
+                            </Td>
+                            <Td>
+                              <Text fontSize="xs" color="gray.600">{DateUtils.formatDate(event.createdAt)}</Text>
+                            </Td>
+                            <Td>
+                              <Box maxW="260px">
+                                <Text fontSize="xs" color="gray.600" noOfLines={2} whiteSpace="normal">
+                                  {event.observations || '—'}
+                                </Text>
+                              </Box>
+                            </Td>
+                          </Tr>
+                        );
+                      })}
+                    </Tbody>
+                  </Table>
+                </TableContainer>
+              </AccordionPanel>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+    </VStack>
+  );
+}
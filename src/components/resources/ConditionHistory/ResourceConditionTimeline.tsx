@@ -0,0 +1,149 @@
+// src/components/resources/ConditionHistory/ResourceConditionTimeline.tsx
+'use client';
+
+import {
+  Box,
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  HStack,
+  VStack,
+  Text,
+  Badge,
+  Button,
+  Circle,
+  Skeleton,
+  Alert,
+  AlertIcon,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { useMemo } from 'react';
+import { FiActivity, FiArrowRight, FiEdit } from 'react-icons/fi';
+import { useResourceStates } from '@/hooks/useResources';
+import { useResourceConditionHistory } from '@/hooks/useResourceConditions';
+import { ResourceConditionService } from '@/services/resourceCondition.service';
+import { DateUtils } from '@/utils';
+import { ChangeConditionModal } from './ChangeConditionModal';
+import { CONDITION_SOURCE_CONFIGS, getStateConfig } from './conditionHistory.config';
+import type { Resource, ResourceState } from '@/types/resource.types';
+
+interface ResourceConditionTimelineProps {
+  resource: Resource;
+}
+
+/**
+ * Historial de cambios de estado físico de un recurso
+ */
+export function ResourceConditionTimeline({ resource }: ResourceConditionTimelineProps) {
+  const { data: events = [], isLoading, isError } = useResourceConditionHistory(resource._id);
+  const { data: states = [] } = useResourceStates();
+  const { isOpen, onOpen, onClose } = useDisclosure();
+
+  const statesById = useMemo(
+    () => new Map(states.map(state => [state._id, state])),
+    [states]
+  );
+  const stateNames = useMemo(
+    () => new Map(states.map(state => [state._id, state.name])),
+    [states]
+  );
+
+  const renderState = (state?: ResourceState, stateId?: string) => {
+    const resolved = state || (stateId ? statesById.get(stateId) : undefined);
+    const config = getStateConfig(resolved);
+    return (
+      <Badge colorScheme={config?.color || 'gray'} variant="subtle">
+        {config?.label || resolved?.description || 'Sin registro'}
+      </Badge>
+    );
+  };
+
+  return (
+    <Card shadow="sm">
+      <CardHeader>
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <HStack spacing={3}>
+            <Heading size="md" color="gray.700">
+              Historial de Estado
+            </Heading>
+            {events.length > 0 && <Badge>{events.length}</Badge>}
+          </HStack>
+          <Button size="sm" colorScheme="blue" variant="outline" leftIcon={<FiEdit />} onClick={onOpen}>
+            Cambiar estado
+          </Button>
+        </HStack>
+      </CardHeader>
+
+      <CardBody pt={0}>
+        {isLoading ? (
+          <VStack spacing={2} align="stretch">
+            <Skeleton height="48px" />
+            <Skeleton height="48px" />
+          </VStack>
+        ) : isError ? (
+          <Alert status="error" borderRadius="md">
+            <AlertIcon />
+            No se pudo cargar el historial de estado
+          </Alert>
+        ) : events.length === 0 ? (
+          <Text fontSize="sm" color="gray.500">
+            Aún no hay cambios de estado registrados para este recurso.
+          </Text>
+        ) : (
+          <VStack align="stretch" spacing={0}>
+            {events.map((event, index) => {
+              const source = CONDITION_SOURCE_CONFIGS[event.source];
+              const degraded = ResourceConditionService.isDegradation(event, stateNames);
+
+              return (
+                <HStack key={event._id} align="stretch" spacing={3}>
+                  <VStack spacing={0} align="center">
+                    <Circle size="28px" bg={degraded ? 'red.50' : `${source.color}.50`} color={degraded ? 'red.500' : `${source.color}.500`}>
+                      <FiActivity size={14} />
+                    </Circle>
+                    {index < events.length - 1 && <Box flex={1} w="2px" bg="gray.200" minH="16px" />}
+                  </VStack>
+
+                  <VStack align="stretch" spacing={1} pb={4} flex={1}>
+                    <HStack spacing={2} flexWrap="wrap">
+                      <Badge colorScheme={source.color} variant="outline" fontSize="2xs">
+                        {source.label}
+                      </Badge>
+                      {renderState(event.previousState, event.previousStateId)}
+                      <FiArrowRight size={12} color="#A0AEC0" />
+                      {renderState(event.newState, event.newStateId)}
+                      {degraded && (
+                        <Badge colorScheme="red" fontSize="2xs">Deterioro</Badge>
+                      )}
+                    </HStack>
+
+                    <Text fontSize="xs" color="gray.500">
+                      {DateUtils.formatDateTime(event.createdAt)}
+                      {event.recordedByUser && ` · ${event.recordedByUser.email}`}
+                    </Text>
+
+                    {event.person && (
+                      <Text fontSize="sm" color="gray.700">
+                        Devuelto por {event.person.fullName}
+                        {event.person.grade && ` (${event.person.grade})`}
+                      </Text>
+                    )}
+
+                    {event.observations && (
+                      <Text fontSize="sm" color="gray.600" fontStyle="italic">
+                        &quot;{event.observations}&quot;
+                      </Text>
+                    )}
+                  </VStack>
+                </HStack>
+              );
+            })}
+          </VStack>
+        )}
+      </CardBody>
+
+      <ChangeConditionModal resource={resource} isOpen={isOpen} onClose={onClose} />
+    </Card>
+  );
+}
@@ -0,0 +1,19 @@
+// src/components/resources/ConditionHistory/conditionHistory.config.ts
+import type { ResourceState, ConditionChangeSource } from '@/types/resource.types';
+
+export const CONDITION_STATE_CONFIGS: Record<ResourceState['name'], { label: string; color: string }> = {
+  good: { label: 'Buen estado', color: 'green' },
+  deteriorated: { label: 'Deteriorado', color: 'yellow' },
+  damaged: { label: 'Dañado', color: 'orange' },
+  lost: { label: 'Perdido', color: 'red' },
+};
+
+export const CONDITION_SOURCE_CONFIGS: Record<ConditionChangeSource, { label: string; color: string }> = {
+  return: { label: 'Devolución', color: 'blue' },
+  manual: { label: 'Cambio manual', color: 'gray' },
+  audit: { label: 'Auditoría', color: 'teal' },
+};
+
+export function getStateConfig(state?: ResourceState) {
+  return state ? CONDITION_STATE_CONFIGS[state.name] : undefined;
+}
@@ -0,0 +1,4 @@
+// src/components/resources/ConditionHistory/index.ts
+export { ResourceConditionTimeline } from './ResourceConditionTimeline';
+export { ChangeConditionModal } from './ChangeConditionModal';
+export { DegradationByBorrowerReport } from './DegradationByBorrowerReport';
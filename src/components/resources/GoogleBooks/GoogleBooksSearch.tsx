@@ -41,6 +41,8 @@ interface GoogleBooksSearchProps {
   categoryId?: string;
   locationId?: string;
   className?: string;
+  // Solo seleccionar el libro (p. ej. para prellenar un formulario) sin registrarlo
+  selectOnly?: boolean;
 }
 
 function BookCard({ 
@@ -49,7 +51,8 @@ function BookCard({
   onPreview,
   categoryId,
   locationId,
-  isCreating = false
+  isCreating = false,
+  selectOnly = false
 }: { 
   volume: GoogleBooksVolume; 
   onQuickSelect: () => void;
@@ -57,6 +60,7 @@ function BookCard({
   categoryId?: string;
   locationId?: string;
   isCreating?: boolean;
+  selectOnly?: boolean;
 }) {
   const imageUrl = GoogleBooksUtils.getBestImageUrl(volume);
   const authors = GoogleBooksUtils.formatAuthors(volume);
@@ -121,8 +125,21 @@ function BookCard({
 
           {/* Acciones */}
           <VStack spacing={2}>
+            {/* Botón de selección (sin registro) */}
+            {selectOnly && (
+              <Button
+                size="sm"
+                colorScheme="blue"
+                leftIcon={<FiCheck />}
+                onClick={onQuickSelect}
+                w="full"
+              >
+                Usar este libro
+              </Button>
+            )}
+
             {/* Botón de registro rápido */}
-            {canCreateResource && (
+            {canCreateResource && !selectOnly && (
               <Button
                 size="sm"
                 colorScheme="green"
@@ -178,6 +195,7 @@ export function GoogleBooksSearch({
   categoryId,
   locationId,
   className,
+  selectOnly = false,
 }: GoogleBooksSearchProps) {
   const [query, setQuery] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
@@ -215,6 +233,11 @@ export function GoogleBooksSearch({
   };
 
   const handleQuickSelect = async (volume: GoogleBooksVolume) => {
+    if (selectOnly) {
+      onBookSelect(volume);
+      return;
+    }
+
     if (!categoryId || !locationId) {
       toast({
         title: 'Configuración incompleta',
@@ -321,7 +344,9 @@ export function GoogleBooksSearch({
               </InputGroup>
               
               <Text fontSize="sm" color="gray.600">
-                Busca libros por título, autor o ISBN. Haz clic en "Registrar Libro" para agregarlo automáticamente al inventario.
+                {selectOnly
+                  ? 'Busca libros por título, autor o ISBN. Haz clic en "Usar este libro" para completar el formulario con sus datos.'
+                  : 'Busca libros por título, autor o ISBN. Haz clic en "Registrar Libro" para agregarlo automáticamente al inventario.'}
               </Text>
             </VStack>
           </form>
@@ -367,6 +392,7 @@ export function GoogleBooksSearch({
                     categoryId={categoryId}
                     locationId={locationId}
                     isCreating={creatingVolumes.has(volume.id)}
+                    selectOnly={selectOnly}
                   />
                 ))}
               </SimpleGrid>
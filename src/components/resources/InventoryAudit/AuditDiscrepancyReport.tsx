@@ -0,0 +1,380 @@
+// src/components/resources/InventoryAudit/AuditDiscrepancyReport.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Checkbox,
+  Button,
+  Badge,
+  Text,
+  Progress,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { FiAlertTriangle, FiMapPin, FiCheckCircle } from 'react-icons/fi';
+import { useBulkUpdateResources, useReturnFoundResources } from '@/hooks/useResources';
+import { ResourceConditionService } from '@/services/resourceCondition.service';
+import { DateUtils } from '@/utils';
+import { getResourceLocationId } from './inventoryAudit.utils';
+import type {
+  Resource,
+  Location,
+  InventoryAuditReport,
+  UpdateResourceRequest,
+} from '@/types/resource.types';
+import type { BulkReturnResult } from '@/types/loan.types';
+
+interface AuditDiscrepancyReportProps {
+  report: InventoryAuditReport;
+  locations: Location[];
+  lostStateId?: string;
+}
+
+type DiscrepancyKind = 'missing' | 'misplaced' | 'onLoanPresent';
+
+interface DiscrepancySectionConfig {
+  kind: DiscrepancyKind;
+  title: string;
+  description: string;
+  icon: any;
+  color: string;
+  actionLabel: string;
+}
+
+const SECTIONS: DiscrepancySectionConfig[] = [
+  {
+    kind: 'missing',
+    title: 'No encontrados',
+    description: 'Registrados en esta ubicación y disponibles, pero no están en el estante',
+    icon: FiAlertTriangle,
+    color: 'red',
+    actionLabel: 'Marcar como perdidos',
+  },
+  {
+    kind: 'misplaced',
+    title: 'En otra ubicación',
+    description: 'Encontrados aquí pero registrados en otra ubicación',
+    icon: FiMapPin,
+    color: 'orange',
+    actionLabel: 'Mover a esta ubicación',
+  },
+  {
+    kind: 'onLoanPresent',
+    title: 'Prestados pero presentes',
+    description: 'Figuran como prestados y están físicamente en el estante',
+    icon: FiCheckCircle,
+    color: 'purple',
+    actionLabel: 'Registrar devolución',
+  },
+];
+
+/**
+ * Reporte de discrepancias de una auditoría, con acciones masivas para corregir el inventario
+ */
+export function AuditDiscrepancyReport({ report, locations, lostStateId }: AuditDiscrepancyReportProps) {
+  const [selected, setSelected] = useState<Record<DiscrepancyKind, string[]>>({
+    missing: [],
+    misplaced: [],
+    onLoanPresent: [],
+  });
+  const [resolved, setResolved] = useState<Record<DiscrepancyKind, string[]>>({
+    missing: [],
+    misplaced: [],
+    onLoanPresent: [],
+  });
+  const [activeKind, setActiveKind] = useState<DiscrepancyKind | null>(null);
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [returnFailures, setReturnFailures] = useState<BulkReturnResult['failed']>([]);
+
+  const bulkUpdateMutation = useBulkUpdateResources();
+  const returnMutation = useReturnFoundResources();
+
+  const locationNames = useMemo(
+    () => new Map(locations.map(location => [location._id, location.name])),
+    [locations]
+  );
+  const auditedLocationName = locationNames.get(report.locationId) || 'la ubicación';
+
+  const pending = (kind: DiscrepancyKind) =>
+    report[kind].filter(resource => !resolved[kind].includes(resource._id));
+
+  const getUpdateData = (kind: DiscrepancyKind): UpdateResourceRequest | null => {
+    switch (kind) {
+      case 'missing':
+        return lostStateId ? { stateId: lostStateId, available: false } : null;
+      case 'misplaced':
+        return { locationId: report.locationId };
+      case 'onLoanPresent':
+        // Se corrige registrando la devolución, no editando el recurso
+        return null;
+    }
+  };
+
+  const canApplyKind = (kind: DiscrepancyKind) => kind === 'onLoanPresent' || !!getUpdateData(kind);
+
+  const toggleResource = (kind: DiscrepancyKind, id: string) => {
+    setSelected(prev => ({
+      ...prev,
+      [kind]: prev[kind].includes(id) ? prev[kind].filter(item => item !== id) : [...prev[kind], id],
+    }));
+  };
+
+  const toggleAll = (kind: DiscrepancyKind) => {
+    const ids = pending(kind).map(resource => resource._id);
+    setSelected(prev => ({
+      ...prev,
+      [kind]: prev[kind].length === ids.length ? [] : ids,
+    }));
+  };
+
+  const markResolved = (kind: DiscrepancyKind, resolvedIds: string[]) => {
+    setResolved(prev => ({ ...prev, [kind]: [...prev[kind], ...resolvedIds] }));
+    setSelected(prev => ({ ...prev, [kind]: prev[kind].filter(id => !resolvedIds.includes(id)) }));
+  };
+
+  // El préstamo abierto se cierra por el flujo de devoluciones, que libera el recurso
+  const handleReturn = async () => {
+    const ids = selected.onLoanPresent;
+    if (ids.length === 0) return;
+
+    setActiveKind('onLoanPresent');
+    setProgress({ processed: 0, total: ids.length });
+    setReturnFailures([]);
+
+    try {
+      const result = await returnMutation.mutateAsync({
+        resourceIds: ids,
+        observations: `Encontrado en el estante en la auditoría de ${auditedLocationName}`,
+        onProgress: (processed, total) => setProgress({ processed, total }),
+      });
+
+      setReturnFailures(result.failed);
+      markResolved('onLoanPresent', result.successful);
+    } catch (error) {
+      // Error manejado por el hook
+    } finally {
+      setActiveKind(null);
+      setProgress(null);
+    }
+  };
+
+  const handleApply = async (kind: DiscrepancyKind) => {
+    if (kind === 'onLoanPresent') {
+      await handleReturn();
+      return;
+    }
+
+    const data = getUpdateData(kind);
+    const ids = selected[kind];
+    if (!data || ids.length === 0) return;
+
+    setActiveKind(kind);
+    setProgress({ processed: 0, total: ids.length });
+
+    try {
+      const result = await bulkUpdateMutation.mutateAsync({
+        updates: ids.map(resourceId => ({ resourceId, data })),
+        onProgress: (processed, total) => setProgress({ processed, total }),
+      });
+
+      const updatedIds = result.successful.map(resource => resource._id);
+
+      // Los recursos dados por perdidos quedan en su historial de estado
+      if (kind === 'missing' && lostStateId) {
+        await ResourceConditionService.recordEventsSafely(
+          report.missing
+            .filter(resource => updatedIds.includes(resource._id))
+            .map(resource => ({
+              resourceId: resource._id,
+              previousStateId: resource.state?._id || resource.stateId,
+              newStateId: lostStateId,
+              source: 'audit' as const,
+              observations: `No encontrado en la auditoría de ${auditedLocationName}`,
+            }))
+        );
+      }
+      markResolved(kind, updatedIds);
+    } catch (error) {
+      // Error manejado por el hook
+    } finally {
+      setActiveKind(null);
+      setProgress(null);
+    }
+  };
+
+  const stats = [
+    { label: 'Esperados', value: report.expectedCount, color: 'gray.800' },
+    { label: 'Encontrados', value: report.found.length, color: 'green.600' },
+    { label: 'No encontrados', value: report.missing.length, color: 'red.600' },
+    { label: 'Prestados (fuera)', value: report.onLoanAbsent.length, color: 'blue.600' },
+  ];
+
+  const renderLocation = (resource: Resource) => {
+    const locationId = getResourceLocationId(resource);
+    return resource.location?.name || locationNames.get(locationId) || 'Sin ubicación';
+  };
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <Text fontSize="sm" color="gray.600">
+        Auditoría de {auditedLocationName} · iniciada {DateUtils.formatDateTime(report.startedAt)} ·
+        finalizada {DateUtils.formatDateTime(report.finishedAt)}
+      </Text>
+
+      <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+        {stats.map(stat => (
+          <Card key={stat.label} variant="outline">
+            <CardBody py={3}>
+              <Stat>
+                <StatLabel color="gray.600">{stat.label}</StatLabel>
+                <StatNumber color={stat.color}>{stat.value}</StatNumber>
+              </Stat>
+            </CardBody>
+          </Card>
+        ))}
+      </SimpleGrid>
+
+      {SECTIONS.every(section => report[section.kind].length === 0) && (
+        <Alert status="success" borderRadius="md">
+          <AlertIcon />
+          El estante coincide con el sistema: no hay discrepancias.
+        </Alert>
+      )}
+
+      {SECTIONS.filter(section => report[section.kind].length > 0).map(section => {
+        const items = pending(section.kind);
+        const selectedIds = selected[section.kind];
+        const isApplying = activeKind === section.kind;
+        const canApply = canApplyKind(section.kind);
+
+        return (
+          <Card key={section.kind} shadow="sm">
+            <CardHeader pb={2}>
+              <HStack justify="space-between" align="start" flexWrap="wrap" gap={3}>
+                <HStack spacing={3} align="start">
+                  <Box p={2} bg={`${section.color}.50`} color={`${section.color}.600`} borderRadius="md">
+                    <section.icon size={18} />
+                  </Box>
+                  <VStack align="start" spacing={0}>
+                    <HStack spacing={2}>
+                      <Heading size="sm" color="gray.700">{section.title}</Heading>
+                      <Badge colorScheme={section.color}>{items.length}</Badge>
+                    </HStack>
+                    <Text fontSize="xs" color="gray.500">{section.description}</Text>
+                  </VStack>
+                </HStack>
+
+                <Button
+                  size="sm"
+                  colorScheme={section.color}
+                  onClick={() => handleApply(section.kind)}
+                  isLoading={isApplying}
+                  isDisabled={selectedIds.length === 0 || !canApply || (activeKind !== null && !isApplying)}
+                >
+                  {section.actionLabel} ({selectedIds.length})
+                </Button>
+              </HStack>
+            </CardHeader>
+
+            <CardBody pt={2}>
+              <VStack align="stretch" spacing={3}>
+                {section.kind === 'missing' && !canApply && (
+                  <Alert status="warning" borderRadius="md" fontSize="sm">
+                    <AlertIcon />
+                    No existe el estado &quot;perdido&quot; en el catálogo de estados de recursos.
+                  </Alert>
+                )}
+                {section.kind === 'onLoanPresent' && returnFailures.length > 0 && (
+                  <Alert status="warning" borderRadius="md" fontSize="sm" alignItems="start">
+                    <AlertIcon />
+                    <VStack align="start" spacing={1}>
+                      {returnFailures.map(failure => (
+                        <Text key={failure.resourceId}>
+                          {report.onLoanPresent.find(resource => resource._id === failure.resourceId)?.title || failure.resourceId}
+                          : {failure.error}
+                        </Text>
+                      ))}
+                    </VStack>
+                  </Alert>
+                )}
+
+                {isApplying && progress && (
+                  <Progress
+                    size="sm"
+                    colorScheme={section.color}
+                    value={(progress.processed / progress.total) * 100}
+                    borderRadius="full"
+                  />
+                )}
+
+                {items.length === 0 ? (
+                  <Text fontSize="sm" color="green.600">Todas las discrepancias de este grupo fueron corregidas.</Text>
+                ) : (
+                  <TableContainer maxH="320px" overflowY="auto" borderWidth="1px" borderRadius="md">
+                    <Table size="sm">
+                      <Thead position="sticky" top={0} bg="gray.50" zIndex={1}>
+                        <Tr>
+                          <Th width="40px">
+                            <Checkbox
+                              isChecked={selectedIds.length > 0 && selectedIds.length === items.length}
+                              isIndeterminate={selectedIds.length > 0 && selectedIds.length < items.length}
+                              onChange={() => toggleAll(section.kind)}
+                              isDisabled={isApplying}
+                            />
+                          </Th>
+                          <Th>Recurso</Th>
+                          <Th>ISBN</Th>
+                          <Th>Ubicación registrada</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {items.map(resource => (
+                          <Tr key={resource._id}>
+                            <Td>
+                              <Checkbox
+                                isChecked={selectedIds.includes(resource._id)}
+                                onChange={() => toggleResource(section.kind, resource._id)}
+                                isDisabled={isApplying}
+                              />
+                            </Td>
+                            <Td>
+                              <Text fontSize="sm" fontWeight="medium" noOfLines={1}>{resource.title}</Text>
+                            </Td>
+                            <Td>
+                              <Text fontSize="xs" color="gray.600">{resource.isbn || '—'}</Text>
+                            </Td>
+                            <Td>
+                              <Text fontSize="xs" color="gray.600">{renderLocation(resource)}</Text>
+                            </Td>
+                          </Tr>
+                        ))}
+                      </Tbody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </VStack>
+            </CardBody>
+          </Card>
+        );
+      })}
+    </VStack>
+  );
+}
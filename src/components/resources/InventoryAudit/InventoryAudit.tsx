@@ -0,0 +1,499 @@
+// src/components/resources/InventoryAudit/InventoryAudit.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Card,
+  CardBody,
+  Text,
+  Button,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  Select,
+  FormControl,
+  FormLabel,
+  Checkbox,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Badge,
+  Progress,
+  Alert,
+  AlertIcon,
+  Skeleton,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  FiMaximize,
+  FiPlay,
+  FiFlag,
+  FiSearch,
+  FiCheckCircle,
+  FiXCircle,
+  FiRefreshCw,
+} from 'react-icons/fi';
+import { useLocations, useResourceStates, useResourcesByLocation } from '@/hooks/useResources';
+import { ResourceService } from '@/services/resource.service';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { DateUtils } from '@/utils';
+import { AuditDiscrepancyReport } from './AuditDiscrepancyReport';
+import {
+  loadAuditSession,
+  saveAuditSession,
+  clearAuditSession,
+  buildAuditReport,
+  getResourceLocationId,
+} from './inventoryAudit.utils';
+import type { Resource, InventoryAuditSession, InventoryAuditReport } from '@/types/resource.types';
+
+interface ScanResult {
+  id: number;
+  success: boolean;
+  message: string;
+}
+
+const normalizeCode = (code: string) => code.trim().replace(/[-\s]/g, '').toLowerCase();
+
+/**
+ * Auditoría de inventario por ubicación
+ *
+ * Flujo:
+ * 1. Elegir la ubicación a revisar
+ * 2. Escanear o marcar cada recurso encontrado en el estante
+ * 3. Finalizar y revisar el reporte de discrepancias
+ */
+export function InventoryAudit() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const scanIdRef = useRef(0);
+
+  const [session, setSession] = useState<InventoryAuditSession | null>(null);
+  const [locationId, setLocationId] = useState('');
+  const [code, setCode] = useState('');
+  const [filter, setFilter] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanResults, setScanResults] = useState<ScanResult[]>([]);
+  const [report, setReport] = useState<InventoryAuditReport | null>(null);
+  const { isOpen: isCancelOpen, onOpen: onCancelOpen, onClose: onCancelClose } = useDisclosure();
+
+  const { data: locations = [], isLoading: isLoadingLocations } = useLocations();
+  const { data: states = [] } = useResourceStates();
+  const {
+    data: expected = [],
+    isLoading: isLoadingExpected,
+    isError: isExpectedError,
+    refetch: refetchExpected,
+  } = useResourcesByLocation(session?.locationId || '');
+
+  const lostStateId = states.find(state => state.name === 'lost')?._id;
+  const activeLocations = locations.filter(location => location.active);
+  const sessionLocation = locations.find(location => location._id === session?.locationId);
+
+  // Retomar una auditoría que quedó en curso
+  useEffect(() => {
+    const saved = loadAuditSession();
+    if (saved) setSession(saved);
+  }, []);
+
+  useEffect(() => {
+    if (session && !isLoadingExpected) inputRef.current?.focus();
+  }, [session, isLoadingExpected]);
+
+  const foundIds = useMemo(
+    () => new Set((session?.found || []).map(resource => resource._id)),
+    [session]
+  );
+
+  const extraFound = useMemo(
+    () => (session?.found || []).filter(resource => !expected.some(item => item._id === resource._id)),
+    [session, expected]
+  );
+
+  const visibleExpected = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    if (!term) return expected;
+    return expected.filter(resource =>
+      resource.title.toLowerCase().includes(term) || resource.isbn?.includes(term)
+    );
+  }, [expected, filter]);
+
+  const foundExpectedCount = expected.filter(resource => foundIds.has(resource._id)).length;
+
+  // ===== SESIÓN =====
+
+  const updateSession = (updater: (current: InventoryAuditSession) => InventoryAuditSession) => {
+    setSession(prev => {
+      if (!prev) return prev;
+      const next = updater(prev);
+      saveAuditSession(next);
+      return next;
+    });
+  };
+
+  const handleStart = () => {
+    if (!locationId) return;
+
+    const newSession: InventoryAuditSession = {
+      locationId,
+      startedAt: new Date().toISOString(),
+      found: [],
+    };
+    saveAuditSession(newSession);
+    setSession(newSession);
+    setReport(null);
+    setScanResults([]);
+  };
+
+  const handleCancel = () => {
+    clearAuditSession();
+    setSession(null);
+    setScanResults([]);
+    onCancelClose();
+  };
+
+  const handleFinish = () => {
+    if (!session) return;
+
+    setReport(buildAuditReport(session, expected, lostStateId));
+    clearAuditSession();
+    setSession(null);
+  };
+
+  const handleNewAudit = () => {
+    setReport(null);
+    setLocationId('');
+    setFilter('');
+  };
+
+  // ===== RECUENTO =====
+
+  const markFound = (resource: Resource) => {
+    updateSession(current => ({
+      ...current,
+      found: [...current.found.filter(item => item._id !== resource._id), resource],
+    }));
+  };
+
+  const unmarkFound = (resourceId: string) => {
+    updateSession(current => ({
+      ...current,
+      found: current.found.filter(item => item._id !== resourceId),
+    }));
+  };
+
+  const addScanResult = (success: boolean, message: string) => {
+    setScanResults(prev => [{ id: ++scanIdRef.current, success, message }, ...prev].slice(0, 5));
+  };
+
+  const handleScan = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const scanned = code.trim();
+    setCode('');
+    if (!scanned || !session) return;
+
+    setIsScanning(true);
+    try {
+      // Primero se busca entre los esperados para no consultar el servidor en cada lectura
+      const normalized = normalizeCode(scanned);
+      const resource = expected.find(item =>
+        item._id.toLowerCase() === normalized || (item.isbn && normalizeCode(item.isbn) === normalized)
+      ) || await ResourceService.getResourceByCode(scanned);
+
+      if (foundIds.has(resource._id)) {
+        addScanResult(true, `"${resource.title}" ya estaba registrado`);
+        return;
+      }
+
+      markFound(resource);
+
+      if (getResourceLocationId(resource) !== session.locationId) {
+        addScanResult(false, `"${resource.title}" pertenece a otra ubicación`);
+      } else {
+        addScanResult(true, `Encontrado: "${resource.title}"`);
+      }
+    } catch (error: any) {
+      const message = error?.response?.status === 404
+        ? `No se encontró ningún recurso con el código "${scanned}"`
+        : error?.message || 'Error al leer el código';
+      addScanResult(false, message);
+    } finally {
+      setIsScanning(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  // ===== RENDER =====
+
+  if (report) {
+    return (
+      <VStack spacing={6} align="stretch">
+        <AuditDiscrepancyReport report={report} locations={locations} lostStateId={lostStateId} />
+        <HStack justify="flex-end">
+          <Button leftIcon={<FiPlay />} colorScheme="blue" onClick={handleNewAudit}>
+            Nueva auditoría
+          </Button>
+        </HStack>
+      </VStack>
+    );
+  }
+
+  if (!session) {
+    return (
+      <Card shadow="sm">
+        <CardBody>
+          <VStack spacing={4} align="stretch" maxW="lg">
+            <Text fontSize="sm" color="gray.600">
+              Elige la ubicación a revisar. Durante el recuento escanea la etiqueta de cada recurso que
+              encuentres en el estante o márcalo en la lista; al finalizar verás las diferencias con el sistema.
+            </Text>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Ubicación</FormLabel>
+              {isLoadingLocations ? (
+                <Skeleton height="40px" borderRadius="md" />
+              ) : (
+                <Select
+                  placeholder="Selecciona una ubicación"
+                  value={locationId}
+                  onChange={(e) => setLocationId(e.target.value)}
+                  bg="white"
+                >
+                  {activeLocations.map(location => (
+                    <option key={location._id} value={location._id}>
+                      {location.name}{location.code ? ` (${location.code})` : ''}
+                    </option>
+                  ))}
+                </Select>
+              )}
+            </FormControl>
+
+            <HStack justify="flex-end">
+              <Button
+                leftIcon={<FiPlay />}
+                colorScheme="blue"
+                onClick={handleStart}
+                isDisabled={!locationId}
+              >
+                Iniciar auditoría
+              </Button>
+            </HStack>
+          </VStack>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Estado de la sesión */}
+      <Card shadow="sm">
+        <CardBody>
+          <VStack spacing={4} align="stretch">
+            <HStack justify="space-between" flexWrap="wrap" gap={3}>
+              <VStack align="start" spacing={0}>
+                <Text fontWeight="semibold" color="gray.800">
+                  {sessionLocation?.name || 'Ubicación'}
+                </Text>
+                <Text fontSize="xs" color="gray.500">
+                  Iniciada {DateUtils.formatRelative(session.startedAt)}
+                </Text>
+              </VStack>
+
+              <HStack spacing={3}>
+                <Button size="sm" variant="outline" colorScheme="red" onClick={onCancelOpen}>
+                  Descartar
+                </Button>
+                <Button
+                  size="sm"
+                  leftIcon={<FiFlag />}
+                  colorScheme="green"
+                  onClick={handleFinish}
+                  isDisabled={isLoadingExpected || isExpectedError}
+                >
+                  Finalizar y ver reporte
+                </Button>
+              </HStack>
+            </HStack>
+
+            <Box>
+              <HStack justify="space-between" mb={1}>
+                <Text fontSize="sm" color="gray.600">
+                  {foundExpectedCount} de {expected.length} recursos esperados encontrados
+                </Text>
+                {extraFound.length > 0 && (
+                  <Badge colorScheme="orange">{extraFound.length} de otra ubicación</Badge>
+                )}
+              </HStack>
+              <Progress
+                value={expected.length > 0 ? (foundExpectedCount / expected.length) * 100 : 0}
+                colorScheme="green"
+                size="sm"
+                borderRadius="full"
+              />
+            </Box>
+
+            <form onSubmit={handleScan}>
+              <InputGroup size="lg">
+                <InputLeftElement pointerEvents="none">
+                  <FiMaximize color="gray" />
+                </InputLeftElement>
+                <Input
+                  ref={inputRef}
+                  placeholder="Escanea la etiqueta o escribe el ISBN y presiona Enter"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  isDisabled={isScanning || isLoadingExpected}
+                  autoComplete="off"
+                  bg="white"
+                />
+              </InputGroup>
+            </form>
+
+            {scanResults.length > 0 && (
+              <VStack align="stretch" spacing={1}>
+                {scanResults.map(result => (
+                  <HStack key={result.id} spacing={2} fontSize="sm">
+                    {result.success
+                      ? <FiCheckCircle color="green" />
+                      : <FiXCircle color="orange" />}
+                    <Text color={result.success ? 'gray.700' : 'orange.600'}>{result.message}</Text>
+                  </HStack>
+                ))}
+              </VStack>
+            )}
+          </VStack>
+        </CardBody>
+      </Card>
+
+      {isExpectedError && (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          <HStack justify="space-between" w="full">
+            <Text fontSize="sm">No se pudieron cargar los recursos de la ubicación.</Text>
+            <Button size="xs" leftIcon={<FiRefreshCw />} onClick={() => refetchExpected()}>
+              Reintentar
+            </Button>
+          </HStack>
+        </Alert>
+      )}
+
+      {/* Lista de verificación */}
+      <Card shadow="sm">
+        <CardBody>
+          <VStack spacing={4} align="stretch">
+            <InputGroup size="sm" maxW="sm">
+              <InputLeftElement pointerEvents="none">
+                <FiSearch color="gray" />
+              </InputLeftElement>
+              <Input
+                placeholder="Filtrar por título o ISBN..."
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+              />
+            </InputGroup>
+
+            {isLoadingExpected ? (
+              <VStack spacing={2} align="stretch">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} height="32px" />
+                ))}
+              </VStack>
+            ) : (
+              <TableContainer maxH="480px" overflowY="auto" borderWidth="1px" borderRadius="md">
+                <Table size="sm">
+                  <Thead position="sticky" top={0} bg="gray.50" zIndex={1}>
+                    <Tr>
+                      <Th width="40px" />
+                      <Th>Recurso</Th>
+                      <Th>ISBN</Th>
+                      <Th>Estado en sistema</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {visibleExpected.map(resource => {
+                      const isFound = foundIds.has(resource._id);
+
+                      return (
+                        <Tr key={resource._id} bg={isFound ? 'green.50' : undefined}>
+                          <Td>
+                            <Checkbox
+                              colorScheme="green"
+                              isChecked={isFound}
+                              onChange={() => (isFound ? unmarkFound(resource._id) : markFound(resource))}
+                            />
+                          </Td>
+                          <Td>
+                            <Text fontSize="sm" fontWeight="medium" noOfLines={1}>{resource.title}</Text>
+                          </Td>
+                          <Td>
+                            <Text fontSize="xs" color="gray.600">{resource.isbn || '—'}</Text>
+                          </Td>
+                          <Td>
+                            <HStack spacing={1}>
+                              <Badge colorScheme={resource.available ? 'green' : 'blue'} variant="subtle">
+                                {resource.available ? 'Disponible' : 'Prestado'}
+                              </Badge>
+                              {resource.state?.name === 'lost' && (
+                                <Badge colorScheme="red" variant="subtle">Perdido</Badge>
+                              )}
+                            </HStack>
+                          </Td>
+                        </Tr>
+                      );
+                    })}
+
+                    {extraFound.map(resource => (
+                      <Tr key={resource._id} bg="orange.50">
+                        <Td>
+                          <Checkbox colorScheme="orange" isChecked onChange={() => unmarkFound(resource._id)} />
+                        </Td>
+                        <Td>
+                          <Text fontSize="sm" fontWeight="medium" noOfLines={1}>{resource.title}</Text>
+                        </Td>
+                        <Td>
+                          <Text fontSize="xs" color="gray.600">{resource.isbn || '—'}</Text>
+                        </Td>
+                        <Td>
+                          <Badge colorScheme="orange" variant="subtle">Otra ubicación</Badge>
+                        </Td>
+                      </Tr>
+                    ))}
+
+                    {visibleExpected.length === 0 && extraFound.length === 0 && (
+                      <Tr>
+                        <Td colSpan={4}>
+                          <Text fontSize="sm" color="gray.500" textAlign="center" py={4}>
+                            {filter
+                              ? 'Ningún recurso coincide con el filtro'
+                              : 'No hay recursos registrados en esta ubicación'}
+                          </Text>
+                        </Td>
+                      </Tr>
+                    )}
+                  </Tbody>
+                </Table>
+              </TableContainer>
+            )}
+          </VStack>
+        </CardBody>
+      </Card>
+
+      <ConfirmDialog
+        isOpen={isCancelOpen}
+        onClose={onCancelClose}
+        onConfirm={handleCancel}
+        title="Descartar auditoría"
+        message="Se perderá el recuento realizado en esta ubicación."
+        confirmText="Descartar"
+        variant="danger"
+      />
+    </VStack>
+  );
+}
@@ -0,0 +1,3 @@
+// src/components/resources/InventoryAudit/index.ts
+export { InventoryAudit } from './InventoryAudit';
+export { AuditDiscrepancyReport } from './AuditDiscrepancyReport';
@@ -0,0 +1,57 @@
+// src/components/resources/InventoryAudit/inventoryAudit.utils.ts
+import { StorageUtils } from '@/utils';
+import type { Resource, InventoryAuditSession, InventoryAuditReport } from '@/types/resource.types';
+
+// La sesión se guarda localmente para no perder el recuento si se recarga la página
+const AUDIT_SESSION_KEY = 'inventory.auditSession';
+
+export function loadAuditSession(): InventoryAuditSession | null {
+  return StorageUtils.getItem<InventoryAuditSession>(AUDIT_SESSION_KEY);
+}
+
+export function saveAuditSession(session: InventoryAuditSession): void {
+  StorageUtils.setItem(AUDIT_SESSION_KEY, session);
+}
+
+export function clearAuditSession(): void {
+  StorageUtils.removeItem(AUDIT_SESSION_KEY);
+}
+
+export function getResourceLocationId(resource: Resource): string {
+  return resource.location?._id || resource.locationId;
+}
+
+export function isResourceLost(resource: Resource, lostStateId?: string): boolean {
+  return resource.state?.name === 'lost' || (!!lostStateId && resource.stateId === lostStateId);
+}
+
+/**
+ * Los recursos marcados para descarte también quedan no disponibles, pero no están prestados
+ */
+function isResourceOnLoan(resource: Resource): boolean {
+  return resource.available === false && !resource.markedForDiscard;
+}
+
+/**
+ * Comparar lo encontrado en el estante con lo que el sistema espera en la ubicación
+ */
+export function buildAuditReport(
+  session: InventoryAuditSession,
+  expected: Resource[],
+  lostStateId?: string
+): InventoryAuditReport {
+  const foundIds = new Set(session.found.map(resource => resource._id));
+  const notFound = expected.filter(resource => !foundIds.has(resource._id));
+
+  return {
+    locationId: session.locationId,
+    startedAt: session.startedAt,
+    finishedAt: new Date().toISOString(),
+    expectedCount: expected.length,
+    found: session.found,
+    missing: notFound.filter(resource => resource.available !== false && !isResourceLost(resource, lostStateId)),
+    misplaced: session.found.filter(resource => getResourceLocationId(resource) !== session.locationId),
+    onLoanPresent: session.found.filter(resource => isResourceOnLoan(resource)),
+    onLoanAbsent: notFound.filter(resource => isResourceOnLoan(resource)),
+  };
+}
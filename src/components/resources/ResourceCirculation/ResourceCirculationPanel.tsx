@@ -0,0 +1,294 @@
+// src/components/resources/ResourceCirculation/ResourceCirculationPanel.tsx
+'use client';
+
+import {
+  Box,
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  HStack,
+  VStack,
+  Text,
+  Badge,
+  Button,
+  Circle,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+  Tooltip,
+  Skeleton,
+  Alert,
+  AlertIcon,
+  Divider,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import Link from 'next/link';
+import { FiBookOpen, FiCornerDownLeft } from 'react-icons/fi';
+import { useResourceCirculationStats, useResourceLoans } from '@/hooks/useCirculation';
+import { LoanService } from '@/services/loan.service';
+import { DateUtils } from '@/utils';
+import type { LoanWithDetails, ResourceDemandLevel } from '@/types/loan.types';
+import type { Resource } from '@/types/resource.types';
+
+interface ResourceCirculationPanelProps {
+  resource: Resource;
+}
+
+const HISTORY_PAGE_SIZE = 10;
+
+const DEMAND_CONFIG: Record<ResourceDemandLevel, { label: string; color: string; hint: string }> = {
+  high: {
+    label: 'Alta demanda',
+    color: 'purple',
+    hint: 'Todas las unidades están prestadas o hay reservas en cola: conviene sumar ejemplares.',
+  },
+  normal: {
+    label: 'Demanda normal',
+    color: 'green',
+    hint: 'Circula con regularidad y hay unidades suficientes.',
+  },
+  dead_stock: {
+    label: 'Sin movimiento',
+    color: 'gray',
+    hint: 'No se prestó en los últimos 12 meses: candidato a revisión o descarte.',
+  },
+};
+
+const isOpenLoan = (loan: LoanWithDetails) =>
+  !loan.returnedDate && loan.status?.name !== 'returned' && loan.status?.name !== 'lost';
+
+/**
+ * Circulación de un recurso: quién lo tiene ahora, historial de préstamos
+ * e indicadores de demanda
+ */
+export function ResourceCirculationPanel({ resource }: ResourceCirculationPanelProps) {
+  const [page, setPage] = useState(1);
+  const totalUnits = resource.totalCopies ?? resource.volumes ?? 1;
+
+  const { data: stats, isLoading: isLoadingStats, isError: isStatsError } =
+    useResourceCirculationStats(resource._id, totalUnits);
+  const { data: openLoansPage } = useResourceLoans(resource._id, { limit: 100 });
+  const { data: historyPage, isLoading: isLoadingHistory } =
+    useResourceLoans(resource._id, { page, limit: HISTORY_PAGE_SIZE });
+
+  const currentLoans = (openLoansPage?.data || []).filter(isOpenLoan);
+  const history = historyPage?.data || [];
+  const pagination = historyPage?.pagination;
+  const maxMonthly = Math.max(1, ...(stats?.loansByMonth.map(item => item.count) || []));
+  const demand = stats ? DEMAND_CONFIG[stats.demandLevel] : null;
+
+  const formatMonth = (month: string) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return new Date(year, monthNumber - 1, 1).toLocaleDateString('es-ES', { month: 'short' });
+  };
+
+  return (
+    <Card shadow="sm">
+      <CardHeader>
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <Heading size="md" color="gray.700">
+            Circulación
+          </Heading>
+          {demand && (
+            <Tooltip label={demand.hint} hasArrow>
+              <Badge colorScheme={demand.color} px={2} py={1}>
+                {demand.label}
+              </Badge>
+            </Tooltip>
+          )}
+        </HStack>
+      </CardHeader>
+
+      <CardBody pt={0}>
+        {isLoadingStats ? (
+          <VStack spacing={2} align="stretch">
+            <Skeleton height="64px" />
+            <Skeleton height="96px" />
+          </VStack>
+        ) : isStatsError || !stats ? (
+          <Alert status="error" borderRadius="md">
+            <AlertIcon />
+            No se pudo cargar la circulación del recurso
+          </Alert>
+        ) : (
+          <VStack spacing={5} align="stretch">
+            {stats.truncated && (
+              <Alert status="warning" borderRadius="md" fontSize="sm">
+                <AlertIcon />
+                El historial es muy extenso: las cifras se calcularon sobre {stats.loansScanned} de{' '}
+                {stats.totalLoans} préstamos y pueden estar incompletas.
+              </Alert>
+            )}
+
+            <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+              <Stat>
+                <StatLabel>Veces prestado</StatLabel>
+                <StatNumber color="blue.600">{stats.totalLoans}</StatNumber>
+                <StatHelpText>
+                  {stats.pendingHolds > 0 ? `${stats.pendingHolds} en reserva` : 'Sin reservas'}
+                </StatHelpText>
+              </Stat>
+              <Stat>
+                <StatLabel>Duración promedio</StatLabel>
+                <StatNumber>{stats.averageLoanDays}</StatNumber>
+                <StatHelpText>días por préstamo</StatHelpText>
+              </Stat>
+              <Stat>
+                <StatLabel>Tasa de vencimiento</StatLabel>
+                <StatNumber color={stats.overdueRate > 0.3 ? 'red.600' : 'gray.700'}>
+                  {Math.round(stats.overdueRate * 100)}%
+                </StatNumber>
+                <StatHelpText>vencidos o devueltos tarde</StatHelpText>
+              </Stat>
+              <Stat>
+                <StatLabel>Último préstamo</StatLabel>
+                <StatNumber fontSize="lg">
+                  {stats.lastBorrowedAt ? DateUtils.formatDate(stats.lastBorrowedAt) : '—'}
+                </StatNumber>
+                <StatHelpText>
+                  {stats.lastBorrowedAt ? DateUtils.formatRelative(stats.lastBorrowedAt) : 'Nunca prestado'}
+                </StatHelpText>
+              </Stat>
+            </SimpleGrid>
+
+            {/* Préstamos por mes */}
+            <Box>
+              <Text fontSize="sm" fontWeight="medium" color="gray.700" mb={2}>
+                Préstamos por mes (últimos 12 meses)
+              </Text>
+              <HStack align="end" spacing={1} h="96px">
+                {stats.loansByMonth.map(item => (
+                  <Tooltip key={item.month} label={`${item.count} préstamo${item.count !== 1 ? 's' : ''}`} hasArrow>
+                    <VStack spacing={1} flex={1} justify="end" h="full">
+                      <Box
+                        w="full"
+                        h={`${(item.count / maxMonthly) * 72}px`}
+                        minH={item.count > 0 ? '4px' : '1px'}
+                        bg={item.count > 0 ? 'blue.400' : 'gray.200'}
+                        borderTopRadius="sm"
+                      />
+                      <Text fontSize="2xs" color="gray.500">{formatMonth(item.month)}</Text>
+                    </VStack>
+                  </Tooltip>
+                ))}
+              </HStack>
+            </Box>
+
+            <Divider />
+
+            {/* Préstamos en curso */}
+            <Box>
+              <Text fontSize="sm" fontWeight="medium" color="gray.700" mb={2}>
+                Lo tienen ahora ({currentLoans.length} de {totalUnits})
+              </Text>
+              {currentLoans.length === 0 ? (
+                <Text fontSize="sm" color="gray.500">Nadie tiene este recurso prestado.</Text>
+              ) : (
+                <VStack align="stretch" spacing={2}>
+                  {currentLoans.map(loan => {
+                    const overdue = loan.isOverdue || LoanService.isLoanOverdue(loan);
+                    return (
+                      <HStack key={loan._id} justify="space-between">
+                        <VStack align="start" spacing={0}>
+                          {loan.person ? (
+                            <Text
+                              as={Link}
+                              href={`/people/${loan.person._id}`}
+                              fontSize="sm"
+                              fontWeight="medium"
+                              color="blue.600"
+                            >
+                              {loan.person.fullName}
+                            </Text>
+                          ) : (
+                            <Text fontSize="sm">Persona</Text>
+                          )}
+                          <Text fontSize="xs" color="gray.500">
+                            Desde {DateUtils.formatDate(loan.loanDate)}
+                            {loan.copy && ` · Ejemplar ${loan.copy.copyNumber}`}
+                          </Text>
+                        </VStack>
+                        <Badge colorScheme={overdue ? 'red' : 'blue'} variant="subtle">
+                          {overdue ? 'Vencido' : 'Vence'} {DateUtils.formatDate(loan.dueDate)}
+                        </Badge>
+                      </HStack>
+                    );
+                  })}
+                </VStack>
+              )}
+            </Box>
+
+            <Divider />
+
+            {/* Historial de préstamos */}
+            <Box>
+              <Text fontSize="sm" fontWeight="medium" color="gray.700" mb={3}>
+                Historial de préstamos
+              </Text>
+              {isLoadingHistory ? (
+                <Skeleton height="96px" />
+              ) : history.length === 0 ? (
+                <Text fontSize="sm" color="gray.500">Este recurso aún no se ha prestado.</Text>
+              ) : (
+                <VStack align="stretch" spacing={0}>
+                  {history.map((loan, index) => {
+                    const returned = !!loan.returnedDate;
+                    const late = returned && new Date(loan.returnedDate!) > new Date(loan.dueDate);
+
+                    return (
+                      <HStack key={loan._id} align="stretch" spacing={3}>
+                        <VStack spacing={0} align="center">
+                          <Circle
+                            size="24px"
+                            bg={returned ? 'green.50' : 'blue.50'}
+                            color={returned ? 'green.500' : 'blue.500'}
+                          >
+                            {returned ? <FiCornerDownLeft size={12} /> : <FiBookOpen size={12} />}
+                          </Circle>
+                          {index < history.length - 1 && <Box flex={1} w="2px" bg="gray.200" minH="12px" />}
+                        </VStack>
+                        <VStack align="start" spacing={0} pb={3} flex={1}>
+                          <Text fontSize="sm">
+                            {loan.person?.fullName || 'Persona'}
+                            {loan.person?.grade && ` (${loan.person.grade})`}
+                          </Text>
+                          <Text fontSize="xs" color="gray.500">
+                            {DateUtils.formatDate(loan.loanDate)}
+                            {' → '}
+                            {returned ? DateUtils.formatDate(loan.returnedDate!) : 'en curso'}
+                          </Text>
+                        </VStack>
+                        {late && (
+                          <Badge colorScheme="orange" variant="subtle" alignSelf="start" fontSize="2xs">
+                            Devuelto tarde
+                          </Badge>
+                        )}
+                      </HStack>
+                    );
+                  })}
+                </VStack>
+              )}
+
+              {pagination && pagination.totalPages > 1 && (
+                <HStack justify="center" spacing={2} mt={2}>
+                  <Button size="xs" isDisabled={!pagination.hasPrev} onClick={() => setPage(page - 1)}>
+                    Anterior
+                  </Button>
+                  <Text fontSize="xs">
+                    Página {pagination.page} de {pagination.totalPages}
+                  </Text>
+                  <Button size="xs" isDisabled={!pagination.hasNext} onClick={() => setPage(page + 1)}>
+                    Siguiente
+                  </Button>
+                </HStack>
+              )}
+            </Box>
+          </VStack>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
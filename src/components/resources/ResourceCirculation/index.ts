@@ -0,0 +1,2 @@
+// src/components/resources/ResourceCirculation/index.ts
+export { ResourceCirculationPanel } from './ResourceCirculationPanel';
@@ -0,0 +1,152 @@
+// src/components/resources/ResourceCopies/CopyFormModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  Input,
+  Select,
+  Textarea,
+  Button,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { useResourceStates, useLocations } from '@/hooks/useResources';
+import { ResourceCopyService } from '@/services/resourceCopy.service';
+import { CONDITION_STATE_CONFIGS } from '../ConditionHistory/conditionHistory.config';
+import type { Resource, ResourceCopy, CreateResourceCopyRequest } from '@/types/resource.types';
+
+interface CopyFormModalProps {
+  resource: Resource;
+  copies: ResourceCopy[];
+  copy?: ResourceCopy | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateResourceCopyRequest) => Promise<void>;
+  isLoading?: boolean;
+}
+
+/**
+ * Alta y edición de un ejemplar. Los valores por defecto se toman del recurso
+ */
+export function CopyFormModal({
+  resource,
+  copies,
+  copy,
+  isOpen,
+  onClose,
+  onSubmit,
+  isLoading = false,
+}: CopyFormModalProps) {
+  const isEdit = !!copy;
+  const nextCopyNumber = ResourceCopyService.getNextCopyNumber(copies);
+
+  const [barcode, setBarcode] = useState('');
+  const [stateId, setStateId] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: states = [] } = useResourceStates();
+  const { data: locations = [] } = useLocations();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setBarcode(copy?.barcode || '');
+    setStateId(copy?.stateId || resource.state?._id || resource.stateId);
+    setLocationId(copy?.locationId || resource.location?._id || resource.locationId);
+    setNotes(copy?.notes || '');
+  }, [isOpen, copy, resource]);
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit({ barcode, stateId, locationId, notes });
+      onClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  const copyNumber = copy?.copyNumber || nextCopyNumber;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          {isEdit ? `Editar ejemplar ${copyNumber}` : `Agregar ejemplar ${copyNumber}`}
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <FormControl>
+              <FormLabel>Código de barras</FormLabel>
+              <Input
+                value={barcode}
+                onChange={(e) => setBarcode(e.target.value)}
+                placeholder={ResourceCopyService.buildBarcode(resource._id, copyNumber)}
+                fontFamily="mono"
+              />
+              <FormHelperText>Déjalo vacío para usar el código generado por el sistema</FormHelperText>
+            </FormControl>
+
+            <HStack spacing={4} align="start">
+              <FormControl isRequired>
+                <FormLabel>Estado</FormLabel>
+                <Select value={stateId} onChange={(e) => setStateId(e.target.value)}>
+                  {states.filter(state => state.active || state._id === stateId).map(state => (
+                    <option key={state._id} value={state._id}>
+                      {CONDITION_STATE_CONFIGS[state.name]?.label || state.description}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <FormControl isRequired>
+                <FormLabel>Ubicación</FormLabel>
+                <Select value={locationId} onChange={(e) => setLocationId(e.target.value)}>
+                  {locations.filter(location => location.active || location._id === locationId).map(location => (
+                    <option key={location._id} value={location._id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+            </HStack>
+
+            <FormControl>
+              <FormLabel>Notas</FormLabel>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Donación, tapa reforzada, páginas subrayadas..."
+                rows={2}
+              />
+            </FormControl>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            colorScheme="blue"
+            onClick={handleSubmit}
+            isLoading={isLoading}
+            isDisabled={!stateId || !locationId}
+          >
+            {isEdit ? 'Guardar' : 'Agregar'}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,254 @@
+// src/components/resources/ResourceCopies/ResourceCopiesPanel.tsx
+'use client';
+
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  HStack,
+  VStack,
+  Text,
+  Badge,
+  Button,
+  IconButton,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Tooltip,
+  Alert,
+  AlertIcon,
+  Skeleton,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { FiCopy, FiEdit, FiPlus, FiTrash2 } from 'react-icons/fi';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import {
+  useResourceCopies,
+  useCreateResourceCopy,
+  useUpdateResourceCopy,
+  useDeleteResourceCopy,
+} from '@/hooks/useResourceCopies';
+import { CONDITION_QUERY_KEYS } from '@/hooks/useResourceConditions';
+import { usePermissions } from '@/hooks/useAuth';
+import { ResourceCopyService } from '@/services/resourceCopy.service';
+import { ResourceConditionService } from '@/services/resourceCondition.service';
+import { CopyFormModal } from './CopyFormModal';
+import { getStateConfig } from '../ConditionHistory/conditionHistory.config';
+import type { Resource, ResourceCopy, CreateResourceCopyRequest } from '@/types/resource.types';
+
+interface ResourceCopiesPanelProps {
+  resource: Resource;
+}
+
+/**
+ * Ejemplares físicos de un recurso: número de copia, código de barras, estado y ubicación
+ */
+export function ResourceCopiesPanel({ resource }: ResourceCopiesPanelProps) {
+  const queryClient = useQueryClient();
+  const { data: copies = [], isLoading, isError } = useResourceCopies(resource._id);
+  const { isOpen: isFormOpen, onOpen: onFormOpen, onClose: onFormClose } = useDisclosure();
+  const [editingCopy, setEditingCopy] = useState<ResourceCopy | null>(null);
+  const [deletingCopy, setDeletingCopy] = useState<ResourceCopy | null>(null);
+  const { can } = usePermissions();
+  const canEdit = can('resources.edit');
+  const canDelete = can('resources.delete');
+
+  const createMutation = useCreateResourceCopy();
+  const updateMutation = useUpdateResourceCopy();
+  const deleteMutation = useDeleteResourceCopy();
+
+  const availableCount = copies.filter(copy => ResourceCopyService.isLendable(copy)).length;
+
+  const handleAdd = () => {
+    setEditingCopy(null);
+    onFormOpen();
+  };
+
+  const handleEdit = (copy: ResourceCopy) => {
+    setEditingCopy(copy);
+    onFormOpen();
+  };
+
+  const handleSubmit = async (data: CreateResourceCopyRequest) => {
+    if (!editingCopy) {
+      await createMutation.mutateAsync({ resourceId: resource._id, data, existingCopies: copies });
+      return;
+    }
+
+    await updateMutation.mutateAsync({ id: editingCopy._id, data });
+
+    // El cambio de estado de un ejemplar también queda en el historial del recurso
+    if (data.stateId !== editingCopy.stateId) {
+      await ResourceConditionService.recordEventsSafely([{
+        resourceId: resource._id,
+        copyId: editingCopy._id,
+        previousStateId: editingCopy.stateId,
+        newStateId: data.stateId,
+        source: 'manual',
+        observations: `${ResourceCopyService.getCopyLabel(editingCopy)}${data.notes ? `: ${data.notes}` : ''}`,
+      }]);
+      queryClient.invalidateQueries({ queryKey: CONDITION_QUERY_KEYS.resourceHistory(resource._id) });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCopy) return;
+
+    try {
+      await deleteMutation.mutateAsync({ copy: deletingCopy });
+      setDeletingCopy(null);
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  return (
+    <Card shadow="sm">
+      <CardHeader>
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <HStack spacing={3}>
+            <Heading size="md" color="gray.700">
+              Ejemplares
+            </Heading>
+            {copies.length > 0 && (
+              <Badge colorScheme={availableCount > 0 ? 'green' : 'orange'}>
+                {availableCount} de {copies.length} disponibles
+              </Badge>
+            )}
+          </HStack>
+          {canEdit && (
+            <Button size="sm" colorScheme="blue" variant="outline" leftIcon={<FiPlus />} onClick={handleAdd}>
+              Agregar ejemplar
+            </Button>
+          )}
+        </HStack>
+      </CardHeader>
+
+      <CardBody pt={0}>
+        {isLoading ? (
+          <VStack spacing={2} align="stretch">
+            <Skeleton height="32px" />
+            <Skeleton height="32px" />
+          </VStack>
+        ) : isError ? (
+          <Alert status="error" borderRadius="md">
+            <AlertIcon />
+            <Text fontSize="sm">No se pudieron cargar los ejemplares.</Text>
+          </Alert>
+        ) : copies.length === 0 ? (
+          <VStack spacing={1} py={4}>
+            <FiCopy size={20} color="#A0AEC0" />
+            <Text fontSize="sm" color="gray.500" textAlign="center">
+              Este recurso no tiene ejemplares registrados. Los préstamos se hacen sobre el recurso completo.
+            </Text>
+          </VStack>
+        ) : (
+          <TableContainer>
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>#</Th>
+                  <Th>Código</Th>
+                  <Th>Estado</Th>
+                  <Th>Ubicación</Th>
+                  <Th>Disponibilidad</Th>
+                  {(canEdit || canDelete) && <Th>Acciones</Th>}
+                </Tr>
+              </Thead>
+              <Tbody>
+                {copies.map(copy => {
+                  const stateConfig = getStateConfig(copy.state);
+                  const isLendable = ResourceCopyService.isLendable(copy);
+                  const isOnLoan = !copy.available || !!copy.currentLoanId;
+
+                  return (
+                    <Tr key={copy._id}>
+                      <Td>
+                        <Text fontSize="sm" fontWeight="medium">{copy.copyNumber}</Text>
+                      </Td>
+                      <Td>
+                        <Text fontSize="xs" fontFamily="mono" color="gray.600">{copy.barcode}</Text>
+                      </Td>
+                      <Td>
+                        <Badge colorScheme={stateConfig?.color || 'gray'} variant="subtle">
+                          {stateConfig?.label || copy.state?.description || '—'}
+                        </Badge>
+                      </Td>
+                      <Td>
+                        <Text fontSize="sm">{copy.location?.name || '—'}</Text>
+                      </Td>
+                      <Td>
+                        <Badge colorScheme={isLendable ? 'green' : isOnLoan ? 'orange' : 'red'} variant="outline">
+                          {isLendable ? 'Disponible' : isOnLoan ? 'Prestado' : 'No disponible'}
+                        </Badge>
+                      </Td>
+                      {(canEdit || canDelete) && (
+                        <Td>
+                          <HStack spacing={1}>
+                            {canEdit && (
+                              <Tooltip label="Editar ejemplar" hasArrow>
+                                <IconButton
+                                  aria-label="Editar ejemplar"
+                                  icon={<FiEdit />}
+                                  size="xs"
+                                  variant="ghost"
+                                  onClick={() => handleEdit(copy)}
+                                />
+                              </Tooltip>
+                            )}
+                            {canDelete && (
+                              <Tooltip label={isOnLoan ? 'No se puede eliminar un ejemplar prestado' : 'Eliminar ejemplar'} hasArrow>
+                                <IconButton
+                                  aria-label="Eliminar ejemplar"
+                                  icon={<FiTrash2 />}
+                                  size="xs"
+                                  variant="ghost"
+                                  colorScheme="red"
+                                  onClick={() => setDeletingCopy(copy)}
+                                  isDisabled={isOnLoan}
+                                />
+                              </Tooltip>
+                            )}
+                          </HStack>
+                        </Td>
+                      )}
+                    </Tr>
+                  );
+                })}
+              </Tbody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardBody>
+
+      <CopyFormModal
+        resource={resource}
+        copies={copies}
+        copy={editingCopy}
+        isOpen={isFormOpen}
+        onClose={onFormClose}
+        onSubmit={handleSubmit}
+        isLoading={createMutation.isPending || updateMutation.isPending}
+      />
+
+      <ConfirmDialog
+        isOpen={!!deletingCopy}
+        onClose={() => setDeletingCopy(null)}
+        onConfirm={handleDelete}
+        title="Eliminar ejemplar"
+        message={deletingCopy
+          ? `¿Eliminar el ejemplar ${deletingCopy.copyNumber} (${deletingCopy.barcode})? Esta acción no se puede deshacer.`
+          : ''}
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,3 @@
+// src/components/resources/ResourceCopies/index.ts
+export { ResourceCopiesPanel } from './ResourceCopiesPanel';
+export { CopyFormModal } from './CopyFormModal';
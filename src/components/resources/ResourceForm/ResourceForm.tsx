@@ -47,6 +47,8 @@ type ResourceFormData = z.infer<typeof resourceSchema>;
 // Interfaces específicas para cada modo
 interface ResourceFormCreateProps {
   resource?: never;
+  // Valores iniciales para prellenar el formulario (p. ej. desde una solicitud)
+  initialValues?: Partial<CreateResourceRequest>;
   onSubmit: (data: CreateResourceRequest) => Promise<void>;
   onCancel: () => void;
   isLoading?: boolean;
@@ -68,6 +70,7 @@ export function ResourceForm(props: ResourceFormProps) {
   const { onSubmit, onCancel, isLoading = false } = props;
   const resource = 'resource' in props ? props.resource : undefined;
   const isEdit = 'isEdit' in props ? props.isEdit : false;
+  const initialValues = !isEdit && 'initialValues' in props ? props.initialValues : undefined;
   
   const [businessRulesErrors, setBusinessRulesErrors] = useState<string[]>([]);
 
@@ -81,16 +84,16 @@ export function ResourceForm(props: ResourceFormProps) {
   const form = useForm<ResourceFormData>({
     resolver: zodResolver(resourceSchema),
     defaultValues: {
-      title: resource?.title || '',
-      typeId: resource?.typeId || '',
-      categoryId: resource?.categoryId || '',
-      locationId: resource?.locationId || '',
-      stateId: resource?.stateId || '',
-      authorIds: resource?.authorIds || [],
-      publisherId: resource?.publisherId || '',
-      volumes: resource?.volumes || 1,
-      isbn: resource?.isbn || '',
-      notes: resource?.notes || '',
+      title: resource?.title || initialValues?.title || '',
+      typeId: resource?.typeId || initialValues?.typeId || '',
+      categoryId: resource?.categoryId || initialValues?.categoryId || '',
+      locationId: resource?.locationId || initialValues?.locationId || '',
+      stateId: resource?.stateId || initialValues?.stateId || '',
+      authorIds: resource?.authorIds || initialValues?.authorIds || [],
+      publisherId: resource?.publisherId || initialValues?.publisherId || '',
+      volumes: resource?.volumes || initialValues?.volumes || 1,
+      isbn: resource?.isbn || initialValues?.isbn || '',
+      notes: resource?.notes || initialValues?.notes || '',
     },
     mode: 'onChange',
   });
@@ -176,7 +179,8 @@ export function ResourceForm(props: ResourceFormProps) {
     }
   });
 
-  const canSubmit = isValid && isDirty && businessRulesErrors.length === 0;
+  // Un formulario prellenado puede enviarse sin modificaciones
+  const canSubmit = isValid && (isDirty || !!initialValues) && businessRulesErrors.length === 0;
   const isLoadingData = isLoadingTypes || isLoadingStates || isLoadingCategories || isLoadingLocations;
 
   if (isLoadingData) {
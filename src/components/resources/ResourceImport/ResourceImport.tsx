@@ -0,0 +1,518 @@
+// src/components/resources/ResourceImport/ResourceImport.tsx
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Card,
+  CardBody,
+  Text,
+  Button,
+  Icon,
+  Input,
+  Select,
+  Textarea,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  SimpleGrid,
+  Badge,
+  Progress,
+  Alert,
+  AlertIcon,
+  Divider,
+  Tabs,
+  TabList,
+  Tab,
+  TabPanels,
+  TabPanel,
+} from '@chakra-ui/react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FiUpload, FiDownload, FiFile, FiBook, FiRefreshCw, FiSearch } from 'react-icons/fi';
+import {
+  useResourceTypes,
+  useCategories,
+  useLocations,
+  useResourceStates,
+  useBulkImportResources,
+} from '@/hooks/useResources';
+import { ResourceService } from '@/services/resource.service';
+import { SpreadsheetUtils, FileUtils } from '@/utils';
+import { ResourceImportPreviewTable } from './ResourceImportPreviewTable';
+import { ResourceImportReport } from './ResourceImportReport';
+import {
+  buildRowsFromSheet,
+  buildRowFromVolume,
+  parseISBNList,
+  validateImportRow,
+  findDuplicateISBNs,
+  getImportDefaults,
+  mapResourceColumns,
+  type ResourceImportRow,
+  type ResourceImportCatalogs,
+  type ResourceImportDefaults,
+} from './resourceImport.utils';
+import type { BulkImportResult, ResourceImportItem } from '@/types/resource.types';
+
+interface ResourceImportProps {
+  onFinish?: () => void;
+}
+
+const TEMPLATE_CSV = [
+  'Título;Autores;Editorial;ISBN;Categoría;Ubicación;Estado;Volúmenes',
+  'Cien años de soledad;Gabriel García Márquez;Sudamericana;9780307474728;Literatura;Estante A;Bueno;2',
+].join('\r\n');
+
+/**
+ * Importación masiva de recursos al inventario
+ *
+ * Admite dos orígenes:
+ * - Hoja de cálculo (CSV/XLSX) con una fila por recurso
+ * - Lista de ISBN que se completa con Google Books
+ *
+ * Los autores y la editorial se resuelven por nombre al registrar cada recurso.
+ */
+export function ResourceImport({ onFinish }: ResourceImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [sourceIndex, setSourceIndex] = useState(0);
+  const [defaults, setDefaults] = useState<ResourceImportDefaults>({
+    typeId: '',
+    categoryId: '',
+    locationId: '',
+    stateId: '',
+  });
+  const [rows, setRows] = useState<ResourceImportRow[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [isbnText, setIsbnText] = useState('');
+  const [lookupProgress, setLookupProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importProgress, setImportProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [result, setResult] = useState<BulkImportResult | null>(null);
+  const [submittedRows, setSubmittedRows] = useState<ResourceImportRow[]>([]);
+
+  const { data: types, isLoading: isLoadingTypes } = useResourceTypes();
+  const { data: categories, isLoading: isLoadingCategories } = useCategories();
+  const { data: locations, isLoading: isLoadingLocations } = useLocations();
+  const { data: states, isLoading: isLoadingStates } = useResourceStates();
+  const bulkImportMutation = useBulkImportResources();
+
+  const catalogs: ResourceImportCatalogs = useMemo(
+    () => ({
+      types: types || [],
+      categories: categories || [],
+      locations: locations || [],
+      states: states || [],
+    }),
+    [types, categories, locations, states]
+  );
+  const isLoadingCatalogs = isLoadingTypes || isLoadingCategories || isLoadingLocations || isLoadingStates;
+
+  // Inicializar tipo y estado por defecto cuando cargan los catálogos
+  useEffect(() => {
+    if (isLoadingCatalogs) return;
+    const initial = getImportDefaults(catalogs);
+    setDefaults(prev => (
+      prev.typeId && prev.stateId
+        ? prev
+        : { ...prev, typeId: prev.typeId || initial.typeId, stateId: prev.stateId || initial.stateId }
+    ));
+  }, [isLoadingCatalogs, catalogs]);
+
+  const errorsByRow = useMemo(() => {
+    const duplicates = findDuplicateISBNs(rows);
+    return new Map(rows.map(row => [
+      row.rowNumber,
+      validateImportRow(row, catalogs, duplicates.get(row.rowNumber)),
+    ]));
+  }, [rows, catalogs]);
+
+  const rowsToSubmit = rows.filter(row => row.included && (errorsByRow.get(row.rowNumber) || []).length === 0);
+  const invalidCount = rows.filter(row => (errorsByRow.get(row.rowNumber) || []).length > 0).length;
+
+  const isLookingUp = lookupProgress !== null;
+  const isImporting = bulkImportMutation.isPending;
+
+  const handleDefaultChange = (field: keyof ResourceImportDefaults, value: string) => {
+    setDefaults(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Aplicar los valores por defecto a las filas que no los tienen
+  const handleApplyDefaults = () => {
+    setRows(prev => prev.map(row => ({
+      ...row,
+      item: {
+        ...row.item,
+        typeId: row.item.typeId || defaults.typeId,
+        categoryId: row.item.categoryId || defaults.categoryId,
+        locationId: row.item.locationId || defaults.locationId,
+        stateId: row.item.stateId || defaults.stateId,
+      },
+    })));
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setSourceError(null);
+    setResult(null);
+
+    try {
+      const sheetRows = await SpreadsheetUtils.readFile(file);
+      if (sheetRows.length < 2) {
+        throw new Error('El archivo no tiene filas de datos');
+      }
+      if (mapResourceColumns(sheetRows[0]).title === undefined) {
+        throw new Error('No se encontró la columna obligatoria Título');
+      }
+
+      setFileName(`${file.name} (${FileUtils.formatFileSize(file.size)})`);
+      setRows(buildRowsFromSheet(sheetRows, catalogs, defaults));
+    } catch (error: any) {
+      setFileName(null);
+      setRows([]);
+      setSourceError(error?.message || 'No se pudo leer el archivo');
+    }
+  };
+
+  const handleLookupISBNs = async () => {
+    const isbns = parseISBNList(isbnText);
+    if (isbns.length === 0) {
+      setSourceError('Ingresa al menos un ISBN');
+      return;
+    }
+
+    setSourceError(null);
+    setResult(null);
+    setRows([]);
+    setLookupProgress({ processed: 0, total: isbns.length });
+
+    const lookedUp: ResourceImportRow[] = [];
+
+    for (let i = 0; i < isbns.length; i++) {
+      const { isbn, copies } = isbns[i];
+      const [volume] = await ResourceService.searchGoogleBooks(`isbn:${isbn}`, 1);
+
+      lookedUp.push(buildRowFromVolume(isbn, copies, volume, i + 1, defaults));
+      setLookupProgress({ processed: i + 1, total: isbns.length });
+    }
+
+    setRows(lookedUp);
+    setLookupProgress(null);
+  };
+
+  const handleToggleRow = (rowNumber: number, included: boolean) => {
+    setRows(prev => prev.map(row => (row.rowNumber === rowNumber ? { ...row, included } : row)));
+  };
+
+  const handleChangeRow = (rowNumber: number, changes: Partial<ResourceImportItem>) => {
+    setRows(prev => prev.map(row => (
+      row.rowNumber === rowNumber ? { ...row, item: { ...row.item, ...changes } } : row
+    )));
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob(['\uFEFF' + TEMPLATE_CSV], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'plantilla_inventario.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async () => {
+    setSubmittedRows(rowsToSubmit);
+    setImportProgress({ processed: 0, total: rowsToSubmit.length });
+
+    try {
+      const importResult = await bulkImportMutation.mutateAsync({
+        data: {
+          resources: rowsToSubmit.map(row => row.item),
+          options: {
+            skipDuplicates,
+            validateOnly: false,
+            createMissingEntities: true,
+          },
+        },
+        onProgress: (processed, total) => setImportProgress({ processed, total }),
+      });
+      setResult(importResult);
+    } catch (error) {
+      // Error manejado por el hook
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  const handleReset = () => {
+    setRows([]);
+    setFileName(null);
+    setIsbnText('');
+    setSourceError(null);
+    setResult(null);
+  };
+
+  // Reporte final
+  if (result) {
+    return (
+      <Card>
+        <CardBody>
+          <VStack spacing={6} align="stretch">
+            <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+              Resultado de la importación
+            </Text>
+            <ResourceImportReport result={result} rows={submittedRows} />
+            <HStack justify="flex-end" spacing={3}>
+              <Button variant="outline" leftIcon={<FiRefreshCw />} onClick={handleReset}>
+                Nueva importación
+              </Button>
+              {onFinish && (
+                <Button colorScheme="blue" leftIcon={<FiBook />} onClick={onFinish}>
+                  Ver inventario
+                </Button>
+              )}
+            </HStack>
+          </VStack>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Origen de los datos */}
+      <Card>
+        <CardBody>
+          <VStack spacing={4} align="stretch">
+            <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+              1. Origen de los datos
+            </Text>
+
+            <Tabs index={sourceIndex} onChange={setSourceIndex} colorScheme="blue" variant="enclosed">
+              <TabList>
+                <Tab isDisabled={isLookingUp || isImporting}>Hoja de cálculo</Tab>
+                <Tab isDisabled={isLookingUp || isImporting}>Lista de ISBN</Tab>
+              </TabList>
+              <TabPanels>
+                <TabPanel px={0}>
+                  <VStack spacing={3} align="stretch">
+                    <HStack justify="space-between" flexWrap="wrap" gap={3}>
+                      <Text fontSize="sm" color="gray.600">
+                        CSV o Excel (.xlsx) con columnas: Título, Autores, Editorial, ISBN, Categoría, Ubicación, Estado y Volúmenes.
+                      </Text>
+                      <Button size="sm" variant="ghost" leftIcon={<FiDownload />} onClick={handleDownloadTemplate}>
+                        Descargar plantilla
+                      </Button>
+                    </HStack>
+                    <HStack spacing={3}>
+                      <Input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".csv,.txt,.xlsx"
+                        display="none"
+                        onChange={handleFileChange}
+                      />
+                      <Button
+                        leftIcon={<FiUpload />}
+                        colorScheme="blue"
+                        variant="outline"
+                        onClick={() => fileInputRef.current?.click()}
+                        isDisabled={isLoadingCatalogs || isImporting}
+                      >
+                        {fileName ? 'Cambiar archivo' : 'Seleccionar archivo'}
+                      </Button>
+                      {fileName && (
+                        <HStack spacing={2} color="gray.700">
+                          <Icon as={FiFile} />
+                          <Text fontSize="sm">{fileName}</Text>
+                        </HStack>
+                      )}
+                    </HStack>
+                  </VStack>
+                </TabPanel>
+
+                <TabPanel px={0}>
+                  <VStack spacing={3} align="stretch">
+                    <Text fontSize="sm" color="gray.600">
+                      Escribe o escanea un ISBN por línea. Los ISBN repetidos se registran como varios volúmenes.
+                    </Text>
+                    <Textarea
+                      value={isbnText}
+                      onChange={(e) => setIsbnText(e.target.value)}
+                      placeholder={'9780307474728\n9788437604947'}
+                      rows={6}
+                      fontFamily="mono"
+                      isDisabled={isLookingUp || isImporting}
+                    />
+                    <Button
+                      alignSelf="start"
+                      leftIcon={<FiSearch />}
+                      colorScheme="green"
+                      onClick={handleLookupISBNs}
+                      isLoading={isLookingUp}
+                      loadingText="Buscando..."
+                      isDisabled={isLoadingCatalogs || isImporting || !isbnText.trim()}
+                    >
+                      Buscar en Google Books
+                    </Button>
+                    {lookupProgress && (
+                      <Box>
+                        <Text fontSize="sm" color="gray.600" mb={1}>
+                          Consultando Google Books ({lookupProgress.processed}/{lookupProgress.total})...
+                        </Text>
+                        <Progress
+                          size="sm"
+                          colorScheme="green"
+                          borderRadius="full"
+                          value={lookupProgress.total ? (lookupProgress.processed / lookupProgress.total) * 100 : 0}
+                        />
+                      </Box>
+                    )}
+                  </VStack>
+                </TabPanel>
+              </TabPanels>
+            </Tabs>
+
+            <Divider />
+
+            {/* Valores por defecto */}
+            <Text fontSize="sm" fontWeight="medium" color="gray.700">
+              Valores por defecto (para filas sin esa columna)
+            </Text>
+            <SimpleGrid columns={{ base: 1, md: 4 }} spacing={3}>
+              <FormControl>
+                <FormLabel fontSize="xs">Tipo</FormLabel>
+                <Select size="sm" value={defaults.typeId} onChange={(e) => handleDefaultChange('typeId', e.target.value)}>
+                  {catalogs.types.map(type => (
+                    <option key={type._id} value={type._id}>{type.description}</option>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="xs">Categoría</FormLabel>
+                <Select
+                  size="sm"
+                  placeholder="Seleccionar"
+                  value={defaults.categoryId}
+                  onChange={(e) => handleDefaultChange('categoryId', e.target.value)}
+                >
+                  {catalogs.categories.map(category => (
+                    <option key={category._id} value={category._id}>{category.name}</option>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="xs">Ubicación</FormLabel>
+                <Select
+                  size="sm"
+                  placeholder="Seleccionar"
+                  value={defaults.locationId}
+                  onChange={(e) => handleDefaultChange('locationId', e.target.value)}
+                >
+                  {catalogs.locations.map(location => (
+                    <option key={location._id} value={location._id}>{location.name}</option>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="xs">Estado</FormLabel>
+                <Select size="sm" value={defaults.stateId} onChange={(e) => handleDefaultChange('stateId', e.target.value)}>
+                  {catalogs.states.map(state => (
+                    <option key={state._id} value={state._id}>{state.description}</option>
+                  ))}
+                </Select>
+              </FormControl>
+            </SimpleGrid>
+            {rows.length > 0 && (
+              <Button size="sm" variant="outline" alignSelf="start" onClick={handleApplyDefaults}>
+                Aplicar a filas sin valor
+              </Button>
+            )}
+
+            {sourceError && (
+              <Alert status="error" borderRadius="md">
+                <AlertIcon />
+                {sourceError}
+              </Alert>
+            )}
+          </VStack>
+        </CardBody>
+      </Card>
+
+      {/* Vista previa */}
+      {rows.length > 0 && (
+        <Card>
+          <CardBody>
+            <VStack spacing={4} align="stretch">
+              <Box>
+                <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+                  2. Revisa los recursos
+                </Text>
+                <HStack spacing={2} mt={1}>
+                  <Badge colorScheme="blue" variant="subtle">{rowsToSubmit.length} seleccionados</Badge>
+                  <Badge colorScheme="red" variant="subtle">{invalidCount} con errores</Badge>
+                </HStack>
+                <Text fontSize="sm" color="gray.600" mt={2}>
+                  Puedes ajustar categoría, ubicación, estado y volúmenes fila por fila. Nada se registra hasta que confirmes.
+                </Text>
+              </Box>
+
+              <ResourceImportPreviewTable
+                rows={rows}
+                errorsByRow={errorsByRow}
+                catalogs={catalogs}
+                onToggleRow={handleToggleRow}
+                onChangeRow={handleChangeRow}
+                isDisabled={isImporting}
+              />
+
+              <Divider />
+
+              <Text fontSize="lg" fontWeight="semibold" color="gray.800">
+                3. Importa
+              </Text>
+              <Checkbox isChecked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)}>
+                Omitir recursos cuyo ISBN ya está en el inventario
+              </Checkbox>
+
+              {importProgress && (
+                <Box>
+                  <Text fontSize="sm" color="gray.600" mb={1}>
+                    Registrando recursos ({importProgress.processed}/{importProgress.total})...
+                  </Text>
+                  <Progress
+                    size="sm"
+                    colorScheme="blue"
+                    borderRadius="full"
+                    value={importProgress.total ? (importProgress.processed / importProgress.total) * 100 : 0}
+                  />
+                </Box>
+              )}
+
+              <HStack justify="flex-end" spacing={3}>
+                <Button variant="outline" onClick={handleReset} isDisabled={isImporting}>
+                  Cancelar
+                </Button>
+                <Button
+                  colorScheme="blue"
+                  leftIcon={<FiUpload />}
+                  onClick={handleImport}
+                  isLoading={isImporting}
+                  loadingText="Importando..."
+                  isDisabled={rowsToSubmit.length === 0}
+                >
+                  Importar {rowsToSubmit.length} recurso{rowsToSubmit.length === 1 ? '' : 's'}
+                </Button>
+              </HStack>
+            </VStack>
+          </CardBody>
+        </Card>
+      )}
+    </VStack>
+  );
+}
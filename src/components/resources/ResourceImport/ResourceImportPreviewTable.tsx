@@ -0,0 +1,161 @@
+// src/components/resources/ResourceImport/ResourceImportPreviewTable.tsx
+'use client';
+
+import {
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Checkbox,
+  Select,
+  Text,
+  VStack,
+  Badge,
+  NumberInput,
+  NumberInputField,
+} from '@chakra-ui/react';
+import type { ResourceImportItem } from '@/types/resource.types';
+import type { ResourceImportCatalogs, ResourceImportRow } from './resourceImport.utils';
+
+interface ResourceImportPreviewTableProps {
+  rows: ResourceImportRow[];
+  errorsByRow: Map<number, string[]>;
+  catalogs: ResourceImportCatalogs;
+  onToggleRow: (rowNumber: number, included: boolean) => void;
+  onChangeRow: (rowNumber: number, changes: Partial<ResourceImportItem>) => void;
+  isDisabled?: boolean;
+  maxHeight?: string;
+}
+
+export function ResourceImportPreviewTable({
+  rows,
+  errorsByRow,
+  catalogs,
+  onToggleRow,
+  onChangeRow,
+  isDisabled = false,
+  maxHeight = '520px',
+}: ResourceImportPreviewTableProps) {
+  return (
+    <TableContainer maxH={maxHeight} overflowY="auto" borderWidth="1px" borderRadius="md">
+      <Table size="sm" variant="simple">
+        <Thead position="sticky" top={0} bg="gray.50" zIndex={1}>
+          <Tr>
+            <Th width="40px" />
+            <Th width="50px">Fila</Th>
+            <Th>Recurso</Th>
+            <Th>ISBN</Th>
+            <Th>Categoría</Th>
+            <Th>Ubicación</Th>
+            <Th>Estado</Th>
+            <Th width="90px">Vol.</Th>
+            <Th>Observaciones</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {rows.map(row => {
+            const errors = errorsByRow.get(row.rowNumber) || [];
+            const hasErrors = errors.length > 0;
+            const { item } = row;
+
+            return (
+              <Tr
+                key={row.rowNumber}
+                bg={hasErrors ? 'red.50' : undefined}
+                opacity={row.included ? 1 : 0.6}
+              >
+                <Td>
+                  <Checkbox
+                    isChecked={row.included && !hasErrors}
+                    isDisabled={hasErrors || isDisabled}
+                    onChange={(e) => onToggleRow(row.rowNumber, e.target.checked)}
+                  />
+                </Td>
+                <Td color="gray.500">{row.rowNumber}</Td>
+                <Td whiteSpace="normal" minW="220px">
+                  <Text fontWeight="medium" noOfLines={2}>{item.title || '—'}</Text>
+                  {item.authorNames && item.authorNames.length > 0 && (
+                    <Text fontSize="xs" color="gray.600" noOfLines={1}>
+                      {item.authorNames.join(', ')}
+                    </Text>
+                  )}
+                  {item.publisherName && (
+                    <Text fontSize="xs" color="gray.500" noOfLines={1}>
+                      {item.publisherName}
+                    </Text>
+                  )}
+                </Td>
+                <Td>{item.isbn || '—'}</Td>
+                <Td minW="160px">
+                  <Select
+                    size="xs"
+                    value={item.categoryId}
+                    placeholder="Seleccionar"
+                    onChange={(e) => onChangeRow(row.rowNumber, { categoryId: e.target.value })}
+                    isDisabled={isDisabled}
+                  >
+                    {catalogs.categories.map(category => (
+                      <option key={category._id} value={category._id}>{category.name}</option>
+                    ))}
+                  </Select>
+                </Td>
+                <Td minW="160px">
+                  <Select
+                    size="xs"
+                    value={item.locationId}
+                    placeholder="Seleccionar"
+                    onChange={(e) => onChangeRow(row.rowNumber, { locationId: e.target.value })}
+                    isDisabled={isDisabled}
+                  >
+                    {catalogs.locations.map(location => (
+                      <option key={location._id} value={location._id}>{location.name}</option>
+                    ))}
+                  </Select>
+                </Td>
+                <Td minW="130px">
+                  <Select
+                    size="xs"
+                    value={item.stateId}
+                    placeholder="Seleccionar"
+                    onChange={(e) => onChangeRow(row.rowNumber, { stateId: e.target.value })}
+                    isDisabled={isDisabled}
+                  >
+                    {catalogs.states.map(state => (
+                      <option key={state._id} value={state._id}>{state.description}</option>
+                    ))}
+                  </Select>
+                </Td>
+                <Td>
+                  <NumberInput
+                    size="xs"
+                    min={1}
+                    max={100}
+                    value={Number.isNaN(item.volumes) ? '' : item.volumes}
+                    onChange={(_, value) => onChangeRow(row.rowNumber, { volumes: value })}
+                    isDisabled={isDisabled}
+                  >
+                    <NumberInputField />
+                  </NumberInput>
+                </Td>
+                <Td whiteSpace="normal" minW="200px">
+                  {hasErrors ? (
+                    <VStack align="start" spacing={1}>
+                      {errors.map(error => (
+                        <Text key={error} fontSize="xs" color="red.600">{error}</Text>
+                      ))}
+                    </VStack>
+                  ) : (
+                    <Badge colorScheme="green" variant="subtle">Lista</Badge>
+                  )}
+                </Td>
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </TableContainer>
+  );
+}
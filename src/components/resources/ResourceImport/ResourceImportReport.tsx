@@ -0,0 +1,107 @@
+// src/components/resources/ResourceImport/ResourceImportReport.tsx
+'use client';
+
+import {
+  VStack,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Card,
+  CardBody,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Badge,
+  Text,
+} from '@chakra-ui/react';
+import type { BulkImportResult } from '@/types/resource.types';
+import type { ResourceImportRow } from './resourceImport.utils';
+
+interface ResourceImportReportProps {
+  result: BulkImportResult;
+  // Filas enviadas, en el mismo orden que los recursos de la importación
+  rows: ResourceImportRow[];
+}
+
+export function ResourceImportReport({ result, rows }: ResourceImportReportProps) {
+  const { summary, createdEntities } = result;
+  const failedByIndex = new Map(result.failed.map(failure => [failure.index, failure.error]));
+  const skippedByIndex = new Map(result.skipped.map(skip => [skip.index, skip.reason]));
+
+  const stats = [
+    { label: 'Procesados', value: summary.total, color: 'gray.800' },
+    { label: 'Registrados', value: summary.successful, color: 'green.600' },
+    { label: 'Omitidos', value: summary.skipped, color: 'orange.500' },
+    { label: 'Fallidos', value: summary.failed, color: 'red.600' },
+  ];
+
+  return (
+    <VStack spacing={4} align="stretch">
+      <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+        {stats.map(stat => (
+          <Card key={stat.label} variant="outline">
+            <CardBody py={3}>
+              <Stat>
+                <StatLabel color="gray.600">{stat.label}</StatLabel>
+                <StatNumber color={stat.color}>{stat.value}</StatNumber>
+              </Stat>
+            </CardBody>
+          </Card>
+        ))}
+      </SimpleGrid>
+
+      {(createdEntities.authors.length > 0 || createdEntities.publishers.length > 0) && (
+        <Text fontSize="sm" color="gray.600">
+          Autores vinculados: {createdEntities.authors.length} · Editoriales vinculadas: {createdEntities.publishers.length}
+        </Text>
+      )}
+
+      <TableContainer maxH="420px" overflowY="auto" borderWidth="1px" borderRadius="md">
+        <Table size="sm">
+          <Thead position="sticky" top={0} bg="gray.50" zIndex={1}>
+            <Tr>
+              <Th width="50px">Fila</Th>
+              <Th>Recurso</Th>
+              <Th>ISBN</Th>
+              <Th>Resultado</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {rows.map((row, index) => {
+              const error = failedByIndex.get(index);
+              const skipReason = skippedByIndex.get(index);
+
+              return (
+                <Tr key={row.rowNumber}>
+                  <Td color="gray.500">{row.rowNumber}</Td>
+                  <Td whiteSpace="normal">{row.item.title}</Td>
+                  <Td>{row.item.isbn || '—'}</Td>
+                  <Td whiteSpace="normal">
+                    {error ? (
+                      <VStack align="start" spacing={1}>
+                        <Badge colorScheme="red" variant="subtle">Fallido</Badge>
+                        <Text fontSize="xs" color="red.600">{error}</Text>
+                      </VStack>
+                    ) : skipReason ? (
+                      <VStack align="start" spacing={1}>
+                        <Badge colorScheme="orange" variant="subtle">Omitido</Badge>
+                        <Text fontSize="xs" color="orange.600">{skipReason}</Text>
+                      </VStack>
+                    ) : (
+                      <Badge colorScheme="green" variant="subtle">Registrado</Badge>
+                    )}
+                  </Td>
+                </Tr>
+              );
+            })}
+          </Tbody>
+        </Table>
+      </TableContainer>
+    </VStack>
+  );
+}
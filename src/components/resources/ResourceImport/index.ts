@@ -0,0 +1,5 @@
+// src/components/resources/ResourceImport/index.ts
+export { ResourceImport } from './ResourceImport';
+export { ResourceImportPreviewTable } from './ResourceImportPreviewTable';
+export { ResourceImportReport } from './ResourceImportReport';
+export type { ResourceImportRow } from './resourceImport.utils';
@@ -0,0 +1,306 @@
+// src/components/resources/ResourceImport/resourceImport.utils.ts
+import { ValidationUtils, SpreadsheetUtils } from '@/utils';
+import { GoogleBooksUtils } from '@/hooks/useGoogleBooks';
+import type {
+  Category,
+  Location,
+  ResourceType,
+  ResourceState,
+  GoogleBooksVolume,
+  ResourceImportItem,
+} from '@/types/resource.types';
+
+export type ResourceImportField =
+  | 'title'
+  | 'authors'
+  | 'publisher'
+  | 'isbn'
+  | 'category'
+  | 'location'
+  | 'state'
+  | 'type'
+  | 'volumes'
+  | 'notes';
+
+export interface ResourceImportCatalogs {
+  types: ResourceType[];
+  categories: Category[];
+  locations: Location[];
+  states: ResourceState[];
+}
+
+export type ResourceImportDefaults = Pick<ResourceImportItem, 'typeId' | 'categoryId' | 'locationId' | 'stateId'>;
+
+export interface ResourceImportRow {
+  rowNumber: number;
+  item: ResourceImportItem;
+  // Texto original de las columnas de catálogo, para explicar por qué no se resolvieron
+  rawValues: Partial<Record<'type' | 'category' | 'location' | 'state', string>>;
+  // Errores detectados al leer la fila (p. ej. ISBN no encontrado en Google Books)
+  sourceErrors: string[];
+  included: boolean;
+}
+
+// Encabezados aceptados para cada campo (ya normalizados)
+const COLUMN_ALIASES: Record<ResourceImportField, string[]> = {
+  title: ['titulo', 'title', 'nombre'],
+  authors: ['autor', 'autores', 'author', 'authors'],
+  publisher: ['editorial', 'publisher'],
+  isbn: ['isbn', 'isbn 13', 'isbn 10'],
+  category: ['categoria', 'category'],
+  location: ['ubicacion', 'location', 'estante'],
+  state: ['estado', 'state', 'condicion'],
+  type: ['tipo', 'type', 'tipo de recurso'],
+  volumes: ['volumenes', 'ejemplares', 'cantidad', 'volumes', 'copias'],
+  notes: ['notas', 'observaciones', 'notes'],
+};
+
+// Equivalencias en español de los nombres internos de tipos y estados
+const TYPE_ALIASES: Record<ResourceType['name'], string[]> = {
+  book: ['libro', 'book'],
+  game: ['juego', 'game'],
+  map: ['mapa', 'map'],
+  bible: ['biblia', 'bible'],
+};
+
+const STATE_ALIASES: Record<ResourceState['name'], string[]> = {
+  good: ['bueno', 'buen estado', 'good'],
+  deteriorated: ['deteriorado', 'deteriorated'],
+  damaged: ['danado', 'damaged'],
+  lost: ['perdido', 'lost'],
+};
+
+export const normalizeImportText = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const cleanISBN = (isbn: string): string => isbn.replace(/[-\s]/g, '');
+
+/**
+ * Relaciona cada campo con el índice de su columna en el archivo
+ */
+export function mapResourceColumns(headers: string[]): Partial<Record<ResourceImportField, number>> {
+  const mapping: Partial<Record<ResourceImportField, number>> = {};
+  const normalizedHeaders = headers.map(normalizeImportText);
+
+  (Object.keys(COLUMN_ALIASES) as ResourceImportField[]).forEach(field => {
+    const index = normalizedHeaders.findIndex(header => COLUMN_ALIASES[field].includes(header));
+    if (index >= 0) mapping[field] = index;
+  });
+
+  return mapping;
+}
+
+/**
+ * Buscar en un catálogo por nombre, descripción o código
+ */
+function findCatalogId<T extends { _id: string; name: string; description: string; code?: string }>(
+  items: T[],
+  value: string,
+  aliases?: Record<string, string[]>
+): string {
+  const normalized = normalizeImportText(value);
+  const aliasName = aliases
+    ? Object.keys(aliases).find(name => aliases[name].includes(normalized))
+    : undefined;
+
+  const match = items.find(item =>
+    item.name === aliasName ||
+    normalizeImportText(item.name) === normalized ||
+    normalizeImportText(item.description || '') === normalized ||
+    (item.code && normalizeImportText(item.code) === normalized)
+  );
+
+  return match?._id || '';
+}
+
+/**
+ * Convierte las filas de una hoja de cálculo en filas de importación
+ */
+export function buildRowsFromSheet(
+  rows: string[][],
+  catalogs: ResourceImportCatalogs,
+  defaults: ResourceImportDefaults
+): ResourceImportRow[] {
+  const [headers = []] = rows;
+  const columns = mapResourceColumns(headers);
+
+  const cell = (row: string[], field: ResourceImportField): string => {
+    const index = columns[field];
+    return index !== undefined ? row[index] || '' : '';
+  };
+
+  return SpreadsheetUtils.getDataRows(rows).map(({ rowNumber, cells: row }) => {
+    const rawValues = {
+      type: cell(row, 'type'),
+      category: cell(row, 'category'),
+      location: cell(row, 'location'),
+      state: cell(row, 'state'),
+    };
+    const authors = cell(row, 'authors');
+    const volumes = cell(row, 'volumes');
+
+    return {
+      rowNumber,
+      item: {
+        title: cell(row, 'title'),
+        typeId: rawValues.type ? findCatalogId(catalogs.types, rawValues.type, TYPE_ALIASES) : defaults.typeId,
+        categoryId: rawValues.category ? findCatalogId(catalogs.categories, rawValues.category) : defaults.categoryId,
+        locationId: rawValues.location ? findCatalogId(catalogs.locations, rawValues.location) : defaults.locationId,
+        stateId: rawValues.state ? findCatalogId(catalogs.states, rawValues.state, STATE_ALIASES) : defaults.stateId,
+        authorNames: authors ? authors.split(/[;,|]/).map(name => name.trim()).filter(Boolean) : [],
+        publisherName: cell(row, 'publisher') || undefined,
+        isbn: cell(row, 'isbn') ? cleanISBN(cell(row, 'isbn')) : undefined,
+        volumes: volumes ? Number(volumes) : 1,
+        notes: cell(row, 'notes') || undefined,
+      },
+      rawValues,
+      sourceErrors: [],
+      included: true,
+    };
+  });
+}
+
+/**
+ * Extraer ISBNs de un texto (uno por línea, o separados por comas o espacios)
+ * Los ISBN repetidos se agrupan y cuentan como ejemplares del mismo recurso
+ */
+export function parseISBNList(text: string): Array<{ isbn: string; copies: number }> {
+  const counts = new Map<string, number>();
+
+  text
+    .split(/[\n,;\t ]+/)
+    .map(cleanISBN)
+    .filter(Boolean)
+    .forEach(isbn => counts.set(isbn, (counts.get(isbn) || 0) + 1));
+
+  return Array.from(counts, ([isbn, copies]) => ({ isbn, copies }));
+}
+
+/**
+ * Construir una fila de importación a partir de un ISBN y su volumen de Google Books
+ */
+export function buildRowFromVolume(
+  isbn: string,
+  copies: number,
+  volume: GoogleBooksVolume | undefined,
+  rowNumber: number,
+  defaults: ResourceImportDefaults
+): ResourceImportRow {
+  const sourceErrors: string[] = [];
+
+  if (!ValidationUtils.isValidISBN(isbn)) {
+    sourceErrors.push('El ISBN debe tener 10 o 13 dígitos');
+  } else if (!volume) {
+    sourceErrors.push('No se encontró en Google Books');
+  }
+
+  return {
+    rowNumber,
+    item: {
+      ...defaults,
+      title: volume?.title || '',
+      authorNames: volume?.authors || [],
+      publisherName: volume?.publisher,
+      isbn: (volume && GoogleBooksUtils.getAnyISBN(volume)) || isbn,
+      volumes: copies,
+      googleBooksId: volume?.id,
+      coverImageUrl: volume ? GoogleBooksUtils.getBestImageUrl(volume) : undefined,
+    },
+    rawValues: {},
+    sourceErrors,
+    included: sourceErrors.length === 0,
+  };
+}
+
+/**
+ * Validar una fila con las mismas reglas que ResourceForm
+ */
+export function validateImportRow(
+  row: ResourceImportRow,
+  catalogs: ResourceImportCatalogs,
+  duplicateOfRow?: number
+): string[] {
+  const { item, rawValues } = row;
+  const errors = [...row.sourceErrors];
+
+  const catalogError = (id: string, raw: string | undefined, label: string, selectMessage: string) => {
+    if (id) return;
+    errors.push(raw ? `${label} no encontrada: "${raw}"` : selectMessage);
+  };
+
+  if (item.title.trim().length < 2) {
+    errors.push('El título debe tener al menos 2 caracteres');
+  } else if (item.title.length > 300) {
+    errors.push('El título no puede exceder 300 caracteres');
+  }
+
+  if (!item.typeId) {
+    errors.push(rawValues.type ? `Tipo no reconocido: "${rawValues.type}"` : 'Selecciona un tipo de recurso');
+  }
+  catalogError(item.categoryId, rawValues.category, 'Categoría', 'Selecciona una categoría');
+  catalogError(item.locationId, rawValues.location, 'Ubicación', 'Selecciona una ubicación');
+  if (!item.stateId) {
+    errors.push(rawValues.state ? `Estado no reconocido: "${rawValues.state}"` : 'Selecciona un estado');
+  }
+
+  if (!Number.isInteger(item.volumes) || (item.volumes || 0) < 1 || (item.volumes || 0) > 100) {
+    errors.push('Los volúmenes deben ser un número entre 1 y 100');
+  }
+
+  if (item.isbn && !ValidationUtils.isValidISBN(item.isbn) && !row.sourceErrors.length) {
+    errors.push('El ISBN debe tener 10 o 13 dígitos');
+  }
+
+  const type = catalogs.types.find(resourceType => resourceType._id === item.typeId);
+  if (type?.name === 'book' && (!item.authorNames || item.authorNames.length === 0) && !row.sourceErrors.length) {
+    errors.push('Los libros deben tener al menos un autor');
+  }
+
+  if (item.notes && item.notes.length > 500) {
+    errors.push('Las notas no pueden exceder 500 caracteres');
+  }
+
+  if (duplicateOfRow !== undefined) {
+    errors.push(`ISBN repetido en la lista (fila ${duplicateOfRow})`);
+  }
+
+  return Array.from(new Set(errors));
+}
+
+/**
+ * Para cada fila, indica la primera fila anterior con el mismo ISBN
+ */
+export function findDuplicateISBNs(rows: ResourceImportRow[]): Map<number, number> {
+  const seen = new Map<string, number>();
+  const duplicates = new Map<number, number>();
+
+  rows.forEach(row => {
+    if (!row.item.isbn) return;
+    const firstRow = seen.get(row.item.isbn);
+    if (firstRow !== undefined) {
+      duplicates.set(row.rowNumber, firstRow);
+    } else {
+      seen.set(row.item.isbn, row.rowNumber);
+    }
+  });
+
+  return duplicates;
+}
+
+/**
+ * Resolver los valores por defecto (tipo libro, estado bueno y primer elemento de cada catálogo)
+ */
+export function getImportDefaults(catalogs: ResourceImportCatalogs): ResourceImportDefaults {
+  return {
+    typeId: catalogs.types.find(type => type.name === 'book')?._id || catalogs.types[0]?._id || '',
+    stateId: catalogs.states.find(state => state.name === 'good')?._id || catalogs.states[0]?._id || '',
+    categoryId: '',
+    locationId: '',
+  };
+}
@@ -0,0 +1,170 @@
+// src/components/resources/ResourceLabels/ResourceLabelSheet.tsx
+import { Barcode } from '@/components/ui/Barcode';
+import type { Resource } from '@/types/resource.types';
+
+// ===== CONFIGURACIÓN =====
+
+export type LabelLayoutId = 'a4-24' | 'a4-10' | 'letter-30';
+
+export interface LabelLayout {
+  id: LabelLayoutId;
+  label: string;
+  pageSize: string;
+  columns: number;
+  rows: number;
+  labelWidthMm: number;
+  labelHeightMm: number;
+  marginTopMm: number;
+  marginLeftMm: number;
+}
+
+export const LABEL_LAYOUTS: Record<LabelLayoutId, LabelLayout> = {
+  'a4-24': {
+    id: 'a4-24',
+    label: 'A4 · 24 etiquetas (70 × 37 mm)',
+    pageSize: 'A4',
+    columns: 3,
+    rows: 8,
+    labelWidthMm: 70,
+    labelHeightMm: 37,
+    marginTopMm: 0.5,
+    marginLeftMm: 0,
+  },
+  'a4-10': {
+    id: 'a4-10',
+    label: 'A4 · 10 etiquetas (105 × 57 mm)',
+    pageSize: 'A4',
+    columns: 2,
+    rows: 5,
+    labelWidthMm: 105,
+    labelHeightMm: 57,
+    marginTopMm: 6,
+    marginLeftMm: 0,
+  },
+  'letter-30': {
+    id: 'letter-30',
+    label: 'Carta · 30 etiquetas (66,7 × 25,4 mm)',
+    pageSize: 'letter',
+    columns: 3,
+    rows: 10,
+    labelWidthMm: 66.7,
+    labelHeightMm: 25.4,
+    marginTopMm: 12.7,
+    marginLeftMm: 4.8,
+  },
+};
+
+export interface ResourceLabelItem {
+  key: string;
+  resource: Resource;
+  volume?: number;
+}
+
+interface ResourceLabelSheetProps {
+  items: ResourceLabelItem[];
+  layoutId: LabelLayoutId;
+  showLocation?: boolean;
+}
+
+// ===== ESTILOS =====
+
+// HTML plano con estilos propios: la hoja se imprime en un iframe sin Chakra
+const buildSheetStyles = (layout: LabelLayout) => `
+  .label-sheet {
+    font-family: Arial, Helvetica, sans-serif;
+    color: #000000;
+  }
+  .label-sheet .label-page {
+    display: grid;
+    grid-template-columns: repeat(${layout.columns}, ${layout.labelWidthMm}mm);
+    grid-auto-rows: ${layout.labelHeightMm}mm;
+    padding: ${layout.marginTopMm}mm 0 0 ${layout.marginLeftMm}mm;
+    box-sizing: border-box;
+    break-after: page;
+    page-break-after: always;
+  }
+  .label-sheet .label-page:last-child {
+    break-after: auto;
+    page-break-after: auto;
+  }
+  .label-sheet .label {
+    box-sizing: border-box;
+    padding: 2mm 3mm;
+    overflow: hidden;
+    display: flex;
+    flex-direction: column;
+    justify-content: center;
+    gap: 1mm;
+    outline: 1px dashed #CBD5E0;
+    outline-offset: -1px;
+  }
+  .label-sheet .label-title {
+    font-size: 9pt;
+    font-weight: bold;
+    line-height: 1.15;
+    max-height: 2.3em;
+    overflow: hidden;
+  }
+  .label-sheet .label-meta {
+    font-size: 7pt;
+    color: #4A5568;
+    display: flex;
+    justify-content: space-between;
+    gap: 2mm;
+  }
+  .label-sheet .label-code {
+    font-family: 'Courier New', monospace;
+    font-size: 7pt;
+    text-align: center;
+    letter-spacing: 0.5px;
+  }
+  .label-sheet .label-barcode {
+    display: block;
+    height: ${Math.max(8, Math.round(layout.labelHeightMm * 0.4))}mm;
+  }
+  @media print {
+    @page { size: ${layout.pageSize}; margin: 0; }
+    body { margin: 0; }
+    .label-sheet .label { outline: none; }
+  }
+`;
+
+// ===== COMPONENTE =====
+
+/**
+ * Hoja de etiquetas con código de barras. Cada código contiene el ID del recurso,
+ * que es lo que el modo escáner de préstamos espera leer
+ */
+export function ResourceLabelSheet({ items, layoutId, showLocation = true }: ResourceLabelSheetProps) {
+  const layout = LABEL_LAYOUTS[layoutId];
+  const perPage = layout.columns * layout.rows;
+
+  const pages: ResourceLabelItem[][] = [];
+  for (let i = 0; i < items.length; i += perPage) {
+    pages.push(items.slice(i, i + perPage));
+  }
+
+  return (
+    <div className="label-sheet">
+      <style>{buildSheetStyles(layout)}</style>
+
+      {pages.map((pageItems, pageIndex) => (
+        <div key={pageIndex} className="label-page">
+          {pageItems.map(({ key, resource, volume }) => (
+            <div key={key} className="label">
+              <div className="label-title">{resource.title}</div>
+              <div className="label-meta">
+                <span>{showLocation ? resource.location?.name || '' : ''}</span>
+                {volume && resource.volumes && resource.volumes > 1 && (
+                  <span>Vol. {volume}/{resource.volumes}</span>
+                )}
+              </div>
+              <Barcode value={resource._id} className="label-barcode" />
+              <div className="label-code">{resource._id}</div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+// src/components/resources/ResourceLabels/ResourceLabelsModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  SimpleGrid,
+  Text,
+  Button,
+  Box,
+  Badge,
+  Select,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
+} from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { FiPrinter, FiTag } from 'react-icons/fi';
+import { PrintUtils } from '@/utils';
+import {
+  ResourceLabelSheet,
+  LABEL_LAYOUTS,
+  type LabelLayoutId,
+  type ResourceLabelItem,
+} from './ResourceLabelSheet';
+import type { Resource } from '@/types/resource.types';
+
+interface ResourceLabelsModalProps {
+  resources: Resource[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MAX_COPIES = 50;
+
+export function ResourceLabelsModal({ resources, isOpen, onClose }: ResourceLabelsModalProps) {
+  const [layoutId, setLayoutId] = useState<LabelLayoutId>('a4-24');
+  const [copies, setCopies] = useState(1);
+  const [perVolume, setPerVolume] = useState(true);
+  const [showLocation, setShowLocation] = useState(true);
+
+  // Una etiqueta por copia solicitada o, si aplica, una por volumen
+  const items: ResourceLabelItem[] = useMemo(() => {
+    const result: ResourceLabelItem[] = [];
+
+    resources.forEach(resource => {
+      const volumes = perVolume && resource.volumes && resource.volumes > 1 ? resource.volumes : 1;
+
+      for (let volume = 1; volume <= volumes; volume++) {
+        for (let copy = 1; copy <= copies; copy++) {
+          result.push({
+            key: `${resource._id}-${volume}-${copy}`,
+            resource,
+            volume: volumes > 1 ? volume : undefined,
+          });
+        }
+      }
+    });
+
+    return result;
+  }, [resources, copies, perVolume]);
+
+  const layout = LABEL_LAYOUTS[layoutId];
+  const pageCount = Math.ceil(items.length / (layout.columns * layout.rows));
+
+  const handlePrint = () => {
+    PrintUtils.printElement(
+      <ResourceLabelSheet items={items} layoutId={layoutId} showLocation={showLocation} />,
+      'Etiquetas de recursos'
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="4xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            <FiTag />
+            <Text>Etiquetas de Código de Barras</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack spacing={5} align="stretch">
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <FormControl>
+                <FormLabel fontSize="sm">Formato de hoja</FormLabel>
+                <Select
+                  size="sm"
+                  value={layoutId}
+                  onChange={(e) => setLayoutId(e.target.value as LabelLayoutId)}
+                >
+                  {Object.values(LABEL_LAYOUTS).map(option => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <FormControl>
+                <FormLabel fontSize="sm">Copias por etiqueta</FormLabel>
+                <NumberInput
+                  size="sm"
+                  min={1}
+                  max={MAX_COPIES}
+                  value={copies}
+                  onChange={(_, value) => setCopies(Number.isNaN(value) ? 1 : Math.min(Math.max(value, 1), MAX_COPIES))}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+              </FormControl>
+            </SimpleGrid>
+
+            <HStack spacing={6} flexWrap="wrap">
+              <FormControl w="auto">
+                <Checkbox isChecked={perVolume} onChange={(e) => setPerVolume(e.target.checked)}>
+                  <Text fontSize="sm">Una etiqueta por volumen</Text>
+                </Checkbox>
+                <FormHelperText fontSize="xs">
+                  Para recursos con varios volúmenes
+                </FormHelperText>
+              </FormControl>
+
+              <FormControl w="auto">
+                <Checkbox isChecked={showLocation} onChange={(e) => setShowLocation(e.target.checked)}>
+                  <Text fontSize="sm">Mostrar ubicación</Text>
+                </Checkbox>
+                <FormHelperText fontSize="xs">
+                  Se imprime sobre el código de barras
+                </FormHelperText>
+              </FormControl>
+            </HStack>
+
+            <HStack spacing={2}>
+              <Badge colorScheme="blue">{resources.length} recursos</Badge>
+              <Badge colorScheme="green">{items.length} etiquetas</Badge>
+              <Badge colorScheme="gray">
+                {pageCount} {pageCount === 1 ? 'hoja' : 'hojas'}
+              </Badge>
+            </HStack>
+
+            {/* Vista previa */}
+            <Box
+              border="1px solid"
+              borderColor="gray.200"
+              borderRadius="md"
+              bg="gray.50"
+              p={4}
+              maxH="400px"
+              overflow="auto"
+            >
+              <Box bg="white" w="fit-content" mx="auto" shadow="sm">
+                <ResourceLabelSheet items={items} layoutId={layoutId} showLocation={showLocation} />
+              </Box>
+            </Box>
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme="blue"
+              leftIcon={<FiPrinter />}
+              onClick={handlePrint}
+              isDisabled={items.length === 0}
+            >
+              Imprimir
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
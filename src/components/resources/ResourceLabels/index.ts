@@ -0,0 +1,4 @@
+// src/components/resources/ResourceLabels/index.ts
+export { ResourceLabelsModal } from './ResourceLabelsModal';
+export { ResourceLabelSheet, LABEL_LAYOUTS } from './ResourceLabelSheet';
+export type { LabelLayoutId, ResourceLabelItem } from './ResourceLabelSheet';
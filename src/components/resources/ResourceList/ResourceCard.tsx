@@ -21,6 +21,7 @@ import {
   Link,
   Image,
   Skeleton,
+  Checkbox,
 } from '@chakra-ui/react';
 import { useState } from 'react'; // ✅ AGREGADO: import useState
 import { FiMoreVertical, FiEye, FiEdit, FiToggleLeft, FiToggleRight, FiTrash2, FiBook, FiMapPin } from 'react-icons/fi';
@@ -36,6 +37,9 @@ interface ResourceCardProps {
   showActions?: boolean;
   isCompact?: boolean;
   isLoading?: boolean; // ✅ AGREGADO: prop isLoading
+  isSelectable?: boolean;
+  isSelected?: boolean;
+  onSelectChange?: (resource: Resource, selected: boolean) => void;
 }
 
 const RESOURCE_TYPE_CONFIGS = {
@@ -177,6 +181,9 @@ export function ResourceCard({
   showActions = true,
   isCompact = false,
   isLoading = false, // ✅ AGREGADO: destructuring isLoading
+  isSelectable = false,
+  isSelected = false,
+  onSelectChange,
 }: ResourceCardProps) {
   const { isOpen: isDeleteOpen, onOpen: onDeleteOpen, onClose: onDeleteClose } = useDisclosure();
 
@@ -204,6 +211,11 @@ export function ResourceCard({
 
   // ✅ AGREGADO: Handler para click en la card
   const handleCardClick = () => {
+    // En modo selección el click marca/desmarca la card
+    if (isSelectable) {
+      onSelectChange?.(resource, !isSelected);
+      return;
+    }
     if (onView) {
       onView(resource);
     }
@@ -226,9 +238,9 @@ export function ResourceCard({
         _hover={{ shadow: 'md', transform: 'translateY(-2px)' }}
         transition="all 0.2s"
         opacity={resource.available ? 1 : 0.7}
-        border={resource.available ? '1px solid' : '2px solid'}
-        borderColor={resource.available ? 'gray.200' : 'orange.300'}
-        cursor={onView ? 'pointer' : 'default'} // ✅ AGREGADO: cursor condicional
+        border={resource.available && !isSelected ? '1px solid' : '2px solid'}
+        borderColor={isSelected ? 'blue.400' : resource.available ? 'gray.200' : 'orange.300'}
+        cursor={onView || isSelectable ? 'pointer' : 'default'} // ✅ AGREGADO: cursor condicional
         onClick={handleCardClick} // ✅ AGREGADO: handler de click
         position="relative" // ✅ AGREGADO: para overlay de loading
       >
@@ -251,6 +263,14 @@ export function ResourceCard({
             {/* Header con tipo y disponibilidad */}
             <HStack justify="space-between" align="start">
               <HStack spacing={2}>
+                {isSelectable && (
+                  <Checkbox
+                    isChecked={isSelected}
+                    onChange={(e) => onSelectChange?.(resource, e.target.checked)}
+                    onClick={(e) => e.stopPropagation()} // Evitar conflicto con card click
+                    aria-label={`Seleccionar ${resource.title}`}
+                  />
+                )}
                 {typeConfig && (
                   <Text fontSize="lg" title={typeConfig.label}>
                     {typeConfig.icon}
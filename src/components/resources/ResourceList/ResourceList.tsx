@@ -17,12 +17,17 @@ import {
   AlertIcon,
   AlertTitle,
   AlertDescription,
+  Badge,
+  useDisclosure,
 } from '@chakra-ui/react';
 import { useState, useMemo } from 'react';
+import { FiTag, FiCheckSquare, FiX, FiPrinter } from 'react-icons/fi';
 import { ResourceCard } from './ResourceCard';
 import { ResourceFilters, type ResourceFiltersState } from './ResourceFilters';
+import { ResourceLabelsModal } from '../ResourceLabels';
 import { EmptyResources } from '@/components/ui/EmptyState';
 import { useResources, useUpdateResourceAvailability, useDeleteResource } from '@/hooks/useResources';
+import { usePermissions } from '@/hooks/useAuth';
 import type { Resource, ResourceFilters as APIResourceFilters } from '@/types/resource.types';
 
 interface ResourceListProps {
@@ -79,6 +84,14 @@ export function ResourceList({
     ...initialFilters,
   });
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const { can } = usePermissions();
+  const canEdit = showActions && can('resources.edit');
+  const canDelete = showActions && can('resources.delete');
+
+  // Selección de recursos para imprimir etiquetas (se conserva entre páginas y filtros)
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedResources, setSelectedResources] = useState<Map<string, Resource>>(new Map());
+  const { isOpen: isLabelsOpen, onOpen: onLabelsOpen, onClose: onLabelsClose } = useDisclosure();
 
   // Convertir filtros locales a formato de API
   const apiFilters: APIResourceFilters = useMemo(() => {
@@ -147,6 +160,33 @@ export function ResourceList({
     }
   };
 
+  const handleToggleSelecting = () => {
+    if (isSelecting) {
+      setSelectedResources(new Map());
+    }
+    setIsSelecting(!isSelecting);
+  };
+
+  const handleSelectChange = (resource: Resource, selected: boolean) => {
+    setSelectedResources(prev => {
+      const next = new Map(prev);
+      if (selected) {
+        next.set(resource._id, resource);
+      } else {
+        next.delete(resource._id);
+      }
+      return next;
+    });
+  };
+
+  const handleSelectPage = () => {
+    setSelectedResources(prev => {
+      const next = new Map(prev);
+      resources.forEach(resource => next.set(resource._id, resource));
+      return next;
+    });
+  };
+
   // ✅ SOLUCIÓN: Manejo seguro de resourcesResponse
   const resources: Resource[] = useMemo(() => {
     // Verificar que resourcesResponse existe y es un array
@@ -211,6 +251,56 @@ export function ResourceList({
         onViewModeChange={setViewMode}
       />
 
+      {/* Selección para etiquetas */}
+      {showActions && (
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <Button
+            size="sm"
+            variant={isSelecting ? 'solid' : 'outline'}
+            colorScheme="blue"
+            leftIcon={<FiTag />}
+            onClick={handleToggleSelecting}
+          >
+            {isSelecting ? 'Salir de selección' : 'Etiquetas'}
+          </Button>
+
+          {isSelecting && (
+            <HStack spacing={2} flexWrap="wrap">
+              <Badge colorScheme="blue" px={2} py={1} borderRadius="full">
+                {selectedResources.size} seleccionados
+              </Badge>
+              <Button
+                size="sm"
+                variant="ghost"
+                leftIcon={<FiCheckSquare />}
+                onClick={handleSelectPage}
+                isDisabled={resources.length === 0}
+              >
+                Seleccionar página
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                leftIcon={<FiX />}
+                onClick={() => setSelectedResources(new Map())}
+                isDisabled={selectedResources.size === 0}
+              >
+                Limpiar
+              </Button>
+              <Button
+                size="sm"
+                colorScheme="blue"
+                leftIcon={<FiPrinter />}
+                onClick={onLabelsOpen}
+                isDisabled={selectedResources.size === 0}
+              >
+                Generar etiquetas
+              </Button>
+            </HStack>
+          )}
+        </HStack>
+      )}
+
       {/* Estados de error */}
       {isError && (
         <Alert status="error" borderRadius="md">
@@ -266,17 +356,29 @@ export function ResourceList({
               <ResourceCard
                 key={resource._id}
                 resource={resource}
-                onEdit={showActions ? handleResourceEdit : undefined}
-                onToggleAvailability={showActions ? handleToggleAvailability : undefined}
-                onDelete={showActions ? handleDeleteResource : undefined}
+                onEdit={canEdit ? handleResourceEdit : undefined}
+                onToggleAvailability={canEdit ? handleToggleAvailability : undefined}
+                onDelete={canDelete ? handleDeleteResource : undefined}
                 onView={onResourceSelect}
                 isCompact={isCompact}
                 isLoading={isMutating}
+                isSelectable={isSelecting}
+                isSelected={selectedResources.has(resource._id)}
+                onSelectChange={handleSelectChange}
               />
             ))}
           </SimpleGrid>
         </Box>
       )}
+
+      {/* Modal de etiquetas */}
+      {isLabelsOpen && (
+        <ResourceLabelsModal
+          resources={Array.from(selectedResources.values())}
+          isOpen={isLabelsOpen}
+          onClose={onLabelsClose}
+        />
+      )}
     </VStack>
   );
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+// src/components/resources/Weeding/WeedingActionModal.tsx
+'use client';
+
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  FormControl,
+  FormLabel,
+  Select,
+  Textarea,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { FiMapPin, FiTrash2 } from 'react-icons/fi';
+import { useBulkUpdateResources, useLocations } from '@/hooks/useResources';
+import type { BulkResourceUpdate } from '@/types/resource.types';
+
+// discard: marcar para descarte · move: trasladar a otra ubicación
+export type WeedingAction = 'discard' | 'move';
+
+interface WeedingActionModalProps {
+  action: WeedingAction;
+  resourceIds: string[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+export function WeedingActionModal({ action, resourceIds, isOpen, onClose, onSuccess }: WeedingActionModalProps) {
+  const [reason, setReason] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const { data: locations = [] } = useLocations();
+  const bulkUpdate = useBulkUpdateResources();
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setLocationId('');
+    }
+  }, [isOpen]);
+
+  const isDiscard = action === 'discard';
+  const canSubmit = resourceIds.length > 0 && (isDiscard ? reason.trim().length > 0 : !!locationId);
+
+  const handleConfirm = async () => {
+    if (!canSubmit) return;
+
+    const updates: BulkResourceUpdate[] = resourceIds.map(resourceId => ({
+      resourceId,
+      data: isDiscard
+        ? { markedForDiscard: true, discardReason: reason.trim(), available: false }
+        : { locationId },
+    }));
+
+    try {
+      await bulkUpdate.mutateAsync({ updates });
+      onSuccess?.();
+      onClose();
+    } catch (error) {
+      // Error manejado por el hook
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={3}>
+            {isDiscard ? <FiTrash2 /> : <FiMapPin />}
+            <Text>{isDiscard ? 'Marcar para Descarte' : 'Trasladar Recursos'}</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalCloseButton />
+
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Text fontSize="sm" color="gray.600">
+              {resourceIds.length} recurso{resourceIds.length !== 1 ? 's' : ''} seleccionado{resourceIds.length !== 1 ? 's' : ''}
+            </Text>
+
+            {isDiscard ? (
+              <>
+                <Alert status="warning" borderRadius="md" fontSize="sm">
+                  <AlertIcon />
+                  Los recursos quedan fuera de circulación hasta que se decida su baja definitiva.
+                </Alert>
+                <FormControl isRequired>
+                  <FormLabel fontSize="sm">Motivo</FormLabel>
+                  <Textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Ej.: sin préstamos en 3 años, edición desactualizada"
+                    rows={3}
+                    maxLength={500}
+                  />
+                </FormControl>
+              </>
+            ) : (
+              <FormControl isRequired>
+                <FormLabel fontSize="sm">Nueva ubicación</FormLabel>
+                <Select
+                  placeholder="Seleccionar ubicación..."
+                  value={locationId}
+                  onChange={(e) => setLocationId(e.target.value)}
+                >
+                  {locations.map(location => (
+                    <option key={location._id} value={location._id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+          </VStack>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={bulkUpdate.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              colorScheme={isDiscard ? 'red' : 'blue'}
+              onClick={handleConfirm}
+              isLoading={bulkUpdate.isPending}
+              isDisabled={!canSubmit}
+            >
+              {isDiscard ? 'Marcar para descarte' : 'Trasladar'}
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
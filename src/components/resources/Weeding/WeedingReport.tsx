@@ -0,0 +1,397 @@
+// src/components/resources/Weeding/WeedingReport.tsx
+'use client';
+
+import {
+  VStack,
+  HStack,
+  SimpleGrid,
+  Card,
+  CardHeader,
+  CardBody,
+  Heading,
+  FormControl,
+  FormLabel,
+  Select,
+  Switch,
+  Button,
+  Text,
+  Badge,
+  Checkbox,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Skeleton,
+  Alert,
+  AlertIcon,
+  Link,
+  Tooltip,
+  useDisclosure,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { useMemo, useState } from 'react';
+import { FiDownload, FiMapPin, FiRefreshCw, FiTrash2 } from 'react-icons/fi';
+import { ReportBarList, ReportStat } from '@/components/reports';
+import { useCategories, useLocations, useResourceStates } from '@/hooks/useResources';
+import { useWeedingReport } from '@/hooks/useWeeding';
+import { ReportService } from '@/services/report.service';
+import { WeedingService } from '@/services/weeding.service';
+import { DateUtils } from '@/utils';
+import { getStateConfig } from '../ConditionHistory/conditionHistory.config';
+import { WeedingActionModal, type WeedingAction } from './WeedingActionModal';
+import type { WeedingCSVRow, WeedingFilters, WeedingGroupRow } from '@/types/resource.types';
+import type { ReportColumn } from '@/types/report.types';
+
+const MONTH_OPTIONS = [
+  { value: 0, label: 'Nunca prestados' },
+  { value: 6, label: 'Más de 6 meses' },
+  { value: 12, label: 'Más de 1 año' },
+  { value: 24, label: 'Más de 2 años' },
+  { value: 36, label: 'Más de 3 años' },
+];
+
+const CSV_COLUMNS: ReportColumn<WeedingCSVRow>[] = [
+  { key: 'title', label: 'Título' },
+  { key: 'isbn', label: 'ISBN' },
+  { key: 'category', label: 'Categoría' },
+  { key: 'location', label: 'Ubicación' },
+  { key: 'condition', label: 'Estado' },
+  { key: 'acquiredAt', label: 'Ingreso' },
+  { key: 'ageInMonths', label: 'Antigüedad (meses)' },
+  { key: 'totalLoans', label: 'Préstamos' },
+  { key: 'lastLoanDate', label: 'Último préstamo' },
+  { key: 'markedForDiscard', label: 'Marcado para descarte' },
+];
+
+const toBarItems = (rows: WeedingGroupRow[]) =>
+  rows.map(row => ({
+    label: row.name,
+    value: row.count,
+    helpText: row.neverBorrowed > 0 ? `${row.neverBorrowed} nunca prestados` : undefined,
+  }));
+
+const formatAge = (months?: number) => {
+  if (months === undefined) return '—';
+  if (months < 12) return `${months} mes${months !== 1 ? 'es' : ''}`;
+  const years = Math.floor(months / 12);
+  return `${years} año${years !== 1 ? 's' : ''}`;
+};
+
+/**
+ * Reporte de expurgo: recursos nunca prestados o sin movimiento en los
+ * últimos meses, con acciones masivas de descarte, traslado y exportación
+ */
+export function WeedingReport() {
+  const [filters, setFilters] = useState<WeedingFilters>({ monthsWithoutLoans: 24 });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [action, setAction] = useState<WeedingAction>('discard');
+  const { isOpen, onOpen, onClose } = useDisclosure();
+
+  const { data: report, isLoading, isError, refetch, isFetching } = useWeedingReport(filters);
+  const { data: categories = [] } = useCategories();
+  const { data: locations = [] } = useLocations();
+  const { data: states = [] } = useResourceStates();
+
+  const candidates = useMemo(() => report?.candidates || [], [report]);
+  const allSelected = candidates.length > 0 && selectedIds.length === candidates.length;
+
+  const updateFilters = (changes: Partial<WeedingFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (resourceId: string) => {
+    setSelectedIds(current =>
+      current.includes(resourceId) ? current.filter(id => id !== resourceId) : [...current, resourceId]
+    );
+  };
+
+  const handleAction = (nextAction: WeedingAction) => {
+    setAction(nextAction);
+    onOpen();
+  };
+
+  const handleExport = () => {
+    const rows = selectedIds.length > 0
+      ? candidates.filter(candidate => selectedIds.includes(candidate.resource._id))
+      : candidates;
+
+    ReportService.downloadCSV(
+      `expurgo-${new Date().toISOString().slice(0, 10)}`,
+      WeedingService.toCSVRows(rows),
+      CSV_COLUMNS
+    );
+  };
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Filtros */}
+      <Card variant="outline">
+        <CardBody>
+          <HStack spacing={4} align="end" flexWrap="wrap">
+            <FormControl maxW="200px">
+              <FormLabel fontSize="sm">Sin préstamos</FormLabel>
+              <Select
+                size="sm"
+                value={filters.monthsWithoutLoans}
+                onChange={(e) => updateFilters({ monthsWithoutLoans: Number(e.target.value) })}
+              >
+                {MONTH_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl maxW="200px">
+              <FormLabel fontSize="sm">Categoría</FormLabel>
+              <Select
+                size="sm"
+                placeholder="Todas"
+                value={filters.categoryId || ''}
+                onChange={(e) => updateFilters({ categoryId: e.target.value || undefined })}
+              >
+                {categories.map(category => (
+                  <option key={category._id} value={category._id}>{category.name}</option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl maxW="200px">
+              <FormLabel fontSize="sm">Ubicación</FormLabel>
+              <Select
+                size="sm"
+                placeholder="Todas"
+                value={filters.locationId || ''}
+                onChange={(e) => updateFilters({ locationId: e.target.value || undefined })}
+              >
+                {locations.map(location => (
+                  <option key={location._id} value={location._id}>{location.name}</option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl maxW="200px">
+              <FormLabel fontSize="sm">Estado</FormLabel>
+              <Select
+                size="sm"
+                placeholder="Todos"
+                value={filters.stateId || ''}
+                onChange={(e) => updateFilters({ stateId: e.target.value || undefined })}
+              >
+                {states.map(state => (
+                  <option key={state._id} value={state._id}>
+                    {getStateConfig(state)?.label || state.description}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl display="flex" alignItems="center" w="auto" pb={1}>
+              <Switch
+                size="sm"
+                isChecked={!!filters.includeMarked}
+                onChange={(e) => updateFilters({ includeMarked: e.target.checked })}
+                mr={2}
+              />
+              <FormLabel fontSize="sm" mb={0}>Incluir ya marcados</FormLabel>
+            </FormControl>
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<FiRefreshCw />}
+              onClick={() => refetch()}
+              isLoading={isFetching}
+            >
+              Actualizar
+            </Button>
+          </HStack>
+        </CardBody>
+      </Card>
+
+      {isLoading ? (
+        <VStack spacing={3} align="stretch">
+          <Skeleton height="80px" />
+          <Skeleton height="160px" />
+          <Skeleton height="240px" />
+        </VStack>
+      ) : isError || !report ? (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          No se pudo generar el reporte de expurgo
+        </Alert>
+      ) : (
+        <>
+          <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+            <ReportStat label="Recursos evaluados" value={report.resourcesEvaluated} />
+            <ReportStat label="Candidatos" value={candidates.length} color="orange.600" />
+            <ReportStat label="Nunca prestados" value={report.neverBorrowed} color="red.600" />
+            <ReportStat label="Préstamos en el período" value={report.loansScanned} />
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, lg: 3 }} spacing={4}>
+            <Card variant="outline">
+              <CardHeader pb={2}><Heading size="sm">Por categoría</Heading></CardHeader>
+              <CardBody pt={0}>
+                <ReportBarList items={toBarItems(report.byCategory)} colorScheme="purple" maxItems={8} />
+              </CardBody>
+            </Card>
+            <Card variant="outline">
+              <CardHeader pb={2}><Heading size="sm">Por ubicación</Heading></CardHeader>
+              <CardBody pt={0}>
+                <ReportBarList items={toBarItems(report.byLocation)} colorScheme="teal" maxItems={8} />
+              </CardBody>
+            </Card>
+            <Card variant="outline">
+              <CardHeader pb={2}><Heading size="sm">Por estado</Heading></CardHeader>
+              <CardBody pt={0}>
+                <ReportBarList items={toBarItems(report.byState)} colorScheme="orange" maxItems={8} />
+              </CardBody>
+            </Card>
+          </SimpleGrid>
+
+          <Card variant="outline">
+            <CardHeader>
+              <HStack justify="space-between" flexWrap="wrap" gap={2}>
+                <Heading size="sm">
+                  Candidatos a expurgo
+                  {selectedIds.length > 0 && (
+                    <Badge ml={2} colorScheme="blue">{selectedIds.length} seleccionados</Badge>
+                  )}
+                </Heading>
+                <HStack spacing={2}>
+                  <Button
+                    size="sm"
+                    colorScheme="red"
+                    variant="outline"
+                    leftIcon={<FiTrash2 />}
+                    onClick={() => handleAction('discard')}
+                    isDisabled={selectedIds.length === 0}
+                  >
+                    Marcar para descarte
+                  </Button>
+                  <Button
+                    size="sm"
+                    colorScheme="blue"
+                    variant="outline"
+                    leftIcon={<FiMapPin />}
+                    onClick={() => handleAction('move')}
+                    isDisabled={selectedIds.length === 0}
+                  >
+                    Trasladar
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    leftIcon={<FiDownload />}
+                    onClick={handleExport}
+                    isDisabled={candidates.length === 0}
+                  >
+                    {selectedIds.length > 0 ? 'Exportar selección' : 'Exportar CSV'}
+                  </Button>
+                </HStack>
+              </HStack>
+            </CardHeader>
+
+            <CardBody pt={0}>
+              {candidates.length === 0 ? (
+                <Alert status="success" borderRadius="md">
+                  <AlertIcon />
+                  No hay recursos que cumplan el criterio seleccionado.
+                </Alert>
+              ) : (
+                <TableContainer borderWidth="1px" borderRadius="md">
+                  <Table size="sm">
+                    <Thead bg="gray.50">
+                      <Tr>
+                        <Th px={3}>
+                          <Checkbox
+                            isChecked={allSelected}
+                            isIndeterminate={selectedIds.length > 0 && !allSelected}
+                            onChange={(e) =>
+                              setSelectedIds(e.target.checked ? candidates.map(c => c.resource._id) : [])
+                            }
+                          />
+                        </Th>
+                        <Th>Recurso</Th>
+                        <Th>Categoría</Th>
+                        <Th>Ubicación</Th>
+                        <Th>Estado</Th>
+                        <Th>Antigüedad</Th>
+                        <Th isNumeric>Préstamos</Th>
+                        <Th>Último préstamo</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {candidates.map(({ resource, acquiredAt, ageInMonths, totalLoans, lastLoanDate }) => {
+                        const stateConfig = getStateConfig(resource.state);
+
+                        return (
+                          <Tr key={resource._id}>
+                            <Td px={3}>
+                              <Checkbox
+                                isChecked={selectedIds.includes(resource._id)}
+                                onChange={() => toggleSelected(resource._id)}
+                              />
+                            </Td>
+                            <Td maxW="280px">
+                              <VStack align="start" spacing={0}>
+                                <Link
+                                  as={NextLink}
+                                  href={`/inventory/${resource._id}`}
+                                  color="blue.600"
+                                  fontSize="sm"
+                                  noOfLines={1}
+                                  whiteSpace="normal"
+                                >
+                                  {resource.title}
+                                </Link>
+                                {resource.markedForDiscard && (
+                                  <Tooltip label={resource.discardReason} isDisabled={!resource.discardReason} hasArrow>
+                                    <Badge colorScheme="red" fontSize="2xs">Marcado para descarte</Badge>
+                                  </Tooltip>
+                                )}
+                              </VStack>
+                            </Td>
+                            <Td><Text fontSize="sm">{resource.category?.name || '—'}</Text></Td>
+                            <Td><Text fontSize="sm">{resource.location?.name || '—'}</Text></Td>
+                            <Td>
+                              <Badge colorScheme={stateConfig?.color || 'gray'} variant="subtle">
+                                {stateConfig?.label || resource.state?.description || '—'}
+                              </Badge>
+                            </Td>
+                            <Td>
+                              <Tooltip
+                                label={acquiredAt ? `Ingresó el ${DateUtils.formatDate(acquiredAt)}` : undefined}
+                                isDisabled={!acquiredAt}
+                                hasArrow
+                              >
+                                <Text fontSize="sm">{formatAge(ageInMonths)}</Text>
+                              </Tooltip>
+                            </Td>
+                            <Td isNumeric><Text fontSize="sm">{totalLoans}</Text></Td>
+                            <Td>
+                              <Text fontSize="sm" color={lastLoanDate ? 'gray.700' : 'red.500'}>
+                                {lastLoanDate ? DateUtils.formatDate(lastLoanDate) : 'Nunca'}
+                              </Text>
+                            </Td>
+                          </Tr>
+                        );
+                      })}
+                    </Tbody>
+                  </Table>
+                </TableContainer>
+              )}
+            </CardBody>
+          </Card>
+        </>
+      )}
+
+      <WeedingActionModal
+        action={action}
+        resourceIds={selectedIds}
+        isOpen={isOpen}
+        onClose={onClose}
+        onSuccess={() => setSelectedIds([])}
+      />
+    </VStack>
+  );
+}
@@ -0,0 +1,4 @@
+// src/components/resources/Weeding/index.ts
+export { WeedingReport } from './WeedingReport';
+export { WeedingActionModal } from './WeedingActionModal';
+export type { WeedingAction } from './WeedingActionModal';
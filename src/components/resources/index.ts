@@ -14,3 +14,25 @@ export { GoogleBooksSearch, BookPreviewModal } from './GoogleBooks';
 
 // Búsqueda de recursos
 export { ResourceSearch } from './ResourceSearch/ResourceSearch';
+export { CatalogSearch, CatalogFacetsPanel } from './CatalogSearch';
+
+// Importación masiva
+export { ResourceImport } from './ResourceImport';
+
+// Etiquetas con código de barras
+export { ResourceLabelsModal, ResourceLabelSheet } from './ResourceLabels';
+
+// Auditoría de inventario por ubicación
+export { InventoryAudit, AuditDiscrepancyReport } from './InventoryAudit';
+
+// Ejemplares físicos
+export { ResourceCopiesPanel, CopyFormModal } from './ResourceCopies';
+
+// Historial de estado físico
+export { ResourceConditionTimeline, ChangeConditionModal, DegradationByBorrowerReport } from './ConditionHistory';
+
+// Circulación y demanda
+export { ResourceCirculationPanel } from './ResourceCirculation';
+
+// Expurgo de la colección
+export { WeedingReport, WeedingActionModal } from './Weeding';
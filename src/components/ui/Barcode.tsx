@@ -0,0 +1,52 @@
+// src/components/ui/Barcode.tsx
+import { useMemo } from 'react';
+import { BarcodeUtils } from '@/utils';
+
+interface BarcodeProps {
+  value: string;
+  height?: number;
+  className?: string;
+}
+
+// Margen en blanco a cada lado exigido por Code 128 (10 módulos)
+const QUIET_ZONE = 10;
+
+/**
+ * Código de barras Code 128 dibujado en SVG (etiquetas de recursos, carnés).
+ * Usa solo atributos SVG para que se imprima igual dentro del iframe de impresión
+ */
+export function Barcode({ value, height = 40, className }: BarcodeProps) {
+  const barcode = useMemo(() => {
+    if (!BarcodeUtils.canEncode(value)) return null;
+    return BarcodeUtils.getCode128Bars(value);
+  }, [value]);
+
+  if (!barcode) return null;
+
+  const width = barcode.totalWidth + QUIET_ZONE * 2;
+
+  return (
+    <svg
+      className={className}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      width="100%"
+      height={height}
+      role="img"
+      aria-label={`Código de barras ${value}`}
+      shapeRendering="crispEdges"
+    >
+      <rect x={0} y={0} width={width} height={height} fill="#FFFFFF" />
+      {barcode.bars.map(bar => (
+        <rect
+          key={bar.x}
+          x={bar.x + QUIET_ZONE}
+          y={0}
+          width={bar.width}
+          height={height}
+          fill="#000000"
+        />
+      ))}
+    </svg>
+  );
+}
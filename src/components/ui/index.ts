@@ -6,4 +6,5 @@ export { ComingSoon } from './ComingSoon';
 export { SafeLink, useValidatedHref } from './SafeLink';
 export { DebugInfo } from './DebugInfo';
 export { ServerStatus, useServerStatus } from './ServerStatus';
-export { Pagination } from './Pagination';
\ No newline at end of file
+export { Pagination } from './Pagination';
+export { Barcode } from './Barcode';
@@ -8,12 +8,17 @@ import {
     FiBarChart,
     FiSettings,
   } from 'react-icons/fi';
+  import type { SystemConfiguration } from '@/types/api.types';
+  import { hasPermission, type Permission } from './permissions.config';
   
   export interface NavigationItem {
     name: string;
     href: string;
     icon: any;
-    adminOnly?: boolean;
+    // Permiso necesario para ver el elemento
+    permission?: Permission;
+    // Módulo que debe estar habilitado en la configuración del sistema
+    feature?: keyof SystemConfiguration['features'];
     description?: string;
     badge?: string;
     badgeColor?: string;
@@ -32,6 +37,7 @@ import {
       name: 'Personas',
       href: '/people',
       icon: FiUsers,
+      permission: 'people.view',
       description: 'Gestionar estudiantes y docentes',
       isActive: (pathname) => pathname.startsWith('/people'),
     },
@@ -39,6 +45,7 @@ import {
       name: 'Inventario',
       href: '/inventory',
       icon: FiBook,
+      permission: 'resources.view',
       description: 'Gestionar recursos de la biblioteca',
       isActive: (pathname) => pathname.startsWith('/inventory'),
     },
@@ -46,6 +53,7 @@ import {
       name: 'Préstamos',
       href: '/loans',
       icon: FiBookOpen,
+      permission: 'loans.view',
       description: 'Gestionar préstamos y devoluciones',
       badgeColor: 'orange',
       isActive: (pathname) => pathname.startsWith('/loans'),
@@ -54,25 +62,25 @@ import {
       name: 'Solicitudes',
       href: '/requests',
       icon: FiFileText,
+      permission: 'requests.view',
+      feature: 'requestsEnabled',
       description: 'Recursos solicitados',
-      badge: 'Próximamente',
-      badgeColor: 'orange',
       isActive: (pathname) => pathname.startsWith('/requests'),
     },
     {
       name: 'Reportes',
       href: '/reports',
       icon: FiBarChart,
+      permission: 'reports.view',
+      feature: 'reportsEnabled',
       description: 'Estadísticas e informes',
-      badge: 'Próximamente',
-      badgeColor: 'orange',
       isActive: (pathname) => pathname.startsWith('/reports'),
     },
     {
       name: 'Administración',
       href: '/admin',
       icon: FiSettings,
-      adminOnly: true,
+      permission: 'admin.access',
       description: 'Gestión de usuarios del sistema',
       badgeColor: 'orange',
       isActive: (pathname) => pathname.startsWith('/admin'),
@@ -80,10 +88,16 @@ import {
   ];
   
   /**
-   * Filtra elementos de navegación según el rol del usuario
+   * Filtra elementos de navegación según el rol del usuario y los módulos habilitados
    */
-  export function getFilteredNavigation(isAdmin: boolean): NavigationItem[] {
-    return navigationItems.filter(item => !item.adminOnly || isAdmin);
+  export function getFilteredNavigation(
+    role: string | undefined,
+    features?: SystemConfiguration['features']
+  ): NavigationItem[] {
+    return navigationItems.filter(item =>
+      (!item.permission || hasPermission(role, item.permission)) &&
+      (!item.feature || !features || features[item.feature])
+    );
   }
   
   /**
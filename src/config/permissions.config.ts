@@ -0,0 +1,120 @@
+// src/config/permissions.config.ts
+import type { User } from '@/types/api.types';
+
+type Role = User['role'];
+
+export type Permission =
+  | 'people.view'
+  | 'people.create'
+  | 'people.edit'
+  | 'people.delete'
+  | 'people.import'
+  | 'resources.view'
+  | 'resources.create'
+  | 'resources.edit'
+  | 'resources.delete'
+  | 'resources.import'
+  | 'loans.view'
+  | 'loans.create'
+  | 'loans.return'
+  | 'loans.renew'
+  | 'loans.markLost'
+  | 'penalties.manage'
+  | 'requests.view'
+  | 'requests.manage'
+  | 'reports.view'
+  | 'admin.access';
+
+const ALL_PERMISSIONS: Permission[] = [
+  'people.view',
+  'people.create',
+  'people.edit',
+  'people.delete',
+  'people.import',
+  'resources.view',
+  'resources.create',
+  'resources.edit',
+  'resources.delete',
+  'resources.import',
+  'loans.view',
+  'loans.create',
+  'loans.return',
+  'loans.renew',
+  'loans.markLost',
+  'penalties.manage',
+  'requests.view',
+  'requests.manage',
+  'reports.view',
+  'admin.access',
+];
+
+/**
+ * Matriz de permisos por rol. El backend aplica las mismas reglas;
+ * aquí solo se usan para ocultar opciones y redirigir
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  librarian: ALL_PERMISSIONS.filter(permission => permission !== 'admin.access'),
+  // Alumno ayudante: atiende el mostrador, sin altas ni bajas
+  assistant: [
+    'people.view',
+    'resources.view',
+    'loans.view',
+    'loans.create',
+    'loans.return',
+    'loans.renew',
+    'requests.view',
+  ],
+  // Coordinador: consulta y reportes, sin modificar nada
+  viewer: [
+    'people.view',
+    'resources.view',
+    'loans.view',
+    'requests.view',
+    'reports.view',
+  ],
+};
+
+// Permiso requerido por ruta; la primera coincidencia gana, así que
+// las rutas más específicas van antes que su sección
+export const ROUTE_PERMISSIONS: { route: string; permission: Permission }[] = [
+  { route: '/admin', permission: 'admin.access' },
+  { route: '/people/new', permission: 'people.create' },
+  { route: '/people/import', permission: 'people.import' },
+  { route: '/people', permission: 'people.view' },
+  { route: '/inventory/new', permission: 'resources.create' },
+  { route: '/inventory/google-books', permission: 'resources.create' },
+  { route: '/inventory/import', permission: 'resources.import' },
+  { route: '/inventory/audit', permission: 'resources.edit' },
+  { route: '/inventory/weeding', permission: 'resources.edit' },
+  { route: '/inventory/condition-report', permission: 'reports.view' },
+  { route: '/inventory', permission: 'resources.view' },
+  { route: '/loans', permission: 'loans.view' },
+  { route: '/requests', permission: 'requests.view' },
+  { route: '/reports', permission: 'reports.view' },
+];
+
+/**
+ * Verifica si un rol tiene un permiso. Un rol desconocido no tiene ninguno
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, role)) return false;
+  return ROLE_PERMISSIONS[role as Role].includes(permission);
+}
+
+/**
+ * Permiso requerido para acceder a una ruta, si tiene alguno
+ */
+export function getRoutePermission(pathname: string): Permission | undefined {
+  return ROUTE_PERMISSIONS.find(({ route }) =>
+    pathname === route || pathname.startsWith(route + '/')
+  )?.permission;
+}
+
+/**
+ * Verifica si un rol puede acceder a una ruta
+ */
+export function canAccessRoute(role: string | null | undefined, pathname: string): boolean {
+  const permission = getRoutePermission(pathname);
+  return !permission || hasPermission(role, permission);
+}
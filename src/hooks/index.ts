@@ -4,4 +4,19 @@ export * from './useAuth';
 export * from './usePeople';
 export * from './useResources';
 export * from './useLoans';     // ✅ NUEVO: Export hooks de préstamos
-export * from './useDebounce';
\ No newline at end of file
+export * from './useDebounce';
+export * from './useReports';
+export * from './useRequests';
+export * from './usePenalties';
+export * from './useHolds';
+export * from './useSystemConfig';
+export * from './useResourceConditions';
+export * from './useResourceCopies';
+export * from './useCatalogSearch';
+export * from './usePublicCatalog';
+export * from './usePortal';
+export * from './useRenewalRequests';
+export * from './useOverdueNotices';
+export * from './useCirculation';
+export * from './useWeeding';
+export * from './useAudit';
@@ -0,0 +1,39 @@
+// src/hooks/useAudit.ts
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { AuditService } from '@/services/audit.service';
+import type { AuditLogFilters } from '@/types/audit.types';
+
+// Query keys para React Query
+export const AUDIT_QUERY_KEYS = {
+  audit: ['audit'] as const,
+  logs: (filters: AuditLogFilters) => ['audit', 'logs', filters] as const,
+  log: (id: string) => ['audit', 'detail', id] as const,
+} as const;
+
+/**
+ * Hook para obtener la bitácora de auditoría, paginada y filtrada
+ */
+export function useAuditLogs(filters: AuditLogFilters = {}) {
+  return useQuery({
+    queryKey: AUDIT_QUERY_KEYS.logs(filters),
+    queryFn: () => AuditService.getAuditLogs(filters),
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000, // 30 segundos
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para obtener un registro de auditoría con sus estados completos
+ */
+export function useAuditLog(id: string) {
+  return useQuery({
+    queryKey: AUDIT_QUERY_KEYS.log(id),
+    queryFn: () => AuditService.getAuditLog(id),
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+  });
+}
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { AuthService } from '@/services/auth.service';
 import { User, LoginRequest } from '@/types/api.types';
+import { hasPermission, canAccessRoute, type Permission } from '@/config/permissions.config';
 import toast from 'react-hot-toast';
 
 interface AuthContextType {
@@ -148,11 +149,24 @@ export function useRole() {
   return {
     isAdmin: user?.role === 'admin',
     isLibrarian: user?.role === 'librarian',
+    isAssistant: user?.role === 'assistant',
+    isViewer: user?.role === 'viewer',
     role: user?.role,
     hasRole: (role: string) => user?.role === role,
   };
 }
 
+// Hook para verificar permisos según la matriz de roles
+export function usePermissions() {
+  const { user } = useAuth();
+
+  return {
+    can: (permission: Permission) => hasPermission(user?.role, permission),
+    canAny: (permissions: Permission[]) => permissions.some(permission => hasPermission(user?.role, permission)),
+    canAccessRoute: (pathname: string) => canAccessRoute(user?.role, pathname),
+  };
+}
+
 // Hook para protección de rutas
 export function useRequireAuth() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -183,4 +197,4 @@ export function useRequireRole(requiredRole: string | string[]) {
   }, [user, hasRequiredRole, isLoading]);
   
   return { hasRequiredRole, isLoading };
-}
\ No newline at end of file
+}
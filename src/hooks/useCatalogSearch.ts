@@ -0,0 +1,41 @@
+// src/hooks/useCatalogSearch.ts
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CatalogSearchService } from '@/services/catalogSearch.service';
+import { useDebounce } from './useDebounce';
+import type { CatalogSearchQuery } from '@/types/resource.types';
+
+// Query keys para React Query
+export const CATALOG_QUERY_KEYS = {
+  catalog: ['resources', 'catalog'] as const,
+} as const;
+
+/**
+ * Hook para la búsqueda avanzada: descarga el catálogo una vez y
+ * calcula relevancia y facetas en el navegador en cada consulta
+ */
+export function useCatalogSearch(query: CatalogSearchQuery) {
+  const debouncedText = useDebounce(query.text, 250);
+
+  const catalogQuery = useQuery({
+    queryKey: CATALOG_QUERY_KEYS.catalog,
+    queryFn: () => CatalogSearchService.getCatalog(),
+    staleTime: 5 * 60 * 1000, // 5 minutos
+    gcTime: 15 * 60 * 1000,
+    retry: 1,
+  });
+
+  const result = useMemo(
+    () => CatalogSearchService.search(catalogQuery.data || [], { text: debouncedText, facets: query.facets }),
+    [catalogQuery.data, debouncedText, query.facets]
+  );
+
+  return {
+    ...result,
+    catalogSize: catalogQuery.data?.length || 0,
+    isLoading: catalogQuery.isLoading,
+    isError: catalogQuery.isError,
+    isSearching: debouncedText !== query.text,
+    refetch: catalogQuery.refetch,
+  };
+}
@@ -0,0 +1,115 @@
+// src/hooks/useCirculation.ts
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { LoanService } from '@/services/loan.service';
+import type { LoanSearchFilters } from '@/types/loan.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const CIRCULATION_QUERY_KEYS = {
+  circulation: ['circulation'] as const,
+  person: (personId: string) => ['circulation', 'person', personId] as const,
+  personLoans: (personId: string, filters: Partial<LoanSearchFilters>) =>
+    ['circulation', 'person', personId, 'loans', filters] as const,
+  personProfile: (personId: string) => ['circulation', 'person', personId, 'profile'] as const,
+  canBorrow: (personId: string) => ['circulation', 'person', personId, 'can-borrow'] as const,
+  resource: (resourceId: string) => ['circulation', 'resource', resourceId] as const,
+  resourceLoans: (resourceId: string, filters: Partial<LoanSearchFilters>) =>
+    ['circulation', 'resource', resourceId, 'loans', filters] as const,
+  resourceStats: (resourceId: string) => ['circulation', 'resource', resourceId, 'stats'] as const,
+} as const;
+
+/**
+ * Hook para obtener los préstamos de una persona, paginados y filtrados
+ */
+export function usePersonLoans(personId: string, filters: Partial<LoanSearchFilters> = {}) {
+  return useQuery({
+    queryKey: CIRCULATION_QUERY_KEYS.personLoans(personId, filters),
+    queryFn: () => LoanService.getPersonLoans(personId, filters),
+    enabled: !!personId,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000, // 1 minuto
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para obtener el perfil de circulación de una persona
+ */
+export function usePersonCirculationProfile(personId: string) {
+  return useQuery({
+    queryKey: CIRCULATION_QUERY_KEYS.personProfile(personId),
+    queryFn: () => LoanService.getPersonCirculationProfile(personId),
+    enabled: !!personId,
+    staleTime: 2 * 60 * 1000, // 2 minutos
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para saber si una persona puede tomar préstamos y por qué no
+ */
+export function useCanPersonBorrow(personId: string) {
+  return useQuery({
+    queryKey: CIRCULATION_QUERY_KEYS.canBorrow(personId),
+    queryFn: () => LoanService.canPersonBorrow(personId),
+    enabled: !!personId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para obtener los préstamos de un recurso, paginados y filtrados
+ */
+export function useResourceLoans(resourceId: string, filters: Partial<LoanSearchFilters> = {}) {
+  return useQuery({
+    queryKey: CIRCULATION_QUERY_KEYS.resourceLoans(resourceId, filters),
+    queryFn: () => LoanService.getResourceLoans(resourceId, filters),
+    enabled: !!resourceId,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000, // 1 minuto
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para obtener la analítica de circulación y demanda de un recurso
+ */
+export function useResourceCirculationStats(resourceId: string, totalUnits: number = 1) {
+  return useQuery({
+    queryKey: CIRCULATION_QUERY_KEYS.resourceStats(resourceId),
+    queryFn: () => LoanService.getResourceCirculationStats(resourceId, totalUnits),
+    enabled: !!resourceId,
+    staleTime: 5 * 60 * 1000, // 5 minutos
+    gcTime: 15 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para renovar un préstamo desde la ficha de circulación
+ */
+export function useRenewCirculationLoan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (loanId: string) => LoanService.renewLoan(loanId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: CIRCULATION_QUERY_KEYS.circulation });
+
+      toast.success(
+        result.loan?.dueDate
+          ? `Préstamo renovado hasta el ${LoanService.formatDisplayDate(result.loan.dueDate)}`
+          : 'Préstamo renovado correctamente'
+      );
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al renovar el préstamo';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
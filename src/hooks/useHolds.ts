@@ -0,0 +1,158 @@
+// src/hooks/useHolds.ts
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { HoldService } from '@/services/hold.service';
+import { LoanService } from '@/services/loan.service';
+import { RESOURCE_QUERY_KEYS } from './useResources';
+import type { HoldWithDetails, CreateHoldRequest } from '@/types/hold.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const HOLD_QUERY_KEYS = {
+  holds: ['holds'] as const,
+  resourceQueue: (resourceId: string) => ['holds', 'resource', resourceId] as const,
+  personHolds: (personId: string) => ['holds', 'person', personId] as const,
+} as const;
+
+/**
+ * Hook para obtener la cola de reservas vigentes de un recurso
+ */
+export function useResourceHolds(
+  resourceId: string,
+  options?: Omit<UseQueryOptions<HoldWithDetails[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: HOLD_QUERY_KEYS.resourceQueue(resourceId),
+    queryFn: () => HoldService.getResourceQueue(resourceId),
+    enabled: !!resourceId,
+    staleTime: 60 * 1000, // 1 minuto
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para obtener las reservas de una persona
+ */
+export function usePersonHolds(
+  personId: string,
+  options?: Omit<UseQueryOptions<HoldWithDetails[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: HOLD_QUERY_KEYS.personHolds(personId),
+    queryFn: () => HoldService.getPersonHolds(personId),
+    enabled: !!personId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para poner a una persona en la cola de un recurso
+ */
+export function useCreateHold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateHoldRequest) => HoldService.createHold(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: HOLD_QUERY_KEYS.holds });
+
+      toast.success('Reserva registrada en la cola');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al crear la reserva';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para convertir una reserva lista en préstamo con un clic.
+ * Si el préstamo se crea pero la reserva no se cierra, se informa por separado:
+ * al reintentar se reutiliza el préstamo abierto en lugar de crear otro
+ */
+export function useConvertHoldToLoan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (hold: HoldWithDetails) => {
+      const { data: openLoans } = await LoanService.searchLoans({
+        personId: hold.personId,
+        resourceId: hold.resourceId,
+        status: 'active',
+        limit: 1,
+      });
+
+      // createLoan aplica sanciones, límites del tipo de persona y fecha de devolución
+      const loan = openLoans[0] || await LoanService.createLoan({
+        personId: hold.personId,
+        resourceId: hold.resourceId,
+        quantity: 1,
+        observations: 'Préstamo generado desde reserva',
+      });
+
+      try {
+        await HoldService.fulfillHold(hold._id, loan._id);
+        return { loan, holdClosed: true };
+      } catch (error) {
+        console.error('❌ Préstamo creado sin cerrar la reserva:', error);
+        return { loan, holdClosed: false };
+      }
+    },
+    onSuccess: ({ holdClosed }) => {
+      queryClient.invalidateQueries({ queryKey: HOLD_QUERY_KEYS.holds });
+      queryClient.invalidateQueries({ queryKey: RESOURCE_QUERY_KEYS.resources });
+
+      if (holdClosed) {
+        toast.success('Reserva convertida en préstamo');
+      } else {
+        toast.error('Préstamo creado, pero la reserva no se cerró. Pulsa «Prestar» de nuevo para cerrarla sin crear otro préstamo');
+      }
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al prestar la reserva';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para cancelar o vencer una reserva. Si la reserva tenía una unidad
+ * apartada, la unidad pasa a la siguiente persona de la cola
+ */
+export function useReleaseHold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ hold, action, reason }: {
+      hold: HoldWithDetails;
+      action: 'cancel' | 'expire';
+      reason?: string;
+    }) => {
+      const released = action === 'cancel'
+        ? await HoldService.cancelHold(hold._id, { reason })
+        : await HoldService.expireHold(hold._id);
+
+      const promoted = hold.status === 'ready'
+        ? await HoldService.promoteNextHolds(hold.resourceId)
+        : [];
+
+      return { released, promoted };
+    },
+    onSuccess: ({ promoted }, { action }) => {
+      queryClient.invalidateQueries({ queryKey: HOLD_QUERY_KEYS.holds });
+
+      toast.success(action === 'cancel' ? 'Reserva cancelada' : 'Reserva vencida');
+      if (promoted.length > 0) {
+        toast.success(`Recurso apartado para ${promoted[0].person?.fullName || 'la siguiente persona'}`);
+      }
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al actualizar la reserva';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
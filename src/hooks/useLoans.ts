@@ -5,6 +5,7 @@
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { LoanService } from '@/services/loan.service';
+import { StorageUtils } from '@/utils';
 import type {
   LoanWithDetails,
   CreateLoanRequest,
@@ -17,12 +18,15 @@ import type {
   ResourceAvailabilityResult,
   LoanValidationResult,
   ReturnLoanResponse,
+  RenewalEligibility,
+  LoanRenewal,
   LoanStats,
   OverdueStats,
   StockStats,
   UseLoanState,
   UseLoansState,
   UseReturnState,
+  UseRenewalState,
   UseOverdueState
 } from '@/types/loan.types';
 
@@ -398,6 +402,96 @@ export const useReturn = () => {
   };
 };
 
+// ===== HOOK PARA RENOVACIONES =====
+
+export const useRenewal = () => {
+  const [state, setState] = useState<UseRenewalState>({
+    processing: false,
+    error: null
+  });
+
+  const checkEligibility = useCallback(async (loan: LoanWithDetails): Promise<RenewalEligibility> => {
+    return LoanService.checkRenewalEligibility(loan);
+  }, []);
+
+  const renewLoan = useCallback(async (loanId: string, newDueDate?: string) => {
+    setState(prev => ({ ...prev, processing: true, error: null }));
+
+    try {
+      const result = await LoanService.renewLoan(loanId, newDueDate);
+      setState(prev => ({ ...prev, processing: false }));
+      return result;
+    } catch (error: any) {
+      setState(prev => ({
+        ...prev,
+        processing: false,
+        error: error.message || 'Error al renovar el préstamo'
+      }));
+      throw error;
+    }
+  }, []);
+
+  const renewEligibleLoans = useCallback(async (personId: string) => {
+    setState(prev => ({ ...prev, processing: true, error: null }));
+
+    try {
+      const result = await LoanService.renewEligibleLoans(personId);
+      setState(prev => ({ ...prev, processing: false }));
+      return result;
+    } catch (error: any) {
+      setState(prev => ({
+        ...prev,
+        processing: false,
+        error: error.message || 'Error al renovar los préstamos'
+      }));
+      throw error;
+    }
+  }, []);
+
+  return {
+    ...state,
+    checkEligibility,
+    renewLoan,
+    renewEligibleLoans
+  };
+};
+
+// ===== HOOK PARA HISTORIAL DE RENOVACIONES =====
+
+export const useRenewalHistory = (loanId?: string) => {
+  const [renewals, setRenewals] = useState<LoanRenewal[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async (id: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setRenewals(await LoanService.getRenewalHistory(id));
+    } catch (error: any) {
+      setError(error.message || 'Error al cargar el historial de renovaciones');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (loanId) {
+      fetchHistory(loanId);
+    } else {
+      setRenewals([]);
+    }
+  }, [loanId, fetchHistory]);
+
+  return {
+    renewals,
+    loading,
+    error,
+    refetch: () => loanId && fetchHistory(loanId)
+  };
+};
+
 // ===== HOOK PARA PRÉSTAMOS VENCIDOS =====
 
 export const useOverdue = (initialFilters: OverdueFilters = {}) => {
@@ -505,4 +599,27 @@ export const useLoanStats = () => {
     error,
     refetch: fetchStats
   };
-};
\ No newline at end of file
+};
+
+// ===== HOOK PARA PREFERENCIAS DE COMPROBANTES =====
+
+const AUTO_PRINT_RECEIPTS_KEY = 'loans.autoPrintReceipts';
+
+export const useReceiptPreferences = () => {
+  const [autoPrint, setAutoPrintState] = useState(false);
+
+  // Leer la preferencia guardada solo en el cliente
+  useEffect(() => {
+    setAutoPrintState(StorageUtils.getItem<boolean>(AUTO_PRINT_RECEIPTS_KEY) === true);
+  }, []);
+
+  const setAutoPrint = useCallback((value: boolean) => {
+    setAutoPrintState(value);
+    StorageUtils.setItem(AUTO_PRINT_RECEIPTS_KEY, value);
+  }, []);
+
+  return {
+    autoPrint,
+    setAutoPrint
+  };
+};
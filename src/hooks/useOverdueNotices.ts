@@ -0,0 +1,84 @@
+// src/hooks/useOverdueNotices.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { OverdueNoticeService } from '@/services/overdueNotice.service';
+import type {
+  NoticeFormat,
+  NoticeChannel,
+  OverdueNotice,
+  UpdateNoticeTemplateRequest,
+} from '@/types/notice.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const NOTICE_QUERY_KEYS = {
+  notices: ['overdue-notices'] as const,
+  templates: ['overdue-notices', 'templates'] as const,
+  log: (loanIds: string[]) => ['overdue-notices', 'log', loanIds] as const,
+} as const;
+
+/**
+ * Hook para obtener las plantillas de avisos (con las de por defecto como respaldo)
+ */
+export function useNoticeTemplates() {
+  return useQuery({
+    queryKey: NOTICE_QUERY_KEYS.templates,
+    queryFn: OverdueNoticeService.getTemplates,
+    staleTime: 10 * 60 * 1000, // 10 minutos
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook para guardar una plantilla editada
+ */
+export function useUpdateNoticeTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ format, data }: { format: NoticeFormat; data: UpdateNoticeTemplateRequest }) =>
+      OverdueNoticeService.updateTemplate(format, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTICE_QUERY_KEYS.templates });
+
+      toast.success('Plantilla guardada');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al guardar la plantilla';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para obtener el historial de avisos emitidos de varios préstamos
+ */
+export function useNoticeLog(loanIds: string[]) {
+  return useQuery({
+    queryKey: NOTICE_QUERY_KEYS.log(loanIds),
+    queryFn: () => OverdueNoticeService.getNoticeLog(loanIds),
+    enabled: loanIds.length > 0,
+    staleTime: 60 * 1000, // 1 minuto
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para registrar los avisos emitidos
+ */
+export function useRecordNotices() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notices, channel }: { notices: OverdueNotice[]; channel: NoticeChannel }) =>
+      OverdueNoticeService.recordNotices(notices, channel),
+    onSuccess: (entries) => {
+      queryClient.invalidateQueries({ queryKey: NOTICE_QUERY_KEYS.notices });
+
+      toast.success(`Se registraron ${entries.length} aviso${entries.length !== 1 ? 's' : ''} emitido${entries.length !== 1 ? 's' : ''}`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'No se pudo registrar la emisión de los avisos';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
@@ -0,0 +1,139 @@
+// src/hooks/usePenalties.ts
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { PenaltyService } from '@/services/penalty.service';
+import type { PaginatedResponse } from '@/types/api.types';
+import type {
+  PenaltyWithDetails,
+  PenaltyRule,
+  PenaltyFilters,
+  UpdatePenaltyRuleRequest,
+} from '@/types/penalty.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const PENALTY_QUERY_KEYS = {
+  penalties: ['penalties'] as const,
+  penaltiesList: (filters: PenaltyFilters) => ['penalties', 'list', filters] as const,
+  personPenalties: (personId: string) => ['penalties', 'person', personId] as const,
+  rules: ['penalties', 'rules'] as const,
+} as const;
+
+/**
+ * Hook para obtener sanciones con filtros
+ */
+export function usePenalties(
+  filters: PenaltyFilters = {},
+  options?: Omit<UseQueryOptions<PaginatedResponse<PenaltyWithDetails>>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: PENALTY_QUERY_KEYS.penaltiesList(filters),
+    queryFn: () => PenaltyService.getPenalties(filters),
+    staleTime: 2 * 60 * 1000, // 2 minutos
+    gcTime: 5 * 60 * 1000, // 5 minutos
+    retry: (failureCount, error: any) => {
+      // No reintentar en errores 4xx
+      if (error?.response?.status >= 400 && error?.response?.status < 500) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook para obtener el historial de sanciones de una persona
+ */
+export function usePersonPenalties(
+  personId: string,
+  options?: Omit<UseQueryOptions<PenaltyWithDetails[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: PENALTY_QUERY_KEYS.personPenalties(personId),
+    queryFn: () => PenaltyService.getPersonPenalties(personId),
+    enabled: !!personId,
+    staleTime: 60 * 1000, // 1 minuto
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para obtener las reglas de sanción por tipo de persona
+ */
+export function usePenaltyRules(
+  options?: Omit<UseQueryOptions<PenaltyRule[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: PENALTY_QUERY_KEYS.rules,
+    queryFn: () => PenaltyService.getRules(),
+    staleTime: 30 * 60 * 1000, // 30 minutos - datos casi estáticos
+    gcTime: 60 * 60 * 1000,
+    retry: 2,
+    ...options,
+  });
+}
+
+/**
+ * Hook para guardar la regla de sanción de un tipo de persona
+ */
+export function useUpdatePenaltyRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ personTypeId, data }: { personTypeId: string; data: UpdatePenaltyRuleRequest }) =>
+      PenaltyService.updateRule(personTypeId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PENALTY_QUERY_KEYS.rules });
+
+      toast.success('Regla de sanción guardada exitosamente');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al guardar regla de sanción';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para registrar el pago de una multa
+ */
+export function usePayPenalty() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      PenaltyService.payPenalty(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PENALTY_QUERY_KEYS.penalties });
+
+      toast.success('Pago registrado exitosamente');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al registrar el pago';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para condonar una sanción
+ */
+export function useWaivePenalty() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      PenaltyService.waivePenalty(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PENALTY_QUERY_KEYS.penalties });
+
+      toast.success('Sanción condonada');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al condonar sanción';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
@@ -1,14 +1,19 @@
 // src/hooks/usePeople.ts
-import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueries, useMutation, useQueryClient, UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
 import { personService } from '@/services/person.service';
+import { LoanService } from '@/services/loan.service';
 import type { 
   Person, 
   PersonType, 
   CreatePersonRequest, 
   UpdatePersonRequest, 
   PaginatedResponse,
-  SearchFilters 
+  SearchFilters,
+  BulkOperation,
+  GradeRolloverItem,
 } from '@/types/api.types';
+import type { LoanWithDetails } from '@/types/loan.types';
 import toast from 'react-hot-toast';
 
 // Query keys para React Query
@@ -19,6 +24,8 @@ export const PEOPLE_QUERY_KEYS = {
   personByDocument: (document: string) => ['people', 'document', document] as const,
   personTypes: ['people', 'types'] as const,
   personStats: ['people', 'stats'] as const,
+  studentsByGrade: (grade: string) => ['people', 'grade', grade] as const,
+  activeLoans: (personIds: string[]) => ['people', 'active-loans', personIds] as const,
 } as const;
 
 /**
@@ -269,6 +276,38 @@ export function useCreatePerson() {
   });
 }
 
+/**
+ * Hook para importar personas de forma masiva
+ */
+export function useBulkCreatePeople() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      operation,
+      onProgress,
+    }: {
+      operation: BulkOperation<CreatePersonRequest>;
+      onProgress?: (processed: number, total: number) => void;
+    }) => personService.bulkCreatePeople(operation, onProgress),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: PEOPLE_QUERY_KEYS.people });
+      queryClient.invalidateQueries({ queryKey: PEOPLE_QUERY_KEYS.personStats });
+
+      const { successful, failed } = result.summary;
+      if (failed > 0) {
+        toast.error(`Importación con errores: ${successful} registradas, ${failed} fallidas`);
+      } else {
+        toast.success(`${successful} persona${successful === 1 ? '' : 's'} importada${successful === 1 ? '' : 's'} exitosamente`);
+      }
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al importar personas';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
 /**
  * Hook para actualizar una persona
  */
@@ -357,6 +396,26 @@ export function useDeactivatePerson() {
   });
 }
 
+/**
+ * Hook para asignar o restablecer el PIN del portal de una persona
+ */
+export function useSetPortalPin() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, pin }: { id: string; pin: string }) => personService.setPortalPin(id, pin),
+    onSuccess: (person) => {
+      queryClient.invalidateQueries({ queryKey: PEOPLE_QUERY_KEYS.person(person._id) });
+
+      toast.success(`PIN del portal asignado a ${getPersonFullName(person)}`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al asignar el PIN del portal';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
 /**
  * Hook para eliminar una persona permanentemente
  */
@@ -408,4 +467,115 @@ export function useValidateDocument(documentNumber: string, excludeId?: string)
     gcTime: 5 * 60 * 1000, // 5 minutos
     retry: 1,
   });
-}
\ No newline at end of file
+}
+/**
+ * Hook para obtener los estudiantes activos de varios grados, agrupados por grado
+ */
+export function useStudentsByGrades(grades: string[], enabled: boolean = true) {
+  // Clave estable: el mismo conjunto de grados en otro orden o en un array nuevo no cambia las consultas
+  const gradesKey = Array.from(new Set(grades)).sort().join('|');
+  const uniqueGrades = useMemo(() => (gradesKey ? gradesKey.split('|') : []), [gradesKey]);
+
+  // Agrupar los resultados por grado; memoizado para que el resultado sea estable entre renders
+  const combine = useCallback(
+    (results: UseQueryResult<Person[]>[]) => {
+      const studentsByGrade: Record<string, Person[]> = {};
+      uniqueGrades.forEach((grade, index) => {
+        studentsByGrade[grade] = results[index]?.data || [];
+      });
+
+      return {
+        studentsByGrade,
+        isLoading: results.some(result => result.isLoading),
+        isError: results.some(result => result.isError),
+      };
+    },
+    [uniqueGrades]
+  );
+
+  return useQueries({
+    queries: uniqueGrades.map(grade => ({
+      queryKey: PEOPLE_QUERY_KEYS.studentsByGrade(grade),
+      queryFn: async () => {
+        const students = await personService.getAllPeople({
+          personType: 'student',
+          status: 'active',
+          grade,
+        });
+        // El filtro del backend puede ser parcial ("5°" también coincide con "15°")
+        const normalized = grade.trim().toLowerCase();
+        return students.filter(student => student.grade?.trim().toLowerCase() === normalized);
+      },
+      enabled: enabled && !!grade,
+      staleTime: 2 * 60 * 1000,
+      gcTime: 5 * 60 * 1000,
+      retry: 1,
+    })),
+    combine,
+  });
+}
+
+/**
+ * Hook para obtener los préstamos sin devolver de un grupo de personas
+ */
+export function usePeopleActiveLoans(personIds: string[], enabled: boolean = true) {
+  return useQuery({
+    queryKey: PEOPLE_QUERY_KEYS.activeLoans(personIds),
+    queryFn: async () => {
+      const loansByPerson: Record<string, LoanWithDetails[]> = {};
+
+      // Consultar en grupos pequeños para no saturar el backend
+      for (let start = 0; start < personIds.length; start += 5) {
+        const chunk = personIds.slice(start, start + 5);
+        const responses = await Promise.all(
+          chunk.map(personId => LoanService.getPersonLoans(personId, { limit: 100 }))
+        );
+
+        responses.forEach((response, index) => {
+          const pending = response.data.filter(loan => !loan.returnedDate);
+          if (pending.length > 0) {
+            loansByPerson[chunk[index]] = pending;
+          }
+        });
+      }
+
+      return loansByPerson;
+    },
+    enabled: enabled && personIds.length > 0,
+    staleTime: 1 * 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para aplicar la promoción de grado de fin de año
+ */
+export function useGradeRollover() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      items,
+      onProgress,
+    }: {
+      items: GradeRolloverItem[];
+      onProgress?: (processed: number, total: number) => void;
+    }) => personService.bulkRolloverGrades(items, onProgress),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: PEOPLE_QUERY_KEYS.people });
+      queryClient.invalidateQueries({ queryKey: PEOPLE_QUERY_KEYS.personStats });
+
+      const { successful, failed } = result.summary;
+      if (failed > 0) {
+        toast.error(`Promoción con errores: ${successful} actualizados, ${failed} fallidos`);
+      } else {
+        toast.success(`${successful} estudiante${successful === 1 ? '' : 's'} actualizado${successful === 1 ? '' : 's'} exitosamente`);
+      }
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al aplicar la promoción de grado';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
@@ -0,0 +1,124 @@
+// src/hooks/usePortal.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { PortalService } from '@/services/portal.service';
+import type { LoanSearchFilters } from '@/types/loan.types';
+import type { PortalLoginRequest, CreateRenewalRequestRequest } from '@/types/portal.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query (separadas de las del personal)
+export const PORTAL_QUERY_KEYS = {
+  portal: ['portal'] as const,
+  me: ['portal', 'me'] as const,
+  loans: (filters: Partial<LoanSearchFilters>) => ['portal', 'loans', filters] as const,
+  holds: ['portal', 'holds'] as const,
+  renewalRequests: ['portal', 'renewal-requests'] as const,
+} as const;
+
+/**
+ * Hook para obtener la persona con sesión en el portal
+ */
+export function usePortalPerson() {
+  return useQuery({
+    queryKey: PORTAL_QUERY_KEYS.me,
+    queryFn: PortalService.getCurrentPerson,
+    enabled: PortalService.isAuthenticated(),
+    staleTime: 10 * 60 * 1000,
+    retry: false,
+  });
+}
+
+/**
+ * Hook para ingresar al portal con documento y PIN
+ */
+export function usePortalLogin() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (credentials: PortalLoginRequest) => PortalService.login(credentials),
+    // Un PIN incorrecto no debe reintentarse solo
+    retry: false,
+    onSuccess: (result) => {
+      queryClient.removeQueries({ queryKey: PORTAL_QUERY_KEYS.portal });
+      queryClient.setQueryData(PORTAL_QUERY_KEYS.me, result.person);
+
+      toast.success(`¡Hola, ${result.person.fullName}!`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Documento o PIN incorrectos';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para cerrar la sesión del portal y olvidar sus datos en caché
+ */
+export function usePortalLogout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: PortalService.logout,
+    onSettled: () => {
+      queryClient.removeQueries({ queryKey: PORTAL_QUERY_KEYS.portal });
+    },
+  });
+}
+
+/**
+ * Hook para obtener los préstamos de la persona con sesión
+ */
+export function usePortalLoans(filters: Partial<LoanSearchFilters> = {}, enabled = true) {
+  return useQuery({
+    queryKey: PORTAL_QUERY_KEYS.loans(filters),
+    queryFn: () => PortalService.getLoans(filters),
+    enabled,
+    staleTime: 60 * 1000, // 1 minuto
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para obtener las reservas de la persona con sesión
+ */
+export function usePortalHolds(enabled = true) {
+  return useQuery({
+    queryKey: PORTAL_QUERY_KEYS.holds,
+    queryFn: PortalService.getHolds,
+    enabled,
+    staleTime: 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para obtener las solicitudes de renovación de la persona con sesión
+ */
+export function usePortalRenewalRequests(enabled = true) {
+  return useQuery({
+    queryKey: PORTAL_QUERY_KEYS.renewalRequests,
+    queryFn: PortalService.getRenewalRequests,
+    enabled,
+    staleTime: 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para pedir la renovación de un préstamo desde el portal
+ */
+export function useRequestRenewal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateRenewalRequestRequest) => PortalService.requestRenewal(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PORTAL_QUERY_KEYS.renewalRequests });
+
+      toast.success('Solicitud enviada. La biblioteca la revisará pronto');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'No se pudo solicitar la renovación';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
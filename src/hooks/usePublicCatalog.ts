@@ -0,0 +1,54 @@
+// src/hooks/usePublicCatalog.ts
+import { useQuery, useMutation, keepPreviousData } from '@tanstack/react-query';
+import { PublicCatalogService } from '@/services/publicCatalog.service';
+import type { PublicCatalogFilters, PublicCatalogRequest } from '@/types/catalog.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const PUBLIC_CATALOG_QUERY_KEYS = {
+  catalog: ['public-catalog'] as const,
+  page: (filters: PublicCatalogFilters) => ['public-catalog', filters] as const,
+} as const;
+
+/**
+ * Hook para una página del catálogo público con búsqueda en el servidor
+ */
+export function usePublicCatalog(filters: PublicCatalogFilters) {
+  return useQuery({
+    queryKey: PUBLIC_CATALOG_QUERY_KEYS.page(filters),
+    queryFn: () => PublicCatalogService.getCatalog(filters),
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000, // 5 minutos
+    gcTime: 15 * 60 * 1000,
+    // Un reintento también consume cupo del límite
+    retry: false,
+  });
+}
+
+/**
+ * Hook para reservar o sugerir una compra desde el catálogo público
+ */
+export function usePublicCatalogRequest() {
+  return useMutation({
+    mutationFn: (data: PublicCatalogRequest) => PublicCatalogService.createRequest(data),
+    // Cada intento consume cupo del límite de solicitudes
+    retry: false,
+    onSuccess: (result) => {
+      if (result.message) {
+        toast.success(result.message);
+      } else if (result.type === 'hold') {
+        toast.success(
+          result.queuePosition
+            ? `Reserva registrada. Estás en la posición ${result.queuePosition} de la cola`
+            : 'Reserva registrada'
+        );
+      } else {
+        toast.success('Sugerencia de compra enviada a la biblioteca');
+      }
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'No se pudo registrar la solicitud';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
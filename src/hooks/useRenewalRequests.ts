@@ -0,0 +1,69 @@
+// src/hooks/useRenewalRequests.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { RenewalRequestService } from '@/services/renewalRequest.service';
+import type {
+  RenewalRequestWithDetails,
+  RenewalRequestFilters,
+} from '@/types/portal.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const RENEWAL_REQUEST_QUERY_KEYS = {
+  renewalRequests: ['renewal-requests'] as const,
+  list: (filters: RenewalRequestFilters) => ['renewal-requests', 'list', filters] as const,
+} as const;
+
+/**
+ * Hook para obtener la cola de solicitudes de renovación del portal
+ */
+export function useRenewalRequests(filters: RenewalRequestFilters = {}) {
+  return useQuery({
+    queryKey: RENEWAL_REQUEST_QUERY_KEYS.list(filters),
+    queryFn: () => RenewalRequestService.getRenewalRequests(filters),
+    staleTime: 60 * 1000, // 1 minuto
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook para aprobar una solicitud renovando el préstamo
+ */
+export function useApproveRenewalRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ request, reviewNotes }: { request: RenewalRequestWithDetails; reviewNotes?: string }) =>
+      RenewalRequestService.approveRequest(request, { reviewNotes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: RENEWAL_REQUEST_QUERY_KEYS.renewalRequests });
+
+      toast.success('Préstamo renovado y solicitud aprobada');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al aprobar la solicitud';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para rechazar una solicitud de renovación
+ */
+export function useRejectRenewalRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reviewNotes }: { id: string; reviewNotes: string }) =>
+      RenewalRequestService.rejectRequest(id, { reviewNotes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: RENEWAL_REQUEST_QUERY_KEYS.renewalRequests });
+
+      toast.success('Solicitud rechazada');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al rechazar la solicitud';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
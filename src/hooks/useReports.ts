@@ -0,0 +1,105 @@
+// src/hooks/useReports.ts
+import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import { ReportService } from '@/services/report.service';
+import type {
+  ReportFilters,
+  LoansByPeriodReport,
+  OverdueByGradeReport,
+  MostBorrowedReport,
+  InventoryReport,
+  LibrarianActivityReport,
+} from '@/types/report.types';
+
+// Query keys para React Query
+export const REPORT_QUERY_KEYS = {
+  reports: ['reports'] as const,
+  loansByPeriod: (filters: ReportFilters) => ['reports', 'loans-by-period', filters] as const,
+  overdueByGrade: (filters: ReportFilters) => ['reports', 'overdue-by-grade', filters] as const,
+  mostBorrowed: (filters: ReportFilters) => ['reports', 'most-borrowed', filters] as const,
+  inventory: ['reports', 'inventory'] as const,
+  librarianActivity: (filters: ReportFilters) => ['reports', 'librarian-activity', filters] as const,
+} as const;
+
+/**
+ * Hook para el reporte de préstamos por período
+ */
+export function useLoansByPeriodReport(
+  filters: ReportFilters = {},
+  options?: Omit<UseQueryOptions<LoansByPeriodReport>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: REPORT_QUERY_KEYS.loansByPeriod(filters),
+    queryFn: () => ReportService.getLoansByPeriodReport(filters),
+    staleTime: 5 * 60 * 1000, // 5 minutos
+    gcTime: 10 * 60 * 1000, // 10 minutos
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para el reporte de préstamos vencidos por grado
+ */
+export function useOverdueByGradeReport(
+  filters: ReportFilters = {},
+  options?: Omit<UseQueryOptions<OverdueByGradeReport>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: REPORT_QUERY_KEYS.overdueByGrade(filters),
+    queryFn: () => ReportService.getOverdueByGradeReport(filters),
+    staleTime: 5 * 60 * 1000, // 5 minutos
+    gcTime: 10 * 60 * 1000, // 10 minutos
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para el reporte de recursos más prestados
+ */
+export function useMostBorrowedReport(
+  filters: ReportFilters = {},
+  options?: Omit<UseQueryOptions<MostBorrowedReport>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: REPORT_QUERY_KEYS.mostBorrowed(filters),
+    queryFn: () => ReportService.getMostBorrowedReport(filters),
+    staleTime: 10 * 60 * 1000, // 10 minutos
+    gcTime: 15 * 60 * 1000, // 15 minutos
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para el reporte de inventario por categoría y ubicación
+ */
+export function useInventoryReport(
+  options?: Omit<UseQueryOptions<InventoryReport>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: REPORT_QUERY_KEYS.inventory,
+    queryFn: ReportService.getInventoryReport,
+    staleTime: 10 * 60 * 1000, // 10 minutos
+    gcTime: 15 * 60 * 1000, // 15 minutos
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para el reporte de actividad por bibliotecario
+ */
+export function useLibrarianActivityReport(
+  filters: ReportFilters = {},
+  options?: Omit<UseQueryOptions<LibrarianActivityReport>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: REPORT_QUERY_KEYS.librarianActivity(filters),
+    queryFn: () => ReportService.getLibrarianActivityReport(filters),
+    staleTime: 5 * 60 * 1000, // 5 minutos
+    gcTime: 10 * 60 * 1000, // 10 minutos
+    retry: 1,
+    ...options,
+  });
+}
@@ -0,0 +1,207 @@
+// src/hooks/useRequests.ts
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { RequestService } from '@/services/request.service';
+import type {
+  Request,
+  Priority,
+  PaginatedResponse,
+  CreateRequestRequest,
+  UpdateRequestRequest,
+  RequestFilters,
+} from '@/types/api.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const REQUEST_QUERY_KEYS = {
+  requests: ['requests'] as const,
+  requestsList: (filters: RequestFilters) => ['requests', 'list', filters] as const,
+  request: (id: string) => ['requests', 'detail', id] as const,
+  priorities: ['requests', 'priorities'] as const,
+} as const;
+
+/**
+ * Hook para obtener lista de solicitudes con filtros
+ */
+export function useRequests(
+  filters: RequestFilters = {},
+  options?: Omit<UseQueryOptions<PaginatedResponse<Request>>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: REQUEST_QUERY_KEYS.requestsList(filters),
+    queryFn: () => RequestService.getRequests(filters),
+    staleTime: 2 * 60 * 1000, // 2 minutos
+    gcTime: 5 * 60 * 1000, // 5 minutos
+    retry: (failureCount, error: any) => {
+      // No reintentar en errores 4xx
+      if (error?.response?.status >= 400 && error?.response?.status < 500) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook para obtener una solicitud por ID
+ */
+export function useRequest(
+  id: string,
+  options?: Omit<UseQueryOptions<Request>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: REQUEST_QUERY_KEYS.request(id),
+    queryFn: () => RequestService.getRequestById(id),
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 2,
+    ...options,
+  });
+}
+
+/**
+ * Hook para obtener las prioridades de solicitud
+ */
+export function useRequestPriorities(
+  options?: Omit<UseQueryOptions<Priority[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: REQUEST_QUERY_KEYS.priorities,
+    queryFn: RequestService.getPriorities,
+    staleTime: 30 * 60 * 1000, // 30 minutos - datos casi estáticos
+    gcTime: 60 * 60 * 1000,
+    retry: 2,
+    ...options,
+  });
+}
+
+/**
+ * Hook para crear una solicitud
+ */
+export function useCreateRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateRequestRequest) => RequestService.createRequest(data),
+    onSuccess: (newRequest) => {
+      queryClient.invalidateQueries({ queryKey: REQUEST_QUERY_KEYS.requests });
+      queryClient.setQueryData(REQUEST_QUERY_KEYS.request(newRequest._id), newRequest);
+
+      toast.success(`Solicitud "${newRequest.title}" registrada exitosamente`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al crear solicitud';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para actualizar una solicitud
+ */
+export function useUpdateRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateRequestRequest }) =>
+      RequestService.updateRequest(id, data),
+    onSuccess: (updatedRequest) => {
+      queryClient.setQueryData(REQUEST_QUERY_KEYS.request(updatedRequest._id), updatedRequest);
+      queryClient.invalidateQueries({ queryKey: REQUEST_QUERY_KEYS.requests });
+
+      toast.success(`Solicitud "${updatedRequest.title}" actualizada exitosamente`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al actualizar solicitud';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para eliminar una solicitud
+ */
+export function useDeleteRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => RequestService.deleteRequest(id),
+    onSuccess: (_, deletedId) => {
+      queryClient.invalidateQueries({ queryKey: REQUEST_QUERY_KEYS.requests });
+      queryClient.removeQueries({ queryKey: REQUEST_QUERY_KEYS.request(deletedId) });
+
+      toast.success('Solicitud eliminada exitosamente');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al eliminar solicitud';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para aprobar una solicitud
+ */
+export function useApproveRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) =>
+      RequestService.approveRequest(id, reason),
+    onSuccess: (updatedRequest) => {
+      queryClient.setQueryData(REQUEST_QUERY_KEYS.request(updatedRequest._id), updatedRequest);
+      queryClient.invalidateQueries({ queryKey: REQUEST_QUERY_KEYS.requests });
+
+      toast.success(`Solicitud "${updatedRequest.title}" aprobada`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al aprobar solicitud';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para rechazar una solicitud
+ */
+export function useRejectRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      RequestService.rejectRequest(id, reason),
+    onSuccess: (updatedRequest) => {
+      queryClient.setQueryData(REQUEST_QUERY_KEYS.request(updatedRequest._id), updatedRequest);
+      queryClient.invalidateQueries({ queryKey: REQUEST_QUERY_KEYS.requests });
+
+      toast.success(`Solicitud "${updatedRequest.title}" rechazada`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al rechazar solicitud';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para marcar una solicitud como adquirida
+ */
+export function useMarkRequestAcquired() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, resourceId }: { id: string; resourceId?: string }) =>
+      RequestService.markAsAcquired(id, resourceId),
+    onSuccess: (updatedRequest) => {
+      queryClient.setQueryData(REQUEST_QUERY_KEYS.request(updatedRequest._id), updatedRequest);
+      queryClient.invalidateQueries({ queryKey: REQUEST_QUERY_KEYS.requests });
+
+      toast.success(`Solicitud "${updatedRequest.title}" marcada como adquirida`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al marcar solicitud como adquirida';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
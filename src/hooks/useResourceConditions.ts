@@ -0,0 +1,84 @@
+// src/hooks/useResourceConditions.ts
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { ResourceConditionService } from '@/services/resourceCondition.service';
+import { RESOURCE_QUERY_KEYS } from './useResources';
+import type {
+  Resource,
+  ResourceConditionEvent,
+  ConditionEventFilters,
+  BorrowerDegradationSummary,
+} from '@/types/resource.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const CONDITION_QUERY_KEYS = {
+  conditions: ['resource-conditions'] as const,
+  resourceHistory: (resourceId: string) => ['resource-conditions', 'resource', resourceId] as const,
+  degradationByBorrower: (filters: Pick<ConditionEventFilters, 'dateFrom' | 'dateTo'>) =>
+    ['resource-conditions', 'degradation', filters] as const,
+} as const;
+
+/**
+ * Hook para obtener el historial de estado de un recurso
+ */
+export function useResourceConditionHistory(
+  resourceId: string,
+  options?: Omit<UseQueryOptions<ResourceConditionEvent[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: CONDITION_QUERY_KEYS.resourceHistory(resourceId),
+    queryFn: () => ResourceConditionService.getResourceHistory(resourceId),
+    enabled: !!resourceId,
+    staleTime: 60 * 1000, // 1 minuto
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para el reporte de recursos deteriorados por persona
+ */
+export function useBorrowerDegradationReport(
+  filters: Pick<ConditionEventFilters, 'dateFrom' | 'dateTo'> = {},
+  options?: Omit<UseQueryOptions<BorrowerDegradationSummary[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: CONDITION_QUERY_KEYS.degradationByBorrower(filters),
+    queryFn: () => ResourceConditionService.getDegradationByBorrower(filters),
+    staleTime: 5 * 60 * 1000, // 5 minutos
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para cambiar el estado de un recurso registrando el cambio en su historial
+ */
+export function useChangeResourceCondition() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      resource,
+      newStateId,
+      observations,
+    }: {
+      resource: Resource;
+      newStateId: string;
+      observations?: string;
+    }) => ResourceConditionService.changeCondition(resource, newStateId, { source: 'manual', observations }),
+    onSuccess: ({ resource }) => {
+      queryClient.invalidateQueries({ queryKey: RESOURCE_QUERY_KEYS.resource(resource._id) });
+      queryClient.invalidateQueries({ queryKey: RESOURCE_QUERY_KEYS.resources });
+      queryClient.invalidateQueries({ queryKey: CONDITION_QUERY_KEYS.conditions });
+
+      toast.success('Estado del recurso actualizado');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al cambiar el estado del recurso';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
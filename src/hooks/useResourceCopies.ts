@@ -0,0 +1,106 @@
+// src/hooks/useResourceCopies.ts
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { ResourceCopyService } from '@/services/resourceCopy.service';
+import { RESOURCE_QUERY_KEYS } from './useResources';
+import type {
+  ResourceCopy,
+  CreateResourceCopyRequest,
+  UpdateResourceCopyRequest,
+} from '@/types/resource.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const COPY_QUERY_KEYS = {
+  copies: ['resource-copies'] as const,
+  resourceCopies: (resourceId: string) => ['resource-copies', 'resource', resourceId] as const,
+} as const;
+
+/**
+ * Hook para obtener los ejemplares de un recurso
+ */
+export function useResourceCopies(
+  resourceId: string,
+  options?: Omit<UseQueryOptions<ResourceCopy[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: COPY_QUERY_KEYS.resourceCopies(resourceId),
+    queryFn: () => ResourceCopyService.getCopies(resourceId),
+    enabled: !!resourceId,
+    staleTime: 60 * 1000, // 1 minuto
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+    ...options,
+  });
+}
+
+/**
+ * Hook para agregar un ejemplar a un recurso
+ */
+export function useCreateResourceCopy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      resourceId,
+      data,
+      existingCopies,
+    }: {
+      resourceId: string;
+      data: CreateResourceCopyRequest;
+      existingCopies?: ResourceCopy[];
+    }) => ResourceCopyService.createCopy(resourceId, data, existingCopies),
+    onSuccess: (copy) => {
+      queryClient.invalidateQueries({ queryKey: COPY_QUERY_KEYS.resourceCopies(copy.resourceId) });
+      queryClient.invalidateQueries({ queryKey: RESOURCE_QUERY_KEYS.resource(copy.resourceId) });
+
+      toast.success(`${ResourceCopyService.getCopyLabel(copy)} agregado`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al agregar el ejemplar';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para actualizar un ejemplar
+ */
+export function useUpdateResourceCopy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateResourceCopyRequest }) =>
+      ResourceCopyService.updateCopy(id, data),
+    onSuccess: (copy) => {
+      queryClient.invalidateQueries({ queryKey: COPY_QUERY_KEYS.resourceCopies(copy.resourceId) });
+      queryClient.invalidateQueries({ queryKey: RESOURCE_QUERY_KEYS.resource(copy.resourceId) });
+
+      toast.success(`${ResourceCopyService.getCopyLabel(copy)} actualizado`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al actualizar el ejemplar';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para eliminar un ejemplar
+ */
+export function useDeleteResourceCopy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ copy }: { copy: ResourceCopy }) => ResourceCopyService.deleteCopy(copy._id),
+    onSuccess: (_, { copy }) => {
+      queryClient.invalidateQueries({ queryKey: COPY_QUERY_KEYS.resourceCopies(copy.resourceId) });
+      queryClient.invalidateQueries({ queryKey: RESOURCE_QUERY_KEYS.resource(copy.resourceId) });
+
+      toast.success(`${ResourceCopyService.getCopyLabel(copy)} eliminado`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al eliminar el ejemplar';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
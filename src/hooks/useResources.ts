@@ -1,6 +1,7 @@
 // src/hooks/useResources.ts - VERSIÓN CORREGIDA
 import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
 import { ResourceService } from '@/services/resource.service';
+import { LoanService } from '@/services/loan.service';
 import type {
   Resource,
   CreateResourceRequest,
@@ -14,6 +15,8 @@ import type {
   ResourceState,
   GoogleBooksVolume,
   CreateResourceFromGoogleBooksRequest,
+  BulkResourceImport,
+  BulkResourceUpdate,
 } from '@/types/resource.types';
 import type { PaginatedResponse } from '@/types/api.types';
 import toast from 'react-hot-toast';
@@ -24,6 +27,7 @@ export const RESOURCE_QUERY_KEYS = {
   resourcesList: (filters: ResourceFilters) => ['resources', 'list', filters] as const,
   resource: (id: string) => ['resources', 'detail', id] as const,
   resourceByISBN: (isbn: string) => ['resources', 'isbn', isbn] as const,
+  resourcesByLocation: (locationId: string) => ['resources', 'location', locationId] as const,
   
   // Entidades auxiliares
   categories: ['resources', 'categories'] as const,
@@ -130,6 +134,22 @@ export function useResource(
   });
 }
 
+/**
+ * Hook para obtener todos los recursos registrados en una ubicación
+ */
+export function useResourcesByLocation(
+  locationId: string,
+  options?: Omit<UseQueryOptions<Resource[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: RESOURCE_QUERY_KEYS.resourcesByLocation(locationId),
+    queryFn: () => ResourceService.getResourcesByLocation(locationId),
+    enabled: !!locationId,
+    staleTime: 60 * 1000,
+    ...options,
+  });
+}
+
 /**
  * Hook para buscar recurso por ISBN
  */
@@ -428,6 +448,100 @@ export function useFindOrCreatePublisher() {
   });
 }
 
+/**
+ * Hook para importar recursos de forma masiva
+ */
+export function useBulkImportResources() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      data,
+      onProgress,
+    }: {
+      data: BulkResourceImport;
+      onProgress?: (processed: number, total: number) => void;
+    }) => ResourceService.bulkImportResources(data, onProgress),
+    onSuccess: (result) => {
+      // Incluye autores y editoriales creados durante la importación
+      queryClient.invalidateQueries({ queryKey: RESOURCE_QUERY_KEYS.resources });
+
+      const { successful, failed } = result.summary;
+      if (failed > 0) {
+        toast.error(`Importación con errores: ${successful} registrados, ${failed} fallidos`);
+      } else {
+        toast.success(`${successful} recurso(s) importado(s) exitosamente`);
+      }
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al importar recursos';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para actualizar varios recursos a la vez (p. ej. correcciones de auditoría)
+ */
+export function useBulkUpdateResources() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      updates,
+      onProgress,
+    }: {
+      updates: BulkResourceUpdate[];
+      onProgress?: (processed: number, total: number) => void;
+    }) => ResourceService.bulkUpdateResources(updates, onProgress),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: RESOURCE_QUERY_KEYS.resources });
+
+      if (result.failed.length > 0) {
+        toast.error(`Actualización con errores: ${result.successful.length} actualizados, ${result.failed.length} fallidos`);
+      } else {
+        toast.success(`${result.successful.length} recurso(s) actualizado(s) exitosamente`);
+      }
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al actualizar recursos';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para registrar la devolución de recursos prestados que aparecieron en el estante
+ */
+export function useReturnFoundResources() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      resourceIds,
+      observations,
+      onProgress,
+    }: {
+      resourceIds: string[];
+      observations: string;
+      onProgress?: (processed: number, total: number) => void;
+    }) => LoanService.returnResourcesFound(resourceIds, observations, onProgress),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: RESOURCE_QUERY_KEYS.resources });
+
+      if (result.failed.length > 0) {
+        toast.error(`Devolución con errores: ${result.successful.length} devueltos, ${result.failed.length} fallidos`);
+      } else {
+        toast.success(`${result.successful.length} préstamo(s) devuelto(s) exitosamente`);
+      }
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al registrar las devoluciones';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
 /**
  * Hook para búsqueda de Google Books
  */
@@ -0,0 +1,58 @@
+// src/hooks/useSystemConfig.ts
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import {
+  SystemConfigService,
+  DEFAULT_SYSTEM_CONFIGURATION,
+} from '@/services/systemConfig.service';
+import type { SystemConfiguration } from '@/types/api.types';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const SYSTEM_CONFIG_QUERY_KEYS = {
+  config: ['system', 'config'] as const,
+} as const;
+
+/**
+ * Hook para obtener la configuración vigente del sistema.
+ * Mientras carga (o si el servidor no la tiene) se usan los valores por defecto
+ */
+export function useSystemConfiguration(
+  options?: Omit<UseQueryOptions<SystemConfiguration>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: SYSTEM_CONFIG_QUERY_KEYS.config,
+    queryFn: () => SystemConfigService.getEffectiveConfiguration(),
+    staleTime: 5 * 60 * 1000, // 5 minutos
+    gcTime: 30 * 60 * 1000,
+    placeholderData: DEFAULT_SYSTEM_CONFIGURATION,
+    ...options,
+  });
+}
+
+/**
+ * Hook con los módulos habilitados en la configuración
+ */
+export function useFeatureFlags(): SystemConfiguration['features'] {
+  const { data } = useSystemConfiguration();
+  return (data || DEFAULT_SYSTEM_CONFIGURATION).features;
+}
+
+/**
+ * Hook para guardar la configuración del sistema
+ */
+export function useUpdateSystemConfiguration() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SystemConfiguration) => SystemConfigService.updateConfiguration(data),
+    onSuccess: (config) => {
+      queryClient.setQueryData(SYSTEM_CONFIG_QUERY_KEYS.config, config);
+
+      toast.success('Configuración guardada exitosamente');
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al guardar la configuración';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
@@ -0,0 +1,176 @@
+// src/hooks/useUsers.ts
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { UserService } from '@/services/user.service';
+import type {
+  CreateUserRequest,
+  UpdateUserRequest,
+  ResetUserPasswordRequest,
+  UserFilters,
+} from '@/services/user.service';
+import type { PaginatedResponse, User } from '@/types/api.types';
+import { DASHBOARD_QUERY_KEYS } from './dashboard';
+import toast from 'react-hot-toast';
+
+// Query keys para React Query
+export const USER_QUERY_KEYS = {
+  users: ['users'] as const,
+  usersList: (filters: UserFilters) => ['users', 'list', filters] as const,
+  user: (id: string) => ['users', 'detail', id] as const,
+} as const;
+
+/**
+ * Hook para obtener lista de usuarios con filtros
+ */
+export function useUsers(
+  filters: UserFilters = {},
+  options?: Omit<UseQueryOptions<PaginatedResponse<User>>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: USER_QUERY_KEYS.usersList(filters),
+    queryFn: () => UserService.getUsers(filters),
+    staleTime: 2 * 60 * 1000, // 2 minutos
+    gcTime: 10 * 60 * 1000, // 10 minutos
+    retry: (failureCount, error: any) => {
+      // No reintentar en errores 4xx
+      if (error?.response?.status >= 400 && error?.response?.status < 500) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook para obtener un usuario por ID
+ */
+export function useUser(
+  id: string,
+  options?: Omit<UseQueryOptions<User>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: USER_QUERY_KEYS.user(id),
+    queryFn: () => UserService.getUserById(id),
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 2,
+    ...options,
+  });
+}
+
+/**
+ * Invalidar listas de usuarios y estadísticas del dashboard
+ */
+function invalidateUserQueries(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: USER_QUERY_KEYS.users });
+  queryClient.invalidateQueries({ queryKey: DASHBOARD_QUERY_KEYS.usersStats });
+}
+
+/**
+ * Hook para crear un usuario
+ */
+export function useCreateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateUserRequest) => UserService.createUser(data),
+    onSuccess: (newUser) => {
+      invalidateUserQueries(queryClient);
+
+      queryClient.setQueryData(USER_QUERY_KEYS.user(newUser._id), newUser);
+
+      toast.success(`Usuario ${newUser.email} creado exitosamente`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al crear usuario';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para actualizar un usuario (correo o rol)
+ */
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateUserRequest }) =>
+      UserService.updateUser(id, data),
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(USER_QUERY_KEYS.user(updatedUser._id), updatedUser);
+      invalidateUserQueries(queryClient);
+
+      toast.success(`Usuario ${updatedUser.email} actualizado exitosamente`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al actualizar usuario';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para reactivar un usuario
+ */
+export function useActivateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => UserService.activateUser(id),
+    onSuccess: (user) => {
+      queryClient.setQueryData(USER_QUERY_KEYS.user(user._id), user);
+      invalidateUserQueries(queryClient);
+
+      toast.success(`Usuario ${user.email} activado`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al activar usuario';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para desactivar un usuario
+ */
+export function useDeactivateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => UserService.deactivateUser(id),
+    onSuccess: (user) => {
+      queryClient.setQueryData(USER_QUERY_KEYS.user(user._id), user);
+      invalidateUserQueries(queryClient);
+
+      toast.success(`Usuario ${user.email} desactivado`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al desactivar usuario';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
+
+/**
+ * Hook para forzar el restablecimiento de contraseña de un usuario
+ */
+export function useResetUserPassword() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ResetUserPasswordRequest }) =>
+      UserService.resetPassword(id, data),
+    onSuccess: (user) => {
+      queryClient.setQueryData(USER_QUERY_KEYS.user(user._id), user);
+      queryClient.invalidateQueries({ queryKey: USER_QUERY_KEYS.users });
+
+      toast.success(`Contraseña de ${user.email} restablecida`);
+    },
+    onError: (error: any) => {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Error al restablecer la contraseña';
+      toast.error(Array.isArray(errorMessage) ? errorMessage.join(', ') : errorMessage);
+    },
+  });
+}
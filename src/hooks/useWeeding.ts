@@ -0,0 +1,23 @@
+// src/hooks/useWeeding.ts
+import { useQuery } from '@tanstack/react-query';
+import { WeedingService } from '@/services/weeding.service';
+import type { WeedingFilters } from '@/types/resource.types';
+
+// Query keys para React Query: bajo 'resources' para que las actualizaciones
+// masivas de recursos (descarte, traslado) refresquen el reporte
+export const WEEDING_QUERY_KEYS = {
+  report: (filters: WeedingFilters) => ['resources', 'weeding', filters] as const,
+} as const;
+
+/**
+ * Hook para obtener el reporte de expurgo con los filtros indicados
+ */
+export function useWeedingReport(filters: WeedingFilters) {
+  return useQuery({
+    queryKey: WEEDING_QUERY_KEYS.report(filters),
+    queryFn: () => WeedingService.getWeedingReport(filters),
+    staleTime: 5 * 60 * 1000, // 5 minutos
+    gcTime: 15 * 60 * 1000,
+    retry: 1,
+  });
+}
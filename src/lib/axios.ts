@@ -47,7 +47,7 @@ axiosInstance.interceptors.request.use(
     
     // Agregar ID a headers para tracking
     config.headers['X-Request-ID'] = requestId.toString();
-    
+
     // Obtener y agregar token JWT si existe
     const token = Cookies.get(API_CONFIG.tokenKey);
     if (token) {
@@ -0,0 +1,120 @@
+// src/services/audit.service.ts
+import axiosInstance from '@/lib/axios';
+import type { ApiResponse, PaginatedResponse } from '@/types/api.types';
+import type { AuditLogEntry, AuditLogFilters, AuditFieldChange } from '@/types/audit.types';
+
+const AUDIT_ENDPOINTS = {
+  AUDIT_LOGS: '/audit-logs',
+  AUDIT_LOG_BY_ID: (id: string) => `/audit-logs/${id}`,
+} as const;
+
+// Campos que cambian en cada escritura y no aportan al diff
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export class AuditService {
+  /**
+   * Obtener registros de auditoría con filtros y paginación
+   */
+  static async getAuditLogs(filters: AuditLogFilters = {}): Promise<PaginatedResponse<AuditLogEntry>> {
+    const params = new URLSearchParams();
+
+    if (filters.actorId) params.append('actorId', filters.actorId);
+    if (filters.entityType) params.append('entityType', filters.entityType);
+    if (filters.entityId) params.append('entityId', filters.entityId);
+    if (filters.action) params.append('action', filters.action);
+    if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
+    if (filters.dateTo) params.append('dateTo', filters.dateTo);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', Math.min(filters.limit, 100).toString());
+
+    const url = params.toString()
+      ? `${AUDIT_ENDPOINTS.AUDIT_LOGS}?${params.toString()}`
+      : AUDIT_ENDPOINTS.AUDIT_LOGS;
+
+    const response = await axiosInstance.get<ApiResponse<PaginatedResponse<AuditLogEntry>>>(url);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener la bitácora de auditoría');
+  }
+
+  /**
+   * Obtener un registro de auditoría con sus estados anterior y posterior
+   */
+  static async getAuditLog(id: string): Promise<AuditLogEntry> {
+    const response = await axiosInstance.get<ApiResponse<AuditLogEntry>>(
+      AUDIT_ENDPOINTS.AUDIT_LOG_BY_ID(id)
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener el registro de auditoría');
+  }
+
+  // ===== UTILIDADES =====
+
+  /**
+   * Campos modificados por la operación. Usa el diff del backend y, si no
+   * viene, lo calcula comparando los estados anterior y posterior
+   */
+  static getChanges(entry: AuditLogEntry): AuditFieldChange[] {
+    if (entry.changes?.length) return entry.changes;
+
+    const before = entry.before || {};
+    const after = entry.after || {};
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+    return fields
+      .filter(field => !IGNORED_FIELDS.includes(field) && !isSameValue(before[field], after[field]))
+      .map(field => ({ field, before: before[field], after: after[field] }));
+  }
+
+  /**
+   * Ruta de la pantalla donde se ve la entidad afectada, si existe
+   */
+  static getEntityHref(entry: AuditLogEntry): string | undefined {
+    const snapshot = entry.after || entry.before || {};
+    const personId = typeof snapshot.personId === 'string' ? snapshot.personId : undefined;
+
+    switch (entry.entityType) {
+      case 'person':
+        return entry.action === 'delete' ? undefined : `/people/${entry.entityId}`;
+      case 'resource':
+        return entry.action === 'delete' ? undefined : `/inventory/${entry.entityId}`;
+      // Préstamos y sanciones no tienen página propia: se ven en la ficha de la persona
+      case 'loan':
+      case 'penalty':
+        return personId ? `/people/${personId}` : undefined;
+      case 'category':
+        return '/admin/categories';
+      case 'location':
+        return '/admin/locations';
+      case 'resource_type':
+        return '/admin/resource-types';
+      case 'resource_state':
+        return '/admin/resource-states';
+      case 'user':
+        return '/admin/users';
+      case 'system_config':
+        return '/admin/settings';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Representación corta de un valor para mostrar en el diff
+   */
+  static formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+}
@@ -0,0 +1,229 @@
+// src/services/catalogSearch.service.ts
+import { TextUtils } from '@/utils';
+import type {
+  Resource,
+  CatalogFacetField,
+  CatalogFacetValue,
+  CatalogFacets,
+  CatalogFacetSelection,
+  CatalogMatchField,
+  CatalogSearchHit,
+  CatalogSearchQuery,
+  CatalogSearchResult,
+} from '@/types/resource.types';
+import { ResourceService } from './resource.service';
+
+// Peso de cada campo en la relevancia
+const FIELD_WEIGHTS: Record<CatalogMatchField, number> = {
+  title: 10,
+  isbn: 8,
+  authors: 6,
+  publisher: 3,
+  notes: 1,
+};
+
+// Fracción del peso según la calidad de la coincidencia de cada término
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.8,
+  fuzzy: 0.6,
+  partial: 0.4,
+} as const;
+
+// Bonos cuando la frase completa aparece en el título
+const PHRASE_IN_TITLE_BONUS = 15;
+const TITLE_STARTS_WITH_BONUS = 5;
+
+const FACET_FIELDS: CatalogFacetField[] = ['category', 'type', 'location', 'state', 'availability'];
+
+const AVAILABILITY_LABELS: Record<string, string> = {
+  available: 'Disponible',
+  borrowed: 'Prestado',
+};
+
+type IndexedResource = {
+  resource: Resource;
+  fields: Record<CatalogMatchField, string[]>;
+  title: string;
+};
+
+export class CatalogSearchService {
+  /**
+   * Obtener el catálogo completo para buscar en el navegador
+   */
+  static async getCatalog(): Promise<Resource[]> {
+    return ResourceService.getAllResources();
+  }
+
+  /**
+   * Buscar en el catálogo: coincidencia sin acentos y tolerante a errores de tipeo
+   * en título, autores, editorial, ISBN y notas, ordenada por relevancia y con facetas
+   */
+  static search(resources: Resource[], query: CatalogSearchQuery): CatalogSearchResult {
+    // Un ISBN con guiones se busca como un único término
+    const compact = query.text.replace(/[-\s]/g, '');
+    const terms = /^\d{9,12}[\dx]$/i.test(compact) ? [compact.toLowerCase()] : this.tokenize(query.text);
+    const phrase = TextUtils.normalizeForSearch(query.text);
+
+    const matches = terms.length === 0
+      ? resources.map(resource => ({ resource, score: 0, matchedFields: [] as CatalogMatchField[] }))
+      : resources
+        .map(resource => this.scoreResource(this.indexResource(resource), terms, phrase))
+        .filter((hit): hit is CatalogSearchHit => hit !== null);
+
+    const hits = matches
+      .filter(hit => this.matchesFacets(hit.resource, query.facets))
+      .sort((a, b) => b.score - a.score || a.resource.title.localeCompare(b.resource.title, 'es'));
+
+    return {
+      hits,
+      facets: this.buildFacets(matches.map(hit => hit.resource), query.facets),
+      total: hits.length,
+    };
+  }
+
+  // ===== RELEVANCIA =====
+
+  private static tokenize(text: string): string[] {
+    return TextUtils.normalizeForSearch(text)
+      .split(/[^a-z0-9ñ]+/)
+      .filter(Boolean);
+  }
+
+  private static indexResource(resource: Resource): IndexedResource {
+    return {
+      resource,
+      title: TextUtils.normalizeForSearch(resource.title),
+      fields: {
+        title: this.tokenize(resource.title),
+        authors: this.tokenize((resource.authors || []).map(author => author.name).join(' ')),
+        publisher: this.tokenize(resource.publisher?.name || ''),
+        isbn: resource.isbn ? [resource.isbn.replace(/[-\s]/g, '').toLowerCase()] : [],
+        notes: this.tokenize(resource.notes || ''),
+      },
+    };
+  }
+
+  /**
+   * Todos los términos deben aparecer en algún campo; cada término suma
+   * la mejor coincidencia que encuentre ponderada por el peso del campo
+   */
+  private static scoreResource(
+    indexed: IndexedResource,
+    terms: string[],
+    phrase: string
+  ): CatalogSearchHit | null {
+    let score = 0;
+    const matchedFields = new Set<CatalogMatchField>();
+
+    for (const term of terms) {
+      let best = 0;
+      let bestField: CatalogMatchField | null = null;
+
+      for (const field of Object.keys(FIELD_WEIGHTS) as CatalogMatchField[]) {
+        const value = this.matchQuality(term, indexed.fields[field]) * FIELD_WEIGHTS[field];
+        if (value > best) {
+          best = value;
+          bestField = field;
+        }
+      }
+
+      if (!bestField) return null;
+      score += best;
+      matchedFields.add(bestField);
+    }
+
+    if (terms.length > 1 && indexed.title.includes(phrase)) score += PHRASE_IN_TITLE_BONUS;
+    if (indexed.title.startsWith(phrase)) score += TITLE_STARTS_WITH_BONUS;
+
+    return { resource: indexed.resource, score, matchedFields: Array.from(matchedFields) };
+  }
+
+  private static matchQuality(term: string, tokens: string[]): number {
+    let best = 0;
+
+    for (const token of tokens) {
+      if (token === term) return MATCH_QUALITY.exact;
+      if (token.startsWith(term) && term.length >= 2) {
+        best = Math.max(best, MATCH_QUALITY.prefix);
+      } else if (this.isTypo(term, token)) {
+        best = Math.max(best, MATCH_QUALITY.fuzzy);
+      } else if (term.length >= 3 && token.includes(term)) {
+        best = Math.max(best, MATCH_QUALITY.partial);
+      }
+    }
+
+    return best;
+  }
+
+  // Se toleran 1 error en palabras de 4+ letras y 2 en palabras de 8+
+  private static isTypo(term: string, token: string): boolean {
+    if (term.length < 4) return false;
+    const tolerance = term.length >= 8 ? 2 : 1;
+    if (Math.abs(term.length - token.length) > tolerance) return false;
+    return TextUtils.editDistance(term, token) <= tolerance;
+  }
+
+  // ===== FACETAS =====
+
+  static getFacetValue(resource: Resource, field: CatalogFacetField): CatalogFacetValue | null {
+    switch (field) {
+      case 'category':
+        return this.facetValue(resource.category?._id || resource.categoryId, resource.category?.name);
+      case 'type':
+        return this.facetValue(resource.type?._id || resource.typeId, resource.type?.description);
+      case 'location':
+        return this.facetValue(resource.location?._id || resource.locationId, resource.location?.name);
+      case 'state':
+        return this.facetValue(resource.state?._id || resource.stateId, resource.state?.description);
+      case 'availability': {
+        const value = resource.available ? 'available' : 'borrowed';
+        return this.facetValue(value, AVAILABILITY_LABELS[value]);
+      }
+    }
+  }
+
+  private static facetValue(value?: string, label?: string): CatalogFacetValue | null {
+    return value ? { value, label: label || value, count: 0 } : null;
+  }
+
+  private static matchesFacets(
+    resource: Resource,
+    selection: CatalogFacetSelection,
+    ignoreField?: CatalogFacetField
+  ): boolean {
+    return FACET_FIELDS.every(field => {
+      const selected = selection[field];
+      if (field === ignoreField || !selected || selected.length === 0) return true;
+      const value = this.getFacetValue(resource, field)?.value;
+      return !!value && selected.includes(value);
+    });
+  }
+
+  /**
+   * Los conteos de cada campo aplican las selecciones de los demás campos,
+   * así se ve cuántos resultados daría sumar otro valor del mismo campo
+   */
+  private static buildFacets(resources: Resource[], selection: CatalogFacetSelection): CatalogFacets {
+    const facets = {} as CatalogFacets;
+
+    FACET_FIELDS.forEach(field => {
+      const counts = new Map<string, CatalogFacetValue>();
+
+      resources
+        .filter(resource => this.matchesFacets(resource, selection, field))
+        .forEach(resource => {
+          const facet = this.getFacetValue(resource, field);
+          if (!facet) return;
+          const current = counts.get(facet.value) || facet;
+          counts.set(facet.value, { ...current, count: current.count + 1 });
+        });
+
+      facets[field] = Array.from(counts.values()).sort(
+        (a, b) => b.count - a.count || a.label.localeCompare(b.label, 'es')
+      );
+    });
+
+    return facets;
+  }
+}
@@ -0,0 +1,229 @@
+// src/services/hold.service.ts
+import axiosInstance from '@/lib/axios';
+import { SystemConfigService } from './systemConfig.service';
+import type { ApiResponse, PaginatedResponse } from '@/types/api.types';
+import type {
+  Hold,
+  HoldWithDetails,
+  CreateHoldRequest,
+  CancelHoldRequest,
+  HoldFilters,
+} from '@/types/hold.types';
+
+const HOLD_ENDPOINTS = {
+  HOLDS: '/holds',
+  RESOURCE_HOLDS: (resourceId: string) => `/holds/resource/${resourceId}`,
+  PERSON_HOLDS: (personId: string) => `/holds/person/${personId}`,
+  READY: (id: string) => `/holds/${id}/ready`,
+  FULFILL: (id: string) => `/holds/${id}/fulfill`,
+  EXPIRE: (id: string) => `/holds/${id}/expire`,
+  CANCEL: (id: string) => `/holds/${id}/cancel`,
+} as const;
+
+export class HoldService {
+  /**
+   * Obtener reservas con filtros y paginación
+   */
+  static async getHolds(filters: HoldFilters = {}): Promise<PaginatedResponse<HoldWithDetails>> {
+    const params = new URLSearchParams();
+
+    if (filters.personId) params.append('personId', filters.personId);
+    if (filters.resourceId) params.append('resourceId', filters.resourceId);
+    if (filters.status) params.append('status', filters.status);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', Math.min(filters.limit, 100).toString());
+
+    const url = params.toString()
+      ? `${HOLD_ENDPOINTS.HOLDS}?${params.toString()}`
+      : HOLD_ENDPOINTS.HOLDS;
+
+    const response = await axiosInstance.get<ApiResponse<PaginatedResponse<HoldWithDetails>>>(url);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener reservas');
+  }
+
+  /**
+   * Obtener la cola de reservas vigentes de un recurso, en orden de llegada.
+   * Solo lee: las reservas listas con el plazo vencido se pasan al siguiente
+   * de forma explícita desde la cola (useReleaseHold)
+   */
+  static async getResourceQueue(resourceId: string): Promise<HoldWithDetails[]> {
+    const response = await axiosInstance.get<ApiResponse<HoldWithDetails[]>>(
+      HOLD_ENDPOINTS.RESOURCE_HOLDS(resourceId)
+    );
+
+    if (response.data.success && response.data.data) {
+      return this.sortQueue(response.data.data.filter(hold => this.isPending(hold)));
+    }
+
+    throw new Error(response.data.message || 'Error al obtener la cola de reservas');
+  }
+
+  /**
+   * Obtener las reservas de una persona
+   */
+  static async getPersonHolds(personId: string): Promise<HoldWithDetails[]> {
+    const response = await axiosInstance.get<ApiResponse<HoldWithDetails[]>>(
+      HOLD_ENDPOINTS.PERSON_HOLDS(personId)
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener reservas de la persona');
+  }
+
+  /**
+   * Poner a una persona en la cola de un recurso
+   */
+  static async createHold(data: CreateHoldRequest): Promise<Hold> {
+    const response = await axiosInstance.post<ApiResponse<Hold>>(
+      HOLD_ENDPOINTS.HOLDS,
+      {
+        ...data,
+        notes: data.notes?.trim() || undefined,
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al crear la reserva');
+  }
+
+  /**
+   * Marcar una reserva como lista para retirar hasta la fecha indicada
+   */
+  static async markReady(id: string, expiresAt: Date): Promise<HoldWithDetails> {
+    const response = await axiosInstance.put<ApiResponse<HoldWithDetails>>(
+      HOLD_ENDPOINTS.READY(id),
+      { expiresAt: expiresAt.toISOString() }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al apartar el recurso');
+  }
+
+  /**
+   * Cerrar una reserva indicando el préstamo en que se convirtió
+   */
+  static async fulfillHold(id: string, loanId: string): Promise<Hold> {
+    const response = await axiosInstance.put<ApiResponse<Hold>>(
+      HOLD_ENDPOINTS.FULFILL(id),
+      { loanId }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al completar la reserva');
+  }
+
+  /**
+   * Marcar como vencida una reserva que no se retiró a tiempo
+   */
+  static async expireHold(id: string): Promise<Hold> {
+    const response = await axiosInstance.put<ApiResponse<Hold>>(HOLD_ENDPOINTS.EXPIRE(id));
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al vencer la reserva');
+  }
+
+  /**
+   * Cancelar una reserva
+   */
+  static async cancelHold(id: string, data: CancelHoldRequest = {}): Promise<Hold> {
+    const response = await axiosInstance.put<ApiResponse<Hold>>(
+      HOLD_ENDPOINTS.CANCEL(id),
+      { reason: data.reason?.trim() || undefined }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al cancelar la reserva');
+  }
+
+  // ===== COLA =====
+
+  /**
+   * Apartar las unidades liberadas para las siguientes personas en espera.
+   * Antes vence las reservas listas cuyo plazo de retiro ya pasó.
+   * Devuelve las reservas que quedaron listas para retirar
+   */
+  static async promoteNextHolds(resourceId: string, units = 1): Promise<HoldWithDetails[]> {
+    const queue = await this.getResourceQueue(resourceId);
+
+    const expired = queue.filter(hold => this.isExpired(hold));
+    for (const hold of expired) {
+      await this.expireHold(hold._id);
+    }
+
+    // Cada reserva vencida también liberó una unidad
+    const toPromote = queue.filter(hold => hold.status === 'waiting').slice(0, units + expired.length);
+    return this.markReadyAll(toPromote);
+  }
+
+  private static async markReadyAll(holds: HoldWithDetails[]): Promise<HoldWithDetails[]> {
+    if (holds.length === 0) return [];
+
+    const config = await SystemConfigService.getEffectiveConfiguration();
+    const deadline = this.getPickupDeadline(config.library.holdPickupDays);
+
+    const promoted: HoldWithDetails[] = [];
+    for (const hold of holds) {
+      promoted.push(await this.markReady(hold._id, deadline));
+    }
+    return promoted;
+  }
+
+  // ===== UTILIDADES =====
+
+  /**
+   * Ordenar la cola: primero las reservas listas y luego las que esperan, por orden de llegada
+   */
+  static sortQueue<T extends Hold>(holds: T[]): T[] {
+    return [...holds].sort((a, b) => {
+      if (a.status !== b.status) return a.status === 'ready' ? -1 : 1;
+      return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    });
+  }
+
+  /**
+   * Una reserva sigue vigente mientras espera o está lista para retirar
+   */
+  static isPending(hold: Hold): boolean {
+    return hold.status === 'waiting' || hold.status === 'ready';
+  }
+
+  /**
+   * Una reserva lista vence cuando pasa su plazo de retiro
+   */
+  static isExpired(hold: Hold): boolean {
+    return hold.status === 'ready' && !!hold.expiresAt && new Date(hold.expiresAt) < new Date();
+  }
+
+  /**
+   * Fecha límite de retiro para una reserva que se aparta hoy
+   */
+  static getPickupDeadline(pickupDays: number, from: Date = new Date()): Date {
+    const deadline = new Date(from);
+    deadline.setDate(deadline.getDate() + pickupDays);
+    deadline.setHours(23, 59, 59, 999);
+    return deadline;
+  }
+}
@@ -3,4 +3,18 @@
 export * from './auth.service';
 export * from './person.service';
 export * from './resource.service';
-export * from './loan.service';
\ No newline at end of file
+export * from './loan.service';
+export * from './report.service';
+export * from './request.service';
+export * from './penalty.service';
+export * from './hold.service';
+export * from './systemConfig.service';
+export * from './resourceCondition.service';
+export * from './resourceCopy.service';
+export * from './catalogSearch.service';
+export * from './publicCatalog.service';
+export * from './portal.service';
+export * from './renewalRequest.service';
+export * from './overdueNotice.service';
+export * from './weeding.service';
+export * from './audit.service';
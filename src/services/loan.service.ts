@@ -17,13 +17,30 @@ import type {
   ResourceAvailabilityResult,
   LoanValidationResult,
   ReturnLoanResponse,
+  BulkReturnResult,
   RenewLoanResponse,
+  LoanRenewal,
+  RenewalEligibility,
+  BulkRenewResult,
   LoanStats,
   OverdueStats,
   StockStats,
+  PersonCirculationProfile,
+  ResourceCirculationStats,
   ApiResponse,
   PaginatedResponse
 } from '@/types/loan.types';
+import { LOAN_LIMITS } from '@/types/loan.types';
+import { PenaltyService } from './penalty.service';
+import { PersonService } from './person.service';
+import { HoldService } from './hold.service';
+import { SystemConfigService } from './systemConfig.service';
+import { ResourceService } from './resource.service';
+import { ResourceConditionService } from './resourceCondition.service';
+import { ResourceCopyService } from './resourceCopy.service';
+import type { UpdateResourceCopyRequest } from '@/types/resource.types';
+import type { PersonTypeLoanRules, SystemConfiguration } from '@/types/api.types';
+import type { HoldWithDetails } from '@/types/hold.types';
 
 // ===== ENDPOINTS CORREGIDOS =====
 const LOAN_ENDPOINTS = {
@@ -42,6 +59,7 @@ const LOAN_ENDPOINTS = {
   RETURNS: '/returns',
   MARK_AS_LOST: (loanId: string) => `/returns/${loanId}/mark-lost`,
   RENEW_LOAN: (loanId: string) => `/returns/${loanId}/renew`,
+  RENEWAL_HISTORY: (loanId: string) => `/returns/${loanId}/renewals`,
   RETURN_HISTORY: '/returns/history',
   PENDING_RETURNS: '/returns/pending',
   
@@ -56,6 +74,10 @@ const LOAN_ENDPOINTS = {
   STOCK_STATISTICS: '/loans/stock-stats'
 } as const;
 
+// Tope de páginas (de 100 préstamos) al recorrer el historial de una persona o recurso.
+// Si se alcanza, las estadísticas lo indican con truncated
+const HISTORY_MAX_PAGES = 10;
+
 // ===== HELPER PARA MANEJAR RESPUESTAS API =====
 const handleApiResponse = <T>(response: ApiResponse<T>): T => {
   if (response.success && response.data !== undefined) {
@@ -77,17 +99,30 @@ export class LoanService {
   // ===== OPERACIONES DE PRÉSTAMOS =====
   
   /**
-   * Crear un nuevo préstamo
+   * Crear un nuevo préstamo. Formulario, escáner y reservas pasan por aquí, así que
+   * aquí se aplican las reglas configuradas y se calcula la fecha de devolución
    */
   static async createLoan(data: CreateLoanRequest): Promise<LoanWithDetails> {
     try {
       console.log('🔄 LoanService: Creando préstamo:', data);
 
+      // Un préstamo de una unidad sale de un ejemplar concreto: el elegido o el primero disponible
+      const quantity = data.copyId ? 1 : data.quantity || 1;
+      const [rules] = await Promise.all([
+        LoanService.checkLoanRules(data.personId, quantity),
+        LoanService.checkReadyHolds(data.personId, data.resourceId, quantity),
+      ]);
+      const copyId = data.copyId || (quantity === 1
+        ? await LoanService.pickCopySafely(data.resourceId)
+        : undefined);
+
       // ✅ CORRECCIÓN: Asegurar que quantity esté presente
       const requestData = {
         personId: data.personId,
         resourceId: data.resourceId,
-        quantity: data.quantity || 1, // Default a 1 si no se proporciona
+        copyId,
+        quantity, // Default a 1 si no se proporciona
+        dueDate: formatDateForApi(data.dueDate || SystemConfigService.calculateDueDate(rules)),
         observations: data.observations?.trim() || undefined
       };
 
@@ -98,6 +133,8 @@ export class LoanService {
       
       const loan = handleApiResponse(response.data);
       console.log('✅ LoanService: Préstamo creado exitosamente:', loan._id);
+
+      await LoanService.updateCopySafely({ ...loan, copyId: loan.copyId || copyId }, { available: false });
       return loan;
     } catch (error: any) {
       console.error('❌ LoanService: Error al crear préstamo:', error);
@@ -259,6 +296,11 @@ export class LoanService {
     try {
       console.log('📝 LoanService: Procesando devolución:', data);
 
+      // Estado del recurso o ejemplar antes de la devolución, para el historial de estado
+      const previousStateId = data.resourceCondition
+        ? await LoanService.getPreviousStateIdSafely(data.loanId)
+        : undefined;
+
       // ✅ CORRECCIÓN: Usar estructura correcta y formatear fecha
       const requestData = {
         loanId: data.loanId,
@@ -274,6 +316,38 @@ export class LoanService {
       
       const result = handleApiResponse(response.data);
       console.log('✅ LoanService: Devolución procesada exitosamente');
+
+      // Sanción automática por devolución tardía (si el backend no la generó)
+      if (result.wasOverdue && result.penalty === undefined) {
+        result.penalty = await LoanService.applyPenaltySafely(
+          result.loan,
+          'overdue',
+          result.daysOverdue || 0
+        );
+        if (result.penalty?.type === 'fine' && !result.fineAmount) {
+          result.fineAmount = result.penalty.amount;
+        }
+      }
+
+      // Registrar en el historial el estado en que volvió el recurso
+      const returnedStateId = data.resourceCondition
+        ? await LoanService.recordConditionSafely(
+          result.loan,
+          data.resourceCondition.trim(),
+          previousStateId,
+          data.returnObservations
+        )
+        : undefined;
+
+      // El ejemplar vuelve al estante con el estado en que se devolvió
+      await LoanService.updateCopySafely(result.loan, {
+        available: data.resourceCondition?.trim() !== 'lost',
+        stateId: returnedStateId,
+      });
+
+      // Apartar las unidades devueltas para la cola de reservas del recurso
+      result.readyHolds = await LoanService.promoteHoldsSafely(result.loan);
+
       return result;
     } catch (error: any) {
       console.error('❌ LoanService: Error al procesar devolución:', error);
@@ -281,6 +355,52 @@ export class LoanService {
     }
   }
 
+  /**
+   * Registrar la devolución de recursos que figuran prestados pero aparecieron
+   * en el estante. Si un recurso tiene varios préstamos abiertos no se puede
+   * saber cuál volvió, así que se deja para registrarlo desde Devoluciones
+   */
+  static async returnResourcesFound(
+    resourceIds: string[],
+    observations: string,
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<BulkReturnResult> {
+    const result: BulkReturnResult = { successful: [], failed: [] };
+
+    console.log('📝 LoanService: Devolución de recursos encontrados:', resourceIds.length);
+
+    for (let index = 0; index < resourceIds.length; index++) {
+      const resourceId = resourceIds[index];
+
+      try {
+        const openLoans = await LoanService.getOpenResourceLoans(resourceId);
+        if (openLoans.length === 0) {
+          throw new Error('El recurso no tiene préstamos abiertos');
+        }
+        if (openLoans.length > 1) {
+          throw new Error(`El recurso tiene ${openLoans.length} préstamos abiertos: registra la devolución desde Devoluciones`);
+        }
+
+        await LoanService.returnLoan({ loanId: openLoans[0]._id, returnObservations: observations });
+        result.successful.push(resourceId);
+      } catch (error: any) {
+        const message = error?.response?.data?.message || error?.message || 'Error al procesar devolución';
+        result.failed.push({
+          resourceId,
+          error: Array.isArray(message) ? message.join(', ') : message,
+        });
+      } finally {
+        onProgress?.(index + 1, resourceIds.length);
+      }
+    }
+
+    console.log('✅ LoanService: Devolución de recursos encontrados completada:', {
+      successful: result.successful.length,
+      failed: result.failed.length,
+    });
+    return result;
+  }
+
   /**
    * Marcar préstamo como perdido
    */
@@ -288,6 +408,8 @@ export class LoanService {
     try {
       console.log('📝 LoanService: Marcando como perdido:', loanId);
 
+      const previousStateId = await LoanService.getPreviousStateIdSafely(loanId);
+
       const response = await axiosInstance.put<ApiResponse<LoanWithDetails>>(
         LOAN_ENDPOINTS.MARK_AS_LOST(loanId),
         {
@@ -297,6 +419,12 @@ export class LoanService {
       
       const result = handleApiResponse(response.data);
       console.log('✅ LoanService: Marcado como perdido exitosamente');
+
+      // Sanción automática por recurso perdido
+      await LoanService.applyPenaltySafely(result, 'lost');
+      const lostStateId = await LoanService.recordConditionSafely(result, 'lost', previousStateId, data.observations);
+      await LoanService.updateCopySafely(result, { available: false, stateId: lostStateId });
+
       return result;
     } catch (error: any) {
       console.error('❌ LoanService: Error al marcar como perdido:', error);
@@ -305,30 +433,104 @@ export class LoanService {
   }
 
   /**
-   * Renovar préstamo
+   * Renovar préstamo, validando antes la política de renovaciones
    */
   static async renewLoan(loanId: string, newDueDate?: string): Promise<RenewLoanResponse> {
     try {
       console.log('🔄 LoanService: Renovando préstamo:', loanId);
 
-      const requestData = newDueDate ? {
-        newDueDate: formatDateForApi(newDueDate)
-      } : {};
+      const config = await SystemConfigService.getEffectiveConfiguration();
+      const loan = await LoanService.getLoanById(loanId);
 
-      const response = await axiosInstance.put<ApiResponse<RenewLoanResponse>>(
-        LOAN_ENDPOINTS.RENEW_LOAN(loanId),
-        requestData
-      );
-      
-      const result = handleApiResponse(response.data);
-      console.log('✅ LoanService: Préstamo renovado exitosamente');
-      return result;
+      const eligibility = await LoanService.checkRenewalEligibility(loan, config);
+      if (!eligibility.canRenew) {
+        throw new Error(eligibility.reasons.map(reason => reason.message).join('. '));
+      }
+
+      return await LoanService.submitRenewal(loan, config, newDueDate);
     } catch (error: any) {
       console.error('❌ LoanService: Error al renovar préstamo:', error);
       throw error;
     }
   }
 
+  /**
+   * Verificar si un préstamo puede renovarse: renovaciones habilitadas,
+   * sin superar el máximo del tipo de persona, sin reservas pendientes
+   * del recurso y sin préstamos vencidos de la persona
+   */
+  static async checkRenewalEligibility(
+    loan: LoanWithDetails,
+    config?: SystemConfiguration
+  ): Promise<RenewalEligibility> {
+    const currentConfig = config || await SystemConfigService.getEffectiveConfiguration();
+    const [personLoans, queue] = await Promise.all([
+      LoanService.getOpenPersonLoans(loan.person?._id || loan.personId),
+      HoldService.getResourceQueue(loan.resource?._id || loan.resourceId),
+    ]);
+
+    return LoanService.evaluateRenewal(loan, currentConfig, personLoans, queue);
+  }
+
+  /**
+   * Renovar todos los préstamos activos elegibles de una persona
+   * (por ejemplo, un docente que conserva material de aula durante el período)
+   */
+  static async renewEligibleLoans(personId: string): Promise<BulkRenewResult> {
+    console.log('🔄 LoanService: Renovando préstamos elegibles de persona:', personId);
+
+    const config = await SystemConfigService.getEffectiveConfiguration();
+    const personLoans = await LoanService.getOpenPersonLoans(personId);
+    const queues = new Map<string, HoldWithDetails[]>();
+    const result: BulkRenewResult = { renewed: [], skipped: [], failed: [] };
+
+    for (const loan of personLoans) {
+      const resourceId = loan.resource?._id || loan.resourceId;
+
+      try {
+        if (!queues.has(resourceId)) {
+          queues.set(resourceId, await HoldService.getResourceQueue(resourceId));
+        }
+
+        const eligibility = LoanService.evaluateRenewal(loan, config, personLoans, queues.get(resourceId)!);
+        if (!eligibility.canRenew) {
+          result.skipped.push({ loan, eligibility });
+          continue;
+        }
+
+        result.renewed.push(await LoanService.submitRenewal(loan, config));
+      } catch (error: any) {
+        result.failed.push({ loan, error: error.message || 'Error al renovar el préstamo' });
+      }
+    }
+
+    console.log('✅ LoanService: Renovación masiva completada:', {
+      renewed: result.renewed.length,
+      skipped: result.skipped.length,
+      failed: result.failed.length
+    });
+    return result;
+  }
+
+  /**
+   * Obtener el historial de renovaciones de un préstamo, de la más antigua a la más reciente
+   */
+  static async getRenewalHistory(loanId: string): Promise<LoanRenewal[]> {
+    try {
+      const response = await axiosInstance.get<ApiResponse<LoanRenewal[]>>(
+        LOAN_ENDPOINTS.RENEWAL_HISTORY(loanId)
+      );
+
+      const renewals = handleApiResponse(response.data);
+      return [...renewals].sort(
+        (a, b) => new Date(a.renewedAt).getTime() - new Date(b.renewedAt).getTime()
+      );
+    } catch (error: any) {
+      console.error('❌ LoanService: Error al obtener historial de renovaciones:', error);
+      throw error;
+    }
+  }
+
   // ===== GESTIÓN DE PRÉSTAMOS VENCIDOS =====
 
   /**
@@ -514,18 +716,454 @@ export class LoanService {
     }
   }
 
+  /**
+   * Perfil de circulación de una persona: totales por estado y categorías
+   * más prestadas, calculados sobre todo su historial
+   */
+  static async getPersonCirculationProfile(personId: string): Promise<PersonCirculationProfile> {
+    console.log('👤 LoanService: Calculando perfil de circulación:', personId);
+
+    const { loans, total, truncated } = await LoanService.collectHistory(page =>
+      LoanService.getPersonLoans(personId, { page, limit: 100 })
+    );
+
+    const categories = new Map<string, number>();
+    loans.forEach(loan => {
+      if (loan.resource?.category) {
+        categories.set(loan.resource.category, (categories.get(loan.resource.category) || 0) + 1);
+      }
+    });
+
+    const isReturned = (loan: LoanWithDetails) => !!loan.returnedDate || loan.status?.name === 'returned';
+    const isLost = (loan: LoanWithDetails) => loan.status?.name === 'lost';
+    const openLoans = loans.filter(loan => !isReturned(loan) && !isLost(loan));
+
+    return {
+      totalLoans: total,
+      activeLoans: openLoans.length,
+      overdueLoans: openLoans.filter(loan => loan.isOverdue || LoanService.isLoanOverdue(loan)).length,
+      returnedLoans: loans.filter(isReturned).length,
+      lostLoans: loans.filter(isLost).length,
+      returnedLateCount: loans.filter(loan =>
+        !!loan.returnedDate && new Date(loan.returnedDate) > new Date(loan.dueDate)
+      ).length,
+      favoriteCategories: Array.from(categories.entries())
+        .map(([category, count]) => ({ category, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5),
+      lastLoanDate: loans
+        .map(loan => new Date(loan.loanDate))
+        .sort((a, b) => b.getTime() - a.getTime())[0],
+      loansScanned: loans.length,
+      truncated
+    };
+  }
+
+  /**
+   * Analítica de circulación de un recurso: uso mensual, duración promedio,
+   * tasa de vencimiento y nivel de demanda para decidir compras o descartes
+   */
+  static async getResourceCirculationStats(
+    resourceId: string,
+    totalUnits: number = 1
+  ): Promise<ResourceCirculationStats> {
+    console.log('📚 LoanService: Calculando circulación de recurso:', resourceId);
+
+    const [{ loans, total, truncated }, queue] = await Promise.all([
+      LoanService.collectHistory(page => LoanService.getResourceLoans(resourceId, { page, limit: 100 })),
+      HoldService.getResourceQueue(resourceId).catch(() => [] as HoldWithDetails[]),
+    ]);
+
+    const msPerDay = 1000 * 60 * 60 * 24;
+    const openLoans = loans.filter(loan =>
+      !loan.returnedDate && loan.status?.name !== 'returned' && loan.status?.name !== 'lost'
+    );
+    const returnedLoans = loans.filter(loan => !!loan.returnedDate);
+    const lateLoans = loans.filter(loan =>
+      loan.returnedDate
+        ? new Date(loan.returnedDate) > new Date(loan.dueDate)
+        : loan.isOverdue || LoanService.isLoanOverdue(loan)
+    );
+    const totalDays = returnedLoans.reduce(
+      (total, loan) => total + (new Date(loan.returnedDate!).getTime() - new Date(loan.loanDate).getTime()) / msPerDay,
+      0
+    );
+
+    // Préstamos por mes en los últimos 12 meses
+    const now = new Date();
+    const loansByMonth = Array.from({ length: 12 }, (_, index) => {
+      const date = new Date(now.getFullYear(), now.getMonth() - 11 + index, 1);
+      return { month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`, count: 0 };
+    });
+    const monthIndex = new Map(loansByMonth.map((item, index) => [item.month, index]));
+    loans.forEach(loan => {
+      const date = new Date(loan.loanDate);
+      const index = monthIndex.get(`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`);
+      if (index !== undefined) loansByMonth[index].count++;
+    });
+
+    const lastBorrowedAt = loans
+      .map(loan => new Date(loan.loanDate))
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+    const pendingHolds = queue.length;
+    const borrowedLastYear = loansByMonth.some(item => item.count > 0);
+
+    return {
+      totalLoans: total,
+      activeLoans: openLoans.length,
+      overdueLoans: openLoans.filter(loan => loan.isOverdue || LoanService.isLoanOverdue(loan)).length,
+      pendingHolds,
+      averageLoanDays: returnedLoans.length > 0 ? Math.round(totalDays / returnedLoans.length) : 0,
+      overdueRate: loans.length > 0 ? lateLoans.length / loans.length : 0,
+      lastBorrowedAt,
+      loansByMonth,
+      demandLevel: pendingHolds > 0 || openLoans.length >= Math.max(totalUnits, 1)
+        ? 'high'
+        : borrowedLastYear ? 'normal' : 'dead_stock',
+      loansScanned: loans.length,
+      truncated
+    };
+  }
+
   // ===== UTILIDADES =====
 
+  /**
+   * Verificar que la persona pueda llevarse la cantidad pedida: sin sanciones
+   * activas y dentro de los límites de su tipo. Devuelve las reglas aplicadas
+   */
+  private static async checkLoanRules(personId: string, quantity: number): Promise<PersonTypeLoanRules> {
+    const [config, person, penalties, eligibility] = await Promise.all([
+      SystemConfigService.getEffectiveConfiguration(),
+      PersonService.getPersonById(personId),
+      PenaltyService.getBlockingPenalties(personId),
+      LoanService.canPersonBorrow(personId),
+    ]);
+
+    if (penalties.length > 0 || eligibility.restrictions?.hasActivePenalties) {
+      throw new Error(`${person.fullName} tiene sanciones activas y no puede tomar préstamos`);
+    }
+
+    const rules = SystemConfigService.getLoanRules(config, person.personType?.name);
+    const activeLoans = eligibility.activeLoansCount ?? 0;
+
+    if (activeLoans >= rules.maxLoans) {
+      throw new Error(`${person.fullName} ya tiene ${activeLoans} préstamos activos (máximo ${rules.maxLoans})`);
+    }
+
+    if (quantity > rules.maxQuantityPerLoan) {
+      throw new Error(`La cantidad máxima por préstamo es ${rules.maxQuantityPerLoan}`);
+    }
+
+    return rules;
+  }
+
+  /**
+   * Las unidades apartadas para reservas listas de otras personas no se pueden prestar.
+   * Las reservas con el plazo de retiro vencido no apartan nada
+   */
+  private static async checkReadyHolds(personId: string, resourceId: string, quantity: number): Promise<void> {
+    const [queue, availability] = await Promise.all([
+      HoldService.getResourceQueue(resourceId),
+      LoanService.checkResourceAvailability(resourceId),
+    ]);
+
+    const heldForOthers = queue.filter(hold =>
+      hold.status === 'ready' && !HoldService.isExpired(hold) && hold.personId !== personId
+    );
+
+    if (heldForOthers.length > 0 && availability.availableQuantity - heldForOthers.length < quantity) {
+      const holder = heldForOthers[0].person?.fullName || 'otra persona';
+      throw new Error(`El recurso está apartado para ${holder} por una reserva lista para retirar`);
+    }
+  }
+
+  /**
+   * Generar la sanción automática sin hacer fallar la devolución:
+   * el préstamo ya quedó registrado aunque la sanción no se pueda crear
+   */
+  private static async applyPenaltySafely(
+    loan: LoanWithDetails,
+    reason: 'overdue' | 'lost',
+    daysOverdue?: number
+  ) {
+    try {
+      const penalty = await PenaltyService.applyAutomaticPenalty(loan, reason, daysOverdue);
+      if (penalty) {
+        console.log('⚖️ LoanService: Sanción generada:', penalty._id);
+      }
+      return penalty;
+    } catch (error: any) {
+      console.error('❌ LoanService: No se pudo generar la sanción automática:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Pasar a "listo para retirar" a los siguientes de la cola del recurso devuelto.
+   * Un error en las reservas no debe hacer fallar la devolución
+   */
+  private static async promoteHoldsSafely(loan: LoanWithDetails) {
+    const resourceId = loan.resource?._id || loan.resourceId;
+    if (!resourceId) return [];
+
+    try {
+      const readyHolds = await HoldService.promoteNextHolds(resourceId, loan.quantity || 1);
+      if (readyHolds.length > 0) {
+        console.log('📌 LoanService: Reservas listas para retirar:', readyHolds.map(hold => hold._id));
+      }
+      return readyHolds;
+    } catch (error: any) {
+      console.error('❌ LoanService: No se pudo actualizar la cola de reservas:', error);
+      return [];
+    }
+  }
+
+  private static async getPreviousStateIdSafely(loanId: string): Promise<string | undefined> {
+    try {
+      const loan = await LoanService.getLoanById(loanId);
+      const copyId = LoanService.getCopyId(loan);
+      const resourceId = loan.resource?._id || loan.resourceId;
+
+      if (copyId && resourceId) {
+        const copies = await ResourceCopyService.getCopies(resourceId);
+        return copies.find(copy => copy._id === copyId)?.stateId;
+      }
+      if (loan.resource?.state?._id || !resourceId) {
+        return loan.resource?.state?._id;
+      }
+
+      // Sin el estado actual no se puede saber si la devolución lo empeora
+      const resource = await ResourceService.getResourceById(resourceId);
+      return resource.stateId;
+    } catch (error: any) {
+      console.error('❌ LoanService: No se pudo obtener el estado previo del recurso:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Registrar en el historial el estado con que se devolvió el recurso; el estado
+   * guardado solo cambia si la devolución lo empeora.
+   * Si el préstamo salió de un ejemplar, el estado se aplica al ejemplar (ver updateCopySafely)
+   * y no al recurso. Un error aquí no debe hacer fallar la devolución
+   */
+  private static async recordConditionSafely(
+    loan: LoanWithDetails,
+    conditionName: string,
+    previousStateId?: string,
+    observations?: string
+  ): Promise<string | undefined> {
+    const resourceId = loan.resource?._id || loan.resourceId;
+    if (!resourceId) return undefined;
+
+    try {
+      const states = await ResourceService.getResourceStates();
+      const reportedState = states.find(state => state.name === conditionName);
+      if (!reportedState) return undefined;
+
+      // Una devolución "en buen estado" no borra un deterioro ya registrado
+      const previousState = states.find(state => state._id === previousStateId);
+      const newState = ResourceConditionService.getReturnedState(previousState, reportedState);
+
+      const copyId = LoanService.getCopyId(loan);
+      if (!copyId && previousStateId && previousStateId !== newState._id) {
+        await ResourceService.updateResource(resourceId, { stateId: newState._id });
+      }
+
+      await ResourceConditionService.recordEvent({
+        resourceId,
+        copyId,
+        previousStateId,
+        newStateId: newState._id,
+        source: 'return',
+        loanId: loan._id,
+        personId: loan.person?._id || loan.personId,
+        observations,
+      });
+      console.log('🏷️ LoanService: Estado del recurso registrado:', newState.name);
+      return newState._id;
+    } catch (error: any) {
+      console.error('❌ LoanService: No se pudo registrar el estado del recurso:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Elegir un ejemplar disponible para el préstamo. Si el recurso no tiene ejemplares
+   * registrados, el préstamo se hace sobre el recurso como hasta ahora
+   */
+  private static async pickCopySafely(resourceId: string): Promise<string | undefined> {
+    try {
+      const copy = await ResourceCopyService.pickAvailableCopy(resourceId);
+      return copy?._id;
+    } catch (error: any) {
+      console.error('❌ LoanService: No se pudo asignar un ejemplar:', error);
+      return undefined;
+    }
+  }
+
+  private static async updateCopySafely(loan: LoanWithDetails, data: UpdateResourceCopyRequest) {
+    const copyId = LoanService.getCopyId(loan);
+    if (!copyId) return;
+
+    try {
+      await ResourceCopyService.updateCopy(copyId, data);
+    } catch (error: any) {
+      console.error('❌ LoanService: No se pudo actualizar el ejemplar:', error);
+    }
+  }
+
+  private static getCopyId(loan: LoanWithDetails): string | undefined {
+    return loan.copyId || loan.copy?._id;
+  }
+
+  /**
+   * Enviar la renovación al servidor; sin fecha explícita se renueva
+   * por la duración configurada para el tipo de persona
+   */
+  private static async submitRenewal(
+    loan: LoanWithDetails,
+    config: SystemConfiguration,
+    newDueDate?: string
+  ): Promise<RenewLoanResponse> {
+    let dueDate = newDueDate;
+    if (!dueDate) {
+      const rules = SystemConfigService.getLoanRules(config, loan.person?.personType?.name);
+      dueDate = SystemConfigService.calculateDueDate(rules).toISOString();
+    }
+
+    const requestData = {
+      newDueDate: formatDateForApi(dueDate)
+    };
+
+    const response = await axiosInstance.put<ApiResponse<RenewLoanResponse>>(
+      LOAN_ENDPOINTS.RENEW_LOAN(loan._id),
+      requestData
+    );
+
+    const result = handleApiResponse(response.data);
+    console.log('✅ LoanService: Préstamo renovado exitosamente:', loan._id);
+    return result;
+  }
+
+  /**
+   * Recorrer todas las páginas de un historial de préstamos, hasta el tope configurado.
+   * total es el total que informa el servidor, aunque no se hayan leído todas las páginas
+   */
+  private static async collectHistory(
+    fetchPage: (page: number) => Promise<PaginatedResponse<LoanWithDetails>>
+  ): Promise<{ loans: LoanWithDetails[]; total: number; truncated: boolean }> {
+    const loans: LoanWithDetails[] = [];
+    let page = 1;
+    let totalPages = 1;
+    let total = 0;
+
+    do {
+      const result = await fetchPage(page);
+      loans.push(...result.data);
+      totalPages = result.pagination.totalPages;
+      total = result.pagination.total;
+      page++;
+    } while (page <= totalPages && page <= HISTORY_MAX_PAGES);
+
+    return { loans, total: Math.max(total, loans.length), truncated: page <= totalPages };
+  }
+
+  /**
+   * Préstamos de la persona que aún no se han devuelto
+   */
+  private static async getOpenPersonLoans(personId: string): Promise<LoanWithDetails[]> {
+    const result = await LoanService.getPersonLoans(personId, { limit: 100 });
+    return result.data.filter(loan =>
+      !loan.returnedDate && loan.status?.name !== 'returned' && loan.status?.name !== 'lost'
+    );
+  }
+
+  /**
+   * Préstamos del recurso que aún no se han devuelto
+   */
+  private static async getOpenResourceLoans(resourceId: string): Promise<LoanWithDetails[]> {
+    const result = await LoanService.getResourceLoans(resourceId, { limit: 100 });
+    return result.data.filter(loan =>
+      !loan.returnedDate && loan.status?.name !== 'returned' && loan.status?.name !== 'lost'
+    );
+  }
+
+  /**
+   * Aplicar la política de renovaciones con los datos ya cargados
+   */
+  private static evaluateRenewal(
+    loan: LoanWithDetails,
+    config: SystemConfiguration,
+    personLoans: LoanWithDetails[],
+    queue: HoldWithDetails[]
+  ): RenewalEligibility {
+    const rules = SystemConfigService.getLoanRules(config, loan.person?.personType?.name);
+    const renewCount = LoanService.getRenewCount(loan);
+    const reasons: RenewalEligibility['reasons'] = [];
+
+    if (!config.library.allowRenewals) {
+      reasons.push({
+        code: 'renewals_disabled',
+        message: 'Las renovaciones están deshabilitadas en la configuración del sistema'
+      });
+    }
+
+    if (loan.returnedDate || loan.status?.name === 'returned' || loan.status?.name === 'lost') {
+      reasons.push({ code: 'not_active', message: 'El préstamo no está activo' });
+    }
+
+    if (renewCount >= rules.maxRenewals) {
+      reasons.push({
+        code: 'max_renewals',
+        message: `Se alcanzó el máximo de ${rules.maxRenewals} renovación${rules.maxRenewals !== 1 ? 'es' : ''}`
+      });
+    }
+
+    const otherHolds = queue.filter(hold => hold.personId !== loan.personId);
+    if (otherHolds.length > 0) {
+      reasons.push({
+        code: 'pending_holds',
+        message: `El recurso tiene ${otherHolds.length} reserva${otherHolds.length !== 1 ? 's' : ''} pendiente${otherHolds.length !== 1 ? 's' : ''}`
+      });
+    }
+
+    const overdueCount = personLoans.filter(item => item.isOverdue || LoanService.isLoanOverdue(item)).length;
+    if (overdueCount > 0) {
+      reasons.push({
+        code: 'overdue_loans',
+        message: `La persona tiene ${overdueCount} préstamo${overdueCount !== 1 ? 's' : ''} vencido${overdueCount !== 1 ? 's' : ''}`
+      });
+    }
+
+    return {
+      loanId: loan._id,
+      canRenew: reasons.length === 0,
+      renewCount,
+      maxRenewals: rules.maxRenewals,
+      reasons
+    };
+  }
+
+  /**
+   * Cantidad de renovaciones registradas en el préstamo
+   */
+  static getRenewCount(loan: Loan): number {
+    return loan.renewCount ?? loan.renewals?.length ?? (loan.renewedAt ? 1 : 0);
+  }
+
   /**
    * Obtener configuración de límites del sistema
    */
-  static getSystemLimits() {
+  static async getSystemLimits() {
+    const config = await SystemConfigService.getEffectiveConfiguration();
+
     return {
-      maxLoansPerPerson: 5,
-      maxLoanDays: 15,
-      maxQuantityStudent: 3,
-      maxQuantityTeacher: 10,
-      maxQuantityAbsolute: 50
+      maxLoansPerPerson: config.library.maxLoansPerPerson,
+      maxLoanDays: config.library.loanDurationDays,
+      maxQuantityStudent: config.loanRules.student.maxQuantityPerLoan,
+      maxQuantityTeacher: config.loanRules.teacher.maxQuantityPerLoan,
+      maxQuantityAbsolute: LOAN_LIMITS.MAX_QUANTITY_ABSOLUTE
     };
   }
 
@@ -0,0 +1,324 @@
+// src/services/overdueNotice.service.ts
+import axiosInstance from '@/lib/axios';
+import { LoanService } from './loan.service';
+import { DateUtils } from '@/utils';
+import type { ApiResponse } from '@/types/api.types';
+import type { LoanWithDetails, OverdueFilters } from '@/types/loan.types';
+import type {
+  NoticeFormat,
+  NoticeTemplate,
+  UpdateNoticeTemplateRequest,
+  OverdueNotice,
+  OverdueNoticeBatch,
+  OverdueNoticeCSVRow,
+  NoticeChannel,
+  OverdueNoticeLogEntry,
+  CreateNoticeLogRequest,
+} from '@/types/notice.types';
+
+const NOTICE_ENDPOINTS = {
+  TEMPLATES: '/overdue-notices/templates',
+  TEMPLATE_BY_FORMAT: (format: NoticeFormat) => `/overdue-notices/templates/${format}`,
+  LOG: '/overdue-notices/log',
+} as const;
+
+// Tamaño de página y tope de páginas al recorrer todos los vencidos filtrados
+const NOTICE_PAGE_SIZE = 100;
+const NOTICE_MAX_PAGES = 20;
+
+// Préstamos por consulta al historial de avisos (los ids viajan en la URL)
+const NOTICE_LOG_BATCH_SIZE = 50;
+
+// Marcadores disponibles en las plantillas
+export const NOTICE_PLACEHOLDERS: { key: string; label: string; scope: 'body' | 'item' }[] = [
+  { key: 'nombre', label: 'Nombre de la persona', scope: 'body' },
+  { key: 'documento', label: 'Número de documento', scope: 'body' },
+  { key: 'grado', label: 'Grado', scope: 'body' },
+  { key: 'cantidad', label: 'Cantidad de préstamos vencidos', scope: 'body' },
+  { key: 'listado', label: 'Listado de préstamos (una línea por préstamo)', scope: 'body' },
+  { key: 'fecha', label: 'Fecha de emisión', scope: 'body' },
+  { key: 'titulo', label: 'Título del recurso', scope: 'item' },
+  { key: 'fecha_prestamo', label: 'Fecha del préstamo', scope: 'item' },
+  { key: 'fecha_vencimiento', label: 'Fecha de vencimiento', scope: 'item' },
+  { key: 'dias_vencido', label: 'Días de retraso', scope: 'item' },
+];
+
+export const DEFAULT_NOTICE_TEMPLATES: Record<NoticeFormat, NoticeTemplate> = {
+  student_slip: {
+    format: 'student_slip',
+    title: 'Recordatorio de devolución',
+    body:
+      'Estudiante: {nombre} ({grado})\n\n' +
+      'Tienes {cantidad} préstamo(s) vencido(s) en la biblioteca:\n{listado}\n\n' +
+      'Por favor devuélvelos lo antes posible.',
+    itemLine: '• {titulo}: vencía el {fecha_vencimiento} ({dias_vencido} días de retraso)',
+  },
+  teacher_letter: {
+    format: 'teacher_letter',
+    title: 'Aviso de préstamos vencidos',
+    body:
+      '{fecha}\n\nEstimado(a) docente {nombre}:\n\n' +
+      'Según nuestros registros, los siguientes materiales prestados por la biblioteca ' +
+      'superaron su fecha de devolución:\n\n{listado}\n\n' +
+      'Le agradecemos devolverlos o acercarse a la biblioteca para renovarlos.\n\n' +
+      'Cordialmente,\nBiblioteca Escolar',
+    itemLine: '• {titulo} (prestado el {fecha_prestamo}, vencía el {fecha_vencimiento}, {dias_vencido} días de retraso)',
+  },
+};
+
+export class OverdueNoticeService {
+  // ===== PLANTILLAS =====
+
+  /**
+   * Obtener las plantillas guardadas; las que no existan usan el texto por defecto
+   */
+  static async getTemplates(): Promise<Record<NoticeFormat, NoticeTemplate>> {
+    const templates = { ...DEFAULT_NOTICE_TEMPLATES };
+
+    try {
+      const response = await axiosInstance.get<ApiResponse<NoticeTemplate[]>>(NOTICE_ENDPOINTS.TEMPLATES);
+
+      if (response.data.success && response.data.data) {
+        response.data.data.forEach(template => {
+          if (templates[template.format]) {
+            templates[template.format] = { ...templates[template.format], ...template };
+          }
+        });
+      }
+    } catch (error) {
+      // Sin plantillas guardadas se siguen pudiendo generar avisos
+      console.warn('⚠️ OverdueNoticeService: Usando plantillas por defecto:', error);
+    }
+
+    return templates;
+  }
+
+  /**
+   * Guardar una plantilla editada
+   */
+  static async updateTemplate(format: NoticeFormat, data: UpdateNoticeTemplateRequest): Promise<NoticeTemplate> {
+    const response = await axiosInstance.put<ApiResponse<NoticeTemplate>>(
+      NOTICE_ENDPOINTS.TEMPLATE_BY_FORMAT(format),
+      data
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al guardar la plantilla');
+  }
+
+  // ===== GENERACIÓN =====
+
+  /**
+   * Obtener todos los préstamos vencidos que cumplen los filtros (no solo la página visible)
+   */
+  static async getAllOverdueLoans(filters: OverdueFilters = {}): Promise<LoanWithDetails[]> {
+    const loans: LoanWithDetails[] = [];
+
+    for (let page = 1; page <= NOTICE_MAX_PAGES; page++) {
+      const response = await LoanService.getOverdueLoans({ ...filters, page, limit: NOTICE_PAGE_SIZE });
+      loans.push(...response.data);
+
+      if (!response.pagination.hasNext) break;
+    }
+
+    return loans;
+  }
+
+  /**
+   * Filtros del listado sin la paginación, que no cambia qué préstamos están vencidos
+   */
+  static withoutPagination(filters: OverdueFilters): OverdueFilters {
+    const listFilters = { ...filters };
+    delete listFilters.page;
+    delete listFilters.limit;
+    return listFilters;
+  }
+
+  /**
+   * Armar los avisos: papeletas de estudiantes agrupadas por grado y
+   * una carta consolidada por docente
+   */
+  static buildNotices(
+    loans: LoanWithDetails[],
+    templates: Record<NoticeFormat, NoticeTemplate>
+  ): OverdueNoticeBatch {
+    const byPerson = new Map<string, LoanWithDetails[]>();
+    loans.forEach(loan => {
+      if (!loan.person) return;
+      const personLoans = byPerson.get(loan.person._id) || [];
+      personLoans.push(loan);
+      byPerson.set(loan.person._id, personLoans);
+    });
+
+    const studentsByGrade = new Map<string, OverdueNotice[]>();
+    const teacherLetters: OverdueNotice[] = [];
+
+    byPerson.forEach(personLoans => {
+      const person = personLoans[0].person!;
+      const isTeacher = person.personType?.name === 'teacher';
+      const format: NoticeFormat = isTeacher ? 'teacher_letter' : 'student_slip';
+      const notice = this.buildNotice(format, person, personLoans, templates[format]);
+
+      if (isTeacher) {
+        teacherLetters.push(notice);
+      } else {
+        const gradeNotices = studentsByGrade.get(notice.grade) || [];
+        gradeNotices.push(notice);
+        studentsByGrade.set(notice.grade, gradeNotices);
+      }
+    });
+
+    const byName = (a: OverdueNotice, b: OverdueNotice) =>
+      a.person.fullName.localeCompare(b.person.fullName, 'es');
+
+    return {
+      studentGroups: Array.from(studentsByGrade.entries())
+        .sort(([a], [b]) => a.localeCompare(b, 'es', { numeric: true }))
+        .map(([grade, notices]) => ({ grade, notices: notices.sort(byName) })),
+      teacherLetters: teacherLetters.sort(byName),
+      totalLoans: loans.filter(loan => loan.person).length,
+    };
+  }
+
+  /**
+   * Reemplazar los marcadores {clave} de un texto; los desconocidos se dejan igual
+   */
+  static renderTemplate(text: string, values: Record<string, string | number>): string {
+    return text.replace(/\{(\w+)\}/g, (match, key: string) =>
+      values[key] !== undefined ? String(values[key]) : match
+    );
+  }
+
+  /**
+   * Filas para exportar los avisos a CSV, una por préstamo
+   */
+  static toCSVRows(notices: OverdueNotice[]): OverdueNoticeCSVRow[] {
+    return notices.flatMap(notice =>
+      notice.loans.map(loan => ({
+        grade: notice.grade,
+        person: notice.person.fullName,
+        documentNumber: notice.person.documentNumber || '',
+        personType: notice.format === 'teacher_letter' ? 'Docente' : 'Estudiante',
+        resource: loan.resource?.title || '',
+        loanDate: DateUtils.formatDate(loan.loanDate),
+        dueDate: DateUtils.formatDate(loan.dueDate),
+        daysOverdue: this.getDaysOverdue(loan),
+        noticeText: notice.text,
+      }))
+    );
+  }
+
+  // ===== REGISTRO DE EMISIÓN =====
+
+  /**
+   * Obtener el historial de avisos emitidos para un conjunto de préstamos
+   */
+  static async getNoticeLog(loanIds: string[]): Promise<OverdueNoticeLogEntry[]> {
+    const entries: OverdueNoticeLogEntry[] = [];
+
+    for (let start = 0; start < loanIds.length; start += NOTICE_LOG_BATCH_SIZE) {
+      const batch = loanIds.slice(start, start + NOTICE_LOG_BATCH_SIZE);
+      const response = await axiosInstance.get<ApiResponse<OverdueNoticeLogEntry[]>>(
+        NOTICE_ENDPOINTS.LOG,
+        { params: { loanIds: batch.join(',') } }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || 'Error al obtener el historial de avisos');
+      }
+
+      entries.push(...response.data.data);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Registrar que se emitieron avisos, una entrada por préstamo
+   */
+  static async recordNotices(notices: OverdueNotice[], channel: NoticeChannel): Promise<OverdueNoticeLogEntry[]> {
+    const entries: CreateNoticeLogRequest[] = notices.flatMap(notice =>
+      notice.loans.map(loan => ({
+        loanId: loan._id,
+        personId: notice.person._id,
+        format: notice.format,
+        channel,
+        daysOverdue: this.getDaysOverdue(loan),
+      }))
+    );
+
+    const response = await axiosInstance.post<ApiResponse<OverdueNoticeLogEntry[]>>(
+      NOTICE_ENDPOINTS.LOG,
+      { entries }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al registrar los avisos emitidos');
+  }
+
+  /**
+   * Último aviso emitido por préstamo
+   */
+  static getLastNoticeByLoan(entries: OverdueNoticeLogEntry[]): Map<string, OverdueNoticeLogEntry> {
+    const lastByLoan = new Map<string, OverdueNoticeLogEntry>();
+
+    entries.forEach(entry => {
+      const current = lastByLoan.get(entry.loanId);
+      if (!current || new Date(entry.issuedAt) > new Date(current.issuedAt)) {
+        lastByLoan.set(entry.loanId, entry);
+      }
+    });
+
+    return lastByLoan;
+  }
+
+  // ===== UTILIDADES =====
+
+  private static buildNotice(
+    format: NoticeFormat,
+    person: NonNullable<LoanWithDetails['person']>,
+    loans: LoanWithDetails[],
+    template: NoticeTemplate
+  ): OverdueNotice {
+    const sortedLoans = [...loans].sort(
+      (a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
+    );
+    const grade = person.grade?.trim() || (format === 'teacher_letter' ? 'Docentes' : 'Sin grado');
+
+    const listado = sortedLoans
+      .map(loan => this.renderTemplate(template.itemLine, {
+        titulo: loan.resource?.title || 'Recurso',
+        fecha_prestamo: DateUtils.formatDate(loan.loanDate),
+        fecha_vencimiento: DateUtils.formatDate(loan.dueDate),
+        dias_vencido: this.getDaysOverdue(loan),
+      }))
+      .join('\n');
+
+    // Con un solo préstamo los marcadores de préstamo también sirven en el cuerpo
+    const firstLoan = sortedLoans[0];
+    const text = this.renderTemplate(template.body, {
+      nombre: person.fullName,
+      documento: person.documentNumber || '',
+      grado: grade,
+      cantidad: sortedLoans.length,
+      listado,
+      fecha: DateUtils.formatDate(new Date()),
+      titulo: firstLoan.resource?.title || 'Recurso',
+      fecha_prestamo: DateUtils.formatDate(firstLoan.loanDate),
+      fecha_vencimiento: DateUtils.formatDate(firstLoan.dueDate),
+      dias_vencido: this.getDaysOverdue(firstLoan),
+    });
+
+    return { format, person, grade, loans: sortedLoans, title: template.title, text };
+  }
+
+  private static getDaysOverdue(loan: LoanWithDetails): number {
+    return loan.daysOverdue || LoanService.calculateDaysOverdue(loan.dueDate);
+  }
+}
@@ -0,0 +1,236 @@
+// src/services/penalty.service.ts
+import axiosInstance from '@/lib/axios';
+import { PersonService } from './person.service';
+import type { ApiResponse, PaginatedResponse } from '@/types/api.types';
+import type { LoanWithDetails } from '@/types/loan.types';
+import type {
+  Penalty,
+  PenaltyWithDetails,
+  PenaltyRule,
+  PenaltyReason,
+  PenaltyCalculation,
+  CreatePenaltyRequest,
+  UpdatePenaltyRuleRequest,
+  PenaltyFilters,
+} from '@/types/penalty.types';
+
+const PENALTY_ENDPOINTS = {
+  PENALTIES: '/penalties',
+  PENALTY_BY_ID: (id: string) => `/penalties/${id}`,
+  PERSON_PENALTIES: (personId: string) => `/penalties/person/${personId}`,
+  PAY: (id: string) => `/penalties/${id}/pay`,
+  WAIVE: (id: string) => `/penalties/${id}/waive`,
+  RULES: '/penalties/rules',
+  RULE_BY_PERSON_TYPE: (personTypeId: string) => `/penalties/rules/${personTypeId}`,
+} as const;
+
+export class PenaltyService {
+  /**
+   * Obtener sanciones con filtros y paginación
+   */
+  static async getPenalties(filters: PenaltyFilters = {}): Promise<PaginatedResponse<PenaltyWithDetails>> {
+    const params = new URLSearchParams();
+
+    if (filters.personId) params.append('personId', filters.personId);
+    if (filters.status) params.append('status', filters.status);
+    if (filters.type) params.append('type', filters.type);
+    if (filters.reason) params.append('reason', filters.reason);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', Math.min(filters.limit, 100).toString());
+
+    const url = params.toString()
+      ? `${PENALTY_ENDPOINTS.PENALTIES}?${params.toString()}`
+      : PENALTY_ENDPOINTS.PENALTIES;
+
+    const response = await axiosInstance.get<ApiResponse<PaginatedResponse<PenaltyWithDetails>>>(url);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener sanciones');
+  }
+
+  /**
+   * Obtener el historial de sanciones de una persona
+   */
+  static async getPersonPenalties(personId: string): Promise<PenaltyWithDetails[]> {
+    const response = await axiosInstance.get<ApiResponse<PenaltyWithDetails[]>>(
+      PENALTY_ENDPOINTS.PERSON_PENALTIES(personId)
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener sanciones de la persona');
+  }
+
+  /**
+   * Obtener las sanciones que actualmente impiden prestar a una persona
+   */
+  static async getBlockingPenalties(personId: string): Promise<PenaltyWithDetails[]> {
+    const penalties = await this.getPersonPenalties(personId);
+    return penalties.filter(penalty => this.isBlocking(penalty));
+  }
+
+  /**
+   * Registrar una sanción
+   */
+  static async createPenalty(data: CreatePenaltyRequest): Promise<Penalty> {
+    const response = await axiosInstance.post<ApiResponse<Penalty>>(
+      PENALTY_ENDPOINTS.PENALTIES,
+      {
+        ...data,
+        observations: data.observations?.trim() || undefined,
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al registrar sanción');
+  }
+
+  /**
+   * Registrar el pago de una multa
+   */
+  static async payPenalty(id: string, reason: string): Promise<PenaltyWithDetails> {
+    const response = await axiosInstance.put<ApiResponse<PenaltyWithDetails>>(
+      PENALTY_ENDPOINTS.PAY(id),
+      { reason: reason.trim() }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al registrar el pago');
+  }
+
+  /**
+   * Condonar una sanción
+   */
+  static async waivePenalty(id: string, reason: string): Promise<PenaltyWithDetails> {
+    const response = await axiosInstance.put<ApiResponse<PenaltyWithDetails>>(
+      PENALTY_ENDPOINTS.WAIVE(id),
+      { reason: reason.trim() }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al condonar sanción');
+  }
+
+  // ===== REGLAS =====
+
+  /**
+   * Obtener las reglas de sanción configuradas por tipo de persona
+   */
+  static async getRules(): Promise<PenaltyRule[]> {
+    const response = await axiosInstance.get<ApiResponse<PenaltyRule[]>>(PENALTY_ENDPOINTS.RULES);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener reglas de sanción');
+  }
+
+  /**
+   * Crear o actualizar la regla de sanción de un tipo de persona
+   */
+  static async updateRule(personTypeId: string, data: UpdatePenaltyRuleRequest): Promise<PenaltyRule> {
+    const response = await axiosInstance.put<ApiResponse<PenaltyRule>>(
+      PENALTY_ENDPOINTS.RULE_BY_PERSON_TYPE(personTypeId),
+      data
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al guardar regla de sanción');
+  }
+
+  // ===== SANCIONES AUTOMÁTICAS =====
+
+  /**
+   * Calcular la sanción que corresponde según la regla del tipo de persona
+   * (null si la regla no genera sanción)
+   */
+  static calculatePenalty(
+    rule: PenaltyRule,
+    reason: PenaltyReason,
+    daysOverdue = 0
+  ): PenaltyCalculation | null {
+    if (!rule.active) return null;
+
+    if (reason === 'lost') {
+      if (rule.lostPenaltyType === 'fine') {
+        return rule.lostResourceFine > 0 ? { type: 'fine', amount: rule.lostResourceFine } : null;
+      }
+      return rule.lostResourceSuspensionDays > 0
+        ? { type: 'suspension', suspensionDays: rule.lostResourceSuspensionDays }
+        : null;
+    }
+
+    const chargeableDays = Math.max(0, daysOverdue - rule.gracePeriodDays);
+    if (chargeableDays === 0) return null;
+
+    if (rule.overduePenaltyType === 'fine') {
+      const amount = chargeableDays * rule.finePerDay;
+      const capped = rule.maxFineAmount ? Math.min(amount, rule.maxFineAmount) : amount;
+      return capped > 0 ? { type: 'fine', amount: capped } : null;
+    }
+
+    const suspensionDays = Math.ceil(chargeableDays * rule.suspensionDaysPerOverdueDay);
+    return suspensionDays > 0 ? { type: 'suspension', suspensionDays } : null;
+  }
+
+  /**
+   * Crear la sanción que corresponde a un préstamo devuelto tarde o perdido.
+   * Devuelve null si el tipo de persona no tiene regla o la regla no aplica
+   */
+  static async applyAutomaticPenalty(
+    loan: LoanWithDetails,
+    reason: PenaltyReason,
+    daysOverdue = 0
+  ): Promise<Penalty | null> {
+    const personId = loan.person?._id || loan.personId;
+    const personTypeId = loan.person?.personType?._id
+      || (await PersonService.getPersonById(personId)).personTypeId;
+
+    const rules = await this.getRules();
+    const rule = rules.find(item => item.personTypeId === personTypeId);
+    if (!rule) return null;
+
+    const calculation = this.calculatePenalty(rule, reason, daysOverdue);
+    if (!calculation) return null;
+
+    return this.createPenalty({
+      personId,
+      loanId: loan._id,
+      reason,
+      daysOverdue: reason === 'overdue' ? daysOverdue : undefined,
+      ...calculation,
+    });
+  }
+
+  // ===== UTILIDADES =====
+
+  /**
+   * Una sanción bloquea préstamos mientras está activa; las suspensiones
+   * dejan de bloquear al cumplirse la fecha de fin
+   */
+  static isBlocking(penalty: Penalty): boolean {
+    if (penalty.status !== 'active') return false;
+    if (penalty.type === 'suspension' && penalty.suspendedUntil) {
+      return new Date(penalty.suspendedUntil) > new Date();
+    }
+    return true;
+  }
+}
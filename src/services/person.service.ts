@@ -8,6 +8,9 @@ import {
   CreatePersonRequest,
   UpdatePersonRequest,
   SearchFilters,
+  BulkOperation,
+  BulkOperationResult,
+  GradeRolloverItem,
 } from '@/types/api.types';
 
 const PERSON_ENDPOINTS = {
@@ -16,11 +19,15 @@ const PERSON_ENDPOINTS = {
   PERSON_BY_DOCUMENT: (document: string) => `/people/document/${document}`,
   PERSON_ACTIVATE: (id: string) => `/people/${id}/activate`,
   PERSON_DEACTIVATE: (id: string) => `/people/${id}/deactivate`,
+  PERSON_PORTAL_PIN: (id: string) => `/people/${id}/portal-pin`,
   PERSON_STATS: '/people/stats/summary',
   PERSON_TYPES: '/people/types/all',
   PERSON_TYPE_BY_ID: (id: string) => `/people/types/${id}`,
 } as const;
 
+// Consultas de documento simultáneas al verificar una importación
+const DOCUMENT_CHECK_BATCH_SIZE = 10;
+
 export class PersonService {
   /**
    * Crear una nueva persona
@@ -57,6 +64,7 @@ export class PersonService {
       if (filters.search?.trim()) params.append('search', filters.search.trim());
       if (filters.personType) params.append('personType', filters.personType);
       if (filters.status) params.append('status', filters.status);
+      if (filters.grade?.trim()) params.append('grade', filters.grade.trim());
       if (filters.page && filters.page > 0) params.append('page', filters.page.toString());
       if (filters.limit && filters.limit > 0) params.append('limit', Math.min(filters.limit, 100).toString());
       if (filters.sortBy) params.append('sortBy', filters.sortBy);
@@ -117,6 +125,7 @@ export class PersonService {
 
       // Usar parámetros más simples
       if (filters.search?.trim()) params.append('search', filters.search.trim());
+      if (filters.grade?.trim()) params.append('grade', filters.grade.trim());
       if (filters.page) params.append('page', filters.page.toString());
       if (filters.limit) params.append('limit', (filters.limit || 10).toString());
       
@@ -204,6 +213,20 @@ export class PersonService {
     }
   }
 
+  /**
+   * Obtener persona a partir del código impreso en su carné
+   * (número de documento, o el ID cuando la persona no tiene documento)
+   */
+  static async getPersonByCardCode(code: string): Promise<Person> {
+    const normalized = code.trim();
+
+    if (/^[a-f0-9]{24}$/i.test(normalized)) {
+      return this.getPersonById(normalized.toLowerCase());
+    }
+
+    return this.getPersonByDocument(normalized);
+  }
+
   /**
    * Actualizar persona
    */
@@ -274,6 +297,30 @@ export class PersonService {
     }
   }
 
+  /**
+   * Asignar o restablecer el PIN del portal de autoservicio
+   */
+  static async setPortalPin(id: string, pin: string): Promise<Person> {
+    try {
+      console.log('🔑 PersonService: Asignando PIN del portal:', id);
+
+      const response = await axiosInstance.put<ApiResponse<Person>>(
+        PERSON_ENDPOINTS.PERSON_PORTAL_PIN(id),
+        { pin }
+      );
+
+      if (response.data.success && response.data.data) {
+        console.log('✅ PersonService: PIN del portal asignado exitosamente');
+        return response.data.data;
+      }
+
+      throw new Error(response.data.message || 'Error al asignar el PIN del portal');
+    } catch (error: any) {
+      console.error('❌ PersonService: Error al asignar PIN del portal:', error);
+      throw error;
+    }
+  }
+
   /**
    * Eliminar persona permanentemente
    */
@@ -417,6 +464,149 @@ export class PersonService {
       return true;
     }
   }
+
+  /**
+   * Devolver los documentos que ya están registrados
+   * No hay endpoint para consultar varios a la vez, así que se consultan en lotes paralelos
+   */
+  static async findExistingDocuments(
+    documentNumbers: string[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<Set<string>> {
+    const documents = Array.from(new Set(documentNumbers.filter(Boolean)));
+    const existing = new Set<string>();
+
+    for (let start = 0; start < documents.length; start += DOCUMENT_CHECK_BATCH_SIZE) {
+      const batch = documents.slice(start, start + DOCUMENT_CHECK_BATCH_SIZE);
+      const availability = await Promise.all(batch.map(document => this.validateDocumentNumber(document)));
+
+      availability.forEach((isAvailable, index) => {
+        if (!isAvailable) existing.add(batch[index]);
+      });
+      onProgress?.(start + batch.length, documents.length);
+    }
+
+    return existing;
+  }
+
+  /**
+   * Registrar varias personas a la vez (importación masiva)
+   * El backend no expone un endpoint masivo, por lo que se crean una a una
+   */
+  static async bulkCreatePeople(
+    operation: BulkOperation<CreatePersonRequest>,
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<BulkOperationResult<CreatePersonRequest>> {
+    const { items, options = {} } = operation;
+    const result: BulkOperationResult<CreatePersonRequest> = {
+      success: [],
+      errors: [],
+      summary: { total: items.length, successful: 0, failed: 0, skipped: 0 },
+    };
+
+    console.log('📥 PersonService: Importación masiva de personas:', { total: items.length, options });
+
+    const existingDocuments = options.skipDuplicates
+      ? await this.findExistingDocuments(items.map(item => item.documentNumber || ''))
+      : new Set<string>();
+
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+
+      try {
+        if (item.documentNumber && existingDocuments.has(item.documentNumber)) {
+          result.summary.skipped++;
+          continue;
+        }
+
+        await this.createPerson(item);
+        result.success.push(item);
+        result.summary.successful++;
+      } catch (error: any) {
+        const message = error?.response?.data?.message || error?.message || 'Error al crear persona';
+        result.errors.push({
+          item,
+          error: Array.isArray(message) ? message.join(', ') : message,
+          index,
+        });
+        result.summary.failed++;
+
+        if (!options.continueOnError) {
+          // Las filas restantes no se procesan
+          result.summary.skipped += items.length - index - 1;
+          break;
+        }
+      } finally {
+        onProgress?.(index + 1, items.length);
+      }
+    }
+
+    console.log('✅ PersonService: Importación masiva completada:', result.summary);
+    return result;
+  }
+
+  /**
+   * Obtener todas las personas que cumplen los filtros, recorriendo todas las páginas
+   */
+  static async getAllPeople(filters: Omit<SearchFilters, 'page' | 'limit'> = {}): Promise<Person[]> {
+    const people: Person[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await this.getPeople({ ...filters, page, limit: 100 });
+      people.push(...response.data);
+      totalPages = response.pagination.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return people;
+  }
+
+  /**
+   * Aplicar la promoción de grado de fin de año
+   * Los estudiantes promovidos cambian de grado y los egresados se desactivan
+   */
+  static async bulkRolloverGrades(
+    items: GradeRolloverItem[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<BulkOperationResult<GradeRolloverItem>> {
+    const result: BulkOperationResult<GradeRolloverItem> = {
+      success: [],
+      errors: [],
+      summary: { total: items.length, successful: 0, failed: 0, skipped: 0 },
+    };
+
+    console.log('🎓 PersonService: Aplicando promoción de grado:', { total: items.length });
+
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+
+      try {
+        if (item.action === 'graduate') {
+          await this.deactivatePerson(item.personId);
+        } else {
+          await this.updatePerson(item.personId, { grade: item.toGrade });
+        }
+
+        result.success.push(item);
+        result.summary.successful++;
+      } catch (error: any) {
+        const message = error?.response?.data?.message || error?.message || 'Error al actualizar persona';
+        result.errors.push({
+          item,
+          error: Array.isArray(message) ? message.join(', ') : message,
+          index,
+        });
+        result.summary.failed++;
+      } finally {
+        onProgress?.(index + 1, items.length);
+      }
+    }
+
+    console.log('✅ PersonService: Promoción de grado completada:', result.summary);
+    return result;
+  }
 }
 
 // Exportar clase con métodos estáticos
@@ -0,0 +1,173 @@
+// src/services/portal.service.ts
+import { axiosUtils } from '@/lib/axios';
+import Cookies from 'js-cookie';
+import type { ApiResponse, PaginatedResponse } from '@/types/api.types';
+import type { LoanWithDetails, LoanSearchFilters } from '@/types/loan.types';
+import type { HoldWithDetails } from '@/types/hold.types';
+import type {
+  PortalPerson,
+  PortalLoginRequest,
+  PortalLoginResponse,
+  RenewalRequestWithDetails,
+  CreateRenewalRequestRequest,
+} from '@/types/portal.types';
+
+const PORTAL_ENDPOINTS = {
+  LOGIN: '/portal/auth/login',
+  LOGOUT: '/portal/auth/logout',
+  ME: '/portal/me',
+  LOANS: '/portal/loans',
+  HOLDS: '/portal/holds',
+  RENEWAL_REQUESTS: '/portal/renewal-requests',
+} as const;
+
+export const PORTAL_TOKEN_KEY = process.env.NEXT_PUBLIC_PORTAL_TOKEN_KEY || 'biblioteca_portal_token';
+
+// Cliente propio del portal: usa el token del lector y nunca el JWT del personal
+const portalClient = axiosUtils.createCustomInstance({});
+
+portalClient.interceptors.request.use((config) => {
+  const token = Cookies.get(PORTAL_TOKEN_KEY);
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+portalClient.interceptors.response.use((response) => {
+  // Sesión vencida o PIN cambiado: se descarta el token y el portal vuelve a pedir el ingreso
+  if (response.status === 401) {
+    Cookies.remove(PORTAL_TOKEN_KEY);
+  }
+  return response;
+});
+
+export class PortalService {
+  // ===== SESIÓN =====
+
+  /**
+   * Ingresar al portal con número de documento y PIN
+   */
+  static async login(credentials: PortalLoginRequest): Promise<PortalLoginResponse> {
+    const response = await portalClient.post<ApiResponse<PortalLoginResponse>>(
+      PORTAL_ENDPOINTS.LOGIN,
+      {
+        documentNumber: credentials.documentNumber.trim(),
+        pin: credentials.pin,
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      Cookies.set(PORTAL_TOKEN_KEY, response.data.data.access_token, {
+        expires: 1 / 24, // 1 hora: suele usarse en equipos compartidos
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+      });
+
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Documento o PIN incorrectos');
+  }
+
+  /**
+   * Cerrar la sesión del portal
+   */
+  static async logout(): Promise<void> {
+    try {
+      await portalClient.post<ApiResponse<null>>(PORTAL_ENDPOINTS.LOGOUT);
+    } catch (error) {
+      console.warn('Error al cerrar sesión del portal en el servidor:', error);
+    } finally {
+      Cookies.remove(PORTAL_TOKEN_KEY);
+    }
+  }
+
+  /**
+   * Obtener la persona de la sesión actual
+   */
+  static async getCurrentPerson(): Promise<PortalPerson> {
+    const response = await portalClient.get<ApiResponse<PortalPerson>>(PORTAL_ENDPOINTS.ME);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Sesión del portal no válida');
+  }
+
+  /**
+   * Verificar si hay sesión del portal
+   */
+  static isAuthenticated(): boolean {
+    return !!Cookies.get(PORTAL_TOKEN_KEY);
+  }
+
+  // ===== PRÉSTAMOS Y RESERVAS =====
+
+  /**
+   * Obtener los préstamos de la persona de la sesión
+   * (mismo formato que LoanService.getPersonLoans)
+   */
+  static async getLoans(filters: Partial<LoanSearchFilters> = {}): Promise<PaginatedResponse<LoanWithDetails>> {
+    const response = await portalClient.get<ApiResponse<PaginatedResponse<LoanWithDetails>>>(
+      PORTAL_ENDPOINTS.LOANS,
+      { params: filters }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener tus préstamos');
+  }
+
+  /**
+   * Obtener las reservas de la persona de la sesión
+   */
+  static async getHolds(): Promise<HoldWithDetails[]> {
+    const response = await portalClient.get<ApiResponse<HoldWithDetails[]>>(PORTAL_ENDPOINTS.HOLDS);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener tus reservas');
+  }
+
+  // ===== RENOVACIONES =====
+
+  /**
+   * Obtener las solicitudes de renovación de la persona de la sesión
+   */
+  static async getRenewalRequests(): Promise<RenewalRequestWithDetails[]> {
+    const response = await portalClient.get<ApiResponse<RenewalRequestWithDetails[]>>(
+      PORTAL_ENDPOINTS.RENEWAL_REQUESTS
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener tus solicitudes de renovación');
+  }
+
+  /**
+   * Pedir la renovación de un préstamo; queda pendiente hasta que un bibliotecario la revise
+   */
+  static async requestRenewal(data: CreateRenewalRequestRequest): Promise<RenewalRequestWithDetails> {
+    const response = await portalClient.post<ApiResponse<RenewalRequestWithDetails>>(
+      PORTAL_ENDPOINTS.RENEWAL_REQUESTS,
+      {
+        loanId: data.loanId,
+        notes: data.notes?.trim() || undefined,
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'No se pudo solicitar la renovación');
+  }
+}
@@ -0,0 +1,145 @@
+// src/services/publicCatalog.service.ts
+import { axiosUtils } from '@/lib/axios';
+import type { ApiResponse, PaginatedResponse } from '@/types/api.types';
+import type {
+  PublicCatalogResource,
+  PublicCatalogFilters,
+  PublicCatalogRequest,
+  PublicCatalogRequestResult,
+} from '@/types/catalog.types';
+
+const PUBLIC_CATALOG_ENDPOINTS = {
+  CATALOG: '/public/catalog',
+  REQUESTS: '/public/catalog/requests',
+} as const;
+
+// Páginas chicas y con tope: para llegar más lejos hay que afinar la búsqueda
+export const PUBLIC_CATALOG_PAGE_SIZE = 20;
+export const PUBLIC_CATALOG_MAX_PAGE = 25;
+
+// Solo frenan ráfagas desde una misma pestaña; no protegen la API.
+// El límite real por IP lo debe aplicar el backend en /public/*
+const RATE_LIMITS = {
+  catalog: { max: 30, windowMs: 60 * 1000 },
+  request: { max: 3, windowMs: 10 * 60 * 1000 },
+} as const;
+
+const RATE_LIMIT_MESSAGE = 'Demasiadas solicitudes. Intenta nuevamente en unos minutos.';
+
+// Cliente sin token ni redirección al login: el catálogo se consulta sin sesión
+// y nunca debe viajar con las credenciales de un bibliotecario
+const publicClient = axiosUtils.createCustomInstance({});
+
+const requestLog: Record<keyof typeof RATE_LIMITS, number[]> = {
+  catalog: [],
+  request: [],
+};
+
+export class PublicCatalogService {
+  /**
+   * Obtener una página del catálogo público; la búsqueda se hace en el servidor
+   */
+  static async getCatalog(filters: PublicCatalogFilters = {}): Promise<PaginatedResponse<PublicCatalogResource>> {
+    this.assertWithinRateLimit('catalog');
+
+    const page = Math.min(Math.max(filters.page || 1, 1), PUBLIC_CATALOG_MAX_PAGE);
+    const limit = Math.min(filters.limit || PUBLIC_CATALOG_PAGE_SIZE, PUBLIC_CATALOG_PAGE_SIZE);
+
+    const params = new URLSearchParams();
+    if (filters.search?.trim()) params.append('search', filters.search.trim());
+    if (filters.availableOnly) params.append('availability', 'available');
+    params.append('page', page.toString());
+    params.append('limit', limit.toString());
+
+    const response = await publicClient.get<ApiResponse<PaginatedResponse<PublicCatalogResource>>>(
+      `${PUBLIC_CATALOG_ENDPOINTS.CATALOG}?${params.toString()}`
+    );
+
+    this.assertNotThrottled(response.status);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.message || 'Error al obtener el catálogo');
+    }
+
+    const { data, pagination } = response.data.data;
+    return {
+      data: data.map(resource => this.toPublicResource(resource)),
+      pagination: {
+        ...pagination,
+        totalPages: Math.min(pagination.totalPages, PUBLIC_CATALOG_MAX_PAGE),
+        hasNextPage: pagination.hasNextPage && page < PUBLIC_CATALOG_MAX_PAGE,
+      },
+    };
+  }
+
+  /**
+   * Reservar un recurso o sugerir una compra desde el catálogo
+   */
+  static async createRequest(data: PublicCatalogRequest): Promise<PublicCatalogRequestResult> {
+    this.assertWithinRateLimit('request');
+
+    const response = await publicClient.post<ApiResponse<PublicCatalogRequestResult>>(
+      PUBLIC_CATALOG_ENDPOINTS.REQUESTS,
+      {
+        ...data,
+        documentNumber: data.documentNumber.trim(),
+        title: data.title?.trim() || undefined,
+        author: data.author?.trim() || undefined,
+        notes: data.notes?.trim() || undefined,
+      }
+    );
+
+    this.assertNotThrottled(response.status);
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'No se pudo registrar la solicitud');
+  }
+
+  // ===== UTILIDADES =====
+
+  /**
+   * Quedarse solo con los campos públicos aunque el servidor envíe más
+   */
+  private static toPublicResource(resource: PublicCatalogResource): PublicCatalogResource {
+    return {
+      _id: resource._id,
+      title: resource.title,
+      isbn: resource.isbn,
+      coverImageUrl: resource.coverImageUrl,
+      googleBooksId: resource.googleBooksId,
+      available: resource.available,
+      volumes: resource.volumes,
+      typeId: resource.typeId,
+      categoryId: resource.categoryId,
+      authorIds: resource.authorIds || [],
+      locationId: resource.locationId,
+      stateId: resource.stateId,
+      createdAt: resource.createdAt,
+      updatedAt: resource.updatedAt,
+      type: resource.type,
+      category: resource.category,
+      authors: resource.authors,
+      publisher: resource.publisher,
+      location: resource.location,
+      state: resource.state,
+    };
+  }
+
+  private static assertNotThrottled(status: number): void {
+    if (status === 429) {
+      throw new Error(RATE_LIMIT_MESSAGE);
+    }
+  }
+
+  private static assertWithinRateLimit(kind: keyof typeof RATE_LIMITS): void {
+    const { max, windowMs } = RATE_LIMITS[kind];
+    const now = Date.now();
+
+    requestLog[kind] = requestLog[kind].filter(time => now - time < windowMs);
+    if (requestLog[kind].length >= max) {
+      throw new Error(RATE_LIMIT_MESSAGE);
+    }
+    requestLog[kind].push(now);
+  }
+}
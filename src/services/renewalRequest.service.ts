@@ -0,0 +1,83 @@
+// src/services/renewalRequest.service.ts
+import axiosInstance from '@/lib/axios';
+import { LoanService } from './loan.service';
+import type { ApiResponse, PaginatedResponse } from '@/types/api.types';
+import type { RenewLoanResponse } from '@/types/loan.types';
+import type {
+  RenewalRequest,
+  RenewalRequestWithDetails,
+  ReviewRenewalRequestRequest,
+  RenewalRequestFilters,
+} from '@/types/portal.types';
+
+const RENEWAL_REQUEST_ENDPOINTS = {
+  RENEWAL_REQUESTS: '/renewal-requests',
+  APPROVE: (id: string) => `/renewal-requests/${id}/approve`,
+  REJECT: (id: string) => `/renewal-requests/${id}/reject`,
+} as const;
+
+export class RenewalRequestService {
+  /**
+   * Obtener solicitudes de renovación hechas desde el portal
+   */
+  static async getRenewalRequests(
+    filters: RenewalRequestFilters = {}
+  ): Promise<PaginatedResponse<RenewalRequestWithDetails>> {
+    const params = new URLSearchParams();
+
+    if (filters.status) params.append('status', filters.status);
+    if (filters.personId) params.append('personId', filters.personId);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', Math.min(filters.limit, 100).toString());
+
+    const url = params.toString()
+      ? `${RENEWAL_REQUEST_ENDPOINTS.RENEWAL_REQUESTS}?${params.toString()}`
+      : RENEWAL_REQUEST_ENDPOINTS.RENEWAL_REQUESTS;
+
+    const response = await axiosInstance.get<ApiResponse<PaginatedResponse<RenewalRequestWithDetails>>>(url);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener solicitudes de renovación');
+  }
+
+  /**
+   * Aprobar una solicitud: renueva el préstamo con la política vigente y
+   * solo entonces marca la solicitud como aprobada
+   */
+  static async approveRequest(
+    request: RenewalRequestWithDetails,
+    data: ReviewRenewalRequestRequest = {}
+  ): Promise<RenewLoanResponse> {
+    const renewal = await LoanService.renewLoan(request.loanId);
+
+    const response = await axiosInstance.put<ApiResponse<RenewalRequest>>(
+      RENEWAL_REQUEST_ENDPOINTS.APPROVE(request._id),
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'El préstamo se renovó, pero no se pudo cerrar la solicitud');
+    }
+
+    return renewal;
+  }
+
+  /**
+   * Rechazar una solicitud indicando el motivo a la persona
+   */
+  static async rejectRequest(id: string, data: ReviewRenewalRequestRequest): Promise<RenewalRequest> {
+    const response = await axiosInstance.put<ApiResponse<RenewalRequest>>(
+      RENEWAL_REQUEST_ENDPOINTS.REJECT(id),
+      data
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al rechazar la solicitud');
+  }
+}
@@ -0,0 +1,420 @@
+// src/services/report.service.ts
+// ================================================================
+// SERVICIO DE REPORTES - CÁLCULO A PARTIR DE PRÉSTAMOS E INVENTARIO
+// ================================================================
+
+import { format, startOfWeek } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { LoanService } from './loan.service';
+import { ResourceService } from './resource.service';
+import { DashboardService } from './dashboard.service';
+import type { LoanWithDetails, LoanSearchFilters, OverdueFilters, PaginatedResponse } from '@/types/loan.types';
+import type { Resource } from '@/types/resource.types';
+import type {
+  ReportFilters,
+  ReportLoans,
+  ReportGrouping,
+  ReportColumn,
+  LoansByPeriodReport,
+  LoansByPeriodRow,
+  OverdueByGradeReport,
+  OverdueByGradeRow,
+  MostBorrowedReport,
+  MostBorrowedRow,
+  InventoryReport,
+  InventoryGroupRow,
+  LibrarianActivityReport,
+  LibrarianActivityRow,
+} from '@/types/report.types';
+
+// ===== CONFIGURACIÓN =====
+
+// El backend limita las páginas a 100 elementos; se recorren como máximo
+// REPORT_MAX_PAGES páginas de préstamos para no saturar el servidor en períodos
+// largos. Si se alcanza el tope, el reporte lo indica como incompleto
+const REPORT_PAGE_SIZE = 100;
+const REPORT_MAX_PAGES = 20;
+
+// ===== HELPERS =====
+
+const matchesPersonType = (loan: LoanWithDetails, personType?: ReportFilters['personType']) => {
+  if (!personType) return true;
+  return loan.person?.personType?.name === personType;
+};
+
+const getPeriodKey = (date: Date | string, groupBy: ReportGrouping): { key: string; label: string } => {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+
+  switch (groupBy) {
+    case 'day':
+      return {
+        key: format(dateObj, 'yyyy-MM-dd'),
+        label: format(dateObj, 'dd MMM yyyy', { locale: es }),
+      };
+    case 'week': {
+      const weekStart = startOfWeek(dateObj, { weekStartsOn: 1 });
+      return {
+        key: format(weekStart, 'yyyy-MM-dd'),
+        label: `Semana del ${format(weekStart, 'dd MMM yyyy', { locale: es })}`,
+      };
+    }
+    case 'month':
+    default:
+      return {
+        key: format(dateObj, 'yyyy-MM'),
+        label: format(dateObj, 'MMMM yyyy', { locale: es }),
+      };
+  }
+};
+
+const getUserDisplayName = (user: LoanWithDetails['loanedByUser']) => {
+  if (!user) return 'Desconocido';
+  const fullName = `${user.firstName || ''} ${user.lastName || ''}`.trim();
+  return fullName || user.username || 'Desconocido';
+};
+
+const groupResources = (
+  resources: Resource[],
+  getName: (resource: Resource) => string | undefined,
+  fallback: string
+): InventoryGroupRow[] => {
+  const groups = resources.reduce((acc, resource) => {
+    const name = getName(resource) || fallback;
+    if (!acc[name]) {
+      acc[name] = { name, total: 0, available: 0, borrowed: 0 };
+    }
+    acc[name].total += 1;
+    if (resource.available) {
+      acc[name].available += 1;
+    } else {
+      acc[name].borrowed += 1;
+    }
+    return acc;
+  }, {} as Record<string, InventoryGroupRow>);
+
+  return Object.values(groups).sort((a, b) => b.total - a.total);
+};
+
+// ===== SERVICIO PRINCIPAL =====
+
+export class ReportService {
+  // ===== OBTENCIÓN DE DATOS =====
+
+  /**
+   * Obtener todos los préstamos de un rango de fechas recorriendo la paginación
+   */
+  static async getLoansForPeriod(filters: ReportFilters = {}): Promise<ReportLoans> {
+    const searchFilters: LoanSearchFilters = {
+      limit: REPORT_PAGE_SIZE,
+      dateFrom: filters.dateFrom || undefined,
+      dateTo: filters.dateTo || undefined,
+    };
+
+    const { loans, truncated } = await ReportService.fetchLoanPages(page =>
+      LoanService.searchLoans({ ...searchFilters, page })
+    );
+
+    return {
+      loans: loans.filter(loan => matchesPersonType(loan, filters.personType)),
+      truncated,
+    };
+  }
+
+  /**
+   * Obtener todos los préstamos vencidos con los filtros del reporte
+   */
+  static async getOverdueLoansForPeriod(filters: ReportFilters = {}): Promise<ReportLoans> {
+    const overdueFilters: OverdueFilters = {
+      limit: REPORT_PAGE_SIZE,
+      personType: filters.personType,
+      dateFrom: filters.dateFrom || undefined,
+      dateTo: filters.dateTo || undefined,
+    };
+
+    return ReportService.fetchLoanPages(page => LoanService.getOverdueLoans({ ...overdueFilters, page }));
+  }
+
+  /**
+   * Recorrer páginas de préstamos hasta la última o hasta el tope
+   */
+  private static async fetchLoanPages(
+    fetchPage: (page: number) => Promise<PaginatedResponse<LoanWithDetails>>
+  ): Promise<ReportLoans> {
+    const loans: LoanWithDetails[] = [];
+
+    for (let page = 1; page <= REPORT_MAX_PAGES; page++) {
+      const response = await fetchPage(page);
+      loans.push(...response.data);
+
+      if (!response.pagination.hasNext) {
+        return { loans, truncated: false };
+      }
+    }
+
+    return { loans, truncated: true };
+  }
+
+  // ===== REPORTES =====
+
+  /**
+   * Reporte de préstamos agrupados por período (día, semana o mes)
+   */
+  static async getLoansByPeriodReport(filters: ReportFilters = {}): Promise<LoansByPeriodReport> {
+    const { loans, truncated } = await ReportService.getLoansForPeriod(filters);
+    const groupBy = filters.groupBy || 'month';
+
+    const periods = loans.reduce((acc, loan) => {
+      const { key, label } = getPeriodKey(loan.loanDate, groupBy);
+      if (!acc[key]) {
+        acc[key] = { period: key, label, loans: 0, returned: 0, overdue: 0, quantity: 0 };
+      }
+      acc[key].loans += 1;
+      acc[key].quantity += loan.quantity || 1;
+      if (loan.status?.name === 'returned' || loan.returnedDate) acc[key].returned += 1;
+      if (loan.isOverdue) acc[key].overdue += 1;
+      return acc;
+    }, {} as Record<string, LoansByPeriodRow>);
+
+    return {
+      periods: Object.values(periods).sort((a, b) => a.period.localeCompare(b.period)),
+      totals: {
+        loans: loans.length,
+        active: loans.filter(loan => loan.status?.name === 'active').length,
+        returned: loans.filter(loan => loan.status?.name === 'returned').length,
+        overdue: loans.filter(loan => loan.isOverdue).length,
+        lost: loans.filter(loan => loan.status?.name === 'lost').length,
+        quantity: loans.reduce((acc, loan) => acc + (loan.quantity || 1), 0),
+      },
+      byPersonType: {
+        students: loans.filter(loan => loan.person?.personType?.name === 'student').length,
+        teachers: loans.filter(loan => loan.person?.personType?.name === 'teacher').length,
+      },
+      truncated,
+    };
+  }
+
+  /**
+   * Reporte de préstamos vencidos agrupados por grado
+   */
+  static async getOverdueByGradeReport(filters: ReportFilters = {}): Promise<OverdueByGradeReport> {
+    const [{ loans: overdueLoans, truncated }, overdueStats, detailedStats] = await Promise.all([
+      ReportService.getOverdueLoansForPeriod(filters),
+      LoanService.getOverdueStats().catch(() => null),
+      DashboardService.getDetailedStats().catch(() => null),
+    ]);
+
+    const studentsByGrade = (detailedStats?.people.byGrade || []).reduce((acc, item) => {
+      acc[item.grade] = item.count;
+      return acc;
+    }, {} as Record<string, number>);
+
+    const groups = overdueLoans.reduce((acc, loan) => {
+      const grade = loan.person?.grade?.trim() ||
+        (loan.person?.personType?.name === 'teacher' ? 'Docentes' : 'Sin grado');
+      if (!acc[grade]) {
+        acc[grade] = { loans: [], people: new Set<string>() };
+      }
+      acc[grade].loans.push(loan);
+      if (loan.person?._id) acc[grade].people.add(loan.person._id);
+      return acc;
+    }, {} as Record<string, { loans: LoanWithDetails[]; people: Set<string> }>);
+
+    const grades: OverdueByGradeRow[] = Object.entries(groups).map(([grade, group]) => {
+      const days = group.loans.map(loan => loan.daysOverdue || LoanService.calculateDaysOverdue(loan.dueDate));
+      return {
+        grade,
+        overdueLoans: group.loans.length,
+        people: group.people.size,
+        studentsInGrade: studentsByGrade[grade] || 0,
+        averageDaysOverdue: days.length > 0 ? days.reduce((a, b) => a + b, 0) / days.length : 0,
+        maxDaysOverdue: days.length > 0 ? Math.max(...days) : 0,
+      };
+    }).sort((a, b) => b.overdueLoans - a.overdueLoans);
+
+    const allDays = overdueLoans.map(loan => loan.daysOverdue || LoanService.calculateDaysOverdue(loan.dueDate));
+    const hasPeriodFilters = Boolean(filters.dateFrom || filters.dateTo || filters.personType);
+
+    return {
+      grades,
+      totalOverdue: overdueLoans.length,
+      averageDaysOverdue: allDays.length > 0 ? allDays.reduce((a, b) => a + b, 0) / allDays.length : 0,
+      // Sin filtros se usan las estadísticas globales del backend
+      byDaysOverdue: !hasPeriodFilters && overdueStats
+        ? overdueStats.byDaysOverdue
+        : {
+          '1-7': allDays.filter(days => days >= 1 && days <= 7).length,
+          '8-14': allDays.filter(days => days >= 8 && days <= 14).length,
+          '15-30': allDays.filter(days => days >= 15 && days <= 30).length,
+          '30+': allDays.filter(days => days > 30).length,
+        },
+      truncated,
+    };
+  }
+
+  /**
+   * Reporte de recursos más prestados
+   */
+  static async getMostBorrowedReport(filters: ReportFilters = {}): Promise<MostBorrowedReport> {
+    const limit = filters.limit || 20;
+    const hasPeriodFilters = Boolean(filters.dateFrom || filters.dateTo || filters.personType);
+
+    // Sin filtros se usa el ranking global calculado por el backend
+    if (!hasPeriodFilters) {
+      const stats = await LoanService.getLoanStatistics();
+      return {
+        resources: (stats.topBorrowedResources || []).slice(0, limit).map(item => ({
+          resourceId: item.resourceId,
+          title: item.title,
+          loans: item.count,
+        })),
+        totalLoans: stats.totalLoans,
+        source: 'statistics',
+        truncated: false,
+      };
+    }
+
+    const { loans, truncated } = await ReportService.getLoansForPeriod(filters);
+
+    const groups = loans.reduce((acc, loan) => {
+      const resourceId = loan.resource?._id || loan.resourceId;
+      if (!acc[resourceId]) {
+        acc[resourceId] = {
+          row: {
+            resourceId,
+            title: loan.resource?.title || 'Recurso desconocido',
+            author: loan.resource?.author,
+            loans: 0,
+          },
+          quantity: 0,
+          borrowers: new Set<string>(),
+        };
+      }
+      acc[resourceId].row.loans += 1;
+      acc[resourceId].quantity += loan.quantity || 1;
+      acc[resourceId].borrowers.add(loan.person?._id || loan.personId);
+      return acc;
+    }, {} as Record<string, { row: MostBorrowedRow; quantity: number; borrowers: Set<string> }>);
+
+    const resources = Object.values(groups)
+      .map(({ row, quantity, borrowers }) => ({ ...row, quantity, borrowers: borrowers.size }))
+      .sort((a, b) => b.loans - a.loans)
+      .slice(0, limit);
+
+    return {
+      resources,
+      totalLoans: loans.length,
+      source: 'period',
+      truncated,
+    };
+  }
+
+  /**
+   * Reporte de inventario por categoría, ubicación, estado y tipo
+   */
+  static async getInventoryReport(): Promise<InventoryReport> {
+    const [resources, stock] = await Promise.all([
+      ResourceService.getAllResources(),
+      LoanService.getStockStatistics().catch(() => null),
+    ]);
+
+    const available = resources.filter(resource => resource.available).length;
+
+    return {
+      byCategory: groupResources(resources, resource => resource.category?.name, 'Sin categoría'),
+      byLocation: groupResources(resources, resource => resource.location?.name, 'Sin ubicación'),
+      byState: groupResources(resources, resource => resource.state?.description || resource.state?.name, 'Sin estado'),
+      byType: groupResources(resources, resource => resource.type?.description || resource.type?.name, 'Sin tipo'),
+      totals: {
+        total: resources.length,
+        available,
+        borrowed: resources.length - available,
+      },
+      stock,
+    };
+  }
+
+  /**
+   * Reporte de actividad (préstamos y devoluciones) por bibliotecario
+   */
+  static async getLibrarianActivityReport(filters: ReportFilters = {}): Promise<LibrarianActivityReport> {
+    const { loans, truncated } = await ReportService.getLoansForPeriod(filters);
+    const rows: Record<string, LibrarianActivityRow> = {};
+
+    const touch = (user: LoanWithDetails['loanedByUser'], fallbackId: string | undefined, date?: Date) => {
+      const userId = user?._id || fallbackId;
+      if (!userId) return null;
+      if (!rows[userId]) {
+        rows[userId] = {
+          userId,
+          name: getUserDisplayName(user),
+          username: user?.username,
+          loans: 0,
+          returns: 0,
+        };
+      }
+      if (date && (!rows[userId].lastActivity || new Date(date) > new Date(rows[userId].lastActivity!))) {
+        rows[userId].lastActivity = date;
+      }
+      return rows[userId];
+    };
+
+    let totalReturns = 0;
+
+    loans.forEach(loan => {
+      const loanRow = touch(loan.loanedByUser, loan.loanedBy, loan.loanDate);
+      if (loanRow) loanRow.loans += 1;
+
+      if (loan.returnedDate) {
+        const returnRow = touch(loan.returnedByUser, loan.returnedBy, loan.returnedDate);
+        if (returnRow) {
+          returnRow.returns += 1;
+          totalReturns += 1;
+        }
+      }
+    });
+
+    return {
+      librarians: Object.values(rows).sort((a, b) => (b.loans + b.returns) - (a.loans + a.returns)),
+      totalLoans: loans.length,
+      totalReturns,
+      truncated,
+    };
+  }
+
+  // ===== EXPORTACIÓN =====
+
+  /**
+   * Convertir filas de un reporte a CSV (separador ';' para Excel en español)
+   */
+  static toCSV<T>(rows: T[], columns: ReportColumn<T>[]): string {
+    const escape = (value: unknown) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = columns.map(column => escape(column.label)).join(';');
+    const lines = rows.map(row => columns.map(column => escape(row[column.key])).join(';'));
+
+    return [header, ...lines].join('\n');
+  }
+
+  /**
+   * Descargar un reporte como archivo CSV
+   */
+  static downloadCSV<T>(filename: string, rows: T[], columns: ReportColumn<T>[]): void {
+    const csv = ReportService.toCSV(rows, columns);
+    // BOM para que Excel reconozca UTF-8 (tildes y eñes)
+    const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename.endsWith('.csv') ? filename : `${filename}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
+
+export default ReportService;
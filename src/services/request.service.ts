@@ -0,0 +1,190 @@
+// src/services/request.service.ts
+import axiosInstance from '@/lib/axios';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  Request,
+  Priority,
+  RequestStatus,
+  CreateRequestRequest,
+  UpdateRequestRequest,
+  RequestFilters,
+} from '@/types/api.types';
+
+const REQUEST_ENDPOINTS = {
+  REQUESTS: '/requests',
+  REQUEST_BY_ID: (id: string) => `/requests/${id}`,
+  APPROVE: (id: string) => `/requests/${id}/approve`,
+  REJECT: (id: string) => `/requests/${id}/reject`,
+  ACQUIRE: (id: string) => `/requests/${id}/acquire`,
+  PRIORITIES: '/requests/priorities/all',
+  STATUSES: '/requests/statuses/all',
+} as const;
+
+export class RequestService {
+  /**
+   * Obtener solicitudes con filtros y paginación
+   */
+  static async getRequests(filters: RequestFilters = {}): Promise<PaginatedResponse<Request>> {
+    const params = new URLSearchParams();
+
+    if (filters.search?.trim()) params.append('search', filters.search.trim());
+    if (filters.status) params.append('status', filters.status);
+    if (filters.priority) params.append('priority', filters.priority);
+    if (filters.categoryId) params.append('categoryId', filters.categoryId);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', Math.min(filters.limit, 100).toString());
+    if (filters.sortBy) params.append('sortBy', filters.sortBy);
+    if (filters.sortOrder) params.append('sortOrder', filters.sortOrder);
+
+    const url = params.toString()
+      ? `${REQUEST_ENDPOINTS.REQUESTS}?${params.toString()}`
+      : REQUEST_ENDPOINTS.REQUESTS;
+
+    const response = await axiosInstance.get<ApiResponse<PaginatedResponse<Request>>>(url);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener solicitudes');
+  }
+
+  /**
+   * Obtener solicitud por ID
+   */
+  static async getRequestById(id: string): Promise<Request> {
+    const response = await axiosInstance.get<ApiResponse<Request>>(
+      REQUEST_ENDPOINTS.REQUEST_BY_ID(id)
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener solicitud');
+  }
+
+  /**
+   * Crear una nueva solicitud de adquisición
+   */
+  static async createRequest(data: CreateRequestRequest): Promise<Request> {
+    const response = await axiosInstance.post<ApiResponse<Request>>(
+      REQUEST_ENDPOINTS.REQUESTS,
+      data
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al crear solicitud');
+  }
+
+  /**
+   * Actualizar una solicitud (solo mientras está pendiente)
+   */
+  static async updateRequest(id: string, data: UpdateRequestRequest): Promise<Request> {
+    const response = await axiosInstance.put<ApiResponse<Request>>(
+      REQUEST_ENDPOINTS.REQUEST_BY_ID(id),
+      data
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al actualizar solicitud');
+  }
+
+  /**
+   * Eliminar una solicitud
+   */
+  static async deleteRequest(id: string): Promise<void> {
+    const response = await axiosInstance.delete<ApiResponse<null>>(
+      REQUEST_ENDPOINTS.REQUEST_BY_ID(id)
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Error al eliminar solicitud');
+    }
+  }
+
+  // ===== TRANSICIONES DE ESTADO =====
+
+  /**
+   * Aprobar una solicitud pendiente
+   */
+  static async approveRequest(id: string, reason?: string): Promise<Request> {
+    const response = await axiosInstance.put<ApiResponse<Request>>(
+      REQUEST_ENDPOINTS.APPROVE(id),
+      { reason }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al aprobar solicitud');
+  }
+
+  /**
+   * Rechazar una solicitud indicando el motivo
+   */
+  static async rejectRequest(id: string, reason: string): Promise<Request> {
+    const response = await axiosInstance.put<ApiResponse<Request>>(
+      REQUEST_ENDPOINTS.REJECT(id),
+      { reason }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al rechazar solicitud');
+  }
+
+  /**
+   * Marcar una solicitud aprobada como adquirida, opcionalmente vinculando el recurso creado
+   */
+  static async markAsAcquired(id: string, resourceId?: string): Promise<Request> {
+    const response = await axiosInstance.put<ApiResponse<Request>>(
+      REQUEST_ENDPOINTS.ACQUIRE(id),
+      { resourceId }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al marcar solicitud como adquirida');
+  }
+
+  // ===== CATÁLOGOS =====
+
+  /**
+   * Obtener prioridades disponibles
+   */
+  static async getPriorities(): Promise<Priority[]> {
+    const response = await axiosInstance.get<ApiResponse<Priority[]>>(REQUEST_ENDPOINTS.PRIORITIES);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener prioridades');
+  }
+
+  /**
+   * Obtener estados de solicitud disponibles
+   */
+  static async getStatuses(): Promise<RequestStatus[]> {
+    const response = await axiosInstance.get<ApiResponse<RequestStatus[]>>(REQUEST_ENDPOINTS.STATUSES);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener estados de solicitud');
+  }
+}
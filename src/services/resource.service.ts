@@ -22,7 +22,14 @@ import type {
   ResourceTypeListResponse,
   ResourceStateListResponse,
   GoogleBooksSearchResponse,
+  ResourceImportItem,
+  BulkResourceImport,
+  BulkImportResult,
+  BulkResourceUpdate,
+  BulkUpdateResult,
 } from '@/types/resource.types';
+import { ValidationUtils } from '@/utils';
+import { ResourceCopyService } from './resourceCopy.service';
 
 // Importar ApiResponse para respuestas específicas
 import type { ApiResponse, PaginatedResponse } from '@/types/api.types';
@@ -209,6 +216,55 @@ export class ResourceService {
     }
   }
   
+  /**
+   * Obtener un recurso a partir del código leído de su etiqueta:
+   * el _id (ObjectId) que codifican las etiquetas, el código de un ejemplar o el ISBN del libro
+   */
+  static async getResourceByCode(code: string): Promise<Resource> {
+    const scanned = code.trim();
+
+    if (/^[a-f0-9]{24}$/i.test(scanned)) {
+      return this.getResourceById(scanned.toLowerCase());
+    }
+    const copyCode = ResourceCopyService.parseBarcode(scanned);
+    if (copyCode) {
+      return this.getResourceById(copyCode.resourceId);
+    }
+    if (ValidationUtils.isValidISBN(scanned)) {
+      return this.getResourceByISBN(scanned.replace(/[-\s]/g, ''));
+    }
+
+    throw new Error(`El código "${scanned}" no corresponde a una etiqueta de recurso`);
+  }
+
+  /**
+   * Obtener todos los recursos que cumplen los filtros (recorre todas las páginas)
+   */
+  static async getAllResources(filters: Omit<ResourceFilters, 'page' | 'limit'> = {}): Promise<Resource[]> {
+    const resources: Resource[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await this.getResources({ sortBy: 'title', sortOrder: 'asc', ...filters, page, limit: 100 });
+      resources.push(...response.data);
+      totalPages = response.pagination.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return resources;
+  }
+
+  /**
+   * Obtener todos los recursos registrados en una ubicación
+   */
+  static async getResourcesByLocation(locationId: string): Promise<Resource[]> {
+    const resources = await this.getAllResources({ locationId });
+
+    console.log(`✅ ResourceService: ${resources.length} recursos en la ubicación ${locationId}`);
+    return resources;
+  }
+
   /**
    * Buscar recursos disponibles (optimizado para componentes de búsqueda)
    */
@@ -581,6 +637,136 @@ export class ResourceService {
     }
   }
   
+  // ===== IMPORTACIÓN MASIVA =====
+
+  /**
+   * Registrar un recurso de importación resolviendo autores y editorial por nombre
+   */
+  static async importResource(
+    item: ResourceImportItem,
+    createMissingEntities = true
+  ): Promise<{ resource: Resource; authors: Author[]; publisher?: Publisher }> {
+    const { authorNames, publisherName, ...data } = item;
+    let authors: Author[] = [];
+    let publisher: Publisher | undefined;
+
+    if (createMissingEntities && authorNames && authorNames.length > 0) {
+      authors = await this.bulkCreateAuthors(authorNames);
+    }
+
+    if (createMissingEntities && publisherName?.trim()) {
+      publisher = await this.findOrCreatePublisher(publisherName);
+    }
+
+    const resource = await this.createResource({
+      ...data,
+      authorIds: [...(data.authorIds || []), ...authors.map(author => author._id)],
+      publisherId: publisher?._id || data.publisherId,
+    });
+
+    return { resource, authors, publisher };
+  }
+
+  /**
+   * Importar varios recursos, uno a uno, continuando ante errores
+   */
+  static async bulkImportResources(
+    data: BulkResourceImport,
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<BulkImportResult> {
+    const { resources, options } = data;
+    const result: BulkImportResult = {
+      successful: [],
+      failed: [],
+      skipped: [],
+      summary: { total: resources.length, successful: 0, failed: 0, skipped: 0 },
+      createdEntities: { authors: [], publishers: [], categories: [] },
+    };
+
+    console.log('📥 ResourceService: Importación masiva de recursos:', { total: resources.length, options });
+
+    for (let index = 0; index < resources.length; index++) {
+      const item = resources[index];
+
+      try {
+        if (options.skipDuplicates && item.isbn) {
+          const exists = await this.getResourceByISBN(item.isbn).then(() => true, () => false);
+          if (exists) {
+            result.skipped.push({ resource: item, reason: 'Ya existe un recurso con este ISBN', index });
+            result.summary.skipped++;
+            continue;
+          }
+        }
+
+        if (options.validateOnly) {
+          result.skipped.push({ resource: item, reason: 'Solo validación', index });
+          result.summary.skipped++;
+          continue;
+        }
+
+        const { resource, authors, publisher } = await this.importResource(item, options.createMissingEntities);
+        result.successful.push(resource);
+        result.summary.successful++;
+
+        authors.forEach(author => {
+          if (!result.createdEntities.authors.some(existing => existing._id === author._id)) {
+            result.createdEntities.authors.push(author);
+          }
+        });
+        if (publisher && !result.createdEntities.publishers.some(existing => existing._id === publisher._id)) {
+          result.createdEntities.publishers.push(publisher);
+        }
+      } catch (error: any) {
+        const message = error?.response?.data?.message || error?.message || 'Error al crear recurso';
+        result.failed.push({
+          resource: item,
+          error: Array.isArray(message) ? message.join(', ') : message,
+          index,
+        });
+        result.summary.failed++;
+      } finally {
+        onProgress?.(index + 1, resources.length);
+      }
+    }
+
+    console.log('✅ ResourceService: Importación masiva completada:', result.summary);
+    return result;
+  }
+
+  /**
+   * Actualizar varios recursos, uno a uno, continuando ante errores
+   */
+  static async bulkUpdateResources(
+    updates: BulkResourceUpdate[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<BulkUpdateResult> {
+    const result: BulkUpdateResult = { successful: [], failed: [] };
+
+    console.log('✏️ ResourceService: Actualización masiva de recursos:', updates.length);
+
+    for (let index = 0; index < updates.length; index++) {
+      const { resourceId, data } = updates[index];
+
+      try {
+        result.successful.push(await this.updateResource(resourceId, data));
+      } catch (error: any) {
+        const message = error?.response?.data?.message || error?.message || 'Error al actualizar recurso';
+        result.failed.push({
+          resourceId,
+          error: Array.isArray(message) ? message.join(', ') : message,
+        });
+      } finally {
+        onProgress?.(index + 1, updates.length);
+      }
+    }
+
+    console.log('✅ ResourceService: Actualización masiva completada:', {
+      successful: result.successful.length,
+      failed: result.failed.length,
+    });
+    return result;
+  }
+
   // ===== GOOGLE BOOKS =====
   static async searchGoogleBooks(query: string, maxResults = 10): Promise<GoogleBooksVolume[]> {
     try {
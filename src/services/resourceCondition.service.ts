@@ -0,0 +1,225 @@
+// src/services/resourceCondition.service.ts
+import axiosInstance from '@/lib/axios';
+import type { ApiResponse, PaginatedResponse } from '@/types/api.types';
+import type {
+  Resource,
+  ResourceState,
+  ResourceConditionEvent,
+  CreateConditionEventRequest,
+  ConditionEventFilters,
+  ConditionChangeSource,
+  BorrowerDegradationSummary,
+} from '@/types/resource.types';
+import { ResourceService } from './resource.service';
+
+const CONDITION_ENDPOINTS = {
+  EVENTS: '/resource-conditions',
+  RESOURCE_HISTORY: (resourceId: string) => `/resource-conditions/resource/${resourceId}`,
+} as const;
+
+// Orden de gravedad de los estados: un cambio a un valor mayor es un deterioro
+const STATE_SEVERITY: Record<ResourceState['name'], number> = {
+  good: 0,
+  deteriorated: 1,
+  damaged: 2,
+  lost: 3,
+};
+
+// Máximo de páginas a recorrer al armar el reporte por persona
+const REPORT_MAX_PAGES = 10;
+
+export class ResourceConditionService {
+  /**
+   * Obtener eventos de estado con filtros y paginación
+   */
+  static async getConditionEvents(
+    filters: ConditionEventFilters = {}
+  ): Promise<PaginatedResponse<ResourceConditionEvent>> {
+    const params = new URLSearchParams();
+
+    if (filters.resourceId) params.append('resourceId', filters.resourceId);
+    if (filters.personId) params.append('personId', filters.personId);
+    if (filters.source) params.append('source', filters.source);
+    if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
+    if (filters.dateTo) params.append('dateTo', filters.dateTo);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', Math.min(filters.limit, 100).toString());
+
+    const url = params.toString()
+      ? `${CONDITION_ENDPOINTS.EVENTS}?${params.toString()}`
+      : CONDITION_ENDPOINTS.EVENTS;
+
+    const response = await axiosInstance.get<ApiResponse<PaginatedResponse<ResourceConditionEvent>>>(url);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener el historial de estado');
+  }
+
+  /**
+   * Obtener el historial de estado de un recurso, del más reciente al más antiguo
+   */
+  static async getResourceHistory(resourceId: string): Promise<ResourceConditionEvent[]> {
+    const response = await axiosInstance.get<ApiResponse<ResourceConditionEvent[]>>(
+      CONDITION_ENDPOINTS.RESOURCE_HISTORY(resourceId)
+    );
+
+    if (response.data.success && response.data.data) {
+      return [...response.data.data].sort(
+        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+    }
+
+    throw new Error(response.data.message || 'Error al obtener el historial del recurso');
+  }
+
+  /**
+   * Registrar un evento de estado
+   */
+  static async recordEvent(data: CreateConditionEventRequest): Promise<ResourceConditionEvent> {
+    const response = await axiosInstance.post<ApiResponse<ResourceConditionEvent>>(
+      CONDITION_ENDPOINTS.EVENTS,
+      {
+        ...data,
+        observations: data.observations?.trim() || undefined,
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al registrar el cambio de estado');
+  }
+
+  /**
+   * Registrar varios eventos sin interrumpir la operación que los generó:
+   * el cambio ya quedó aplicado aunque el historial no se pueda guardar
+   */
+  static async recordEventsSafely(events: CreateConditionEventRequest[]): Promise<ResourceConditionEvent[]> {
+    const recorded: ResourceConditionEvent[] = [];
+
+    for (const event of events) {
+      try {
+        recorded.push(await this.recordEvent(event));
+      } catch (error: any) {
+        console.error('❌ ResourceConditionService: No se pudo registrar el historial de estado:', error);
+      }
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Cambiar el estado de un recurso y dejar constancia en su historial
+   */
+  static async changeCondition(
+    resource: Resource,
+    newStateId: string,
+    details: {
+      source: ConditionChangeSource;
+      observations?: string;
+      loanId?: string;
+      personId?: string;
+    }
+  ): Promise<{ resource: Resource; event: ResourceConditionEvent | null }> {
+    const previousStateId = resource.state?._id || resource.stateId;
+    const updated = previousStateId === newStateId
+      ? resource
+      : await ResourceService.updateResource(resource._id, { stateId: newStateId });
+
+    const [event] = await this.recordEventsSafely([{
+      resourceId: resource._id,
+      previousStateId,
+      newStateId,
+      ...details,
+    }]);
+
+    return { resource: updated, event: event || null };
+  }
+
+  /**
+   * Personas tras cuyas devoluciones los recursos empeoraron de estado,
+   * ordenadas por cantidad de deterioros
+   */
+  static async getDegradationByBorrower(
+    filters: Pick<ConditionEventFilters, 'dateFrom' | 'dateTo'> = {}
+  ): Promise<BorrowerDegradationSummary[]> {
+    const [states, events] = await Promise.all([
+      ResourceService.getResourceStates(),
+      this.getAllReturnEvents(filters),
+    ]);
+
+    const stateNames = new Map(states.map(state => [state._id, state.name]));
+    const byPerson = new Map<string, BorrowerDegradationSummary>();
+
+    events
+      .filter(event => event.person && this.isDegradation(event, stateNames))
+      .forEach(event => {
+        const person = event.person!;
+        const summary = byPerson.get(person._id) || {
+          person,
+          degradations: [],
+          resourceCount: 0,
+          lastDegradationAt: event.createdAt,
+        };
+
+        summary.degradations.push(event);
+        summary.resourceCount = new Set(summary.degradations.map(item => item.resourceId)).size;
+        if (new Date(event.createdAt) > new Date(summary.lastDegradationAt)) {
+          summary.lastDegradationAt = event.createdAt;
+        }
+        byPerson.set(person._id, summary);
+      });
+
+    return Array.from(byPerson.values()).sort(
+      (a, b) => b.degradations.length - a.degradations.length
+        || new Date(b.lastDegradationAt).getTime() - new Date(a.lastDegradationAt).getTime()
+    );
+  }
+
+  // ===== UTILIDADES =====
+
+  /**
+   * Verificar si el evento empeoró el estado del recurso
+   */
+  static isDegradation(
+    event: ResourceConditionEvent,
+    stateNames: Map<string, ResourceState['name']> = new Map()
+  ): boolean {
+    const previousName = event.previousState?.name
+      || (event.previousStateId ? stateNames.get(event.previousStateId) : undefined);
+    const newName = event.newState?.name || stateNames.get(event.newStateId);
+
+    if (!previousName || !newName) return false;
+    return STATE_SEVERITY[newName] > STATE_SEVERITY[previousName];
+  }
+
+  /**
+   * Estado que queda tras una devolución: el informado solo si es peor que el
+   * actual. Mejorar el estado de un recurso es siempre un cambio manual
+   */
+  static getReturnedState(current: ResourceState | undefined, reported: ResourceState): ResourceState {
+    if (!current) return reported;
+    return STATE_SEVERITY[reported.name] > STATE_SEVERITY[current.name] ? reported : current;
+  }
+
+  private static async getAllReturnEvents(
+    filters: Pick<ConditionEventFilters, 'dateFrom' | 'dateTo'>
+  ): Promise<ResourceConditionEvent[]> {
+    const events: ResourceConditionEvent[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await this.getConditionEvents({ ...filters, source: 'return', page, limit: 100 });
+      events.push(...response.data);
+      totalPages = Math.min(response.pagination.totalPages, REPORT_MAX_PAGES);
+      page++;
+    } while (page <= totalPages);
+
+    return events;
+  }
+}
@@ -0,0 +1,142 @@
+// src/services/resourceCopy.service.ts
+import axiosInstance from '@/lib/axios';
+import type { ApiResponse } from '@/types/api.types';
+import type {
+  ResourceCopy,
+  CreateResourceCopyRequest,
+  UpdateResourceCopyRequest,
+} from '@/types/resource.types';
+
+const COPY_ENDPOINTS = {
+  RESOURCE_COPIES: (resourceId: string) => `/resources/${resourceId}/copies`,
+  COPY_BY_ID: (copyId: string) => `/resource-copies/${copyId}`,
+  COPY_BY_BARCODE: (barcode: string) => `/resource-copies/barcode/${encodeURIComponent(barcode)}`,
+} as const;
+
+// Código de barras por defecto de un ejemplar: id del recurso + número de copia
+const COPY_BARCODE_PATTERN = /^([a-f0-9]{24})-(\d+)$/i;
+
+export class ResourceCopyService {
+  /**
+   * Obtener los ejemplares de un recurso ordenados por número de copia
+   */
+  static async getCopies(resourceId: string): Promise<ResourceCopy[]> {
+    const response = await axiosInstance.get<ApiResponse<ResourceCopy[]>>(
+      COPY_ENDPOINTS.RESOURCE_COPIES(resourceId)
+    );
+
+    if (response.data.success && response.data.data) {
+      return [...response.data.data].sort((a, b) => a.copyNumber - b.copyNumber);
+    }
+
+    throw new Error(response.data.message || 'Error al obtener los ejemplares');
+  }
+
+  /**
+   * Obtener un ejemplar por su código de barras
+   */
+  static async getCopyByBarcode(barcode: string): Promise<ResourceCopy> {
+    const response = await axiosInstance.get<ApiResponse<ResourceCopy>>(
+      COPY_ENDPOINTS.COPY_BY_BARCODE(barcode.trim())
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Ejemplar no encontrado');
+  }
+
+  /**
+   * Agregar un ejemplar a un recurso. Sin número ni código se asignan los siguientes libres
+   */
+  static async createCopy(
+    resourceId: string,
+    data: CreateResourceCopyRequest,
+    existingCopies: ResourceCopy[] = []
+  ): Promise<ResourceCopy> {
+    const copyNumber = data.copyNumber || this.getNextCopyNumber(existingCopies);
+
+    const response = await axiosInstance.post<ApiResponse<ResourceCopy>>(
+      COPY_ENDPOINTS.RESOURCE_COPIES(resourceId),
+      {
+        ...data,
+        copyNumber,
+        barcode: data.barcode?.trim() || this.buildBarcode(resourceId, copyNumber),
+        notes: data.notes?.trim() || undefined,
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al agregar el ejemplar');
+  }
+
+  /**
+   * Actualizar un ejemplar
+   */
+  static async updateCopy(copyId: string, data: UpdateResourceCopyRequest): Promise<ResourceCopy> {
+    const response = await axiosInstance.put<ApiResponse<ResourceCopy>>(
+      COPY_ENDPOINTS.COPY_BY_ID(copyId),
+      {
+        ...data,
+        barcode: data.barcode?.trim() || undefined,
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al actualizar el ejemplar');
+  }
+
+  /**
+   * Eliminar un ejemplar
+   */
+  static async deleteCopy(copyId: string): Promise<void> {
+    const response = await axiosInstance.delete<ApiResponse<void>>(COPY_ENDPOINTS.COPY_BY_ID(copyId));
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Error al eliminar el ejemplar');
+    }
+  }
+
+  /**
+   * Elegir el primer ejemplar disponible que no esté perdido.
+   * Devuelve null si el recurso no se gestiona por ejemplares o no queda ninguno
+   */
+  static async pickAvailableCopy(resourceId: string): Promise<ResourceCopy | null> {
+    const copies = await this.getCopies(resourceId);
+    return copies.find(copy => this.isLendable(copy)) || null;
+  }
+
+  // ===== UTILIDADES =====
+
+  static isLendable(copy: ResourceCopy): boolean {
+    return copy.available && !copy.currentLoanId && copy.state?.name !== 'lost';
+  }
+
+  static getNextCopyNumber(copies: ResourceCopy[]): number {
+    return copies.reduce((max, copy) => Math.max(max, copy.copyNumber), 0) + 1;
+  }
+
+  static buildBarcode(resourceId: string, copyNumber: number): string {
+    return `${resourceId}-${copyNumber}`;
+  }
+
+  /**
+   * Extraer el recurso de un código de ejemplar generado por el sistema
+   */
+  static parseBarcode(code: string): { resourceId: string; copyNumber: number } | null {
+    const match = code.trim().match(COPY_BARCODE_PATTERN);
+    if (!match) return null;
+    return { resourceId: match[1].toLowerCase(), copyNumber: parseInt(match[2], 10) };
+  }
+
+  static getCopyLabel(copy: Pick<ResourceCopy, 'copyNumber'>): string {
+    return `Ejemplar ${copy.copyNumber}`;
+  }
+}
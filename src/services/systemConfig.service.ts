@@ -0,0 +1,158 @@
+// src/services/systemConfig.service.ts
+import axiosInstance from '@/lib/axios';
+import { LOAN_LIMITS } from '@/types/loan.types';
+import type {
+  ApiResponse,
+  PersonTypeLoanRules,
+  SystemConfiguration,
+} from '@/types/api.types';
+
+const SYSTEM_CONFIG_ENDPOINTS = {
+  CONFIG: '/system/config',
+} as const;
+
+// Configuración usada cuando el servidor aún no tiene una guardada
+export const DEFAULT_SYSTEM_CONFIGURATION: SystemConfiguration = {
+  library: {
+    name: 'Biblioteca Escolar',
+    maxLoansPerPerson: LOAN_LIMITS.MAX_LOANS_PER_PERSON,
+    loanDurationDays: LOAN_LIMITS.MAX_LOAN_DAYS,
+    allowRenewals: true,
+    maxRenewals: 2,
+    holdPickupDays: 3,
+  },
+  loanRules: {
+    student: {
+      maxLoans: LOAN_LIMITS.MAX_LOANS_PER_PERSON,
+      loanDurationDays: LOAN_LIMITS.MAX_LOAN_DAYS,
+      maxQuantityPerLoan: LOAN_LIMITS.MAX_QUANTITY_STUDENT,
+      maxRenewals: 2,
+    },
+    teacher: {
+      maxLoans: LOAN_LIMITS.MAX_LOANS_PER_PERSON,
+      loanDurationDays: LOAN_LIMITS.MAX_LOAN_DAYS,
+      maxQuantityPerLoan: LOAN_LIMITS.MAX_QUANTITY_TEACHER,
+      maxRenewals: 2,
+    },
+  },
+  notifications: {
+    emailEnabled: false,
+    overdueReminders: true,
+    daysBeforeOverdue: 2,
+  },
+  features: {
+    googleBooksEnabled: true,
+    requestsEnabled: true,
+    reportsEnabled: true,
+  },
+};
+
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutos
+
+export class SystemConfigService {
+  private static cache: { config: SystemConfiguration; fetchedAt: number } | null = null;
+
+  /**
+   * Obtener la configuración guardada en el servidor
+   */
+  static async getConfiguration(): Promise<SystemConfiguration> {
+    const response = await axiosInstance.get<ApiResponse<Partial<SystemConfiguration>>>(
+      SYSTEM_CONFIG_ENDPOINTS.CONFIG
+    );
+
+    if (response.data.success && response.data.data) {
+      const config = this.withDefaults(response.data.data);
+      this.cache = { config, fetchedAt: Date.now() };
+      return config;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener la configuración del sistema');
+  }
+
+  /**
+   * Guardar la configuración del sistema
+   */
+  static async updateConfiguration(data: SystemConfiguration): Promise<SystemConfiguration> {
+    const response = await axiosInstance.put<ApiResponse<SystemConfiguration>>(
+      SYSTEM_CONFIG_ENDPOINTS.CONFIG,
+      {
+        ...data,
+        library: { ...data.library, name: data.library.name.trim() },
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      const config = this.withDefaults(response.data.data);
+      this.cache = { config, fetchedAt: Date.now() };
+      return config;
+    }
+
+    throw new Error(response.data.message || 'Error al guardar la configuración del sistema');
+  }
+
+  /**
+   * Configuración vigente para validaciones: usa la caché reciente y,
+   * si el servidor no responde, los valores por defecto
+   */
+  static async getEffectiveConfiguration(): Promise<SystemConfiguration> {
+    if (this.cache && Date.now() - this.cache.fetchedAt < CACHE_TTL) {
+      return this.cache.config;
+    }
+
+    try {
+      return await this.getConfiguration();
+    } catch (error) {
+      console.warn('⚠️ No se pudo obtener la configuración del sistema, usando valores por defecto:', error);
+      return this.cache?.config || DEFAULT_SYSTEM_CONFIGURATION;
+    }
+  }
+
+  // ===== UTILIDADES =====
+
+  /**
+   * Reglas de préstamo del tipo de persona; sin tipo conocido se usan las generales
+   */
+  static getLoanRules(
+    config: SystemConfiguration | undefined,
+    personTypeName?: string
+  ): PersonTypeLoanRules {
+    const current = config || DEFAULT_SYSTEM_CONFIGURATION;
+
+    if (personTypeName === 'student' || personTypeName === 'teacher') {
+      return current.loanRules[personTypeName];
+    }
+
+    return {
+      maxLoans: current.library.maxLoansPerPerson,
+      loanDurationDays: current.library.loanDurationDays,
+      maxQuantityPerLoan: LOAN_LIMITS.MAX_QUANTITY_ABSOLUTE,
+      maxRenewals: current.library.maxRenewals,
+    };
+  }
+
+  /**
+   * Fecha de vencimiento para un préstamo que inicia en la fecha indicada
+   */
+  static calculateDueDate(rules: PersonTypeLoanRules, from: Date = new Date()): Date {
+    const dueDate = new Date(from);
+    dueDate.setDate(dueDate.getDate() + rules.loanDurationDays);
+    return dueDate;
+  }
+
+  /**
+   * Completar con valores por defecto las secciones que falten en la respuesta
+   */
+  private static withDefaults(config: Partial<SystemConfiguration>): SystemConfiguration {
+    const defaults = DEFAULT_SYSTEM_CONFIGURATION;
+
+    return {
+      library: { ...defaults.library, ...config.library },
+      loanRules: {
+        student: { ...defaults.loanRules.student, ...config.loanRules?.student },
+        teacher: { ...defaults.loanRules.teacher, ...config.loanRules?.teacher },
+      },
+      notifications: { ...defaults.notifications, ...config.notifications },
+      features: { ...defaults.features, ...config.features },
+    };
+  }
+}
@@ -0,0 +1,165 @@
+// src/services/user.service.ts
+import axiosInstance from '@/lib/axios';
+import type { ApiResponse, PaginatedResponse, User } from '@/types/api.types';
+
+export type UserRole = User['role'];
+
+export interface CreateUserRequest {
+  email: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface UpdateUserRequest {
+  email?: string;
+  role?: UserRole;
+}
+
+export interface ResetUserPasswordRequest {
+  temporaryPassword: string;
+  // Obligar a cambiar la contraseña en el próximo inicio de sesión
+  mustChangePassword?: boolean;
+}
+
+export interface UserFilters {
+  search?: string;
+  role?: UserRole;
+  active?: boolean;
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+const USER_ENDPOINTS = {
+  USERS: '/users',
+  USER_BY_ID: (id: string) => `/users/${id}`,
+  USER_ACTIVATE: (id: string) => `/users/${id}/activate`,
+  USER_DEACTIVATE: (id: string) => `/users/${id}/deactivate`,
+  USER_RESET_PASSWORD: (id: string) => `/users/${id}/reset-password`,
+} as const;
+
+export class UserService {
+  /**
+   * Obtener usuarios del sistema con filtros y paginación
+   */
+  static async getUsers(filters: UserFilters = {}): Promise<PaginatedResponse<User>> {
+    const params = new URLSearchParams();
+
+    if (filters.search) params.append('search', filters.search);
+    if (filters.role) params.append('role', filters.role);
+    if (filters.active !== undefined) params.append('active', filters.active.toString());
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+    if (filters.sortBy) params.append('sortBy', filters.sortBy);
+    if (filters.sortOrder) params.append('sortOrder', filters.sortOrder);
+
+    const url = params.toString()
+      ? `${USER_ENDPOINTS.USERS}?${params.toString()}`
+      : USER_ENDPOINTS.USERS;
+
+    const response = await axiosInstance.get<ApiResponse<PaginatedResponse<User>>>(url);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener usuarios');
+  }
+
+  /**
+   * Obtener usuario por ID
+   */
+  static async getUserById(id: string): Promise<User> {
+    const response = await axiosInstance.get<ApiResponse<User>>(USER_ENDPOINTS.USER_BY_ID(id));
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al obtener usuario');
+  }
+
+  /**
+   * Crear una cuenta de personal (administrador o bibliotecario)
+   */
+  static async createUser(data: CreateUserRequest): Promise<User> {
+    const response = await axiosInstance.post<ApiResponse<User>>(
+      USER_ENDPOINTS.USERS,
+      {
+        ...data,
+        email: data.email.trim().toLowerCase(),
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al crear usuario');
+  }
+
+  /**
+   * Actualizar un usuario (correo o rol)
+   */
+  static async updateUser(id: string, data: UpdateUserRequest): Promise<User> {
+    const response = await axiosInstance.put<ApiResponse<User>>(
+      USER_ENDPOINTS.USER_BY_ID(id),
+      {
+        ...data,
+        email: data.email?.trim().toLowerCase(),
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al actualizar usuario');
+  }
+
+  /**
+   * Reactivar un usuario
+   */
+  static async activateUser(id: string): Promise<User> {
+    const response = await axiosInstance.put<ApiResponse<User>>(USER_ENDPOINTS.USER_ACTIVATE(id));
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al activar usuario');
+  }
+
+  /**
+   * Desactivar un usuario (no podrá iniciar sesión)
+   */
+  static async deactivateUser(id: string): Promise<User> {
+    const response = await axiosInstance.put<ApiResponse<User>>(USER_ENDPOINTS.USER_DEACTIVATE(id));
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al desactivar usuario');
+  }
+
+  /**
+   * Asignar una contraseña temporal y forzar su cambio en el próximo inicio de sesión
+   */
+  static async resetPassword(id: string, data: ResetUserPasswordRequest): Promise<User> {
+    const response = await axiosInstance.put<ApiResponse<User>>(
+      USER_ENDPOINTS.USER_RESET_PASSWORD(id),
+      {
+        temporaryPassword: data.temporaryPassword,
+        mustChangePassword: data.mustChangePassword ?? true,
+      }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Error al restablecer la contraseña');
+  }
+}
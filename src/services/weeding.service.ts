@@ -0,0 +1,204 @@
+// src/services/weeding.service.ts
+import { LoanService } from './loan.service';
+import { ResourceService } from './resource.service';
+import { getObjectIdTimestamp } from '@/utils/mongo.utils';
+import { DateUtils } from '@/utils';
+import type { LoanWithDetails } from '@/types/loan.types';
+import type {
+  Resource,
+  WeedingFilters,
+  WeedingCandidate,
+  WeedingGroupRow,
+  WeedingReport,
+  WeedingCSVRow,
+} from '@/types/resource.types';
+
+// Préstamos posteriores a la fecha de corte: páginas de 100 con un tope para no
+// saturar el servidor; si se alcanza, cada recurso se verifica por separado
+const LOAN_PAGE_SIZE = 100;
+const LOAN_MAX_PAGES = 30;
+
+// Consultas simultáneas al revisar el historial de cada recurso
+const RESOURCE_CHECK_BATCH_SIZE = 10;
+
+const MS_PER_MONTH = 1000 * 60 * 60 * 24 * 30.44;
+
+interface ResourceUsage {
+  count: number;
+  last?: Date;
+  borrowedSinceCutoff: boolean;
+}
+
+const groupCandidates = (
+  candidates: WeedingCandidate[],
+  getName: (resource: Resource) => string | undefined,
+  fallback: string
+): WeedingGroupRow[] => {
+  const groups = candidates.reduce((acc, candidate) => {
+    const name = getName(candidate.resource) || fallback;
+    if (!acc[name]) {
+      acc[name] = { name, count: 0, neverBorrowed: 0 };
+    }
+    acc[name].count += 1;
+    if (candidate.totalLoans === 0) acc[name].neverBorrowed += 1;
+    return acc;
+  }, {} as Record<string, WeedingGroupRow>);
+
+  return Object.values(groups).sort((a, b) => b.count - a.count);
+};
+
+export class WeedingService {
+  /**
+   * Reporte de expurgo: recursos nunca prestados o sin préstamos en los
+   * últimos N meses, con antigüedad y estado físico
+   */
+  static async getWeedingReport(filters: WeedingFilters): Promise<WeedingReport> {
+    const now = Date.now();
+    const cutoff = new Date(now - filters.monthsWithoutLoans * MS_PER_MONTH);
+
+    const [resources, recent] = await Promise.all([
+      ResourceService.getAllResources({
+        categoryId: filters.categoryId || undefined,
+        locationId: filters.locationId || undefined,
+        stateId: filters.stateId || undefined,
+      }),
+      this.getLoansSince(cutoff),
+    ]);
+
+    // Los recursos prestados después del corte no son candidatos
+    const recentlyBorrowed = new Set(recent.loans.map(loan => loan.resource?._id || loan.resourceId));
+    const unborrowed = resources
+      .filter(resource => filters.includeMarked || !resource.markedForDiscard)
+      .filter(resource => !recentlyBorrowed.has(resource._id));
+
+    // Para el resto basta un préstamo del historial para distinguir "nunca prestado"
+    // de "sin préstamos recientes"
+    const usage = await this.getResourcesUsage(unborrowed, cutoff, recent.truncated);
+
+    const candidates = unborrowed
+      .filter(resource => !usage.get(resource._id)?.borrowedSinceCutoff)
+      .map(resource => {
+        const resourceUsage = usage.get(resource._id);
+        const acquiredAt = this.getAcquiredAt(resource);
+        return {
+          resource,
+          acquiredAt,
+          ageInMonths: acquiredAt ? Math.floor((now - acquiredAt.getTime()) / MS_PER_MONTH) : undefined,
+          totalLoans: resourceUsage?.count || 0,
+          lastLoanDate: resourceUsage?.last,
+        };
+      })
+      .filter(candidate => {
+        if (candidate.totalLoans === 0) {
+          // Un recurso recién ingresado todavía no tuvo oportunidad de prestarse
+          return filters.monthsWithoutLoans === 0 || !candidate.acquiredAt || candidate.acquiredAt <= cutoff;
+        }
+        return filters.monthsWithoutLoans > 0;
+      })
+      .sort((a, b) =>
+        (a.lastLoanDate?.getTime() || 0) - (b.lastLoanDate?.getTime() || 0) ||
+        (b.ageInMonths || 0) - (a.ageInMonths || 0)
+      );
+
+    return {
+      candidates,
+      byCategory: groupCandidates(candidates, resource => resource.category?.name, 'Sin categoría'),
+      byLocation: groupCandidates(candidates, resource => resource.location?.name, 'Sin ubicación'),
+      byState: groupCandidates(
+        candidates,
+        resource => resource.state?.description || resource.state?.name,
+        'Sin estado'
+      ),
+      resourcesEvaluated: resources.length,
+      neverBorrowed: candidates.filter(candidate => candidate.totalLoans === 0).length,
+      loansScanned: recent.loans.length,
+    };
+  }
+
+  /**
+   * Filas para exportar los candidatos a CSV
+   */
+  static toCSVRows(candidates: WeedingCandidate[]): WeedingCSVRow[] {
+    return candidates.map(({ resource, acquiredAt, ageInMonths, totalLoans, lastLoanDate }) => ({
+      title: resource.title,
+      isbn: resource.isbn || '',
+      category: resource.category?.name || '',
+      location: resource.location?.name || '',
+      condition: resource.state?.description || resource.state?.name || '',
+      acquiredAt: acquiredAt ? DateUtils.formatDate(acquiredAt) : '',
+      ageInMonths: ageInMonths ?? '',
+      totalLoans,
+      lastLoanDate: lastLoanDate ? DateUtils.formatDate(lastLoanDate) : 'Nunca',
+      markedForDiscard: resource.markedForDiscard ? 'Sí' : 'No',
+    }));
+  }
+
+  // ===== UTILIDADES =====
+
+  /**
+   * Fecha de ingreso: createdAt o, si falta, la fecha codificada en el ObjectId
+   */
+  private static getAcquiredAt(resource: Resource): Date | undefined {
+    if (resource.createdAt) return new Date(resource.createdAt);
+    return getObjectIdTimestamp(resource._id) || undefined;
+  }
+
+  /**
+   * Préstamos registrados desde la fecha de corte, hasta el tope de páginas
+   */
+  private static async getLoansSince(cutoff: Date): Promise<{ loans: LoanWithDetails[]; truncated: boolean }> {
+    const loans: LoanWithDetails[] = [];
+
+    for (let page = 1; page <= LOAN_MAX_PAGES; page++) {
+      const response = await LoanService.searchLoans({
+        dateFrom: cutoff.toISOString(),
+        page,
+        limit: LOAN_PAGE_SIZE,
+      });
+      loans.push(...response.data);
+
+      if (!response.pagination.hasNext) {
+        return { loans, truncated: false };
+      }
+    }
+
+    return { loans, truncated: true };
+  }
+
+  /**
+   * Total de préstamos y último préstamo de cada recurso, en lotes paralelos.
+   * Si la lectura desde la fecha de corte quedó truncada, también se verifica
+   * por recurso si tuvo préstamos después del corte
+   */
+  private static async getResourcesUsage(
+    resources: Resource[],
+    cutoff: Date,
+    checkSinceCutoff: boolean
+  ): Promise<Map<string, ResourceUsage>> {
+    const usage = new Map<string, ResourceUsage>();
+
+    for (let start = 0; start < resources.length; start += RESOURCE_CHECK_BATCH_SIZE) {
+      const batch = resources.slice(start, start + RESOURCE_CHECK_BATCH_SIZE);
+      const results = await Promise.all(batch.map(async resource => {
+        const [history, sinceCutoff] = await Promise.all([
+          LoanService.getResourceLoans(resource._id, { limit: 1 }),
+          checkSinceCutoff
+            ? LoanService.getResourceLoans(resource._id, { dateFrom: cutoff.toISOString(), limit: 1 })
+            : null,
+        ]);
+        const lastLoan = history.data[0];
+
+        return {
+          count: history.pagination.total,
+          // El historial del recurso llega del préstamo más reciente al más antiguo
+          last: lastLoan ? new Date(lastLoan.loanDate) : undefined,
+          borrowedSinceCutoff: !!sinceCutoff && sinceCutoff.pagination.total > 0,
+        };
+      }));
+
+      results.forEach((result, index) => usage.set(batch[index]._id, result));
+    }
+
+    return usage;
+  }
+}
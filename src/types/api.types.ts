@@ -39,8 +39,9 @@ export interface LoginResponse {
 export interface User {
   _id: string;
   email: string;
-  role: 'admin' | 'librarian';
+  role: 'admin' | 'librarian' | 'assistant' | 'viewer';
   active: boolean;
+  mustChangePassword?: boolean;
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -66,6 +67,8 @@ export interface Person {
   personTypeId: string;
   personType?: PersonType;
   active: boolean;
+  // Si la persona tiene PIN para entrar al portal de autoservicio
+  hasPortalPin?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -87,6 +90,23 @@ export interface UpdatePersonRequest {
   active?: boolean;
 }
 
+// Promoción de grado de fin de año
+export type GradeRolloverAction = 'promote' | 'graduate' | 'keep';
+
+export interface GradeRolloverRule {
+  fromGrade: string;
+  action: GradeRolloverAction;
+  toGrade?: string;
+}
+
+export interface GradeRolloverItem {
+  personId: string;
+  fullName: string;
+  fromGrade: string;
+  action: Exclude<GradeRolloverAction, 'keep'>;
+  toGrade?: string;
+}
+
 // Tipos para recursos
 export interface ResourceType {
   _id: string;
@@ -259,17 +279,52 @@ export interface Request {
   statusId: string;
   googleBooksInfo?: object;
   requestedBy: string;
+  isbn?: string;
+  publisherName?: string;
+  requestedFor?: string;
+  notes?: string;
+  statusReason?: string;
+  resourceId?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
   
   // Datos populados
   category?: Category;
+  authors?: Author[];
   priority?: Priority;
   status?: RequestStatus;
   requestedByUser?: User;
+  reviewedByUser?: User;
   
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface CreateRequestRequest {
+  title: string;
+  authorIds?: string[];
+  categoryId: string;
+  priorityId: string;
+  isbn?: string;
+  publisherName?: string;
+  requestedFor?: string;
+  notes?: string;
+  googleBooksInfo?: object;
+}
+
+export type UpdateRequestRequest = Partial<CreateRequestRequest>;
+
+export interface RequestFilters {
+  search?: string;
+  status?: RequestStatus['name'];
+  priority?: Priority['name'];
+  categoryId?: string;
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
 // Tipos para búsqueda y filtros
 export interface SearchFilters {
   search?: string;
@@ -454,6 +509,15 @@ export interface ValidationResult {
 }
 
 // Tipos para configuración del sistema
+
+// Reglas de préstamo propias de cada tipo de persona (estudiante / docente)
+export interface PersonTypeLoanRules {
+  maxLoans: number;
+  loanDurationDays: number;
+  maxQuantityPerLoan: number;
+  maxRenewals: number;
+}
+
 export interface SystemConfiguration {
   library: {
     name: string;
@@ -461,7 +525,10 @@ export interface SystemConfiguration {
     loanDurationDays: number;
     allowRenewals: boolean;
     maxRenewals: number;
+    // Días que se guarda una unidad apartada antes de pasar al siguiente de la cola
+    holdPickupDays: number;
   };
+  loanRules: Record<PersonType['name'], PersonTypeLoanRules>;
   notifications: {
     emailEnabled: boolean;
     overdueReminders: boolean;
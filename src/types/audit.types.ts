@@ -0,0 +1,77 @@
+// src/types/audit.types.ts
+// ================================================================
+// TIPOS TYPESCRIPT PARA LA BITÁCORA DE AUDITORÍA
+// ================================================================
+
+// ===== TIPOS BASE =====
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'activate'
+  | 'deactivate'
+  | 'import'
+  | 'return'
+  | 'renew'
+  | 'mark_lost'
+  | 'reset_password';
+
+export type AuditEntityType =
+  | 'person'
+  | 'resource'
+  | 'loan'
+  | 'category'
+  | 'location'
+  | 'resource_type'
+  | 'resource_state'
+  | 'user'
+  | 'penalty'
+  | 'system_config';
+
+// Cambio de un campo entre el estado anterior y el posterior
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Registro de una operación de escritura. Lo genera el backend al
+ * procesar la petición; el actor sale del JWT, no del cliente
+ */
+export interface AuditLogEntry {
+  _id: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  // Nombre legible de la entidad al momento de la operación
+  entityLabel?: string;
+  actorId: string;
+  actor?: {
+    _id: string;
+    email: string;
+    role: string;
+  };
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  changes?: AuditFieldChange[];
+  // X-Request-ID enviado por el cliente; el origen lo registra el backend
+  requestId?: string;
+  source?: string;
+  ip?: string;
+  createdAt: Date;
+}
+
+// ===== FILTROS =====
+
+export interface AuditLogFilters {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  dateFrom?: string;
+  dateTo?: string;
+  page?: number;
+  limit?: number;
+}
@@ -0,0 +1,46 @@
+// src/types/catalog.types.ts
+// ================================================================
+// TIPOS TYPESCRIPT PARA EL CATÁLOGO PÚBLICO (OPAC)
+// ================================================================
+
+import type { Resource } from './resource.types';
+
+// ===== RECURSOS PÚBLICOS =====
+
+// Solo datos bibliográficos, ubicación y disponibilidad: nunca datos de préstamos ni personas
+export type PublicCatalogResource = Pick<
+  Resource,
+  '_id' | 'title' | 'isbn' | 'coverImageUrl' | 'googleBooksId' | 'available' | 'volumes'
+  | 'typeId' | 'categoryId' | 'authorIds' | 'locationId' | 'stateId' | 'createdAt' | 'updatedAt'
+  | 'type' | 'category' | 'authors' | 'publisher' | 'location' | 'state'
+>;
+
+// Búsqueda y paginación las resuelve el servidor: el catálogo nunca se descarga completo
+export interface PublicCatalogFilters {
+  search?: string;
+  availableOnly?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+// ===== SOLICITUDES DESDE EL CATÁLOGO =====
+
+// hold: reserva de un recurso prestado · acquisition: sugerencia de compra
+export type PublicCatalogRequestType = 'hold' | 'acquisition';
+
+export interface PublicCatalogRequest {
+  type: PublicCatalogRequestType;
+  // La persona se identifica con su documento; el servidor verifica que exista y esté activa
+  documentNumber: string;
+  resourceId?: string;
+  title?: string;
+  author?: string;
+  notes?: string;
+}
+
+export interface PublicCatalogRequestResult {
+  type: PublicCatalogRequestType;
+  message?: string;
+  // Posición en la cola cuando se trata de una reserva
+  queuePosition?: number;
+}
@@ -0,0 +1,64 @@
+// src/types/hold.types.ts
+// ================================================================
+// TIPOS TYPESCRIPT PARA RESERVAS (COLA DE ESPERA POR RECURSO)
+// ================================================================
+
+// ===== TIPOS BASE =====
+
+// waiting: en cola · ready: unidad apartada esperando retiro
+// fulfilled: convertida en préstamo · expired: no se retiró a tiempo
+export type HoldStatus = 'waiting' | 'ready' | 'fulfilled' | 'expired' | 'cancelled';
+
+export interface Hold {
+  _id: string;
+  personId: string;
+  resourceId: string;
+  status: HoldStatus;
+  notes?: string;
+  readyAt?: Date;
+  expiresAt?: Date;
+  fulfilledAt?: Date;
+  loanId?: string;
+  cancelReason?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ===== TIPOS CON DATOS POBLADOS =====
+
+export interface HoldWithDetails extends Hold {
+  person?: {
+    _id: string;
+    fullName: string;
+    documentNumber?: string;
+    grade?: string;
+  };
+  resource?: {
+    _id: string;
+    title: string;
+    isbn?: string;
+  };
+}
+
+// ===== REQUESTS =====
+
+export interface CreateHoldRequest {
+  personId: string;
+  resourceId: string;
+  notes?: string;
+}
+
+export interface CancelHoldRequest {
+  reason?: string;
+}
+
+// ===== FILTROS =====
+
+export interface HoldFilters {
+  personId?: string;
+  resourceId?: string;
+  status?: HoldStatus;
+  page?: number;
+  limit?: number;
+}
@@ -3,12 +3,17 @@
 // TIPOS TYPESCRIPT PARA SISTEMA DE PRÉSTAMOS
 // ================================================================
 
+import type { Penalty } from './penalty.types';
+import type { HoldWithDetails } from './hold.types';
+
 // ===== TIPOS BASE =====
 
 export interface Loan {
   _id: string;
   personId: string;
   resourceId: string;
+  // Ejemplar prestado, si el recurso se gestiona por copias
+  copyId?: string;
   quantity: number;
   loanDate: Date;
   dueDate: Date;
@@ -19,12 +24,28 @@ export interface Loan {
   returnedBy?: string;
   renewedBy?: string;
   renewedAt?: Date;
+  renewCount?: number;
+  renewals?: LoanRenewal[];
   daysOverdue?: number;
   isOverdue: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface LoanRenewal {
+  _id?: string;
+  renewedAt: Date;
+  renewedBy?: string;
+  renewedByUser?: {
+    _id: string;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+  };
+  previousDueDate: Date;
+  newDueDate: Date;
+}
+
 export interface LoanStatus {
   _id: string;
   name: 'active' | 'returned' | 'overdue' | 'lost';
@@ -66,6 +87,11 @@ export interface LoanWithDetails extends Loan {
       color: string;
     };
   };
+  copy?: {
+    _id: string;
+    copyNumber: number;
+    barcode: string;
+  };
   status?: {
     _id: string;
     name: string;
@@ -91,7 +117,11 @@ export interface LoanWithDetails extends Loan {
 export interface CreateLoanRequest {
   personId: string;
   resourceId: string;
+  // Ejemplar concreto; si se omite se asigna uno disponible
+  copyId?: string;
   quantity?: number;
+  // Fecha de vencimiento según las reglas del tipo de persona
+  dueDate?: string;
   observations?: string;
 }
 
@@ -211,6 +241,19 @@ export interface ReturnLoanResponse {
   wasOverdue: boolean;
   daysOverdue?: number;
   fineAmount?: number;
+  // Sanción generada por la devolución tardía, si la regla del tipo de persona aplica
+  penalty?: Penalty | null;
+  // Reservas que quedaron listas para retirar con las unidades devueltas
+  readyHolds?: HoldWithDetails[];
+}
+
+// Devolución de los préstamos de recursos que aparecieron en el estante
+export interface BulkReturnResult {
+  successful: string[];
+  failed: Array<{
+    resourceId: string;
+    error: string;
+  }>;
 }
 
 export interface RenewLoanResponse {
@@ -220,6 +263,38 @@ export interface RenewLoanResponse {
   renewCount: number;
 }
 
+// ===== RENOVACIONES =====
+
+export type RenewalBlockReason =
+  | 'renewals_disabled'
+  | 'not_active'
+  | 'max_renewals'
+  | 'pending_holds'
+  | 'overdue_loans';
+
+export interface RenewalEligibility {
+  loanId: string;
+  canRenew: boolean;
+  renewCount: number;
+  maxRenewals: number;
+  reasons: Array<{
+    code: RenewalBlockReason;
+    message: string;
+  }>;
+}
+
+export interface BulkRenewResult {
+  renewed: RenewLoanResponse[];
+  skipped: Array<{
+    loan: LoanWithDetails;
+    eligibility: RenewalEligibility;
+  }>;
+  failed: Array<{
+    loan: LoanWithDetails;
+    error: string;
+  }>;
+}
+
 // ===== ESTADÍSTICAS =====
 
 export interface LoanStats {
@@ -283,6 +358,49 @@ export interface StockStats {
   }>;
 }
 
+// Perfil de circulación de una persona, calculado a partir de su historial
+export interface PersonCirculationProfile {
+  totalLoans: number;
+  activeLoans: number;
+  overdueLoans: number;
+  returnedLoans: number;
+  lostLoans: number;
+  returnedLateCount: number;
+  favoriteCategories: Array<{
+    category: string;
+    count: number;
+  }>;
+  lastLoanDate?: Date;
+  // Préstamos leídos del historial; si truncated, el resto de cifras no cubre todo el historial
+  loansScanned: number;
+  truncated: boolean;
+}
+
+// high: se agota o tiene reservas en cola · dead_stock: sin préstamos en el último año
+export type ResourceDemandLevel = 'high' | 'normal' | 'dead_stock';
+
+// Analítica de circulación de un recurso, calculada a partir de su historial
+export interface ResourceCirculationStats {
+  totalLoans: number;
+  activeLoans: number;
+  overdueLoans: number;
+  pendingHolds: number;
+  // Promedio de días entre préstamo y devolución, solo préstamos devueltos
+  averageLoanDays: number;
+  // Proporción (0-1) de préstamos que se vencieron o se devolvieron tarde
+  overdueRate: number;
+  lastBorrowedAt?: Date;
+  // Últimos 12 meses, del más antiguo al actual (month en formato YYYY-MM)
+  loansByMonth: Array<{
+    month: string;
+    count: number;
+  }>;
+  demandLevel: ResourceDemandLevel;
+  // Préstamos leídos del historial; si truncated, el resto de cifras no cubre todo el historial
+  loansScanned: number;
+  truncated: boolean;
+}
+
 // ===== RESPUESTAS DE API =====
 
 export interface ApiResponse<T> {
@@ -332,6 +450,11 @@ export interface UseReturnState {
   lastReturn: ReturnLoanResponse | null;
 }
 
+export interface UseRenewalState {
+  processing: boolean;
+  error: string | null;
+}
+
 export interface UseOverdueState {
   overdueLoans: LoanWithDetails[];
   stats: OverdueStats | null;
@@ -386,6 +509,7 @@ export enum PersonTypeEnum {
   TEACHER = 'teacher'
 }
 
+// Valores por defecto mientras no exista una configuración guardada (ver SystemConfigService)
 export const LOAN_LIMITS = {
   MAX_LOANS_PER_PERSON: 5,
   MAX_LOAN_DAYS: 15,
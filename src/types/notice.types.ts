@@ -0,0 +1,90 @@
+// src/types/notice.types.ts
+// ================================================================
+// TIPOS TYPESCRIPT PARA AVISOS DE PRÉSTAMOS VENCIDOS
+// ================================================================
+
+import type { LoanWithDetails } from './loan.types';
+
+// ===== PLANTILLAS =====
+
+// student_slip: papeleta por estudiante, agrupadas por grado para el director de grupo
+// teacher_letter: carta consolidada por docente con todos sus préstamos vencidos
+export type NoticeFormat = 'student_slip' | 'teacher_letter';
+
+export interface NoticeTemplate {
+  format: NoticeFormat;
+  title: string;
+  // Cuerpo del aviso; {listado} se reemplaza por una línea por préstamo
+  body: string;
+  // Línea repetida por cada préstamo vencido dentro de {listado}
+  itemLine: string;
+  updatedAt?: Date;
+}
+
+export type UpdateNoticeTemplateRequest = Pick<NoticeTemplate, 'title' | 'body' | 'itemLine'>;
+
+// ===== AVISOS GENERADOS =====
+
+export interface OverdueNotice {
+  format: NoticeFormat;
+  person: NonNullable<LoanWithDetails['person']>;
+  grade: string;
+  loans: LoanWithDetails[];
+  title: string;
+  // Texto final con los marcadores ya reemplazados
+  text: string;
+}
+
+// Papeletas de un mismo grado, para entregar al director de grupo
+export interface OverdueNoticeGroup {
+  grade: string;
+  notices: OverdueNotice[];
+}
+
+export interface OverdueNoticeBatch {
+  studentGroups: OverdueNoticeGroup[];
+  teacherLetters: OverdueNotice[];
+  totalLoans: number;
+}
+
+// Fila de la exportación CSV: una por préstamo
+export interface OverdueNoticeCSVRow {
+  grade: string;
+  person: string;
+  documentNumber: string;
+  personType: string;
+  resource: string;
+  loanDate: string;
+  dueDate: string;
+  daysOverdue: number;
+  noticeText: string;
+}
+
+// ===== REGISTRO DE EMISIÓN =====
+
+// Cómo se entregó el aviso
+export type NoticeChannel = 'print' | 'pdf' | 'csv';
+
+export interface OverdueNoticeLogEntry {
+  _id: string;
+  loanId: string;
+  personId: string;
+  format: NoticeFormat;
+  channel: NoticeChannel;
+  daysOverdue: number;
+  issuedAt: Date;
+  issuedBy?: string;
+  issuedByUser?: {
+    _id: string;
+    firstName?: string;
+    lastName?: string;
+  };
+}
+
+export interface CreateNoticeLogRequest {
+  loanId: string;
+  personId: string;
+  format: NoticeFormat;
+  channel: NoticeChannel;
+  daysOverdue: number;
+}
@@ -0,0 +1,115 @@
+// src/types/penalty.types.ts
+// ================================================================
+// TIPOS TYPESCRIPT PARA MULTAS Y SANCIONES
+// ================================================================
+
+// ===== TIPOS BASE =====
+
+// Multa en dinero o suspensión del servicio de préstamos
+export type PenaltyType = 'fine' | 'suspension';
+
+export type PenaltyReason = 'overdue' | 'lost';
+
+export type PenaltyStatus = 'active' | 'paid' | 'waived' | 'expired';
+
+export interface Penalty {
+  _id: string;
+  personId: string;
+  loanId?: string;
+  type: PenaltyType;
+  reason: PenaltyReason;
+  status: PenaltyStatus;
+  amount?: number;
+  daysOverdue?: number;
+  suspensionDays?: number;
+  suspendedUntil?: Date;
+  observations?: string;
+  resolutionReason?: string;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ===== TIPOS CON DATOS POBLADOS =====
+
+export interface PenaltyWithDetails extends Penalty {
+  person?: {
+    _id: string;
+    fullName: string;
+    documentNumber?: string;
+    grade?: string;
+  };
+  loan?: {
+    _id: string;
+    loanDate: Date;
+    dueDate: Date;
+    returnedDate?: Date;
+    resource?: {
+      _id: string;
+      title: string;
+    };
+  };
+  resolvedByUser?: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    username: string;
+  };
+}
+
+// ===== REGLAS POR TIPO DE PERSONA =====
+
+export interface PenaltyRule {
+  _id?: string;
+  personTypeId: string;
+  // Cómo se sanciona la devolución tardía
+  overduePenaltyType: PenaltyType;
+  gracePeriodDays: number;
+  finePerDay: number;
+  maxFineAmount?: number;
+  suspensionDaysPerOverdueDay: number;
+  // Sanción por recurso perdido
+  lostPenaltyType: PenaltyType;
+  lostResourceFine: number;
+  lostResourceSuspensionDays: number;
+  active: boolean;
+}
+
+export type UpdatePenaltyRuleRequest = Omit<PenaltyRule, '_id' | 'personTypeId'>;
+
+// Resultado de aplicar una regla a un préstamo concreto
+export interface PenaltyCalculation {
+  type: PenaltyType;
+  amount?: number;
+  suspensionDays?: number;
+}
+
+// ===== DTOs DE ENTRADA =====
+
+export interface CreatePenaltyRequest {
+  personId: string;
+  loanId?: string;
+  type: PenaltyType;
+  reason: PenaltyReason;
+  amount?: number;
+  daysOverdue?: number;
+  suspensionDays?: number;
+  observations?: string;
+}
+
+export interface ResolvePenaltyRequest {
+  reason: string;
+}
+
+// ===== FILTROS =====
+
+export interface PenaltyFilters {
+  personId?: string;
+  status?: PenaltyStatus;
+  type?: PenaltyType;
+  reason?: PenaltyReason;
+  page?: number;
+  limit?: number;
+}
@@ -0,0 +1,79 @@
+// src/types/portal.types.ts
+// ================================================================
+// TIPOS TYPESCRIPT PARA EL PORTAL DE AUTOSERVICIO DE LECTORES
+// ================================================================
+
+import type { LoanWithDetails } from './loan.types';
+
+// ===== SESIÓN =====
+
+// Datos mínimos de la persona que entró al portal
+export interface PortalPerson {
+  _id: string;
+  fullName: string;
+  documentNumber: string;
+  grade?: string;
+  personType?: {
+    name: 'student' | 'teacher';
+    description: string;
+  };
+}
+
+export interface PortalLoginRequest {
+  documentNumber: string;
+  pin: string;
+}
+
+export interface PortalLoginResponse {
+  access_token: string;
+  person: PortalPerson;
+}
+
+export interface SetPortalPinRequest {
+  pin: string;
+}
+
+// ===== SOLICITUDES DE RENOVACIÓN =====
+
+// pending: esperando revisión del bibliotecario · approved: préstamo renovado
+// rejected: rechazada con motivo · cancelled: retirada por la persona
+export type RenewalRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface RenewalRequest {
+  _id: string;
+  loanId: string;
+  personId: string;
+  status: RenewalRequestStatus;
+  notes?: string;
+  reviewNotes?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RenewalRequestWithDetails extends RenewalRequest {
+  loan?: LoanWithDetails;
+  person?: {
+    _id: string;
+    fullName: string;
+    documentNumber?: string;
+    grade?: string;
+  };
+}
+
+export interface CreateRenewalRequestRequest {
+  loanId: string;
+  notes?: string;
+}
+
+export interface ReviewRenewalRequestRequest {
+  reviewNotes?: string;
+}
+
+export interface RenewalRequestFilters {
+  status?: RenewalRequestStatus;
+  personId?: string;
+  page?: number;
+  limit?: number;
+}
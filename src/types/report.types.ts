@@ -0,0 +1,149 @@
+// src/types/report.types.ts
+// ================================================================
+// TIPOS TYPESCRIPT PARA EL MÓDULO DE REPORTES
+// ================================================================
+
+import type { LoanWithDetails, StockStats } from './loan.types';
+
+// ===== TIPOS BASE =====
+
+export type ReportType =
+  | 'loans-by-period'
+  | 'overdue-by-grade'
+  | 'most-borrowed'
+  | 'inventory'
+  | 'librarian-activity';
+
+export type ReportGrouping = 'day' | 'week' | 'month';
+
+export interface ReportFilters {
+  dateFrom?: string;
+  dateTo?: string;
+  personType?: 'student' | 'teacher';
+  groupBy?: ReportGrouping;
+  limit?: number;
+}
+
+// Préstamos leídos para un reporte; truncated indica que se alcanzó el tope de páginas
+export interface ReportLoans {
+  loans: LoanWithDetails[];
+  truncated: boolean;
+}
+
+// ===== PRÉSTAMOS POR PERÍODO =====
+
+export interface LoansByPeriodRow {
+  period: string;
+  label: string;
+  loans: number;
+  returned: number;
+  overdue: number;
+  quantity: number;
+}
+
+export interface LoansByPeriodReport {
+  periods: LoansByPeriodRow[];
+  totals: {
+    loans: number;
+    active: number;
+    returned: number;
+    overdue: number;
+    lost: number;
+    quantity: number;
+  };
+  byPersonType: {
+    students: number;
+    teachers: number;
+  };
+  truncated: boolean;
+}
+
+// ===== VENCIDOS POR GRADO =====
+
+export interface OverdueByGradeRow {
+  grade: string;
+  overdueLoans: number;
+  people: number;
+  studentsInGrade: number;
+  averageDaysOverdue: number;
+  maxDaysOverdue: number;
+}
+
+export interface OverdueByGradeReport {
+  grades: OverdueByGradeRow[];
+  totalOverdue: number;
+  averageDaysOverdue: number;
+  byDaysOverdue: {
+    '1-7': number;
+    '8-14': number;
+    '15-30': number;
+    '30+': number;
+  };
+  truncated: boolean;
+}
+
+// ===== RECURSOS MÁS PRESTADOS =====
+
+export interface MostBorrowedRow {
+  resourceId: string;
+  title: string;
+  author?: string;
+  loans: number;
+  // Solo se calculan sobre los préstamos del período; el ranking histórico no los trae
+  quantity?: number;
+  borrowers?: number;
+}
+
+export interface MostBorrowedReport {
+  resources: MostBorrowedRow[];
+  totalLoans: number;
+  source: 'period' | 'statistics';
+  truncated: boolean;
+}
+
+// ===== INVENTARIO =====
+
+export interface InventoryGroupRow {
+  name: string;
+  total: number;
+  available: number;
+  borrowed: number;
+}
+
+export interface InventoryReport {
+  byCategory: InventoryGroupRow[];
+  byLocation: InventoryGroupRow[];
+  byState: InventoryGroupRow[];
+  byType: InventoryGroupRow[];
+  totals: {
+    total: number;
+    available: number;
+    borrowed: number;
+  };
+  stock: StockStats | null;
+}
+
+// ===== ACTIVIDAD POR BIBLIOTECARIO =====
+
+export interface LibrarianActivityRow {
+  userId: string;
+  name: string;
+  username?: string;
+  loans: number;
+  returns: number;
+  lastActivity?: Date;
+}
+
+export interface LibrarianActivityReport {
+  librarians: LibrarianActivityRow[];
+  totalLoans: number;
+  totalReturns: number;
+  truncated: boolean;
+}
+
+// ===== EXPORTACIÓN =====
+
+export interface ReportColumn<T> {
+  key: keyof T;
+  label: string;
+}
@@ -25,6 +25,16 @@ export interface Resource {
   publisher?: Publisher;
   location?: Location;
   state?: ResourceState;
+
+  // Ejemplares físicos (cuando el recurso se gestiona por copias)
+  copies?: ResourceCopy[];
+  totalCopies?: number;
+  availableCopies?: number;
+
+  // Marcado para descarte desde el reporte de expurgo
+  markedForDiscard?: boolean;
+  markedForDiscardAt?: Date;
+  discardReason?: string;
   
   createdAt: Date;
   updatedAt: Date;
@@ -57,6 +67,45 @@ export interface UpdateResourceRequest {
   available?: boolean;
   coverImageUrl?: string;
   isbn?: string;
+  markedForDiscard?: boolean;
+  discardReason?: string;
+}
+
+// ===== EJEMPLARES =====
+export interface ResourceCopy {
+  _id: string;
+  resourceId: string;
+  copyNumber: number;
+  barcode: string;
+  stateId: string;
+  locationId: string;
+  available: boolean;
+  notes?: string;
+
+  // Datos populados (cuando están disponibles)
+  state?: ResourceState;
+  location?: Location;
+  // Préstamo abierto del ejemplar
+  currentLoanId?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateResourceCopyRequest {
+  copyNumber?: number;
+  barcode?: string;
+  stateId: string;
+  locationId: string;
+  notes?: string;
+}
+
+export interface UpdateResourceCopyRequest {
+  barcode?: string;
+  stateId?: string;
+  locationId?: string;
+  available?: boolean;
+  notes?: string;
 }
 
 // ===== ENTIDADES AUXILIARES =====
@@ -180,6 +229,39 @@ export interface ResourceFilters {
   available?: boolean; // Se mapea automáticamente a availability
 }
 
+// ===== BÚSQUEDA EN CATÁLOGO =====
+export type CatalogFacetField = 'category' | 'type' | 'location' | 'state' | 'availability';
+
+export type CatalogMatchField = 'title' | 'authors' | 'publisher' | 'isbn' | 'notes';
+
+export interface CatalogFacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type CatalogFacets = Record<CatalogFacetField, CatalogFacetValue[]>;
+
+// Dentro de un mismo campo los valores se combinan con O; entre campos, con Y
+export type CatalogFacetSelection = Partial<Record<CatalogFacetField, string[]>>;
+
+export interface CatalogSearchQuery {
+  text: string;
+  facets: CatalogFacetSelection;
+}
+
+export interface CatalogSearchHit {
+  resource: Resource;
+  score: number;
+  matchedFields: CatalogMatchField[];
+}
+
+export interface CatalogSearchResult {
+  hits: CatalogSearchHit[];
+  facets: CatalogFacets;
+  total: number;
+}
+
 // Filtros específicos para diferentes contextos
 export interface ResourceSearchFilters extends ResourceFilters {
   // Filtros específicos para búsqueda de recursos en formularios
@@ -218,9 +300,15 @@ export type GoogleBooksVolumeResponse = ApiResponse<GoogleBooksVolume>;
 
 // ===== TIPOS PARA OPERACIONES ESPECÍFICAS =====
 
+// Recurso a importar: autores y editorial llegan por nombre y se resuelven al registrarlo
+export interface ResourceImportItem extends CreateResourceRequest {
+  authorNames?: string[];
+  publisherName?: string;
+}
+
 // Para importación masiva de recursos
 export interface BulkResourceImport {
-  resources: CreateResourceRequest[];
+  resources: ResourceImportItem[];
   options: {
     skipDuplicates: boolean;
     validateOnly: boolean;
@@ -231,10 +319,15 @@ export interface BulkResourceImport {
 export interface BulkImportResult {
   successful: Resource[];
   failed: Array<{
-    resource: CreateResourceRequest;
+    resource: ResourceImportItem;
     error: string;
     index: number;
   }>;
+  skipped: Array<{
+    resource: ResourceImportItem;
+    reason: string;
+    index: number;
+  }>;
   summary: {
     total: number;
     successful: number;
@@ -248,6 +341,158 @@ export interface BulkImportResult {
   };
 }
 
+// Para actualizaciones masivas de recursos existentes
+export interface BulkResourceUpdate {
+  resourceId: string;
+  data: UpdateResourceRequest;
+}
+
+export interface BulkUpdateResult {
+  successful: Resource[];
+  failed: Array<{
+    resourceId: string;
+    error: string;
+  }>;
+}
+
+// Para auditorías de inventario (recuento de estantes por ubicación)
+export interface InventoryAuditSession {
+  locationId: string;
+  startedAt: string;
+  found: Resource[];
+}
+
+export interface InventoryAuditReport {
+  locationId: string;
+  startedAt: string;
+  finishedAt: string;
+  expectedCount: number;
+  found: Resource[];
+  // Esperados en la ubicación, disponibles y no encontrados (candidatos a "perdido")
+  missing: Resource[];
+  // Encontrados en la ubicación auditada pero registrados en otra
+  misplaced: Resource[];
+  // Registrados como prestados pero presentes en el estante
+  onLoanPresent: Resource[];
+  // Prestados y fuera del estante: no es una discrepancia
+  onLoanAbsent: Resource[];
+}
+
+// Para el historial de estado (condición física) de cada recurso
+export type ConditionChangeSource = 'return' | 'manual' | 'audit';
+
+export interface ResourceConditionEvent {
+  _id: string;
+  resourceId: string;
+  previousStateId?: string;
+  newStateId: string;
+  source: ConditionChangeSource;
+  // Ejemplar afectado, si el recurso se gestiona por copias
+  copyId?: string;
+  // Préstamo y persona cuando el cambio se registró en una devolución
+  loanId?: string;
+  personId?: string;
+  observations?: string;
+  recordedBy?: string;
+  createdAt: Date;
+
+  // Datos populados (cuando están disponibles)
+  resource?: {
+    _id: string;
+    title: string;
+    isbn?: string;
+  };
+  previousState?: ResourceState;
+  newState?: ResourceState;
+  person?: {
+    _id: string;
+    fullName: string;
+    documentNumber?: string;
+    grade?: string;
+  };
+  recordedByUser?: {
+    _id: string;
+    email: string;
+  };
+}
+
+export interface CreateConditionEventRequest {
+  resourceId: string;
+  previousStateId?: string;
+  newStateId: string;
+  source: ConditionChangeSource;
+  copyId?: string;
+  loanId?: string;
+  personId?: string;
+  observations?: string;
+}
+
+export interface ConditionEventFilters {
+  resourceId?: string;
+  personId?: string;
+  source?: ConditionChangeSource;
+  dateFrom?: string;
+  dateTo?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Personas tras cuyas devoluciones los recursos empeoraron de estado
+export interface BorrowerDegradationSummary {
+  person: NonNullable<ResourceConditionEvent['person']>;
+  degradations: ResourceConditionEvent[];
+  resourceCount: number;
+  lastDegradationAt: Date;
+}
+
+// Para el reporte de expurgo: recursos sin préstamos en los últimos meses
+export interface WeedingFilters {
+  // 0 = solo recursos que nunca se prestaron
+  monthsWithoutLoans: number;
+  categoryId?: string;
+  locationId?: string;
+  stateId?: string;
+  includeMarked?: boolean;
+}
+
+export interface WeedingCandidate {
+  resource: Resource;
+  acquiredAt?: Date;
+  ageInMonths?: number;
+  totalLoans: number;
+  lastLoanDate?: Date;
+}
+
+export interface WeedingGroupRow {
+  name: string;
+  count: number;
+  neverBorrowed: number;
+}
+
+export interface WeedingReport {
+  candidates: WeedingCandidate[];
+  byCategory: WeedingGroupRow[];
+  byLocation: WeedingGroupRow[];
+  byState: WeedingGroupRow[];
+  resourcesEvaluated: number;
+  neverBorrowed: number;
+  // Préstamos leídos desde la fecha de corte
+  loansScanned: number;
+}
+
+export interface WeedingCSVRow {
+  title: string;
+  isbn: string;
+  category: string;
+  location: string;
+  condition: string;
+  acquiredAt: string;
+  ageInMonths: number | string;
+  totalLoans: number;
+  lastLoanDate: string;
+  markedForDiscard: string;
+}
+
 // Para operaciones de disponibilidad
 export interface AvailabilityUpdate {
   resourceId: string;
@@ -0,0 +1,144 @@
+// src/utils/barcode.utils.ts
+
+/**
+ * Anchos de barras/espacios de cada símbolo Code 128 (valores 0-106)
+ * Cada patrón alterna barra y espacio empezando por barra; el 106 es el símbolo de parada
+ */
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const CODE128 = {
+  START_B: 104,
+  START_C: 105,
+  CODE_B: 100,
+  CODE_C: 99,
+  STOP: 106,
+} as const;
+
+/**
+ * Utilidades para generar códigos de barras Code 128
+ * (legibles por cualquier lector láser o lector tipo teclado)
+ */
+export class BarcodeUtils {
+  /**
+   * Verificar si un texto se puede codificar (ASCII imprimible)
+   */
+  static canEncode(text: string): boolean {
+    return text.length > 0 && /^[\x20-\x7E]+$/.test(text);
+  }
+
+  /**
+   * Obtener los valores de símbolo Code 128 (inicio, datos y dígito de control, sin parada).
+   * Usa el conjunto B y cambia al conjunto C en secuencias de dígitos para acortar el código
+   */
+  static getCode128Values(text: string): number[] {
+    if (!this.canEncode(text)) {
+      throw new Error('El texto contiene caracteres que no se pueden codificar en Code 128');
+    }
+
+    const values: number[] = [];
+    let current: 'B' | 'C' | null = null;
+    let index = 0;
+
+    const digitRunLength = (from: number) => {
+      let end = from;
+      while (end < text.length && text[end] >= '0' && text[end] <= '9') end++;
+      return end - from;
+    };
+
+    while (index < text.length) {
+      const run = digitRunLength(index);
+      const isStart = index === 0;
+      const isEnd = index + run === text.length;
+      // El conjunto C solo compensa con suficientes dígitos seguidos
+      const useC = run >= 4 && (isStart || isEnd || run >= 6);
+
+      if (useC) {
+        // Con una cantidad impar de dígitos, el primero se codifica en B
+        if (run % 2 === 1) {
+          if (current !== 'B') {
+            values.push(current === null ? CODE128.START_B : CODE128.CODE_B);
+            current = 'B';
+          }
+          values.push(text.charCodeAt(index) - 32);
+          index++;
+        }
+
+        if (current !== 'C') {
+          values.push(current === null ? CODE128.START_C : CODE128.CODE_C);
+          current = 'C';
+        }
+
+        const pairsEnd = index + (run - (run % 2));
+        for (; index < pairsEnd; index += 2) {
+          values.push(parseInt(text.substr(index, 2), 10));
+        }
+        continue;
+      }
+
+      if (current !== 'B') {
+        values.push(current === null ? CODE128.START_B : CODE128.CODE_B);
+        current = 'B';
+      }
+      values.push(text.charCodeAt(index) - 32);
+      index++;
+    }
+
+    // Dígito de control: inicio + suma ponderada de los símbolos, módulo 103
+    const checksum = values.reduce(
+      (sum, value, position) => sum + value * (position === 0 ? 1 : position),
+      0
+    ) % 103;
+
+    return [...values, checksum];
+  }
+
+  /**
+   * Codificar un texto como secuencia de módulos (true = barra, false = espacio)
+   */
+  static encodeCode128(text: string): boolean[] {
+    const symbols = [...this.getCode128Values(text), CODE128.STOP];
+    const modules: boolean[] = [];
+
+    symbols.forEach(symbol => {
+      CODE128_PATTERNS[symbol].split('').forEach((width, position) => {
+        for (let i = 0; i < Number(width); i++) {
+          modules.push(position % 2 === 0);
+        }
+      });
+    });
+
+    return modules;
+  }
+
+  /**
+   * Convertir los módulos en barras (posición y ancho en módulos) para dibujar en SVG
+   */
+  static getCode128Bars(text: string): { bars: Array<{ x: number; width: number }>; totalWidth: number } {
+    const modules = this.encodeCode128(text);
+    const bars: Array<{ x: number; width: number }> = [];
+
+    modules.forEach((isBar, position) => {
+      if (!isBar) return;
+      const last = bars[bars.length - 1];
+      if (last && last.x + last.width === position) {
+        last.width++;
+      } else {
+        bars.push({ x: position, width: 1 });
+      }
+    });
+
+    return { bars, totalWidth: modules.length };
+  }
+}
@@ -92,6 +92,26 @@ export class TextUtils {
       .trim();
   }
 
+  /**
+   * Distancia de edición (Levenshtein) entre dos textos, para tolerar errores de tipeo
+   */
+  static editDistance(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
   /**
    * Formatear nombre completo
    */
@@ -271,6 +291,17 @@ export class NumberUtils {
     return new Intl.NumberFormat('es-CO').format(num);
   }
 
+  /**
+   * Formatear valor en pesos colombianos (multas)
+   */
+  static formatCurrency(amount: number): string {
+    return new Intl.NumberFormat('es-CO', {
+      style: 'currency',
+      currency: 'COP',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  }
+
   /**
    * Formatear porcentaje
    */
@@ -452,6 +483,8 @@ export const APP_CONSTANTS = {
   ROLES: {
     ADMIN: 'admin',
     LIBRARIAN: 'librarian',
+    ASSISTANT: 'assistant',
+    VIEWER: 'viewer',
   },
   PERSON_TYPES: {
     STUDENT: 'student',
@@ -470,6 +503,13 @@ export const APP_CONSTANTS = {
 // Re-exportar utilidades de imageUtils
 export { ImageUtils } from './imageUtils';
 
+// Re-exportar utilidades de hojas de cálculo
+export { SpreadsheetUtils } from './spreadsheet.utils';
+
+// Exportar utilidades de códigos de barras e impresión
+export { BarcodeUtils } from './barcode.utils';
+export { PrintUtils } from './print.utils';
+
 // Re-exportar funciones de typeGuards para compatibilidad
 export {
   isPaginatedResponse,
@@ -0,0 +1,54 @@
+// src/utils/print.utils.ts
+import type { ReactElement } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+
+/**
+ * Utilidades para impresión de documentos (comprobantes, etiquetas)
+ */
+export class PrintUtils {
+  /**
+   * Imprimir un elemento de React en un iframe oculto, sin incluir el resto de la página.
+   * El elemento debe traer sus propios estilos: los estilos de Chakra no llegan al iframe
+   */
+  static printElement(element: ReactElement, title = 'Imprimir'): void {
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('aria-hidden', 'true');
+    Object.assign(iframe.style, {
+      position: 'fixed',
+      right: '0',
+      bottom: '0',
+      width: '0',
+      height: '0',
+      border: '0',
+    });
+    document.body.appendChild(iframe);
+
+    const printWindow = iframe.contentWindow;
+    const printDocument = iframe.contentDocument;
+    if (!printWindow || !printDocument) {
+      iframe.remove();
+      return;
+    }
+
+    printDocument.open();
+    printDocument.write('<!DOCTYPE html><html><head><meta charset="utf-8" /></head><body></body></html>');
+    printDocument.close();
+    printDocument.title = title;
+
+    const root = createRoot(printDocument.body);
+    flushSync(() => {
+      root.render(element);
+    });
+
+    printWindow.addEventListener('afterprint', () => {
+      setTimeout(() => {
+        root.unmount();
+        iframe.remove();
+      }, 0);
+    }, { once: true });
+
+    printWindow.focus();
+    printWindow.print();
+  }
+}
@@ -0,0 +1,252 @@
+// src/utils/spreadsheet.utils.ts
+
+export interface SpreadsheetDataRow {
+  // Número de fila en el archivo (la fila 1 son los encabezados)
+  rowNumber: number;
+  cells: string[];
+}
+
+/**
+ * Utilidades para leer hojas de cálculo (CSV y XLSX) sin dependencias externas
+ * Devuelven siempre una matriz de celdas como texto: la primera fila son los encabezados.
+ * Las filas vacías intermedias se conservan para no desplazar la numeración del archivo
+ */
+export class SpreadsheetUtils {
+  static readonly ACCEPTED_EXTENSIONS = ['csv', 'txt', 'xlsx'];
+
+  /**
+   * Leer un archivo CSV o XLSX y devolver sus filas
+   */
+  static async readFile(file: File): Promise<string[][]> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+
+    if (extension === 'xlsx') {
+      return this.parseXLSX(await file.arrayBuffer());
+    }
+
+    if (extension === 'csv' || extension === 'txt') {
+      return this.parseCSV(await file.text());
+    }
+
+    throw new Error('Formato no soportado. Usa un archivo .csv o .xlsx');
+  }
+
+  /**
+   * Filas de datos no vacías con su número de fila original
+   */
+  static getDataRows(rows: string[][]): SpreadsheetDataRow[] {
+    return rows
+      .map((cells, index) => ({ rowNumber: index + 1, cells }))
+      .slice(1)
+      .filter(row => !this.isBlankRow(row.cells));
+  }
+
+  static isBlankRow(row: string[]): boolean {
+    return row.every(cell => cell === '');
+  }
+
+  /**
+   * Parsear texto CSV. Detecta el separador (; o ,) a partir de la primera línea
+   */
+  static parseCSV(text: string, separator?: string): string[][] {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split(/\r?\n/, 1)[0] || '';
+    const delimiter = separator ||
+      (firstLine.split(';').length > firstLine.split(',').length ? ';' : ',');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    return this.cleanRows(rows);
+  }
+
+  /**
+   * Parsear la primera hoja de un libro XLSX
+   */
+  static async parseXLSX(buffer: ArrayBuffer): Promise<string[][]> {
+    const entries = await this.unzip(buffer);
+
+    const sharedStrings = entries['xl/sharedStrings.xml']
+      ? Array.from(this.parseXML(entries['xl/sharedStrings.xml']).getElementsByTagName('si')).map(item =>
+          Array.from(item.getElementsByTagName('t')).map(t => t.textContent || '').join('')
+        )
+      : [];
+
+    const sheetXml = entries[this.getFirstSheetPath(entries)];
+    if (!sheetXml) {
+      throw new Error('El archivo no contiene hojas de cálculo');
+    }
+
+    const rows: string[][] = [];
+
+    Array.from(this.parseXML(sheetXml).getElementsByTagName('row')).forEach((rowElement, rowIndex) => {
+      const rowNumber = Number(rowElement.getAttribute('r')) || rowIndex + 1;
+      const row: string[] = [];
+
+      Array.from(rowElement.getElementsByTagName('c')).forEach((cellElement, cellIndex) => {
+        const reference = cellElement.getAttribute('r');
+        const column = reference ? this.columnIndex(reference) : cellIndex;
+        const type = cellElement.getAttribute('t');
+        const value = cellElement.getElementsByTagName('v')[0]?.textContent || '';
+
+        let text: string;
+        if (type === 's') {
+          text = sharedStrings[Number(value)] || '';
+        } else if (type === 'inlineStr') {
+          text = Array.from(cellElement.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+        } else if (type === 'b') {
+          text = value === '1' ? 'TRUE' : 'FALSE';
+        } else {
+          text = value;
+        }
+
+        row[column] = text;
+      });
+
+      rows[rowNumber - 1] = Array.from(row, cell => cell || '');
+    });
+
+    return this.cleanRows(Array.from(rows, row => row || []));
+  }
+
+  /**
+   * Obtener la ruta de la primera hoja según el orden del libro
+   */
+  private static getFirstSheetPath(entries: Record<string, string>): string {
+    const workbookXml = entries['xl/workbook.xml'];
+    const relsXml = entries['xl/_rels/workbook.xml.rels'];
+
+    if (workbookXml && relsXml) {
+      const firstSheet = this.parseXML(workbookXml).getElementsByTagName('sheet')[0];
+      const relationId = firstSheet?.getAttribute('r:id');
+      const relation = Array.from(this.parseXML(relsXml).getElementsByTagName('Relationship'))
+        .find(rel => rel.getAttribute('Id') === relationId);
+      const target = relation?.getAttribute('Target');
+
+      if (target) {
+        return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      }
+    }
+
+    return 'xl/worksheets/sheet1.xml';
+  }
+
+  /**
+   * Extraer los archivos XML de un ZIP usando DecompressionStream del navegador
+   */
+  private static async unzip(buffer: ArrayBuffer): Promise<Record<string, string>> {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder();
+
+    // Buscar el registro de fin de directorio central
+    let endOffset = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+      if (view.getUint32(i, true) === 0x06054b50) {
+        endOffset = i;
+        break;
+      }
+    }
+
+    if (endOffset < 0) {
+      throw new Error('El archivo XLSX está dañado o no es válido');
+    }
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let offset = view.getUint32(endOffset + 16, true);
+    const entries: Record<string, string> = {};
+
+    for (let i = 0; i < entryCount; i++) {
+      if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+      const method = view.getUint16(offset + 10, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+
+      const dataStart = localOffset + 30 +
+        view.getUint16(localOffset + 26, true) +
+        view.getUint16(localOffset + 28, true);
+      const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+      if (method === 0) {
+        entries[name] = decoder.decode(data);
+      } else if (method === 8) {
+        const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        entries[name] = await new Response(stream).text();
+      }
+    }
+
+    return entries;
+  }
+
+  private static parseXML(xml: string): Document {
+    return new DOMParser().parseFromString(xml, 'application/xml');
+  }
+
+  /**
+   * Convertir una referencia de celda (p. ej. "AB12") en índice de columna
+   */
+  private static columnIndex(reference: string): number {
+    const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+    return letters.split('').reduce((acc, letter) => acc * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+  }
+
+  /**
+   * Recortar espacios y descartar las filas vacías del final
+   */
+  private static cleanRows(rows: string[][]): string[][] {
+    const cleaned = rows.map(row => row.map(cell => (cell ?? '').trim()));
+
+    while (cleaned.length > 0 && this.isBlankRow(cleaned[cleaned.length - 1])) {
+      cleaned.pop();
+    }
+
+    return cleaned;
+  }
+}